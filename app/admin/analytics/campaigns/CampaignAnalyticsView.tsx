@@ -0,0 +1,184 @@
+'use client';
+
+/**
+ * Campaign Analytics workspace
+ *
+ * WHAT: Bitly clicks grouped by UTM source / medium / campaign across partners
+ *      and events, with top countries and referrers per campaign and a
+ *      comparison of the leading campaigns over time.
+ * HOW: Renders what /api/analytics/campaigns returns (lib/bitly-campaigns.ts);
+ *      grouping and scaling happen on the server.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import AnalyticsSectionCard from '@/components/analytics/AnalyticsSectionCard';
+import AnalyticsStatePanel from '@/components/analytics/AnalyticsStatePanel';
+import LineChart from '@/components/analytics/LineChart';
+import { apiGet } from '@/lib/apiClient';
+import type { CampaignAnalytics, CampaignField, CampaignInterval } from '@/lib/bitly-campaigns';
+import styles from './CampaignAnalyticsView.module.css';
+
+// Campaigns drawn on the comparison chart; the table lists the rest
+const CHART_CAMPAIGNS = 5;
+const CHART_COLORS = ['#3b82f6', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981'];
+
+const GROUPINGS: Array<{ value: string; label: string }> = [
+  { value: 'campaign', label: 'Campaign' },
+  { value: 'source', label: 'Source' },
+  { value: 'medium', label: 'Medium' },
+  { value: 'source,medium', label: 'Source / Medium' },
+  { value: 'source,medium,campaign', label: 'Source / Medium / Campaign' },
+];
+
+const FIELD_LABELS: Record<CampaignField, string> = { source: 'Source', medium: 'Medium', campaign: 'Campaign' };
+
+function daysAgo(days: number): string {
+  return new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+export default function CampaignAnalyticsView() {
+  const [groupBy, setGroupBy] = useState('campaign');
+  const [interval, setPeriodInterval] = useState<CampaignInterval>('week');
+  const [startDate, setStartDate] = useState(daysAgo(90));
+  const [endDate, setEndDate] = useState(daysAgo(0));
+  const [data, setData] = useState<CampaignAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const params = new URLSearchParams({ groupBy, interval });
+      if (startDate) params.set('startDate', startDate);
+      if (endDate) params.set('endDate', endDate);
+      const response = await apiGet(`/api/analytics/campaigns?${params}`);
+      if (!response.success) throw new Error(response.error || 'Failed to load campaign analytics');
+      setData(response.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load campaign analytics.');
+    } finally {
+      setLoading(false);
+    }
+  }, [groupBy, interval, startDate, endDate]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const filters = (
+    <div className={styles.filterGroup}>
+      <label className={styles.filterLabel}>
+        <span>Group by</span>
+        <select className={styles.filterSelect} value={groupBy} onChange={(e) => setGroupBy(e.target.value)}>
+          {GROUPINGS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </label>
+      <label className={styles.filterLabel}>
+        <span>Interval</span>
+        <select
+          className={styles.filterSelect}
+          value={interval}
+          onChange={(e) => setPeriodInterval(e.target.value as CampaignInterval)}
+        >
+          <option value="day">Day</option>
+          <option value="week">Week</option>
+          <option value="month">Month</option>
+        </select>
+      </label>
+      <label className={styles.filterLabel}>
+        <span>From</span>
+        <input type="date" className={styles.filterSelect} value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+      </label>
+      <label className={styles.filterLabel}>
+        <span>To</span>
+        <input type="date" className={styles.filterSelect} value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+      </label>
+    </div>
+  );
+
+  if (loading && !data) {
+    return <AnalyticsStatePanel variant="loading" title="Loading campaign analytics" description="Grouping Bitly links by UTM parameters." />;
+  }
+  if (error) {
+    return (
+      <AnalyticsStatePanel
+        variant="error"
+        title="Could not load campaign analytics"
+        description={error}
+        action={<button type="button" className="btn btn-secondary" onClick={load}>Retry</button>}
+      />
+    );
+  }
+  if (!data) return null;
+
+  const chartDatasets = data.campaigns.slice(0, CHART_CAMPAIGNS).map((row, index) => ({
+    label: row.key,
+    color: CHART_COLORS[index],
+    data: data.periods.map((period, i) => ({ label: period, value: row.series[i] ?? 0 })),
+  }));
+
+  return (
+    <div className={styles.wrapper}>
+      <AnalyticsSectionCard
+        title="Campaigns"
+        subtitle={`${data.totals.campaigns} campaigns, ${data.totals.clicks.toLocaleString()} clicks on ${data.totals.links} links`}
+        actions={filters}
+      >
+        <p className={styles.note}>
+          Links are grouped by the UTM parameters of their destination URL; links without one count as
+          &ldquo;(not set)&rdquo;. Countries and referrers are scaled to the clicks inside the selected dates.
+        </p>
+        {data.campaigns.length === 0 ? (
+          <p className={styles.note}>No Bitly links have clicks in this period.</p>
+        ) : (
+          <div className={styles.tableScroll}>
+            <table className={styles.table}>
+              <caption className={styles.srOnly}>Bitly clicks by campaign</caption>
+              <thead>
+                <tr>
+                  {data.groupBy.map((field) => (
+                    <th key={field} scope="col">{FIELD_LABELS[field]}</th>
+                  ))}
+                  <th scope="col">Clicks</th>
+                  <th scope="col">Links</th>
+                  <th scope="col">Events</th>
+                  <th scope="col">Partners</th>
+                  <th scope="col">Top countries</th>
+                  <th scope="col">Top referrers</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.campaigns.map((row) => (
+                  <tr key={row.key}>
+                    {data.groupBy.map((field) => (
+                      <td key={field} className={styles.campaignName}>{row.identity[field]}</td>
+                    ))}
+                    <td className={styles.numeric}>{row.clicks.toLocaleString()}</td>
+                    <td className={styles.numeric}>{row.links}</td>
+                    <td className={styles.numeric}>{row.events}</td>
+                    <td className={styles.numeric}>{row.partners}</td>
+                    <td>{row.topCountries.map((c) => `${c.country} (${c.clicks})`).join(', ') || '—'}</td>
+                    <td>{row.topReferrers.map((r) => `${r.domain} (${r.clicks})`).join(', ') || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </AnalyticsSectionCard>
+
+      {chartDatasets.length > 0 && data.periods.length > 0 && (
+        <LineChart
+          title="Clicks over time"
+          subtitle={`Top ${chartDatasets.length} by clicks, per ${data.interval}`}
+          datasets={chartDatasets}
+          filename="campaign-clicks"
+          yAxisLabel="Clicks"
+        />
+      )}
+    </div>
+  );
+}
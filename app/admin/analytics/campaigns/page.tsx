@@ -0,0 +1,13 @@
+'use client';
+
+/**
+ * Campaign Analytics workspace page
+ * WHAT: Route shell for the UTM campaign view.
+ * WHY: Matches the other analytics pages, which compose a view component.
+ */
+
+import CampaignAnalyticsView from './CampaignAnalyticsView';
+
+export default function CampaignAnalyticsPage() {
+  return <CampaignAnalyticsView />;
+}
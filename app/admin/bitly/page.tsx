@@ -15,7 +15,7 @@ import ProjectSelector from '@/components/ProjectSelector';
 import PartnerSelector from '@/components/PartnerSelector';
 import FormModal from '@/components/modals/FormModal';
 import styles from './page.module.css';
-import { apiPost, apiPut, apiDelete } from '@/lib/apiClient';
+import { apiGet, apiPost, apiPut, apiDelete } from '@/lib/apiClient';
 
 // WHAT: Type definitions for links, projects, and partners
 // WHY: Maintains type safety for Bitly integration with {messmass} events
@@ -52,6 +52,30 @@ interface BitlyLink {
   }>;
 }
 
+// WHAT: One link's record from the link health monitor (GET /api/bitly/health)
+interface LinkHealthItem {
+  _id: string;
+  bitlink: string;
+  title: string;
+  long_url: string;
+  status: 'healthy' | 'warning' | 'critical';
+  issues: Array<{
+    type: 'no_clicks' | 'click_spike' | 'destination_error' | 'redirect_chain';
+    severity: 'warning' | 'critical';
+    message: string;
+    since: string;
+  }>;
+  destination: { finalUrl: string; finalStatus: number | null; redirects: number; checkedAt: string } | null;
+  checkedAt: string;
+}
+
+const HEALTH_ISSUE_LABELS: Record<LinkHealthItem['issues'][number]['type'], string> = {
+  no_clicks: 'No clicks',
+  click_spike: 'Click spike',
+  destination_error: 'Destination error',
+  redirect_chain: 'Redirect chain',
+};
+
 interface Project {
   _id: string;
   eventName: string;
@@ -99,6 +123,12 @@ export default function BitlyAdminPage() {
   // WHAT: Favorite filter state
   // WHY: Allow users to show only favorited links
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+
+  // WHAT: Link health list (links with open issues) and counts by status
+  const [healthItems, setHealthItems] = useState<LinkHealthItem[]>([]);
+  const [healthSummary, setHealthSummary] = useState({ healthy: 0, warning: 0, critical: 0 });
+  const [healthCheckedAt, setHealthCheckedAt] = useState<string | null>(null);
+  const [checkingHealth, setCheckingHealth] = useState(false);
   
   // WHAT: Form state for adding new links
   const [showAddForm, setShowAddForm] = useState(false);
@@ -133,6 +163,25 @@ export default function BitlyAdminPage() {
       .catch(err => console.error('Failed to load partners:', err));
   }, []);
 
+  // WHAT: Load the link health list (unhealthy links only)
+  // WHY: Written nightly by the monitor; shown above the links table
+  const loadLinkHealth = useCallback(async () => {
+    try {
+      const data = await apiGet('/api/bitly/health');
+      if (data.success) {
+        setHealthItems(data.items);
+        setHealthSummary(data.summary);
+        setHealthCheckedAt(data.lastCheckedAt);
+      }
+    } catch (err) {
+      console.error('Failed to load link health:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadLinkHealth();
+  }, [loadLinkHealth]);
+
   // WHAT: Load initial page of links (first mount only)
   // WHY: Shows full loading screen on initial page load
   const loadInitialData = useCallback(async () => {
@@ -601,6 +650,33 @@ export default function BitlyAdminPage() {
     }
   }
 
+  // WHAT: Run the link health monitor now
+  // WHY: Re-check destinations after fixing them instead of waiting for the nightly run
+  async function handleCheckLinkHealth() {
+    setError('');
+    setSuccessMessage('Checking link health... This may take a minute.');
+    setCheckingHealth(true);
+
+    try {
+      const data = await apiPost('/api/bitly/health', {});
+
+      if (data.success) {
+        const { summary } = data;
+        setSuccessMessage(
+          `✓ Checked ${summary.links} links (${summary.destinationsChecked} destinations): ${summary.critical} critical, ${summary.warning} warning, ${summary.newIssues} new issues.`
+        );
+        loadLinkHealth();
+      } else {
+        setError(data.error || 'Link health check failed');
+      }
+    } catch (err) {
+      setError('Network error. Please try again.');
+      console.error('Link health check error:', err);
+    } finally {
+      setCheckingHealth(false);
+    }
+  }
+
   // WHAT: Pull links from Bitly group and import only NEW ones (bulk operation)
   // WHY: Fast bulk import that automatically skips existing links
   async function handlePullData() {
@@ -834,6 +910,14 @@ export default function BitlyAdminPage() {
             variant: 'secondary',
             title: 'Update cached metrics for all event associations'
           },
+          {
+            label: checkingHealth ? 'Checking...' : 'Check Link Health',
+            icon: '🩺',
+            onClick: handleCheckLinkHealth,
+            variant: 'secondary',
+            disabled: checkingHealth,
+            title: 'Check click anomalies and destination reachability for all links'
+          },
           {
             label: 'Add Link',
             icon: '+',
@@ -870,6 +954,63 @@ export default function BitlyAdminPage() {
         </div>
       )}
 
+      {/* WHAT: Link health — links with open issues from the monitor
+       * WHY: Broken destinations and click anomalies surface without opening each link */}
+      {(healthItems.length > 0 || healthCheckedAt) && (
+        <div className={styles.healthSection}>
+          <div className={styles.paginationHeader}>
+            <h2 className={styles.healthTitle}>🩺 Link health</h2>
+            <div className={styles.statsText}>
+              {healthSummary.critical} critical · {healthSummary.warning} warning · {healthSummary.healthy} healthy
+              {healthCheckedAt && ` · checked ${new Date(healthCheckedAt).toLocaleString()}`}
+            </div>
+          </div>
+          {healthItems.length === 0 ? (
+            <div className={styles.statsText}>✓ No open issues</div>
+          ) : (
+            <table className="projects-table table-full-width table-inherit-radius">
+              <thead>
+                <tr>
+                  <th className={styles.colBitlink}>Bitlink</th>
+                  <th>Issues</th>
+                  <th className={styles.colDestination}>Destination</th>
+                </tr>
+              </thead>
+              <tbody>
+                {healthItems.map((item) => (
+                  <tr key={item._id}>
+                    <td className={styles.cellBreakAll}>
+                      <strong>{item.bitlink}</strong>
+                      <div className={styles.statsText}>{item.title}</div>
+                    </td>
+                    <td>
+                      {item.issues.map((issue) => (
+                        <div key={issue.type} className={styles.healthIssue}>
+                          <span className={`badge ${issue.severity === 'critical' ? 'badge-danger' : 'badge-warning'}`}>
+                            {HEALTH_ISSUE_LABELS[issue.type]}
+                          </span>{' '}
+                          {issue.message}
+                          <span className={styles.statsText}> · since {new Date(issue.since).toLocaleDateString()}</span>
+                        </div>
+                      ))}
+                    </td>
+                    <td className={styles.cellBreakAll}>
+                      <a href={item.long_url} target="_blank" rel="noopener noreferrer">{item.long_url}</a>
+                      {item.destination && (
+                        <div className={styles.statsText}>
+                          {item.destination.finalStatus ?? 'no response'}
+                          {item.destination.redirects > 0 && ` after ${item.destination.redirects} redirect${item.destination.redirects === 1 ? '' : 's'}`}
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
       {/* WHAT: Pagination stats header showing X of Y items
        * WHY: Consistent format matching projects page design */}
       {!loading && links.length > 0 && (
@@ -8,7 +8,9 @@ import HashtagMultiSelect from '@/components/HashtagMultiSelect';
 import SharePopup from '@/components/SharePopup';
 import UnifiedAdminHeroWithSearch from '@/components/UnifiedAdminHeroWithSearch';
 import ColoredCard from '@/components/ColoredCard';
+import FilterQueryBuilder from '@/components/FilterQueryBuilder';
 import { apiPost } from '@/lib/apiClient';
+import { filterFromHashtags, formatFilterExpression, parseFilterExpression, type FilterNode } from '@/lib/filterQuery';
 import { getStoredOrDerivedTotalFans } from '@/lib/totalFans';
 
 interface ProjectStats {
@@ -104,27 +106,42 @@ function HashtagFilterPageContent() {
   const [pageStyles, setPageStyles] = useState<{ _id: string; name: string }[]>([]);
   const [selectedStyleId, setSelectedStyleId] = useState<string>('');
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
+  // WHAT: Query mode — a filter expression (lib/filterQuery.ts) instead of a tag list
+  // WHY: AND/OR/NOT, partners, organizations, dates and stat predicates; the
+  //     builder and the text box edit the same expression
+  const [filterMode, setFilterMode] = useState<'hashtags' | 'query'>('hashtags');
+  const [queryNode, setQueryNode] = useState<FilterNode | null>(null);
+  const [queryText, setQueryText] = useState('');
+  const [queryError, setQueryError] = useState<string | null>(null);
 
   // Track last-applied and last-style tags to prevent duplicate requests/loops
   const lastAppliedTagsRef = useRef<string>('');
   const lastStyleTagsRef = useRef<string>('');
 
+  // The expression being applied/shared in query mode, or null when it is incomplete
+  const activeExpression = filterMode === 'query' && queryNode && !queryError ? queryText : null;
+
   // Fetch filtered statistics (guarded against duplicate tag sets)
-  const fetchFilteredStats = useCallback(async (hashtags = selectedHashtags) => {
-    if (hashtags.length === 0) return;
+  const fetchFilteredStats = useCallback(async (hashtags = selectedHashtags, expression = activeExpression) => {
+    if (!expression && hashtags.length === 0) return;
 
     const tagsParam = hashtags.join(',');
-    if (tagsParam === lastAppliedTagsRef.current) {
+    const requestKey = expression ? `q:${expression}` : tagsParam;
+    if (requestKey === lastAppliedTagsRef.current) {
       // Prevent re-fetch loop on same tag set
       return;
     }
-    lastAppliedTagsRef.current = tagsParam;
+    lastAppliedTagsRef.current = requestKey;
 
     setStatsLoading(true);
     setError(null);
     
     try {
-      const response = await fetch(`/api/hashtags/filter?tags=${encodeURIComponent(tagsParam)}`);
+      const response = await fetch(
+        expression
+          ? `/api/hashtags/filter?q=${encodeURIComponent(expression)}`
+          : `/api/hashtags/filter?tags=${encodeURIComponent(tagsParam)}`
+      );
       const data = await response.json();
 
       if (data.success) {
@@ -146,7 +163,7 @@ function HashtagFilterPageContent() {
     } finally {
       setStatsLoading(false);
     }
-  }, [selectedHashtags]);
+  }, [selectedHashtags, activeExpression]);
 
   // Load available hashtags on mount
   useEffect(() => {
@@ -199,6 +216,36 @@ function HashtagFilterPageContent() {
     setLoading(false);
   }, [searchParams, selectedHashtags]);
 
+  // Parse ?q= (query mode) and load the style saved for that expression
+  useEffect(() => {
+    const qParam = searchParams?.get('q');
+    if (!qParam) return;
+    try {
+      const node = parseFilterExpression(qParam);
+      const canonical = formatFilterExpression(node);
+      setFilterMode('query');
+      setQueryNode(node);
+      setQueryText(canonical);
+      setQueryError(null);
+      if (`q:${canonical}` !== lastStyleTagsRef.current) {
+        lastStyleTagsRef.current = `q:${canonical}`;
+        (async () => {
+          try {
+            const res = await fetch(`/api/admin/filter-style?expression=${encodeURIComponent(canonical)}`);
+            const data = await res.json();
+            if (data.success) setSelectedStyleId(data.styleId || '');
+          } catch (e) {
+            console.error('Failed to load persisted style for expression', e);
+          }
+        })();
+      }
+    } catch (parseError) {
+      setFilterMode('query');
+      setQueryText(qParam);
+      setQueryError(parseError instanceof Error ? parseError.message : 'Invalid filter expression');
+    }
+  }, [searchParams]);
+
   // Server-side search for hashtags (debounced)
   useEffect(() => {
     const handler = setTimeout(async () => {
@@ -264,9 +311,58 @@ function HashtagFilterPageContent() {
 
   // Handle apply filter
   const handleApplyFilter = () => {
+    if (filterMode === 'query' && activeExpression) {
+      router.push(`/admin/filter?q=${encodeURIComponent(activeExpression)}`, { scroll: false });
+    }
     fetchFilteredStats();
   };
 
+  // Builder edits: keep the text form in sync and check the result parses back
+  const handleQueryNodeChange = (node: FilterNode | null) => {
+    setQueryNode(node);
+    if (!node) {
+      setQueryText('');
+      setQueryError(null);
+      return;
+    }
+    const text = formatFilterExpression(node);
+    setQueryText(text);
+    try {
+      parseFilterExpression(text);
+      setQueryError(null);
+    } catch (parseError) {
+      setQueryError(parseError instanceof Error ? parseError.message : 'Incomplete condition');
+    }
+  };
+
+  // Text edits: replace the builder tree once the text parses
+  const handleQueryTextChange = (text: string) => {
+    setQueryText(text);
+    if (!text.trim()) {
+      setQueryNode(null);
+      setQueryError(null);
+      return;
+    }
+    try {
+      setQueryNode(parseFilterExpression(text));
+      setQueryError(null);
+    } catch (parseError) {
+      setQueryError(parseError instanceof Error ? parseError.message : 'Invalid filter expression');
+    }
+  };
+
+  // Switching to query mode starts from the selected tags
+  const handleModeChange = (mode: 'hashtags' | 'query') => {
+    setFilterMode(mode);
+    setProject(null);
+    setProjects([]);
+    setHasAppliedFilter(false);
+    lastAppliedTagsRef.current = '';
+    if (mode === 'query' && !queryNode && selectedHashtags.length > 0) {
+      handleQueryNodeChange(filterFromHashtags(selectedHashtags));
+    }
+  };
+
   // Export filtered results as CSV
   const exportFilteredCSV = () => {
     if (!project) return;
@@ -274,7 +370,9 @@ function HashtagFilterPageContent() {
     const stats = project.stats;
     const csvData = [
       ['Multi-Hashtag Filter Export'],
-      ['Filter Tags', selectedHashtags.map(tag => `#${tag}`).join(' AND ')],
+      activeExpression
+        ? ['Filter Expression', `"${activeExpression.replace(/"/g, '""')}"`]
+        : ['Filter Tags', selectedHashtags.map(tag => `#${tag}`).join(' AND ')],
       ['Projects Matched', project.projectCount.toString()],
       ['Date Range', project.dateRange.formatted],
       ['Generated', new Date().toLocaleString()],
@@ -320,7 +418,7 @@ function HashtagFilterPageContent() {
     if (link.download !== undefined) {
       const url = URL.createObjectURL(blob);
       link.setAttribute('href', url);
-      link.setAttribute('download', `hashtag_filter_${selectedHashtags.join('_')}_export.csv`);
+      link.setAttribute('download', activeExpression ? 'filter_expression_export.csv' : `hashtag_filter_${selectedHashtags.join('_')}_export.csv`);
       link.style.visibility = 'hidden';
       document.body.appendChild(link);
       link.click();
@@ -351,7 +449,7 @@ function HashtagFilterPageContent() {
     <div className="page-container">
       <UnifiedAdminHeroWithSearch
         title="🔍 Hashtag Filter"
-        subtitle="Filter projects by multiple hashtags and generate shareable URLs"
+        subtitle="Filter projects by hashtags or a query and generate shareable URLs"
         backLink="/admin"
         showSearch
         searchValue={searchQuery}
@@ -379,7 +477,8 @@ function HashtagFilterPageContent() {
           <div className="flex flex-wrap gap-2">
             {/* WHAT: Display selected filter hashtags using centralized ColoredHashtagBubble component
              * WHY: No inline style overrides - all styling controlled by CSS modules for consistency */}
-            {selectedHashtags.map((hashtag) => (
+            {activeExpression && <code className="text-sm">{activeExpression}</code>}
+            {!activeExpression && selectedHashtags.map((hashtag) => (
               <ColoredHashtagBubble 
                 key={hashtag}
                 hashtag={hashtag}
@@ -395,8 +494,31 @@ function HashtagFilterPageContent() {
                 Apply button visible when hashtags selected; Share/Export appear after applying filter. */}
       <ColoredCard accentColor="#6366f1" hoverable={false} className="p-3 mb-4">
         <div className="flex gap-2 flex-wrap justify-center">
+          <select
+            className="form-select min-w-200"
+            value={filterMode}
+            onChange={(e) => handleModeChange(e.target.value as 'hashtags' | 'query')}
+            title="Filter by a hashtag list or build a query"
+          >
+            <option value="hashtags">Hashtags (all must match)</option>
+            <option value="query">Query builder</option>
+          </select>
+
+          {/* Apply Filter Button - visible when a query is complete */}
+          {filterMode === 'query' && (
+            <button
+              type="button"
+              className="btn btn-small btn-primary"
+              onClick={handleApplyFilter}
+              disabled={statsLoading || !activeExpression}
+              title={queryError || 'Apply the query'}
+            >
+              🔍 Apply Query
+            </button>
+          )}
+
           {/* Apply Filter Button - visible when hashtags are selected */}
-          {selectedHashtags.length > 0 && (
+          {filterMode === 'hashtags' && selectedHashtags.length > 0 && (
             <button
               type="button"
               className="btn btn-small btn-primary"
@@ -421,10 +543,10 @@ function HashtagFilterPageContent() {
                         // Persist selection immediately so the UI remembers next time.
                         // We use the admin POST endpoint that upserts in filter_slugs.
                         try {
-                          if (selectedHashtags.length > 0) {
+                          if (activeExpression || selectedHashtags.length > 0) {
                             // WHAT: Use apiPost() for automatic CSRF token handling
                             const data = await apiPost('/api/admin/filter-style', {
-                              hashtags: selectedHashtags,
+                              ...(activeExpression ? { expression: activeExpression } : { hashtags: selectedHashtags }),
                               styleId: newId || null
                             });
                             if (!data.success) throw new Error('Failed to save');
@@ -463,7 +585,7 @@ function HashtagFilterPageContent() {
                         try {
                           // WHAT: Generate filter slug using apiPost() for automatic CSRF token handling
                           const data = await apiPost('/api/filter-slug', {
-                            hashtags: selectedHashtags,
+                            ...(activeExpression ? { expression: activeExpression } : { hashtags: selectedHashtags }),
                             styleId: selectedStyleId || null
                           });
                           
@@ -495,7 +617,26 @@ function HashtagFilterPageContent() {
         </div>
       </ColoredCard>
 
+      {/* Query builder (query mode) */}
+      {filterMode === 'query' && (
+        <ColoredCard accentColor="#8b5cf6" hoverable={false} className="p-4 mb-4">
+          <FilterQueryBuilder value={queryNode} onChange={handleQueryNodeChange} disabled={statsLoading} />
+          <label className="form-label mt-4" htmlFor="filter-query-text">Query</label>
+          <textarea
+            id="filter-query-text"
+            className="form-input"
+            rows={2}
+            value={queryText}
+            onChange={(e) => handleQueryTextChange(e.target.value)}
+            placeholder='(summer OR winter) AND NOT friendly AND partner:"FC Barcelona" AND date:2025-01-01..2025-12-31 AND stats.eventAttendees > 5000'
+            spellCheck={false}
+          />
+          {queryError && <div className="alert alert-danger mt-2">{queryError}</div>}
+        </ColoredCard>
+      )}
+
       {/* Hashtag Selection and Load More */}
+      {filterMode === 'hashtags' && (
       <ColoredCard accentColor="#8b5cf6" hoverable={false} className="p-4">
         <HashtagMultiSelect
           hashtags={availableHashtags}
@@ -524,6 +665,7 @@ function HashtagFilterPageContent() {
           )}
         </div>
       </ColoredCard>
+      )}
 
       {/* Loading State */}
       {statsLoading && (
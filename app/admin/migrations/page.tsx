@@ -0,0 +1,223 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import UnifiedAdminHeroWithSearch from '@/components/UnifiedAdminHeroWithSearch';
+import ColoredCard from '@/components/ColoredCard';
+import { apiGet } from '@/lib/apiClient';
+import styles from './page.module.css';
+
+/* WHAT: Migrations Page
+   WHY: Show which tracked migrations are applied in which environment, and
+        what the recent runs logged, without shell access to the database
+   HOW: Lists /api/admin/migrations; read-only — migrations run from
+        `npm run migrate:up` / `migrate:down` */
+
+type MigrationState = 'applied' | 'pending' | 'failed' | 'running';
+
+interface MigrationInfo {
+  name: string;
+  description: string;
+  reversible: boolean;
+}
+
+interface EnvironmentStatus {
+  name: string;
+  state: MigrationState;
+  appliedAt?: string;
+}
+
+interface MigrationRun {
+  id: string;
+  scriptName: string;
+  direction: 'up' | 'down';
+  environment: string;
+  status: 'pending' | 'success' | 'failed';
+  executedAt: string;
+  durationMs?: number;
+  executedBy?: string;
+  logs: string[];
+  errorMessage?: string;
+}
+
+const STATE_LABELS: Record<MigrationState, string> = {
+  applied: '✅ Applied',
+  pending: '⏳ Pending',
+  failed: '❌ Failed',
+  running: '🔄 Running',
+};
+
+export default function MigrationsPage() {
+  const { user, loading } = useAdminAuth();
+  const [migrations, setMigrations] = useState<MigrationInfo[]>([]);
+  const [environments, setEnvironments] = useState<string[]>([]);
+  const [currentEnvironment, setCurrentEnvironment] = useState('');
+  const [status, setStatus] = useState<Record<string, EnvironmentStatus[]>>({});
+  const [runs, setRuns] = useState<MigrationRun[]>([]);
+  const [expandedRun, setExpandedRun] = useState<string | null>(null);
+  const [fetching, setFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMigrations = useCallback(async () => {
+    setFetching(true);
+    setError(null);
+    try {
+      const data = await apiGet('/api/admin/migrations');
+      if (data.success) {
+        setMigrations(data.migrations);
+        setEnvironments(data.environments);
+        setCurrentEnvironment(data.currentEnvironment);
+        setStatus(data.status);
+        setRuns(data.recentRuns);
+      } else {
+        setError(data.error || 'Failed to load migrations');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load migrations');
+    } finally {
+      setFetching(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) void loadMigrations();
+  }, [user, loadMigrations]);
+
+  if (loading) {
+    return (
+      <div className="page-container flex items-center justify-center min-h-screen">
+        <ColoredCard accentColor="#6366f1" hoverable={false} className="text-center">
+          <div className="text-4xl mb-4">🗄️</div>
+          <div className="text-gray-600">Loading...</div>
+        </ColoredCard>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const stateOf = (environment: string, name: string) => status[environment]?.find((s) => s.name === name);
+  const pendingHere = (status[currentEnvironment] ?? []).filter((s) => s.state !== 'applied').length;
+
+  return (
+    <div className="page-container">
+      <UnifiedAdminHeroWithSearch
+        title="🗄️ Migrations"
+        subtitle="Tracked database migrations and where they are applied"
+        backLink="/admin"
+        badges={[
+          { text: 'System Tools', variant: 'primary' },
+          ...(currentEnvironment ? [{ text: `This deployment: ${currentEnvironment}`, variant: 'secondary' as const }] : []),
+          ...(pendingHere > 0 ? [{ text: `${pendingHere} not applied here`, variant: 'warning' as const }] : []),
+        ]}
+      />
+
+      <ColoredCard accentColor="#f59e0b" hoverable={false}>
+        <div className={styles.header}>
+          <h3 className="text-xl font-bold text-gray-900">State per environment</h3>
+          <button onClick={loadMigrations} disabled={fetching} className="btn btn-secondary btn-small">
+            {fetching ? '🔄 Refreshing...' : '🔄 Refresh'}
+          </button>
+        </div>
+
+        {error && <div className={styles.error}>{error}</div>}
+
+        {migrations.length === 0 ? (
+          <p className={styles.empty}>{fetching ? 'Loading…' : 'No migrations are registered.'}</p>
+        ) : (
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Migration</th>
+                {environments.map((environment) => (
+                  <th key={environment}>{environment}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {migrations.map((migration) => (
+                <tr key={migration.name}>
+                  <td>
+                    <div className={styles.name}>{migration.name}</div>
+                    <div className={styles.description}>
+                      {migration.description}
+                      {!migration.reversible && ' · irreversible'}
+                    </div>
+                  </td>
+                  {environments.map((environment) => {
+                    const entry = stateOf(environment, migration.name);
+                    const state = entry?.state ?? 'pending';
+                    return (
+                      <td key={environment} className={styles[state]}>
+                        {STATE_LABELS[state]}
+                        {entry?.appliedAt && <div className={styles.when}>{new Date(entry.appliedAt).toLocaleString()}</div>}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </ColoredCard>
+
+      <ColoredCard accentColor="#6366f1" hoverable={false}>
+        <h3 className="text-xl font-bold text-gray-900">Recent runs</h3>
+        {runs.length === 0 ? (
+          <p className={styles.empty}>No migration has run yet.</p>
+        ) : (
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>When</th>
+                <th>Environment</th>
+                <th>Migration</th>
+                <th>Direction</th>
+                <th>Result</th>
+                <th>By</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run) => (
+                <Fragment key={run.id}>
+                  <tr>
+                    <td>{new Date(run.executedAt).toLocaleString()}</td>
+                    <td>{run.environment}</td>
+                    <td className={styles.name}>{run.scriptName}</td>
+                    <td>{run.direction === 'up' ? '⬆️ apply' : '⬇️ rollback'}</td>
+                    <td className={run.status === 'success' ? styles.applied : run.status === 'failed' ? styles.failed : styles.running}>
+                      {run.status}
+                      {run.durationMs !== undefined && <span className={styles.when}> {run.durationMs}ms</span>}
+                    </td>
+                    <td className={styles.description}>{run.executedBy ?? '—'}</td>
+                    <td className={styles.actions}>
+                      {(run.logs.length > 0 || run.errorMessage) && (
+                        <button
+                          onClick={() => setExpandedRun(expandedRun === run.id ? null : run.id)}
+                          className="btn btn-small btn-secondary"
+                        >
+                          {expandedRun === run.id ? 'Hide log' : 'Log'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                  {expandedRun === run.id && (
+                    <tr>
+                      <td colSpan={7}>
+                        {run.errorMessage && <div className={styles.error}>{run.errorMessage}</div>}
+                        <pre className={styles.log}>{run.logs.join('\n')}</pre>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </ColoredCard>
+    </div>
+  );
+}
@@ -11,6 +11,14 @@ import { FormModal } from '@/components/modals';
 import { useAdminAuth } from '@/hooks/useAdminAuth';
 import { apiPost, apiPut } from '@/lib/apiClient';
 import { hasReportVariantCreateFormErrors, validateReportVariantCreateForm } from '@/lib/reportVariantFormValidation';
+import {
+  DEFAULT_ROLLING_DAYS,
+  DEFAULT_SEASON_START_MONTH,
+  REPORT_COMPARISON_PRESET_LABELS,
+  REPORT_PERIOD_PRESET_LABELS,
+  type ReportComparisonPreset,
+} from '@/lib/reportPeriods';
+import { REPORT_COMPARISON_PRESETS, REPORT_PERIOD_PRESETS } from '@/lib/reportPeriodValidation';
 import styles from './page.module.css';
 import { useCallback } from 'react';
 
@@ -22,6 +30,8 @@ type ReportVariant = {
   status: 'draft' | 'published' | 'archived';
   periodPreset: string;
   customDateRange: { startDate: string; endDate: string } | null;
+  periodOptions?: { rollingDays?: number; seasonStartMonth?: number };
+  comparisonPreset?: string | null;
   createdAt: string;
   updatedAt: string;
 };
@@ -31,26 +41,60 @@ type OrganizationRecord = {
   name: string;
 };
 
-const PERIOD_OPTIONS = [
-  { value: 'all_time', label: 'All Time' },
-  { value: 'this_month', label: 'This Month' },
-  { value: 'last_30_days', label: 'Last 30 Days' },
-  { value: 'this_year', label: 'This Year' },
-  { value: 'last_year', label: 'Last Year' },
-  { value: 'custom', label: 'Custom Time Period' },
+const PERIOD_OPTIONS = REPORT_PERIOD_PRESETS.map((value) => ({ value, label: REPORT_PERIOD_PRESET_LABELS[value] }));
+
+const COMPARISON_OPTIONS = [
+  { value: 'none', label: 'No Comparison' },
+  ...REPORT_COMPARISON_PRESETS.map((value) => ({ value, label: `vs ${REPORT_COMPARISON_PRESET_LABELS[value]}` })),
 ];
 
+const MONTH_OPTIONS = Array.from({ length: 12 }, (_, index) => ({
+  value: String(index + 1),
+  label: new Date(Date.UTC(2000, index, 1)).toLocaleString('en-US', { month: 'long', timeZone: 'UTC' }),
+}));
+
+const EMPTY_CREATE_FORM = {
+  name: '',
+  periodPreset: 'all_time',
+  customStartDate: '',
+  customEndDate: '',
+  rollingDays: String(DEFAULT_ROLLING_DAYS),
+  seasonStartMonth: String(DEFAULT_SEASON_START_MONTH),
+  comparisonPreset: 'none',
+};
+
 function getVariantPageId(basePageId: string, variantSlug?: string | null): string {
   if (!variantSlug || variantSlug === 'default') return basePageId;
   return `${basePageId}::variant=${variantSlug}`;
 }
 
+// WHAT: Off → previous period → previous year → off
+function nextComparisonPreset(current?: string | null): ReportComparisonPreset | null {
+  if (!current) return 'previous_period';
+  if (current === 'previous_period') return 'previous_year';
+  return null;
+}
+
 function formatPeriodLabel(variant: ReportVariant) {
+  const comparison = variant.comparisonPreset
+    ? ` · vs ${REPORT_COMPARISON_PRESET_LABELS[variant.comparisonPreset as ReportComparisonPreset] || variant.comparisonPreset}`
+    : '';
+
   if (variant.periodPreset === 'custom' && variant.customDateRange) {
-    return `${variant.customDateRange.startDate} to ${variant.customDateRange.endDate}`;
+    return `${variant.customDateRange.startDate} to ${variant.customDateRange.endDate}${comparison}`;
   }
 
-  return PERIOD_OPTIONS.find((option) => option.value === variant.periodPreset)?.label || variant.periodPreset;
+  if (variant.periodPreset === 'rolling_days') {
+    return `Last ${variant.periodOptions?.rollingDays || DEFAULT_ROLLING_DAYS} Days${comparison}`;
+  }
+
+  if (variant.periodPreset === 'this_season' || variant.periodPreset === 'last_season') {
+    const month = MONTH_OPTIONS[(variant.periodOptions?.seasonStartMonth || DEFAULT_SEASON_START_MONTH) - 1].label;
+    return `${REPORT_PERIOD_PRESET_LABELS[variant.periodPreset]} (starts ${month})${comparison}`;
+  }
+
+  const label = PERIOD_OPTIONS.find((option) => option.value === variant.periodPreset)?.label || variant.periodPreset;
+  return `${label}${comparison}`;
 }
 
 export default function OrganizationReportsWorkspacePage() {
@@ -62,12 +106,7 @@ export default function OrganizationReportsWorkspacePage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [createOpen, setCreateOpen] = useState(false);
-  const [createForm, setCreateForm] = useState({
-    name: '',
-    periodPreset: 'all_time',
-    customStartDate: '',
-    customEndDate: '',
-  });
+  const [createForm, setCreateForm] = useState(EMPTY_CREATE_FORM);
   const [shareTarget, setShareTarget] = useState<ReportVariant | null>(null);
 
   const loadWorkspace = useCallback(async () => {
@@ -128,6 +167,16 @@ export default function OrganizationReportsWorkspacePage() {
       };
     }
 
+    if (createForm.periodPreset === 'rolling_days') {
+      payload.periodOptions = { rollingDays: Number(createForm.rollingDays) };
+    } else if (createForm.periodPreset === 'this_season' || createForm.periodPreset === 'last_season') {
+      payload.periodOptions = { seasonStartMonth: Number(createForm.seasonStartMonth) };
+    }
+
+    if (createForm.comparisonPreset !== 'none') {
+      payload.comparisonPreset = createForm.comparisonPreset;
+    }
+
     const result = await apiPost('/api/report-variants', payload);
     if (!result.success) {
       setError(result.error || 'Failed to create report variant');
@@ -135,12 +184,7 @@ export default function OrganizationReportsWorkspacePage() {
     }
 
     setCreateOpen(false);
-    setCreateForm({
-      name: '',
-      periodPreset: 'all_time',
-      customStartDate: '',
-      customEndDate: '',
-    });
+    setCreateForm(EMPTY_CREATE_FORM);
     await loadWorkspace();
   };
 
@@ -268,6 +312,22 @@ export default function OrganizationReportsWorkspacePage() {
                     </button>
                   )}
 
+                  {!variant.isDefault && variant.periodPreset !== 'all_time' && (
+                    <button
+                      type="button"
+                      className={styles.inlineButton}
+                      onClick={() => updateVariant(variant._id, {
+                        comparisonPreset: nextComparisonPreset(variant.comparisonPreset),
+                      })}
+                    >
+                      {variant.comparisonPreset === 'previous_year'
+                        ? 'Turn Off Comparison'
+                        : variant.comparisonPreset === 'previous_period'
+                          ? 'Compare vs Previous Year'
+                          : 'Compare vs Previous Period'}
+                    </button>
+                  )}
+
                   <button
                     type="button"
                     className={styles.inlineButton}
@@ -330,6 +390,34 @@ export default function OrganizationReportsWorkspacePage() {
               />
             </div>
           )}
+
+          {createForm.periodPreset === 'rolling_days' && (
+            <UnifiedInputField
+              label="Number of Days"
+              value={createForm.rollingDays}
+              onChange={(value) => setCreateForm((prev) => ({ ...prev, rollingDays: value }))}
+              required
+              error={createFormErrors.rollingDays}
+            />
+          )}
+
+          {(createForm.periodPreset === 'this_season' || createForm.periodPreset === 'last_season') && (
+            <UnifiedSelectField
+              label="Season Starts In"
+              value={createForm.seasonStartMonth}
+              onChange={(value) => setCreateForm((prev) => ({ ...prev, seasonStartMonth: value }))}
+              options={MONTH_OPTIONS}
+              error={createFormErrors.seasonStartMonth}
+            />
+          )}
+
+          <UnifiedSelectField
+            label="Comparison"
+            value={createForm.comparisonPreset}
+            onChange={(value) => setCreateForm((prev) => ({ ...prev, comparisonPreset: value }))}
+            options={COMPARISON_OPTIONS}
+            error={createFormErrors.comparisonPreset}
+          />
         </div>
       </FormModal>
 
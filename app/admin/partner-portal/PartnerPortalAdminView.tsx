@@ -0,0 +1,303 @@
+'use client';
+
+/**
+ * Partner Portal admin
+ *
+ * WHAT: Invite partner contacts to the partner portal, switch their access on
+ *      and off, and read the audit of what they signed in to, viewed and exported.
+ * HOW: Contacts and the audit come from /api/admin/partner-portal
+ *      (lib/partnerPortal.ts). Inviting emails a one-time sign-in link.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import UnifiedAdminHeroWithSearch from '@/components/UnifiedAdminHeroWithSearch';
+import ColoredCard from '@/components/ColoredCard';
+import { apiDelete, apiGet, apiPatch, apiPost } from '@/lib/apiClient';
+import type { PartnerContactStatus, PortalAccessAction } from '@/lib/partnerPortal';
+import styles from './PartnerPortalAdminView.module.css';
+
+interface PartnerOption {
+  _id: string;
+  name: string;
+}
+
+interface ContactRow {
+  _id: string;
+  partnerId: string;
+  email: string;
+  name: string;
+  status: PartnerContactStatus;
+  invitedAt: string;
+  invitedBy: string;
+  lastLoginAt?: string;
+}
+
+interface AccessRow {
+  _id: string;
+  partnerId: string;
+  email: string;
+  action: PortalAccessAction;
+  target?: { type: 'event' | 'report'; id: string; label: string };
+  method?: 'magic_link' | 'sso';
+  at: string;
+  ipAddress: string;
+}
+
+const STATUS_LABELS: Record<PartnerContactStatus, string> = {
+  invited: '✉️ Invited',
+  active: '✅ Active',
+  disabled: '⛔ Disabled',
+};
+
+const ACTION_LABELS: Record<PortalAccessAction, string> = {
+  login: 'Signed in',
+  view_overview: 'Viewed portal',
+  open_event: 'Opened event report',
+  open_report: 'Opened partner report',
+  export_events: 'Downloaded events CSV',
+  export_bitly: 'Downloaded Bitly CSV',
+};
+
+function formatDate(value?: string): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+export default function PartnerPortalAdminView() {
+  const { user, loading } = useAdminAuth();
+  const [partners, setPartners] = useState<PartnerOption[]>([]);
+  const [partnerFilter, setPartnerFilter] = useState('');
+  const [contacts, setContacts] = useState<ContactRow[]>([]);
+  const [access, setAccess] = useState<AccessRow[]>([]);
+  const [accessTotal, setAccessTotal] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Invite form
+  const [invitePartnerId, setInvitePartnerId] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteName, setInviteName] = useState('');
+  const [inviting, setInviting] = useState(false);
+
+  const partnerNames = new Map(partners.map((partner) => [partner._id, partner.name]));
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const query = partnerFilter ? `?partnerId=${encodeURIComponent(partnerFilter)}` : '';
+      const [contactData, accessData] = await Promise.all([
+        apiGet(`/api/admin/partner-portal/contacts${query}`),
+        apiGet(`/api/admin/partner-portal/access-log${query}`),
+      ]);
+      setContacts(contactData.contacts || []);
+      setAccess(accessData.entries || []);
+      setAccessTotal(accessData.total || 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load partner portal');
+    }
+  }, [partnerFilter]);
+
+  useEffect(() => {
+    if (!user) return;
+    apiGet('/api/admin/partners')
+      .then((data) => setPartners(data.partners || []))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load partners'));
+  }, [user]);
+
+  useEffect(() => {
+    if (user) void load();
+  }, [user, load]);
+
+  const onInvite = async () => {
+    setInviting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const data = await apiPost('/api/admin/partner-portal/contacts', {
+        partnerId: invitePartnerId,
+        email: inviteEmail.trim(),
+        name: inviteName.trim() || undefined,
+      });
+      setNotice(
+        data.emailSent
+          ? `Invitation sent to ${data.contact.email}.`
+          : `${data.contact.email} was added, but the invitation email could not be sent (${data.emailError || 'unknown error'}). They can request a sign-in link from the portal.`
+      );
+      setInviteEmail('');
+      setInviteName('');
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to invite contact');
+    } finally {
+      setInviting(false);
+    }
+  };
+
+  const onToggle = async (contact: ContactRow) => {
+    setError(null);
+    try {
+      await apiPatch(`/api/admin/partner-portal/contacts/${contact._id}`, { enabled: contact.status === 'disabled' });
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update contact');
+    }
+  };
+
+  const onRemove = async (contact: ContactRow) => {
+    if (!confirm(`Remove ${contact.email} from the partner portal?`)) return;
+    setError(null);
+    try {
+      await apiDelete(`/api/admin/partner-portal/contacts/${contact._id}`);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove contact');
+    }
+  };
+
+  if (loading || !user) return null;
+
+  return (
+    <div className="page-container">
+      <UnifiedAdminHeroWithSearch
+        title="🪪 Partner Portal"
+        subtitle="Partner contacts who can sign in to see their own events, reports and Bitly results"
+        backLink="/admin"
+        badges={[
+          { text: `${contacts.length} contacts`, variant: 'primary' },
+          { text: `${contacts.filter((c) => c.status === 'active').length} active`, variant: 'success' },
+        ]}
+      />
+
+      {error && <div className="alert alert-danger">{error}</div>}
+      {notice && <div className={styles.notice}>{notice}</div>}
+
+      <ColoredCard accentColor="#8b5cf6" hoverable={false}>
+        <h3 className={styles.sectionTitle}>Invite a contact</h3>
+        <div className={styles.row}>
+          <label className={styles.field}>
+            <span className="form-label">Partner</span>
+            <select className="form-select" value={invitePartnerId} onChange={(e) => setInvitePartnerId(e.target.value)}>
+              <option value="">Choose a partner…</option>
+              {partners.map((partner) => (
+                <option key={partner._id} value={partner._id}>
+                  {partner.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className={`${styles.field} ${styles.wide}`}>
+            <span className="form-label">Email</span>
+            <input className="form-input" type="email" value={inviteEmail} onChange={(e) => setInviteEmail(e.target.value)} />
+          </label>
+          <label className={styles.field}>
+            <span className="form-label">Name</span>
+            <input className="form-input" value={inviteName} onChange={(e) => setInviteName(e.target.value)} />
+          </label>
+          <button className="btn btn-small btn-primary" onClick={onInvite} disabled={inviting || !invitePartnerId || !inviteEmail.trim()}>
+            {inviting ? 'Inviting…' : 'Send invitation'}
+          </button>
+        </div>
+      </ColoredCard>
+
+      <ColoredCard accentColor="#3b82f6" hoverable={false}>
+        <div className={styles.header}>
+          <h3 className={styles.sectionTitle}>Contacts</h3>
+          <label className={styles.field}>
+            <span className="form-label">Partner</span>
+            <select className="form-select" value={partnerFilter} onChange={(e) => setPartnerFilter(e.target.value)}>
+              <option value="">All partners</option>
+              {partners.map((partner) => (
+                <option key={partner._id} value={partner._id}>
+                  {partner.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {contacts.length === 0 ? (
+          <p className={styles.muted}>No contacts yet.</p>
+        ) : (
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Contact</th>
+                <th>Partner</th>
+                <th>Status</th>
+                <th>Invited</th>
+                <th>Last sign-in</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {contacts.map((contact) => (
+                <tr key={contact._id}>
+                  <td>
+                    <div>{contact.name}</div>
+                    <div className={styles.muted}>{contact.email}</div>
+                  </td>
+                  <td>{partnerNames.get(contact.partnerId) || contact.partnerId}</td>
+                  <td className={styles[contact.status]}>{STATUS_LABELS[contact.status]}</td>
+                  <td className={styles.muted}>
+                    {formatDate(contact.invitedAt)}
+                    <div>{contact.invitedBy}</div>
+                  </td>
+                  <td className={styles.muted}>{formatDate(contact.lastLoginAt)}</td>
+                  <td className={styles.actions}>
+                    <button className="btn btn-small btn-secondary" onClick={() => onToggle(contact)}>
+                      {contact.status === 'disabled' ? 'Enable' : 'Disable'}
+                    </button>
+                    <button className="btn btn-small btn-secondary" onClick={() => onRemove(contact)}>
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </ColoredCard>
+
+      <ColoredCard accentColor="#f59e0b" hoverable={false}>
+        <h3 className={styles.sectionTitle}>Access audit</h3>
+        {access.length === 0 ? (
+          <p className={styles.muted}>Nobody has used the portal yet.</p>
+        ) : (
+          <>
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>When</th>
+                  <th>Contact</th>
+                  <th>Partner</th>
+                  <th>Action</th>
+                  <th>IP address</th>
+                </tr>
+              </thead>
+              <tbody>
+                {access.map((entry) => (
+                  <tr key={entry._id}>
+                    <td>{formatDate(entry.at)}</td>
+                    <td>{entry.email}</td>
+                    <td>{partnerNames.get(entry.partnerId) || entry.partnerId}</td>
+                    <td>
+                      {ACTION_LABELS[entry.action]}
+                      {entry.target && <div className={styles.muted}>{entry.target.label}</div>}
+                      {entry.method && <div className={styles.muted}>{entry.method === 'sso' ? 'via SSO' : 'via email link'}</div>}
+                    </td>
+                    <td className={styles.muted}>{entry.ipAddress}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {accessTotal > access.length && (
+              <p className={styles.muted}>
+                Showing the latest {access.length} of {accessTotal} entries.
+              </p>
+            )}
+          </>
+        )}
+      </ColoredCard>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+'use client';
+
+/**
+ * Partner Portal admin page
+ * WHAT: Route shell for partner portal contacts and the access audit.
+ * WHY: Matches the other admin workspaces, which compose a view component.
+ */
+
+import PartnerPortalAdminView from './PartnerPortalAdminView';
+
+export default function PartnerPortalAdminPage() {
+  return <PartnerPortalAdminView />;
+}
@@ -1025,11 +1025,12 @@ export default function QuickAddPage() {
         <>
           <ColoredCard accentColor="#f59e0b" hoverable={false} className="mb-6 border-left-accent">
             <h3 className="section-subtitle mb-4">⚽ Suggested Fixtures</h3>
-            <p className="text-sm text-gray-600 mb-2">Select a home partner to see upcoming fixtures from TheSportsDB. Create draft events in one click.</p>
+            <p className="text-sm text-gray-600 mb-2">Select a home partner to see upcoming fixtures from Football-Data.org, TheSportsDB and API-Sports. Create draft events in one click.</p>
             <ul className="text-sm text-gray-600 list-disc-padded">
               <li className="mb-2">Requires the home team to exist in partners.</li>
+              <li className="mb-2">Fixtures matched to the partner by name only are marked with their match confidence; creating a draft confirms the match.</li>
               <li className="mb-2">Opponent will be created as draft partner if missing (when allowed).</li>
-              <li>Fixtures are cached locally and refreshed via admin sync.</li>
+              <li>Fixtures are cached locally, de-duplicated across providers and refreshed via admin sync.</li>
             </ul>
           </ColoredCard>
 
@@ -1055,9 +1056,8 @@ export default function QuickAddPage() {
                 onClick={async () => {
                   setError(''); setSuccess(''); setLoadingFixtures(true);
                   try {
-                    const partner = partners.find(p => p._id === suggestHomePartnerId);
-                    const teamId = partner?.sportsDb?.teamId;
-                    const res = await fetch(`/api/sports-db/fixtures?partnerId=${encodeURIComponent(suggestHomePartnerId)}&homeOnly=true&status=Not%20Started&limit=25`);
+                    const today = new Date().toISOString().slice(0, 10);
+                    const res = await fetch(`/api/fixtures?partnerId=${encodeURIComponent(suggestHomePartnerId)}&homeOnly=true&includeSuggestions=true&status=scheduled&dateFrom=${today}&limit=25`);
                     const data = await res.json();
                     if (data.success) setSuggestFixtures(data.fixtures);
                     else setError(data.error || 'Failed to load fixtures');
@@ -1087,33 +1087,50 @@ export default function QuickAddPage() {
               <h3 className="section-subtitle mb-4">Upcoming Fixtures</h3>
               <div className="flex flex-col gap-3">
                 {suggestFixtures.map((fx: any) => (
-                  <div key={fx.eventId} className="flex items-center justify-between p-3 rounded-md border border-gray-200 bg-white">
+                  <div key={fx._id} className="flex items-center justify-between p-3 rounded-md border border-gray-200 bg-white">
                     <div className="flex items-center gap-3">
                       <span className="text-gray-700 text-sm w-28">{fx.date}</span>
                       <span className="text-gray-900 font-medium">{fx.homeTeam?.name || 'Home'} x {fx.awayTeam?.name || 'Away'}</span>
-                      {fx.leagueName && (
-                        <span className="text-xs text-gray-500">{fx.leagueName}</span>
+                      {fx.competition?.name && (
+                        <span className="text-xs text-gray-500">{fx.competition.name}</span>
+                      )}
+                      <span className="text-xs text-gray-500">
+                        {(fx.sources || []).map((source: any) => source.provider).join(' + ')}
+                      </span>
+                      {!fx.homePartnerId && fx.homeTeam?.match && (
+                        <span className="text-xs text-warning">
+                          Suggested match · {Math.round(fx.homeTeam.match.confidence * 100)}%
+                        </span>
                       )}
                     </div>
                     <div className="flex items-center gap-2">
-                      <button
-                        className="btn btn-tiny btn-success"
-                        onClick={async () => {
-                          setIsCreating(true); setError(''); setSuccess('');
-                          try {
-                            const resp = await apiPost('/api/sports-db/fixtures/draft', { eventId: fx.eventId });
-                            if (!resp.success) throw new Error(resp.error || 'Failed');
-                            setSuccess('Draft event created');
-                            setTimeout(() => { router.push('/admin/events'); }, 1200);
-                          } catch (e: any) {
-                            setError(e.message || 'Failed to create draft');
-                          } finally {
-                            setIsCreating(false);
-                          }
-                        }}
-                      >
-                        ✅ Create Draft
-                      </button>
+                      {fx.projectId ? (
+                        <span className="text-xs text-gray-500">Already linked</span>
+                      ) : (
+                        <button
+                          className="btn btn-tiny btn-success"
+                          disabled={isCreating}
+                          onClick={async () => {
+                            setIsCreating(true); setError(''); setSuccess('');
+                            try {
+                              // A name-only match is confirmed by creating the draft for this partner
+                              const resp = await apiPost('/api/fixtures/draft', {
+                                fixtureId: fx._id,
+                                ...(fx.homePartnerId ? {} : { homePartnerId: suggestHomePartnerId }),
+                              });
+                              if (!resp.success) throw new Error(resp.error || 'Failed');
+                              setSuccess('Draft event created');
+                              setTimeout(() => { router.push('/admin/events'); }, 1200);
+                            } catch (e: any) {
+                              setError(e.message || 'Failed to create draft');
+                            } finally {
+                              setIsCreating(false);
+                            }
+                          }}
+                        >
+                          ✅ Create Draft
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))}
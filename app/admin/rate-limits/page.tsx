@@ -0,0 +1,164 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useGdsConfirm } from '@sovereignsquad/gds-core/client';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import UnifiedAdminHeroWithSearch from '@/components/UnifiedAdminHeroWithSearch';
+import ColoredCard from '@/components/ColoredCard';
+import { apiDelete, apiGet } from '@/lib/apiClient';
+import styles from './page.module.css';
+
+/* WHAT: Rate Limits Page
+   WHY: Show which clients are throttled right now (login and API key limits
+        across all server instances, per-IP limits as seen by this one) and
+        let a superadmin lift a throttle early
+   HOW: Lists /api/admin/rate-limits; Unblock deletes the client's counter */
+
+interface ThrottledClient {
+  key: string;
+  count: number;
+  limit: number;
+  windowMs: number;
+  resetTime: string;
+  lastHitAt: string;
+}
+
+// WHAT: Split a rate limit key into who and what for display
+// Keys are "<ip>:<path>" or "user:<id>:api" (per API key, all endpoints)
+function describeKey(key: string): { client: string; scope: string } {
+  if (key.startsWith('user:') && key.endsWith(':api')) {
+    return { client: `API key · ${key.slice(5, -4)}`, scope: 'All API endpoints' };
+  }
+  const pathStart = key.indexOf(':/');
+  if (pathStart === -1) return { client: key, scope: '—' };
+  return { client: key.slice(0, pathStart), scope: key.slice(pathStart + 1) };
+}
+
+export default function RateLimitsPage() {
+  const { user, loading } = useAdminAuth();
+  const { confirm } = useGdsConfirm();
+  const [clients, setClients] = useState<ThrottledClient[]>([]);
+  const [store, setStore] = useState('');
+  const [fetching, setFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadClients = useCallback(async () => {
+    setFetching(true);
+    setError(null);
+    try {
+      const data = await apiGet('/api/admin/rate-limits');
+      if (data.success) {
+        setClients(data.clients);
+        setStore(data.store);
+      } else {
+        setError(data.error || 'Failed to load rate limits');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load rate limits');
+    } finally {
+      setFetching(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user) void loadClients();
+  }, [user, loadClients]);
+
+  if (loading) {
+    return (
+      <div className="page-container flex items-center justify-center min-h-screen">
+        <ColoredCard accentColor="#6366f1" hoverable={false} className="text-center">
+          <div className="text-4xl mb-4">🚦</div>
+          <div className="text-gray-600">Loading...</div>
+        </ColoredCard>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return null;
+  }
+
+  const unblock = async (key: string) => {
+    const ok = await confirm({
+      title: 'Unblock this client?',
+      message: 'Its request counter is reset now instead of when the window ends.',
+    });
+    if (!ok) return;
+
+    try {
+      const data = await apiDelete(`/api/admin/rate-limits?key=${encodeURIComponent(key)}`);
+      if (!data.success) {
+        setError(data.error || 'Failed to unblock client');
+        return;
+      }
+      setClients((current) => current.filter((client) => client.key !== key));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unblock client');
+    }
+  };
+
+  return (
+    <div className="page-container">
+      <UnifiedAdminHeroWithSearch
+        title="🚦 Rate Limits"
+        subtitle="Clients currently over their request limit"
+        backLink="/admin"
+        badges={[
+          { text: 'System Tools', variant: 'primary' },
+          ...(store ? [{ text: `Store: ${store}`, variant: 'secondary' as const }] : []),
+        ]}
+      />
+
+      <ColoredCard accentColor="#f59e0b" hoverable={false}>
+        <div className={styles.header}>
+          <h3 className="text-xl font-bold text-gray-900">Throttled clients</h3>
+          <button onClick={loadClients} disabled={fetching} className="btn btn-secondary btn-small">
+            {fetching ? '🔄 Refreshing...' : '🔄 Refresh'}
+          </button>
+        </div>
+
+        {error && <div className={styles.error}>{error}</div>}
+
+        {clients.length === 0 ? (
+          <p className={styles.empty}>{fetching ? 'Loading…' : 'No client is throttled right now.'}</p>
+        ) : (
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Client</th>
+                <th>Scope</th>
+                <th>Requests</th>
+                <th>Window ends</th>
+                <th>Last request</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {clients.map((client) => {
+                const { client: who, scope } = describeKey(client.key);
+                return (
+                  <tr key={client.key}>
+                    <td className={styles.client}>{who}</td>
+                    <td className={styles.scope}>{scope}</td>
+                    <td>
+                      {client.count} / {client.limit}
+                      <span className={styles.window}> per {Math.round(client.windowMs / 1000)}s</span>
+                    </td>
+                    <td>{new Date(client.resetTime).toLocaleTimeString()}</td>
+                    <td>{new Date(client.lastHitAt).toLocaleTimeString()}</td>
+                    <td className={styles.actions}>
+                      <button onClick={() => unblock(client.key)} className="btn btn-small btn-primary">
+                        Unblock
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </ColoredCard>
+    </div>
+  );
+}
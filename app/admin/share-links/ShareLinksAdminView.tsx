@@ -0,0 +1,111 @@
+'use client';
+
+/**
+ * Share Links admin
+ *
+ * WHAT: Every per-recipient share link across report pages, with its status,
+ *      opens, views and downloads, its view log, and revocation.
+ * HOW: Links come from /api/share-links (lib/shareLinks.ts). They are created
+ *      from the share dialog of the page they open.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAdminAuth } from '@/hooks/useAdminAuth';
+import UnifiedAdminHeroWithSearch from '@/components/UnifiedAdminHeroWithSearch';
+import ColoredCard from '@/components/ColoredCard';
+import { ShareLinkTable } from '@/components/ShareRecipientLinks';
+import { apiDelete, apiGet } from '@/lib/apiClient';
+import { SHARE_LINK_PAGE_TYPES, type ShareLinkStatus, type ShareLinkSummary } from '@/lib/shareLinkTypes';
+import styles from './ShareLinksAdminView.module.css';
+
+const STATUS_OPTIONS: Array<{ value: ShareLinkStatus | ''; label: string }> = [
+  { value: '', label: 'All statuses' },
+  { value: 'active', label: 'Active' },
+  { value: 'expired', label: 'Expired' },
+  { value: 'exhausted', label: 'Used up' },
+  { value: 'revoked', label: 'Revoked' },
+];
+
+export default function ShareLinksAdminView() {
+  const { user, loading } = useAdminAuth();
+  const [links, setLinks] = useState<ShareLinkSummary[]>([]);
+  const [status, setStatus] = useState<ShareLinkStatus | ''>('');
+  const [pageType, setPageType] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (status) params.set('status', status);
+      if (pageType) params.set('pageType', pageType);
+      const data = await apiGet(`/api/share-links?${params}`);
+      setLinks(data.links || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load share links');
+    }
+  }, [status, pageType]);
+
+  useEffect(() => {
+    if (user) void load();
+  }, [user, load]);
+
+  const onRevoke = async (link: ShareLinkSummary) => {
+    if (!confirm(`Revoke the link for ${link.label}? They will lose access immediately.`)) return;
+    setError(null);
+    try {
+      await apiDelete(`/api/share-links/${link.id}`);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke link');
+    }
+  };
+
+  if (loading || !user) return null;
+
+  return (
+    <div className="page-container">
+      <UnifiedAdminHeroWithSearch
+        title="🔗 Share Links"
+        subtitle="Per-recipient links to protected reports — create them from a report's share dialog"
+        backLink="/admin"
+        badges={[
+          { text: `${links.length} links`, variant: 'primary' },
+          { text: `${links.filter((link) => link.status === 'active').length} active`, variant: 'success' },
+        ]}
+      />
+
+      {error && <div className="alert alert-danger">{error}</div>}
+
+      <ColoredCard accentColor="#3b82f6" hoverable={false}>
+        <div className={styles.header}>
+          <h3 className={styles.sectionTitle}>Links</h3>
+          <div className={styles.filters}>
+            <label className={styles.field}>
+              <span className="form-label">Page type</span>
+              <select className="form-select" value={pageType} onChange={(e) => setPageType(e.target.value)}>
+                <option value="">All pages</option>
+                {SHARE_LINK_PAGE_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {type}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className={styles.field}>
+              <span className="form-label">Status</span>
+              <select className="form-select" value={status} onChange={(e) => setStatus(e.target.value as ShareLinkStatus | '')}>
+                {STATUS_OPTIONS.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+        </div>
+        <ShareLinkTable links={links} onRevoke={onRevoke} showPage />
+      </ColoredCard>
+    </div>
+  );
+}
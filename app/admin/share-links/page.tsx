@@ -0,0 +1,13 @@
+'use client';
+
+/**
+ * Share Links admin page
+ * WHAT: Route shell for the per-recipient share link list.
+ * WHY: Matches the other admin workspaces, which compose a view component.
+ */
+
+import ShareLinksAdminView from './ShareLinksAdminView';
+
+export default function ShareLinksAdminPage() {
+  return <ShareLinksAdminView />;
+}
@@ -0,0 +1,288 @@
+// app/admin/users/PermissionsInspector.tsx
+// WHAT: Modal showing one user's role bindings and effective permissions
+// WHY: With roles bound per organization, partner and event (lib/capabilities.ts),
+//     "what can this person do here" is no longer readable from the role column.
+//     The inspector lists every capability for a chosen scope and which global
+//     role or binding grants it, and lets a superadmin add or remove bindings.
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { BaseModal } from '@/components/modals';
+import { apiDelete, apiGet, apiPost } from '@/lib/apiClient';
+import { SCOPE_TYPES, type CapabilityGrant, type RoleBinding, type RoleDefinition, type Scope, type ScopeType } from '@/lib/capabilities';
+import type { CapabilityReport } from '@/lib/authorization';
+import styles from './PermissionsInspector.module.css';
+
+interface InspectedUser {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+}
+
+interface PermissionsInspectorProps {
+  user: InspectedUser | null;
+  onClose: () => void;
+}
+
+const SCOPE_LABELS: Record<ScopeType, string> = {
+  global: 'Everywhere',
+  organization: 'Organization',
+  partner: 'Partner',
+  event: 'Event',
+};
+
+const LEGACY_LABELS: Record<NonNullable<RoleBinding['legacy']>, string> = {
+  organizationIds: 'organization assignment',
+  project_permissions: 'project permission',
+};
+
+function describeScope(scope: Scope): string {
+  return scope.type === 'global' ? SCOPE_LABELS.global : `${SCOPE_LABELS[scope.type]} ${scope.id}`;
+}
+
+function describeGrant(grant: CapabilityGrant, roleNames: Map<string, string>): string {
+  if (grant.source === 'global-role') return `${grant.roleKey} (global role)`;
+  const role = roleNames.get(grant.roleKey) || grant.roleKey;
+  const legacy = grant.legacy ? `, from ${LEGACY_LABELS[grant.legacy]}` : '';
+  return `${role} on ${describeScope(grant.scope).toLowerCase()}${legacy}`;
+}
+
+export default function PermissionsInspector({ user, onClose }: PermissionsInspectorProps) {
+  const [roles, setRoles] = useState<RoleDefinition[]>([]);
+  const [bindings, setBindings] = useState<RoleBinding[]>([]);
+  const [report, setReport] = useState<CapabilityReport[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Scope being inspected
+  const [scopeType, setScopeType] = useState<ScopeType>('global');
+  const [scopeId, setScopeId] = useState('');
+
+  // New binding
+  const [grantRoleKey, setGrantRoleKey] = useState('viewer');
+  const [grantScopeType, setGrantScopeType] = useState<ScopeType>('organization');
+  const [grantScopeId, setGrantScopeId] = useState('');
+  const [granting, setGranting] = useState(false);
+
+  const roleNames = new Map(roles.map((role) => [role.key, role.name]));
+
+  const loadBindings = useCallback(async () => {
+    if (!user) return;
+    const data = await apiGet(`/api/admin/role-bindings?userId=${encodeURIComponent(user.id)}`);
+    setBindings(data.bindings || []);
+  }, [user]);
+
+  const inspect = useCallback(
+    async (type: ScopeType, id: string) => {
+      if (!user) return;
+      setError(null);
+      try {
+        const params = new URLSearchParams({ scopeType: type });
+        if (type !== 'global') params.set('scopeId', id.trim());
+        const data = await apiGet(`/api/admin/local-users/${user.id}/permissions?${params}`);
+        setReport(data.capabilities || []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to inspect permissions');
+      }
+    },
+    [user]
+  );
+
+  useEffect(() => {
+    if (!user) return;
+    setScopeType('global');
+    setScopeId('');
+    setError(null);
+    const run = async () => {
+      try {
+        const data = await apiGet('/api/admin/roles');
+        setRoles(data.roles || []);
+        await loadBindings();
+        await inspect('global', '');
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load permissions');
+      }
+    };
+    run();
+  }, [user, loadBindings, inspect]);
+
+  const onGrant = async () => {
+    if (!user) return;
+    setGranting(true);
+    setError(null);
+    try {
+      await apiPost('/api/admin/role-bindings', {
+        userId: user.id,
+        roleKey: grantRoleKey,
+        scope: { type: grantScopeType, id: grantScopeType === 'global' ? undefined : grantScopeId.trim() },
+      });
+      setGrantScopeId('');
+      await loadBindings();
+      await inspect(scopeType, scopeId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to grant role');
+    } finally {
+      setGranting(false);
+    }
+  };
+
+  const onRevoke = async (binding: RoleBinding) => {
+    if (!binding.id) return;
+    setError(null);
+    try {
+      await apiDelete(`/api/admin/role-bindings?id=${encodeURIComponent(binding.id)}`);
+      await loadBindings();
+      await inspect(scopeType, scopeId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove binding');
+    }
+  };
+
+  return (
+    <BaseModal isOpen={!!user} onClose={onClose} size="xl" ariaLabel="Permissions inspector">
+      {user && (
+        <div className={styles.panel}>
+          <div>
+            <h2 className={styles.title}>Permissions — {user.name}</h2>
+            <p className={styles.subtitle}>
+              {user.email} · global role {user.role}
+            </p>
+          </div>
+
+          {error && <div className="alert alert-danger">{error}</div>}
+
+          <section>
+            <h3 className={styles.sectionTitle}>Role bindings</h3>
+            {bindings.length === 0 ? (
+              <p className={styles.muted}>No bindings — only the global role applies.</p>
+            ) : (
+              <table className={styles.table}>
+                <thead>
+                  <tr>
+                    <th>Role</th>
+                    <th>Scope</th>
+                    <th>Granted</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {bindings.map((binding, index) => (
+                    <tr key={binding.id || `${binding.legacy}-${index}`}>
+                      <td>{roleNames.get(binding.roleKey) || binding.roleKey}</td>
+                      <td>{describeScope(binding.scope)}</td>
+                      <td className={styles.muted}>
+                        {binding.legacy
+                          ? `From ${LEGACY_LABELS[binding.legacy]}`
+                          : [binding.grantedBy, binding.grantedAt?.slice(0, 10)].filter(Boolean).join(', ')}
+                      </td>
+                      <td>
+                        {!binding.legacy && (
+                          <button className="btn btn-small btn-secondary" onClick={() => onRevoke(binding)}>
+                            Remove
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            <div className={styles.row}>
+              <label className={styles.field}>
+                <span className="form-label">Role</span>
+                <select className="form-select" value={grantRoleKey} onChange={(e) => setGrantRoleKey(e.target.value)}>
+                  {roles.map((role) => (
+                    <option key={role.key} value={role.key}>
+                      {role.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className={styles.field}>
+                <span className="form-label">On</span>
+                <select className="form-select" value={grantScopeType} onChange={(e) => setGrantScopeType(e.target.value as ScopeType)}>
+                  {SCOPE_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {SCOPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {grantScopeType !== 'global' && (
+                <label className={`${styles.field} ${styles.idField}`}>
+                  <span className="form-label">{SCOPE_LABELS[grantScopeType]} id</span>
+                  <input className="form-input" value={grantScopeId} onChange={(e) => setGrantScopeId(e.target.value)} />
+                </label>
+              )}
+              <button
+                className="btn btn-small btn-primary"
+                onClick={onGrant}
+                disabled={granting || (grantScopeType !== 'global' && !grantScopeId.trim())}
+              >
+                Grant
+              </button>
+            </div>
+          </section>
+
+          <section>
+            <h3 className={styles.sectionTitle}>Effective permissions</h3>
+            <div className={styles.row}>
+              <label className={styles.field}>
+                <span className="form-label">Scope</span>
+                <select className="form-select" value={scopeType} onChange={(e) => setScopeType(e.target.value as ScopeType)}>
+                  {SCOPE_TYPES.map((type) => (
+                    <option key={type} value={type}>
+                      {SCOPE_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {scopeType !== 'global' && (
+                <label className={`${styles.field} ${styles.idField}`}>
+                  <span className="form-label">{SCOPE_LABELS[scopeType]} id</span>
+                  <input className="form-input" value={scopeId} onChange={(e) => setScopeId(e.target.value)} />
+                </label>
+              )}
+              <button
+                className="btn btn-small btn-secondary"
+                onClick={() => inspect(scopeType, scopeId)}
+                disabled={scopeType !== 'global' && !scopeId.trim()}
+              >
+                Inspect
+              </button>
+            </div>
+
+            <table className={styles.table}>
+              <thead>
+                <tr>
+                  <th>Capability</th>
+                  <th>Allowed</th>
+                  <th>Granted by</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.map((row) => (
+                  <tr key={row.capability}>
+                    <td>
+                      <span className={styles.capability}>{row.capability}</span>
+                      <span className={`${styles.source} ${styles.muted}`}>{row.description}</span>
+                    </td>
+                    <td className={row.allowed ? styles.allowed : styles.denied}>{row.allowed ? 'Yes' : 'No'}</td>
+                    <td>
+                      {row.grants.map((grant, index) => (
+                        <span key={index} className={styles.source}>
+                          {describeGrant(grant, roleNames)}
+                        </span>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+        </div>
+      )}
+    </BaseModal>
+  );
+}
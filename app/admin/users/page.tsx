@@ -18,6 +18,7 @@ import RoleDropdown from '@/components/RoleDropdown';
 import type { AdminUser } from '@/lib/auth';
 import type { UserRole } from '@/lib/users';
 import adminStyles from '@/app/styles/admin-pages.module.css';
+import PermissionsInspector from './PermissionsInspector';
 
 export default function AdminUsersPageUnified() {
   const router = useRouter();
@@ -47,6 +48,13 @@ export default function AdminUsersPageUnified() {
     title: string;
   }>({ isOpen: false, password: '', userEmail: '', userId: '', title: '' });
   
+  // WHAT: User whose role bindings and effective permissions are open
+  const [inspectedUser, setInspectedUser] = useState<AdminUser | null>(null);
+
+  // WHAT: User whose API key rate limit is being edited; empty value = default
+  const [rateLimitUser, setRateLimitUser] = useState<AdminUser | null>(null);
+  const [rateLimitValue, setRateLimitValue] = useState('');
+
   const { confirm } = useGdsConfirm();
 
   // WHAT: Auth guard + fetch current user
@@ -181,6 +189,30 @@ export default function AdminUsersPageUnified() {
     }
   };
 
+  // API key rate limit handlers
+  const onEditAPIRateLimit = (user: any) => {
+    setRateLimitUser(user);
+    setRateLimitValue(user.apiRateLimitPerMinute ? String(user.apiRateLimitPerMinute) : '');
+  }
+
+  const onSaveAPIRateLimit = async () => {
+    if (!rateLimitUser) return;
+    try {
+      const data = await apiPut(
+        `/api/admin/local-users/${rateLimitUser.id}/api-access`,
+        { rateLimitPerMinute: rateLimitValue.trim() ? Number(rateLimitValue) : null }
+      )
+      if (data.success) {
+        setRateLimitUser(null)
+        await refreshUsers()
+      } else {
+        setError(data.error || 'Failed to update API rate limit')
+      }
+    } catch {
+      setError('Failed to update API rate limit')
+    }
+  }
+
   // Toggle API access handler
   const onToggleAPIAccess = async (user: AdminUser) => {
     const newState = !user.apiKeyEnabled
@@ -279,6 +311,13 @@ export default function AdminUsersPageUnified() {
         return col;
       }),
       rowActions: [
+        {
+          label: 'Permissions',
+          icon: '🛡️',
+          variant: 'secondary',
+          handler: (user: AdminUser) => setInspectedUser(user),
+          title: 'Role bindings and effective permissions'
+        },
         {
           label: (user: any) => user.apiKeyEnabled ? 'Disable API' : 'Enable API',
           icon: (user: any) => user.apiKeyEnabled ? '🔒' : '🔓',
@@ -286,6 +325,13 @@ export default function AdminUsersPageUnified() {
           handler: onToggleAPIAccess,
           title: 'Toggle API access'
         },
+        {
+          label: 'API limit',
+          icon: '⏱️',
+          variant: 'secondary',
+          handler: onEditAPIRateLimit,
+          title: 'Requests per minute for this user\'s API key'
+        },
         ...usersAdapter.listConfig.rowActions?.map(action => ({
           ...action,
           handler: action.label === 'Regenerate' 
@@ -315,6 +361,13 @@ export default function AdminUsersPageUnified() {
         return field;
       }),
       cardActions: [
+        {
+          label: 'Permissions',
+          icon: '🛡️',
+          variant: 'secondary',
+          handler: (user: AdminUser) => setInspectedUser(user),
+          title: 'Role bindings and effective permissions'
+        },
         {
           label: (user: any) => user.apiKeyEnabled ? 'Disable API' : 'Enable API',
           icon: (user: any) => user.apiKeyEnabled ? '🔒' : '🔓',
@@ -322,6 +375,13 @@ export default function AdminUsersPageUnified() {
           handler: onToggleAPIAccess,
           title: 'Toggle API access'
         },
+        {
+          label: 'API limit',
+          icon: '⏱️',
+          variant: 'secondary',
+          handler: onEditAPIRateLimit,
+          title: 'Requests per minute for this user\'s API key'
+        },
         ...usersAdapter.cardConfig.cardActions?.map(action => ({
           ...action,
           handler: action.label === 'Regenerate' 
@@ -449,6 +509,37 @@ export default function AdminUsersPageUnified() {
         </div>
       </FormModal>
 
+      {/* WHAT: Per-key API rate limit */}
+      <FormModal
+        isOpen={rateLimitUser !== null}
+        onClose={() => setRateLimitUser(null)}
+        onSubmit={onSaveAPIRateLimit}
+        title="⏱️ API Rate Limit"
+        submitText="Save"
+        size="md"
+      >
+        <div className="form-group mb-6">
+          <label className="form-label-block text-sm text-gray-700">
+            Requests per minute for {rateLimitUser?.email}
+          </label>
+          <input
+            type="number"
+            className="form-input"
+            min={1}
+            max={10000}
+            value={rateLimitValue}
+            onChange={(e) => setRateLimitValue(e.target.value)}
+            placeholder="300 (default)"
+          />
+          <p className="form-help-text mt-2">
+            Leave empty to use the default limit.
+          </p>
+        </div>
+      </FormModal>
+
+      {/* WHAT: Role bindings and effective permissions of one user */}
+      <PermissionsInspector user={inspectedUser} onClose={() => setInspectedUser(null)} />
+
       {/* Password Display Modal */}
       <PasswordModal
         isOpen={passwordModal.isOpen}
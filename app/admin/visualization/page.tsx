@@ -14,6 +14,7 @@ import vizStyles from './Visualization.module.css';
 import { apiPost, apiPut, apiDelete } from '@/lib/apiClient';
 import MaterialIcon from '@/components/MaterialIcon';
 import SaveStatusIndicator, { SaveStatus } from '@/components/SaveStatusIndicator';
+import ReportTemplateVersionsPanel from '@/components/ReportTemplateVersionsPanel';
 import { validateBlockForEditor, checkPublishValidity, type EditorBlockInput } from '@/lib/editorValidationAPI';
 import type { BlockValidationResult } from '@/lib/editorValidationAPI';
 
@@ -1662,6 +1663,17 @@ export default function VisualizationPage() {
           </div>
         </div>
       </ColoredCard>
+
+      {/* WHAT: Template version history
+          WHY: Edits change the working copy; reports follow the published version */}
+      {selectedTemplateId && (
+        <ColoredCard accentColor="#8b5cf6" hoverable={false}>
+          <ReportTemplateVersionsPanel
+            templateId={selectedTemplateId}
+            onWorkingCopyChanged={() => loadTemplateConfig(selectedTemplateId)}
+          />
+        </ColoredCard>
+      )}
       
       {/* WHAT: Create Template Modal
           WHY: Allow creating new report templates with empty config */}
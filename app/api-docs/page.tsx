@@ -164,6 +164,28 @@ export default function APIDocsPage() {
   "timestamp": "2024-11-26T15:30:00.000Z"
 }`}
           </div>
+
+          <h3>Download Report PDF</h3>
+          <div className={styles.codeBlock}>
+            GET /api/reports/[slug]/pdf?type=event|partner|organization|hashtag|filter&amp;variant=[variantSlug]
+          </div>
+          <p>
+            Returns the report as <code>application/pdf</code>, rendered on the server from the same chart
+            results and block layout as the report page. The same data always produces the same file, and the
+            response carries an <code>ETag</code> for conditional requests. <code>type</code> defaults to
+            <code>event</code>; <code>variant</code> selects a report variant and is not accepted for event reports.
+          </p>
+
+          <h3>Download Report Workbook or Slide Deck</h3>
+          <div className={styles.codeBlock}>
+            GET /api/reports/[slug]/export?format=pdf|xlsx|pptx&amp;type=...&amp;variant=[variantSlug]
+          </div>
+          <p>
+            Same report, same parameters, in an editable format. <code>xlsx</code> returns a workbook with one
+            sheet per data block, a <code>Variables</code> sheet with every raw and derived variable, and a
+            <code>Chart Sources</code> sheet listing each chart formula next to its value. <code>pptx</code> returns
+            one slide per data block with native pie and bar charts. <code>format</code> defaults to <code>pdf</code>.
+          </p>
         </section>
 
         <section id="organizations" className={styles.section}>
@@ -318,7 +340,11 @@ export default function APIDocsPage() {
           </div>
 
           <h3>Signature Verification</h3>
-          <p>Every webhook includes an <code>X-Webhook-Signature</code> header:</p>
+          <p>
+            Every webhook includes an <code>X-Webhook-Signature</code> header (hex HMAC-SHA256 of the raw
+            request body), plus <code>X-Webhook-Event</code> and a unique <code>X-Webhook-Delivery</code> id
+            you can use to ignore duplicates:
+          </p>
           <div className={styles.codeBlock}>
 {`// Node.js example
 const crypto = require('crypto');
@@ -352,11 +378,15 @@ app.post('/webhooks/messmass', (req, res) => {
           <h3>Retry Logic</h3>
           <ul>
             <li><strong>Attempt 1:</strong> Immediate</li>
-            <li><strong>Attempt 2:</strong> After 1 second</li>
-            <li><strong>Attempt 3:</strong> After 5 seconds</li>
-            <li><strong>Attempt 4:</strong> After 15 seconds</li>
+            <li><strong>Attempt 2:</strong> No sooner than 5 minutes later</li>
+            <li><strong>Attempt 3:</strong> No sooner than 25 minutes later</li>
+            <li><strong>Attempt 4:</strong> No sooner than 2 hours 5 minutes later</li>
           </ul>
-          <p>After 10 consecutive failures, the webhook is automatically disabled.</p>
+          <p>
+            Retries are queued and picked up by the delivery sweep, which runs every 5 minutes, so a retry
+            can arrive up to 5 minutes after its minimum delay. Any non-2xx response, redirect, or timeout counts as a failure. After 10
+            consecutive failures, the webhook is automatically disabled until an administrator re-enables it.
+          </p>
 
           <h3>Timeout</h3>
           <p>Each delivery attempt has a 10-second timeout.</p>
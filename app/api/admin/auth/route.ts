@@ -1,15 +1,23 @@
 // app/api/admin/auth/route.ts
 import { NextResponse } from 'next/server'
 import { getAdminUser } from '@/lib/auth'
+import { getDb } from '@/lib/db'
+import { loadGrants } from '@/lib/authorization'
+import { capabilitiesAnywhere } from '@/lib/capabilities'
 
 export async function GET() {
   try {
     const user = await getAdminUser()
     
     if (user) {
+      // WHAT: Capabilities bindings grant in any scope, for navigation (canAccessMenuItem)
+      // NOTE: The global role's menus already come from MENU_PERMISSIONS
+      const grants = await loadGrants(await getDb(), user)
+      const capabilities = capabilitiesAnywhere(grants.filter((grant) => grant.source === 'binding'))
       return NextResponse.json({ 
         success: true, 
-        user 
+        user,
+        capabilities
       })
     } else {
       return NextResponse.json({ 
@@ -19,7 +19,7 @@ import { testEmailConfig } from '@/lib/emailNotifications';
 export async function GET(request: NextRequest) {
   const forwardedFor = request.headers.get('x-forwarded-for');
   const identifier = forwardedFor ? forwardedFor.split(',')[0].trim() : 'unknown';
-  const rl = checkRateLimit(`email-selftest:${identifier}`, RATE_LIMITS.AUTH);
+  const rl = await checkRateLimit(`email-selftest:${identifier}`, RATE_LIMITS.AUTH);
   if (!rl.allowed) {
     return NextResponse.json({ error: RATE_LIMITS.AUTH.message }, { status: 429 });
   }
@@ -0,0 +1,72 @@
+// app/api/admin/fanmass/commands/[commandId]/route.ts
+// WHAT: One Fanmass command with its timeline (GET), and the operator's
+//     recovery actions on it (POST { action: 'retry' | 'cancel' }).
+//     Retry puts a failed, expired or cancelled command back in the queue;
+//     cancel withdraws one fanmass has not picked up yet.
+// AUTH: getAdminUser() + fanmass.manage (lib/capabilities.ts) — same posture as
+//     the enqueue route next door; never the fanmass integration token.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/auth';
+import { can } from '@/lib/authorization';
+import { cancelCommand, getCommand, retryCommand } from '@/lib/fanmassCommands';
+import { error as logError } from '@/lib/logger';
+
+function unauthenticated() {
+  return NextResponse.json(
+    { success: false, error: { code: 'UNAUTHENTICATED', message: 'Sign in to manage Fanmass commands.' } },
+    { status: 401 }
+  );
+}
+
+function failure(err: unknown, label: string) {
+  const { status = 500, code } = err as { status?: number; code?: string };
+  if (status >= 500) {
+    logError(`${label} error`, { context: 'fanmass-commands' }, err instanceof Error ? err : new Error(String(err)));
+    return NextResponse.json({ success: false, error: { message: 'Could not update command.' } }, { status });
+  }
+  return NextResponse.json({ success: false, error: { code, message: (err as Error).message } }, { status });
+}
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ commandId: string }> }
+) {
+  try {
+    const user = await getAdminUser();
+    if (!user || !(await can(user, 'fanmass.manage'))) return unauthenticated();
+    const { commandId } = await params;
+    const command = await getCommand(commandId);
+    return NextResponse.json({ success: true, data: { command } });
+  } catch (err) {
+    return failure(err, 'GET /api/admin/fanmass/commands/[commandId]');
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ commandId: string }> }
+) {
+  try {
+    const user = await getAdminUser();
+    if (!user || !(await can(user, 'fanmass.manage'))) return unauthenticated();
+    const { commandId } = await params;
+    const { action } = (await request.json().catch(() => ({}))) as { action?: string };
+    const actor = user.email || user.name || user.id;
+
+    if (action === 'retry') {
+      const command = await retryCommand(commandId, actor);
+      return NextResponse.json({ success: true, data: { command } });
+    }
+    if (action === 'cancel') {
+      const command = await cancelCommand(commandId, actor);
+      return NextResponse.json({ success: true, data: { command } });
+    }
+    return NextResponse.json(
+      { success: false, error: { code: 'INVALID_ACTION', message: 'action must be "retry" or "cancel".' } },
+      { status: 400 }
+    );
+  } catch (err) {
+    return failure(err, 'POST /api/admin/fanmass/commands/[commandId]');
+  }
+}
@@ -1,25 +1,30 @@
 // app/api/admin/fanmass/commands/route.ts
-// WHAT: Admin-session-authenticated write side of the Fanmass command queue —
-//     the human-operator boundary, opposite auth from the fanmass-facing
-//     GET/DELETE pair under /api/integrations/fanmass/commands.
+// WHAT: Admin-session-authenticated side of the Fanmass command queue —
+//     enqueue (POST) and the command log (GET) — the human-operator boundary,
+//     opposite auth from the fanmass-facing poll/ack/fail routes under
+//     /api/integrations/fanmass/commands.
 // WHY: An operator action in the Run Control / Entity Curation / Settings
 //     tabs has nothing to submit to without this. Never accepts the fanmass
 //     integration token as an alternative credential — mixing the two would
 //     let anyone holding that lower-friction, broader-scoped token also
 //     enqueue admin-only commands.
-// AUTH: getAdminUser() + role check (admin/superadmin) — same posture as the
-//     rescan-trigger POST this mirrors.
+// AUTH: getAdminUser() + fanmass.manage (lib/capabilities.ts) — admins hold it,
+//     as they held the admin/superadmin role check of the rescan-trigger POST
+//     this mirrors.
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getAdminUser, type AdminUser } from '@/lib/auth';
-import { createCommand, findPendingDuplicate, type FanmassCommandType } from '@/lib/fanmassCommands';
+import { getAdminUser } from '@/lib/auth';
+import { can } from '@/lib/authorization';
+import {
+  createCommand,
+  findPendingDuplicate,
+  listCommands,
+  type FanmassCommandStatus,
+  type FanmassCommandType,
+} from '@/lib/fanmassCommands';
 import { findDisallowedSettingsKeys } from '@/lib/fanmassSettingsAllowlist';
 import { error as logError } from '@/lib/logger';
 
-function isAdmin(user: AdminUser | null): user is AdminUser {
-  return user !== null && (user.role === 'admin' || user.role === 'superadmin');
-}
-
 const KNOWN_COMMAND_TYPES: FanmassCommandType[] = [
   'run_control.start_batch',
   'run_control.stop_batch',
@@ -31,6 +36,8 @@ const KNOWN_COMMAND_TYPES: FanmassCommandType[] = [
   'settings.rotateApiKey',
 ];
 
+const COMMAND_STATUSES: FanmassCommandStatus[] = ['pending', 'claimed', 'applied', 'failed', 'expired', 'cancelled'];
+
 // WHAT: Minimal per-type shape check — presence of required keys only, not
 //     full validation (fanmass's own dispatcher does the real work and
 //     surfaces its own errors on ack).
@@ -62,10 +69,55 @@ function validatePayloadShape(type: FanmassCommandType, payload: Record<string,
   }
 }
 
+// WHAT: Recent commands with their timelines, newest first.
+// Query: ?status=, ?type= (comma-separated), ?batchId=, ?limit= (max 200)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAdminUser();
+    if (!user || !(await can(user, 'fanmass.manage'))) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHENTICATED', message: 'Sign in to view Fanmass commands.' } },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || undefined;
+    if (status && !COMMAND_STATUSES.includes(status as FanmassCommandStatus)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_COMMAND_STATUS', message: `status must be one of: ${COMMAND_STATUSES.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+    const types = (searchParams.get('type') || '')
+      .split(',')
+      .map((t) => t.trim())
+      .filter(Boolean);
+    const unknownType = types.find((t) => !KNOWN_COMMAND_TYPES.includes(t as FanmassCommandType));
+    if (unknownType) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_COMMAND_TYPE', message: `Unknown command type "${unknownType}".` } },
+        { status: 400 }
+      );
+    }
+
+    const commands = await listCommands({
+      status: status as FanmassCommandStatus | undefined,
+      types: types as FanmassCommandType[],
+      batchId: searchParams.get('batchId') || undefined,
+      limit: Number(searchParams.get('limit')) || undefined,
+    });
+    return NextResponse.json({ success: true, data: { commands } });
+  } catch (err) {
+    logError('GET /api/admin/fanmass/commands error', { context: 'fanmass-commands' }, err instanceof Error ? err : new Error(String(err)));
+    return NextResponse.json({ success: false, error: { message: 'Could not load commands.' } }, { status: 500 });
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     const user = await getAdminUser();
-    if (!isAdmin(user)) {
+    if (!user || !(await can(user, 'fanmass.manage'))) {
       return NextResponse.json(
         { success: false, error: { code: 'UNAUTHENTICATED', message: 'Sign in to enqueue Fanmass commands.' } },
         { status: 401 }
@@ -3,11 +3,12 @@ import { requireSession } from '@/lib/apiGuards';
 import clientPromise from '@/lib/mongodb';
 import config from '@/lib/config';
 import { error as logError, info as logInfo } from '@/lib/logger';
+import { filterSlugIdentity } from '@/lib/slugUtils';
 
 // POST /api/admin/filter-style - Save style selection for filter combination
-// WHAT: Update styleId for an existing filter hashtag combination
+// WHAT: Update styleId for an existing filter hashtag combination or filter expression
 // WHY: Allow users to persist style choices without regenerating filter slugs
-// HOW: Find filter by normalized hashtags, update styleId field
+// HOW: Find filter by normalized hashtags (or canonical expression), update styleId field
 export async function POST(request: NextRequest) {
   // F-009: this handler had no authentication. Caller analysis shows only the
   // admin UI invokes it, so a session is the correct guard — no page-password
@@ -17,30 +18,29 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { hashtags, styleId } = body;
+    const { hashtags, expression, styleId } = body;
 
     // Validation
-    if (!hashtags || !Array.isArray(hashtags)) {
+    if (typeof expression !== 'string' && (!hashtags || !Array.isArray(hashtags))) {
       return NextResponse.json(
-        { success: false, error: 'Hashtags array is required' },
+        { success: false, error: 'Hashtags array or expression is required' },
         { status: 400 }
       );
     }
 
-    if (hashtags.length === 0) {
+    // Normalize hashtags (lowercase, sorted) or the expression - same as generateFilterSlug
+    let identity: ReturnType<typeof filterSlugIdentity>;
+    try {
+      identity = filterSlugIdentity(Array.isArray(hashtags) ? hashtags : [], expression);
+    } catch (parseError) {
       return NextResponse.json(
-        { success: false, error: 'At least one hashtag is required' },
+        { success: false, error: parseError instanceof Error ? parseError.message : 'Invalid filter expression' },
         { status: 400 }
       );
     }
+    const normalizedHashtags = identity.hashtags;
 
-    // Normalize hashtags (lowercase, sorted) - same as generateFilterSlug
-    const normalizedHashtags = hashtags
-      .map(tag => tag.toLowerCase().trim())
-      .filter(tag => tag.length > 0)
-      .sort();
-
-    if (normalizedHashtags.length === 0) {
+    if (!identity.expression && normalizedHashtags.length === 0) {
       return NextResponse.json(
         { success: false, error: 'No valid hashtags provided' },
         { status: 400 }
@@ -52,9 +52,7 @@ export async function POST(request: NextRequest) {
     const collection = db.collection('filter_slugs');
 
     // Find existing filter combination
-    const existingFilter = await collection.findOne({
-      hashtags: { $eq: normalizedHashtags }
-    });
+    const existingFilter = await collection.findOne(identity.query);
 
     if (!existingFilter) {
       // If filter doesn't exist yet, create it with a temporary slug
@@ -63,6 +61,7 @@ export async function POST(request: NextRequest) {
       await collection.insertOne({
         slug: '', // Will be populated when "Share Filter" is clicked
         hashtags: normalizedHashtags,
+        ...(identity.expression ? { expression: identity.expression } : {}),
         styleId: styleId && styleId !== 'null' ? styleId : null,
         createdAt: now,
         lastAccessed: now
@@ -100,29 +99,36 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET /api/admin/filter-style?hashtags=tag1,tag2 - Retrieve style for filter
-// WHAT: Fetch persisted styleId for a hashtag combination
+// GET /api/admin/filter-style?hashtags=tag1,tag2 (or ?expression=...) - Retrieve style for filter
+// WHAT: Fetch persisted styleId for a hashtag combination or filter expression
 // WHY: Allow filter page to remember user's style choice
-// HOW: Query filter_slugs collection by normalized hashtags
+// HOW: Query filter_slugs collection by normalized hashtags (or canonical expression)
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const hashtagsParam = searchParams.get('hashtags');
+    const expressionParam = searchParams.get('expression');
 
-    if (!hashtagsParam) {
+    if (!hashtagsParam && !expressionParam) {
       return NextResponse.json(
         { success: false, error: 'Hashtags parameter is required' },
         { status: 400 }
       );
     }
 
-    // Parse and normalize hashtags
-    const hashtags = hashtagsParam.split(',')
-      .map(tag => tag.toLowerCase().trim())
-      .filter(tag => tag.length > 0)
-      .sort();
+    // Parse and normalize hashtags (or the expression)
+    let identity: ReturnType<typeof filterSlugIdentity>;
+    try {
+      identity = filterSlugIdentity((hashtagsParam || '').split(','), expressionParam);
+    } catch (parseError) {
+      return NextResponse.json(
+        { success: false, error: parseError instanceof Error ? parseError.message : 'Invalid filter expression' },
+        { status: 400 }
+      );
+    }
+    const hashtags = identity.hashtags;
 
-    if (hashtags.length === 0) {
+    if (!identity.expression && hashtags.length === 0) {
       return NextResponse.json(
         { success: false, error: 'No valid hashtags provided' },
         { status: 400 }
@@ -133,10 +139,8 @@ export async function GET(request: NextRequest) {
     const db = client.db(config.dbName);
     const collection = db.collection('filter_slugs');
 
-    // Find filter by normalized hashtags
-    const filter = await collection.findOne({
-      hashtags: { $eq: hashtags }
-    });
+    // Find filter by normalized hashtags (or canonical expression)
+    const filter = await collection.findOne(identity.query);
 
     if (!filter) {
       return NextResponse.json({
@@ -1,23 +1,29 @@
 // app/api/admin/local-users/[id]/api-access/route.ts
-// WHAT: Admin endpoint to enable/disable API access for users
+// WHAT: Admin endpoint to enable/disable API access for users and set their
+//     API key's rate limit
 // WHY: Control which users can authenticate via Bearer tokens to public API
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getAdminUser } from '@/lib/auth';
-import { toggleAPIAccess, findUserById } from '@/lib/users';
+import { toggleAPIAccess, setAPIRateLimit, findUserById, type UserDoc } from '@/lib/users';
 import { info, warn } from '@/lib/logger';
 
 // WHAT: Force Node.js runtime
 // WHY: Uses MongoDB operations that require Node.js APIs
 export const runtime = 'nodejs';
 
+// WHAT: Upper bound for a per-key limit (requests per minute)
+const MAX_RATE_LIMIT_PER_MINUTE = 10_000;
+
 /**
  * PUT /api/admin/local-users/[id]/api-access
- * WHAT: Enable or disable API access for a specific user
+ * WHAT: Enable or disable API access for a specific user, and/or set the
+ *       per-minute rate limit of their API key
  * WHY: Admins need granular control over who can use Bearer token authentication
  * 
  * AUTH: Admin session required (getAdminUser)
- * BODY: { enabled: boolean }
+ * BODY: { enabled?: boolean, rateLimitPerMinute?: number | null } — at least one;
+ *       rateLimitPerMinute null restores the default (RATE_LIMITS.API_KEY)
  * 
  * SECURITY:
  *   - Cannot disable if user has active API usage within last 5 minutes
@@ -44,14 +50,30 @@ export async function PUT(
     
     // WHAT: Parse request body
     const body = await request.json();
-    const { enabled } = body;
+    const { enabled, rateLimitPerMinute } = body;
     
-    if (typeof enabled !== 'boolean') {
+    if (enabled === undefined && rateLimitPerMinute === undefined) {
+      return NextResponse.json(
+        { success: false, error: 'enabled or rateLimitPerMinute is required' },
+        { status: 400 }
+      );
+    }
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
       return NextResponse.json(
         { success: false, error: 'enabled field must be boolean' },
         { status: 400 }
       );
     }
+    if (
+      rateLimitPerMinute !== undefined &&
+      rateLimitPerMinute !== null &&
+      !(Number.isInteger(rateLimitPerMinute) && rateLimitPerMinute >= 1 && rateLimitPerMinute <= MAX_RATE_LIMIT_PER_MINUTE)
+    ) {
+      return NextResponse.json(
+        { success: false, error: `rateLimitPerMinute must be an integer between 1 and ${MAX_RATE_LIMIT_PER_MINUTE}, or null` },
+        { status: 400 }
+      );
+    }
     
     // WHAT: Fetch target user
     // WHY: Need to check current state before modification
@@ -65,7 +87,7 @@ export async function PUT(
     
     // WHAT: Check if disabling user with recent API activity
     // WHY: Prevent disrupting active integrations without warning
-    if (!enabled && targetUser.lastAPICallAt) {
+    if (enabled === false && targetUser.lastAPICallAt) {
       const lastCall = new Date(targetUser.lastAPICallAt);
       const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
       
@@ -88,8 +110,14 @@ export async function PUT(
       }
     }
     
-    // WHAT: Toggle API access in database
-    const updatedUser = await toggleAPIAccess(id, enabled);
+    // WHAT: Toggle API access and/or set the key's rate limit in database
+    let updatedUser: UserDoc | null = targetUser;
+    if (typeof enabled === 'boolean') {
+      updatedUser = await toggleAPIAccess(id, enabled);
+    }
+    if (updatedUser && rateLimitPerMinute !== undefined) {
+      updatedUser = await setAPIRateLimit(id, rateLimitPerMinute);
+    }
     
     if (!updatedUser) {
       return NextResponse.json(
@@ -99,14 +127,15 @@ export async function PUT(
     }
     
     // WHAT: Log the action for audit trail
-    // WHY: Track who enabled/disabled API access for whom
-    const action = enabled ? 'enabled' : 'disabled';
+    // WHY: Track who changed API access, and its limit, for whom
+    const action = enabled === undefined ? 'rate limit updated' : enabled ? 'enabled' : 'disabled';
     info(`API access ${action}`, {
       adminId: admin.id,
       adminEmail: admin.email,
       targetUserId: id,
       targetEmail: updatedUser.email,
       action,
+      rateLimitPerMinute,
       tags: ['api-access', 'security', 'audit']
     });
     
@@ -128,6 +157,7 @@ export async function PUT(
         name: updatedUser.name,
         role: updatedUser.role,
         apiKeyEnabled: updatedUser.apiKeyEnabled,
+        apiRateLimitPerMinute: updatedUser.apiRateLimitPerMinute ?? null,
         apiUsageCount: updatedUser.apiUsageCount || 0,
         lastAPICallAt: updatedUser.lastAPICallAt,
         updatedAt: updatedUser.updatedAt
@@ -0,0 +1,41 @@
+// app/api/admin/local-users/[id]/permissions/route.ts
+// WHAT: GET a user's effective permissions — every capability, whether it is
+//     held, and which global role or binding grants it
+// WHY: The Users page inspector; answers "why can / can't this person do X here"
+// QUERY: scopeType (global|organization|partner|event, default global), scopeId
+// AUTH: user.manage
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { requireCapability } from '@/lib/apiGuards';
+import { inspectPermissions } from '@/lib/authorization';
+import { validateScope } from '@/lib/capabilities';
+import { findUserById } from '@/lib/users';
+import { error as logError } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const denied = await requireCapability('user.manage');
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    const subject = await findUserById(id);
+    if (!subject) return NextResponse.json({ success: false, error: 'User not found' }, { status: 404 });
+
+    const { searchParams } = new URL(request.url);
+    const scope = validateScope({ type: searchParams.get('scopeType') || 'global', id: searchParams.get('scopeId') || undefined });
+    const report = await inspectPermissions(await getDb(), { id, role: subject.role, organizationIds: subject.organizationIds }, scope);
+    return NextResponse.json({ success: true, user: { id, name: subject.name, email: subject.email, role: subject.role }, ...report });
+  } catch (error) {
+    const status = (error as { status?: number }).status ?? 500;
+    if (status >= 500) {
+      logError('Failed to inspect permissions', { context: 'admin/local-users/permissions' }, error instanceof Error ? error : new Error(String(error)));
+      return NextResponse.json({ success: false, error: 'Failed to inspect permissions' }, { status });
+    }
+    return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+  }
+}
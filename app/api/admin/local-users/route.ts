@@ -88,6 +88,7 @@ export async function GET(request: NextRequest) {
         // WHAT: Include API access fields (v10.5.1+)
         // WHY: Admin UI needs to display/manage API access settings
         apiKeyEnabled: u.apiKeyEnabled || false,
+        apiRateLimitPerMinute: u.apiRateLimitPerMinute ?? null,
         apiUsageCount: u.apiUsageCount || 0,
         lastAPICallAt: u.lastAPICallAt,
         createdAt: u.createdAt,
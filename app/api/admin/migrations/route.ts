@@ -0,0 +1,62 @@
+// app/api/admin/migrations/route.ts
+// WHAT: Admin view of tracked migrations — the state of each registered
+//     migration in every environment that has run migrations, plus recent runs
+// WHY: Environments share MigrationHistory when they share a database; an
+//     operator needs to see what is applied where without a shell
+// SECURITY: Superadmin only, like the other system tools. Read-only — migrations
+//     are applied from deploys and `npm run migrate:*`, never from the browser
+
+import { NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/auth';
+import {
+  MIGRATIONS,
+  MongoMigrationStore,
+  computeMigrationStatus,
+  getMigrationEnvironment,
+} from '@/lib/migrations';
+import { error as logError } from '@/lib/logger';
+
+async function requireSuperadmin(): Promise<NextResponse | null> {
+  const admin = await getAdminUser();
+  if (!admin) {
+    return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 });
+  }
+  if (admin.role !== 'superadmin') {
+    return NextResponse.json({ success: false, error: 'Forbidden: superadmin only' }, { status: 403 });
+  }
+  return null;
+}
+
+export async function GET() {
+  const denied = await requireSuperadmin();
+  if (denied) return denied;
+
+  try {
+    const runs = await new MongoMigrationStore().listRuns();
+    const currentEnvironment = getMigrationEnvironment();
+    const environments = Array.from(new Set([currentEnvironment, ...runs.map((run) => run.environment)])).sort();
+
+    return NextResponse.json({
+      success: true,
+      currentEnvironment,
+      environments,
+      migrations: MIGRATIONS.map((migration) => ({
+        name: migration.name,
+        description: migration.description,
+        reversible: typeof migration.down === 'function',
+      })),
+      status: Object.fromEntries(
+        environments.map((environment) => [
+          environment,
+          computeMigrationStatus(MIGRATIONS, runs.filter((run) => run.environment === environment)).map(
+            ({ name, state, appliedAt }) => ({ name, state, appliedAt })
+          ),
+        ])
+      ),
+      recentRuns: runs.slice(0, 50),
+    });
+  } catch (err) {
+    logError('Failed to load migration status', { context: 'migrations' }, err instanceof Error ? err : undefined);
+    return NextResponse.json({ success: false, error: 'Failed to load migrations' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+// app/api/admin/partner-portal/access-log/route.ts
+// WHAT: GET the partner portal audit — who signed in, viewed, opened and
+//     exported what (?partnerId=, ?contactId=, ?limit=, ?offset=)
+// AUTH: partner.edit — on the partner for a single partner, everywhere otherwise
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/db';
+import { requireCapability } from '@/lib/apiGuards';
+import { listPortalAccess } from '@/lib/partnerPortal';
+import { error as logError } from '@/lib/logger';
+
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const partnerId = searchParams.get('partnerId') || undefined;
+  if (partnerId && !ObjectId.isValid(partnerId)) {
+    return NextResponse.json({ success: false, error: 'Invalid partner id' }, { status: 400 });
+  }
+  const denied = await requireCapability('partner.edit', partnerId ? { type: 'partner', id: partnerId } : undefined);
+  if (denied) return denied;
+
+  try {
+    const { entries, total } = await listPortalAccess(await getDb(), {
+      partnerId,
+      contactId: searchParams.get('contactId') || undefined,
+      limit: Number(searchParams.get('limit')) || undefined,
+      offset: Number(searchParams.get('offset')) || undefined,
+    });
+    return NextResponse.json({ success: true, entries, total });
+  } catch (error) {
+    logError('Failed to load partner portal access log', { context: 'admin/partner-portal' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: 'Failed to load access log' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+// app/api/admin/partner-portal/contacts/[id]/route.ts
+// WHAT: PATCH { enabled } enables or disables a partner portal contact,
+//     DELETE removes it. Disabling ends the contact's open sessions at once.
+// AUTH: partner.edit on the contact's partner
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/auth';
+import { getDb } from '@/lib/db';
+import { requireCapability } from '@/lib/apiGuards';
+import { deletePartnerContact, getPartnerContact, setPartnerContactStatus } from '@/lib/partnerPortal';
+import { error as logError, info as logInfo } from '@/lib/logger';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function failure(error: unknown, action: string) {
+  const status = (error as { status?: number }).status ?? 500;
+  if (status >= 500) {
+    logError(`Failed to ${action} partner contact`, { context: 'admin/partner-portal' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: `Failed to ${action} partner contact` }, { status });
+  }
+  return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+}
+
+// Signed-in check comes before the lookup so contact ids are not disclosed to anonymous callers
+async function authorize(id: string): Promise<NextResponse | null> {
+  const user = await getAdminUser();
+  if (!user) return NextResponse.json({ success: false, error: 'Sign in to perform this action.' }, { status: 401 });
+  const contact = await getPartnerContact(await getDb(), id);
+  return requireCapability('partner.edit', { type: 'partner', id: contact.partnerId.toHexString() });
+}
+
+export async function PATCH(request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const denied = await authorize(id);
+    if (denied) return denied;
+
+    const body = await request.json().catch(() => ({}));
+    if (typeof body?.enabled !== 'boolean') {
+      return NextResponse.json({ success: false, error: 'enabled must be true or false' }, { status: 400 });
+    }
+    const user = await getAdminUser();
+    const contact = await setPartnerContactStatus(await getDb(), id, body.enabled);
+    logInfo('Updated partner portal contact', { context: 'admin/partner-portal', id, status: contact.status, by: user?.email });
+    return NextResponse.json({ success: true, contact });
+  } catch (error) {
+    return failure(error, 'update');
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  try {
+    const { id } = await context.params;
+    const denied = await authorize(id);
+    if (denied) return denied;
+
+    const user = await getAdminUser();
+    await deletePartnerContact(await getDb(), id);
+    logInfo('Removed partner portal contact', { context: 'admin/partner-portal', id, by: user?.email });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return failure(error, 'delete');
+  }
+}
@@ -0,0 +1,72 @@
+// app/api/admin/partner-portal/contacts/route.ts
+// WHAT: GET partner portal contacts (?partnerId= narrows to one partner),
+//     POST invites a contact and emails them a sign-in link
+// AUTH: partner.edit — on the partner for a single partner, everywhere otherwise
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getAdminUser } from '@/lib/auth';
+import { getDb } from '@/lib/db';
+import config from '@/lib/config';
+import { requireCapability } from '@/lib/apiGuards';
+import { invitePartnerContact, issuePortalToken, listPartnerContacts } from '@/lib/partnerPortal';
+import { findPartnerByIdentifier } from '@/lib/partnerIdentifier';
+import { sendPartnerPortalLinkEmail } from '@/lib/emailNotifications';
+import { error as logError, info as logInfo } from '@/lib/logger';
+
+function failure(error: unknown, action: string) {
+  const status = (error as { status?: number }).status ?? 500;
+  if (status >= 500) {
+    logError(`Failed to ${action} partner contact`, { context: 'admin/partner-portal' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: `Failed to ${action} partner contact` }, { status });
+  }
+  return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+}
+
+export async function GET(request: NextRequest) {
+  const partnerId = new URL(request.url).searchParams.get('partnerId') || undefined;
+  if (partnerId && !ObjectId.isValid(partnerId)) {
+    return NextResponse.json({ success: false, error: 'Invalid partner id' }, { status: 400 });
+  }
+  const denied = await requireCapability('partner.edit', partnerId ? { type: 'partner', id: partnerId } : undefined);
+  if (denied) return denied;
+
+  try {
+    const contacts = await listPartnerContacts(await getDb(), partnerId);
+    return NextResponse.json({ success: true, contacts });
+  } catch (error) {
+    return failure(error, 'list');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const partnerId = typeof body?.partnerId === 'string' ? body.partnerId : '';
+  if (!ObjectId.isValid(partnerId)) {
+    return NextResponse.json({ success: false, error: 'partnerId is required' }, { status: 400 });
+  }
+  const denied = await requireCapability('partner.edit', { type: 'partner', id: partnerId });
+  if (denied) return denied;
+
+  try {
+    const user = await getAdminUser();
+    const db = await getDb();
+    const contact = await invitePartnerContact(db, partnerId, body, user?.email || 'admin');
+    const partner = await findPartnerByIdentifier(db, partnerId);
+    const { token, expiresAt } = await issuePortalToken(db, contact, 'invite');
+    const baseUrl = config.appBaseUrl || new URL(request.url).origin;
+    const email = await sendPartnerPortalLinkEmail({
+      to: contact.email,
+      contactName: contact.name,
+      partnerName: partner?.name || 'your organization',
+      link: `${baseUrl}/api/portal/login/verify?token=${encodeURIComponent(token)}`,
+      expiresAt,
+      purpose: 'invite',
+    });
+
+    logInfo('Invited partner portal contact', { context: 'admin/partner-portal', partnerId, email: contact.email, sent: email.sent, by: user?.email });
+    return NextResponse.json({ success: true, contact, emailSent: email.sent, emailError: email.error }, { status: 201 });
+  } catch (error) {
+    return failure(error, 'invite');
+  }
+}
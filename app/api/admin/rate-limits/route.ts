@@ -0,0 +1,69 @@
+// app/api/admin/rate-limits/route.ts
+// WHAT: Admin view of rate limiting — clients over their limit right now, and
+//     lifting a throttle before its window ends
+// WHY: With shared counters in MongoDB a login or API key throttle holds
+//     across every instance (lib/rateLimit.ts `shared`); an operator needs to
+//     see who is blocked (IP + path, or API key) and unblock a legitimate
+//     client without waiting out the window
+// SECURITY: Superadmin only, like the other system tools
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/auth';
+import { listThrottledClients, resetRateLimit } from '@/lib/rateLimit';
+import { getRateLimitStore } from '@/lib/rateLimitStore';
+import { error as logError, info as logInfo } from '@/lib/logger';
+
+async function requireSuperadmin(): Promise<NextResponse | null> {
+  const admin = await getAdminUser();
+  if (!admin) {
+    return NextResponse.json({ success: false, error: 'Not authenticated' }, { status: 401 });
+  }
+  if (admin.role !== 'superadmin') {
+    return NextResponse.json({ success: false, error: 'Forbidden: superadmin only' }, { status: 403 });
+  }
+  return null;
+}
+
+export async function GET() {
+  const denied = await requireSuperadmin();
+  if (denied) return denied;
+
+  try {
+    const clients = await listThrottledClients();
+    return NextResponse.json({
+      success: true,
+      store: getRateLimitStore().name,
+      clients: clients.map((client) => ({
+        ...client,
+        resetTime: new Date(client.resetTime).toISOString(),
+        lastHitAt: new Date(client.lastHitAt).toISOString(),
+      })),
+    });
+  } catch (err) {
+    logError('Failed to list throttled clients', { context: 'rate-limit' }, err instanceof Error ? err : undefined);
+    return NextResponse.json({ success: false, error: 'Failed to load rate limits' }, { status: 500 });
+  }
+}
+
+// DELETE /api/admin/rate-limits?key=<rate limit key>
+export async function DELETE(request: NextRequest) {
+  const denied = await requireSuperadmin();
+  if (denied) return denied;
+
+  const key = request.nextUrl.searchParams.get('key');
+  if (!key) {
+    return NextResponse.json({ success: false, error: 'key is required' }, { status: 400 });
+  }
+
+  try {
+    const removed = await resetRateLimit(key);
+    if (!removed) {
+      return NextResponse.json({ success: false, error: 'No active rate limit for this key' }, { status: 404 });
+    }
+    logInfo('Rate limit reset by admin', { context: 'rate-limit', key });
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    logError('Failed to reset rate limit', { context: 'rate-limit', key }, err instanceof Error ? err : undefined);
+    return NextResponse.json({ success: false, error: 'Failed to reset rate limit' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+// app/api/admin/report-schedules/[scheduleId]/deliveries/route.ts
+// WHAT: Send history for one report schedule — newest first, each entry with
+//     its trigger, per-recipient result, period and PDF size.
+// WHY: "Did the partner get last week's report?" needs an answer without
+//     database access.
+// AUTH: getAdminUser() + role check (admin/superadmin).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser, type AdminUser } from '@/lib/auth';
+import { getReportSchedule, listReportDeliveries } from '@/lib/reportSchedules';
+import { error as logError } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ scheduleId: string }>;
+}
+
+function isAdmin(user: AdminUser | null): user is AdminUser {
+  return user !== null && (user.role === 'admin' || user.role === 'superadmin');
+}
+
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    const user = await getAdminUser();
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHENTICATED', message: 'Sign in as an admin to manage report schedules.' } },
+        { status: 401 }
+      );
+    }
+
+    const { scheduleId } = await context.params;
+    const schedule = await getReportSchedule(scheduleId);
+    if (!schedule) {
+      return NextResponse.json({ success: false, error: { code: 'SCHEDULE_NOT_FOUND', message: 'Report schedule was not found.' } }, { status: 404 });
+    }
+
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50', 10);
+    const deliveries = await listReportDeliveries(scheduleId, Number.isFinite(limit) ? limit : 50);
+    return NextResponse.json({ success: true, data: { schedule, deliveries } });
+  } catch (err) {
+    logError('GET /api/admin/report-schedules/[scheduleId]/deliveries error', { context: 'report-schedules' }, err instanceof Error ? err : new Error(String(err)));
+    return NextResponse.json({ success: false, error: { message: 'Could not load deliveries.' } }, { status: 500 });
+  }
+}
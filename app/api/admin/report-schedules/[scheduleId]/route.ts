@@ -0,0 +1,78 @@
+// app/api/admin/report-schedules/[scheduleId]/route.ts
+// WHAT: Read, edit (timing, recipients, link lifetime, enabled) or delete one
+//     report delivery schedule.
+// WHY: Changing the timing or re-enabling recomputes nextRunAt from now (see
+//     updateReportSchedule in lib/reportSchedules.ts).
+// AUTH: getAdminUser() + role check (admin/superadmin).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser, type AdminUser } from '@/lib/auth';
+import { deleteReportSchedule, getReportSchedule, updateReportSchedule, type ReportScheduleInput } from '@/lib/reportSchedules';
+import { error as logError } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ scheduleId: string }>;
+}
+
+function isAdmin(user: AdminUser | null): user is AdminUser {
+  return user !== null && (user.role === 'admin' || user.role === 'superadmin');
+}
+
+function unauthenticated() {
+  return NextResponse.json(
+    { success: false, error: { code: 'UNAUTHENTICATED', message: 'Sign in as an admin to manage report schedules.' } },
+    { status: 401 }
+  );
+}
+
+function errorResponse(err: unknown, fallback: string, label: string) {
+  const status = (err as { status?: number }).status ?? 500;
+  const code = (err as { code?: string }).code;
+  if (status >= 500) {
+    logError(label, { context: 'report-schedules' }, err instanceof Error ? err : new Error(String(err)));
+  }
+  return NextResponse.json({ success: false, error: { code, message: (err as Error).message || fallback } }, { status });
+}
+
+export async function GET(_request: NextRequest, context: RouteParams) {
+  try {
+    const user = await getAdminUser();
+    if (!isAdmin(user)) return unauthenticated();
+
+    const { scheduleId } = await context.params;
+    const schedule = await getReportSchedule(scheduleId);
+    if (!schedule) {
+      return NextResponse.json({ success: false, error: { code: 'SCHEDULE_NOT_FOUND', message: 'Report schedule was not found.' } }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, data: { schedule } });
+  } catch (err) {
+    return errorResponse(err, 'Could not load report schedule.', 'GET /api/admin/report-schedules/[scheduleId] error');
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteParams) {
+  try {
+    const user = await getAdminUser();
+    if (!isAdmin(user)) return unauthenticated();
+
+    const { scheduleId } = await context.params;
+    const body = (await request.json().catch(() => ({}))) as ReportScheduleInput;
+    const schedule = await updateReportSchedule(scheduleId, body);
+    return NextResponse.json({ success: true, data: { schedule } });
+  } catch (err) {
+    return errorResponse(err, 'Could not update report schedule.', 'PATCH /api/admin/report-schedules/[scheduleId] error');
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: RouteParams) {
+  try {
+    const user = await getAdminUser();
+    if (!isAdmin(user)) return unauthenticated();
+
+    const { scheduleId } = await context.params;
+    await deleteReportSchedule(scheduleId);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    return errorResponse(err, 'Could not delete report schedule.', 'DELETE /api/admin/report-schedules/[scheduleId] error');
+  }
+}
@@ -0,0 +1,45 @@
+// app/api/admin/report-schedules/[scheduleId]/send/route.ts
+// WHAT: Send a schedule's report now, outside its timing — recorded in the
+//     delivery history with trigger "manual". nextRunAt is left untouched.
+// WHY: Lets the account team check recipients and the PDF before the first
+//     scheduled run, and resend after a failed one.
+// AUTH: getAdminUser() + role check (admin/superadmin).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser, type AdminUser } from '@/lib/auth';
+import { deliverReportSchedule, getReportSchedule } from '@/lib/reportSchedules';
+import { error as logError } from '@/lib/logger';
+
+export const maxDuration = 120;
+
+interface RouteParams {
+  params: Promise<{ scheduleId: string }>;
+}
+
+function isAdmin(user: AdminUser | null): user is AdminUser {
+  return user !== null && (user.role === 'admin' || user.role === 'superadmin');
+}
+
+export async function POST(_request: NextRequest, context: RouteParams) {
+  try {
+    const user = await getAdminUser();
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHENTICATED', message: 'Sign in as an admin to manage report schedules.' } },
+        { status: 401 }
+      );
+    }
+
+    const { scheduleId } = await context.params;
+    const schedule = await getReportSchedule(scheduleId);
+    if (!schedule) {
+      return NextResponse.json({ success: false, error: { code: 'SCHEDULE_NOT_FOUND', message: 'Report schedule was not found.' } }, { status: 404 });
+    }
+
+    const delivery = await deliverReportSchedule(schedule, 'manual');
+    return NextResponse.json({ success: delivery.status !== 'failed', data: { delivery } }, { status: delivery.status === 'failed' ? 502 : 200 });
+  } catch (err) {
+    logError('POST /api/admin/report-schedules/[scheduleId]/send error', { context: 'report-schedules' }, err instanceof Error ? err : new Error(String(err)));
+    return NextResponse.json({ success: false, error: { message: 'Could not send the report.' } }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+// app/api/admin/report-schedules/route.ts
+// WHAT: List report delivery schedules (optionally for one owner) and create
+//     new ones (GET/POST). Edit, delete, send-now and the delivery history
+//     live under ./[scheduleId].
+// WHY: Scheduled report emails (lib/reportSchedules.ts) are configured per
+//     report variant by the account team, not by the recipients.
+// AUTH: getAdminUser() + role check (admin/superadmin).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser, type AdminUser } from '@/lib/auth';
+import { createReportSchedule, listReportSchedules, REPORT_SCHEDULE_FREQUENCIES, type ReportScheduleInput } from '@/lib/reportSchedules';
+import { error as logError } from '@/lib/logger';
+
+function isAdmin(user: AdminUser | null): user is AdminUser {
+  return user !== null && (user.role === 'admin' || user.role === 'superadmin');
+}
+
+function unauthenticated() {
+  return NextResponse.json(
+    { success: false, error: { code: 'UNAUTHENTICATED', message: 'Sign in as an admin to manage report schedules.' } },
+    { status: 401 }
+  );
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAdminUser();
+    if (!isAdmin(user)) return unauthenticated();
+
+    const schedules = await listReportSchedules({
+      ownerType: request.nextUrl.searchParams.get('ownerType') || undefined,
+      ownerId: request.nextUrl.searchParams.get('ownerId') || undefined,
+    });
+    return NextResponse.json({ success: true, data: { schedules, frequencies: REPORT_SCHEDULE_FREQUENCIES } });
+  } catch (err) {
+    logError('GET /api/admin/report-schedules error', { context: 'report-schedules' }, err instanceof Error ? err : new Error(String(err)));
+    return NextResponse.json({ success: false, error: { message: 'Could not load report schedules.' } }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAdminUser();
+    if (!isAdmin(user)) return unauthenticated();
+
+    const body = (await request.json().catch(() => ({}))) as ReportScheduleInput;
+    const schedule = await createReportSchedule(body, user.email || user.name || user.id);
+    return NextResponse.json({ success: true, data: { schedule } }, { status: 201 });
+  } catch (err) {
+    const status = (err as { status?: number }).status ?? 500;
+    const code = (err as { code?: string }).code;
+    if (status >= 500) {
+      logError('POST /api/admin/report-schedules error', { context: 'report-schedules' }, err instanceof Error ? err : new Error(String(err)));
+    }
+    return NextResponse.json(
+      { success: false, error: { code, message: (err as Error).message || 'Could not create report schedule.' } },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+// app/api/admin/role-bindings/route.ts
+// WHAT: GET a user's role bindings (legacy organizationIds and project_permissions
+//     included, read-only), POST binds a role on a scope, DELETE removes a binding
+// AUTH: role.manage
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getAdminUser } from '@/lib/auth';
+import { getDb } from '@/lib/db';
+import { requireCapability } from '@/lib/apiGuards';
+import { grantRole, loadBindings, revokeBinding } from '@/lib/authorization';
+import { findUserById } from '@/lib/users';
+import { error as logError, info as logInfo } from '@/lib/logger';
+
+function failure(error: unknown, action: string) {
+  const status = (error as { status?: number }).status ?? 500;
+  if (status >= 500) {
+    logError(`Failed to ${action} role binding`, { context: 'admin/role-bindings' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: `Failed to ${action} role binding` }, { status });
+  }
+  return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+}
+
+export async function GET(request: NextRequest) {
+  const denied = await requireCapability('role.manage');
+  if (denied) return denied;
+
+  try {
+    const userId = new URL(request.url).searchParams.get('userId') || '';
+    const subject = ObjectId.isValid(userId) ? await findUserById(userId) : null;
+    if (!subject) return NextResponse.json({ success: false, error: 'User not found' }, { status: 404 });
+
+    const bindings = await loadBindings(await getDb(), { id: userId, role: subject.role, organizationIds: subject.organizationIds });
+    return NextResponse.json({ success: true, bindings });
+  } catch (error) {
+    return failure(error, 'list');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = await requireCapability('role.manage');
+  if (denied) return denied;
+
+  try {
+    const user = await getAdminUser();
+    const body = await request.json().catch(() => ({}));
+    const binding = await grantRole(await getDb(), body || {}, user?.email || 'admin');
+    logInfo('Granted role', { context: 'admin/role-bindings', userId: binding.userId, roleKey: binding.roleKey, scope: binding.scope, by: user?.email });
+    return NextResponse.json({ success: true, binding }, { status: 201 });
+  } catch (error) {
+    return failure(error, 'create');
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const denied = await requireCapability('role.manage');
+  if (denied) return denied;
+
+  try {
+    const id = new URL(request.url).searchParams.get('id') || '';
+    const user = await getAdminUser();
+    await revokeBinding(await getDb(), id);
+    logInfo('Revoked role binding', { context: 'admin/role-bindings', id, by: user?.email });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return failure(error, 'delete');
+  }
+}
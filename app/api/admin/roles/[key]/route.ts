@@ -0,0 +1,55 @@
+// app/api/admin/roles/[key]/route.ts
+// WHAT: PUT replaces a custom role's name, description and capabilities; DELETE removes it
+// NOTE: Built-in roles cannot be changed, and a role still bound to anyone cannot be deleted
+// AUTH: role.manage
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/auth';
+import { getDb } from '@/lib/db';
+import { requireCapability } from '@/lib/apiGuards';
+import { deleteRole, saveRole } from '@/lib/authorization';
+import { error as logError, info as logInfo } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ key: string }>;
+}
+
+function failure(error: unknown, action: string) {
+  const status = (error as { status?: number }).status ?? 500;
+  if (status >= 500) {
+    logError(`Failed to ${action} role`, { context: 'admin/roles' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: `Failed to ${action} role` }, { status });
+  }
+  return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+}
+
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  const denied = await requireCapability('role.manage');
+  if (denied) return denied;
+
+  try {
+    const { key } = await params;
+    const user = await getAdminUser();
+    const body = await request.json().catch(() => null);
+    const role = await saveRole(await getDb(), { ...(body || {}), key }, 'update', user?.email || 'admin');
+    logInfo('Updated role', { context: 'admin/roles', key, capabilities: role.capabilities.length, by: user?.email });
+    return NextResponse.json({ success: true, role });
+  } catch (error) {
+    return failure(error, 'update');
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: RouteParams) {
+  const denied = await requireCapability('role.manage');
+  if (denied) return denied;
+
+  try {
+    const { key } = await params;
+    const user = await getAdminUser();
+    await deleteRole(await getDb(), key);
+    logInfo('Deleted role', { context: 'admin/roles', key, by: user?.email });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return failure(error, 'delete');
+  }
+}
@@ -0,0 +1,52 @@
+// app/api/admin/roles/route.ts
+// WHAT: GET the capability catalog with built-in and custom roles; POST creates a custom role
+// WHY: Custom roles compose named capabilities (lib/capabilities.ts) and are then
+//     bound to users on an organization, partner or event (/api/admin/role-bindings)
+// AUTH: role.manage
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/auth';
+import { getDb } from '@/lib/db';
+import { requireCapability } from '@/lib/apiGuards';
+import { loadRoles, saveRole } from '@/lib/authorization';
+import { CAPABILITIES, GLOBAL_ROLE_CAPABILITIES, SCOPE_TYPES } from '@/lib/capabilities';
+import { error as logError, info as logInfo } from '@/lib/logger';
+
+export async function GET() {
+  const denied = await requireCapability('role.manage');
+  if (denied) return denied;
+
+  try {
+    const roles = await loadRoles(await getDb());
+    return NextResponse.json({
+      success: true,
+      capabilities: CAPABILITIES,
+      globalRoles: GLOBAL_ROLE_CAPABILITIES,
+      scopeTypes: SCOPE_TYPES,
+      roles: Array.from(roles.values()),
+    });
+  } catch (error) {
+    logError('Failed to list roles', { context: 'admin/roles' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: 'Failed to list roles' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = await requireCapability('role.manage');
+  if (denied) return denied;
+
+  try {
+    const user = await getAdminUser();
+    const body = await request.json().catch(() => null);
+    const role = await saveRole(await getDb(), body, 'create', user?.email || 'admin');
+    logInfo('Created role', { context: 'admin/roles', key: role.key, capabilities: role.capabilities.length, by: user?.email });
+    return NextResponse.json({ success: true, role }, { status: 201 });
+  } catch (error) {
+    const status = (error as { status?: number }).status ?? 500;
+    if (status >= 500) {
+      logError('Failed to create role', { context: 'admin/roles' }, error instanceof Error ? error : new Error(String(error)));
+      return NextResponse.json({ success: false, error: 'Failed to create role' }, { status });
+    }
+    return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+  }
+}
@@ -0,0 +1,44 @@
+// GET /api/admin/variables/impact?name=<variable>[&name=<variable>...]
+// AUTH: getAdminUser() + admin/superadmin role.
+// WHAT: Everything that would be affected by renaming, deleting or merging the
+//     given variable(s): derived variables that read them (transitively), the
+//     charts whose formulas read any of those, the data blocks showing those
+//     charts and the report templates containing those blocks.
+// WHY: Operators run this before a /admin/kyc merge or a variables-config
+//     delete to see which reports change. Pass every legacy name of a merge as
+//     a separate `name`. See lib/variableDependencies.ts.
+
+import { NextRequest, NextResponse } from 'next/server';
+import clientPromise from '@/lib/mongodb';
+import config from '@/lib/config';
+import { getAdminUser, type AdminUser } from '@/lib/auth';
+import { analyzeVariableImpact, buildDependencyGraph, loadDependencySources } from '@/lib/variableDependencies';
+import { error as logError } from '@/lib/logger';
+
+export const runtime = 'nodejs';
+
+function isAdmin(u: AdminUser | null): u is AdminUser {
+  return !!u && (u.role === 'admin' || u.role === 'superadmin');
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAdminUser();
+    if (!isAdmin(user)) {
+      return NextResponse.json({ success: false, error: 'unauthorized' }, { status: 401 });
+    }
+    const names = [...new Set(request.nextUrl.searchParams.getAll('name').map((n) => n.trim()).filter(Boolean))];
+    if (names.length === 0) {
+      return NextResponse.json({ success: false, error: 'name is required' }, { status: 400 });
+    }
+
+    const client = await clientPromise;
+    const db = client.db(config.dbName);
+    const graph = buildDependencyGraph(await loadDependencySources(db));
+    const impact = analyzeVariableImpact(graph, names);
+    return NextResponse.json({ success: true, impact });
+  } catch (e) {
+    logError('variable impact failed', { error: e instanceof Error ? e.message : String(e) });
+    return NextResponse.json({ success: false, error: 'internal_error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+// app/api/admin/webhooks/[webhookId]/deliveries/route.ts
+// WHAT: Delivery log for one webhook endpoint — newest first, each entry
+//     with its status and every attempt (HTTP status, duration, error).
+// WHY: "Why didn't our receiver get the update?" needs an answer without
+//     database access. Entries expire after 30 days (TTL in lib/webhooks.ts).
+// AUTH: getAdminUser() + role check (admin/superadmin).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser, type AdminUser } from '@/lib/auth';
+import { getWebhook, listDeliveries } from '@/lib/webhooks';
+import { error as logError } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ webhookId: string }>;
+}
+
+function isAdmin(user: AdminUser | null): user is AdminUser {
+  return user !== null && (user.role === 'admin' || user.role === 'superadmin');
+}
+
+export async function GET(request: NextRequest, context: RouteParams) {
+  try {
+    const user = await getAdminUser();
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHENTICATED', message: 'Sign in as an admin to manage webhooks.' } },
+        { status: 401 }
+      );
+    }
+
+    const { webhookId } = await context.params;
+    const webhook = await getWebhook(webhookId);
+    if (!webhook) {
+      return NextResponse.json({ success: false, error: { code: 'WEBHOOK_NOT_FOUND', message: 'Webhook was not found.' } }, { status: 404 });
+    }
+
+    const limit = parseInt(request.nextUrl.searchParams.get('limit') || '50', 10);
+    const deliveries = await listDeliveries(webhookId, Number.isFinite(limit) ? limit : 50);
+    return NextResponse.json({ success: true, data: { webhook, deliveries } });
+  } catch (err) {
+    logError('GET /api/admin/webhooks/[webhookId]/deliveries error', { context: 'webhooks' }, err instanceof Error ? err : new Error(String(err)));
+    return NextResponse.json({ success: false, error: { message: 'Could not load deliveries.' } }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+// app/api/admin/webhooks/[webhookId]/rotate-secret/route.ts
+// WHAT: Replace an endpoint's signing secret and return the new one once.
+// WHY: The secret is only ever shown at creation; a lost or leaked secret
+//     needs a way forward that doesn't mean re-registering the endpoint and
+//     losing its delivery log.
+// AUTH: getAdminUser() + role check (admin/superadmin).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser, type AdminUser } from '@/lib/auth';
+import { rotateWebhookSecret } from '@/lib/webhooks';
+import { error as logError } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ webhookId: string }>;
+}
+
+function isAdmin(user: AdminUser | null): user is AdminUser {
+  return user !== null && (user.role === 'admin' || user.role === 'superadmin');
+}
+
+export async function POST(_request: NextRequest, context: RouteParams) {
+  try {
+    const user = await getAdminUser();
+    if (!isAdmin(user)) {
+      return NextResponse.json(
+        { success: false, error: { code: 'UNAUTHENTICATED', message: 'Sign in as an admin to manage webhooks.' } },
+        { status: 401 }
+      );
+    }
+
+    const { webhookId } = await context.params;
+    const secret = await rotateWebhookSecret(webhookId);
+    return NextResponse.json({ success: true, data: { webhookId, secret } });
+  } catch (err) {
+    const status = (err as { status?: number }).status ?? 500;
+    if (status >= 500) {
+      logError('POST /api/admin/webhooks/[webhookId]/rotate-secret error', { context: 'webhooks' }, err instanceof Error ? err : new Error(String(err)));
+    }
+    return NextResponse.json(
+      { success: false, error: { code: (err as { code?: string }).code, message: (err as Error).message || 'Could not rotate secret.' } },
+      { status }
+    );
+  }
+}
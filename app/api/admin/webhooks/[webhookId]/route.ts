@@ -0,0 +1,104 @@
+// app/api/admin/webhooks/[webhookId]/route.ts
+// WHAT: Read, edit (url, eventTypes, description, enabled) or delete one
+//     registered webhook endpoint.
+// WHY PATCH enabled:true is the re-enable path after an auto-disable — it
+//     also resets the failure streak (see updateWebhook in lib/webhooks.ts).
+// AUTH: getAdminUser() + role check (admin/superadmin).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser, type AdminUser } from '@/lib/auth';
+import { deleteWebhook, getWebhook, normalizeEventTypes, updateWebhook, WEBHOOK_EVENT_TYPES } from '@/lib/webhooks';
+import { error as logError } from '@/lib/logger';
+
+interface RouteParams {
+  params: Promise<{ webhookId: string }>;
+}
+
+function isAdmin(user: AdminUser | null): user is AdminUser {
+  return user !== null && (user.role === 'admin' || user.role === 'superadmin');
+}
+
+function unauthenticated() {
+  return NextResponse.json(
+    { success: false, error: { code: 'UNAUTHENTICATED', message: 'Sign in as an admin to manage webhooks.' } },
+    { status: 401 }
+  );
+}
+
+function errorResponse(err: unknown, fallback: string, label: string) {
+  const status = (err as { status?: number }).status ?? 500;
+  const code = (err as { code?: string }).code;
+  if (status >= 500) {
+    logError(label, { context: 'webhooks' }, err instanceof Error ? err : new Error(String(err)));
+  }
+  return NextResponse.json({ success: false, error: { code, message: (err as Error).message || fallback } }, { status });
+}
+
+export async function GET(_request: NextRequest, context: RouteParams) {
+  try {
+    const user = await getAdminUser();
+    if (!isAdmin(user)) return unauthenticated();
+
+    const { webhookId } = await context.params;
+    const webhook = await getWebhook(webhookId);
+    if (!webhook) {
+      return NextResponse.json({ success: false, error: { code: 'WEBHOOK_NOT_FOUND', message: 'Webhook was not found.' } }, { status: 404 });
+    }
+    return NextResponse.json({ success: true, data: { webhook } });
+  } catch (err) {
+    return errorResponse(err, 'Could not load webhook.', 'GET /api/admin/webhooks/[webhookId] error');
+  }
+}
+
+export async function PATCH(request: NextRequest, context: RouteParams) {
+  try {
+    const user = await getAdminUser();
+    if (!isAdmin(user)) return unauthenticated();
+
+    const { webhookId } = await context.params;
+    const body = (await request.json().catch(() => ({}))) as {
+      url?: unknown;
+      eventTypes?: unknown;
+      description?: unknown;
+      enabled?: unknown;
+    };
+
+    const changes: Parameters<typeof updateWebhook>[1] = {};
+    if (body.url !== undefined) changes.url = String(body.url);
+    if (body.description !== undefined) changes.description = String(body.description);
+    if (body.enabled !== undefined) {
+      if (typeof body.enabled !== 'boolean') {
+        return NextResponse.json({ success: false, error: { code: 'INVALID_ENABLED', message: 'enabled must be a boolean.' } }, { status: 400 });
+      }
+      changes.enabled = body.enabled;
+    }
+    if (body.eventTypes !== undefined) {
+      const eventTypes = normalizeEventTypes(body.eventTypes);
+      if (!eventTypes) {
+        return NextResponse.json(
+          { success: false, error: { code: 'INVALID_EVENT_TYPES', message: `eventTypes must be a non-empty subset of: ${WEBHOOK_EVENT_TYPES.join(', ')}` } },
+          { status: 400 }
+        );
+      }
+      changes.eventTypes = eventTypes;
+    }
+
+    const webhook = await updateWebhook(webhookId, changes);
+    return NextResponse.json({ success: true, data: { webhook } });
+  } catch (err) {
+    return errorResponse(err, 'Could not update webhook.', 'PATCH /api/admin/webhooks/[webhookId] error');
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: RouteParams) {
+  try {
+    const user = await getAdminUser();
+    if (!isAdmin(user)) return unauthenticated();
+
+    const { webhookId } = await context.params;
+    await deleteWebhook(webhookId);
+    return NextResponse.json({ success: true });
+  } catch (err) {
+    return errorResponse(err, 'Could not delete webhook.', 'DELETE /api/admin/webhooks/[webhookId] error');
+  }
+}
@@ -0,0 +1,71 @@
+// app/api/admin/webhooks/route.ts
+// WHAT: Admin registry for outbound webhooks — list endpoints and register
+//     new ones (GET/POST). Per-endpoint edit, delete, secret rotation and the
+//     delivery log live under ./[webhookId].
+// WHY: The API docs tell integrators to "contact your administrator to
+//     register a webhook"; this is what the administrator uses.
+// AUTH: getAdminUser() + role check (admin/superadmin). The generated secret
+//     is returned once, in the POST response, and never by GET.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser, type AdminUser } from '@/lib/auth';
+import { createWebhook, listWebhooks, normalizeEventTypes, WEBHOOK_EVENT_TYPES } from '@/lib/webhooks';
+import { error as logError } from '@/lib/logger';
+
+function isAdmin(user: AdminUser | null): user is AdminUser {
+  return user !== null && (user.role === 'admin' || user.role === 'superadmin');
+}
+
+function unauthenticated() {
+  return NextResponse.json(
+    { success: false, error: { code: 'UNAUTHENTICATED', message: 'Sign in as an admin to manage webhooks.' } },
+    { status: 401 }
+  );
+}
+
+export async function GET() {
+  try {
+    const user = await getAdminUser();
+    if (!isAdmin(user)) return unauthenticated();
+
+    const webhooks = await listWebhooks();
+    return NextResponse.json({ success: true, data: { webhooks, eventTypes: WEBHOOK_EVENT_TYPES } });
+  } catch (err) {
+    logError('GET /api/admin/webhooks error', { context: 'webhooks' }, err instanceof Error ? err : new Error(String(err)));
+    return NextResponse.json({ success: false, error: { message: 'Could not load webhooks.' } }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAdminUser();
+    if (!isAdmin(user)) return unauthenticated();
+
+    const body = (await request.json().catch(() => ({}))) as { url?: string; eventTypes?: unknown; description?: string };
+    const eventTypes = normalizeEventTypes(body.eventTypes);
+    if (!eventTypes) {
+      return NextResponse.json(
+        { success: false, error: { code: 'INVALID_EVENT_TYPES', message: `eventTypes must be a non-empty subset of: ${WEBHOOK_EVENT_TYPES.join(', ')}` } },
+        { status: 400 }
+      );
+    }
+
+    const { webhook, secret } = await createWebhook({
+      url: String(body.url ?? ''),
+      eventTypes,
+      description: typeof body.description === 'string' ? body.description : undefined,
+      createdBy: user.email || user.name || user.id,
+    });
+    return NextResponse.json({ success: true, data: { webhook, secret } }, { status: 201 });
+  } catch (err) {
+    const status = (err as { status?: number }).status ?? 500;
+    const code = (err as { code?: string }).code;
+    if (status >= 500) {
+      logError('POST /api/admin/webhooks error', { context: 'webhooks' }, err instanceof Error ? err : new Error(String(err)));
+    }
+    return NextResponse.json(
+      { success: false, error: { code, message: (err as Error).message || 'Could not register webhook.' } },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * GET /api/analytics/campaigns
+ *
+ * WHAT: Bitly clicks grouped by UTM campaign across partners and events
+ * (lib/bitly-campaigns.ts)
+ *
+ * Query params:
+ * - groupBy: comma-separated source, medium, campaign (default campaign)
+ * - interval: day | week | month (default week)
+ * - startDate, endDate: YYYY-MM-DD (optional)
+ * - partnerId: limit to one partner's links and its events' links (optional)
+ * - limit: number of campaigns returned (default 50)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { getAdminUser } from '@/lib/auth';
+import {
+  CAMPAIGN_FIELDS,
+  CAMPAIGN_INTERVALS,
+  getCampaignAnalytics,
+  type CampaignField,
+  type CampaignInterval,
+} from '@/lib/bitly-campaigns';
+import { error as logError } from '@/lib/logger';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await getAdminUser();
+    if (!admin) {
+      return NextResponse.json({ success: false, error: 'Admin authentication required' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const groupBy = (searchParams.get('groupBy') || 'campaign').split(',').map((field) => field.trim());
+    if (groupBy.some((field) => !CAMPAIGN_FIELDS.includes(field as CampaignField))) {
+      return NextResponse.json(
+        { success: false, error: `groupBy must be a comma-separated list of: ${CAMPAIGN_FIELDS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const interval = (searchParams.get('interval') || 'week') as CampaignInterval;
+    if (!CAMPAIGN_INTERVALS.includes(interval)) {
+      return NextResponse.json(
+        { success: false, error: `interval must be one of: ${CAMPAIGN_INTERVALS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    if ((startDate && !DATE_PATTERN.test(startDate)) || (endDate && !DATE_PATTERN.test(endDate))) {
+      return NextResponse.json({ success: false, error: 'Dates must be YYYY-MM-DD' }, { status: 400 });
+    }
+    const partnerId = searchParams.get('partnerId') || undefined;
+    if (partnerId && !ObjectId.isValid(partnerId)) {
+      return NextResponse.json({ success: false, error: 'Invalid partnerId' }, { status: 400 });
+    }
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 500);
+
+    const data = await getCampaignAnalytics({
+      groupBy: [...new Set(groupBy)] as CampaignField[],
+      interval,
+      startDate,
+      endDate,
+      partnerId,
+      limit,
+    });
+
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    logError('Campaign analytics failed', { context: 'analytics-campaigns' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to load campaign analytics' },
+      { status: 500 }
+    );
+  }
+}
@@ -8,6 +8,10 @@
 //     (admin-session cookie, JWT/legacy format, cookie domain) is UNCHANGED
 //     from the previous token-validate flow, so nothing downstream (middleware,
 //     isAdmin checks, /admin/dashboard gating) needs to change.
+// NOTE: A login started with redirect_uri=/portal signs in a partner portal
+//     contact instead (lib/partnerPortal.ts). Partner contacts are external and
+//     hold no messmass app permission, so that branch skips the permission
+//     check and only resolves the SSO account to an invited contact.
 
 import { NextRequest, NextResponse } from 'next/server';
 import {
@@ -21,11 +25,20 @@ import { getAppPermission, hasAppAccess, type AppPermission } from '@/lib/auth/s
 import { mintMessmassSessionForSsoUser } from '@/lib/auth/mintSession';
 import { clearPendingOAuthCookie, readPendingOAuthCookie } from '@/lib/auth/oauthPendingCookie';
 import { pushSsoSessionToCamera } from '@/lib/cameraClient';
+import { getDb } from '@/lib/db';
+import {
+  PORTAL_SESSION_COOKIE,
+  mintPortalSessionToken,
+  portalSessionCookieOptions,
+  recordPortalAccess,
+  signInContactWithSso,
+} from '@/lib/partnerPortal';
 import { error as logError } from '@/lib/logger';
 import config from '@/lib/config';
 
 function redirectWithError(request: NextRequest, error: string): NextResponse {
-  const response = NextResponse.redirect(new URL(`/admin/login?error=${error}`, request.url));
+  const portal = readPendingOAuthCookie(request)?.redirectTo.startsWith('/portal');
+  const response = NextResponse.redirect(new URL(`${portal ? '/portal/login' : '/admin/login'}?error=${error}`, request.url));
   clearPendingOAuthCookie(response);
   return response;
 }
@@ -76,6 +89,20 @@ export async function GET(request: NextRequest) {
       }
     }
 
+    if (pending.redirectTo.startsWith('/portal')) {
+      const db = await getDb();
+      const contact = await signInContactWithSso(db, ssoUser);
+      if (!contact) {
+        logError('SSO portal login denied: not a partner contact', { ssoUserId: ssoUser.id, email: ssoUser.email });
+        return redirectWithError(request, 'no_access');
+      }
+      await recordPortalAccess(db, { contact }, 'login', request, { method: 'sso' });
+      const response = NextResponse.redirect(new URL('/portal', request.url));
+      clearPendingOAuthCookie(response);
+      response.cookies.set(PORTAL_SESSION_COOKIE, mintPortalSessionToken(contact), portalSessionCookieOptions());
+      return response;
+    }
+
     let permission: AppPermission;
     try {
       permission = await getAppPermission(ssoUser.id, tokens.access_token);
@@ -18,18 +18,22 @@ import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from '@/lib/rateLimi
 import config from '@/lib/config';
 
 export async function GET(request: NextRequest) {
+  const redirectToParam = request.nextUrl.searchParams.get('redirect_uri');
+  // WHAT: '/portal' sends the callback down the partner portal branch
+  //     (lib/partnerPortal.ts) instead of minting an admin session
+  const redirectTo = redirectToParam?.startsWith('/admin') || redirectToParam?.startsWith('/portal') ? redirectToParam : '/admin';
+  const loginPage = redirectTo.startsWith('/portal') ? '/portal/login' : '/admin/login';
+
   if (!config.ssoBaseUrl?.trim() || !config.ssoClientId?.trim()) {
-    return NextResponse.redirect(new URL('/admin/login?error=sso_not_configured', request.url));
+    return NextResponse.redirect(new URL(`${loginPage}?error=sso_not_configured`, request.url));
   }
 
   const identifier = getClientIdentifier(request);
-  const rl = checkRateLimit(`sso-login:${identifier}`, RATE_LIMITS.AUTH);
+  const rl = await checkRateLimit(`sso-login:${identifier}`, RATE_LIMITS.AUTH);
   if (!rl.allowed) {
     return NextResponse.json({ error: RATE_LIMITS.AUTH.message }, { status: 429 });
   }
 
-  const redirectToParam = request.nextUrl.searchParams.get('redirect_uri');
-  const redirectTo = redirectToParam?.startsWith('/admin') ? redirectToParam : '/admin';
   const redirectUri = getOAuthCallbackRedirectUri(request);
   // WHAT: Force SSO to show its real login screen instead of silently
   //     re-approving an existing SSO browser session.
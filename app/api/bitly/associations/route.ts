@@ -1,20 +1,25 @@
 // app/api/bitly/associations/route.ts
 // WHAT: API endpoint for managing Bitly link-to-project associations (junction table)
-// WHY: Enables adding and removing many-to-many relationships between links and projects
+// WHY: Enables adding and removing many-to-many relationships between links and projects,
+//      and choosing how each association is credited with the link's clicks
 
 import { NextRequest, NextResponse } from 'next/server';
 import { ObjectId } from 'mongodb';
 import { getAdminUser } from '@/lib/auth';
+import { can } from '@/lib/authorization';
 import clientPromise from '@/lib/mongodb';
 import config from '@/lib/config';
 import { error as logError, info as logInfo } from '@/lib/logger';
+import { validateAttribution } from '@/lib/bitly-attribution';
+import { refreshLinkMetrics } from '@/lib/bitly-recalculator';
+import type { BitlyProjectLink } from '@/lib/bitly-junction.types';
 
 /**
  * DELETE /api/bitly/associations
  * WHAT: Remove a specific link-to-project association
  * WHY: Allow admins to correct mistakes or remove outdated associations
  * 
- * AUTH: Admin only
+ * AUTH: bitly.manage on the project (lib/capabilities.ts)
  * QUERY PARAMS:
  *   - bitlyLinkId: ObjectId of the Bitly link
  *   - projectId: ObjectId of the project
@@ -51,6 +56,15 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
+    // WHAT: bitly.manage on this event — admins hold it everywhere, others through
+    //     a binding on the event, its partner or the partner's organization
+    if (!(await can(user, 'bitly.manage', { type: 'event', id: projectId }))) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
     // WHAT: Delete the association from junction table
     const client = await clientPromise;
     const db = client.db(config.dbName);
@@ -85,3 +99,111 @@ export async function DELETE(request: NextRequest) {
     );
   }
 }
+
+/**
+ * PUT /api/bitly/associations
+ * WHAT: Set the attribution model of a link-to-project association
+ * WHY: A link shared across events can be credited by time window, decay around
+ *      each event date, an even split, or a manual percentage (lib/bitly-attribution.ts)
+ * 
+ * AUTH: bitly.manage on the project (lib/capabilities.ts)
+ * BODY: { bitlyLinkId, projectId, attribution: { model, windowDays?, halfLifeDays?, percent? } }
+ * 
+ * NOTE: Every association of the link is re-aggregated — shares depend on each other
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getAdminUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const { bitlyLinkId, projectId, attribution } = (body || {}) as Record<string, unknown>;
+
+    if (typeof bitlyLinkId !== 'string' || typeof projectId !== 'string') {
+      return NextResponse.json(
+        { success: false, error: 'bitlyLinkId and projectId are required' },
+        { status: 400 }
+      );
+    }
+    if (!ObjectId.isValid(bitlyLinkId) || !ObjectId.isValid(projectId)) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid ObjectId format' },
+        { status: 400 }
+      );
+    }
+
+    // WHAT: Same bitly.manage check as DELETE
+    if (!(await can(user, 'bitly.manage', { type: 'event', id: projectId }))) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const client = await clientPromise;
+    const db = client.db(config.dbName);
+    const junction = db.collection<BitlyProjectLink>('bitly_project_links');
+    const linkObjectId = new ObjectId(bitlyLinkId);
+    const projectObjectId = new ObjectId(projectId);
+
+    const existing = await junction.findOne({ bitlyLinkId: linkObjectId, projectId: projectObjectId });
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Association not found' },
+        { status: 404 }
+      );
+    }
+
+    // WHAT: Manual splits of one link may not exceed 100% together
+    const otherManual = await junction
+      .find({ bitlyLinkId: linkObjectId, projectId: { $ne: projectObjectId }, 'attribution.model': 'manual' })
+      .project<{ attribution?: BitlyProjectLink['attribution'] }>({ attribution: 1 })
+      .toArray();
+    const otherManualPercent = otherManual.reduce((sum, assoc) => sum + (assoc.attribution?.percent ?? 0), 0);
+
+    let validated;
+    try {
+      validated = validateAttribution(attribution, otherManualPercent);
+    } catch (err) {
+      return NextResponse.json(
+        { success: false, error: err instanceof Error ? err.message : 'Invalid attribution' },
+        { status: 400 }
+      );
+    }
+
+    await junction.updateOne(
+      { _id: existing._id },
+      { $set: { attribution: validated, updatedAt: new Date().toISOString() } }
+    );
+    await refreshLinkMetrics(linkObjectId);
+
+    const updated = await junction.findOne({ _id: existing._id });
+    logInfo('Updated association attribution', { context: 'bitly-associations', bitlyLinkId, projectId, model: validated.model });
+
+    return NextResponse.json({
+      success: true,
+      association: updated
+        ? {
+            bitlyLinkId,
+            projectId,
+            attribution: updated.attribution,
+            metrics: updated.cachedMetrics,
+          }
+        : null,
+    });
+  } catch (error) {
+    logError('PUT /api/bitly/associations error', { context: 'bitly-associations' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Internal server error'
+      },
+      { status: 500 }
+    );
+  }
+}
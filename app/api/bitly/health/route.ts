@@ -0,0 +1,80 @@
+// app/api/bitly/health/route.ts
+// WHAT: Link health list for the admin Bitly page, and a manual monitor run
+// WHY: The nightly monitor (/api/cron/bitly-health) records issues per link;
+//     admins review them on the Bitly page and re-check after fixing a destination.
+// ENDPOINTS:
+//   GET  - Health records (?status=unhealthy|warning|critical|all, default unhealthy) and counts
+//   POST - Run the monitor now
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/auth';
+import { getDb } from '@/lib/db';
+import { LINK_HEALTH_COLLECTION, runLinkHealthMonitor, type LinkHealthDoc } from '@/lib/bitly-health';
+import { error as logError, info as logInfo } from '@/lib/logger';
+
+const STATUS_FILTERS: Record<string, Record<string, unknown>> = {
+  unhealthy: { status: { $ne: 'healthy' } },
+  warning: { status: 'warning' },
+  critical: { status: 'critical' },
+  all: {},
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAdminUser();
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const status = request.nextUrl.searchParams.get('status') || 'unhealthy';
+    const filter = STATUS_FILTERS[status];
+    if (!filter) {
+      return NextResponse.json(
+        { success: false, error: `Invalid status. Must be one of: ${Object.keys(STATUS_FILTERS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const col = (await getDb()).collection<LinkHealthDoc>(LINK_HEALTH_COLLECTION);
+    const [items, counts, latest] = await Promise.all([
+      // Critical before warning, then most recently opened issue first
+      col.find(filter).sort({ status: 1, 'issues.0.since': -1 }).limit(500).toArray(),
+      col.aggregate<{ _id: string; count: number }>([{ $group: { _id: '$status', count: { $sum: 1 } } }]).toArray(),
+      col.find({}).sort({ checkedAt: -1 }).limit(1).project<{ checkedAt: string }>({ checkedAt: 1 }).toArray(),
+    ]);
+
+    const summary = { healthy: 0, warning: 0, critical: 0 };
+    for (const row of counts) {
+      if (row._id in summary) summary[row._id as keyof typeof summary] = row.count;
+    }
+
+    return NextResponse.json({
+      success: true,
+      items: items.map((doc) => ({ ...doc, _id: String(doc._id), projectId: doc.projectId ? String(doc.projectId) : null })),
+      summary,
+      lastCheckedAt: latest[0]?.checkedAt ?? null,
+    });
+  } catch (error) {
+    logError('Failed to load link health', { context: 'bitly-health' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: 'Failed to load link health' }, { status: 500 });
+  }
+}
+
+export async function POST() {
+  try {
+    const user = await getAdminUser();
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const summary = await runLinkHealthMonitor();
+    logInfo('Link health check run manually', { context: 'bitly-health', userId: user.id, ...summary });
+    return NextResponse.json({ success: true, summary });
+  } catch (error) {
+    logError('Link health check failed', { context: 'bitly-health' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Link health check failed' },
+      { status: 500 }
+    );
+  }
+}
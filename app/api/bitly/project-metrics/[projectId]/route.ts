@@ -9,6 +9,7 @@
  * - All Bitly links associated with this project
  * - Cached metrics filtered by date range for each link
  * - Date range boundaries (startDate/endDate) for transparency
+ * - Attribution model and a plain-language explanation of how clicks were credited
  * 
  * USE CASES:
  * - Project detail page showing Bitly performance
@@ -19,7 +20,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ObjectId } from 'mongodb';
 import { getDb } from '@/lib/db';
-import type { BitlyProjectLink } from '@/lib/bitly-junction.types';
+import type { BitlyAttribution, BitlyMetricsAttribution, BitlyProjectLink } from '@/lib/bitly-junction.types';
+import { describeAttribution } from '@/lib/bitly-attribution';
 
 /**
  * Response shape for project Bitly metrics
@@ -36,6 +38,11 @@ interface ProjectBitlyMetricsResponse {
       endDate: string | null;
       autoCalculated: boolean;
     };
+    attribution: BitlyAttribution & {
+      explanation: string;
+      linkClicks: number | null;
+      share: number | null;
+    };
     metrics: {
       clicks: number;
       uniqueClicks: number;
@@ -124,6 +131,9 @@ export async function GET(
     // Build response with cached metrics and link metadata
     const links = associations.map((assoc) => {
       const bitlyLinkDoc = bitlyLinksMap.get(assoc.bitlyLinkId.toString());
+      // WHAT: Metrics cached before attribution models carry no explanation; they are time-window
+      const derived: BitlyMetricsAttribution | undefined = assoc.cachedMetrics.attribution;
+      const settings: BitlyAttribution = assoc.attribution ?? { model: 'time_window' };
 
       return {
         bitlyLinkId: assoc.bitlyLinkId.toString(),
@@ -135,6 +145,17 @@ export async function GET(
           endDate: assoc.endDate,
           autoCalculated: assoc.autoCalculated,
         },
+        attribution: {
+          ...settings,
+          explanation:
+            derived?.explanation ??
+            describeAttribution(
+              { projectId, eventDate: project.eventDate ?? null, startDate: assoc.startDate, endDate: assoc.endDate, attribution: settings },
+              []
+            ),
+          linkClicks: derived?.linkClicks ?? null,
+          share: derived?.share ?? null,
+        },
         metrics: {
           clicks: assoc.cachedMetrics.clicks,
           uniqueClicks: assoc.cachedMetrics.uniqueClicks,
@@ -0,0 +1,40 @@
+// app/api/chart-config/[configurationId]/revisions/[revision]/restore/route.ts
+// WHAT: POST puts the chart configuration back to a revision (recreating it if
+//     it was deleted) and records that as a new revision. Body: { reason?: string }
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { getAdminUser } from '@/lib/auth';
+import { restoreChartConfigRevision } from '@/lib/chartConfigRevisions';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ configurationId: string; revision: string }> }
+) {
+  try {
+    const user = await getAdminUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Admin authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { configurationId, revision } = await params;
+    const body = await request.json().catch(() => ({}));
+    const result = await restoreChartConfigRevision(await getDb(), configurationId, Number(revision), {
+      author: { id: user.id, email: user.email },
+      request,
+      reason: typeof body?.reason === 'string' ? body.reason : undefined,
+    });
+
+    return NextResponse.json({ success: true, ...result });
+  } catch (error) {
+    const status = (error as { status?: number }).status ?? 500;
+    if (status >= 500) console.error('❌ Failed to restore chart configuration revision:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to restore revision' },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+// app/api/chart-config/[configurationId]/revisions/diff/route.ts
+// WHAT: GET ?from=<revision|current>&to=<revision|current> → chart field
+//     changes and per-element formula changes between two revisions.
+//     `current` is the live configuration; `to` defaults to it.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { getAdminUser } from '@/lib/auth';
+import { diffChartConfigRevisions } from '@/lib/chartConfigRevisions';
+
+function parseSide(value: string | null): number | 'current' | null {
+  if (value === 'current') return 'current';
+  const revision = Number(value);
+  return value && Number.isInteger(revision) && revision > 0 ? revision : null;
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ configurationId: string }> }
+) {
+  try {
+    const user = await getAdminUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Admin authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { configurationId } = await params;
+    const from = parseSide(request.nextUrl.searchParams.get('from'));
+    const to = parseSide(request.nextUrl.searchParams.get('to') || 'current');
+    if (from === null || to === null) {
+      return NextResponse.json(
+        { success: false, error: 'from and to must be a revision number or "current"' },
+        { status: 400 }
+      );
+    }
+
+    const diff = await diffChartConfigRevisions(await getDb(), configurationId, from, to);
+    return NextResponse.json({ success: true, from, to, diff });
+  } catch (error) {
+    const status = (error as { status?: number }).status ?? 500;
+    if (status >= 500) console.error('❌ Failed to diff chart configuration revisions:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to diff revisions' },
+      { status }
+    );
+  }
+}
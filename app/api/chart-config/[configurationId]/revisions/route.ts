@@ -0,0 +1,34 @@
+// app/api/chart-config/[configurationId]/revisions/route.ts
+// WHAT: GET a chart configuration's revisions, newest first, each with the full
+//     configuration snapshot, author, time and reason.
+// WHY: Chart Algorithm Manager history panel — see lib/chartConfigRevisions.ts.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { getAdminUser } from '@/lib/auth';
+import { listChartConfigRevisions } from '@/lib/chartConfigRevisions';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ configurationId: string }> }
+) {
+  try {
+    const user = await getAdminUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Admin authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const { configurationId } = await params;
+    const revisions = await listChartConfigRevisions(await getDb(), configurationId);
+    return NextResponse.json({ success: true, revisions });
+  } catch (error) {
+    console.error('❌ Failed to list chart configuration revisions:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Failed to list revisions' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,8 +6,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { ObjectId } from 'mongodb';
 import clientPromise from '@/lib/mongodb';
 import { getAdminUser } from '@/lib/auth';
+import { can } from '@/lib/authorization';
 import { ChartConfiguration } from '@/lib/chartConfigTypes';
 import { error as logError, info as logInfo, debug as logDebug } from '@/lib/logger';
+import { diffChartConfigurations, recordChartConfigRevision } from '@/lib/chartConfigRevisions';
 
 import config from '@/lib/config';
 const MONGODB_DB = config.dbName;
@@ -368,7 +370,7 @@ export async function GET(request: NextRequest) {
 /**
  * POST /api/chart-config - Create new chart configuration
  * Creates a new chart configuration with validation
- * Admin authentication required
+ * Requires the chart.edit capability (lib/capabilities.ts)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -380,9 +382,15 @@ export async function POST(request: NextRequest) {
         { status: 401 }
       );
     }
+    if (!(await can(user, 'chart.edit'))) {
+      return NextResponse.json(
+        { success: false, error: 'chart.edit permission required' },
+        { status: 403 }
+      );
+    }
     
     const body = await request.json();
-    const { chartId, title, type, order, isActive, elements, icon, iconVariant, subtitle, showTotal, totalLabel, aspectRatio, heroSettings, alignmentSettings, showTitle, showPercentages, preset } = body;
+    const { chartId, title, type, order, isActive, elements, icon, iconVariant, subtitle, showTotal, totalLabel, aspectRatio, heroSettings, alignmentSettings, showTitle, showPercentages, preset, revisionReason } = body;
 
     // WHAT: Log received data to debug persistence
     console.log('📥 POST RECEIVED - chartId:', chartId);
@@ -445,6 +453,16 @@ export async function POST(request: NextRequest) {
 
     const result = await collection.insertOne(configuration);
     console.log('✅ Chart configuration created with ID:', result.insertedId);
+
+    // WHAT: Revision 1 of the new chart (lib/chartConfigRevisions.ts)
+    await recordChartConfigRevision(db, {
+      configuration: { ...configuration, _id: result.insertedId },
+      before: null,
+      action: 'create',
+      author: { id: user.id, email: user.email },
+      request,
+      reason: typeof revisionReason === 'string' ? revisionReason : undefined,
+    });
     console.log('💾 SAVED TO DB - elements[0].formatting:', configuration.elements[0]?.formatting);
 
     return NextResponse.json({
@@ -471,7 +489,7 @@ export async function POST(request: NextRequest) {
 /**
  * PUT /api/chart-config - Update existing chart configuration
  * Updates a chart configuration by ID with validation
- * Admin authentication required
+ * Requires the chart.edit capability (lib/capabilities.ts)
  */
 export async function PUT(request: NextRequest) {
   try {
@@ -483,9 +501,15 @@ export async function PUT(request: NextRequest) {
         { status: 401 }
       );
     }
+    if (!(await can(user, 'chart.edit'))) {
+      return NextResponse.json(
+        { success: false, error: 'chart.edit permission required' },
+        { status: 403 }
+      );
+    }
     
     const body = await request.json();
-    const { configurationId, _id, createdAt, createdBy, preset, ...updateData } = body;
+    const { configurationId, _id, createdAt, createdBy, preset, revisionReason, ...updateData } = body;
 
     // Coerce order to number if present (accept numeric strings); drop invalid
     if (updateData && 'order' in updateData) {
@@ -518,18 +542,19 @@ export async function PUT(request: NextRequest) {
     const db = client.db(MONGODB_DB);
     const collection = db.collection('chart_configurations');
 
+    // WHAT: Current configuration — merged with update data for validation and
+    //     kept as the "before" of the revision this save records
+    const currentConfig = await collection.findOne({ _id: new ObjectId(configurationId) });
+    if (!currentConfig) {
+      return NextResponse.json(
+        { success: false, error: 'Chart configuration not found' },
+        { status: 404 }
+      );
+    }
+
     // For updates, we only validate if essential fields are being updated
     // Skip validation for simple field updates like isActive, order
     if (updateData.chartId || updateData.title || updateData.type || updateData.elements) {
-      // Get current configuration to merge with update data for validation
-      const currentConfig = await collection.findOne({ _id: new ObjectId(configurationId) });
-      if (!currentConfig) {
-        return NextResponse.json(
-          { success: false, error: 'Chart configuration not found' },
-          { status: 404 }
-        );
-      }
-      
       // Ensure order in current config is valid during validation
       const currentOrder = typeof currentConfig.order === 'number' ? currentConfig.order : parseInt(String(currentConfig.order ?? ''), 10);
       const safeCurrentOrder = Number.isFinite(currentOrder) && currentOrder >= 1 ? currentOrder : 1;
@@ -584,6 +609,19 @@ export async function PUT(request: NextRequest) {
     // Fetch the updated configuration
     const updatedConfig = await collection.findOne({ _id: new ObjectId(configurationId) });
 
+    // WHAT: Every save that changed the chart is a revision, including
+    //     order/active toggles; an "Update" click with no edits is not
+    if (updatedConfig && diffChartConfigurations(currentConfig as any, updatedConfig as any).hasChanges) {
+      await recordChartConfigRevision(db, {
+        configuration: updatedConfig,
+        before: currentConfig,
+        action: 'update',
+        author: { id: user.id, email: user.email },
+        request,
+        reason: typeof revisionReason === 'string' ? revisionReason : undefined,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       modified: result.modifiedCount > 0,
@@ -608,7 +646,7 @@ export async function PUT(request: NextRequest) {
 /**
  * DELETE /api/chart-config - Delete chart configuration
  * Removes a chart configuration by ID
- * Admin authentication required
+ * Requires the chart.edit capability (lib/capabilities.ts)
  */
 export async function DELETE(request: NextRequest) {
   try {
@@ -620,6 +658,12 @@ export async function DELETE(request: NextRequest) {
         { status: 401 }
       );
     }
+    if (!(await can(user, 'chart.edit'))) {
+      return NextResponse.json(
+        { success: false, error: 'chart.edit permission required' },
+        { status: 403 }
+      );
+    }
     
     const url = new URL(request.url);
     const configurationId = url.searchParams.get('configurationId');
@@ -658,6 +702,15 @@ export async function DELETE(request: NextRequest) {
 
     console.log('✅ Chart configuration deleted successfully:', configuration.title);
 
+    // WHAT: The last revision keeps the deleted chart, so it can be restored
+    await recordChartConfigRevision(db, {
+      configuration,
+      before: configuration,
+      action: 'delete',
+      author: { id: user.id, email: user.email },
+      request,
+    });
+
     return NextResponse.json({ 
       success: true,
       deletedConfiguration: {
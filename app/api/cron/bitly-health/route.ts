@@ -0,0 +1,47 @@
+/**
+ * GET /api/cron/bitly-health
+ *
+ * WHAT: Runs the Bitly link health monitor (lib/bitly-health.ts) — click
+ * silence and spikes on each link's daily series, and whether its destination
+ * still resolves.
+ * WHY: Scheduled after the nightly sync (03:00) and metric refresh (04:00) so it
+ * judges the freshest clicks.
+ *
+ * SCHEDULE: Daily at 04:15 UTC (vercel.json)
+ *
+ * Auth: Requires CRON_SECRET in Authorization header
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { runLinkHealthMonitor } from '@/lib/bitly-health';
+import { error as logError, warn as logWarn } from '@/lib/logger';
+
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const timestamp = new Date().toISOString();
+
+  try {
+    const authHeader = request.headers.get('authorization');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret) {
+      logWarn('CRON_SECRET not configured', { context: 'cron-bitly-health' });
+      if (process.env.NODE_ENV === 'production') {
+        return NextResponse.json({ success: false, error: 'Cron endpoint not configured' }, { status: 503 });
+      }
+    } else if (authHeader !== `Bearer ${expectedSecret}`) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const summary = await runLinkHealthMonitor();
+    return NextResponse.json({ success: true, ...summary, timestamp, duration: Date.now() - startTime });
+  } catch (error) {
+    logError('Link health monitor failed', { context: 'cron-bitly-health' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error', timestamp },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * GET /api/cron/fixture-results
+ *
+ * WHAT: Post-match backfill (lib/fixtures/results.ts) — final score and match
+ * statistics of fixture-linked events into their stats; postponed and
+ * cancelled fixtures are recorded on the event for the admin events list.
+ * WHY: Results were typed in by hand after every match.
+ *
+ * SCHEDULE: Hourly (vercel.json). Each pass checks at most `limit` fixtures
+ * (default 25) because Football-Data.org allows ~10 requests a minute.
+ *
+ * Auth: Requires CRON_SECRET in Authorization header
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { backfillFixtureResults } from '@/lib/fixtures/results';
+import { error as logError, warn as logWarn } from '@/lib/logger';
+
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const timestamp = new Date().toISOString();
+
+  try {
+    const authHeader = request.headers.get('authorization');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret) {
+      // WHAT: Fail closed in production when the secret is missing (audit M7).
+      logWarn('CRON_SECRET not configured', { context: 'cron-fixture-results' });
+      if (process.env.NODE_ENV === 'production') {
+        return NextResponse.json({ success: false, error: 'Cron endpoint not configured' }, { status: 503 });
+      }
+    } else if (authHeader !== `Bearer ${expectedSecret}`) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const limitParam = Number(request.nextUrl.searchParams.get('limit'));
+    const limit = Number.isFinite(limitParam) && limitParam > 0 ? Math.min(Math.trunc(limitParam), 100) : undefined;
+
+    const summary = await backfillFixtureResults({ limit });
+    return NextResponse.json({ success: true, ...summary, timestamp, duration: Date.now() - startTime });
+  } catch (error) {
+    logError('Fixture result backfill failed', { context: 'cron-fixture-results' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error', timestamp },
+      { status: 500 }
+    );
+  }
+}
@@ -3,7 +3,8 @@
  * 
  * WHAT: Automated background sync for all partners with Google Sheets enabled
  * WHY: Keep {messmass} and Google Sheets in sync without manual intervention
- * HOW: Iterate through partners with syncMode='auto', pull events, log results
+ * HOW: Iterate through partners with syncMode='auto' (pull events) or
+ *      'bidirectional' (two-way merge with conflict detection), log results
  * 
  * GET /api/cron/google-sheets-sync
  * 
@@ -11,14 +12,16 @@
  * 
  * Returns:
  * - success: boolean
- * - summary: { partnersProcessed, partnersFailed, totalEventsCreated, totalEventsUpdated }
+ * - summary: { partnersProcessed, partnersFailed, totalEventsCreated, totalEventsUpdated, totalConflictsOpen }
  * - results: Array<{ partnerId, partnerName, status, summary?, error? }>
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import clientPromise from '@/lib/mongodb';
 import { pullEventsFromSheet } from '@/lib/googleSheets/pullEvents';
+import { syncPartnerBidirectional, type SyncPartner } from '@/lib/googleSheets/bidirectionalSync';
 import { ObjectId } from 'mongodb';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
 import { error as logError, warn as logWarn } from '@/lib/logger';
 
 // Use Node.js runtime (not edge) because googleapis requires Node.js modules
@@ -55,7 +58,7 @@ export async function GET(request: NextRequest) {
     // Find all partners with auto sync enabled
     const partners = await partnersCollection.find({
       'googleSheetConfig.enabled': true,
-      'googleSheetConfig.syncMode': 'auto'
+      'googleSheetConfig.syncMode': { $in: ['auto', 'bidirectional'] }
     }).toArray();
 
     if (partners.length === 0) {
@@ -66,7 +69,8 @@ export async function GET(request: NextRequest) {
           partnersProcessed: 0,
           partnersFailed: 0,
           totalEventsCreated: 0,
-          totalEventsUpdated: 0
+          totalEventsUpdated: 0,
+          totalConflictsOpen: 0
         },
         results: []
       });
@@ -76,7 +80,8 @@ export async function GET(request: NextRequest) {
       partnersProcessed: 0,
       partnersFailed: 0,
       totalEventsCreated: 0,
-      totalEventsUpdated: 0
+      totalEventsUpdated: 0,
+      totalConflictsOpen: 0
     };
     const results: Array<{
       partnerId: string;
@@ -93,6 +98,24 @@ export async function GET(request: NextRequest) {
       const cfg = partner.googleSheetConfig;
 
       try {
+        // WHAT: Two-way partners merge instead of pulling
+        // WHY: A pull would overwrite {messmass} edits the merge keeps
+        if (cfg.syncMode === 'bidirectional') {
+          const syncResult = await syncPartnerBidirectional(db, partner as unknown as SyncPartner);
+          if (syncResult.success) {
+            summary.partnersProcessed++;
+            summary.totalEventsCreated += syncResult.eventsCreated;
+            summary.totalEventsUpdated += syncResult.eventsUpdated;
+            summary.totalConflictsOpen += syncResult.conflictsOpen;
+            results.push({ partnerId, partnerName, status: 'success', summary: syncResult });
+          } else {
+            summary.partnersFailed++;
+            results.push({ partnerId, partnerName, status: 'error', error: syncResult.error || 'Unknown error' });
+          }
+          await new Promise(resolve => setTimeout(resolve, 500));
+          continue;
+        }
+
         // Create database access functions (same as pull endpoint)
         const dbAccess = {
           getEventsByUuids: async (uuids: string[]) => {
@@ -114,6 +137,8 @@ export async function GET(request: NextRequest) {
               updatedAt: new Date().toISOString()
             }));
             const result = await projectsCollection.insertMany(projects);
+            // Queued only; the webhook delivery sweep sends them
+            for (const insertedId of Object.values(result.insertedIds)) await enqueueWebhookEvent('event.created', insertedId);
             return Object.values(result.insertedIds).map((id, index) => ({
               id: id.toString(),
               data: projects[index]
@@ -122,7 +147,7 @@ export async function GET(request: NextRequest) {
           updateEvents: async (updates: Array<{ uuid: string; data: any }>) => {
             const updateResults = [];
             for (const update of updates) {
-              const result = await projectsCollection.updateOne(
+              const updatedProject = await projectsCollection.findOneAndUpdate(
                 { googleSheetUuid: update.uuid },
                 {
                   $set: {
@@ -130,9 +155,11 @@ export async function GET(request: NextRequest) {
                     updatedAt: new Date().toISOString(),
                     googleSheetSyncedAt: new Date().toISOString()
                   }
-                }
+                },
+                { projection: { _id: 1 } }
               );
-              if (result.matchedCount > 0) {
+              if (updatedProject) {
+                await enqueueWebhookEvent('event.updated', updatedProject._id);
                 updateResults.push({ id: update.uuid, data: update.data });
               }
             }
@@ -0,0 +1,48 @@
+/**
+ * GET /api/cron/metric-thresholds
+ *
+ * WHAT: Evaluates every enabled v3 metric threshold (lib/v3/thresholdAlerts.ts).
+ * WHY: POST /api/v3/metrics/record only evaluates the metric keys it just
+ * recorded. Thresholds with a rolling window also change when values age out
+ * of it, and a recovery must be noticed to re-arm the threshold — this sweep
+ * covers both, and anything a post-record pass missed.
+ *
+ * SCHEDULE: Every 15 minutes (vercel.json)
+ *
+ * Auth: Requires CRON_SECRET in Authorization header
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { evaluateThresholds } from '@/lib/v3/thresholdAlerts';
+import { error as logError, warn as logWarn } from '@/lib/logger';
+
+export const maxDuration = 300;
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const timestamp = new Date().toISOString();
+
+  try {
+    const authHeader = request.headers.get('authorization');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret) {
+      // WHAT: Fail closed in production when the secret is missing (audit M7).
+      logWarn('CRON_SECRET not configured', { context: 'cron-metric-thresholds' });
+      if (process.env.NODE_ENV === 'production') {
+        return NextResponse.json({ success: false, error: 'Cron endpoint not configured' }, { status: 503 });
+      }
+    } else if (authHeader !== `Bearer ${expectedSecret}`) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const summary = await evaluateThresholds({ source: 'schedule' });
+    return NextResponse.json({ success: true, ...summary, timestamp, duration: Date.now() - startTime });
+  } catch (error) {
+    logError('Metric threshold sweep failed', { context: 'cron-metric-thresholds' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error', timestamp },
+      { status: 500 }
+    );
+  }
+}
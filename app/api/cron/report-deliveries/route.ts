@@ -0,0 +1,49 @@
+/**
+ * GET /api/cron/report-deliveries
+ *
+ * WHAT: Runs every report schedule whose nextRunAt has passed — renders the
+ * variant to PDF and emails it (lib/reportSchedules.ts).
+ * WHY: Schedules run at a wall-clock hour in the variant's timezone, so the
+ * sweep has to run at least hourly to hit that hour.
+ *
+ * SCHEDULE: Every hour (vercel.json)
+ *
+ * Auth: Requires CRON_SECRET in Authorization header
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processDueReportSchedules } from '@/lib/reportSchedules';
+import { error as logError, warn as logWarn } from '@/lib/logger';
+
+export const maxDuration = 300;
+
+const SWEEP_LIMIT = 20;
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const timestamp = new Date().toISOString();
+
+  try {
+    const authHeader = request.headers.get('authorization');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret) {
+      // WHAT: Fail closed in production when the secret is missing (audit M7).
+      logWarn('CRON_SECRET not configured', { context: 'cron-report-deliveries' });
+      if (process.env.NODE_ENV === 'production') {
+        return NextResponse.json({ success: false, error: 'Cron endpoint not configured' }, { status: 503 });
+      }
+    } else if (authHeader !== `Bearer ${expectedSecret}`) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const summary = await processDueReportSchedules(SWEEP_LIMIT);
+    return NextResponse.json({ success: true, ...summary, timestamp, duration: Date.now() - startTime });
+  } catch (error) {
+    logError('Report delivery sweep failed', { context: 'cron-report-deliveries' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error', timestamp },
+      { status: 500 }
+    );
+  }
+}
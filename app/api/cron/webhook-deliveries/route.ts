@@ -0,0 +1,51 @@
+/**
+ * GET /api/cron/webhook-deliveries
+ *
+ * WHAT: Sweeps the outbound webhook queue (webhook_deliveries) and attempts
+ * every delivery whose retry is due.
+ * WHY: Project writes attempt delivery once, right after the response
+ * (lib/webhooks.ts dispatchWebhookEvent via after()). Retries back off
+ * exponentially and would otherwise never run on a serverless host, so this
+ * sweep is what carries them — and anything an after() pass never reached.
+ *
+ * SCHEDULE: Every 5 minutes (vercel.json)
+ *
+ * Auth: Requires CRON_SECRET in Authorization header
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processDueDeliveries } from '@/lib/webhooks';
+import { error as logError, warn as logWarn } from '@/lib/logger';
+
+export const maxDuration = 300;
+
+const SWEEP_LIMIT = 200;
+
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  const timestamp = new Date().toISOString();
+
+  try {
+    const authHeader = request.headers.get('authorization');
+    const expectedSecret = process.env.CRON_SECRET;
+
+    if (!expectedSecret) {
+      // WHAT: Fail closed in production when the secret is missing (audit M7).
+      logWarn('CRON_SECRET not configured', { context: 'cron-webhook-deliveries' });
+      if (process.env.NODE_ENV === 'production') {
+        return NextResponse.json({ success: false, error: 'Cron endpoint not configured' }, { status: 503 });
+      }
+    } else if (authHeader !== `Bearer ${expectedSecret}`) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const summary = await processDueDeliveries(SWEEP_LIMIT);
+    return NextResponse.json({ success: true, ...summary, timestamp, duration: Date.now() - startTime });
+  } catch (error) {
+    logError('Webhook delivery sweep failed', { context: 'cron-webhook-deliveries' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error', timestamp },
+      { status: 500 }
+    );
+  }
+}
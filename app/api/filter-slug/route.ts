@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireSession } from '@/lib/apiGuards';
-import { generateFilterSlug } from '@/lib/slugUtils';
+import { filterSlugIdentity, generateFilterSlug } from '@/lib/slugUtils';
 
-// POST /api/filter-slug - Generate a filter slug for hashtag combinations
+// POST /api/filter-slug - Generate a filter slug for a hashtag combination or a
+// filter expression (lib/filterQuery.ts)
 export async function POST(request: NextRequest) {
   // F-009: this handler had no authentication. Caller analysis shows only the
   // admin UI invokes it, so a session is the correct guard — no page-password
@@ -12,7 +13,27 @@ export async function POST(request: NextRequest) {
 
   try {
     const body = await request.json();
-    const { hashtags, styleId } = body;
+    const { hashtags, expression, styleId } = body;
+
+    if (typeof expression === 'string' && expression.trim()) {
+      let identity: ReturnType<typeof filterSlugIdentity>;
+      try {
+        identity = filterSlugIdentity([], expression);
+      } catch (parseError) {
+        return NextResponse.json(
+          { success: false, error: parseError instanceof Error ? parseError.message : 'Invalid filter expression' },
+          { status: 400 }
+        );
+      }
+      const slug = await generateFilterSlug([], styleId, identity.expression);
+      return NextResponse.json({
+        success: true,
+        slug,
+        hashtags: identity.hashtags,
+        expression: identity.expression,
+        styleId: styleId || null
+      });
+    }
 
     if (!hashtags || !Array.isArray(hashtags)) {
       return NextResponse.json(
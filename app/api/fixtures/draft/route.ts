@@ -0,0 +1,51 @@
+/**
+ * Create Draft Project from Fixture
+ *
+ * POST /api/fixtures/draft
+ * BODY: { fixtureId: string, homePartnerId?: string, awayPartnerId?: string }
+ *
+ * WHAT: Creates a draft project linked to a fixture from the unified collection
+ * WHY: One-click creation from Suggested Fixtures; the partner ids confirm a
+ *      suggested (not yet linked) team match
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/auth';
+import { createDraftProjectFromFixture } from '@/lib/fixtures/drafts';
+
+const REASON_STATUS: Record<string, number> = {
+  invalid_id: 400,
+  fixture_not_found: 404,
+  partner_not_found: 404,
+  already_linked: 409,
+  home_partner_missing: 422,
+};
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAdminUser();
+    if (!user) return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+
+    const body = await request.json().catch(() => null);
+    const fixtureId = typeof body?.fixtureId === 'string' ? body.fixtureId : undefined;
+    if (!fixtureId) {
+      return NextResponse.json({ success: false, error: 'Missing fixtureId' }, { status: 400 });
+    }
+
+    const res = await createDraftProjectFromFixture(fixtureId, {
+      homePartnerId: typeof body.homePartnerId === 'string' ? body.homePartnerId : undefined,
+      awayPartnerId: typeof body.awayPartnerId === 'string' ? body.awayPartnerId : undefined,
+    });
+    if (!res.created) {
+      return NextResponse.json(
+        { success: false, error: res.reason, ...(res.projectId ? { projectId: res.projectId } : {}) },
+        { status: REASON_STATUS[res.reason] ?? 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, projectId: res.projectId });
+  } catch (error) {
+    console.error('[Draft From Fixture API] Error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to create draft project' }, { status: 500 });
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Fixtures API
+ *
+ * GET /api/fixtures
+ * QUERY: partnerId, homeOnly=true, includeSuggestions=true, status (scheduled|live|finished|postponed|cancelled),
+ *        provider, dateFrom, dateTo (YYYY-MM-DD), limit (≤100), offset
+ *
+ * WHAT: Query the unified `fixtures` collection (all providers, de-duplicated)
+ * WHY: Power Suggested Fixtures in Quick Add without hitting external APIs
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId, type Filter } from 'mongodb';
+import { getDb } from '@/lib/db';
+import { getAdminUser } from '@/lib/auth';
+import { isFixtureProviderId } from '@/lib/fixtures/providers';
+import { FIXTURES_COLLECTION, type FixtureDoc } from '@/lib/fixtures/types';
+
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getAdminUser();
+    if (!user) {
+      return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const params = request.nextUrl.searchParams;
+    const partnerId = params.get('partnerId');
+    const homeOnly = params.get('homeOnly') === 'true';
+    const includeSuggestions = params.get('includeSuggestions') === 'true';
+    const status = params.get('status');
+    const provider = params.get('provider');
+    const dateFrom = params.get('dateFrom');
+    const dateTo = params.get('dateTo');
+    const limit = Math.min(Math.max(parseInt(params.get('limit') || '20', 10) || 20, 1), 100);
+    const offset = Math.max(parseInt(params.get('offset') || '0', 10) || 0, 0);
+
+    if (partnerId && !ObjectId.isValid(partnerId)) {
+      return NextResponse.json({ success: false, error: 'Invalid partnerId' }, { status: 400 });
+    }
+    if (provider && !isFixtureProviderId(provider)) {
+      return NextResponse.json({ success: false, error: `Unknown provider '${provider}'` }, { status: 400 });
+    }
+
+    const query: Filter<FixtureDoc> = {};
+    if (status) query.status = status as FixtureDoc['status'];
+    if (provider) query['sources.provider'] = provider as FixtureDoc['primaryProvider'];
+    if (dateFrom || dateTo) {
+      query.date = {
+        ...(dateFrom ? { $gte: dateFrom } : {}),
+        ...(dateTo ? { $lte: dateTo } : {}),
+      };
+    }
+    if (partnerId) {
+      const id = new ObjectId(partnerId);
+      // Suggestions: the team's best partner candidate is this partner, below the auto-link confidence
+      const home: Filter<FixtureDoc>[] = [{ homePartnerId: id }];
+      const away: Filter<FixtureDoc>[] = [{ awayPartnerId: id }];
+      if (includeSuggestions) {
+        home.push({ homePartnerId: { $exists: false }, 'homeTeam.match.partnerId': partnerId });
+        away.push({ awayPartnerId: { $exists: false }, 'awayTeam.match.partnerId': partnerId });
+      }
+      query.$or = homeOnly ? home : [...home, ...away];
+    }
+
+    const db = await getDb();
+    const fixtures = db.collection<FixtureDoc>(FIXTURES_COLLECTION);
+    const [items, total] = await Promise.all([
+      fixtures.find(query).sort({ date: 1, kickoffAt: 1, _id: 1 }).skip(offset).limit(limit).toArray(),
+      fixtures.countDocuments(query),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      fixtures: items.map((fixture) => ({
+        ...fixture,
+        _id: String(fixture._id),
+        homePartnerId: fixture.homePartnerId ? String(fixture.homePartnerId) : null,
+        awayPartnerId: fixture.awayPartnerId ? String(fixture.awayPartnerId) : null,
+        projectId: fixture.projectId ? String(fixture.projectId) : null,
+      })),
+      pagination: {
+        total,
+        limit,
+        offset,
+        nextOffset: offset + items.length < total ? offset + items.length : null,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.error('[Fixtures API] Error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to fetch fixtures' }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Fixtures Sync API
+ *
+ * POST /api/fixtures/sync
+ * BODY: { provider: 'football-data' | 'sportsdb' | 'api-football', competitionIds?: string[], dateFrom?, dateTo? }
+ *
+ * WHAT: Fetch fixtures from one provider into the unified collection, then
+ *       re-run partner matching on fixtures that are still unlinked
+ * WHY: Manual refresh; each provider's default scope is in defaultSyncQueries
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminUser } from '@/lib/auth';
+import { defaultSyncQueries, rematchUnlinkedFixtures, syncProviderFixtures } from '@/lib/fixtures/fixtureStore';
+import { isFixtureProviderId } from '@/lib/fixtures/providers';
+
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getAdminUser();
+    if (!user) return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+
+    const body = await request.json().catch(() => ({}));
+    if (!isFixtureProviderId(body?.provider)) {
+      return NextResponse.json({ success: false, error: 'provider must be football-data, sportsdb or api-football' }, { status: 400 });
+    }
+
+    const queries = await defaultSyncQueries(body.provider, {
+      competitionIds: Array.isArray(body.competitionIds) ? body.competitionIds.map(String) : undefined,
+      dateFrom: typeof body.dateFrom === 'string' ? body.dateFrom : undefined,
+      dateTo: typeof body.dateTo === 'string' ? body.dateTo : undefined,
+    });
+    const sync = await syncProviderFixtures(body.provider, queries, { delayMs: 500 });
+    const matching = await rematchUnlinkedFixtures();
+
+    return NextResponse.json({ success: true, sync, matching, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('[Fixtures Sync API] Error:', error);
+    return NextResponse.json({ success: false, error: 'Failed to sync fixtures' }, { status: 500 });
+  }
+}
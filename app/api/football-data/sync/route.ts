@@ -1,10 +1,13 @@
 // app/api/football-data/sync/route.ts
 // WHAT: Trigger manual sync of Football-Data fixtures for selected competitions
 // WHY: Allow admins to refresh cache and drive event creation workflows
+// NOTE: Kept for existing callers; equivalent to POST /api/fixtures/sync with provider 'football-data'
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getAdminUser } from '@/lib/auth';
-import { importFixtures, matchFixturesToPartners } from '@/lib/fixtureImporter';
+import { defaultSyncQueries, rematchUnlinkedFixtures, syncProviderFixtures } from '@/lib/fixtures/fixtureStore';
+
+export const maxDuration = 300;
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,22 +16,16 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json().catch(() => ({}));
     const competitionIds: Array<number | string> = Array.isArray(body?.competitionIds) ? body.competitionIds : [];
-    const status: string | undefined = body?.status; // e.g., 'SCHEDULED'
     const dateFrom: string | undefined = body?.dateFrom;
     const dateTo: string | undefined = body?.dateTo;
 
-    const targets = competitionIds.length > 0 ? competitionIds : ['PL', 'PD', 'SA', 'BL1', 'FL1', 'BSA', 'CL'];
-
-    const results = [] as any[];
-    for (const c of targets) {
-      const res = await importFixtures(c, { status, dateFrom, dateTo });
-      results.push({ competition: c, ...res });
-    }
+    const queries = await defaultSyncQueries('football-data', { competitionIds: competitionIds.map(String), dateFrom, dateTo });
+    const sync = await syncProviderFixtures('football-data', queries, { delayMs: 500 });
 
     // Attempt fixture-to-partner matching after import
-    const matching = await matchFixturesToPartners();
+    const matching = await rematchUnlinkedFixtures();
 
-    return NextResponse.json({ success: true, results, matching, timestamp: new Date().toISOString() });
+    return NextResponse.json({ success: true, sync, matching, timestamp: new Date().toISOString() });
   } catch (error) {
     console.error('football-data sync error:', error);
     return NextResponse.json({ success: false, error: 'Sync failed' }, { status: 500 });
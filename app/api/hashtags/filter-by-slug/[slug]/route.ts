@@ -5,6 +5,7 @@ import { getAllHashtagRepresentations } from '@/lib/hashtagCategoryUtils';
 import clientPromise from '@/lib/mongodb';
 import { resolveReportVariant } from '@/lib/reportVariants';
 import { isEventDateInPeriod } from '@/lib/reportPeriods';
+import { buildFilterProjectQuery } from '@/lib/filterQueryResolver';
 
 import config from '@/lib/config';
 const MONGODB_DB = config.dbName;
@@ -64,10 +65,12 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
     // First, check if this is a UUID slug in filter_slugs collection
     const filterData = await findHashtagsByFilterSlug(slug);
     let hashtags = filterData?.hashtags || [];
+    // Filters saved from the query builder carry an expression (lib/filterQuery.ts)
+    const expression = filterData?.expression || null;
     const styleId = filterData?.styleId || null;
     
     // If no filter slug found, treat the slug as a direct hashtag name
-    if (!hashtags || hashtags.length === 0) {
+    if (!expression && (!hashtags || hashtags.length === 0)) {
       console.log('🏷️ No filter slug found, treating as direct hashtag:', slug);
       const decodedHashtag = decodeURIComponent(slug);
       const allProjectsForDirect = await collection.find({}).toArray();
@@ -88,21 +91,21 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       hashtags = [decodedHashtag];
     }
 
-    console.log('✅ Found hashtags for filter:', hashtags);
-
-    // Find projects that contain ALL specified hashtags
-    const allProjects = await collection.find({}).toArray();
-
-    // Filter projects that match ALL specified hashtags
-    const matchingProjects = allProjects.filter(project => {
-      const allHashtagRepresentations = getAllHashtagRepresentations({
-        hashtags: project.hashtags || [],
-        categorizedHashtags: project.categorizedHashtags || {}
-      });
-      return hashtags.every(filterHashtag =>
-        projectHasFilterHashtag(allHashtagRepresentations, filterHashtag)
-      );
-    });
+    console.log('✅ Found filter:', expression ?? hashtags);
+
+    // Expression filters select with the compiled query; tag lists need ALL hashtags
+    const matchingProjects = expression
+      ? await collection.find(await buildFilterProjectQuery(db, expression)).toArray()
+      : (await collection.find({}).toArray()).filter(project => {
+          const allHashtagRepresentations = getAllHashtagRepresentations({
+            hashtags: project.hashtags || [],
+            categorizedHashtags: project.categorizedHashtags || {}
+          });
+          return hashtags.every(filterHashtag =>
+            projectHasFilterHashtag(allHashtagRepresentations, filterHashtag)
+          );
+        });
+    const filterLabel = expression ?? hashtags.map(h => `#${h}`).join(' + ');
 
     const resolvedVariant = await resolveReportVariant(db as any, 'filter', slug, variantSlug);
     const projects = matchingProjects.filter((project) =>
@@ -115,7 +118,10 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
         project: null,
         projects: [],
         hashtags: hashtags,
-        message: `No projects found with hashtags: ${hashtags.map(h => `#${h}`).join(', ')}`
+        expression,
+        message: expression
+          ? `No projects match: ${expression}`
+          : `No projects found with hashtags: ${hashtags.map(h => `#${h}`).join(', ')}`
       });
     }
 
@@ -146,7 +152,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 
     // Format the aggregated project data
     const aggregatedProject = {
-      eventName: `Filter: ${hashtags.map(h => `#${h}`).join(' + ')}`,
+      eventName: `Filter: ${filterLabel}`,
       eventDate: newestDate.toISOString(),
       dateRange: {
         oldest: oldestDate.toISOString(),
@@ -188,6 +194,7 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
       project: aggregatedProject,
       projects: publicProjects,
       hashtags: hashtags,
+      expression,
       styleId: resolvedVariant.variant.styleId || styleId,
       report: resolvedVariant.runtimeReport.report,
       reportVariant: {
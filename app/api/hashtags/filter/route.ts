@@ -7,32 +7,53 @@ import {
 } from '@/lib/hashtagCategoryUtils';
 import { CategorizedHashtagMap } from '@/lib/hashtagCategoryTypes';
 import config from '@/lib/config';
+import { formatFilterExpression, hashtagsInFilter, parseFilterExpression, type FilterNode } from '@/lib/filterQuery';
+import { buildFilterProjectQuery } from '@/lib/filterQueryResolver';
+
+// GET /api/hashtags/filter?tags=a,b - events carrying ALL hashtags
+// GET /api/hashtags/filter?q=<expression> - events matching a filter expression
+//     (AND/OR/NOT, partners, organizations, dates, stats; see lib/filterQuery.ts)
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const tagsParam = searchParams.get('tags');
+    const expressionParam = searchParams.get('q');
     
-    if (!tagsParam) {
+    if (!tagsParam && !expressionParam) {
       return NextResponse.json({
         success: false,
         error: 'Tags parameter is required'
       }, { status: 400 });
     }
 
+    let expression: FilterNode | null = null;
+    if (expressionParam) {
+      try {
+        expression = parseFilterExpression(expressionParam);
+      } catch (parseError) {
+        return NextResponse.json({
+          success: false,
+          error: parseError instanceof Error ? parseError.message : 'Invalid filter expression',
+          position: (parseError as { position?: number }).position
+        }, { status: 400 });
+      }
+    }
+    const expressionText = expression ? formatFilterExpression(expression) : null;
+
     // Parse comma-separated hashtags and clean them
-    const hashtags = tagsParam.split(',')
+    const hashtags = expression ? hashtagsInFilter(expression) : (tagsParam || '').split(',')
       .map(tag => tag.trim().toLowerCase())
       .filter(tag => tag.length > 0);
 
-    if (hashtags.length === 0) {
+    if (!expression && hashtags.length === 0) {
       return NextResponse.json({
         success: false,
         error: 'At least one hashtag is required'
       }, { status: 400 });
     }
 
-    console.log('🔍 Fetching aggregated stats for hashtags:', hashtags);
+    console.log('🔍 Fetching aggregated stats for', expressionText ? `expression: ${expressionText}` : `hashtags: ${hashtags}`);
     
     const client = await clientPromise;
 const db = client.db(config.dbName);
@@ -75,20 +96,18 @@ const db = client.db(config.dbName);
       }
     });
     
-    // Get all projects first, then filter with our custom logic
-    // This approach is more reliable than complex MongoDB queries for this use case
-    const allProjects = await projectsCollection.find({}).toArray();
-    
-    // Filter projects using our custom matching logic
-    const projects = allProjects.filter(project => {
-      // Check if project contains ALL specified hashtags (AND logic)
-      return hashtags.every(hashtagQuery => 
-        matchHashtagInProject(hashtagQuery, {
-          hashtags: project.hashtags,
-          categorizedHashtags: project.categorizedHashtags
-        })
-      );
-    });
+    // Expressions compile to a MongoDB query; tag lists keep the in-memory matching
+    const projects = expression
+      ? await projectsCollection.find(await buildFilterProjectQuery(db, expression)).toArray()
+      : (await projectsCollection.find({}).toArray()).filter(project => {
+          // Check if project contains ALL specified hashtags (AND logic)
+          return hashtags.every(hashtagQuery =>
+            matchHashtagInProject(hashtagQuery, {
+              hashtags: project.hashtags,
+              categorizedHashtags: project.categorizedHashtags
+            })
+          );
+        });
     
     // Create project list for display
     const projectList = projects.map(project => ({
@@ -105,11 +124,13 @@ const db = client.db(config.dbName);
     if (projects.length === 0) {
       return NextResponse.json({
         success: false,
-        error: `No projects found with all hashtags: ${hashtags.join(', ')}`
+        error: expressionText
+          ? `No projects match: ${expressionText}`
+          : `No projects found with all hashtags: ${hashtags.join(', ')}`
       }, { status: 404 });
     }
 
-    console.log(`✅ Found ${projects.length} projects with all hashtags: ${hashtags.join(', ')}`);
+    console.log(`✅ Found ${projects.length} projects for ${expressionText ?? `all hashtags: ${hashtags.join(', ')}`}`);
 
     // Calculate aggregated statistics - reuse logic from single hashtag endpoint
     const aggregatedStats = {
@@ -174,7 +195,7 @@ const db = client.db(config.dbName);
 
     // Format the aggregated project data
     const aggregatedProject = {
-      eventName: `Filter: ${hashtags.map(tag => `#${tag}`).join(' + ')}`,
+      eventName: expressionText ? `Filter: ${expressionText}` : `Filter: ${hashtags.map(tag => `#${tag}`).join(' + ')}`,
       eventDate: oldestDate.toISOString(),
       dateRange: {
         oldest: oldestDate.toISOString(),
@@ -196,14 +217,15 @@ const db = client.db(config.dbName);
       projects: projectList,
       filter: {
         hashtags: hashtags,
-        logic: 'AND', // Explicitly indicate this is AND logic
+        logic: expressionText ? 'EXPRESSION' : 'AND', // Explicitly indicate AND logic for tag lists
+        ...(expressionText ? { expression: expressionText } : {}),
         matchCount: projects.length
       },
       debug: {
         projectsFound: projects.length,
         hashtags: hashtags,
         dateRange: aggregatedProject.dateRange,
-        filterLogic: 'AND - projects must contain ALL hashtags'
+        filterLogic: expressionText ? `EXPRESSION - ${expressionText}` : 'AND - projects must contain ALL hashtags'
       }
     });
 
@@ -219,7 +241,13 @@ const db = client.db(config.dbName);
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { hashtags } = body;
+    const { hashtags, expression } = body;
+
+    if (typeof expression === 'string' && expression.trim()) {
+      const url = new URL(request.url);
+      url.searchParams.set('q', expression);
+      return GET(new NextRequest(url.toString(), { method: 'GET', headers: request.headers }));
+    }
 
     if (!hashtags || !Array.isArray(hashtags)) {
       return NextResponse.json({
@@ -37,7 +37,7 @@ export async function POST(request: NextRequest) {
 
   const forwardedFor = request.headers.get('x-forwarded-for');
   const identifier = forwardedFor ? forwardedFor.split(',')[0].trim() : 'unknown';
-  const rl = checkRateLimit(`camera-sso-session:${identifier}`, RATE_LIMITS.WRITE);
+  const rl = await checkRateLimit(`camera-sso-session:${identifier}`, RATE_LIMITS.WRITE);
   if (!rl.allowed) {
     return NextResponse.json({ success: false, error: RATE_LIMITS.WRITE.message }, { status: 429 });
   }
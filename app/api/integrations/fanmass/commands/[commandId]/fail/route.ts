@@ -0,0 +1,32 @@
+// app/api/integrations/fanmass/commands/[commandId]/fail/route.ts
+// WHAT: Report a command fanmass tried to apply and could not — unknown type,
+//       a rejected payload, an entity that no longer exists. JSON body:
+//       { code?: string, message: string }. The command becomes 'failed',
+//       shows its error in the admin, and raises a notification.
+// AUTH: requireFanmassIntegrationAuth (same bearer/x-api-key token as the
+//       rest of the /api/integrations/fanmass/** surface).
+
+import { NextRequest } from 'next/server';
+import { handleRouteError, jsonSuccess, requireFanmassIntegrationAuth } from '@/lib/fanmassIntegration';
+import { failCommand, normalizeCommandError } from '@/lib/fanmassCommands';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ commandId: string }> }
+) {
+  const authError = requireFanmassIntegrationAuth(request);
+  if (authError) return authError;
+  try {
+    const { commandId } = await params;
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw Object.assign(new Error('Request body must be valid JSON.'), { status: 400, code: 'INVALID_COMMAND_FAILURE' });
+    }
+    const command = await failCommand(commandId, normalizeCommandError(body));
+    return jsonSuccess({ command });
+  } catch (err) {
+    return handleRouteError(err);
+  }
+}
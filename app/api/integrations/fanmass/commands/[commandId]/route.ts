@@ -1,7 +1,8 @@
 // app/api/integrations/fanmass/commands/[commandId]/route.ts
 // WHAT: Acknowledge a command — called once fanmass has actually applied it,
-//       not on receipt, so a crash in between leaves it for the next poll to
-//       retry. Optional JSON body: { ackResult?: Record<string, unknown> },
+//       not on receipt, so a crash in between lets its claim lapse and the
+//       next poll retries it. A late ack (after it failed, expired or was
+//       cancelled) is still recorded as applied. Optional JSON body: { ackResult?: Record<string, unknown> },
 //       carried through to the ledger (e.g. settings.update's
 //       restartRequired flag) — see lib/fanmassCommands.ts for why this
 //       departs from the bare-DELETE rescan-ack pattern.
@@ -1,17 +1,25 @@
 // app/api/integrations/fanmass/commands/route.ts
-// WHAT: Every pending operator command, for fanmass's poll.
+// WHAT: Fanmass's poll — claims every pending operator command and returns it.
+//       Query: ?claimant= names the poller on the command timeline (default
+//       'fanmass'); ?leaseSeconds= is how long it has to ack or fail each
+//       command before it is offered again (default 120, clamped 15–900).
 // AUTH: requireFanmassIntegrationAuth (same bearer/x-api-key token as the
 //       rest of the /api/integrations/fanmass/** surface).
 
 import { NextRequest } from 'next/server';
 import { handleRouteError, jsonSuccess, requireFanmassIntegrationAuth } from '@/lib/fanmassIntegration';
-import { listPendingCommands } from '@/lib/fanmassCommands';
+import { claimCommands } from '@/lib/fanmassCommands';
 
 export async function GET(request: NextRequest) {
   const authError = requireFanmassIntegrationAuth(request);
   if (authError) return authError;
   try {
-    const commands = await listPendingCommands();
+    const { searchParams } = new URL(request.url);
+    const claimant = (searchParams.get('claimant') || '').trim().slice(0, 100) || 'fanmass';
+    const leaseParam = Number(searchParams.get('leaseSeconds'));
+    const commands = await claimCommands(claimant, {
+      leaseSeconds: Number.isFinite(leaseParam) && leaseParam > 0 ? leaseParam : undefined,
+    });
     return jsonSuccess({ commands });
   } catch (err) {
     return handleRouteError(err);
@@ -7,6 +7,8 @@ import V3Entity from '@/lib/models/v3/Entity';
 import { V3ReportResolver } from '@/lib/v3/reporting/reportResolver';
 import { resolveReportVariant } from '@/lib/reportVariants';
 import { isEventDateInPeriod } from '@/lib/reportPeriods';
+import { buildComparisonPayload, type ReportComparisonPayload } from '@/lib/reportComparison';
+import { computeDerivedVariables, loadDerivedVariables } from '@/lib/variableDependencies';
 
 type OrganizationRecord = {
   _id: ObjectId;
@@ -144,6 +146,39 @@ export async function GET(
         aggregateNumericStats(aggregatedStats, (project.stats || {}) as Record<string, unknown>);
       });
 
+      // WHAT: Derived variables recomputed from the summed inputs, in dependency order
+      // WHY: Same evaluation as the partner and event reports, including the
+      //     fallback to the summed stored stats when the definitions can't be used
+      const derivedVariables = await loadDerivedVariables(db).catch((derivedError) => {
+        console.error('⚠️ Derived variables not computed:', derivedError);
+        return null;
+      });
+      const withDerivedVariables = (stats: Record<string, number | string>): Record<string, number | string> => {
+        if (!derivedVariables) return stats;
+        try {
+          return computeDerivedVariables(stats, derivedVariables);
+        } catch (derivedError) {
+          console.error('⚠️ Derived variables not computed:', derivedError);
+          return stats;
+        }
+      };
+
+      // WHAT: Comparison mode — the prior period aggregated on the same base
+      const { comparisonPeriod } = resolvedVariant;
+      let comparison: ReportComparisonPayload | null = null;
+      if (comparisonPeriod && variant.comparisonPreset) {
+        const comparisonProjects = allProjects.filter((project) =>
+          isEventDateInPeriod(project.eventDate, comparisonPeriod)
+        );
+        const comparisonStats: Record<string, number | string> = {
+          ...((variant.statsOverrides || {}) as Record<string, number | string>),
+        };
+        comparisonProjects.forEach((project) => {
+          aggregateNumericStats(comparisonStats, (project.stats || {}) as Record<string, unknown>);
+        });
+        comparison = buildComparisonPayload(variant.comparisonPreset, comparisonPeriod, withDerivedVariables(comparisonStats), comparisonProjects.length);
+      }
+
       return NextResponse.json({
         success: true,
         organization: {
@@ -172,7 +207,8 @@ export async function GET(
           ...variant,
           period: resolvedVariant.period,
         },
-        aggregatedStats,
+        aggregatedStats: withDerivedVariables(aggregatedStats),
+        comparison,
         totalEntities: assignedPartners.length,
         totalEvents: projects.length,
       });
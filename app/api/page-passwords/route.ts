@@ -4,7 +4,9 @@ import { generateShareableLink, getOrCreatePagePassword, validateAnyPassword } f
 import { PageType } from '@/lib/pagePassword';
 import { getAdminUser } from '@/lib/auth';
 import { cookies } from 'next/headers';
-import { PAGE_ACCESS_COOKIE, mintPageAccessToken, pageAccessCookieOptions } from '@/lib/pageAccess';
+import { PAGE_ACCESS_COOKIE, mintPageAccessToken, pageAccessCookieOptions, verifyShareAccessToken } from '@/lib/pageAccess';
+import { clientInfoFromHeaders, redeemShareLink } from '@/lib/shareLinks';
+import { getDb } from '@/lib/db';
 import { error as logError, info as logInfo, warn as logWarn } from '@/lib/logger';
 
 import config from '@/lib/config';
@@ -16,6 +18,13 @@ const MONGODB_DB = config.dbName;
 // explicitly opting into the Node.js runtime ensures compatibility.
 export const runtime = 'nodejs';
 
+const SHARE_LINK_ERRORS = {
+  invalid: 'This link is invalid',
+  revoked: 'This link has been revoked',
+  expired: 'This link has expired',
+  exhausted: 'This link has already been used the maximum number of times',
+} as const;
+
 // POST /api/page-passwords - Generate or retrieve page password and create shareable link
 export async function POST(request: NextRequest) {
   // WHAT: Minting or revealing a page password requires an admin session.
@@ -101,12 +110,12 @@ export async function PUT(request: NextRequest) {
   let pageType: string = 'unknown';
   try {
     const body = await request.json();
-    const { pageId, pageType: bodyPageType, password } = body;
+    const { pageId, pageType: bodyPageType, password, accessToken, shareToken } = body;
     pageType = (bodyPageType || 'unknown').toString();
 
-    if (!pageId || !pageType || !password) {
+    if (!pageId || !pageType || (!password && !accessToken && !shareToken)) {
       return NextResponse.json(
-        { success: false, error: 'pageId, pageType, and password are required' },
+        { success: false, error: 'pageId, pageType, and password (or accessToken or shareToken) are required' },
         { status: 400 }
       );
     }
@@ -141,6 +150,70 @@ export async function PUT(request: NextRequest) {
       return adminResponse;
     }
 
+    // WHAT: Redeem a time-limited share link (?access=<token>).
+    // WHY: Scheduled report emails carry a signed, expiring token instead of the
+    //     page password (lib/pagePassword.ts generateShareableLink). A valid token
+    //     earns the same grant cookie a correct password does.
+    if (accessToken && !password) {
+      if (!verifyShareAccessToken(String(accessToken), pageType, pageId)) {
+        logWarn('Share link rejected', { context: 'page-passwords', pageType, pageIdPrefix: pageId.substring(0, 8) });
+        return NextResponse.json({
+          success: false,
+          isValid: false,
+          isAdmin: false,
+          error: 'This link is invalid or has expired',
+          code: 'SHARE_LINK_INVALID'
+        }, { status: 401 });
+      }
+
+      const shareCookies = await cookies();
+      const shareResponse = NextResponse.json({
+        success: true,
+        isValid: true,
+        isAdmin: false,
+        message: 'Share link accepted'
+      });
+      shareResponse.cookies.set(
+        PAGE_ACCESS_COOKIE,
+        mintPageAccessToken(shareCookies.get(PAGE_ACCESS_COOKIE)?.value, pageType, pageId),
+        pageAccessCookieOptions()
+      );
+      return shareResponse;
+    }
+
+    // WHAT: Redeem a per-recipient share link (?share=<token>).
+    // WHY: Unlike the page password, each recipient's link can be revoked, limited
+    //     and audited on its own (lib/shareLinks.ts). The grant cookie remembers
+    //     which link it came from so revocation also ends this session.
+    if (shareToken && !password) {
+      const redeemed = await redeemShareLink(await getDb(), String(shareToken), pageType, pageId, clientInfoFromHeaders(request.headers));
+      if (!redeemed.ok) {
+        logWarn('Recipient share link rejected', { context: 'page-passwords', pageType, reason: redeemed.reason, pageIdPrefix: pageId.substring(0, 8) });
+        return NextResponse.json({
+          success: false,
+          isValid: false,
+          isAdmin: false,
+          error: SHARE_LINK_ERRORS[redeemed.reason],
+          code: `SHARE_LINK_${redeemed.reason.toUpperCase()}`
+        }, { status: 401 });
+      }
+
+      const recipientCookies = await cookies();
+      const recipientResponse = NextResponse.json({
+        success: true,
+        isValid: true,
+        isAdmin: false,
+        allowDownload: redeemed.link.allowDownload,
+        message: 'Share link accepted'
+      });
+      recipientResponse.cookies.set(
+        PAGE_ACCESS_COOKIE,
+        mintPageAccessToken(recipientCookies.get(PAGE_ACCESS_COOKIE)?.value, pageType, pageId, redeemed.link._id.toHexString()),
+        pageAccessCookieOptions()
+      );
+      return recipientResponse;
+    }
+
     logInfo('Validating password for page', { context: 'page-passwords', pageType, pageIdPrefix: pageId.substring(0, 8) });
 
     // Validate password (admin or page-specific)
@@ -0,0 +1,85 @@
+/**
+ * Google Sheets Sync Conflict Resolve API Endpoint
+ *
+ * WHAT: Resolves fields of one two-way sync conflict
+ * WHY: The admin picks, per field, whether the sheet or {messmass} value is
+ *     right; the chosen value is written to both sides
+ *
+ * POST /api/partners/[id]/google-sheet/conflicts/[conflictId]/resolve
+ *
+ * Request Body:
+ * - fields: Record<fieldPath, 'sheet' | 'messmass'> - Fields to resolve now
+ *
+ * Returns:
+ * - success: boolean
+ * - conflict: SyncConflict (status 'resolved' once no field is open)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import clientPromise from '@/lib/mongodb';
+import { getAdminUser } from '@/lib/auth';
+import { resolveSyncConflict, type SyncPartner } from '@/lib/googleSheets/bidirectionalSync';
+import config from '@/lib/config';
+import { error as logError } from '@/lib/logger';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; conflictId: string }> }
+) {
+  const user = await getAdminUser();
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: 'Sign in to perform this action.', code: 'UNAUTHENTICATED' },
+      { status: 401 }
+    );
+  }
+
+  let id: string | undefined;
+  let conflictId: string | undefined;
+  try {
+    ({ id, conflictId } = await params);
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid partner ID' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const fields = body?.fields;
+    if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+      return NextResponse.json(
+        { success: false, error: 'fields must map field paths to "sheet" or "messmass"' },
+        { status: 400 }
+      );
+    }
+
+    const client = await clientPromise;
+    const db = client.db(config.dbName);
+    const partner = await db.collection('partners').findOne({ _id: new ObjectId(id) });
+    if (!partner) {
+      return NextResponse.json({ success: false, error: 'Partner not found' }, { status: 404 });
+    }
+    if (!partner.googleSheetConfig?.enabled) {
+      return NextResponse.json(
+        { success: false, error: 'Google Sheets is not configured for this partner' },
+        { status: 400 }
+      );
+    }
+
+    const conflict = await resolveSyncConflict(db, partner as unknown as SyncPartner, conflictId, fields, user.email || user.id);
+    return NextResponse.json({ success: true, conflict });
+  } catch (error) {
+    const status = (error as { status?: number }).status ?? 500;
+    if (status >= 500) {
+      logError('Error resolving Google Sheet sync conflict', { context: 'google-sheet-conflict-resolve', partnerId: id || 'unknown', conflictId }, error instanceof Error ? error : new Error(String(error)));
+    }
+    return NextResponse.json(
+      {
+        success: false,
+        error: status >= 500 ? 'Internal server error' : (error as Error).message,
+        code: (error as { code?: string }).code
+      },
+      { status }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Google Sheets Sync Conflicts API Endpoint
+ *
+ * WHAT: Lists a partner's two-way sync conflicts
+ * WHY: Fields changed in both the sheet and {messmass} wait here for an admin
+ *
+ * GET /api/partners/[id]/google-sheet/conflicts
+ *
+ * Query Parameters:
+ * - status: 'open' | 'resolved' (optional, default: 'open')
+ *
+ * Returns:
+ * - success: boolean
+ * - conflicts: SyncConflict[] (newest first)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/apiGuards';
+import { ObjectId } from 'mongodb';
+import clientPromise from '@/lib/mongodb';
+import { listSyncConflicts } from '@/lib/googleSheets/bidirectionalSync';
+import config from '@/lib/config';
+import { error as logError } from '@/lib/logger';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // SECURITY (messmass#347): require an authenticated admin session.
+  const __denied = await requireSession();
+  if (__denied) return __denied;
+
+  let id: string | undefined;
+  try {
+    id = (await params).id;
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid partner ID' }, { status: 400 });
+    }
+
+    const status = new URL(request.url).searchParams.get('status') === 'resolved' ? 'resolved' : 'open';
+    const client = await clientPromise;
+    const conflicts = await listSyncConflicts(client.db(config.dbName), id, status);
+
+    return NextResponse.json({ success: true, conflicts });
+  } catch (error) {
+    logError('Error listing Google Sheet sync conflicts', { context: 'google-sheet-conflicts', partnerId: id || 'unknown' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
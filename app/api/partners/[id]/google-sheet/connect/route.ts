@@ -9,7 +9,7 @@
  * Request Body:
  * - sheetId: string (required) - Google Sheet ID from URL
  * - sheetName: string (optional, default: "Events") - Tab name
- * - syncMode: 'manual' | 'auto' (optional, default: 'manual')
+ * - syncMode: 'manual' | 'auto' | 'bidirectional' (optional, default: 'manual')
  * 
  * Returns:
  * - success: boolean
@@ -22,12 +22,14 @@ import { requireSession } from '@/lib/apiGuards';
 import { ObjectId } from 'mongodb';
 import { testConnection } from '@/lib/googleSheets/client';
 import { connectPartnerToSheet } from '@/lib/googleSheets/partnerSheetOps';
+import { isGoogleSheetSyncMode } from '@/lib/googleSheets/syncConflicts';
+import type { GoogleSheetSyncMode } from '@/lib/googleSheets/types';
 import { error as logError, debug as logDebug } from '@/lib/logger';
 
 interface ConnectRequest {
   sheetId: string;
   sheetName?: string;
-  syncMode?: 'manual' | 'auto';
+  syncMode?: GoogleSheetSyncMode;
 }
 
 export async function POST(
@@ -62,6 +64,13 @@ export async function POST(
         { status: 400 }
       );
     }
+
+    if (!isGoogleSheetSyncMode(syncMode)) {
+      return NextResponse.json(
+        { success: false, error: `Invalid sync mode "${syncMode}"` },
+        { status: 400 }
+      );
+    }
     
     // DEBUG: Log sheet ID details
     logDebug('Received sheetId for connection', { context: 'google-sheet-connect', partnerId: id, sheetId, sheetIdLength: sheetId.length, sheetIdType: typeof sheetId, isValidFormat: /^[a-zA-Z0-9_-]+$/.test(sheetId) });
@@ -18,6 +18,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireSession } from '@/lib/apiGuards';
 import { ObjectId } from 'mongodb';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
 import clientPromise from '@/lib/mongodb';
 import { pullEventsFromSheet } from '@/lib/googleSheets/pullEvents';
 import config from '@/lib/config';
@@ -123,6 +124,8 @@ export async function POST(
         }));
         
         const result = await projectsCollection.insertMany(projects);
+        // Queued only; the webhook delivery sweep sends them
+        for (const insertedId of Object.values(result.insertedIds)) await enqueueWebhookEvent('event.created', insertedId);
         // Convert insertedIds object to array (MongoDB 6+ returns object, not array)
         return Object.values(result.insertedIds).map((id, index) => ({
           id: id.toString(),
@@ -139,7 +142,7 @@ export async function POST(
         
         const results = [];
         for (const update of updates) {
-          const result = await projectsCollection.updateOne(
+          const updatedProject = await projectsCollection.findOneAndUpdate(
             { googleSheetUuid: update.uuid },
             { 
               $set: {
@@ -147,10 +150,12 @@ export async function POST(
                 updatedAt: new Date().toISOString(),
                 googleSheetSyncedAt: new Date().toISOString()
               }
-            }
+            },
+            { projection: { _id: 1 } }
           );
           
-          if (result.matchedCount > 0) {
+          if (updatedProject) {
+            await enqueueWebhookEvent('event.updated', updatedProject._id);
             results.push({ id: update.uuid, data: update.data });
           }
         }
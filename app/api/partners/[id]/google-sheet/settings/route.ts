@@ -0,0 +1,85 @@
+/**
+ * Google Sheets Sync Settings API Endpoint
+ *
+ * WHAT: Changes a connected partner's sync mode and conflict policy
+ * WHY: Switching to two-way sync (or changing who wins a conflict) should not
+ *     require disconnecting and reconnecting the sheet
+ *
+ * PUT /api/partners/[id]/google-sheet/settings
+ *
+ * Request Body (both optional):
+ * - syncMode: 'manual' | 'auto' | 'bidirectional'
+ * - conflictPolicy: 'sheet_wins' | 'messmass_wins' | 'newest_wins' | 'manual'
+ *
+ * Returns:
+ * - success: boolean
+ * - syncMode, conflictPolicy: the saved settings
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/apiGuards';
+import { ObjectId } from 'mongodb';
+import clientPromise from '@/lib/mongodb';
+import { isGoogleSheetSyncMode, isSyncConflictPolicy } from '@/lib/googleSheets/syncConflicts';
+import { getConflictPolicy } from '@/lib/googleSheets/bidirectionalSync';
+import config from '@/lib/config';
+import { error as logError } from '@/lib/logger';
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // SECURITY (messmass#347): require an authenticated admin session.
+  const __denied = await requireSession();
+  if (__denied) return __denied;
+
+  let id: string | undefined;
+  try {
+    id = (await params).id;
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid partner ID' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const update: Record<string, string> = {};
+    if (body?.syncMode !== undefined) {
+      if (!isGoogleSheetSyncMode(body.syncMode)) {
+        return NextResponse.json({ success: false, error: `Invalid sync mode "${body.syncMode}"` }, { status: 400 });
+      }
+      update['googleSheetConfig.syncMode'] = body.syncMode;
+    }
+    if (body?.conflictPolicy !== undefined) {
+      if (!isSyncConflictPolicy(body.conflictPolicy)) {
+        return NextResponse.json({ success: false, error: `Invalid conflict policy "${body.conflictPolicy}"` }, { status: 400 });
+      }
+      update['googleSheetConfig.conflictPolicy'] = body.conflictPolicy;
+    }
+    if (Object.keys(update).length === 0) {
+      return NextResponse.json({ success: false, error: 'Nothing to update' }, { status: 400 });
+    }
+
+    const client = await clientPromise;
+    const partners = client.db(config.dbName).collection('partners');
+    const partner = await partners.findOneAndUpdate(
+      { _id: new ObjectId(id), 'googleSheetConfig.enabled': true },
+      { $set: { ...update, updatedAt: new Date().toISOString() } },
+      { returnDocument: 'after' }
+    );
+    if (!partner) {
+      return NextResponse.json(
+        { success: false, error: 'Partner not found or Google Sheets is not connected' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      syncMode: partner.googleSheetConfig.syncMode,
+      conflictPolicy: getConflictPolicy(partner.googleSheetConfig)
+    });
+  } catch (error) {
+    logError('Error updating Google Sheet sync settings', { context: 'google-sheet-settings', partnerId: id || 'unknown' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: 'Internal server error' }, { status: 500 });
+  }
+}
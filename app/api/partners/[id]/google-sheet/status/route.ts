@@ -14,6 +14,7 @@
  * - connected: boolean
  * - config: GoogleSheetConfig (if connected)
  * - stats: GoogleSheetStats (if connected)
+ * - openConflicts: number (if connected) - Two-way sync conflicts awaiting review
  * - healthCheck: object (if checkHealth=true)
  */
 
@@ -23,6 +24,7 @@ import { ObjectId } from 'mongodb';
 import clientPromise from '@/lib/mongodb';
 import { testConnection } from '@/lib/googleSheets/client';
 import { countSheetDataRows } from '@/lib/googleSheets/metrics';
+import { countOpenSyncConflicts, getConflictPolicy } from '@/lib/googleSheets/bidirectionalSync';
 import config from '@/lib/config';
 import { error as logError } from '@/lib/logger';
 
@@ -88,6 +90,7 @@ export async function GET(
         headerRow: googleSheetConfig.headerRow,
         dataStartRow: googleSheetConfig.dataStartRow,
         syncMode: googleSheetConfig.syncMode,
+        conflictPolicy: getConflictPolicy(googleSheetConfig),
         lastSyncAt: googleSheetConfig.lastSyncAt,
         lastSyncStatus: googleSheetConfig.lastSyncStatus,
         lastSyncError: googleSheetConfig.lastSyncError
@@ -103,6 +106,8 @@ export async function GET(
         eventsUpdated: 0
       };
 
+      response.openConflicts = await countOpenSyncConflicts(db, id);
+
       // Optional health check to verify sheet accessibility
       if (checkHealth && googleSheetConfig.sheetId) {
         try {
@@ -0,0 +1,87 @@
+/**
+ * Google Sheets Two-Way Sync API Endpoint
+ *
+ * WHAT: Runs one bidirectional sync (sheet ⇄ {messmass}) for a partner now
+ * WHY: Same run the daily cron does for syncMode 'bidirectional', on demand
+ *
+ * POST /api/partners/[id]/google-sheet/sync
+ *
+ * Request Body:
+ * - dryRun: boolean (optional) - Count changes and conflicts without writing
+ *
+ * Returns:
+ * - success: boolean
+ * - summary: BidirectionalSyncSummary (counts, open conflicts, row errors)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/apiGuards';
+import { ObjectId } from 'mongodb';
+import clientPromise from '@/lib/mongodb';
+import { syncPartnerBidirectional, type SyncPartner } from '@/lib/googleSheets/bidirectionalSync';
+import config from '@/lib/config';
+import { error as logError } from '@/lib/logger';
+
+export const maxDuration = 300;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  // SECURITY (messmass#347): require an authenticated admin session.
+  const __denied = await requireSession();
+  if (__denied) return __denied;
+
+  let id: string | undefined;
+  try {
+    id = (await params).id;
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid partner ID' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const dryRun = body?.dryRun === true;
+
+    const client = await clientPromise;
+    const db = client.db(config.dbName);
+    const partner = await db.collection('partners').findOne({ _id: new ObjectId(id) });
+
+    if (!partner) {
+      return NextResponse.json({ success: false, error: 'Partner not found' }, { status: 404 });
+    }
+    if (!partner.googleSheetConfig?.enabled || !partner.googleSheetConfig.sheetId || !partner.googleSheetConfig.sheetName) {
+      return NextResponse.json(
+        { success: false, error: 'Google Sheets is not configured for this partner' },
+        { status: 400 }
+      );
+    }
+
+    const summary = await syncPartnerBidirectional(db, partner as unknown as SyncPartner, { dryRun });
+
+    if (!summary.success) {
+      return NextResponse.json(
+        { success: false, error: summary.error || 'Two-way sync failed', summary },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: dryRun
+        ? 'Dry run completed. No changes were made.'
+        : `Synced both ways: ${summary.eventsUpdated + summary.eventsCreated} events and ${summary.rowsUpdated + summary.rowsCreated} rows changed, ${summary.conflictsOpen} conflicts need review`,
+      summary
+    });
+  } catch (error) {
+    logError('Error running two-way Google Sheet sync', { context: 'google-sheet-sync', partnerId: id || 'unknown' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
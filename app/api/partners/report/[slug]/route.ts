@@ -9,7 +9,9 @@ import { error as logError } from '@/lib/logger';
 import { addDerivedMetrics } from '@/lib/projectStatsUtils';
 import { resolveReportVariant } from '@/lib/reportVariants';
 import { isEventDateInPeriod } from '@/lib/reportPeriods';
+import { buildComparisonPayload, type ReportComparisonPayload } from '@/lib/reportComparison';
 import { findPartnerByIdentifier } from '@/lib/partnerIdentifier';
+import { computeDerivedVariables, loadDerivedVariables } from '@/lib/variableDependencies';
 
 export const dynamic = 'force-dynamic';
 
@@ -106,21 +108,62 @@ const db = client.db(config.dbName);
       ? { ...(partner.stats || {}) }
       : { ...((resolvedVariant.variant.statsOverrides || {}) as Record<string, number | string>) };
 
-    events.forEach(event => {
-      const eventStats = event.stats || {};
-      Object.entries(eventStats).forEach(([key, value]) => {
-        if (typeof value === 'number') {
-          const currentValue = aggregatedStats[key];
-          // Only aggregate if current value is also a number (or undefined)
-          if (typeof currentValue === 'number') {
-            aggregatedStats[key] = currentValue + value;
-          } else if (currentValue === undefined) {
-            aggregatedStats[key] = value;
+    const sumEventStats = (target: Record<string, number | string>, periodEvents: typeof allEvents) => {
+      periodEvents.forEach(event => {
+        const eventStats = event.stats || {};
+        Object.entries(eventStats).forEach(([key, value]) => {
+          if (typeof value === 'number') {
+            const currentValue = target[key];
+            // Only aggregate if current value is also a number (or undefined)
+            if (typeof currentValue === 'number') {
+              target[key] = currentValue + value;
+            } else if (currentValue === undefined) {
+              target[key] = value;
+            }
+            // Skip if currentValue is a string (e.g., reportText* fields from partner.stats)
           }
-          // Skip if currentValue is a string (e.g., reportText* fields from partner.stats)
-        }
+        });
       });
+    };
+    sumEventStats(aggregatedStats, events);
+
+    // WHAT: Derived variables recomputed from the summed inputs, in dependency order
+    // WHY: A summed per-event ratio is meaningless, and one derived variable may read
+    //     another — same evaluation as the event report (api/projects/stats/[slug]).
+    //     A saved dependency cycle keeps the summed stored stats, like a failed load
+    const logDerivedError = (derivedError: unknown) =>
+      logError('Derived variables not computed', { context: 'partners-report', slug }, derivedError instanceof Error ? derivedError : new Error(String(derivedError)));
+    const derivedVariables = await loadDerivedVariables(db).catch((derivedError) => {
+      logDerivedError(derivedError);
+      return null;
     });
+    const withDerivedVariables = (stats: Record<string, number | string>): Record<string, number | string> => {
+      if (!derivedVariables) return stats;
+      try {
+        return computeDerivedVariables(stats, derivedVariables);
+      } catch (derivedError) {
+        logDerivedError(derivedError);
+        return stats;
+      }
+    };
+
+    // WHAT: Comparison mode — the prior period aggregated on the same base
+    // WHY: Variant overrides apply to both periods, so deltas come from events only
+    const { comparisonPeriod } = resolvedVariant;
+    let comparison: ReportComparisonPayload | null = null;
+    if (comparisonPeriod && resolvedVariant.variant.comparisonPreset) {
+      const comparisonEvents = allEvents.filter((event) => isEventDateInPeriod(event.eventDate, comparisonPeriod));
+      const comparisonStats: Record<string, number | string> = {
+        ...((resolvedVariant.variant.statsOverrides || {}) as Record<string, number | string>),
+      };
+      sumEventStats(comparisonStats, comparisonEvents);
+      comparison = buildComparisonPayload(
+        resolvedVariant.variant.comparisonPreset,
+        comparisonPeriod,
+        withDerivedVariables(comparisonStats),
+        comparisonEvents.length
+      );
+    }
 
     return NextResponse.json({
       success: true,
@@ -148,7 +191,8 @@ const db = client.db(config.dbName);
       // WHAT: Pre-aggregated stats computed on server (Phase 2 - v12.4.0)
       // WHY: Eliminates client-side computation, improves performance
       // HOW: Sum all numeric event stats + merge partner-level stats (reportText*, reportImage*)
-      aggregatedStats,
+      aggregatedStats: withDerivedVariables(aggregatedStats),
+      comparison,
       reportVariant: {
         ...resolvedVariant.variant,
         period: resolvedVariant.period,
@@ -0,0 +1,40 @@
+// app/api/portal/export/route.ts
+// WHAT: GET ?type=events|bitly — CSV download of the partner's events or Bitly links
+// AUTH: Partner portal session
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import {
+  getPortalContext,
+  getPortalOverview,
+  portalBitlyCsv,
+  portalEventsCsv,
+  recordPortalAccess,
+} from '@/lib/partnerPortal';
+import { error as logError } from '@/lib/logger';
+
+export async function GET(request: NextRequest) {
+  try {
+    const db = await getDb();
+    const context = await getPortalContext(db);
+    if (!context) {
+      return NextResponse.json({ success: false, error: 'Sign in to the partner portal', code: 'UNAUTHENTICATED' }, { status: 401 });
+    }
+
+    const type = request.nextUrl.searchParams.get('type') === 'bitly' ? 'bitly' : 'events';
+    const overview = await getPortalOverview(db, context);
+    const csv = type === 'bitly' ? portalBitlyCsv(overview.bitly) : portalEventsCsv(overview.events);
+    await recordPortalAccess(db, context, type === 'bitly' ? 'export_bitly' : 'export_events', request);
+
+    const slug = overview.partner.name.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'partner';
+    return new NextResponse(csv, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${slug}-${type}-${new Date().toISOString().slice(0, 10)}.csv"`,
+      },
+    });
+  } catch (error) {
+    logError('Partner portal export failed', { context: 'portal/export' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: 'Export failed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+// app/api/portal/login/route.ts
+// WHAT: POST { email } emails a one-time sign-in link to every partner contact
+//     with that address (lib/partnerPortal.ts)
+// WHY: Portal accounts have no password. The response is the same whether or
+//     not the address is a contact, so the form cannot be used to discover who is.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import config from '@/lib/config';
+import { findContactsByEmail, issuePortalToken } from '@/lib/partnerPortal';
+import { findPartnerByIdentifier } from '@/lib/partnerIdentifier';
+import { sendPartnerPortalLinkEmail } from '@/lib/emailNotifications';
+import { checkRateLimit, getClientIdentifier, RATE_LIMITS } from '@/lib/rateLimit';
+import { error as logError, info as logInfo } from '@/lib/logger';
+
+const SENT_MESSAGE = 'If this address has portal access, a sign-in link is on its way.';
+
+export async function POST(request: NextRequest) {
+  const rl = await checkRateLimit(`portal-login:${getClientIdentifier(request)}`, RATE_LIMITS.AUTH);
+  if (!rl.allowed) {
+    return NextResponse.json({ success: false, error: RATE_LIMITS.AUTH.message }, { status: 429 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const db = await getDb();
+    const contacts = await findContactsByEmail(db, body?.email);
+    const baseUrl = config.appBaseUrl || new URL(request.url).origin;
+
+    for (const contact of contacts) {
+      const partner = await findPartnerByIdentifier(db, contact.partnerId.toString());
+      if (!partner) continue;
+      const { token, expiresAt } = await issuePortalToken(db, contact, 'login');
+      const result = await sendPartnerPortalLinkEmail({
+        to: contact.email,
+        contactName: contact.name,
+        partnerName: partner.name,
+        link: `${baseUrl}/api/portal/login/verify?token=${encodeURIComponent(token)}`,
+        expiresAt,
+        purpose: 'login',
+      });
+      logInfo('Partner portal sign-in link requested', { context: 'portal/login', contactId: contact._id.toString(), sent: result.sent });
+    }
+
+    return NextResponse.json({ success: true, message: SENT_MESSAGE });
+  } catch (error) {
+    logError('Partner portal sign-in link failed', { context: 'portal/login' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: 'Could not send a sign-in link' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+// app/api/portal/login/verify/route.ts
+// WHAT: GET ?token= — the emailed link. Spends the token, sets the portal
+//     session cookie and opens the portal.
+// NOTE: An unknown, used or expired link lands back on the sign-in page with an
+//     error rather than a JSON response, because it is opened from an email.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import {
+  PORTAL_SESSION_COOKIE,
+  mintPortalSessionToken,
+  portalSessionCookieOptions,
+  recordPortalAccess,
+  redeemPortalToken,
+} from '@/lib/partnerPortal';
+import { error as logError } from '@/lib/logger';
+
+export async function GET(request: NextRequest) {
+  try {
+    const db = await getDb();
+    const contact = await redeemPortalToken(db, request.nextUrl.searchParams.get('token') || '');
+    if (!contact) {
+      return NextResponse.redirect(new URL('/portal/login?error=link_expired', request.url));
+    }
+
+    await recordPortalAccess(db, { contact }, 'login', request, { method: 'magic_link' });
+    const response = NextResponse.redirect(new URL('/portal', request.url));
+    response.cookies.set(PORTAL_SESSION_COOKIE, mintPortalSessionToken(contact), portalSessionCookieOptions());
+    return response;
+  } catch (error) {
+    logError('Partner portal sign-in failed', { context: 'portal/login/verify' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.redirect(new URL('/portal/login?error=auth_failed', request.url));
+  }
+}
@@ -0,0 +1,11 @@
+// app/api/portal/logout/route.ts
+// WHAT: POST ends the partner portal session
+
+import { NextResponse } from 'next/server';
+import { PORTAL_SESSION_COOKIE, portalSessionCookieOptions } from '@/lib/partnerPortal';
+
+export async function POST() {
+  const response = NextResponse.json({ success: true });
+  response.cookies.set(PORTAL_SESSION_COOKIE, '', portalSessionCookieOptions(0));
+  return response;
+}
@@ -0,0 +1,37 @@
+// app/api/portal/open/route.ts
+// WHAT: GET ?type=event|report&id= — logs the view and redirects to a
+//     time-limited link of the partner's own event report or report variant
+// WHY: Portal contacts never need the page password, and each opened report
+//     appears in the admin access audit
+// AUTH: Partner portal session
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import config from '@/lib/config';
+import { getPortalContext, recordPortalAccess, resolvePortalReportLink } from '@/lib/partnerPortal';
+import { error as logError } from '@/lib/logger';
+
+export async function GET(request: NextRequest) {
+  try {
+    const db = await getDb();
+    const context = await getPortalContext(db);
+    if (!context) return NextResponse.redirect(new URL('/portal/login', request.url));
+
+    const { searchParams } = request.nextUrl;
+    const type = searchParams.get('type') === 'event' ? 'event' : 'report';
+    const id = searchParams.get('id') || '';
+    const link = await resolvePortalReportLink(db, context, { type, id }, config.appBaseUrl || request.nextUrl.origin);
+
+    await recordPortalAccess(db, context, type === 'event' ? 'open_event' : 'open_report', request, {
+      target: { type, id, label: link.label },
+    });
+    return NextResponse.redirect(link.url);
+  } catch (error) {
+    const status = (error as { status?: number }).status ?? 500;
+    if (status >= 500) {
+      logError('Partner portal open failed', { context: 'portal/open' }, error instanceof Error ? error : new Error(String(error)));
+      return NextResponse.json({ success: false, error: 'Failed to open the report' }, { status });
+    }
+    return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+  }
+}
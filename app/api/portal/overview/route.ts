@@ -0,0 +1,27 @@
+// app/api/portal/overview/route.ts
+// WHAT: GET the signed-in partner's events, published reports and Bitly performance
+// AUTH: Partner portal session; the partner comes from the session only
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { getPortalContext, getPortalOverview, recordPortalAccess } from '@/lib/partnerPortal';
+import { error as logError } from '@/lib/logger';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  try {
+    const db = await getDb();
+    const context = await getPortalContext(db);
+    if (!context) {
+      return NextResponse.json({ success: false, error: 'Sign in to the partner portal', code: 'UNAUTHENTICATED' }, { status: 401 });
+    }
+
+    const overview = await getPortalOverview(db, context);
+    await recordPortalAccess(db, context, 'view_overview', request);
+    return NextResponse.json({ success: true, overview });
+  } catch (error) {
+    logError('Partner portal overview failed', { context: 'portal/overview' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: 'Failed to load the portal' }, { status: 500 });
+  }
+}
@@ -1,9 +1,10 @@
 // app/api/projects/[id]/route.ts - Fixed for Next.js 15
-import { NextRequest, NextResponse } from 'next/server'
+import { NextRequest, NextResponse, after } from 'next/server'
 import { MongoClient, ObjectId } from 'mongodb'
 import clientPromise from '@/lib/mongodb'
 import config from '@/lib/config'
 import { error as logError, info as logInfo } from '@/lib/logger'
+import { dispatchWebhookEvent } from '@/lib/webhooks'
 
 interface RouteParams {
   params: Promise<{ id: string }>
@@ -102,6 +103,9 @@ export async function PUT(
     // Fetch updated project
     const updatedProject = await collection.findOne({ _id: new ObjectId(id) })
     logInfo('Project updated successfully', { context: 'projects/[id]', projectId: id })
+
+    // WHAT: Stats saves are event.updated for webhook subscribers too.
+    after(() => dispatchWebhookEvent('event.updated', id))
     
     // WHAT: Log notification for stats update
     // WHY: Notify all users when project statistics are modified
@@ -4,6 +4,7 @@ import { ObjectId, Db } from 'mongodb';
 import { generateProjectSlugs } from '@/lib/slugUtils';
 import clientPromise from '@/lib/mongodb';
 import { createNotification, getCurrentActor } from '@/lib/notificationUtils';
+import { dispatchWebhookEvent } from '@/lib/webhooks';
 import { error as logError, info as logInfo, warn as logWarn, debug as logDebug } from '@/lib/logger';
 
 // Import hashtag category types for categorized hashtags support
@@ -333,7 +334,8 @@ export async function GET(request: NextRequest) {
           styleIdEnhanced: project.styleIdEnhanced ? project.styleIdEnhanced.toString() : null,
           reportTemplateId: project.reportTemplateId ? project.reportTemplateId.toString() : null,
           createdAt: project.createdAt,
-          updatedAt: project.updatedAt
+          updatedAt: project.updatedAt,
+          fixture: project.fixture || null
         };
         
         // Add partner data if available
@@ -444,6 +446,8 @@ export async function GET(request: NextRequest) {
         reportTemplateId: project.reportTemplateId ? project.reportTemplateId.toString() : null, // Project-specific report template
         createdAt: project.createdAt,
         updatedAt: project.updatedAt,
+        // WHAT: Linked fixture (lib/fixtures/) — status drives the postponed/cancelled flag
+        fixture: project.fixture || null,
         // WHAT: Add data quality metadata for frontend consumption
         // WHY: Enable UI to show quality badges and warnings
         dataQuality: {
@@ -708,6 +712,11 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    // WHAT: Queue and attempt event.created webhook deliveries.
+    // WHY: after() for the same reason as camera provisioning above; the queue
+    //      itself is persistent, so retries survive the instance (lib/webhooks.ts).
+    after(() => dispatchWebhookEvent('event.created', result.insertedId));
+
     // WHAT: Log notification for project creation
     // WHY: Notify all users of new project activity
     try {
@@ -967,6 +976,10 @@ export async function PUT(request: NextRequest) {
     );
 
     logInfo('Project updated successfully', { context: 'projects', projectId });
+
+    // WHAT: Queue and attempt event.updated webhook deliveries after the response.
+    const updatedProjectId = projectId;
+    after(() => dispatchWebhookEvent('event.updated', updatedProjectId));
     
     // WHAT: Trigger Bitly recalculation if eventDate changed
     // WHY: Date changes affect temporal boundaries for Bitly analytics attribution
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requirePageAccess } from '@/lib/pageAccess';
 import { findProjectByViewSlug } from '@/lib/slugUtils';
 import { getAllHashtagRepresentations } from '@/lib/hashtagCategoryUtils';
+import { getDb } from '@/lib/db';
+import { computeDerivedVariables, loadDerivedVariables } from '@/lib/variableDependencies';
 
 // GET /api/projects/stats/[slug] - Fetch project by view slug (read-only access)
 export async function GET(
@@ -44,6 +46,17 @@ export async function GET(
       categorizedHashtags: project.categorizedHashtags
     });
 
+    // WHAT: Fill registry-defined derived variables, in dependency order
+    // WHY: A derived variable may read another derived variable; the report only
+    //     sees stored stats, so computing here keeps every chart on current inputs
+    let stats = project.stats;
+    try {
+      const derivedVariables = await loadDerivedVariables(await getDb());
+      stats = computeDerivedVariables(project.stats || {}, derivedVariables) as typeof project.stats;
+    } catch (derivedError) {
+      console.error('⚠️ Derived variables not computed:', derivedError);
+    }
+
     // Format project data for read-only access (no sensitive information)
     const readOnlyProject = {
       _id: project._id, // WHAT: Include _id for report resolution
@@ -53,7 +66,7 @@ export async function GET(
       hashtags: project.hashtags || [], // Keep original hashtags
       categorizedHashtags: project.categorizedHashtags || {}, // Include categorized structure
       allHashtagRepresentations: allHashtags, // Include all representations for search
-      stats: project.stats,
+      stats,
       partner1: project.partner1 || null, // Include partner 1 data (home team)
       partner2: project.partner2 || null, // Include partner 2 data (away team)
       styleIdEnhanced: (project as any).styleIdEnhanced ? (project as any).styleIdEnhanced.toString() : null, // Page style for report
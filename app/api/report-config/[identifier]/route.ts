@@ -4,6 +4,7 @@ import { getDb } from '@/lib/db';
 import { ReportTemplate, ResolvedTemplate, HARDCODED_DEFAULT_TEMPLATE } from '@/lib/reportTemplateTypes';
 import { error as logError, info as logInfo, warn as logWarn, debug as logDebug } from '@/lib/logger';
 import { findPartnerByIdentifier } from '@/lib/partnerIdentifier';
+import { resolveTemplateVersionContent } from '@/lib/reportTemplateVersions';
 
 // WHAT: Report configuration resolution endpoint (v11.0.0)
 // WHY: Central API for resolving report templates with hierarchy support
@@ -33,6 +34,29 @@ async function resolveReportTemplate(
    * HOW: Fetch data_blocks documents for each blockId in template
    */
   async function populateDataBlocks(template: any): Promise<any> {
+    // WHAT: A published template renders its published version, not the
+    //     working copy the Visualization editor is changing
+    const versioned = await resolveTemplateVersionContent(db, template);
+    if (versioned) {
+      const { blocks, ...settings } = versioned.content;
+      return {
+        ...template,
+        ...settings,
+        templateVersion: versioned.version,
+        dataBlocks: blocks.map((block) => ({
+          _id: block.blockId,
+          name: block.name,
+          showTitle: block.showTitle,
+          order: block.order,
+          isActive: block.isActive,
+          charts: block.charts,
+          blockAspectRatio: block.blockAspectRatio,
+          mobileAspectRatio: block.mobileAspectRatio,
+          tableHeightMultiplier: block.tableHeightMultiplier,
+        })),
+      };
+    }
+
     if (!template.dataBlocks || template.dataBlocks.length === 0) {
       return template;
     }
@@ -0,0 +1,39 @@
+// app/api/report-templates/[templateId]/versions/[version]/publish/route.ts
+// WHAT: POST makes this version the one published reports render; the
+//     previously published version is archived.
+// AUTH: report.publish on the organization (lib/capabilities.ts).
+
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { getAdminUser } from '@/lib/auth';
+import { requireCapability } from '@/lib/apiGuards';
+import { withOrgContext } from '@/lib/middleware/v3/orgContext';
+import { publishTemplateVersion } from '@/lib/reportTemplateVersions';
+
+interface RouteParams {
+  params: Promise<{ templateId: string; version: string }>;
+}
+
+export async function POST(req: Request, { params }: RouteParams) {
+  const { templateId, version } = await params;
+  return withOrgContext(req, async (request) => {
+    try {
+      const orgId = request.headers.get('x-v3-org-id') as string;
+      const denied = await requireCapability('report.publish', { type: 'organization', id: orgId });
+      if (denied) return denied;
+      const user = await getAdminUser();
+      const published = await publishTemplateVersion(await getDb(), templateId, Number(version), {
+        publishedBy: user?.email || 'admin',
+        organizationId: orgId,
+      });
+      return NextResponse.json({ success: true, version: published });
+    } catch (error) {
+      const status = (error as { status?: number }).status ?? 500;
+      if (status >= 500) {
+        console.error('❌ Failed to publish template version:', error);
+        return NextResponse.json({ success: false, error: 'Internal Server Error' }, { status });
+      }
+      return NextResponse.json({ success: false, error: (error as Error).message, code: (error as { code?: string }).code }, { status });
+    }
+  });
+}
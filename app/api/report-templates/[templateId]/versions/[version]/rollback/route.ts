@@ -0,0 +1,41 @@
+// app/api/report-templates/[templateId]/versions/[version]/rollback/route.ts
+// WHAT: POST rolls the template back to this version: a copy is saved as a new
+//     version and published, and the working copy is reset to it.
+// WHY: History stays append-only — the versions after the target are kept and
+//     can be rolled forward to the same way.
+// AUTH: report.publish on the organization (lib/capabilities.ts).
+
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { getAdminUser } from '@/lib/auth';
+import { requireCapability } from '@/lib/apiGuards';
+import { withOrgContext } from '@/lib/middleware/v3/orgContext';
+import { rollbackTemplateVersion } from '@/lib/reportTemplateVersions';
+
+interface RouteParams {
+  params: Promise<{ templateId: string; version: string }>;
+}
+
+export async function POST(req: Request, { params }: RouteParams) {
+  const { templateId, version } = await params;
+  return withOrgContext(req, async (request) => {
+    try {
+      const orgId = request.headers.get('x-v3-org-id') as string;
+      const denied = await requireCapability('report.publish', { type: 'organization', id: orgId });
+      if (denied) return denied;
+      const user = await getAdminUser();
+      const published = await rollbackTemplateVersion(await getDb(), templateId, Number(version), {
+        rolledBackBy: user?.email || 'admin',
+        organizationId: orgId,
+      });
+      return NextResponse.json({ success: true, version: published });
+    } catch (error) {
+      const status = (error as { status?: number }).status ?? 500;
+      if (status >= 500) {
+        console.error('❌ Failed to roll back template:', error);
+        return NextResponse.json({ success: false, error: 'Internal Server Error' }, { status });
+      }
+      return NextResponse.json({ success: false, error: (error as Error).message, code: (error as { code?: string }).code }, { status });
+    }
+  });
+}
@@ -0,0 +1,29 @@
+// app/api/report-templates/[templateId]/versions/[version]/route.ts
+// WHAT: GET one template version with its full content (settings and blocks).
+
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { withOrgContext } from '@/lib/middleware/v3/orgContext';
+import { requireTemplateVersion } from '@/lib/reportTemplateVersions';
+
+interface RouteParams {
+  params: Promise<{ templateId: string; version: string }>;
+}
+
+export async function GET(req: Request, { params }: RouteParams) {
+  const { templateId, version } = await params;
+  return withOrgContext(req, async (request) => {
+    try {
+      const orgId = request.headers.get('x-v3-org-id') as string;
+      const found = await requireTemplateVersion(await getDb(), templateId, Number(version), orgId);
+      return NextResponse.json({ success: true, version: found });
+    } catch (error) {
+      const status = (error as { status?: number }).status ?? 500;
+      if (status >= 500) {
+        console.error('❌ Failed to load template version:', error);
+        return NextResponse.json({ success: false, error: 'Internal Server Error' }, { status });
+      }
+      return NextResponse.json({ success: false, error: (error as Error).message, code: (error as { code?: string }).code }, { status });
+    }
+  });
+}
@@ -0,0 +1,47 @@
+// app/api/report-templates/[templateId]/versions/diff/route.ts
+// WHAT: GET ?from=<version|working>&to=<version|working> → structural diff:
+//     blocks added/removed/moved, chart order and width changes, block and
+//     grid settings. `working` is the unsaved working copy.
+
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { withOrgContext } from '@/lib/middleware/v3/orgContext';
+import { diffTemplateVersions } from '@/lib/reportTemplateVersions';
+
+interface RouteParams {
+  params: Promise<{ templateId: string }>;
+}
+
+function parseSide(value: string | null): number | 'working' | null {
+  if (value === 'working') return 'working';
+  const version = Number(value);
+  return value && Number.isInteger(version) && version > 0 ? version : null;
+}
+
+export async function GET(req: Request, { params }: RouteParams) {
+  const { templateId } = await params;
+  return withOrgContext(req, async (request) => {
+    try {
+      const { searchParams } = new URL(request.url);
+      const from = parseSide(searchParams.get('from'));
+      const to = parseSide(searchParams.get('to') || 'working');
+      if (from === null || to === null) {
+        return NextResponse.json(
+          { success: false, error: 'from and to must be a version number or "working"', code: 'INVALID_RANGE' },
+          { status: 400 }
+        );
+      }
+
+      const orgId = request.headers.get('x-v3-org-id') as string;
+      const diff = await diffTemplateVersions(await getDb(), templateId, from, to, orgId);
+      return NextResponse.json({ success: true, from, to, diff });
+    } catch (error) {
+      const status = (error as { status?: number }).status ?? 500;
+      if (status >= 500) {
+        console.error('❌ Failed to diff template versions:', error);
+        return NextResponse.json({ success: false, error: 'Internal Server Error' }, { status });
+      }
+      return NextResponse.json({ success: false, error: (error as Error).message, code: (error as { code?: string }).code }, { status });
+    }
+  });
+}
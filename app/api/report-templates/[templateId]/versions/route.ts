@@ -0,0 +1,59 @@
+// app/api/report-templates/[templateId]/versions/route.ts
+// WHAT: GET a template's versions (newest first); POST saves the working copy
+//     as a new draft version. Body: { note?: string }
+// WHY: Template edits no longer reach published reports until a version is
+//     published — see lib/reportTemplateVersions.ts.
+// HOW: Wrapped with withOrgContext like /api/report-templates.
+
+import { NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { getAdminUser } from '@/lib/auth';
+import { withOrgContext } from '@/lib/middleware/v3/orgContext';
+import { createTemplateVersion, listTemplateVersions } from '@/lib/reportTemplateVersions';
+
+interface RouteParams {
+  params: Promise<{ templateId: string }>;
+}
+
+function errorResponse(error: unknown, label: string) {
+  const status = (error as { status?: number }).status ?? 500;
+  if (status >= 500) {
+    console.error(`❌ ${label}:`, error);
+    return NextResponse.json({ success: false, error: 'Internal Server Error' }, { status });
+  }
+  return NextResponse.json({ success: false, error: (error as Error).message, code: (error as { code?: string }).code }, { status });
+}
+
+export async function GET(req: Request, { params }: RouteParams) {
+  const { templateId } = await params;
+  return withOrgContext(req, async (request) => {
+    try {
+      const orgId = request.headers.get('x-v3-org-id') as string;
+      const versions = await listTemplateVersions(await getDb(), templateId, orgId);
+      return NextResponse.json({ success: true, versions });
+    } catch (error) {
+      return errorResponse(error, 'Failed to list template versions');
+    }
+  });
+}
+
+export async function POST(req: Request, { params }: RouteParams) {
+  const { templateId } = await params;
+  return withOrgContext(req, async (request) => {
+    try {
+      const orgId = request.headers.get('x-v3-org-id') as string;
+      const user = await getAdminUser();
+      const body = await request.json().catch(() => ({}));
+      const note = typeof body?.note === 'string' ? body.note : undefined;
+
+      const version = await createTemplateVersion(await getDb(), templateId, {
+        createdBy: user?.email || 'admin',
+        note,
+        organizationId: orgId,
+      });
+      return NextResponse.json({ success: true, version }, { status: 201 });
+    } catch (error) {
+      return errorResponse(error, 'Failed to save template version');
+    }
+  });
+}
@@ -75,6 +75,14 @@ export async function PUT(
       );
     }
 
+    const status = (error as { status?: number }).status;
+    if (status && status < 500) {
+      return NextResponse.json(
+        { success: false, error: (error as Error).message, code: (error as { code?: string }).code },
+        { status }
+      );
+    }
+
     return NextResponse.json(
       {
         success: false,
@@ -6,7 +6,12 @@ import {
   listReportVariants,
   type ReportVariantOwnerType,
 } from '@/lib/reportVariants';
-import type { ReportCustomDateRange, ReportPeriodPreset } from '@/lib/reportPeriods';
+import type {
+  ReportComparisonPreset,
+  ReportCustomDateRange,
+  ReportPeriodOptions,
+  ReportPeriodPreset,
+} from '@/lib/reportPeriods';
 import { ReportPeriodValidationError } from '@/lib/reportPeriodValidation';
 
 const ALLOWED_OWNER_TYPES: ReportVariantOwnerType[] = ['organization', 'partner', 'hashtag', 'filter'];
@@ -62,6 +67,8 @@ export async function POST(request: NextRequest) {
       name?: string;
       periodPreset?: ReportPeriodPreset;
       customDateRange?: ReportCustomDateRange | null;
+      periodOptions?: ReportPeriodOptions | null;
+      comparisonPreset?: ReportComparisonPreset | null;
       timezone?: string;
     } | null;
 
@@ -80,6 +87,8 @@ export async function POST(request: NextRequest) {
       name: body.name,
       periodPreset: body.periodPreset,
       customDateRange: body.customDateRange,
+      periodOptions: body.periodOptions,
+      comparisonPreset: body.comparisonPreset,
       timezone: body.timezone,
     });
 
@@ -0,0 +1,26 @@
+// app/api/reports/[slug]/export/route.ts
+// WHAT: GET a report as a file, rendered on the server.
+//     ?format=pdf|xlsx|pptx (default pdf)
+//     ?type=event|partner|organization|hashtag|filter (default event)
+//     ?variant=<slug> for any report variant (not for event reports)
+// WHY: The report hero's XLSX/PPTX buttons and API clients need editable
+//     formats built from the same numbers as the page and the PDF.
+// AUTH: Bearer API key or the report's page password gate — see
+//     handleReportExportRequest (lib/export/reportExport.ts).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { handleReportExportRequest, REPORT_EXPORT_FORMATS, type ReportExportFormat } from '@/lib/export/reportExport';
+
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest, context: { params: Promise<{ slug: string }> }) {
+  const { slug } = await context.params;
+  const format = (request.nextUrl.searchParams.get('format') || 'pdf') as ReportExportFormat;
+  if (!REPORT_EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { success: false, error: `format must be one of: ${REPORT_EXPORT_FORMATS.join(', ')}`, code: 'INVALID_FORMAT' },
+      { status: 400 }
+    );
+  }
+  return handleReportExportRequest(request, slug, format);
+}
@@ -0,0 +1,20 @@
+// app/api/reports/[slug]/pdf/route.ts
+// WHAT: GET a report as a PDF, rendered on the server.
+//     ?type=event|partner|organization|hashtag|filter (default event)
+//     ?variant=<slug> for any report variant (not for event reports)
+// WHY: The browser export (lib/export/pdf.ts) depends on the viewer's window
+//     and cannot be called by API clients or cron. This renders from the same
+//     ReportCalculator results and LayoutV2 block layout as the page, so the
+//     same data always gives the same file (see lib/export/reportPdf.ts).
+// AUTH: Bearer API key or the report's page password gate — see
+//     handleReportExportRequest (lib/export/reportExport.ts).
+
+import { NextRequest } from 'next/server';
+import { handleReportExportRequest } from '@/lib/export/reportExport';
+
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest, context: { params: Promise<{ slug: string }> }) {
+  const { slug } = await context.params;
+  return handleReportExportRequest(request, slug, 'pdf');
+}
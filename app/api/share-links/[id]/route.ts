@@ -0,0 +1,54 @@
+// app/api/share-links/[id]/route.ts
+// WHAT: GET returns one link's view log, DELETE revokes the link. Revoking
+//     keeps the record and its log, and ends sessions it already opened.
+// AUTH: admin session
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/apiGuards';
+import { getAdminUser } from '@/lib/auth';
+import { getDb } from '@/lib/db';
+import { listShareLinkViews, revokeShareLink } from '@/lib/shareLinks';
+import { error as logError, info as logInfo } from '@/lib/logger';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function failure(error: unknown, action: string) {
+  const status = (error as { status?: number }).status ?? 500;
+  if (status >= 500) {
+    logError(`Failed to ${action} share link`, { context: 'share-links' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: `Failed to ${action} share link` }, { status });
+  }
+  return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const denied = await requireSession();
+  if (denied) return denied;
+
+  try {
+    const { id } = await context.params;
+    const limit = Number(new URL(request.url).searchParams.get('limit')) || undefined;
+    const views = await listShareLinkViews(await getDb(), id, limit);
+    return NextResponse.json({
+      success: true,
+      views: views.map(({ _id, shareLinkId, ...view }) => ({ ...view, id: _id?.toHexString(), shareLinkId: shareLinkId.toHexString() })),
+    });
+  } catch (error) {
+    return failure(error, 'load views for');
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: RouteContext) {
+  const denied = await requireSession();
+  if (denied) return denied;
+
+  try {
+    const { id } = await context.params;
+    const user = await getAdminUser();
+    const link = await revokeShareLink(await getDb(), id, user?.email || 'admin');
+    logInfo('Revoked share link', { context: 'share-links', id, by: user?.email });
+    return NextResponse.json({ success: true, link });
+  } catch (error) {
+    return failure(error, 'revoke');
+  }
+}
@@ -0,0 +1,26 @@
+// app/api/share-links/access/route.ts
+// WHAT: GET ?pageType&pageId — may this visitor download the page?
+// WHY: Lets report pages hide export buttons for view-only recipient links
+//     (hooks/useShareDownloadPermission.ts). The export routes enforce it
+//     regardless; this only reads the visitor's own grant cookie.
+// AUTH: none — answers only about the caller's own access
+
+import { NextRequest, NextResponse } from 'next/server';
+import { canDownloadPage } from '@/lib/pageAccess';
+import { error as logError } from '@/lib/logger';
+
+export async function GET(request: NextRequest) {
+  const params = new URL(request.url).searchParams;
+  const pageType = params.get('pageType');
+  const pageId = params.get('pageId');
+  if (!pageType || !pageId) {
+    return NextResponse.json({ success: false, error: 'pageType and pageId are required' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json({ success: true, allowDownload: await canDownloadPage(pageType, pageId) });
+  } catch (error) {
+    logError('Failed to check download permission', { context: 'share-links' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: 'Failed to check download permission' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+// app/api/share-links/route.ts
+// WHAT: GET lists recipient share links (?pageType&pageId narrow to one page,
+//     ?status to one status), POST creates one and returns its URL
+// AUTH: admin session, as for page passwords (app/api/page-passwords)
+// NOTE: The URL in the POST response carries the only copy of the token; it
+//     cannot be shown again, only revoked and replaced.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireSession } from '@/lib/apiGuards';
+import { getAdminUser } from '@/lib/auth';
+import { getDb } from '@/lib/db';
+import config from '@/lib/config';
+import { createShareLink, listShareLinks, type ShareLinkStatus } from '@/lib/shareLinks';
+import { error as logError, info as logInfo } from '@/lib/logger';
+
+const STATUSES: ShareLinkStatus[] = ['active', 'revoked', 'expired', 'exhausted'];
+
+function failure(error: unknown, action: string) {
+  const status = (error as { status?: number }).status ?? 500;
+  if (status >= 500) {
+    logError(`Failed to ${action} share link`, { context: 'share-links' }, error instanceof Error ? error : new Error(String(error)));
+    return NextResponse.json({ success: false, error: `Failed to ${action} share link` }, { status });
+  }
+  return NextResponse.json({ success: false, error: (error as Error).message }, { status });
+}
+
+export async function GET(request: NextRequest) {
+  const denied = await requireSession();
+  if (denied) return denied;
+
+  const params = new URL(request.url).searchParams;
+  const status = params.get('status') as ShareLinkStatus | null;
+  if (status && !STATUSES.includes(status)) {
+    return NextResponse.json({ success: false, error: `status must be one of: ${STATUSES.join(', ')}` }, { status: 400 });
+  }
+
+  try {
+    const links = await listShareLinks(await getDb(), {
+      pageType: params.get('pageType') || undefined,
+      pageId: params.get('pageId') || undefined,
+      status: status || undefined,
+      limit: Number(params.get('limit')) || undefined,
+    });
+    return NextResponse.json({ success: true, links });
+  } catch (error) {
+    return failure(error, 'list');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = await requireSession();
+  if (denied) return denied;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const user = await getAdminUser();
+    const protocol = request.headers.get('x-forwarded-proto') || 'https';
+    const host = request.headers.get('host') || request.headers.get('x-forwarded-host');
+    const baseUrl = host ? `${protocol}://${host}` : config.appBaseUrl || new URL(request.url).origin;
+
+    const { link, url } = await createShareLink(await getDb(), body, user?.email || 'admin', baseUrl);
+    logInfo('Created share link', { context: 'share-links', id: link.id, pageType: link.pageType, by: user?.email });
+    return NextResponse.json({ success: true, link, url }, { status: 201 });
+  } catch (error) {
+    return failure(error, 'create');
+  }
+}
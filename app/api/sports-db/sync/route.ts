@@ -2,24 +2,27 @@
  * SportsDB Sync API
  *
  * WHAT: Sync upcoming events for all partners with sportsDb.teamId, then partner-match fixtures
- * WHY: Populate local cache for Suggested Fixtures and future automation
+ * WHY: Populate the unified fixtures collection for Suggested Fixtures and future automation
+ * NOTE: Kept for existing callers; equivalent to POST /api/fixtures/sync with provider 'sportsdb'
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { getAdminUser } from '@/lib/auth';
-import { syncSportsDbForAllPartners, matchSportsDbFixturesToPartners } from '@/lib/sportsdbFixtureImporter';
+import { defaultSyncQueries, rematchUnlinkedFixtures, syncProviderFixtures } from '@/lib/fixtures/fixtureStore';
+
+export const maxDuration = 300;
 
 export async function POST() {
   try {
     const user = await getAdminUser();
     if (!user) return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
 
-    const syncRes = await syncSportsDbForAllPartners();
-    const matchRes = await matchSportsDbFixturesToPartners();
+    const sync = await syncProviderFixtures('sportsdb', await defaultSyncQueries('sportsdb'), { delayMs: 500 });
+    const matchRes = await rematchUnlinkedFixtures();
 
-    return NextResponse.json({ success: true, sync: syncRes, matched: matchRes.matched, timestamp: new Date().toISOString() });
+    return NextResponse.json({ success: true, sync, matched: matchRes.matched, timestamp: new Date().toISOString() });
   } catch (error) {
     console.error('[SportsDB Sync API] Error:', error);
     return NextResponse.json({ success: false, error: 'Failed to sync SportsDB fixtures' }, { status: 500 });
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import connectV3 from '@/lib/mongoose-v3';
+import V3MetricDefinition from '@/lib/models/v3/MetricDefinition';
+import V3MetricValue from '@/lib/models/v3/MetricValue';
+import { getAdminUser } from '@/lib/auth';
+import { withOrgContext } from '@/lib/middleware/v3/orgContext';
+import { parseMetricDefinitionInput } from '@/lib/v3/metricCatalog';
+
+type RouteContext = { params: Promise<{ key: string }> };
+
+async function isCatalogAdmin(): Promise<boolean> {
+  const user = await getAdminUser();
+  return user?.role === 'admin' || user?.role === 'superadmin';
+}
+
+/**
+ * GET /api/v3/metric-definitions/[key]
+ * Returns one catalog entry.
+ */
+async function getDefinition(req: Request, { params }: RouteContext) {
+  const { key } = await params;
+  try {
+    await connectV3();
+
+    const definition = await V3MetricDefinition.findOne({ key }).lean();
+    if (!definition) {
+      return NextResponse.json({ error: 'Metric definition not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(definition, { status: 200 });
+  } catch (error: any) {
+    console.error(`❌ GET /api/v3/metric-definitions/${key} failed:`, error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/v3/metric-definitions/[key]
+ * Updates name, type, unit, range or metadata. The key is immutable; values
+ * already recorded are not re-validated or converted.
+ */
+async function updateDefinition(req: Request, { params }: RouteContext) {
+  const { key } = await params;
+  try {
+    if (!(await isCatalogAdmin())) {
+      return NextResponse.json({ error: 'Forbidden: admin role required' }, { status: 403 });
+    }
+
+    await connectV3();
+    const input = parseMetricDefinitionInput(await req.json(), { partial: true });
+
+    const definition = await V3MetricDefinition.findOneAndUpdate(
+      { key },
+      { $set: input },
+      { new: true, runValidators: true }
+    ).lean();
+    if (!definition) {
+      return NextResponse.json({ error: 'Metric definition not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Metric definition updated', definition }, { status: 200 });
+  } catch (error: any) {
+    if (error.status === 400) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(`❌ PUT /api/v3/metric-definitions/${key} failed:`, error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/v3/metric-definitions/[key]
+ * Removes a metric from the catalog — refused while any value references it.
+ */
+async function deleteDefinition(req: Request, { params }: RouteContext) {
+  const { key } = await params;
+  try {
+    if (!(await isCatalogAdmin())) {
+      return NextResponse.json({ error: 'Forbidden: admin role required' }, { status: 403 });
+    }
+
+    await connectV3();
+    if (await V3MetricValue.exists({ metricKey: key })) {
+      return NextResponse.json({ error: `Metric '${key}' has recorded values and cannot be deleted` }, { status: 409 });
+    }
+
+    const result = await V3MetricDefinition.findOneAndDelete({ key });
+    if (!result) {
+      return NextResponse.json({ error: 'Metric definition not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Metric definition deleted successfully' }, { status: 200 });
+  } catch (error: any) {
+    console.error(`❌ DELETE /api/v3/metric-definitions/${key} failed:`, error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+export const GET = (req: Request, context: RouteContext) => withOrgContext(req, (r) => getDefinition(r, context));
+export const PUT = (req: Request, context: RouteContext) => withOrgContext(req, (r) => updateDefinition(r, context));
+export const DELETE = (req: Request, context: RouteContext) => withOrgContext(req, (r) => deleteDefinition(r, context));
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import connectV3 from '@/lib/mongoose-v3';
+import V3MetricDefinition from '@/lib/models/v3/MetricDefinition';
+import { getAdminUser } from '@/lib/auth';
+import { withOrgContext } from '@/lib/middleware/v3/orgContext';
+import { parseMetricDefinitionInput } from '@/lib/v3/metricCatalog';
+
+/**
+ * GET /api/v3/metric-definitions
+ * 
+ * Lists the metric catalog (optionally ?type=). Only keys in the catalog
+ * are accepted by POST /api/v3/metrics/record.
+ */
+async function getDefinitions(req: Request) {
+  try {
+    await connectV3();
+    const { searchParams } = new URL(req.url);
+
+    const filter: any = {};
+    const type = searchParams.get('type');
+    if (type) filter.type = type;
+
+    const definitions = await V3MetricDefinition.find(filter)
+      .sort({ key: 1 })
+      .lean();
+
+    return NextResponse.json({ count: definitions.length, definitions }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ GET /api/v3/metric-definitions failed:', error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/v3/metric-definitions
+ * 
+ * Adds a metric to the catalog. The catalog is shared by all organizations,
+ * so writes need an admin role.
+ */
+async function createDefinition(req: Request) {
+  try {
+    const user = await getAdminUser();
+    if (user?.role !== 'admin' && user?.role !== 'superadmin') {
+      return NextResponse.json({ error: 'Forbidden: admin role required' }, { status: 403 });
+    }
+
+    await connectV3();
+    const input = parseMetricDefinitionInput(await req.json());
+
+    if (await V3MetricDefinition.exists({ key: input.key })) {
+      return NextResponse.json({ error: `Metric '${input.key}' already exists` }, { status: 409 });
+    }
+
+    const definition = await V3MetricDefinition.create(input);
+
+    return NextResponse.json({ message: 'Metric definition created', definition }, { status: 201 });
+  } catch (error: any) {
+    if (error.status === 400) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('❌ POST /api/v3/metric-definitions failed:', error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+// Wrap with Organization Context Middleware
+export const GET = (req: Request) => withOrgContext(req, getDefinitions);
+export const POST = (req: Request) => withOrgContext(req, createDefinition);
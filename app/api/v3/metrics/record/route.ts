@@ -1,39 +1,109 @@
-import { NextResponse } from 'next/server';
+import { NextResponse, after } from 'next/server';
 import connectV3 from '@/lib/mongoose-v3';
+import V3Entity from '@/lib/models/v3/Entity';
+import V3MetricDefinition from '@/lib/models/v3/MetricDefinition';
 import V3MetricValue from '@/lib/models/v3/MetricValue';
 import { withOrgContext } from '@/lib/middleware/v3/orgContext';
 import { withRateLimit, RATE_LIMIT_POLICIES } from '@/lib/middleware/rateLimit';
+import { evaluateThresholds } from '@/lib/v3/thresholdAlerts';
+import {
+  classifyInsertResult,
+  MAX_DATA_POINTS,
+  validateDataPoints,
+  type DataPointError,
+  type MetricDefinitionLike,
+} from '@/lib/v3/metricCatalog';
 
 /**
  * POST /api/v3/metrics/record
  * 
  * Bulk records metric values for an organization.
- * Expects an array of data points.
+ * Expects an array of data points; each is validated against the metric
+ * catalog (lib/v3/metricCatalog.ts). Valid points are recorded even when
+ * others are rejected — the response lists per-point errors by index.
+ * An `Idempotency-Key` header (or a per-point `idempotencyKey`) makes a
+ * retried batch count each point once.
+ * Thresholds on the recorded metric keys are evaluated after the response
+ * (lib/v3/thresholdAlerts.ts).
  */
 async function recordMetrics(req: Request) {
   try {
     const { dataPoints } = await req.json();
     await connectV3();
-    const orgId = req.headers.get('x-v3-org-id');
+    const orgId = req.headers.get('x-v3-org-id') as string;
 
     if (!Array.isArray(dataPoints) || dataPoints.length === 0) {
       return NextResponse.json({ error: 'dataPoints array is required' }, { status: 400 });
     }
+    if (dataPoints.length > MAX_DATA_POINTS) {
+      return NextResponse.json({ error: `At most ${MAX_DATA_POINTS} dataPoints per request` }, { status: 400 });
+    }
+
+    // Load only the catalog entries and entities this batch references
+    const keys = Array.from(new Set(dataPoints.map(dp => dp?.metricKey).filter((k): k is string => typeof k === 'string')));
+    const entityRefs = Array.from(new Set(dataPoints.map(dp => dp?.entityId).filter((id): id is string => typeof id === 'string' && /^[a-f0-9]{24}$/i.test(id))));
+    const [definitions, entities] = await Promise.all([
+      V3MetricDefinition.find({ key: { $in: keys } }).lean<MetricDefinitionLike[]>(),
+      V3Entity.find({ _id: { $in: entityRefs }, organizationId: orgId }).select('_id').lean(),
+    ]);
 
-    // Map organizationId and validated timestamp
-    const documents = dataPoints.map(dp => ({
-      ...dp,
+    const { points, errors } = validateDataPoints(dataPoints, {
       organizationId: orgId,
-      timestamp: dp.timestamp ? new Date(dp.timestamp) : new Date(),
-    }));
+      definitions: new Map(definitions.map(d => [d.key, d])),
+      entityIds: new Set(entities.map(e => String(e._id))),
+      batchKey: req.headers.get('idempotency-key')?.trim() || null,
+    });
+
+    let insertedCount = 0;
+    let duplicateCount = 0;
+    const insertErrors: DataPointError[] = [];
+    const recordedKeys = new Set<string>();
+
+    if (points.length > 0) {
+      // WHAT: Unordered insert; each slot of `results` is the document or its error
+      let results: unknown[];
+      try {
+        const raw = await V3MetricValue.insertMany(points.map(p => p.document), { ordered: false, rawResult: true });
+        results = raw.mongoose?.results ?? points.map(p => p.document);
+      } catch (error: any) {
+        if (!Array.isArray(error.results)) throw error;
+        results = error.results;
+      }
+
+      results.forEach((result, i) => {
+        const { outcome, error } = classifyInsertResult(result);
+        const point = points[i];
+        if (outcome === 'inserted') {
+          insertedCount++;
+          recordedKeys.add(point.document.metricKey);
+        } else if (outcome === 'duplicate') {
+          duplicateCount++;
+        } else {
+          insertErrors.push({ index: point.index, metricKey: point.document.metricKey, error: error || 'insert failed' });
+        }
+      });
+    }
+
+    if (recordedKeys.size > 0) {
+      // WHAT: Evaluate after the response so alert emails never slow ingestion
+      const metricKeys = Array.from(recordedKeys);
+      after(() => evaluateThresholds({ organizationId: orgId, metricKeys, source: 'record' }));
+    }
 
-    // Use insertMany for high-performance bulk write
-    const result = await V3MetricValue.insertMany(documents, { ordered: false });
+    const allErrors = [...errors, ...insertErrors].sort((a, b) => a.index - b.index);
+    const accepted = insertedCount + duplicateCount;
+    const status = allErrors.length === 0 ? (insertedCount > 0 ? 201 : 200) : accepted > 0 ? 207 : 422;
+    const message = allErrors.length === 0
+      ? 'Metrics recorded successfully'
+      : accepted > 0 ? 'Metrics partially recorded' : 'No metrics recorded';
 
     return NextResponse.json({ 
-      message: 'Metrics recorded successfully', 
-      insertedCount: result.length 
-    }, { status: 201 });
+      message, 
+      insertedCount,
+      duplicateCount,
+      rejectedCount: allErrors.length,
+      errors: allErrors,
+    }, { status });
   } catch (error: any) {
     console.error('❌ Bulk Ingestion Failed:', error);
     return NextResponse.json({ 
@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import connectV3 from '@/lib/mongoose-v3';
+import V3EntityRelationship from '@/lib/models/v3/EntityRelationship';
+import { withOrgContext } from '@/lib/middleware/v3/orgContext';
+import {
+  isSameRelationship,
+  parseRelationshipInput,
+  relationshipPairFilter,
+  type StoredRelationship,
+} from '@/lib/v3/entityGraph';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/v3/relationships/[id]
+ * Returns one relationship with both entities' names.
+ */
+async function getRelationship(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    await connectV3();
+    const orgId = req.headers.get('x-v3-org-id');
+
+    const relationship = await V3EntityRelationship.findOne({ _id: id, organizationId: orgId })
+      .populate('fromEntityId', 'name type')
+      .populate('toEntityId', 'name type')
+      .lean();
+    if (!relationship) {
+      return NextResponse.json({ error: 'Relationship not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(relationship, { status: 200 });
+  } catch (error: any) {
+    console.error(`❌ GET /api/v3/relationships/${id} failed:`, error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/v3/relationships/[id]
+ * Changes relationType and/or metadata; the two entities are fixed.
+ */
+async function updateRelationship(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    await connectV3();
+    const orgId = req.headers.get('x-v3-org-id') as string;
+    const input = parseRelationshipInput(await req.json(), { partial: true });
+
+    const current = await V3EntityRelationship.findOne({ _id: id, organizationId: orgId }).lean<StoredRelationship>();
+    if (!current) {
+      return NextResponse.json({ error: 'Relationship not found' }, { status: 404 });
+    }
+
+    if (input.relationType) {
+      const updated = { ...current, relationType: input.relationType };
+      const siblings = await V3EntityRelationship.find({
+        ...relationshipPairFilter(orgId, String(current.fromEntityId), String(current.toEntityId)),
+        _id: { $ne: id },
+      }).lean<StoredRelationship[]>();
+      if (siblings.some(r => isSameRelationship(r, updated))) {
+        return NextResponse.json({ error: 'Relationship already exists' }, { status: 409 });
+      }
+    }
+
+    const relationship = await V3EntityRelationship.findOneAndUpdate(
+      { _id: id, organizationId: orgId },
+      { $set: input },
+      { new: true, runValidators: true }
+    ).lean();
+
+    return NextResponse.json({ message: 'Relationship updated', relationship }, { status: 200 });
+  } catch (error: any) {
+    if (error.status === 400) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(`❌ PUT /api/v3/relationships/${id} failed:`, error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/v3/relationships/[id]
+ */
+async function deleteRelationship(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    await connectV3();
+    const orgId = req.headers.get('x-v3-org-id');
+
+    const result = await V3EntityRelationship.findOneAndDelete({ _id: id, organizationId: orgId });
+    if (!result) {
+      return NextResponse.json({ error: 'Relationship not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Relationship deleted successfully' }, { status: 200 });
+  } catch (error: any) {
+    console.error(`❌ DELETE /api/v3/relationships/${id} failed:`, error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+export const GET = (req: Request, context: RouteContext) => withOrgContext(req, (r) => getRelationship(r, context));
+export const PUT = (req: Request, context: RouteContext) => withOrgContext(req, (r) => updateRelationship(r, context));
+export const DELETE = (req: Request, context: RouteContext) => withOrgContext(req, (r) => deleteRelationship(r, context));
@@ -0,0 +1,91 @@
+import { NextResponse } from 'next/server';
+import connectV3 from '@/lib/mongoose-v3';
+import V3Entity from '@/lib/models/v3/Entity';
+import { withOrgContext } from '@/lib/middleware/v3/orgContext';
+import {
+  clampHops,
+  createRelationshipLoader,
+  expandGraph,
+  findPaths,
+  MAX_GRAPH_PATHS,
+  parseRelationTypes,
+} from '@/lib/v3/entityGraph';
+
+const OBJECT_ID_PATTERN = /^[a-f0-9]{24}$/i;
+
+/**
+ * GET /api/v3/relationships/graph
+ * 
+ * Relationship graph queries (lib/v3/entityGraph.ts). Relation types are read
+ * from the perspective of the entity being expanded: from a provider, its
+ * clients are 'client'; from a client, its provider is 'provider'.
+ * Query Params:
+ *  - entityId: string (required) — start entity
+ *  - mode: 'neighbors' (default, 1 hop) | 'expand' (N hops) | 'paths' (to `to`)
+ *  - relationTypes: string (optional, comma-separated filter applied at every hop)
+ *  - hops: number (expand default 2, paths default 3, max 5)
+ *  - to: string (required for paths)
+ *  - limit: number (paths only, default and max 50)
+ */
+async function getGraph(req: Request) {
+  try {
+    await connectV3();
+    const { searchParams } = new URL(req.url);
+    const orgId = req.headers.get('x-v3-org-id') as string;
+    const entityId = searchParams.get('entityId');
+    const mode = searchParams.get('mode') || 'neighbors';
+    const relationTypes = parseRelationTypes(searchParams.get('relationTypes'));
+    const loadEdges = createRelationshipLoader(orgId);
+
+    if (!entityId || !OBJECT_ID_PATTERN.test(entityId)) {
+      return NextResponse.json({ error: 'entityId must be a valid id' }, { status: 400 });
+    }
+    if (!['neighbors', 'expand', 'paths'].includes(mode)) {
+      return NextResponse.json({ error: 'mode must be neighbors, expand or paths' }, { status: 400 });
+    }
+
+    if (mode === 'paths') {
+      const to = searchParams.get('to');
+      if (!to || !OBJECT_ID_PATTERN.test(to)) {
+        return NextResponse.json({ error: 'to must be a valid id for mode=paths' }, { status: 400 });
+      }
+      const hops = clampHops(searchParams.get('hops'), 3);
+      const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '', 10) || MAX_GRAPH_PATHS, 1), MAX_GRAPH_PATHS);
+      const paths = await findPaths(entityId, to, { maxHops: hops, relationTypes, loadEdges, limit });
+      const entities = await loadEntities(orgId, [entityId, to, ...paths.flat().map(e => e.neighborId)]);
+
+      return NextResponse.json({ entityId, to, hops, relationTypes, count: paths.length, paths, entities }, { status: 200 });
+    }
+
+    const hops = mode === 'neighbors' ? 1 : clampHops(searchParams.get('hops'), 2);
+    const graph = await expandGraph(entityId, { maxHops: hops, relationTypes, loadEdges });
+    const entities = await loadEntities(orgId, graph.nodes.map(n => n.entityId));
+
+    return NextResponse.json({
+      entityId,
+      mode,
+      hops,
+      relationTypes,
+      nodes: graph.nodes.map(n => ({ ...n, entity: entities[n.entityId] ?? null })),
+      edges: graph.edges,
+      truncated: graph.truncated,
+    }, { status: 200 });
+  } catch (error: any) {
+    if (error.status === 400) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('❌ GET /api/v3/relationships/graph failed:', error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+// Names and types for the entities in a response, keyed by id
+async function loadEntities(orgId: string, ids: string[]) {
+  const entities = await V3Entity.find({ _id: { $in: Array.from(new Set(ids)) }, organizationId: orgId })
+    .select('name type')
+    .lean();
+  return Object.fromEntries(entities.map((e: any) => [String(e._id), { name: e.name, type: e.type }]));
+}
+
+// Wrap with Organization Context Middleware
+export const GET = (req: Request) => withOrgContext(req, getGraph);
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import connectV3 from '@/lib/mongoose-v3';
+import V3Entity from '@/lib/models/v3/Entity';
+import V3EntityRelationship from '@/lib/models/v3/EntityRelationship';
+import { withOrgContext } from '@/lib/middleware/v3/orgContext';
+import {
+  isSameRelationship,
+  parseRelationshipInput,
+  relationshipPairFilter,
+  type StoredRelationship,
+} from '@/lib/v3/entityGraph';
+
+/**
+ * GET /api/v3/relationships
+ * 
+ * Lists entity relationships, optionally those touching ?entityId= (either
+ * end) and/or of a stored ?relationType=. For "what is X to Y" from one
+ * entity's point of view use GET /api/v3/relationships/graph.
+ * Scoped by 'x-v3-org-id' via withOrgContext middleware.
+ */
+async function getRelationships(req: Request) {
+  try {
+    await connectV3();
+    const { searchParams } = new URL(req.url);
+    const orgId = req.headers.get('x-v3-org-id');
+
+    const filter: any = { organizationId: orgId };
+    const entityId = searchParams.get('entityId');
+    const relationType = searchParams.get('relationType');
+    if (entityId) filter.$or = [{ fromEntityId: entityId }, { toEntityId: entityId }];
+    if (relationType) filter.relationType = relationType;
+
+    const relationships = await V3EntityRelationship.find(filter)
+      .populate('fromEntityId', 'name type')
+      .populate('toEntityId', 'name type')
+      .sort({ createdAt: 1 })
+      .lean();
+
+    return NextResponse.json({ count: relationships.length, relationships }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ GET /api/v3/relationships failed:', error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/v3/relationships
+ * 
+ * Links two entities of the organization. relationType is what `to` is for
+ * `from`: { from: P, to: C, relationType: 'client' } means "C is a client of P".
+ * The same link in the other direction ({ C → P, 'provider' }) is a duplicate.
+ */
+async function createRelationship(req: Request) {
+  try {
+    await connectV3();
+    const orgId = req.headers.get('x-v3-org-id') as string;
+    const input = parseRelationshipInput(await req.json());
+    const { fromEntityId, toEntityId } = input as Required<Pick<typeof input, 'fromEntityId' | 'toEntityId'>>;
+
+    const entityCount = await V3Entity.countDocuments({ _id: { $in: [fromEntityId, toEntityId] }, organizationId: orgId });
+    if (entityCount !== 2) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 });
+    }
+
+    const existing = await V3EntityRelationship.find(relationshipPairFilter(orgId, fromEntityId, toEntityId)).lean<StoredRelationship[]>();
+    if (existing.some(r => isSameRelationship(r, input as StoredRelationship))) {
+      return NextResponse.json({ error: 'Relationship already exists' }, { status: 409 });
+    }
+
+    const relationship = await V3EntityRelationship.create({ ...input, organizationId: orgId });
+
+    return NextResponse.json({ message: 'Relationship created', relationship }, { status: 201 });
+  } catch (error: any) {
+    if (error.status === 400) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('❌ POST /api/v3/relationships failed:', error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+// Wrap with Organization Context Middleware
+export const GET = (req: Request) => withOrgContext(req, getRelationships);
+export const POST = (req: Request) => withOrgContext(req, createRelationship);
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { withOrgContext } from '@/lib/middleware/v3/orgContext';
 import { V3ReportingResolver } from '@/lib/v3/reporting/resolver';
+import { clampHops, createRelationshipLoader, expandGraph, parseRelationTypes } from '@/lib/v3/entityGraph';
 
 /**
  * GET /api/v3/reporting/dashboard
@@ -11,6 +12,10 @@ import { V3ReportingResolver } from '@/lib/v3/reporting/resolver';
  *  - metrics: string (comma-separated metric keys, e.g. "sales,attendance")
  *  - startDate: string (ISO)
  *  - endDate: string (ISO)
+ *  - relationTypes: string (optional, e.g. "client" or "sister,associated") —
+ *    roll up the entities related to entityId instead of its own hierarchy
+ *  - hops: number (optional, default 1, max 5) — how far to follow relationships
+ *  - includeSelf: "true" to add entityId's own hierarchy to the rollup
  */
 async function getDashboard(req: Request) {
   try {
@@ -33,6 +38,30 @@ async function getDashboard(req: Request) {
       endDate: endDate ? new Date(endDate) : undefined,
     };
 
+    const relationTypes = parseRelationTypes(searchParams.get('relationTypes'));
+    if (relationTypes) {
+      // WHAT: Relationship rollup — e.g. relationTypes=client sums all clients
+      //     of a provider (each with its descendants, each entity counted once)
+      const hops = clampHops(searchParams.get('hops'));
+      const includeSelf = searchParams.get('includeSelf') === 'true';
+      const graph = await expandGraph(entityId, { maxHops: hops, relationTypes, loadEdges: createRelationshipLoader(orgId) });
+      const related = graph.nodes.filter(n => n.hops > 0);
+      const roots = [...(includeSelf ? [entityId] : []), ...related.map(n => n.entityId)];
+
+      const rollupResults = await Promise.all(
+        metricKeys.map(key =>
+          V3ReportingResolver.aggregateMetricForEntities(orgId, roots, key, options)
+        )
+      );
+
+      return NextResponse.json({
+        entityId,
+        timestamp: new Date().toISOString(),
+        rollup: { relationTypes, hops, includeSelf, entities: related, truncated: graph.truncated },
+        metrics: rollupResults,
+      }, { status: 200 });
+    }
+
     const results = await Promise.all(
       metricKeys.map(key => 
         V3ReportingResolver.aggregateMetric(orgId, entityId, key, options)
@@ -46,6 +75,9 @@ async function getDashboard(req: Request) {
     }, { status: 200 });
 
   } catch (error: any) {
+    if (error.status === 400) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
     console.error('❌ GET /api/v3/reporting/dashboard failed:', error);
     return NextResponse.json({ 
       error: 'Internal Server Error', 
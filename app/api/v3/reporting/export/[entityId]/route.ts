@@ -3,6 +3,51 @@ import mongoose from 'mongoose';
 import connectV3 from '@/lib/mongoose-v3';
 import { withOrgContext } from '@/lib/middleware/v3/orgContext';
 import MetricValue from '@/lib/models/v3/MetricValue';
+import V3Entity from '@/lib/models/v3/Entity';
+import { getDb } from '@/lib/db';
+import { buildReportSnapshot } from '@/lib/reportSnapshot';
+import { renderReportExport, reportExportResponse } from '@/lib/export/reportExport';
+
+const REPORT_FORMATS = ['xlsx', 'pptx'] as const;
+type ReportFormat = typeof REPORT_FORMATS[number];
+
+/**
+ * ?format=xlsx|pptx
+ * 
+ * WHAT: Export the entity's resolved partner report as a workbook or slide deck
+ * WHY: Same files as the report hero's XLSX/PPTX buttons, for V3 consumers
+ * HOW: V3 entities carry their V2 partner id (sync: same _id / originalId,
+ *      migration: v2PartnerId); the report is built from that partner
+ */
+async function exportEntityReport(req: Request, context: any, format: ReportFormat) {
+  try {
+    const { entityId } = await context.params;
+    await connectV3();
+    const orgId = req.headers.get('x-v3-org-id');
+
+    const entity: any = await V3Entity.findOne({ _id: entityId, organizationId: orgId }).lean();
+    if (!entity) {
+      return NextResponse.json({ success: false, error: 'Entity not found' }, { status: 404 });
+    }
+
+    const partnerId = String(
+      entity.metadata?.originalId || entity.metadata?.v2PartnerId || entity.metadata?.originalData?._id || entity._id
+    );
+    const variant = new URL(req.url).searchParams.get('variant');
+    const snapshot = await buildReportSnapshot(await getDb(), 'partner', partnerId, variant);
+    return reportExportResponse(req, snapshot, format, await renderReportExport(snapshot, format));
+  } catch (error: any) {
+    if (error.status && error.status < 500) {
+      return NextResponse.json({ success: false, error: error.message, code: error.code }, { status: error.status });
+    }
+    console.error(`❌ Report Export Failed:`, error);
+    return NextResponse.json({ 
+      success: false, 
+      error: 'Internal Server Error', 
+      message: error.message 
+    }, { status: 500 });
+  }
+}
 
 /**
  * GET /api/v3/reporting/export/[entityId]
@@ -78,4 +123,17 @@ async function exportMetricsAsCsv(req: Request, context: any) {
   }
 }
 
-export const GET = (req: Request, context: any) => withOrgContext(req, (r) => exportMetricsAsCsv(r, context));
+/**
+ * GET /api/v3/reporting/export/[entityId]?format=csv|xlsx|pptx (default csv)
+ */
+async function exportEntity(req: Request, context: any) {
+  const format = new URL(req.url).searchParams.get('format') || 'csv';
+  if (format === 'csv') return exportMetricsAsCsv(req, context);
+  if ((REPORT_FORMATS as readonly string[]).includes(format)) return exportEntityReport(req, context, format as ReportFormat);
+  return NextResponse.json({ 
+    success: false, 
+    error: `format must be one of: csv, ${REPORT_FORMATS.join(', ')}` 
+  }, { status: 400 });
+}
+
+export const GET = (req: Request, context: any) => withOrgContext(req, (r) => exportEntity(r, context));
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import connectV3 from '@/lib/mongoose-v3';
+import V3MetricAlert from '@/lib/models/v3/MetricAlert';
+import { withOrgContext } from '@/lib/middleware/v3/orgContext';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/v3/thresholds/[id]/alerts
+ * Alert history of a threshold, newest first (?limit=, default 50, max 200).
+ */
+async function getAlerts(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    await connectV3();
+    const { searchParams } = new URL(req.url);
+    const orgId = req.headers.get('x-v3-org-id');
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 200);
+
+    const alerts = await V3MetricAlert.find({ thresholdId: id, organizationId: orgId })
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .lean();
+
+    return NextResponse.json({ count: alerts.length, alerts }, { status: 200 });
+  } catch (error: any) {
+    console.error(`❌ GET /api/v3/thresholds/${id}/alerts failed:`, error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+export const GET = (req: Request, context: RouteContext) => withOrgContext(req, (r) => getAlerts(r, context));
@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+import connectV3 from '@/lib/mongoose-v3';
+import V3Entity from '@/lib/models/v3/Entity';
+import V3MetricAlert from '@/lib/models/v3/MetricAlert';
+import V3MetricThreshold from '@/lib/models/v3/MetricThreshold';
+import { withOrgContext } from '@/lib/middleware/v3/orgContext';
+import { parseThresholdInput, THRESHOLD_CONDITION_FIELDS } from '@/lib/v3/thresholdAlerts';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * GET /api/v3/thresholds/[id]
+ * Returns one threshold, including its evaluator state.
+ */
+async function getThreshold(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    await connectV3();
+    const orgId = req.headers.get('x-v3-org-id');
+
+    const threshold = await V3MetricThreshold.findOne({ _id: id, organizationId: orgId }).lean();
+    if (!threshold) {
+      return NextResponse.json({ error: 'Threshold not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(threshold, { status: 200 });
+  } catch (error: any) {
+    console.error(`❌ GET /api/v3/thresholds/${id} failed:`, error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * PUT /api/v3/thresholds/[id]
+ * Updates a threshold. Changing the condition (entity, metric, value,
+ * comparison or window) re-arms it, so the next evaluation starts from 'ok';
+ * the cooldown still counts from the last notification.
+ */
+async function updateThreshold(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    await connectV3();
+    const orgId = req.headers.get('x-v3-org-id');
+    const input = parseThresholdInput(await req.json(), { partial: true });
+
+    if (input.entityId) {
+      const entity = await V3Entity.exists({ _id: input.entityId, organizationId: orgId });
+      if (!entity) {
+        return NextResponse.json({ error: 'Entity not found' }, { status: 404 });
+      }
+    }
+
+    const rearm = THRESHOLD_CONDITION_FIELDS.some((field) => input[field] !== undefined);
+    const threshold = await V3MetricThreshold.findOneAndUpdate(
+      { _id: id, organizationId: orgId },
+      { $set: { ...input, ...(rearm ? { state: 'ok' } : {}) } },
+      { new: true, runValidators: true }
+    ).lean();
+    if (!threshold) {
+      return NextResponse.json({ error: 'Threshold not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: 'Threshold updated', threshold }, { status: 200 });
+  } catch (error: any) {
+    if (error.status === 400) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error(`❌ PUT /api/v3/thresholds/${id} failed:`, error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/v3/thresholds/[id]
+ * Removes a threshold together with its alert history.
+ */
+async function deleteThreshold(req: Request, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    await connectV3();
+    const orgId = req.headers.get('x-v3-org-id');
+
+    const result = await V3MetricThreshold.findOneAndDelete({ _id: id, organizationId: orgId });
+    if (!result) {
+      return NextResponse.json({ error: 'Threshold not found' }, { status: 404 });
+    }
+    await V3MetricAlert.deleteMany({ thresholdId: id, organizationId: orgId });
+
+    return NextResponse.json({ message: 'Threshold deleted successfully' }, { status: 200 });
+  } catch (error: any) {
+    console.error(`❌ DELETE /api/v3/thresholds/${id} failed:`, error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+export const GET = (req: Request, context: RouteContext) => withOrgContext(req, (r) => getThreshold(r, context));
+export const PUT = (req: Request, context: RouteContext) => withOrgContext(req, (r) => updateThreshold(r, context));
+export const DELETE = (req: Request, context: RouteContext) => withOrgContext(req, (r) => deleteThreshold(r, context));
@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import connectV3 from '@/lib/mongoose-v3';
+import V3Entity from '@/lib/models/v3/Entity';
+import V3MetricThreshold from '@/lib/models/v3/MetricThreshold';
+import { withOrgContext } from '@/lib/middleware/v3/orgContext';
+import { parseThresholdInput } from '@/lib/v3/thresholdAlerts';
+
+/**
+ * GET /api/v3/thresholds
+ * 
+ * Lists metric thresholds, optionally filtered by entity or metric key.
+ * Scoped by 'x-v3-org-id' via withOrgContext middleware.
+ */
+async function getThresholds(req: Request) {
+  try {
+    await connectV3();
+    const { searchParams } = new URL(req.url);
+    const orgId = req.headers.get('x-v3-org-id');
+
+    const filter: any = { organizationId: orgId };
+    const entityId = searchParams.get('entityId');
+    const metricKey = searchParams.get('metricKey');
+    if (entityId) filter.entityId = entityId;
+    if (metricKey) filter.metricKey = metricKey;
+
+    const thresholds = await V3MetricThreshold.find(filter)
+      .sort({ metricKey: 1, createdAt: 1 })
+      .lean();
+
+    return NextResponse.json({ count: thresholds.length, thresholds }, { status: 200 });
+  } catch (error: any) {
+    console.error('❌ GET /api/v3/thresholds failed:', error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+/**
+ * POST /api/v3/thresholds
+ * 
+ * Creates a threshold on an entity of the organization. Alerts are evaluated
+ * by lib/v3/thresholdAlerts.ts after metrics are recorded and on a schedule.
+ */
+async function createThreshold(req: Request) {
+  try {
+    await connectV3();
+    const orgId = req.headers.get('x-v3-org-id');
+    const input = parseThresholdInput(await req.json());
+
+    const entity = await V3Entity.exists({ _id: input.entityId, organizationId: orgId });
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 });
+    }
+
+    const threshold = await V3MetricThreshold.create({ ...input, organizationId: orgId });
+
+    return NextResponse.json({ message: 'Threshold created', threshold }, { status: 201 });
+  } catch (error: any) {
+    if (error.status === 400) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('❌ POST /api/v3/thresholds failed:', error);
+    return NextResponse.json({ error: 'Internal Server Error', message: error.message }, { status: 500 });
+  }
+}
+
+// Wrap with Organization Context Middleware
+export const GET = (req: Request) => withOrgContext(req, getThresholds);
+export const POST = (req: Request) => withOrgContext(req, createThreshold);
@@ -6,6 +6,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getDb } from '@/lib/db'
 import { error as logError, info as logInfo, debug as logDebug } from '@/lib/logger'
+import { parseFormula, FormulaSyntaxError } from '@/lib/formulaParser'
+import { assertNoDependencyCycle } from '@/lib/variableDependencies'
 
 export const runtime = 'nodejs'
 
@@ -276,6 +278,35 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // WHAT: Reject a derived formula that does not parse or that reads itself
+    //     through other derived variables
+    // WHY: A cycle can never evaluate; it would silently render 'NA' in every report
+    const effectiveDerived = typeof derived === 'boolean' ? derived : Boolean(existing?.derived);
+    const effectiveFormula = formula !== undefined ? formula : existing?.formula;
+    if (effectiveDerived && typeof effectiveFormula === 'string' && effectiveFormula.trim()
+      && (formula !== undefined || typeof derived === 'boolean')) {
+      try {
+        parseFormula(effectiveFormula);
+        await assertNoDependencyCycle(db, finalName, effectiveFormula);
+      } catch (err) {
+        if (err instanceof FormulaSyntaxError) {
+          return NextResponse.json({
+            success: false,
+            error: `Invalid formula: ${err.message}`
+          }, { status: 400 });
+        }
+        const cycle = (err as { code?: string; cycle?: string[] }).code === 'DEPENDENCY_CYCLE'
+          ? (err as { cycle: string[] }).cycle
+          : null;
+        if (!cycle) throw err;
+        return NextResponse.json({
+          success: false,
+          error: (err as Error).message,
+          cycle
+        }, { status: 409 });
+      }
+    }
+
     // WHAT: Professional MongoDB upsert pattern - proper field separation
     // WHY: Prevent path conflicts between $set and $setOnInsert operators
     // PRINCIPLE: $setOnInsert = defaults for INSERT only, $set = updates for both INSERT and UPDATE
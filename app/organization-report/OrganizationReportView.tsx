@@ -14,6 +14,7 @@ import { useOrganizationReportData } from '@/hooks/useReportData';
 import { useReportStyle } from '@/hooks/useReportStyle';
 import { useReportExport } from '@/hooks/useReportExport';
 import { ReportCalculator } from '@/lib/report-calculator';
+import { withComparisonResults } from '@/lib/reportComparison';
 import { PublicReportShell, PublicReportState } from '@/components/reports/PublicReportShell';
 
 export default function OrganizationReportView({ id, variant }: { id: string; variant?: string | null }) {
@@ -62,7 +63,13 @@ export default function OrganizationReportView({ id, variant }: { id: string; va
     return results;
   }, [charts, stats]);
 
-  const { handleCSVExport, handlePDFExport } = useReportExport({
+  // WHAT: Comparison mode — KPIs also show the prior period and the change
+  const displayResults = useMemo(
+    () => withComparisonResults(charts, chartResults, orgData?.comparison),
+    [charts, chartResults, orgData?.comparison]
+  );
+
+  const { handleCSVExport, handlePDFExport, handleXLSXExport, handlePPTXExport } = useReportExport({
     entity: organization ? { 
       _id: organization._id,
       name: organization.name,
@@ -74,6 +81,7 @@ export default function OrganizationReportView({ id, variant }: { id: string; va
     charts: charts.map((chart: any) => ({ chartId: chart.chartId, order: chart.order })),
     filenamePrefix: `org_${organization?.slug || 'report'}${reportVariant?.slug && reportVariant.slug !== 'default' ? `_${reportVariant.slug}` : ''}`,
     reportType: 'Organization Report',
+    serverExport: { slug: id, type: 'organization', variant: reportVariant?.slug ?? variant },
   });
 
   const loading = dataLoading || styleLoading;
@@ -109,15 +117,17 @@ export default function OrganizationReportView({ id, variant }: { id: string; va
             emoji={report?.heroSettings?.showEmoji !== false && organization.metadata?.showEmoji !== false ? organization.metadata?.emoji : undefined}
             partnerLogo={organization.metadata?.logoUrl}
             showDate={false}
-            customSubtitle={reportVariant ? `${reportVariant.name} · ${reportVariant.period?.label || 'All Time'}` : undefined}
+            customSubtitle={reportVariant ? `${reportVariant.name} · ${reportVariant.period?.label || 'All Time'}${orgData?.comparison ? ` vs ${orgData.comparison.label}` : ''}` : undefined}
             showExport={report?.heroSettings?.showExportOptions ?? true}
             onExportCSV={handleCSVExport}
             onExportPDF={handlePDFExport}
+            onExportXLSX={handleXLSXExport}
+            onExportPPTX={handlePPTXExport}
           />
         </div>
         
         <div id="report-content">
-          <ReportContent blocks={blocks} chartResults={chartResults} gridSettings={gridSettings} />
+          <ReportContent blocks={blocks} chartResults={displayResults} gridSettings={gridSettings} />
         </div>
         
         {organization.metadata?.showMembersList !== false && entities.length > 0 && (
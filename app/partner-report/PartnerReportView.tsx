@@ -11,7 +11,9 @@ import PartnerEventsList from '@/app/partner-report/[slug]/PartnerEventsList';
 import { usePartnerReportData } from '@/hooks/useReportData';
 import { useReportStyle } from '@/hooks/useReportStyle';
 import { useReportExport } from '@/hooks/useReportExport';
+import { useShareDownloadPermission } from '@/hooks/useShareDownloadPermission';
 import { ReportCalculator } from '@/lib/report-calculator';
+import { withComparisonResults } from '@/lib/reportComparison';
 import { PublicReportShell, PublicReportState } from '@/components/reports/PublicReportShell';
 
 export interface PartnerReportViewProps {
@@ -51,7 +53,13 @@ export function PartnerReportView({ slug, variant }: PartnerReportViewProps) {
     return results;
   }, [stats, partnerData?.charts]);
 
-  const { handleCSVExport, handlePDFExport } = useReportExport({
+  // WHAT: Comparison mode — KPIs also show the prior period and the change
+  const displayResults = useMemo(
+    () => withComparisonResults(partnerData?.charts || [], chartResults, partnerData?.comparison),
+    [chartResults, partnerData?.charts, partnerData?.comparison]
+  );
+
+  const { handleCSVExport, handlePDFExport, handleXLSXExport, handlePPTXExport } = useReportExport({
     entity: partner ? { ...partner, createdAt: (partner as any).createdAt, updatedAt: (partner as any).updatedAt } : null,
     stats: stats || null,
     chartResults,
@@ -60,8 +68,12 @@ export function PartnerReportView({ slug, variant }: PartnerReportViewProps) {
       ? `partner_report_${reportVariant.slug}`
       : 'partner_report',
     reportType: 'Partner Report',
+    serverExport: { slug, type: 'partner', variant: reportVariant?.slug ?? variant },
   });
 
+  // WHAT: A recipient share link may be view-only (lib/shareLinks.ts)
+  const { allowDownload } = useShareDownloadPermission('partner-report', slug, !!partnerData);
+
   const loading = dataLoading || styleLoading;
   const error = dataError;
 
@@ -103,14 +115,16 @@ export function PartnerReportView({ slug, variant }: PartnerReportViewProps) {
             emoji={heroSettings?.showEmoji !== false && partner.showEmoji !== false ? partner.emoji : undefined}
             partnerLogo={(partner as any).logoUrl}
             showDate={false}
-            customSubtitle={reportVariant ? `${reportVariant.name} · ${reportVariant.period?.label || 'All Time'}` : undefined}
-            showExport={heroSettings?.showExportOptions ?? true}
+            customSubtitle={reportVariant ? `${reportVariant.name} · ${reportVariant.period?.label || 'All Time'}${partnerData?.comparison ? ` vs ${partnerData.comparison.label}` : ''}` : undefined}
+            showExport={(heroSettings?.showExportOptions ?? true) && allowDownload}
             onExportCSV={handleCSVExport}
             onExportPDF={handlePDFExport}
+            onExportXLSX={handleXLSXExport}
+            onExportPPTX={handlePPTXExport}
           />
         </div>
         <div id="report-content">
-          <ReportContent blocks={blocks} chartResults={chartResults} gridSettings={gridSettings} />
+          <ReportContent blocks={blocks} chartResults={displayResults} gridSettings={gridSettings} />
         </div>
         {events.length > 0 && (
           <PartnerEventsList
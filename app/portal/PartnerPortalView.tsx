@@ -0,0 +1,202 @@
+'use client';
+
+/**
+ * Partner portal
+ *
+ * WHAT: What one partner's contact sees after signing in — their events with
+ *      headline stats, published partner reports, Bitly performance and CSV
+ *      downloads.
+ * HOW: Renders /api/portal/overview. Reports open and exports download through
+ *      /api/portal/open and /api/portal/export, which scope to the session's
+ *      partner and record the access for the admin audit.
+ */
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { apiPost } from '@/lib/apiClient';
+import type { PortalOverview } from '@/lib/partnerPortal';
+import styles from './PartnerPortalView.module.css';
+
+const numberFormat = new Intl.NumberFormat();
+
+function openHref(type: 'event' | 'report', id: string): string {
+  return `/api/portal/open?type=${type}&id=${encodeURIComponent(id)}`;
+}
+
+export default function PartnerPortalView() {
+  const router = useRouter();
+  const [overview, setOverview] = useState<PortalOverview | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const response = await fetch('/api/portal/overview');
+        if (response.status === 401) {
+          router.replace('/portal/login');
+          return;
+        }
+        const data = await response.json();
+        if (!data.success) throw new Error(data.error || 'Failed to load the portal');
+        setOverview(data.overview);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load the portal');
+      }
+    };
+    load();
+  }, [router]);
+
+  const onSignOut = async () => {
+    await apiPost('/api/portal/logout').catch(() => undefined);
+    router.replace('/portal/login');
+  };
+
+  if (error) {
+    return (
+      <div className={styles.page}>
+        <div className="alert alert-danger">{error}</div>
+      </div>
+    );
+  }
+  if (!overview) return <div className={styles.page}>Loading…</div>;
+
+  const totals = overview.events.reduce(
+    (sum, event) => ({ fans: sum.fans + event.totalFans, images: sum.images + event.allImages }),
+    { fans: 0, images: 0 }
+  );
+  const totalClicks = overview.bitly.reduce((sum, link) => sum + link.totalClicks, 0);
+
+  return (
+    <div className={styles.page}>
+      <header className={styles.header}>
+        <div className={styles.brand}>
+          {overview.partner.logoUrl ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img className={styles.logo} src={overview.partner.logoUrl} alt="" />
+          ) : (
+            overview.partner.emoji && <span className={styles.emoji}>{overview.partner.emoji}</span>
+          )}
+          <div>
+            <h1 className={styles.title}>{overview.partner.name}</h1>
+            <p className={styles.muted}>Signed in as {overview.contact.name}</p>
+          </div>
+        </div>
+        <button className="btn btn-small btn-secondary" onClick={onSignOut}>
+          Sign out
+        </button>
+      </header>
+
+      <section className={styles.summary}>
+        <div className={styles.stat}>
+          <span className={styles.statValue}>{numberFormat.format(overview.events.length)}</span>
+          <span className={styles.muted}>Events</span>
+        </div>
+        <div className={styles.stat}>
+          <span className={styles.statValue}>{numberFormat.format(totals.fans)}</span>
+          <span className={styles.muted}>Fans</span>
+        </div>
+        <div className={styles.stat}>
+          <span className={styles.statValue}>{numberFormat.format(totals.images)}</span>
+          <span className={styles.muted}>Images</span>
+        </div>
+        <div className={styles.stat}>
+          <span className={styles.statValue}>{numberFormat.format(totalClicks)}</span>
+          <span className={styles.muted}>Bitly clicks</span>
+        </div>
+      </section>
+
+      {overview.reports.length > 0 && (
+        <section className={styles.section}>
+          <h2 className={styles.sectionTitle}>Reports</h2>
+          <ul className={styles.reports}>
+            {overview.reports.map((report) => (
+              <li key={report.slug}>
+                <a className={styles.reportLink} href={openHref('report', report.slug)} target="_blank" rel="noopener noreferrer">
+                  {report.name}
+                  {report.isDefault && <span className={styles.muted}> · main report</span>}
+                </a>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section className={styles.section}>
+        <div className={styles.sectionHeader}>
+          <h2 className={styles.sectionTitle}>Events</h2>
+          <a className="btn btn-small btn-secondary" href="/api/portal/export?type=events">
+            Download CSV
+          </a>
+        </div>
+        {overview.events.length === 0 ? (
+          <p className={styles.muted}>No events yet.</p>
+        ) : (
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Event</th>
+                <th>Date</th>
+                <th className={styles.number}>Fans</th>
+                <th className={styles.number}>Images</th>
+                <th className={styles.number}>Bitly clicks</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {overview.events.map((event) => (
+                <tr key={event.id}>
+                  <td>{event.name}</td>
+                  <td>{event.date?.slice(0, 10) ?? '—'}</td>
+                  <td className={styles.number}>{numberFormat.format(event.totalFans)}</td>
+                  <td className={styles.number}>{numberFormat.format(event.allImages)}</td>
+                  <td className={styles.number}>{numberFormat.format(event.bitlyClicks)}</td>
+                  <td className={styles.number}>
+                    <a href={openHref('event', event.id)} target="_blank" rel="noopener noreferrer">
+                      Report
+                    </a>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section className={styles.section}>
+        <div className={styles.sectionHeader}>
+          <h2 className={styles.sectionTitle}>Bitly links</h2>
+          <a className="btn btn-small btn-secondary" href="/api/portal/export?type=bitly">
+            Download CSV
+          </a>
+        </div>
+        {overview.bitly.length === 0 ? (
+          <p className={styles.muted}>No Bitly links yet.</p>
+        ) : (
+          <table className={styles.table}>
+            <thead>
+              <tr>
+                <th>Link</th>
+                <th className={styles.number}>Total clicks</th>
+                <th className={styles.number}>Clicks credited to events</th>
+                <th>Last synced</th>
+              </tr>
+            </thead>
+            <tbody>
+              {overview.bitly.map((link) => (
+                <tr key={link.id}>
+                  <td>
+                    <div>{link.title}</div>
+                    <div className={styles.muted}>{link.bitlink}</div>
+                  </td>
+                  <td className={styles.number}>{numberFormat.format(link.totalClicks)}</td>
+                  <td className={styles.number}>{numberFormat.format(link.eventClicks)}</td>
+                  <td className={styles.muted}>{link.lastSyncAt?.slice(0, 10) ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
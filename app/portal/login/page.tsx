@@ -0,0 +1,74 @@
+// app/portal/login/page.tsx
+// WHAT: Partner portal sign-in — request an emailed sign-in link, or use SSO
+// WHY: Partner contacts are external and have no messmass account. A one-time
+//     link to an address an admin invited is enough (lib/partnerPortal.ts);
+//     contacts who already have a DoneIsBetter identity can use SSO instead.
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AuthShell } from '@sovereignsquad/gds-core/client'
+import { Anchor, Button, Stack, Text, TextInput } from '@mantine/core'
+import { apiPost } from '@/lib/apiClient'
+
+const ERROR_MESSAGES = new Map<string, string>([
+  ['link_expired', 'That sign-in link has expired or was already used. Request a new one below.'],
+  ['no_access', 'This account has not been invited to a partner portal. Ask your contact at {messmass} for an invitation.'],
+  ['sso_not_configured', 'SSO is not configured. Use an email link instead.'],
+  ['session_expired', 'Sign-in session expired. Please try again.'],
+  ['auth_failed', 'Sign-in failed. Please try again.'],
+])
+
+const SSO_LOGIN_URL = '/api/auth/sso/login?redirect_uri=/portal'
+
+export default function PartnerPortalLogin() {
+  const [email, setEmail] = useState('')
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [sending, setSending] = useState(false)
+
+  useEffect(() => {
+    const err = new URLSearchParams(window.location.search).get('error')
+    if (err) setError(ERROR_MESSAGES.get(err) || 'Sign-in failed. Please try again.')
+  }, [])
+
+  const onSubmit = async (event: React.FormEvent) => {
+    event.preventDefault()
+    setSending(true)
+    setError('')
+    try {
+      const data = await apiPost('/api/portal/login', { email: email.trim() })
+      setMessage(data.message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not send a sign-in link.')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  return (
+    <AuthShell title="{messmass} partner portal" intent="sign-in" error={error || null}>
+      {message ? (
+        <Text ta="center">{message}</Text>
+      ) : (
+        <form onSubmit={onSubmit}>
+          <Stack gap="md" w="100%">
+            <TextInput
+              type="email"
+              label="Email"
+              placeholder="you@partner.com"
+              value={email}
+              onChange={(e) => setEmail(e.currentTarget.value)}
+              required
+            />
+            <Button type="submit" size="lg" fullWidth loading={sending} disabled={!email.trim()}>
+              Email me a sign-in link
+            </Button>
+            <Anchor href={SSO_LOGIN_URL} ta="center" size="sm">
+              Sign in with DoneIsBetter instead
+            </Anchor>
+          </Stack>
+        </form>
+      )}
+    </AuthShell>
+  )
+}
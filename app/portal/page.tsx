@@ -0,0 +1,13 @@
+'use client';
+
+/**
+ * Partner portal landing page
+ * WHAT: Route shell for the signed-in partner contact's portal.
+ * WHY: Matches the admin workspaces, which compose a view component.
+ */
+
+import PartnerPortalView from './PartnerPortalView';
+
+export default function PartnerPortalPage() {
+  return <PartnerPortalView />;
+}
@@ -493,6 +493,34 @@ function KPIChart({ result, className, allowNA = false }: { result: ChartResult;
           <span>{protectedTitle}</span>
         </div>
       )}
+      {result.comparison && <KPIComparisonBadge result={result} />}
+    </div>
+  );
+}
+
+/**
+ * KPI comparison badge - change vs the prior period (report variant comparison mode)
+ * Overlays the top-right corner so the KPI's 3-row grid and its height
+ * measurements are unaffected
+ */
+function KPIComparisonBadge({ result }: { result: ChartResult }) {
+  const comparison = result.comparison!;
+  const previous = replaceEmDashes(formatValue(comparison.previousValue, result.formatting));
+  const trend = comparison.delta === null || comparison.delta === 0 ? 'flat' : comparison.delta > 0 ? 'up' : 'down';
+  const arrow = trend === 'up' ? '▲' : trend === 'down' ? '▼' : '';
+  const change = comparison.deltaPercent !== null
+    ? `${Math.abs(comparison.deltaPercent).toFixed(1)}%`
+    : comparison.delta !== null
+      ? replaceEmDashes(formatValue(Math.abs(comparison.delta), result.formatting))
+      : '';
+
+  return (
+    <div
+      className={`${styles.kpiComparison} ${styles[`kpiComparison_${trend}`] || ''}`}
+      title={`${comparison.periodLabel}: ${previous}`}
+    >
+      {change && <span className={styles.kpiComparisonChange}>{arrow} {change}</span>}
+      <span className={styles.kpiComparisonPrevious}>vs {previous}</span>
     </div>
   );
 }
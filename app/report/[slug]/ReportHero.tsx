@@ -47,6 +47,12 @@ interface ReportHeroProps {
   /** PDF export handler */
   onExportPDF?: () => void;
   
+  /** XLSX workbook export handler (button hidden when absent) */
+  onExportXLSX?: () => void;
+  
+  /** PPTX slide deck export handler (button hidden when absent) */
+  onExportPPTX?: () => void;
+  
   /** Optional CSS class */
   className?: string;
 }
@@ -60,7 +66,7 @@ interface ReportHeroProps {
  * Features:
  * - Event name and date display
  * - Optional emoji/icon
- * - PDF export button
+ * - CSV/PDF export buttons, plus XLSX/PPTX when handlers are provided
  * - Responsive layout
  */
 export default function ReportHero({ 
@@ -73,6 +79,8 @@ export default function ReportHero({
   showExport = true,
   onExportCSV,
   onExportPDF,
+  onExportXLSX,
+  onExportPPTX,
   className 
 }: ReportHeroProps) {
   
@@ -160,6 +168,28 @@ export default function ReportHero({
               <span className={styles.exportIcon}>📄</span>
               <span className={styles.exportText}>Export PDF</span>
             </button>
+            {onExportXLSX && (
+              <button 
+                className={styles.exportButton}
+                onClick={onExportXLSX}
+                type="button"
+                title="Download report as an Excel workbook"
+              >
+                <span className={styles.exportIcon}>📗</span>
+                <span className={styles.exportText}>Export XLSX</span>
+              </button>
+            )}
+            {onExportPPTX && (
+              <button 
+                className={styles.exportButton}
+                onClick={onExportPPTX}
+                type="button"
+                title="Download report as a PowerPoint slide deck"
+              >
+                <span className={styles.exportIcon}>📽️</span>
+                <span className={styles.exportText}>Export PPTX</span>
+              </button>
+            )}
           </div>
         )}
       </div>
@@ -12,6 +12,8 @@ import { useReportData } from '@/hooks/useReportData';
 import { useReportLayoutForProject } from '@/hooks/useReportLayout';
 import { useReportStyle } from '@/hooks/useReportStyle';
 import { useReportExport } from '@/hooks/useReportExport';
+import { useShareDownloadPermission } from '@/hooks/useShareDownloadPermission';
+import PagePasswordLogin from '@/components/PagePasswordLogin';
 import { ReportCalculator } from '@/lib/report-calculator';
 import type { Chart } from '@/lib/report-calculator';
 import { ensureDerivedMetrics } from '@/lib/dataValidator';
@@ -50,7 +52,9 @@ export default function ReportPage() {
   const { 
     data: reportData,
     loading: dataLoading, 
-    error: dataError 
+    error: dataError,
+    passwordRequired,
+    refresh: refreshData
   } = useReportData(slug);
   
   const project = reportData?.project;
@@ -317,14 +321,18 @@ export default function ReportPage() {
   // WHY: Centralized export logic eliminates duplication across report types
   // HOW: Pass project data and chart results to hook
   // IMPORTANT: Must be called before any conditional returns (React Rules of Hooks)
-  const { handleCSVExport, handlePDFExport } = useReportExport({
+  const { handleCSVExport, handlePDFExport, handleXLSXExport, handlePPTXExport } = useReportExport({
     entity: project ? { ...project, createdAt: reportData?.project?.createdAt, updatedAt: reportData?.project?.updatedAt } : null,
     stats: stats || null,
     chartResults,
     charts: charts?.map(chart => ({ chartId: chart.chartId, order: chart.order })), // A-R-10 Phase 2: Pass charts for ordering
-    reportType: 'Event Report'
+    reportType: 'Event Report',
+    serverExport: slug ? { slug, type: 'event' } : null
   });
 
+  // WHAT: A recipient share link may be view-only (lib/shareLinks.ts)
+  const { allowDownload } = useShareDownloadPermission('event-report', slug, !!reportData);
+
   // Determine overall loading state
   const loading = dataLoading || layoutLoading || chartsLoading || styleLoading;
 
@@ -345,6 +353,11 @@ export default function ReportPage() {
   // HOW: Only check critical errors that prevent data/layout from loading
   const error = dataError || layoutError || chartsError;
 
+  // WHAT: Protected event without a grant — prompt for the password or redeem ?share=
+  if (passwordRequired) {
+    return <PagePasswordLogin pageId={slug} pageType="event-report" onSuccess={() => refreshData()} />;
+  }
+
   // Loading state
   if (loading) {
     return (
@@ -403,11 +416,13 @@ export default function ReportPage() {
             project={project}
             emoji={heroSettings?.showEmoji !== false ? reportData?.project?.partner1?.emoji : undefined} // WHAT: Respect heroSettings.showEmoji
             showDate={heroSettings?.showDateInfo ?? true}
-            showExport={heroSettings?.showExportOptions ?? true}
+            showExport={(heroSettings?.showExportOptions ?? true) && allowDownload}
             partnerLogo={reportData?.project?.partner1?.logoUrl} // WHAT: Show partner1 logo if available (before title)
             partner2Logo={reportData?.project?.partner2?.logoUrl} // WHAT: Show partner2 logo if available (after title, for match reports)
             onExportCSV={handleCSVExport}
             onExportPDF={handlePDFExport}
+            onExportXLSX={handleXLSXExport}
+            onExportPPTX={handlePPTXExport}
           />
         </div>
 
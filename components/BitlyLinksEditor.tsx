@@ -7,7 +7,9 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import styles from './BitlyLinksEditor.module.css';
-import { apiPost, apiDelete } from '@/lib/apiClient';
+import { apiPost, apiPut, apiDelete } from '@/lib/apiClient';
+import { ATTRIBUTION_MODELS, ATTRIBUTION_MODEL_LABELS } from '@/lib/bitly-attribution';
+import type { BitlyAttributionModel } from '@/lib/bitly-junction.types';
 
 interface BitlyLinksEditorProps {
   projectId: string;
@@ -22,6 +24,12 @@ interface BitlyLink {
     total: number;
   };
   lastSyncAt: string;
+  // WHAT: How this event is credited with the link's clicks (shared links)
+  attribution: {
+    model: BitlyAttributionModel;
+    percent?: number;
+    explanation: string;
+  };
 }
 
 export default function BitlyLinksEditor({ projectId, projectName }: BitlyLinksEditorProps) {
@@ -32,6 +40,8 @@ export default function BitlyLinksEditor({ projectId, projectName }: BitlyLinksE
   const [newBitlink, setNewBitlink] = useState('');
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  // WHAT: Manual percentage being typed, per link
+  const [manualPercent, setManualPercent] = useState<Record<string, string>>({});
 
   // WHAT: Fetch all Bitly links associated with this project via junction table
   // WHY: Many-to-many system - links can be shared across multiple projects
@@ -55,7 +65,12 @@ export default function BitlyLinksEditor({ projectId, projectName }: BitlyLinksE
           click_summary: {
             total: link.metrics?.clicks || 0
           },
-          lastSyncAt: link.lastSyncedAt || new Date().toISOString()
+          lastSyncAt: link.lastSyncedAt || new Date().toISOString(),
+          attribution: {
+            model: link.attribution?.model || 'time_window',
+            percent: link.attribution?.percent,
+            explanation: link.attribution?.explanation || ''
+          }
         }));
         console.log('[BitlyLinksEditor] Transformed links:', linkData);
         setLinks(linkData);
@@ -133,6 +148,37 @@ export default function BitlyLinksEditor({ projectId, projectName }: BitlyLinksE
     }
   }
 
+  // WHAT: Change how this event is credited with a shared link's clicks
+  // WHY: Re-aggregates every event on the link, so the list is reloaded after saving
+  async function handleAttributionChange(linkId: string, model: BitlyAttributionModel, percent?: number) {
+    setError('');
+    setSuccess('');
+
+    if (model === 'manual' && percent === undefined) {
+      // WHAT: Ask for the percentage first; saved with "Apply"
+      setLinks(prev => prev.map(link => link._id === linkId ? { ...link, attribution: { ...link.attribution, model } } : link));
+      return;
+    }
+
+    try {
+      const data = await apiPut('/api/bitly/associations', {
+        bitlyLinkId: linkId,
+        projectId,
+        attribution: model === 'manual' ? { model, percent } : { model },
+      });
+
+      if (data.success) {
+        setSuccess(`✓ Attribution set to ${ATTRIBUTION_MODEL_LABELS[model].toLowerCase()}`);
+        loadLinks();
+      } else {
+        setError(data.error || 'Failed to update attribution');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Network error. Please try again.');
+      console.error('Attribution update error:', err);
+    }
+  }
+
   return (
     <div className={styles.container}>
       <div className={styles.header}>
@@ -194,6 +240,42 @@ export default function BitlyLinksEditor({ projectId, projectName }: BitlyLinksE
                   <span className={styles.separator}>•</span>
                   <span className={styles.title}>{link.title}</span>
                 </div>
+                <div className={styles.attribution}>
+                  <select
+                    value={link.attribution.model}
+                    onChange={(e) => handleAttributionChange(link._id, e.target.value as BitlyAttributionModel)}
+                    className={styles.attributionSelect}
+                    title="How this event is credited with the link's clicks"
+                  >
+                    {ATTRIBUTION_MODELS.map(model => (
+                      <option key={model} value={model}>{ATTRIBUTION_MODEL_LABELS[model]}</option>
+                    ))}
+                  </select>
+                  {link.attribution.model === 'manual' && (
+                    <>
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={manualPercent[link._id] ?? link.attribution.percent ?? ''}
+                        onChange={(e) => setManualPercent(prev => ({ ...prev, [link._id]: e.target.value }))}
+                        className={styles.percentInput}
+                        aria-label="Percentage of the link's clicks"
+                      />
+                      <span>%</span>
+                      <button
+                        type="button"
+                        onClick={() => handleAttributionChange(link._id, 'manual', Number(manualPercent[link._id] ?? link.attribution.percent ?? 0))}
+                        className={styles.applyButton}
+                      >
+                        Apply
+                      </button>
+                    </>
+                  )}
+                </div>
+                {link.attribution.explanation && (
+                  <div className={styles.attributionExplanation}>{link.attribution.explanation}</div>
+                )}
               </div>
               <button
                 onClick={() => handleRemoveLink(link._id, link.bitlink)}
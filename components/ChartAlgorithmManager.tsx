@@ -11,6 +11,7 @@ import { validateFormula, testFormula, extractVariablesFromFormula } from '@/lib
 import { calculateChart, formatChartValue } from '@/lib/chartCalculator';
 import PredictiveFormattingInput from './PredictiveFormattingInput';
 import SaveStatusIndicator, { SaveStatus } from './SaveStatusIndicator';
+import ChartConfigHistoryPanel from './ChartConfigHistoryPanel';
 import { apiPost, apiPut, apiDelete } from '@/lib/apiClient';
 import styles from './ChartAlgorithmManager.module.css';
 
@@ -81,6 +82,7 @@ interface ChartConfigFormData {
   showTitle?: boolean; // WHAT: Chart-level title visibility control
   showPercentages?: boolean; // WHAT: Pie chart percentage visibility control (v11.38.0)
   preset?: 'standard' | 'compact' | 'hero' | 'callout'; // WHAT: Markdown rendering preset (v12.2.0, Issue #48)
+  revisionReason?: string; // WHAT: Why this save was made; stored on the revision, not the chart
 }
 
 // Sample project stats for testing formulas
@@ -788,6 +790,13 @@ ${errors.length > 0 ? '\n\nErrors:\n' + errors.join('\n') : '\n✅ All formulas
           aiFillRates={aiFillRates}
           onSave={saveConfiguration}
           onUpdate={updateConfiguration}
+          onRestored={async () => {
+            if (debouncedTerm || sortField || sortOrder) {
+              await loadSearch();
+            } else {
+              await loadInitialData();
+            }
+          }}
           onCancel={() => {
             setShowEditor(false);
             setEditingConfig(null);
@@ -808,16 +817,18 @@ interface ChartConfigurationEditorProps {
   aiFillRates: Map<string, AiVariableFill>;
   onSave: (config: ChartConfigFormData) => Promise<void>;
   onUpdate: (config: ChartConfigFormData) => Promise<ChartConfigFormData>; // WHAT: Update without closing, returns fresh data
+  onRestored: () => Promise<void>; // WHAT: A revision was restored from the history panel; reload the list
   onCancel: () => void;
 }
 
-function ChartConfigurationEditor({ config, availableVariables, aiFillRates, onSave, onUpdate, onCancel }: ChartConfigurationEditorProps) {
+function ChartConfigurationEditor({ config, availableVariables, aiFillRates, onSave, onUpdate, onRestored, onCancel }: ChartConfigurationEditorProps) {
   const [formData, setFormData] = useState<ChartConfigFormData>(config);
   const [showVariablePicker, setShowVariablePicker] = useState<{ elementIndex: number } | null>(null);
   const [variableSearchTerm, setVariableSearchTerm] = useState('');
   const [selectedVariableCategory, setSelectedVariableCategory] = useState<string>('All');
   const [formulaValidation, setFormulaValidation] = useState<Record<number, { isValid: boolean; error?: string; result?: number | 'NA' }>>({});
   const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [updateCount, setUpdateCount] = useState(0); // WHAT: Remounts the history panel after each Update
   
   // WHAT: Formatting defaults from database
   // WHY: Predictive dropdowns need available prefix/suffix options
@@ -893,6 +904,7 @@ function ChartConfigurationEditor({ config, availableVariables, aiFillRates, onS
     try {
       const freshData = await onUpdate(formData); // Get fresh data from API
       setSaveStatus('saved');
+      setUpdateCount((count) => count + 1);
       
       // CRITICAL: Update formData with fresh data from database
       if (freshData) {
@@ -1662,6 +1674,30 @@ function ChartConfigurationEditor({ config, availableVariables, aiFillRates, onS
               </div>
             </div>
           </div>
+
+          {/* WHAT: Reason stored with the revision this save creates
+              WHY: The history should say why a sponsor's number moved, not only that it did */}
+          <div className="form-group">
+            <label className="form-label">Reason for change (optional)</label>
+            <input
+              type="text"
+              className="form-input"
+              value={formData.revisionReason || ''}
+              onChange={(e) => setFormData({ ...formData, revisionReason: e.target.value })}
+              placeholder="e.g., Exclude staff from fan count"
+            />
+          </div>
+
+          {formData._id && (
+            <ChartConfigHistoryPanel
+              key={updateCount}
+              configurationId={formData._id}
+              onRestored={async (restored) => {
+                setFormData({ ...(restored as ChartConfigFormData), revisionReason: '' });
+                await onRestored();
+              }}
+            />
+          )}
       </FormModal>
       
       {/* WHAT: Variable Picker Modal - uses unified FormModal component
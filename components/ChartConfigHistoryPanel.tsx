@@ -0,0 +1,214 @@
+// components/ChartConfigHistoryPanel.tsx
+// WHAT: Revision history of one chart configuration: who saved what and why,
+//     the field and formula changes of each revision, and restore.
+// WHY: Formula edits change sponsor numbers; the history shows which edit did
+//     it and puts the previous formula back in one click.
+// USAGE: Chart configuration editor in components/ChartAlgorithmManager.tsx,
+//        for saved charts. Data from /api/chart-config/[id]/revisions.
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useGdsConfirm } from '@sovereignsquad/gds-core/client';
+import { apiGet, apiPost } from '@/lib/apiClient';
+import type { ChartConfiguration } from '@/lib/chartConfigTypes';
+import type { ChartConfigDiff, ChartConfigRevision } from '@/lib/chartConfigRevisions';
+import styles from './ChartConfigHistoryPanel.module.css';
+
+interface ChartConfigHistoryPanelProps {
+  configurationId: string;
+  onRestored: (configuration: ChartConfiguration) => void | Promise<void>;
+}
+
+const ACTION_LABEL: Record<ChartConfigRevision['action'], string> = {
+  baseline: 'Before history',
+  create: 'Created',
+  update: 'Saved',
+  restore: 'Restored',
+  delete: 'Deleted',
+};
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function DiffView({ diff }: { diff: ChartConfigDiff }) {
+  if (!diff.hasChanges) {
+    return <p className={styles.empty}>No changes.</p>;
+  }
+
+  return (
+    <div className={styles.diff}>
+      {diff.elements.map((element) => (
+        <div key={element.elementId} className={styles.element}>
+          <div className={styles.elementTitle}>
+            {element.status === 'added' ? '+ ' : element.status === 'removed' ? '− ' : ''}
+            {element.label || element.elementId}
+          </div>
+          {element.formula && (
+            <div className={styles.formula}>
+              <code className={styles.removed}>{element.formula.from ?? '—'}</code>
+              <span className={styles.arrow}>→</span>
+              <code className={styles.added}>{element.formula.to ?? '—'}</code>
+            </div>
+          )}
+          {element.status === 'changed' && element.changes.map((change) => (
+            <div key={change.key} className={styles.change}>
+              {change.key}: {formatValue(change.from)} → {formatValue(change.to)}
+            </div>
+          ))}
+        </div>
+      ))}
+      {diff.fields.map((change) => (
+        <div key={change.key} className={styles.change}>
+          {change.key}: {formatValue(change.from)} → {formatValue(change.to)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ChartConfigHistoryPanel({ configurationId, onRestored }: ChartConfigHistoryPanelProps) {
+  const { confirm } = useGdsConfirm();
+  const [revisions, setRevisions] = useState<ChartConfigRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [selected, setSelected] = useState<{ revision: number; against: 'previous' | 'current' } | null>(null);
+  const [diff, setDiff] = useState<ChartConfigDiff | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const basePath = `/api/chart-config/${configurationId}/revisions`;
+
+  const loadRevisions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await apiGet(basePath);
+      setRevisions(data.success ? data.revisions : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [basePath]);
+
+  useEffect(() => {
+    void loadRevisions();
+  }, [loadRevisions]);
+
+  // WHAT: Show what a revision changed (against the one before it) or how it
+  //     differs from the chart as it is now
+  const showDiff = async (revision: number, against: 'previous' | 'current') => {
+    setSelected({ revision, against });
+    setDiff(null);
+    const index = revisions.findIndex((r) => r.revision === revision);
+    const previous = revisions[index + 1]?.revision;
+    if (against === 'previous' && !previous) return; // first revision: nothing to compare
+
+    const query = against === 'previous' ? `from=${previous}&to=${revision}` : `from=${revision}&to=current`;
+    try {
+      const data = await apiGet(`${basePath}/diff?${query}`);
+      if (data.success) setDiff(data.diff);
+      else setError(data.error || 'Failed to load changes');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load changes');
+    }
+  };
+
+  const handleRestore = async (revision: number) => {
+    const ok = await confirm({
+      title: `Restore revision ${revision}?`,
+      message: 'The chart is put back exactly as it was in this revision. Reports using it recalculate with these formulas. The current state stays in the history.',
+      danger: true,
+    });
+    if (!ok) return;
+
+    setBusy(true);
+    setError('');
+    try {
+      const data = await apiPost(`${basePath}/${revision}/restore`, {});
+      if (!data.success) {
+        setError(data.error || 'Failed to restore revision');
+        return;
+      }
+      setSelected(null);
+      setDiff(null);
+      await loadRevisions();
+      await onRestored(data.configuration);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className={styles.container}>
+      <h3 className={styles.title}>🕘 Revision History</h3>
+      {error && <div className={styles.error}>{error}</div>}
+
+      {loading ? (
+        <p className={styles.empty}>Loading history…</p>
+      ) : revisions.length === 0 ? (
+        <p className={styles.empty}>No revisions yet — the next save starts the history.</p>
+      ) : (
+        <ul className={styles.list}>
+          {revisions.map((revision, index) => {
+            const isSelected = selected?.revision === revision.revision;
+            return (
+              <li key={revision._id} className={styles.item}>
+                <div className={styles.row}>
+                  <div className={styles.info}>
+                    <span className={styles.number}>#{revision.revision}</span>
+                    <span className={`${styles.badge} ${styles[revision.action]}`}>{ACTION_LABEL[revision.action]}</span>
+                    <span className={styles.meta}>
+                      {revision.authorEmail || revision.authorId} · {new Date(revision.createdAt).toLocaleString()}
+                    </span>
+                    {revision.reason && <span className={styles.reason}>“{revision.reason}”</span>}
+                  </div>
+                  <div className={styles.actions}>
+                    <button
+                      type="button"
+                      className="btn btn-small btn-secondary"
+                      onClick={() => showDiff(revision.revision, 'previous')}
+                    >
+                      Changes
+                    </button>
+                    {index > 0 && (
+                      <>
+                        <button
+                          type="button"
+                          className="btn btn-small btn-secondary"
+                          onClick={() => showDiff(revision.revision, 'current')}
+                        >
+                          vs Current
+                        </button>
+                        <button
+                          type="button"
+                          className="btn btn-small btn-primary"
+                          onClick={() => handleRestore(revision.revision)}
+                          disabled={busy}
+                        >
+                          Restore
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {isSelected && (
+                  diff ? (
+                    <DiffView diff={diff} />
+                  ) : selected.against === 'previous' && index === revisions.length - 1 ? (
+                    <p className={styles.empty}>First revision in the history.</p>
+                  ) : (
+                    <p className={styles.empty}>Loading changes…</p>
+                  )
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+'use client';
+
+/**
+ * FilterQueryBuilder
+ *
+ * WHAT: Visual editor for filter expressions (lib/filterQuery.ts) — nested
+ *      "all of" / "any of" groups of conditions, each of which can be excluded
+ * WHY: The expression language is what gets saved and shared; the builder lets
+ *      admins compose one without learning the syntax. The parent keeps the text
+ *      form in sync via formatFilterExpression.
+ */
+
+import React from 'react';
+import { STAT_OPERATORS, type FilterNode, type FilterTerm, type StatOperator } from '@/lib/filterQuery';
+import styles from './FilterQueryBuilder.module.css';
+
+type GroupNode = Extract<FilterNode, { type: 'and' | 'or' }>;
+type TermType = FilterTerm['type'];
+
+interface FilterQueryBuilderProps {
+  value: FilterNode | null;
+  onChange: (node: FilterNode | null) => void;
+  disabled?: boolean;
+}
+
+const TERM_LABELS: Record<TermType, string> = {
+  hashtag: 'Hashtag',
+  partner: 'Partner',
+  organization: 'Organization',
+  date: 'Event date',
+  stat: 'Stat',
+};
+
+// Suggestions only; any stats field name is accepted
+const COMMON_STAT_FIELDS = [
+  'eventAttendees',
+  'eventTicketPurchases',
+  'remoteImages',
+  'hostessImages',
+  'selfies',
+  'female',
+  'male',
+  'merched',
+  'visitWeb',
+  'visitQrCode',
+  'bitlyTotalClicks',
+];
+
+function blankTerm(type: TermType): FilterTerm {
+  switch (type) {
+    case 'hashtag':
+      return { type, category: null, value: '' };
+    case 'partner':
+    case 'organization':
+      return { type, value: '' };
+    case 'date':
+      return { type, from: null, to: null };
+    case 'stat':
+      return { type, field: 'eventAttendees', op: '>', value: 0 };
+  }
+}
+
+function asGroup(node: FilterNode | null): GroupNode {
+  if (!node) return { type: 'and', children: [] };
+  return node.type === 'and' || node.type === 'or' ? node : { type: 'and', children: [node] };
+}
+
+function TermEditor({ term, onChange, disabled }: { term: FilterTerm; onChange: (term: FilterTerm) => void; disabled?: boolean }) {
+  return (
+    <>
+      <select
+        className={`form-select ${styles.kindSelect}`}
+        value={term.type}
+        disabled={disabled}
+        onChange={(e) => onChange(blankTerm(e.target.value as TermType))}
+        aria-label="Condition type"
+      >
+        {(Object.keys(TERM_LABELS) as TermType[]).map((type) => (
+          <option key={type} value={type}>{TERM_LABELS[type]}</option>
+        ))}
+      </select>
+
+      {term.type === 'hashtag' && (
+        <>
+          <input
+            className={`form-input ${styles.narrowInput}`}
+            placeholder="any category"
+            value={term.category ?? ''}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...term, category: e.target.value.trim().toLowerCase() || null })}
+            aria-label="Hashtag category"
+          />
+          <input
+            className="form-input"
+            placeholder="hashtag"
+            value={term.value}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...term, value: e.target.value.replace(/^#/, '').toLowerCase() })}
+            aria-label="Hashtag"
+          />
+        </>
+      )}
+
+      {(term.type === 'partner' || term.type === 'organization') && (
+        <input
+          className="form-input"
+          placeholder={`${TERM_LABELS[term.type]} name or ID`}
+          value={term.value}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...term, value: e.target.value })}
+          aria-label={`${TERM_LABELS[term.type]} name or ID`}
+        />
+      )}
+
+      {term.type === 'date' && (
+        <>
+          <input
+            type="date"
+            className="form-input"
+            value={term.from ?? ''}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...term, from: e.target.value || null })}
+            aria-label="From date"
+          />
+          <span className={styles.separator}>to</span>
+          <input
+            type="date"
+            className="form-input"
+            value={term.to ?? ''}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...term, to: e.target.value || null })}
+            aria-label="To date"
+          />
+        </>
+      )}
+
+      {term.type === 'stat' && (
+        <>
+          <input
+            className="form-input"
+            list="filter-query-stat-fields"
+            value={term.field}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...term, field: e.target.value.trim() })}
+            aria-label="Stat field"
+          />
+          <select
+            className={`form-select ${styles.operatorSelect}`}
+            value={term.op}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...term, op: e.target.value as StatOperator })}
+            aria-label="Comparison"
+          >
+            {STAT_OPERATORS.map((op) => (
+              <option key={op} value={op}>{op}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            className={`form-input ${styles.narrowInput}`}
+            value={Number.isFinite(term.value) ? term.value : ''}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...term, value: e.target.value === '' ? NaN : Number(e.target.value) })}
+            aria-label="Value"
+          />
+        </>
+      )}
+    </>
+  );
+}
+
+function GroupEditor({
+  group,
+  onChange,
+  disabled,
+  depth,
+}: {
+  group: GroupNode;
+  onChange: (group: GroupNode) => void;
+  disabled?: boolean;
+  depth: number;
+}) {
+  const setChild = (index: number, child: FilterNode | null) => {
+    const children = [...group.children];
+    if (child) children[index] = child;
+    else children.splice(index, 1);
+    onChange({ ...group, children });
+  };
+
+  return (
+    <div className={depth === 0 ? styles.rootGroup : styles.group}>
+      <div className={styles.groupHeader}>
+        <select
+          className={`form-select ${styles.kindSelect}`}
+          value={group.type}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...group, type: e.target.value as GroupNode['type'] })}
+          aria-label="Group logic"
+        >
+          <option value="and">All of (AND)</option>
+          <option value="or">Any of (OR)</option>
+        </select>
+        <span className={styles.hint}>the following conditions</span>
+      </div>
+
+      {group.children.map((child, index) => {
+        const negated = child.type === 'not';
+        const inner = child.type === 'not' ? child.child : child;
+        const wrap = (node: FilterNode): FilterNode => (negated ? { type: 'not', child: node } : node);
+        return (
+          <div key={index} className={styles.row}>
+            <label className={styles.exclude}>
+              <input
+                type="checkbox"
+                checked={negated}
+                disabled={disabled}
+                onChange={(e) => setChild(index, e.target.checked ? { type: 'not', child: inner } : inner)}
+              />
+              <span>Exclude</span>
+            </label>
+            <div className={styles.rowBody}>
+              {inner.type === 'and' || inner.type === 'or' ? (
+                <GroupEditor
+                  group={inner}
+                  depth={depth + 1}
+                  disabled={disabled}
+                  onChange={(updated) => setChild(index, updated.children.length ? wrap(updated) : null)}
+                />
+              ) : inner.type === 'not' ? null : (
+                <TermEditor term={inner} disabled={disabled} onChange={(term) => setChild(index, wrap(term))} />
+              )}
+            </div>
+            <button
+              type="button"
+              className="btn btn-small btn-secondary"
+              disabled={disabled}
+              onClick={() => setChild(index, null)}
+              aria-label="Remove condition"
+            >
+              ✕
+            </button>
+          </div>
+        );
+      })}
+
+      <div className={styles.actions}>
+        <button
+          type="button"
+          className="btn btn-small btn-secondary"
+          disabled={disabled}
+          onClick={() => onChange({ ...group, children: [...group.children, blankTerm('hashtag')] })}
+        >
+          + Condition
+        </button>
+        <button
+          type="button"
+          className="btn btn-small btn-secondary"
+          disabled={disabled}
+          onClick={() =>
+            onChange({
+              ...group,
+              children: [...group.children, { type: group.type === 'and' ? 'or' : 'and', children: [blankTerm('hashtag')] }],
+            })
+          }
+        >
+          + Group
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default function FilterQueryBuilder({ value, onChange, disabled }: FilterQueryBuilderProps) {
+  return (
+    <div className={styles.builder}>
+      <GroupEditor
+        group={asGroup(value)}
+        depth={0}
+        disabled={disabled}
+        onChange={(group) => onChange(group.children.length === 0 ? null : group.children.length === 1 ? group.children[0] : group)}
+      />
+      <datalist id="filter-query-stat-fields">
+        {COMMON_STAT_FIELDS.map((field) => (
+          <option key={field} value={field} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
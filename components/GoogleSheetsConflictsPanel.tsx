@@ -0,0 +1,237 @@
+// components/GoogleSheetsConflictsPanel.tsx
+// WHAT: Two-way sync settings (mode, conflict policy), a "sync both ways now"
+//     button, and the partner's open sync conflicts, resolvable field by field.
+// WHY: When the sheet and {messmass} change the same field, neither value is
+//     applied until an admin picks one — this is where they pick.
+// USAGE: Rendered by components/GoogleSheetsSyncStatus.tsx for connected
+//        partners. Data from /api/partners/[id]/google-sheet/{settings,sync,conflicts}.
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import UnifiedSelectField from '@/components/UnifiedSelectField';
+import { apiGet, apiPost, apiPut } from '@/lib/apiClient';
+import { SYNC_CONFLICT_POLICY_LABELS } from '@/lib/googleSheets/syncConflicts';
+import type { GoogleSheetSyncMode, SyncConflict, SyncConflictPolicy, SyncFieldValue } from '@/lib/googleSheets/types';
+import styles from './GoogleSheetsConflictsPanel.module.css';
+
+interface GoogleSheetsConflictsPanelProps {
+  partnerId: string;
+  syncMode: GoogleSheetSyncMode;
+  conflictPolicy: SyncConflictPolicy;
+  openConflicts: number;
+  onChanged: () => void;
+}
+
+const SYNC_MODE_OPTIONS: Array<{ value: GoogleSheetSyncMode; label: string }> = [
+  { value: 'manual', label: 'Manual (buttons only)' },
+  { value: 'auto', label: 'Auto (daily pull from sheet)' },
+  { value: 'bidirectional', label: 'Two-way (daily merge)' },
+];
+
+const POLICY_OPTIONS = Object.entries(SYNC_CONFLICT_POLICY_LABELS).map(([value, label]) => ({ value, label }));
+
+type Side = 'sheet' | 'messmass';
+
+function formatValue(value: SyncFieldValue): string {
+  return value === null || value === '' ? '—' : String(value);
+}
+
+function fieldLabel(field: string): string {
+  return field.startsWith('stats.') ? field.slice('stats.'.length) : field;
+}
+
+export default function GoogleSheetsConflictsPanel({
+  partnerId,
+  syncMode,
+  conflictPolicy,
+  openConflicts,
+  onChanged,
+}: GoogleSheetsConflictsPanelProps) {
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [choices, setChoices] = useState<Record<string, Record<string, Side>>>({});
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const basePath = `/api/partners/${partnerId}/google-sheet`;
+
+  const loadConflicts = useCallback(async () => {
+    try {
+      const data = await apiGet(`${basePath}/conflicts`);
+      setConflicts(data.success ? data.conflicts : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conflicts');
+    }
+  }, [basePath]);
+
+  useEffect(() => {
+    void loadConflicts();
+  }, [loadConflicts, openConflicts]);
+
+  const saveSettings = async (settings: { syncMode?: string; conflictPolicy?: string }) => {
+    setBusy(true);
+    setError('');
+    try {
+      const data = await apiPut(`${basePath}/settings`, settings);
+      if (!data.success) setError(data.error || 'Failed to save sync settings');
+      else onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save sync settings');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runSync = async () => {
+    setBusy(true);
+    setError('');
+    setMessage('');
+    try {
+      const data = await apiPost(`${basePath}/sync`, {});
+      if (!data.success) setError(data.error || 'Two-way sync failed');
+      else setMessage(data.message);
+      await loadConflicts();
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Two-way sync failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const choose = (conflictId: string, field: string, side: Side) => {
+    setChoices((prev) => ({ ...prev, [conflictId]: { ...prev[conflictId], [field]: side } }));
+  };
+
+  const chooseAll = (conflict: SyncConflict, side: Side) => {
+    const id = String(conflict._id);
+    setChoices((prev) => ({
+      ...prev,
+      [id]: Object.fromEntries(conflict.conflictingFields.map((field) => [field, side])),
+    }));
+  };
+
+  const resolve = async (conflict: SyncConflict) => {
+    const id = String(conflict._id);
+    const fields = choices[id] ?? {};
+    if (Object.keys(fields).length === 0) return;
+
+    setBusy(true);
+    setError('');
+    try {
+      const data = await apiPost(`${basePath}/conflicts/${id}/resolve`, { fields });
+      if (!data.success) {
+        setError(data.error || 'Failed to resolve conflict');
+        return;
+      }
+      setChoices((prev) => ({ ...prev, [id]: {} }));
+      await loadConflicts();
+      onChanged();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to resolve conflict');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className={styles.container}>
+      <h3 className={styles.title}>🔀 Two-Way Sync</h3>
+      {error && <div className={styles.error}>{error}</div>}
+      {message && <div className={styles.message}>{message}</div>}
+
+      <div className={styles.settings}>
+        <UnifiedSelectField
+          label="Sync Mode"
+          value={syncMode}
+          onChange={(value) => saveSettings({ syncMode: value })}
+          options={SYNC_MODE_OPTIONS}
+          disabled={busy}
+        />
+        <UnifiedSelectField
+          label="When both sides changed a field"
+          value={conflictPolicy}
+          onChange={(value) => saveSettings({ conflictPolicy: value })}
+          options={POLICY_OPTIONS}
+          disabled={busy}
+        />
+      </div>
+
+      <div className={styles.actions}>
+        <button type="button" className="btn btn-small btn-primary" onClick={runSync} disabled={busy}>
+          {busy ? '⏳ Syncing…' : '🔀 Sync Both Ways Now'}
+        </button>
+      </div>
+
+      {conflicts.length === 0 ? (
+        <p className={styles.empty}>No open conflicts.</p>
+      ) : (
+        <ul className={styles.list}>
+          {conflicts.map((conflict) => {
+            const id = String(conflict._id);
+            const selected = choices[id] ?? {};
+            const open = conflict.fields.filter((f) => !f.resolution);
+            return (
+              <li key={id} className={styles.item}>
+                <div className={styles.header}>
+                  <span className={styles.eventName}>{conflict.eventName || conflict.googleSheetUuid}</span>
+                  <span className={styles.meta}>
+                    Detected {new Date(conflict.detectedAt).toLocaleString()}
+                    {conflict.newerSource && ` · newer edit: ${conflict.newerSource === 'sheet' ? 'sheet' : '{messmass}'}`}
+                  </span>
+                </div>
+                <table className={styles.table}>
+                  <thead>
+                    <tr>
+                      <th>Field</th>
+                      <th>Last synced</th>
+                      <th>Sheet</th>
+                      <th>{'{messmass}'}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {open.map((f) => (
+                      <tr key={f.field}>
+                        <td className={styles.field}>{fieldLabel(f.field)}</td>
+                        <td className={styles.base}>{formatValue(f.baseValue)}</td>
+                        {(['sheet', 'messmass'] as const).map((side) => (
+                          <td key={side}>
+                            <button
+                              type="button"
+                              className={`${styles.choice} ${selected[f.field] === side ? styles.chosen : ''}`}
+                              onClick={() => choose(id, f.field, side)}
+                              disabled={busy}
+                            >
+                              {formatValue(side === 'sheet' ? f.sheetValue : f.messmassValue)}
+                            </button>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <div className={styles.actions}>
+                  <button type="button" className="btn btn-small btn-secondary" onClick={() => chooseAll(conflict, 'sheet')} disabled={busy}>
+                    All from Sheet
+                  </button>
+                  <button type="button" className="btn btn-small btn-secondary" onClick={() => chooseAll(conflict, 'messmass')} disabled={busy}>
+                    All from {'{messmass}'}
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-small btn-primary"
+                    onClick={() => resolve(conflict)}
+                    disabled={busy || Object.keys(selected).length === 0}
+                  >
+                    Apply {Object.keys(selected).length || ''} Choice{Object.keys(selected).length === 1 ? '' : 's'}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
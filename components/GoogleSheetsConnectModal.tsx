@@ -17,6 +17,7 @@
 import { useState } from 'react';
 import FormModal from '@/components/modals/FormModal';
 import { apiPost } from '@/lib/apiClient';
+import type { GoogleSheetSyncMode } from '@/lib/googleSheets/types';
 
 interface GoogleSheetsConnectModalProps {
   isOpen: boolean;
@@ -37,7 +38,7 @@ export default function GoogleSheetsConnectModal({
 }: GoogleSheetsConnectModalProps) {
   const [sheetUrl, setSheetUrl] = useState('');
   const [sheetName, setSheetName] = useState('Events');
-  const [syncMode, setSyncMode] = useState<'manual' | 'auto'>('manual');
+  const [syncMode, setSyncMode] = useState<GoogleSheetSyncMode>('manual');
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
@@ -173,7 +174,7 @@ export default function GoogleSheetsConnectModal({
                 name="syncMode"
                 value="manual"
                 checked={syncMode === 'manual'}
-                onChange={(e) => setSyncMode(e.target.value as 'manual' | 'auto')}
+                onChange={(e) => setSyncMode(e.target.value as GoogleSheetSyncMode)}
                 disabled={isSubmitting || isLoading}
                 className="mr-2"
               />
@@ -187,7 +188,7 @@ export default function GoogleSheetsConnectModal({
                 name="syncMode"
                 value="auto"
                 checked={syncMode === 'auto'}
-                onChange={(e) => setSyncMode(e.target.value as 'manual' | 'auto')}
+                onChange={(e) => setSyncMode(e.target.value as GoogleSheetSyncMode)}
                 disabled={isSubmitting || isLoading}
                 className="mr-2"
               />
@@ -195,6 +196,20 @@ export default function GoogleSheetsConnectModal({
                 <strong>Auto</strong> - Sync automatically (future feature)
               </span>
             </label>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                name="syncMode"
+                value="bidirectional"
+                checked={syncMode === 'bidirectional'}
+                onChange={(e) => setSyncMode(e.target.value as GoogleSheetSyncMode)}
+                disabled={isSubmitting || isLoading}
+                className="mr-2"
+              />
+              <span className="text-sm">
+                <strong>Two-way</strong> - Merge sheet and {'{messmass}'} edits daily; conflicts go to review
+              </span>
+            </label>
           </div>
         </div>
 
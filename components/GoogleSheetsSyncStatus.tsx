@@ -12,9 +12,12 @@
  * - Sync statistics (events created/updated, last sync times)
  * - Health status (sheet accessible, row counts)
  * - Error messages and troubleshooting info
+ * - Two-way sync settings and conflict review (GoogleSheetsConflictsPanel)
  */
 
 import { useState, useEffect, useCallback } from 'react';
+import GoogleSheetsConflictsPanel from '@/components/GoogleSheetsConflictsPanel';
+import type { GoogleSheetSyncMode, SyncConflictPolicy } from '@/lib/googleSheets/types';
 
 interface GoogleSheetStatus {
   connected: boolean;
@@ -22,7 +25,8 @@ interface GoogleSheetStatus {
     sheetUrl: string;
     sheetId: string;
     sheetName: string;
-    syncMode: string;
+    syncMode: GoogleSheetSyncMode;
+    conflictPolicy: SyncConflictPolicy;
     lastSyncAt: string | null;
     lastSyncStatus: string;
     lastSyncError: string | null;
@@ -36,6 +40,7 @@ interface GoogleSheetStatus {
     eventsCreated: number;
     eventsUpdated: number;
   };
+  openConflicts?: number;
   healthCheck?: {
     status: 'healthy' | 'warning' | 'error';
     sheetAccessible: boolean;
@@ -104,7 +109,8 @@ export default function GoogleSheetsSyncStatus({
     fetchStatus();
   }, [refreshKey, fetchStatus]);
 
-  if (isLoading) {
+  // Keep showing the last status while refreshing, so the panels below keep their state
+  if (isLoading && !status) {
     return (
       <div className="bg-gray-50 border border-gray-200 rounded-md p-4">
         <p className="text-sm text-gray-600">🔄 Loading status...</p>
@@ -181,8 +187,13 @@ export default function GoogleSheetsSyncStatus({
               <strong>Tab:</strong> {config.sheetName}
             </p>
             <p className="text-sm text-gray-700">
-              <strong>Mode:</strong> {config.syncMode === 'manual' ? '🔘 Manual' : '⚙️ Auto'}
+              <strong>Mode:</strong> {config.syncMode === 'manual' ? '🔘 Manual' : config.syncMode === 'bidirectional' ? '🔀 Two-way' : '⚙️ Auto'}
             </p>
+            {(status.openConflicts ?? 0) > 0 && (
+              <p className="text-sm text-yellow-700">
+                <strong>⚠️ {status.openConflicts} row{status.openConflicts === 1 ? '' : 's'} with sync conflicts</strong>
+              </p>
+            )}
           </div>
           <a
             href={config.sheetUrl}
@@ -195,6 +206,15 @@ export default function GoogleSheetsSyncStatus({
         </div>
       </div>
 
+      {/* Two-way sync settings and conflicts */}
+      <GoogleSheetsConflictsPanel
+        partnerId={partnerId}
+        syncMode={config.syncMode}
+        conflictPolicy={config.conflictPolicy}
+        openConflicts={status.openConflicts ?? 0}
+        onChanged={fetchStatus}
+      />
+
       {/* Sheet Health */}
       {health && (
         <div className={`rounded-md p-4 border bg-gray-50 border-gray-200`}>
@@ -14,7 +14,7 @@ import { apiPut } from '@/lib/apiClient';
 
 interface Notification {
   _id: string;
-  activityType: 'create' | 'edit' | 'edit-stats';
+  activityType: 'create' | 'edit' | 'edit-stats' | 'metric_threshold_alert' | 'bitly_link_health' | 'fanmass_command_failed';
   user: string;
   projectId: string;
   projectName: string;
@@ -150,7 +150,19 @@ export default function NotificationPanel({ isOpen, onClose, unreadCount, refres
     if (!notification.readBy.includes(currentUserId)) {
       markAsRead(notification._id);
     }
+    // WHAT: Threshold alerts carry a threshold id, not an event id — nothing to open
+    if (notification.activityType === 'metric_threshold_alert') return;
     onClose();
+    // WHAT: Link health alerts carry a Bitly link id; the list lives on the Bitly page
+    if (notification.activityType === 'bitly_link_health') {
+      router.push('/admin/bitly');
+      return;
+    }
+    // WHAT: Failed or expired Fanmass commands carry a command id; the log lives on the Fanmass page
+    if (notification.activityType === 'fanmass_command_failed') {
+      router.push('/admin/fanmass');
+      return;
+    }
     router.push(notification.projectId ? `/admin/events/${notification.projectId}` : '/admin/events');
   };
 
@@ -170,6 +182,9 @@ export default function NotificationPanel({ isOpen, onClose, unreadCount, refres
       case 'create': return { label: 'created project', icon: '✨' };
       case 'edit': return { label: 'edited project', icon: '✏️' };
       case 'edit-stats': return { label: 'updated stats', icon: '📊' };
+      case 'metric_threshold_alert': return { label: 'threshold reached', icon: '🚨' };
+      case 'bitly_link_health': return { label: 'link health issue', icon: '🔗' };
+      case 'fanmass_command_failed': return { label: 'Fanmass command not applied', icon: '⚠️' };
       default: return { label: 'modified', icon: '🔄' };
     }
   };
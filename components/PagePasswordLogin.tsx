@@ -110,6 +110,38 @@ export default function PagePasswordLogin({
     return () => { cancelled = true }
   }, [onSuccess])
 
+  // Share link: a time-limited ?access= token (scheduled report emails) or a
+  // per-recipient ?share= token (lib/shareLinks.ts) unlocks the page without a password
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const accessToken = params.get('access')
+    const shareToken = params.get('share')
+    if (!accessToken && !shareToken) return
+    let cancelled = false
+    const redeem = async () => {
+      try {
+        const res = await fetch('/api/page-passwords', {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(shareToken ? { pageId, pageType, shareToken } : { pageId, pageType, accessToken })
+        })
+        const data = await res.json()
+        if (cancelled) return
+        if (data.success && data.isValid) {
+          onSuccess(false)
+        } else if (shareToken) {
+          setError(`${data.error || 'This link is invalid'}. Ask the sender for a new link, or enter the page password.`)
+        } else {
+          setError('This link has expired. Please enter the page password.')
+        }
+      } catch {
+        // ignore, the password form stays available
+      }
+    }
+    redeem()
+    return () => { cancelled = true }
+  }, [pageId, pageType, onSuccess])
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -0,0 +1,296 @@
+// components/ReportTemplateVersionsPanel.tsx
+// WHAT: Version history for the selected report template: save the working
+//     copy as a version, publish, roll back, and compare any two versions.
+// WHY: Edits in the Visualization editor only change the working copy; partner
+//     reports keep rendering the published version until one is published here.
+// USAGE: app/admin/visualization/page.tsx, under the template selector.
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useGdsConfirm } from '@sovereignsquad/gds-core/client';
+import { apiGet, apiPost } from '@/lib/apiClient';
+import type { ReportTemplateDiff, ReportTemplateVersion } from '@/lib/reportTemplateVersions';
+import styles from './ReportTemplateVersionsPanel.module.css';
+
+interface ReportTemplateVersionsPanelProps {
+  templateId: string;
+  // Called after a rollback replaced the working copy, so the editor reloads it
+  onWorkingCopyChanged?: () => void | Promise<void>;
+}
+
+type DiffSide = number | 'working';
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function sideLabel(side: DiffSide): string {
+  return side === 'working' ? 'working copy' : `v${side}`;
+}
+
+function DiffView({ diff }: { diff: ReportTemplateDiff }) {
+  if (!diff.hasChanges) {
+    return <p className={styles.empty}>No structural differences.</p>;
+  }
+
+  return (
+    <ul className={styles.diffList}>
+      {diff.blocksAdded.map((block) => (
+        <li key={`added-${block.blockId}`} className={styles.added}>+ Block added: {block.name}</li>
+      ))}
+      {diff.blocksRemoved.map((block) => (
+        <li key={`removed-${block.blockId}`} className={styles.removed}>− Block removed: {block.name}</li>
+      ))}
+      {diff.blocksMoved.map((block) => (
+        <li key={`moved-${block.blockId}`}>
+          ↕ Block moved: {block.name} (position {block.from + 1} → {block.to + 1})
+        </li>
+      ))}
+      {diff.blocksChanged.map((block) => (
+        <li key={`changed-${block.blockId}`}>
+          ✎ {block.name}
+          <ul className={styles.diffDetails}>
+            {block.chartsAdded.map((chartId) => (
+              <li key={`chart-added-${chartId}`} className={styles.added}>+ Chart {chartId}</li>
+            ))}
+            {block.chartsRemoved.map((chartId) => (
+              <li key={`chart-removed-${chartId}`} className={styles.removed}>− Chart {chartId}</li>
+            ))}
+            {block.chartOrder && (
+              <li>
+                Chart order: {block.chartOrder.from.join(', ')} → {block.chartOrder.to.join(', ')}
+              </li>
+            )}
+            {block.widthChanges.map((change) => (
+              <li key={`width-${change.chartId}`}>
+                Width of {change.chartId}: {change.from} → {change.to}
+              </li>
+            ))}
+            {block.settings.map((change) => (
+              <li key={`setting-${change.key}`}>
+                {change.key}: {formatValue(change.from)} → {formatValue(change.to)}
+              </li>
+            ))}
+          </ul>
+        </li>
+      ))}
+      {diff.gridSettings.map((change) => (
+        <li key={`grid-${change.key}`}>
+          Grid {change.key}: {change.from} → {change.to}
+        </li>
+      ))}
+      {diff.settings.map((change) => (
+        <li key={`template-${change.key}`}>
+          {change.key}: {formatValue(change.from)} → {formatValue(change.to)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function ReportTemplateVersionsPanel({ templateId, onWorkingCopyChanged }: ReportTemplateVersionsPanelProps) {
+  const { confirm } = useGdsConfirm();
+  const [versions, setVersions] = useState<ReportTemplateVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+  const [compareFrom, setCompareFrom] = useState<DiffSide | null>(null);
+  const [compareTo, setCompareTo] = useState<DiffSide>('working');
+  const [diff, setDiff] = useState<ReportTemplateDiff | null>(null);
+
+  const basePath = `/api/report-templates/${templateId}/versions`;
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const data = await apiGet(basePath);
+      const list: ReportTemplateVersion[] = data.success ? data.versions : [];
+      setVersions(list);
+      setCompareFrom((current) => current ?? list.find((v) => v.status === 'published')?.version ?? list[0]?.version ?? null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load versions');
+    } finally {
+      setLoading(false);
+    }
+  }, [basePath]);
+
+  useEffect(() => {
+    setVersions([]);
+    setDiff(null);
+    setCompareFrom(null);
+    setCompareTo('working');
+    void loadVersions();
+  }, [loadVersions]);
+
+  // WHAT: Run one mutating request, then refresh the list
+  const run = async (request: () => Promise<{ success: boolean; error?: string }>) => {
+    setBusy(true);
+    setError('');
+    try {
+      const data = await request();
+      if (!data.success) {
+        setError(data.error || 'Request failed');
+        return false;
+      }
+      setDiff(null);
+      await loadVersions();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (await run(() => apiPost(basePath, { note: note.trim() || undefined }))) {
+      setNote('');
+    }
+  };
+
+  const handlePublish = async (version: number) => {
+    const ok = await confirm({
+      title: `Publish version ${version}?`,
+      message: 'Every report that uses this template (and is not pinned to another version) will render this version.',
+    });
+    if (ok) await run(() => apiPost(`${basePath}/${version}/publish`));
+  };
+
+  const handleRollback = async (version: number) => {
+    const ok = await confirm({
+      title: `Roll back to version ${version}?`,
+      message: 'The working copy is replaced by this version and a copy of it is published. Unsaved edits to the working copy are lost.',
+      danger: true,
+    });
+    if (ok && (await run(() => apiPost(`${basePath}/${version}/rollback`)))) {
+      await onWorkingCopyChanged?.();
+    }
+  };
+
+  const handleCompare = async () => {
+    if (compareFrom === null) return;
+    setBusy(true);
+    setError('');
+    try {
+      const data = await apiGet(`${basePath}/diff?from=${compareFrom}&to=${compareTo}`);
+      if (data.success) setDiff(data.diff);
+      else setError(data.error || 'Failed to compare versions');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compare versions');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const parseSide = (value: string): DiffSide => (value === 'working' ? 'working' : Number(value));
+  const published = versions.find((v) => v.status === 'published');
+
+  return (
+    <div className={styles.container}>
+      <div className={styles.header}>
+        <h3 className={styles.title}>🕘 Template Versions</h3>
+        <span className={styles.summary}>
+          {published
+            ? `Reports render v${published.version}`
+            : 'Not published — reports render the working copy live'}
+        </span>
+      </div>
+
+      {error && <div className={styles.error}>{error}</div>}
+
+      <div className={styles.saveRow}>
+        <input
+          type="text"
+          className="form-input"
+          placeholder="What changed? (optional)"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          disabled={busy}
+        />
+        <button type="button" className="btn btn-small btn-primary" onClick={handleSave} disabled={busy}>
+          💾 Save Version
+        </button>
+      </div>
+
+      {loading ? (
+        <p className={styles.empty}>Loading versions…</p>
+      ) : versions.length === 0 ? (
+        <p className={styles.empty}>No versions yet. Save the working copy to start the history.</p>
+      ) : (
+        <ul className={styles.versionList}>
+          {versions.map((version) => (
+            <li key={version._id} className={styles.versionRow}>
+              <div className={styles.versionInfo}>
+                <span className={styles.versionNumber}>v{version.version}</span>
+                <span className={`${styles.badge} ${styles[version.status]}`}>{version.status}</span>
+                <span className={styles.meta}>
+                  {version.note || (version.rolledBackFrom ? `Rollback to version ${version.rolledBackFrom}` : 'No note')}
+                  {' · '}
+                  {version.createdBy} · {new Date(version.createdAt).toLocaleString()}
+                </span>
+              </div>
+              <div className={styles.actions}>
+                {version.status !== 'published' && (
+                  <>
+                    <button type="button" className="btn btn-small btn-primary" onClick={() => handlePublish(version.version)} disabled={busy}>
+                      Publish
+                    </button>
+                    <button type="button" className="btn btn-small btn-secondary" onClick={() => handleRollback(version.version)} disabled={busy}>
+                      Roll back
+                    </button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {versions.length > 0 && (
+        <div className={styles.compare}>
+          <div className={styles.compareRow}>
+            <span>Compare</span>
+            <select
+              className="form-input"
+              value={compareFrom ?? ''}
+              onChange={(e) => setCompareFrom(parseSide(e.target.value))}
+              aria-label="Compare from"
+            >
+              {versions.map((version) => (
+                <option key={version._id} value={version.version}>v{version.version}</option>
+              ))}
+              <option value="working">Working copy</option>
+            </select>
+            <span>with</span>
+            <select
+              className="form-input"
+              value={compareTo}
+              onChange={(e) => setCompareTo(parseSide(e.target.value))}
+              aria-label="Compare to"
+            >
+              <option value="working">Working copy</option>
+              {versions.map((version) => (
+                <option key={version._id} value={version.version}>v{version.version}</option>
+              ))}
+            </select>
+            <button type="button" className="btn btn-small btn-secondary" onClick={handleCompare} disabled={busy || compareFrom === null}>
+              Compare
+            </button>
+          </div>
+          {diff && compareFrom !== null && (
+            <div className={styles.diff}>
+              <h4 className={styles.diffTitle}>
+                {sideLabel(compareFrom)} → {sideLabel(compareTo)}
+              </h4>
+              <DiffView diff={diff} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
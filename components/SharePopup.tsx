@@ -3,7 +3,9 @@
 import React, { useState, useEffect } from 'react';
 import { PageType } from '@/lib/pagePassword';
 import { apiPost } from '@/lib/apiClient';
+import { SHARE_LINK_PAGE_TYPES } from '@/lib/shareLinkTypes';
 import BaseModal from './modals/BaseModal';
+import ShareRecipientLinks from './ShareRecipientLinks';
 import styles from './SharePopup.module.css';
 
 interface SharePopupProps {
@@ -30,16 +32,12 @@ export default function SharePopup({ isOpen, onClose, pageId, pageType, customTi
   //     to distinguish "here is your password, copy it now" from "a password
   //     exists but cannot be displayed", because those need opposite actions.
   const [justGenerated, setJustGenerated] = useState(false);
-  // WHAT: Optional recipient name/email field for user convenience
-  // WHY: Users want to track who they're sharing links with when copying the URL and password
-  const [recipientInfo, setRecipientInfo] = useState<string>('');
 
   useEffect(() => {
     // Always regenerate when popup opens or the target page changes.
     if (isOpen) {
       setShareableData(null);
       setCopiedField(null);
-      setRecipientInfo(''); // Reset recipient field when popup opens
       generateShareableLink();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -162,25 +160,6 @@ export default function SharePopup({ isOpen, onClose, pageId, pageType, customTi
           </div>
         ) : shareableData ? (
           <div className={styles.content}>
-            {/* WHAT: Optional recipient name/email input field
-                WHY: Allows user to note who they're sharing with before copying URL/password */}
-            {/* Recipient Info Section */}
-            <div className={styles.section}>
-              <label className={styles.label}>
-                👤 Recipient Name or Email <span className={styles.labelOptional}>(optional)</span>
-              </label>
-              <input
-                type="text"
-                value={recipientInfo}
-                onChange={(e) => setRecipientInfo(e.target.value)}
-                placeholder="e.g., John Doe or john@example.com"
-                className={`${styles.input} ${styles.inputEditable}`}
-              />
-              <p className={styles.helpText}>
-                For your reference only - helps you remember who you shared this link with
-              </p>
-            </div>
-
             {/* URL Section */}
             <div className={styles.section}>
               <label className={styles.label}>
@@ -270,6 +249,18 @@ export default function SharePopup({ isOpen, onClose, pageId, pageType, customTi
               )}
             </div>
 
+            {/* WHAT: Per-recipient links (lib/shareLinks.ts)
+                WHY: Replaces the old reference-only recipient note — a link per
+                    recipient is tracked, can expire and can be revoked alone */}
+            {SHARE_LINK_PAGE_TYPES.includes(pageType) && (
+              <div className={styles.section}>
+                <label className={styles.label}>
+                  👤 Recipient Links
+                </label>
+                <ShareRecipientLinks pageId={pageId} pageType={pageType} />
+              </div>
+            )}
+
             {/* Instructions */}
             <div className={styles.instructions}>
               <p className={styles.instructionsTitle}>📝 Instructions:</p>
@@ -0,0 +1,330 @@
+'use client';
+
+// components/ShareRecipientLinks.tsx
+// WHAT: Create, list and revoke per-recipient share links for one page, and a
+//     reusable table of links with their view logs
+// WHY: The page password is one secret for everybody. A link per recipient can
+//     expire, run out, be view-only and be revoked on its own, and shows who
+//     actually opened the report (lib/shareLinks.ts).
+// HOW: Used inside SharePopup for the page being shared, and by the admin
+//     Share Links list (app/admin/share-links) across all pages.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { apiDelete, apiGet, apiPost } from '@/lib/apiClient';
+import type { PageType } from '@/lib/pagePassword';
+import type { ShareLinkStatus, ShareLinkSummary, ShareViewKind } from '@/lib/shareLinkTypes';
+import styles from './ShareRecipientLinks.module.css';
+
+interface ShareViewRow {
+  id: string;
+  pageType: PageType;
+  pageId: string;
+  kind: ShareViewKind;
+  at: string;
+  userAgent: string;
+  ipAddress: string;
+}
+
+const STATUS_LABELS: Record<ShareLinkStatus, string> = {
+  active: '✅ Active',
+  revoked: '⛔ Revoked',
+  expired: '⌛ Expired',
+  exhausted: '🔒 Used up',
+};
+
+const KIND_LABELS: Record<ShareViewKind, string> = {
+  open: 'Opened link',
+  view: 'Viewed',
+  download: 'Downloaded',
+};
+
+function formatDate(value?: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+function describePage(pageType: PageType, pageId: string): string {
+  return `${pageType} · ${pageId}`;
+}
+
+interface ShareLinkTableProps {
+  links: ShareLinkSummary[];
+  onRevoke: (link: ShareLinkSummary) => void;
+  // Show which page each link opens (the admin list spans pages)
+  showPage?: boolean;
+}
+
+export function ShareLinkTable({ links, onRevoke, showPage = false }: ShareLinkTableProps) {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [views, setViews] = useState<ShareViewRow[]>([]);
+  const [viewsError, setViewsError] = useState<string | null>(null);
+
+  const toggleViews = async (link: ShareLinkSummary) => {
+    if (openId === link.id) {
+      setOpenId(null);
+      return;
+    }
+    setOpenId(link.id);
+    setViews([]);
+    setViewsError(null);
+    try {
+      const data = await apiGet(`/api/share-links/${link.id}`);
+      setViews(data.views || []);
+    } catch (err) {
+      setViewsError(err instanceof Error ? err.message : 'Failed to load views');
+    }
+  };
+
+  if (links.length === 0) {
+    return <p className={styles.muted}>No recipient links yet.</p>;
+  }
+
+  return (
+    <table className={styles.table}>
+      <thead>
+        <tr>
+          <th>Recipient</th>
+          {showPage && <th>Page</th>}
+          <th>Status</th>
+          <th>Uses</th>
+          <th>Views</th>
+          <th>Expires</th>
+          <th>Last opened</th>
+          <th />
+        </tr>
+      </thead>
+      <tbody>
+        {links.map((link) => (
+          <React.Fragment key={link.id}>
+            <tr>
+              <td>
+                <div>{link.label}</div>
+                {link.email && link.email !== link.label && <div className={styles.muted}>{link.email}</div>}
+                <div className={styles.muted}>{link.allowDownload ? 'Can download' : 'View only'}</div>
+              </td>
+              {showPage && <td className={styles.muted}>{describePage(link.pageType, link.pageId)}</td>}
+              <td className={styles[link.status]}>{STATUS_LABELS[link.status]}</td>
+              <td>
+                {link.useCount}
+                {link.maxUses !== null && ` / ${link.maxUses}`}
+              </td>
+              <td>
+                {link.views}
+                {link.downloads > 0 && <div className={styles.muted}>{link.downloads} downloads</div>}
+              </td>
+              <td className={styles.muted}>{link.expiresAt ? formatDate(link.expiresAt) : 'Never'}</td>
+              <td className={styles.muted}>{formatDate(link.lastUsedAt)}</td>
+              <td className={styles.actions}>
+                <button type="button" className="btn btn-small btn-secondary" onClick={() => toggleViews(link)}>
+                  {openId === link.id ? 'Hide log' : 'View log'}
+                </button>
+                {link.status !== 'revoked' && (
+                  <button type="button" className="btn btn-small btn-secondary" onClick={() => onRevoke(link)}>
+                    Revoke
+                  </button>
+                )}
+              </td>
+            </tr>
+            {openId === link.id && (
+              <tr>
+                <td colSpan={showPage ? 8 : 7} className={styles.logCell}>
+                  {link.pages.length > 0 && (
+                    <p className={styles.muted}>
+                      Pages viewed:{' '}
+                      {link.pages.map((page) => `${describePage(page.pageType, page.pageId)} (${page.views})`).join(', ')}
+                    </p>
+                  )}
+                  {viewsError ? (
+                    <p className={styles.error}>{viewsError}</p>
+                  ) : views.length === 0 ? (
+                    <p className={styles.muted}>Not opened yet.</p>
+                  ) : (
+                    <table className={styles.table}>
+                      <thead>
+                        <tr>
+                          <th>When</th>
+                          <th>Action</th>
+                          <th>Page</th>
+                          <th>Browser</th>
+                          <th>IP address</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {views.map((view) => (
+                          <tr key={view.id}>
+                            <td>{formatDate(view.at)}</td>
+                            <td>{KIND_LABELS[view.kind]}</td>
+                            <td className={styles.muted}>{describePage(view.pageType, view.pageId)}</td>
+                            <td className={`${styles.muted} ${styles.userAgent}`}>{view.userAgent}</td>
+                            <td className={styles.muted}>{view.ipAddress}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </td>
+              </tr>
+            )}
+          </React.Fragment>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+interface ShareRecipientLinksProps {
+  pageId: string;
+  pageType: PageType;
+}
+
+export default function ShareRecipientLinks({ pageId, pageType }: ShareRecipientLinksProps) {
+  const [links, setLinks] = useState<ShareLinkSummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // New link
+  const [label, setLabel] = useState('');
+  const [email, setEmail] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState('30');
+  const [maxUses, setMaxUses] = useState('');
+  const [allowDownload, setAllowDownload] = useState(false);
+  const [creating, setCreating] = useState(false);
+  // The token exists only in this URL, so it is shown once, right after creation
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ pageType, pageId });
+      const data = await apiGet(`/api/share-links?${params}`);
+      setLinks(data.links || []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recipient links');
+    }
+  }, [pageId, pageType]);
+
+  useEffect(() => {
+    setCreatedUrl(null);
+    setError(null);
+    void load();
+  }, [load]);
+
+  const onCreate = async () => {
+    setCreating(true);
+    setError(null);
+    setCopied(false);
+    try {
+      const data = await apiPost('/api/share-links', {
+        pageId,
+        pageType,
+        label: label.trim(),
+        email: email.trim() || undefined,
+        expiresInDays: expiresInDays ? Number(expiresInDays) : null,
+        maxUses: maxUses ? Number(maxUses) : null,
+        allowDownload,
+      });
+      setCreatedUrl(data.url);
+      setLabel('');
+      setEmail('');
+      setMaxUses('');
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create recipient link');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const onRevoke = async (link: ShareLinkSummary) => {
+    if (!confirm(`Revoke the link for ${link.label}? They will lose access immediately.`)) return;
+    setError(null);
+    try {
+      await apiDelete(`/api/share-links/${link.id}`);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke link');
+    }
+  };
+
+  const onCopy = async () => {
+    if (!createdUrl) return;
+    try {
+      await navigator.clipboard.writeText(createdUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setError('Copy failed — select the link and copy it manually');
+    }
+  };
+
+  return (
+    <div className={styles.panel}>
+      <p className={styles.muted}>
+        Give each recipient their own link instead of the password. A link can expire, be limited to a number of
+        opens, be view-only, and be revoked without affecting anyone else.
+      </p>
+
+      {error && <p className={styles.error}>{error}</p>}
+
+      <div className={styles.row}>
+        <label className={`${styles.field} ${styles.wide}`}>
+          <span className="form-label">Recipient</span>
+          <input className="form-input" value={label} onChange={(e) => setLabel(e.target.value)} placeholder="e.g. Sponsor marketing team" />
+        </label>
+        <label className={`${styles.field} ${styles.wide}`}>
+          <span className="form-label">Email (optional)</span>
+          <input className="form-input" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+        </label>
+      </div>
+      <div className={styles.row}>
+        <label className={styles.field}>
+          <span className="form-label">Expires in (days)</span>
+          <input
+            className="form-input"
+            type="number"
+            min={1}
+            max={365}
+            value={expiresInDays}
+            onChange={(e) => setExpiresInDays(e.target.value)}
+            placeholder="Never"
+          />
+        </label>
+        <label className={styles.field}>
+          <span className="form-label">Max opens</span>
+          <input
+            className="form-input"
+            type="number"
+            min={1}
+            value={maxUses}
+            onChange={(e) => setMaxUses(e.target.value)}
+            placeholder="Unlimited"
+          />
+        </label>
+        <label className={styles.checkbox}>
+          <input type="checkbox" checked={allowDownload} onChange={(e) => setAllowDownload(e.target.checked)} />
+          Allow downloads
+        </label>
+        <button
+          type="button"
+          className="btn btn-small btn-primary"
+          onClick={onCreate}
+          disabled={creating || (!label.trim() && !email.trim())}
+        >
+          {creating ? 'Creating…' : 'Create link'}
+        </button>
+      </div>
+
+      {createdUrl && (
+        <div className={styles.created}>
+          <div className={styles.row}>
+            <input className={`form-input ${styles.wide}`} value={createdUrl} readOnly />
+            <button type="button" className="btn btn-small btn-secondary" onClick={onCopy}>
+              {copied ? '✅ Copied!' : '📋 Copy'}
+            </button>
+          </div>
+          <p className={styles.muted}>⚠️ Copy this link now — it is shown once. Revoke it and create another if it is lost.</p>
+        </div>
+      )}
+
+      <ShareLinkTable links={links} onRevoke={onRevoke} />
+    </div>
+  );
+}
@@ -21,6 +21,7 @@ export default function Sidebar() {
   const { isCollapsed, setIsCollapsed, isMobileOpen, setIsMobileOpen } = useSidebar();
   
   const [userRole, setUserRole] = useState<UserRole | undefined>(undefined);
+  const [capabilities, setCapabilities] = useState<string[]>([]);
   const [loadingRole, setLoadingRole] = useState(true);
   const currentYear = new Date().getFullYear();
   
@@ -33,6 +34,7 @@ export default function Sidebar() {
           if (data.user?.role) {
             setUserRole(data.user.role as UserRole);
           }
+          setCapabilities(Array.isArray(data.capabilities) ? data.capabilities : []);
         }
       } catch (error) {
         console.error('Failed to fetch user role:', error);
@@ -168,7 +170,7 @@ export default function Sidebar() {
         <nav>
           {adminNavSections.map((section) => {
             const visibleItems = section.items.filter(item => 
-              !loadingRole && canAccessMenuItem(userRole, item.label)
+              !loadingRole && canAccessMenuItem(userRole, item.label, capabilities)
             );
             
             if (visibleItems.length === 0) {
@@ -31,12 +31,19 @@
 //     same lean AnalyticsSectionCard + Mantine-table shape already used by
 //     the sibling Run Control tab (messmass#340) for the same page — one
 //     pattern across all four fanmass tabs, not two.
+// HOW pending: a row shows "Pending…" while its command is pending or
+//     claimed in the command log (lib/fanmassCommands.ts), plus the moment
+//     between the click and the log catching up. A failed or expired command
+//     frees the row again and shows why in the log below.
 
 import React, { useState } from 'react';
 import { Badge, Button, Modal, Select, Stack, Group, Table, Text, TextInput } from '@mantine/core';
 import { useGdsConfirm } from '@sovereignsquad/gds-core/client';
 import AnalyticsSectionCard from '@/components/analytics/AnalyticsSectionCard';
 import { apiPost } from '@/lib/apiClient';
+import type { FanmassCommand, FanmassCommandType } from '@/lib/fanmassCommands';
+import { useFanmassCommands } from '@/hooks/useFanmassCommands';
+import FanmassCommandLog from './FanmassCommandLog';
 import styles from './EntityCurationTab.module.css';
 
 // Matches services/entity_registry.py's KINDS tuple exactly (camelCase
@@ -62,6 +69,34 @@ interface CatalogEntity {
   hasLogo: boolean;
 }
 
+const CURATION_TYPES: FanmassCommandType[] = ['entity.confirm_cluster', 'entity.reject_cluster', 'entity.rename', 'entity.merge'];
+
+// The row a command locks — a merge locks its source, the entity going away
+function commandKey(command: FanmassCommand): string {
+  switch (command.type) {
+    case 'entity.confirm_cluster':
+    case 'entity.reject_cluster':
+      return `cluster:${String(command.payload.clusterId)}`;
+    case 'entity.merge':
+      return `entity:${String(command.payload.sourceId)}`;
+    default:
+      return `entity:${String(command.payload.entityId)}`;
+  }
+}
+
+function describeCurationCommand(command: FanmassCommand): string {
+  const { payload } = command;
+  switch (command.type) {
+    case 'entity.confirm_cluster':
+    case 'entity.reject_cluster':
+      return `cluster #${String(payload.clusterId)}`;
+    case 'entity.merge':
+      return `${String(payload.sourceId)} into ${String(payload.entityId)}`;
+    default:
+      return typeof payload.displayName === 'string' ? `${String(payload.entityId)} → ${payload.displayName}` : String(payload.entityId);
+  }
+}
+
 // Every place an entity's name reaches the UI - a null/empty name (a
 // camera-partner entity nobody has curated yet) must never reach a
 // searchable Select's label unguarded: Mantine's search filter calls
@@ -82,8 +117,15 @@ interface EntityCurationTabProps {
 
 export default function EntityCurationTab({ batchId, entityCuration }: EntityCurationTabProps) {
   const { confirm } = useGdsConfirm();
-  const [pending, setPending] = useState<Record<string, boolean>>({});
+  // Clicked but not yet visible in the command log
+  const [sending, setSending] = useState<Record<string, boolean>>({});
   const [error, setError] = useState('');
+  const { commands, error: commandsError, refresh: refreshCommands } = useFanmassCommands(CURATION_TYPES);
+
+  const pending: Record<string, boolean> = { ...sending };
+  for (const command of commands) {
+    if (command.status === 'pending' || command.status === 'claimed') pending[commandKey(command)] = true;
+  }
 
   const [editTarget, setEditTarget] = useState<CatalogEntity | null>(null);
   const [editName, setEditName] = useState('');
@@ -97,20 +139,16 @@ export default function EntityCurationTab({ batchId, entityCuration }: EntityCur
 
   async function enqueue(type: string, payload: Record<string, unknown>, key: string) {
     setError('');
-    setPending((p) => ({ ...p, [key]: true }));
+    setSending((p) => ({ ...p, [key]: true }));
     try {
       const data = await apiPost<{ success: boolean; error?: { message?: string } }>('/api/admin/fanmass/commands', { type, payload });
-      if (!data.success) {
-        setError(data.error?.message || 'Failed to enqueue command.');
-        setPending((p) => {
-          const next = { ...p };
-          delete next[key];
-          return next;
-        });
-      }
+      if (data.success) await refreshCommands();
+      else setError(data.error?.message || 'Failed to enqueue command.');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Network error. Please try again.');
-      setPending((p) => {
+    } finally {
+      // From here on the command log says whether the row is still pending
+      setSending((p) => {
         const next = { ...p };
         delete next[key];
         return next;
@@ -298,6 +336,8 @@ export default function EntityCurationTab({ batchId, entityCuration }: EntityCur
         )}
       </AnalyticsSectionCard>
 
+      <FanmassCommandLog commands={commands} onChanged={refreshCommands} describe={describeCurationCommand} error={commandsError} />
+
       <Modal opened={editTarget !== null} onClose={() => setEditTarget(null)} title={`Edit ${editTarget ? entityLabel(editTarget) : ''}`}>
         <Stack gap="sm">
           <TextInput label="Name" value={editName} onChange={(e) => setEditName(e.currentTarget.value)} required />
@@ -0,0 +1,171 @@
+'use client';
+
+// components/fanmass/FanmassCommandLog.tsx
+// WHAT: The recent commands a tab has enqueued — status, who asked, how many
+//     times fanmass picked each one up, why it failed — with Retry/Cancel and
+//     each command's timeline.
+// WHY: Before the command lifecycle (lib/fanmassCommands.ts) a command fanmass
+//     rejected or never picked up stayed "pending" with nothing on screen to
+//     say so. This is where an operator sees it and acts on it.
+// HOW: Presentational over useFanmassCommands' list; actions POST to
+//     /api/admin/fanmass/commands/[commandId] and then call onChanged.
+
+import React, { useState } from 'react';
+import { Badge, Button, Group, Table, Text } from '@mantine/core';
+import { useGdsConfirm } from '@sovereignsquad/gds-core/client';
+import AnalyticsSectionCard from '@/components/analytics/AnalyticsSectionCard';
+import { apiPost } from '@/lib/apiClient';
+import type { FanmassCommand, FanmassCommandEventType, FanmassCommandStatus } from '@/lib/fanmassCommands';
+import styles from './FanmassCommandLog.module.css';
+
+const STATUS_BADGES: Record<FanmassCommandStatus, { color: string; label: string }> = {
+  pending: { color: 'yellow', label: 'Waiting for fanmass' },
+  claimed: { color: 'blue', label: 'Picked up' },
+  applied: { color: 'green', label: 'Applied' },
+  failed: { color: 'red', label: 'Failed' },
+  expired: { color: 'orange', label: 'Expired' },
+  cancelled: { color: 'gray', label: 'Cancelled' },
+};
+
+const EVENT_LABELS: Record<FanmassCommandEventType, string> = {
+  created: 'Requested',
+  claimed: 'Picked up by',
+  lease_lapsed: 'Not confirmed in time',
+  applied: 'Applied by',
+  failed: 'Failed',
+  expired: 'Expired',
+  cancelled: 'Cancelled by',
+  retried: 'Retried by',
+};
+
+const RETRYABLE: FanmassCommandStatus[] = ['failed', 'expired', 'cancelled'];
+
+function formatTime(value: string): string {
+  return new Date(value).toLocaleString();
+}
+
+interface FanmassCommandLogProps {
+  commands: FanmassCommand[];
+  onChanged: () => Promise<void> | void;
+  // Human description of a command's payload, e.g. "cluster #12"
+  describe?: (command: FanmassCommand) => string;
+  error?: string;
+}
+
+export default function FanmassCommandLog({ commands, onChanged, describe, error }: FanmassCommandLogProps) {
+  const { confirm } = useGdsConfirm();
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState('');
+
+  async function act(command: FanmassCommand, action: 'retry' | 'cancel') {
+    if (action === 'cancel') {
+      const ok = await confirm({
+        title: 'Cancel command',
+        message: `Cancel ${command.type}? Fanmass has not picked it up yet, so it will not be applied.`,
+        danger: true,
+      });
+      if (!ok) return;
+    }
+    setBusyId(command.commandId);
+    setActionError('');
+    try {
+      await apiPost(`/api/admin/fanmass/commands/${command.commandId}`, { action });
+      await onChanged();
+    } catch (err) {
+      setActionError(err instanceof Error ? err.message : 'Network error. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  }
+
+  return (
+    <AnalyticsSectionCard title="Recent commands" subtitle="What fanmass did with each request from this tab.">
+      <div aria-live="polite">
+        {(actionError || error) && <Text className={styles.errorText}>{actionError || error}</Text>}
+      </div>
+      {commands.length === 0 ? (
+        <Text className={styles.placeholder}>No commands sent from this tab recently.</Text>
+      ) : (
+        <Table>
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>Command</Table.Th>
+              <Table.Th>Status</Table.Th>
+              <Table.Th>Requested</Table.Th>
+              <Table.Th>Attempts</Table.Th>
+              <Table.Th>Actions</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {commands.map((command) => {
+              const badge = STATUS_BADGES[command.status] ?? { color: 'gray', label: command.status };
+              const busy = busyId === command.commandId;
+              return (
+                <React.Fragment key={command.commandId}>
+                  <Table.Tr>
+                    <Table.Td>
+                      <Text fw={600} size="sm">{command.type}</Text>
+                      {describe && <Text className={styles.muted}>{describe(command)}</Text>}
+                    </Table.Td>
+                    <Table.Td>
+                      <Badge color={badge.color}>{badge.label}</Badge>
+                      {command.error && (
+                        <Text className={styles.errorText}>
+                          {command.error.code ? `${command.error.code}: ` : ''}
+                          {command.error.message}
+                        </Text>
+                      )}
+                    </Table.Td>
+                    <Table.Td>
+                      <Text size="sm">{formatTime(command.requestedAt)}</Text>
+                      <Text className={styles.muted}>{command.requestedBy}</Text>
+                    </Table.Td>
+                    <Table.Td>{command.attempts}</Table.Td>
+                    <Table.Td>
+                      <Group gap="xs">
+                        {RETRYABLE.includes(command.status) && (
+                          <Button size="xs" disabled={busy} loading={busy} onClick={() => act(command, 'retry')}>
+                            Retry
+                          </Button>
+                        )}
+                        {command.status === 'pending' && (
+                          <Button size="xs" color="red" variant="outline" disabled={busy} onClick={() => act(command, 'cancel')}>
+                            Cancel
+                          </Button>
+                        )}
+                        <Button
+                          size="xs"
+                          variant="subtle"
+                          onClick={() => setOpenId(openId === command.commandId ? null : command.commandId)}
+                          aria-expanded={openId === command.commandId}
+                        >
+                          {openId === command.commandId ? 'Hide timeline' : 'Timeline'}
+                        </Button>
+                      </Group>
+                    </Table.Td>
+                  </Table.Tr>
+                  {openId === command.commandId && (
+                    <Table.Tr>
+                      <Table.Td colSpan={5}>
+                        <ol className={styles.timeline}>
+                          {command.timeline.map((event, index) => (
+                            <li key={`${event.type}-${event.at}-${index}`}>
+                              <span className={styles.muted}>{formatTime(event.at)}</span> {EVENT_LABELS[event.type] ?? event.type}
+                              {event.actor ? ` ${event.actor}` : ''}
+                              {event.detail && <span className={styles.muted}> — {event.detail}</span>}
+                            </li>
+                          ))}
+                        </ol>
+                      </Table.Td>
+                    </Table.Tr>
+                  )}
+                </React.Fragment>
+              );
+            })}
+          </Table.Tbody>
+        </Table>
+      )}
+    </AnalyticsSectionCard>
+  );
+}
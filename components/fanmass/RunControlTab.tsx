@@ -11,7 +11,10 @@
 //     poll loop (fanmass#80) picks up on its own schedule. The *next*
 //     fanmass_dashboard_snapshot push is the only signal this tab will ever
 //     get back. This file's job is to represent that honestly rather than
-//     imply the button is instant (see the "enqueued" state below).
+//     imply the button is instant (see the "enqueued" state below). The
+//     command log under the buttons shows what fanmass then did with each
+//     command — picked up, applied, failed or expired — and the buttons stay
+//     disabled while one is still in flight.
 // HOW: activeRun (queued/running, or null) is the single explicit gate for
 //     Start/Stop — no inference from job/heartbeat presence (that data
 //     exists too but is display-only supplementary context here).
@@ -27,6 +30,9 @@ import { Badge, Button, Progress, Stack, Group, Box, Text } from '@mantine/core'
 import { useGdsConfirm } from '@sovereignsquad/gds-core/client';
 import AnalyticsSectionCard from '@/components/analytics/AnalyticsSectionCard';
 import { apiPost } from '@/lib/apiClient';
+import type { FanmassCommand, FanmassCommandType } from '@/lib/fanmassCommands';
+import { useFanmassCommands } from '@/hooks/useFanmassCommands';
+import FanmassCommandLog from './FanmassCommandLog';
 import styles from './RunControlTab.module.css';
 
 interface AnalysisRun {
@@ -67,6 +73,12 @@ interface RunControlTabProps {
 
 const OPTIMISTIC_WINDOW_MS = 20_000;
 
+const RUN_CONTROL_TYPES: FanmassCommandType[] = ['run_control.start_batch', 'run_control.stop_batch'];
+
+function describeRunCommand(command: FanmassCommand): string {
+  return typeof command.payload.runId === 'string' ? `run ${command.payload.runId}` : `batch ${String(command.payload.batchId ?? '')}`;
+}
+
 function statusBadge(run: AnalysisRun | null | undefined) {
   if (!run) return <Badge color="gray">No active run</Badge>;
   if (run.status === 'running') return <Badge color="green">Running</Badge>;
@@ -81,10 +93,12 @@ export default function RunControlTab({ batchId, runControl, snapshotGeneratedAt
   const [commandBusy, setCommandBusy] = useState<'start' | 'stop' | null>(null);
   const [commandError, setCommandError] = useState('');
   const [optimisticAt, setOptimisticAt] = useState<number | null>(null);
+  const { commands, error: commandsError, refresh: refreshCommands } = useFanmassCommands(RUN_CONTROL_TYPES, batchId);
 
   const activeRun = runControl?.activeRun ?? null;
   const progress = runControl?.progress;
-  const enqueued = optimisticAt !== null;
+  const inFlight = commands.some((c) => c.status === 'pending' || c.status === 'claimed');
+  const enqueued = optimisticAt !== null || inFlight;
   const busy = commandBusy !== null || enqueued;
 
   // Clears on whichever comes first: a snapshot generated after the command
@@ -120,7 +134,10 @@ export default function RunControlTab({ batchId, runControl, snapshotGeneratedAt
         type: 'run_control.start_batch',
         payload: { batchId },
       });
-      if (data.success) setOptimisticAt(Date.now());
+      if (data.success) {
+        setOptimisticAt(Date.now());
+        await refreshCommands();
+      }
       else setCommandError(data.error?.message || 'Failed to enqueue start command.');
     } catch (err) {
       setCommandError(err instanceof Error ? err.message : 'Network error. Please try again.');
@@ -144,7 +161,10 @@ export default function RunControlTab({ batchId, runControl, snapshotGeneratedAt
         type: 'run_control.stop_batch',
         payload: { batchId, runId: activeRun.runId },
       });
-      if (data.success) setOptimisticAt(Date.now());
+      if (data.success) {
+        setOptimisticAt(Date.now());
+        await refreshCommands();
+      }
       else setCommandError(data.error?.message || 'Failed to enqueue stop command.');
     } catch (err) {
       setCommandError(err instanceof Error ? err.message : 'Network error. Please try again.');
@@ -154,53 +174,57 @@ export default function RunControlTab({ batchId, runControl, snapshotGeneratedAt
   }
 
   return (
-    <AnalyticsSectionCard
-      title="Run Control"
-      subtitle="Choose the active batch, start or stop directory processing, live worker progress."
-    >
-      <Stack gap="md">
-        <Group gap="md" align="center">
-          {statusBadge(activeRun)}
-          {activeRun && <Text fw={600}>{activeRun.name}</Text>}
-        </Group>
-
-        {activeRun ? (
-          <Box>
-            <Progress
-              value={pct ?? 100}
-              striped={pct === null}
-              animated={pct === null && !reduceMotion}
-              aria-label={pct !== null ? `Batch progress: ${activeRun.progress?.done ?? 0} of ${activeRun.progress?.total ?? 0} processed` : 'Batch progress: in progress, total unknown'}
-            />
-            {progress?.activeJob && (
-              <Text className={styles.jobLine}>
-                Worker: {progress.workerOnline ? 'online' : progress.stalled ? 'stalled' : 'offline'}
-                {progress.activeJob.label ? ` — ${progress.activeJob.label}` : ''}
+    <Stack gap="md">
+      <AnalyticsSectionCard
+        title="Run Control"
+        subtitle="Choose the active batch, start or stop directory processing, live worker progress."
+      >
+        <Stack gap="md">
+          <Group gap="md" align="center">
+            {statusBadge(activeRun)}
+            {activeRun && <Text fw={600}>{activeRun.name}</Text>}
+          </Group>
+
+          {activeRun ? (
+            <Box>
+              <Progress
+                value={pct ?? 100}
+                striped={pct === null}
+                animated={pct === null && !reduceMotion}
+                aria-label={pct !== null ? `Batch progress: ${activeRun.progress?.done ?? 0} of ${activeRun.progress?.total ?? 0} processed` : 'Batch progress: in progress, total unknown'}
+              />
+              {progress?.activeJob && (
+                <Text className={styles.jobLine}>
+                  Worker: {progress.workerOnline ? 'online' : progress.stalled ? 'stalled' : 'offline'}
+                  {progress.activeJob.label ? ` — ${progress.activeJob.label}` : ''}
+                </Text>
+              )}
+            </Box>
+          ) : (
+            <Text className={styles.placeholder}>No active run for this batch.</Text>
+          )}
+
+          <div aria-live="polite">
+            {enqueued && (
+              <Text className={styles.enqueuedNote}>
+                Command sent — fanmass applies this on its next check-in. This page will update automatically once it does.
               </Text>
             )}
-          </Box>
-        ) : (
-          <Text className={styles.placeholder}>No active run for this batch.</Text>
-        )}
-
-        <div aria-live="polite">
-          {enqueued && (
-            <Text className={styles.enqueuedNote}>
-              Command sent — fanmass applies this on its next check-in. This page will update automatically once it does.
-            </Text>
-          )}
-          {commandError && <Text className={styles.errorText}>{commandError}</Text>}
-        </div>
-
-        <Group gap="sm">
-          <Button onClick={startBatch} disabled={busy || !!activeRun} loading={commandBusy === 'start'}>
-            {enqueued && commandBusy === null ? 'Starting…' : 'Start batch'}
-          </Button>
-          <Button onClick={stopBatch} disabled={busy || !activeRun} color="red" variant="outline" loading={commandBusy === 'stop'}>
-            {enqueued && commandBusy === null ? 'Stopping…' : 'Stop batch'}
-          </Button>
-        </Group>
-      </Stack>
-    </AnalyticsSectionCard>
+            {commandError && <Text className={styles.errorText}>{commandError}</Text>}
+          </div>
+
+          <Group gap="sm">
+            <Button onClick={startBatch} disabled={busy || !!activeRun} loading={commandBusy === 'start'}>
+              {enqueued && commandBusy === null ? 'Starting…' : 'Start batch'}
+            </Button>
+            <Button onClick={stopBatch} disabled={busy || !activeRun} color="red" variant="outline" loading={commandBusy === 'stop'}>
+              {enqueued && commandBusy === null ? 'Stopping…' : 'Stop batch'}
+            </Button>
+          </Group>
+        </Stack>
+      </AnalyticsSectionCard>
+
+      <FanmassCommandLog commands={commands} onChanged={refreshCommands} describe={describeRunCommand} error={commandsError} />
+    </Stack>
   );
 }
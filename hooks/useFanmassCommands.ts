@@ -0,0 +1,44 @@
+// hooks/useFanmassCommands.ts
+// WHAT: Poll the Fanmass command log for the admin tabs that enqueue commands
+// WHY: A click only enqueues; whether fanmass then applied, rejected or never
+//     picked the command up is only known from its status and timeline
+//     (lib/fanmassCommands.ts). Polled on the same 5s cadence as the snapshot.
+// HOW: GET /api/admin/fanmass/commands filtered by type (and batch, for run
+//     control); refresh() re-reads immediately after an action.
+
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { apiGet } from '@/lib/apiClient';
+import type { FanmassCommand, FanmassCommandType } from '@/lib/fanmassCommands';
+
+const COMMANDS_REFRESH_INTERVAL_MS = 5_000;
+
+export function useFanmassCommands(
+  types: FanmassCommandType[],
+  batchId?: string
+): { commands: FanmassCommand[]; error: string; refresh: () => Promise<void> } {
+  const [commands, setCommands] = useState<FanmassCommand[]>([]);
+  const [error, setError] = useState('');
+  const typeKey = types.join(',');
+
+  const refresh = useCallback(async () => {
+    try {
+      const params = new URLSearchParams({ type: typeKey, limit: '20' });
+      if (batchId) params.set('batchId', batchId);
+      const data = await apiGet<{ success: boolean; data?: { commands: FanmassCommand[] } }>(`/api/admin/fanmass/commands?${params}`);
+      setCommands(data.data?.commands ?? []);
+      setError('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load commands.');
+    }
+  }, [typeKey, batchId]);
+
+  useEffect(() => {
+    void refresh();
+    const timer = setInterval(() => void refresh(), COMMANDS_REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  return { commands, error, refresh };
+}
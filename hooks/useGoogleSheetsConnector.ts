@@ -1,7 +1,7 @@
 import { useCallback, useState } from 'react';
 import { apiGet, apiPost } from '@/lib/apiClient';
 
-export type SyncMode = 'manual' | 'auto';
+export type SyncMode = 'manual' | 'auto' | 'bidirectional';
 
 export interface GoogleSheetsConnectPayload {
   sheetId: string;
@@ -5,6 +5,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import type { Report } from '@/lib/report-resolver';
 import type { Chart } from '@/lib/report-calculator';
+import type { ReportComparisonPayload } from '@/lib/reportComparison';
 import { mapActivityToV2Project, mapEntityToV2Partner } from '@/lib/v3/compatAdapter';
 
 /**
@@ -54,6 +55,8 @@ export interface UseReportDataResult {
   data: ReportData | null;
   loading: boolean;
   error: string | null;
+  // The event has a page password and this visitor has no grant for it yet
+  passwordRequired: boolean;
   refresh: () => Promise<void>;
 }
 
@@ -80,6 +83,7 @@ export function useReportData(slug: string | null): UseReportDataResult {
   const [data, setData] = useState<ReportData | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [passwordRequired, setPasswordRequired] = useState(false);
 
   /**
    * WHAT: Fetch all report data
@@ -94,6 +98,7 @@ export function useReportData(slug: string | null): UseReportDataResult {
 
     setLoading(true);
     setError(null);
+    setPasswordRequired(false);
 
     try {
 
@@ -103,6 +108,14 @@ export function useReportData(slug: string | null): UseReportDataResult {
       });
       const projectData = await projectRes.json();
 
+      // WHAT: A protected event answers 401 PAGE_PASSWORD_REQUIRED (lib/pageAccess.ts)
+      // WHY: The page shows the password / share link prompt instead of falling
+      //     through to the V3 lookup and reporting "not found"
+      if (projectRes.status === 401 && projectData?.code === 'PAGE_PASSWORD_REQUIRED') {
+        setPasswordRequired(true);
+        return;
+      }
+
       if (!projectData.success) {
         // WHAT: Fallback to V3 Activity if V2 Project not found
         // WHY: Support V3-native activities on the same report page
@@ -188,6 +201,7 @@ export function useReportData(slug: string | null): UseReportDataResult {
     data,
     loading,
     error,
+    passwordRequired,
     refresh: fetchData
   };
 }
@@ -222,6 +236,8 @@ export interface PartnerReportData {
   // WHAT: Pre-aggregated stats computed on server (Phase 2 - v12.4.0)
   // WHY: Eliminates client-side aggregation for better performance
   aggregatedStats: Record<string, number | string>;
+  // WHAT: Prior-period stats when the variant is in comparison mode
+  comparison?: ReportComparisonPayload | null;
   report: Report;
   charts: Chart[];
   resolvedFrom: string;
@@ -310,6 +326,7 @@ export function usePartnerReportData(slug: string | null, variantSlug?: string |
         partner: partnerData.partner,
         events: partnerData.events || [],
         aggregatedStats: partnerData.aggregatedStats || {},
+        comparison: partnerData.comparison || null,
         report: partnerData.report,
         charts: chartsData.configurations || chartsData.charts || [], // WHAT: chart-config/public returns 'configurations', fallback to 'charts' for backward compatibility
         resolvedFrom: partnerData.resolvedFrom,
@@ -1,6 +1,7 @@
-// WHAT: Unified report export hook for CSV and PDF exports
+// WHAT: Unified report export hook for CSV, PDF, XLSX and PPTX exports
 // WHY: Centralize export logic to avoid duplication across report pages
-// HOW: Single hook providing CSV and PDF export handlers with comprehensive error handling
+// HOW: Single hook providing export handlers with comprehensive error handling;
+//      XLSX/PPTX are rendered server-side by /api/reports/[slug]/export
 
 'use client';
 
@@ -8,6 +9,7 @@ import { useCallback } from 'react';
 import { exportReportToCSV } from '@/lib/export/csv';
 import { exportPageWithSmartPagination } from '@/lib/export/pdf';
 import type { ProjectStats } from '@/lib/report-calculator';
+import type { ReportSnapshotType } from '@/lib/reportSnapshot';
 
 /**
  * Report entity interface - minimal data needed for export
@@ -42,6 +44,18 @@ export interface UseReportExportOptions {
   
   /** Optional: Report type for logging (default: 'report') */
   reportType?: string;
+
+  /** Optional: Report identity for server-rendered XLSX/PPTX downloads */
+  serverExport?: ServerExportTarget | null;
+}
+
+/**
+ * Report identity understood by /api/reports/[slug]/export
+ */
+export interface ServerExportTarget {
+  slug: string;
+  type: ReportSnapshotType;
+  variant?: string | null;
 }
 
 /**
@@ -54,6 +68,12 @@ export interface UseReportExportReturn {
   /** PDF export handler - pass to ReportHero onExportPDF prop */
   handlePDFExport: () => Promise<void>;
   
+  /** XLSX workbook handler - pass to ReportHero onExportXLSX prop (needs serverExport) */
+  handleXLSXExport: () => Promise<void>;
+  
+  /** PPTX slide deck handler - pass to ReportHero onExportPPTX prop (needs serverExport) */
+  handlePPTXExport: () => Promise<void>;
+  
   /** Whether export is ready (all data available) */
   isExportReady: boolean;
 }
@@ -91,7 +111,8 @@ export function useReportExport(options: UseReportExportOptions): UseReportExpor
     chartResults, 
     charts,
     filenamePrefix,
-    reportType = 'Report'
+    reportType = 'Report',
+    serverExport
   } = options;
 
   // Determine if export is ready
@@ -211,9 +232,53 @@ export function useReportExport(options: UseReportExportOptions): UseReportExpor
     }
   }, [entity, filenamePrefix, reportType]);
 
+  // WHAT: Server-rendered download (XLSX workbook / PPTX deck)
+  // WHY: Editable formats are built from the report snapshot on the server,
+  //      not from the DOM, so they do not depend on the page having rendered
+  // HOW: Fetch /api/reports/[slug]/export (page password cookie applies) and
+  //      save the blob under the server's filename
+  const downloadServerExport = useCallback(async (format: 'xlsx' | 'pptx') => {
+    console.log(`🔵 ${format.toUpperCase()} Export clicked (${reportType})`);
+    if (!serverExport) {
+      console.warn(`⚠️ ${format.toUpperCase()} export needs a report slug`);
+      return;
+    }
+
+    try {
+      const params = new URLSearchParams({ format, type: serverExport.type });
+      if (serverExport.variant && serverExport.variant !== 'default') params.set('variant', serverExport.variant);
+      const response = await fetch(`/api/reports/${encodeURIComponent(serverExport.slug)}/export?${params}`, { cache: 'no-store' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || `HTTP ${response.status}`);
+      }
+
+      const disposition = response.headers.get('content-disposition') || '';
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `report.${format}`;
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = filename;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+      console.log(`✅ ${format.toUpperCase()} export completed successfully`);
+    } catch (error) {
+      console.error(`❌ ${format.toUpperCase()} export failed:`, error);
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      alert(`Failed to export ${format.toUpperCase()}: ${errorMessage}\n\nPlease try again.`);
+    }
+  }, [serverExport, reportType]);
+
+  const handleXLSXExport = useCallback(() => downloadServerExport('xlsx'), [downloadServerExport]);
+  const handlePPTXExport = useCallback(() => downloadServerExport('pptx'), [downloadServerExport]);
+
   return {
     handleCSVExport,
     handlePDFExport,
+    handleXLSXExport,
+    handlePPTXExport,
     isExportReady
   };
 }
@@ -0,0 +1,36 @@
+// hooks/useShareDownloadPermission.ts
+// WHAT: Ask whether this visitor may download the report they are viewing
+// WHY: A recipient share link can be view-only (lib/shareLinks.ts). The export
+//     routes refuse such downloads with 403 either way; this only hides buttons
+//     that would fail.
+// HOW: GET /api/share-links/access once the page data has loaded, i.e. once
+//     the visitor is known to hold a grant. Defaults to allowed, which is the
+//     answer for everyone not on a recipient link.
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { PageType } from '@/lib/pagePassword';
+
+export function useShareDownloadPermission(pageType: PageType, pageId: string | null, enabled = true): { allowDownload: boolean } {
+  const [allowDownload, setAllowDownload] = useState(true);
+
+  useEffect(() => {
+    if (!enabled || !pageId) return;
+    let cancelled = false;
+    const params = new URLSearchParams({ pageType, pageId });
+    fetch(`/api/share-links/access?${params}`, { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        if (!cancelled && data?.success) setAllowDownload(data.allowDownload !== false);
+      })
+      .catch(() => {
+        // Keep the default; the export route still enforces the permission
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pageType, pageId, enabled]);
+
+  return { allowDownload };
+}
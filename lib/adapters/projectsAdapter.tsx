@@ -218,6 +218,18 @@ export const projectsAdapter: AdminPageAdapter<ProjectDTO> = {
                 ) : project.partner2 ? (
                   <div className="w-10 h-10 shrink-0" />
                 ) : null}
+
+                {/* WHAT: Fixture no longer on the original date — set by the post-match backfill */}
+                {project.fixture?.status === 'postponed' && (
+                  <span className="badge badge-warning shrink-0" title="The linked fixture was postponed — check the event date">
+                    Postponed
+                  </span>
+                )}
+                {project.fixture?.status === 'cancelled' && (
+                  <span className="badge badge-danger shrink-0" title="The linked fixture was cancelled">
+                    Cancelled
+                  </span>
+                )}
               </div>
               
               <div className="flex flex-wrap gap-2 mt-2">
@@ -299,7 +311,11 @@ export const projectsAdapter: AdminPageAdapter<ProjectDTO> = {
 
   cardConfig: {
     primaryField: 'eventName',
-    secondaryField: (project) => new Date(project.eventDate).toLocaleDateString(),
+    secondaryField: (project) => {
+      const date = new Date(project.eventDate).toLocaleDateString();
+      const status = project.fixture?.status;
+      return status === 'postponed' || status === 'cancelled' ? `${date} · Fixture ${status}` : date;
+    },
     metaFields: [
       {
         key: 'stats',
@@ -61,6 +61,14 @@ export const adminNavSections: AdminNavSection[] = [
         tourDescription: 'Track what each sponsor still needs before their activation is complete — missing proof, recap status, and follow-up tasks.',
         accentColor: navAccent.warning,
       },
+      {
+        label: 'Partner Portal',
+        path: '/admin/partner-portal',
+        icon: 'badge',
+        description: 'Invite partner contacts to their portal and audit what they viewed.',
+        tourDescription: 'Partner contacts sign in to see only their own events, reports and Bitly results. Invite them here, switch access off, and see who opened or downloaded what.',
+        accentColor: navAccent.secondary,
+      },
       {
         label: 'Quick Add',
         path: '/admin/quick-add',
@@ -151,6 +159,15 @@ export const adminNavSections: AdminNavSection[] = [
         accentColor: navAccent.warning,
         showInAdminWorkspace: false,
       },
+      {
+        label: 'Share Links',
+        path: '/admin/share-links',
+        icon: 'link',
+        description: 'Review per-recipient report links, their views and downloads, and revoke them.',
+        tourDescription: 'Each recipient of a protected report can get their own link with an expiry, a use limit and optional downloads. See who opened what, and cut one recipient off without changing the page password.',
+        accentColor: navAccent.primary,
+        showInAdminWorkspace: false,
+      },
     ],
   },
   {
@@ -249,6 +266,14 @@ export const adminNavSections: AdminNavSection[] = [
         accentColor: navAccent.error,
         showInAdminWorkspace: false,
       },
+      {
+        label: 'Campaign Analytics',
+        path: '/admin/analytics/campaigns',
+        icon: 'ads_click',
+        description: 'Compare Bitly clicks, countries, and referrers by UTM source, medium, and campaign.',
+        accentColor: navAccent.secondary,
+        showInAdminWorkspace: false,
+      },
       {
         label: 'Operations Dashboard',
         path: '/admin/analytics/operations',
@@ -301,6 +326,20 @@ export const adminNavSections: AdminNavSection[] = [
         description: 'Clear caches when operators need fresh runtime or content state.',
         accentColor: navAccent.error,
       },
+      {
+        label: 'Rate Limits',
+        path: '/admin/rate-limits',
+        icon: 'speed',
+        description: 'See throttled clients and unblock them before their window ends.',
+        accentColor: navAccent.warning,
+      },
+      {
+        label: 'Migrations',
+        path: '/admin/migrations',
+        icon: 'storage',
+        description: 'Check which database migrations are applied in each environment.',
+        accentColor: navAccent.info,
+      },
       {
         label: 'Help',
         path: '/admin/help',
@@ -16,6 +16,8 @@ import { debug, warn, error as logError } from './logger';
 export interface APIAuthResult {
   success: boolean;
   user?: AdminUser;
+  // Per-key override of RATE_LIMITS.API_KEY (lib/rateLimit.ts), when set
+  rateLimitPerMinute?: number;
   error?: string;
   errorCode?: string;
 }
@@ -67,9 +69,14 @@ export function parseAuthorizationHeader(request: NextRequest): string | null {
  *   - All attempts logged with redacted tokens (last 4 chars only)
  * 
  * @param token - Bearer token from Authorization header
+ * @param options.trackUsage - Count this as an API call (default true); the
+ *     rate limiter resolves keys without counting them
  * @returns APIAuthResult with user data or error details
  */
-export async function validateAPIKey(token: string): Promise<APIAuthResult> {
+export async function validateAPIKey(
+  token: string,
+  options: { trackUsage?: boolean } = {}
+): Promise<APIAuthResult> {
   // WHAT: Redact token for logging (show last 4 chars only)
   // WHY: Audit trail without exposing full credentials
   const redacted = token.length > 4 ? `****${token.slice(-4)}` : '****';
@@ -106,12 +113,14 @@ export async function validateAPIKey(token: string): Promise<APIAuthResult> {
     
     // WHAT: Update usage tracking (async, don't block response)
     // WHY: Track API calls for audit trail and usage analytics
-    updateAPIUsage(user._id!.toString()).catch(err => {
-      logError('Failed to update API usage', {
-        userId: user._id?.toString(),
-        error: err
+    if (options.trackUsage !== false) {
+      updateAPIUsage(user._id!.toString()).catch(err => {
+        logError('Failed to update API usage', {
+          userId: user._id?.toString(),
+          error: err
+        });
       });
-    });
+    }
     
     debug('API auth successful', {
       userId: user._id?.toString(),
@@ -130,7 +139,8 @@ export async function validateAPIKey(token: string): Promise<APIAuthResult> {
         email: user.email,
         role: user.role,
         permissions: ['read'] // API users are read-only in v1
-      }
+      },
+      rateLimitPerMinute: user.apiRateLimitPerMinute
     };
     
   } catch (err) {
@@ -253,33 +263,41 @@ export async function requireAPIAuth(request: NextRequest): Promise<{
 /**
  * getUserIdForRateLimit
  * WHAT: Extract user ID for rate limiting (IP fallback)
- * WHY: User-based rate limits for authenticated requests, IP for anonymous
+ * WHY: User-based rate limits for authenticated requests, IP for anonymous;
+ *      an admin can set a per-key limit (users.apiRateLimitPerMinute) that
+ *      replaces the default API key limit
  * 
  * @param request - Next.js request object
- * @returns userId string or IP address
+ * @returns `user:<id>` with the key's own limit (if set) for a valid Bearer
+ *          key; the IP address with apiKey false otherwise
  */
-export async function getUserIdForRateLimit(request: NextRequest): Promise<string> {
+export async function getUserIdForRateLimit(
+  request: NextRequest
+): Promise<{ id: string; apiKey: boolean; rateLimitPerMinute?: number }> {
   const token = parseAuthorizationHeader(request);
   
   if (!token) {
     // WHAT: Use IP address for anonymous requests
     // WHY: Rate limit by IP when no authentication
-    return request.headers.get('x-forwarded-for')?.split(',')[0].trim() 
-      || request.headers.get('x-real-ip')
-      || 'unknown';
+    return { id: getRequestIP(request), apiKey: false };
   }
   
   // WHAT: Validate token to get user ID
-  const authResult = await validateAPIKey(token);
+  // WHY: trackUsage off — the route's own auth check counts the call
+  const authResult = await validateAPIKey(token, { trackUsage: false });
   
   if (authResult.success && authResult.user) {
     // WHAT: Use user ID for authenticated requests
     // WHY: Fair usage across multiple IPs (distributed systems)
-    return `user:${authResult.user.id}`;
+    return { id: `user:${authResult.user.id}`, apiKey: true, rateLimitPerMinute: authResult.rateLimitPerMinute };
   }
   
   // WHAT: Fallback to IP for invalid tokens
   // WHY: Still enforce rate limits even for failed auth attempts
+  return { id: getRequestIP(request), apiKey: false };
+}
+
+function getRequestIP(request: NextRequest): string {
   return request.headers.get('x-forwarded-for')?.split(',')[0].trim() 
     || request.headers.get('x-real-ip')
     || 'unknown';
@@ -118,7 +118,9 @@ export async function apiRequest<T = any>(
       
       try {
         const errorData = await response.json();
-        errorMessage = errorData.error || errorData.message || errorMessage;
+        // Some routes nest the message: { error: { code, message } }
+        errorMessage =
+          (typeof errorData.error === 'string' ? errorData.error : errorData.error?.message) || errorData.message || errorMessage;
       } catch {
         // Response not JSON, use default message
       }
@@ -8,13 +8,17 @@
 //     the project. CSRF was the only barrier, and CSRF is not authentication.
 // HOW: Two guards. Most mutations are admin-only. Project updates are not, because
 //     event operators run the editor behind a page password rather than an admin
-//     session — so that guard accepts an admin session OR an edit grant for the
-//     specific project, and nothing else.
+//     session — so that guard accepts a session holding event.stats.write on the
+//     project OR an edit grant for the specific project, and nothing else. A third, requireCapability, is the
+//     authorisation step: it asks lib/authorization.ts whether the user holds a
+//     named capability on the resource the route touches.
 
 import { NextResponse } from 'next/server';
 import { ObjectId } from 'mongodb';
 import { getAdminUser } from './auth';
 import { hasPageAccess } from './pageAccess';
+import { can } from './authorization';
+import type { Capability, Scope } from './capabilities';
 
 function unauthorized(message: string): NextResponse {
   return NextResponse.json(
@@ -34,6 +38,19 @@ export async function requireSession(): Promise<NextResponse | null> {
   return null;
 }
 
+// WHAT: Require a capability on a resource (global when omitted).
+// WHY: 401 without a session, 403 with one that lacks the capability — the
+//     caller can tell "sign in" from "ask an admin for access".
+export async function requireCapability(capability: Capability, resource?: Scope): Promise<NextResponse | null> {
+  const user = await getAdminUser();
+  if (!user) return unauthorized('Sign in to perform this action.');
+  if (await can(user, capability, resource)) return null;
+  return NextResponse.json(
+    { success: false, error: `You do not have the ${capability} permission for this ${resource?.type ?? 'action'}.`, code: 'FORBIDDEN' },
+    { status: 403 }
+  );
+}
+
 // WHAT: Require permission to modify one specific project.
 // WHY: `PUT /api/projects` is how the event editor saves clicker and stats data,
 //     and that editor authenticates by page password, not by admin session
@@ -45,7 +62,7 @@ export async function requireProjectWrite(
   projectId: string
 ): Promise<NextResponse | null> {
   const user = await getAdminUser();
-  if (user) return null;
+  if (user && (await can(user, 'event.stats.write', ObjectId.isValid(projectId) ? { type: 'event', id: projectId } : undefined))) return null;
 
   if (!ObjectId.isValid(projectId)) return unauthorized('Sign in to perform this action.');
 
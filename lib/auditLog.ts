@@ -7,6 +7,28 @@ import { ObjectId } from 'mongodb';
 import { getDb } from './db';
 import type { NextRequest } from 'next/server';
 
+/**
+ * WHAT: Audited write operations
+ * WHY: stats_update entries belong to an event; chart_config_* entries to a
+ *     chart configuration (see lib/chartConfigRevisions.ts), so a changed
+ *     sponsor number can be traced back to the formula edit behind it
+ */
+export type AuditLogAction =
+  | 'stats_update'
+  | 'chart_config_create'
+  | 'chart_config_update'
+  | 'chart_config_restore'
+  | 'chart_config_delete';
+
+/**
+ * Non-event record an entry is about
+ */
+export interface AuditLogResource {
+  type: 'chart_configuration';
+  id: string;
+  label?: string; // e.g. the chartId, readable after the record is deleted
+}
+
 /**
  * Audit log document interface
  */
@@ -14,10 +36,11 @@ export interface AuditLogDoc {
   _id?: ObjectId;
   
   // Context
-  eventId: ObjectId;
-  userId: ObjectId;
+  eventId?: ObjectId;
+  resource?: AuditLogResource;
+  userId: ObjectId | string; // string for admin ids that are not ObjectIds
   userEmail: string;
-  action: 'stats_update';
+  action: AuditLogAction;
   
   // Request metadata
   timestamp: string;
@@ -44,10 +67,11 @@ export interface AuditLogDoc {
  * Parameters for creating an audit log
  */
 export interface CreateAuditLogParams {
-  eventId: string;
+  eventId?: string;
+  resource?: AuditLogResource;
   userId: string;
   userEmail: string;
-  action: 'stats_update';
+  action: AuditLogAction;
   changes: {
     field: string;
     before: any;
@@ -62,6 +86,9 @@ export interface CreateAuditLogParams {
  */
 export interface GetAuditLogsParams {
   eventId?: string;
+  resourceType?: AuditLogResource['type'];
+  resourceId?: string;
+  action?: AuditLogAction;
   userId?: string;
   startDate?: string;
   endDate?: string;
@@ -77,6 +104,10 @@ export interface AuditLogsResult {
   total: number;
 }
 
+function toUserId(userId: string): ObjectId | string {
+  return ObjectId.isValid(userId) ? new ObjectId(userId) : userId;
+}
+
 /**
  * createAuditLog
  * WHAT: Create audit log entry for API write operation
@@ -90,8 +121,9 @@ export async function createAuditLog(params: CreateAuditLogParams): Promise<void
   const collection = db.collection<AuditLogDoc>('api_audit_logs');
   
   const log: AuditLogDoc = {
-    eventId: new ObjectId(params.eventId),
-    userId: new ObjectId(params.userId),
+    ...(params.eventId ? { eventId: new ObjectId(params.eventId) } : {}),
+    ...(params.resource ? { resource: params.resource } : {}),
+    userId: toUserId(params.userId),
     userEmail: params.userEmail,
     action: params.action,
     timestamp: new Date().toISOString(),
@@ -126,8 +158,20 @@ export async function getAuditLogs(params: GetAuditLogsParams = {}): Promise<Aud
     filter.eventId = new ObjectId(params.eventId);
   }
   
+  if (params.resourceType) {
+    filter['resource.type'] = params.resourceType;
+  }
+  
+  if (params.resourceId) {
+    filter['resource.id'] = params.resourceId;
+  }
+  
+  if (params.action) {
+    filter.action = params.action;
+  }
+  
   if (params.userId) {
-    filter.userId = new ObjectId(params.userId);
+    filter.userId = toUserId(params.userId);
   }
   
   // Date range filter
@@ -170,6 +214,7 @@ export async function createAuditLogIndexes(): Promise<void> {
   const collection = db.collection('api_audit_logs');
   
   await collection.createIndex({ eventId: 1, timestamp: -1 });
+  await collection.createIndex({ 'resource.type': 1, 'resource.id': 1, timestamp: -1 });
   await collection.createIndex({ userId: 1, timestamp: -1 });
   await collection.createIndex({ timestamp: -1 });
   await collection.createIndex({ action: 1, timestamp: -1 });
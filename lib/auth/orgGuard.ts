@@ -3,17 +3,18 @@
 // WHY: Ensures strict data isolation in multi-tenant V3 hierarchy
 
 import { getAdminUser, AdminUser } from '../auth';
+import { can } from '../authorization';
 
 /**
  * validateOrganizationAccess
  * WHAT: Verifies if the current user has access to a specific organization.
  * WHY: Enforces multi-tenancy at the API layer.
- * 
- * RULES:
+ *
+ * RULES (the organization.view capability, see lib/capabilities.ts):
  * 1. superadmin: Always has access to all organizations.
- * 2. admin: Access granted ONLY if organizationId is in user.organizationIds.
- * 3. others: Access denied.
- * 
+ * 2. others: Access granted ONLY if organizationId is in user.organizationIds, or a
+ *    role binding holding organization.view covers the organization.
+ *
  * @param organizationId The ID of the organization being accessed
  * @returns The authenticated user if access is granted, otherwise null
  */
@@ -21,17 +22,5 @@ export async function validateOrganizationAccess(organizationId: string): Promis
   const user = await getAdminUser();
   if (!user) return null;
 
-  // WHAT: Superadmin bypass
-  // WHY: System administrators need global visibility
-  if (user.role === 'superadmin') {
-    return user;
-  }
-
-  // WHAT: Explicit organization assignment check
-  // WHY: Non-superadmins must be restricted to their assigned data islands
-  if (user.organizationIds && user.organizationIds.includes(organizationId)) {
-    return user;
-  }
-
-  return null;
+  return (await can(user, 'organization.view', { type: 'organization', id: organizationId })) ? user : null;
 }
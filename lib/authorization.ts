@@ -0,0 +1,254 @@
+// lib/authorization.ts
+// WHAT: Server side of capability authorization (lib/capabilities.ts) — custom
+//     roles, role bindings, which scopes contain a resource, and the one check
+//     routes use: can(user, capability, resource)
+// HOW: A user's grants are their global role's capabilities plus every binding.
+//     Bindings come from three places:
+//     - role_bindings: explicit grants of a role on a global/organization/partner/event scope;
+//     - users.organizationIds: read as a viewer binding on each organization;
+//     - project_permissions (app/api/admin/permissions): read as an event binding
+//       with the same owner/editor/viewer role.
+//     A binding on an organization covers its partners and their events; a
+//     binding on a partner covers the partner's events.
+
+import { ObjectId, type Db } from 'mongodb';
+import { getDb } from './db';
+import type { AdminUser } from './auth';
+import {
+  BUILT_IN_ROLES,
+  CAPABILITIES,
+  GLOBAL_ROLE_CAPABILITIES,
+  GLOBAL_SCOPE,
+  collectGrants,
+  evaluate,
+  matchingGrants,
+  validateRoleInput,
+  validateScope,
+  type Capability,
+  type CapabilityGrant,
+  type RoleBinding,
+  type RoleDefinition,
+  type Scope,
+} from './capabilities';
+
+export const ROLES_COLLECTION = 'access_roles';
+export const ROLE_BINDINGS_COLLECTION = 'role_bindings';
+
+export type AuthorizationSubject = Pick<AdminUser, 'id' | 'role' | 'organizationIds'>;
+
+export interface CapabilityReport {
+  capability: Capability;
+  description: string;
+  allowed: boolean;
+  grants: CapabilityGrant[];
+}
+
+export interface PermissionReport {
+  resource: Scope;
+  lineage: Scope[];
+  bindings: RoleBinding[];
+  capabilities: CapabilityReport[];
+}
+
+function fail(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+function idOf(value: unknown): string | null {
+  if (value instanceof ObjectId) return value.toHexString();
+  if (typeof value === 'string' && ObjectId.isValid(value)) return value.toLowerCase();
+  if (value && typeof value === 'object' && '_id' in value) return idOf((value as { _id: unknown })._id);
+  return null;
+}
+
+/**
+ * WHAT: Built-in and custom roles by key
+ */
+export async function loadRoles(db: Db): Promise<Map<string, RoleDefinition>> {
+  const roles = new Map(BUILT_IN_ROLES.map((role) => [role.key, role]));
+  const custom = await db.collection(ROLES_COLLECTION).find({}).sort({ name: 1 }).toArray();
+  for (const doc of custom) {
+    roles.set(doc.key, { key: doc.key, name: doc.name, description: doc.description, capabilities: doc.capabilities || [], builtIn: false });
+  }
+  return roles;
+}
+
+/**
+ * WHAT: Every binding that applies to a user, legacy sources included
+ */
+export async function loadBindings(db: Db, subject: AuthorizationSubject): Promise<RoleBinding[]> {
+  const stored = await db.collection(ROLE_BINDINGS_COLLECTION).find({ userId: subject.id }).toArray();
+  const bindings: RoleBinding[] = stored.map((doc) => ({
+    id: doc._id.toString(),
+    userId: doc.userId,
+    roleKey: doc.roleKey,
+    scope: doc.scope,
+    grantedAt: doc.grantedAt,
+    grantedBy: doc.grantedBy,
+  }));
+
+  for (const organizationId of subject.organizationIds || []) {
+    bindings.push({ userId: subject.id, roleKey: 'viewer', scope: { type: 'organization', id: organizationId.toLowerCase() }, legacy: 'organizationIds' });
+  }
+
+  const projectPermissions = await db.collection('project_permissions').find({ userId: subject.id }).toArray();
+  for (const permission of projectPermissions) {
+    const projectId = idOf(permission.projectId);
+    if (!projectId) continue;
+    bindings.push({
+      userId: subject.id,
+      roleKey: permission.role,
+      scope: { type: 'event', id: projectId },
+      grantedAt: permission.grantedAt,
+      grantedBy: permission.grantedBy,
+      legacy: 'project_permissions',
+    });
+  }
+  return bindings;
+}
+
+/**
+ * WHAT: A resource's scope followed by every scope that contains it
+ * NOTE: A resource that does not exist has only itself and the global scope
+ */
+export async function resourceLineage(db: Db, resource: Scope): Promise<Scope[]> {
+  if (resource.type === 'global' || !resource.id || !ObjectId.isValid(resource.id)) return [GLOBAL_SCOPE];
+  const lineage: Scope[] = [{ type: resource.type, id: resource.id.toLowerCase() }];
+  if (resource.type === 'organization') return [...lineage, GLOBAL_SCOPE];
+
+  let partnerIds: string[] = [];
+  if (resource.type === 'partner') {
+    partnerIds = [resource.id.toLowerCase()];
+  } else {
+    const project = await db.collection('projects').findOne(
+      { _id: new ObjectId(resource.id) },
+      { projection: { partner1Id: 1, partner2Id: 1, partner1: 1, partner2: 1 } }
+    );
+    if (project) {
+      partnerIds = Array.from(
+        new Set([project.partner1Id, project.partner2Id, project.partner1, project.partner2].map(idOf).filter((id): id is string => !!id))
+      );
+      lineage.push(...partnerIds.map((id) => ({ type: 'partner' as const, id })));
+    }
+  }
+
+  if (partnerIds.length) {
+    const partners = await db
+      .collection('partners')
+      .find({ _id: { $in: partnerIds.map((id) => new ObjectId(id)) } }, { projection: { organizationId: 1 } })
+      .toArray();
+    const organizationIds = new Set(partners.map((partner) => idOf(partner.organizationId)).filter((id): id is string => !!id));
+    lineage.push(...Array.from(organizationIds, (id) => ({ type: 'organization' as const, id })));
+  }
+  return [...lineage, GLOBAL_SCOPE];
+}
+
+export async function loadGrants(db: Db, subject: AuthorizationSubject): Promise<CapabilityGrant[]> {
+  const [bindings, roles] = await Promise.all([loadBindings(db, subject), loadRoles(db)]);
+  return collectGrants(subject.role, bindings, roles);
+}
+
+/**
+ * WHAT: Whether a user holds a capability on a resource (global when omitted)
+ * WHY: The single authorization check for API routes and navigation
+ * NOTE: Settled without a database read when the global role already grants it
+ */
+export async function can(user: AuthorizationSubject | null, capability: Capability, resource: Scope = GLOBAL_SCOPE): Promise<boolean> {
+  if (!user) return false;
+  if ((GLOBAL_ROLE_CAPABILITIES[user.role] || []).includes(capability)) return true;
+
+  const db = await getDb();
+  const grants = await loadGrants(db, user);
+  if (!grants.some((grant) => grant.capability === capability)) return false;
+  return evaluate(grants, capability, await resourceLineage(db, resource));
+}
+
+/**
+ * WHAT: Every capability, whether the user holds it on a resource and why
+ * WHY: The Users page permissions inspector
+ */
+export async function inspectPermissions(db: Db, subject: AuthorizationSubject, resource: Scope = GLOBAL_SCOPE): Promise<PermissionReport> {
+  const [bindings, roles, lineage] = await Promise.all([loadBindings(db, subject), loadRoles(db), resourceLineage(db, resource)]);
+  const grants = collectGrants(subject.role, bindings, roles);
+  const capabilities = (Object.keys(CAPABILITIES) as Capability[]).map((capability) => {
+    const matched = matchingGrants(grants, capability, lineage);
+    return { capability, description: CAPABILITIES[capability], allowed: matched.length > 0, grants: matched };
+  });
+  return { resource, lineage, bindings, capabilities };
+}
+
+/**
+ * WHAT: Create or update a custom role
+ * @throws Error with status 400 when invalid, 409 when creating a key that exists
+ */
+export async function saveRole(db: Db, input: unknown, mode: 'create' | 'update', savedBy: string): Promise<RoleDefinition> {
+  const role = validateRoleInput(input);
+  const collection = db.collection(ROLES_COLLECTION);
+  const now = new Date().toISOString();
+
+  if (mode === 'create') {
+    if (await collection.findOne({ key: role.key })) throw fail(`Role "${role.key}" already exists`, 409);
+    await collection.insertOne({ ...role, createdAt: now, createdBy: savedBy, updatedAt: now });
+  } else {
+    const result = await collection.updateOne(
+      { key: role.key },
+      { $set: { name: role.name, description: role.description ?? null, capabilities: role.capabilities, updatedAt: now, updatedBy: savedBy } }
+    );
+    if (result.matchedCount === 0) throw fail(`Role "${role.key}" not found`, 404);
+  }
+  return { ...role, builtIn: false };
+}
+
+/**
+ * WHAT: Delete a custom role
+ * @throws Error with status 409 while the role is still bound to anyone
+ */
+export async function deleteRole(db: Db, key: string): Promise<void> {
+  if (BUILT_IN_ROLES.some((role) => role.key === key)) throw fail(`"${key}" is a built-in role`, 400);
+  const bound = await db.collection(ROLE_BINDINGS_COLLECTION).countDocuments({ roleKey: key });
+  if (bound > 0) throw fail(`Role "${key}" is bound to ${bound} user scope${bound === 1 ? '' : 's'}; remove those bindings first`, 409);
+  const result = await db.collection(ROLES_COLLECTION).deleteOne({ key });
+  if (result.deletedCount === 0) throw fail(`Role "${key}" not found`, 404);
+}
+
+/**
+ * WHAT: Bind a role to a user on a scope (idempotent)
+ * @throws Error with status 400 for an unknown role or invalid scope, 404 for an unknown user or scope target
+ */
+export async function grantRole(db: Db, input: { userId?: unknown; roleKey?: unknown; scope?: unknown }, grantedBy: string): Promise<RoleBinding> {
+  const { userId, roleKey } = input;
+  if (typeof userId !== 'string' || !ObjectId.isValid(userId)) throw fail('userId must be a user id', 400);
+  if (typeof roleKey !== 'string' || !(await loadRoles(db)).has(roleKey)) throw fail(`Unknown role "${String(roleKey)}"`, 400);
+  const scope = validateScope(input.scope);
+
+  if (!(await db.collection('users').findOne({ _id: new ObjectId(userId) }, { projection: { _id: 1 } }))) {
+    throw fail('User not found', 404);
+  }
+  if (scope.type !== 'global') {
+    const collection = scope.type === 'event' ? 'projects' : scope.type === 'partner' ? 'partners' : 'organizations';
+    if (!(await db.collection(collection).findOne({ _id: new ObjectId(scope.id) }, { projection: { _id: 1 } }))) {
+      throw fail(`${scope.type} ${scope.id} not found`, 404);
+    }
+  }
+
+  const grantedAt = new Date().toISOString();
+  const result = await db.collection(ROLE_BINDINGS_COLLECTION).findOneAndUpdate(
+    { userId, roleKey, 'scope.type': scope.type, 'scope.id': scope.id ?? null },
+    { $setOnInsert: { userId, roleKey, scope: { type: scope.type, id: scope.id ?? null }, grantedAt, grantedBy } },
+    { upsert: true, returnDocument: 'after' }
+  );
+  return {
+    id: result?._id.toString(),
+    userId,
+    roleKey,
+    scope,
+    grantedAt: result?.grantedAt ?? grantedAt,
+    grantedBy: result?.grantedBy ?? grantedBy,
+  };
+}
+
+export async function revokeBinding(db: Db, bindingId: string): Promise<void> {
+  if (!ObjectId.isValid(bindingId)) throw fail('Invalid binding id', 400);
+  const result = await db.collection(ROLE_BINDINGS_COLLECTION).deleteOne({ _id: new ObjectId(bindingId) });
+  if (result.deletedCount === 0) throw fail('Binding not found', 404);
+}
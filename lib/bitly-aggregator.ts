@@ -18,6 +18,7 @@
 import { ObjectId } from 'mongodb';
 import { getDb } from './db';
 import type { BitlyLinkDocument } from './bitly-db.types';
+import { attributeTimeseries, metricsAttribution } from './bitly-attribution';
 import type {
   AggregationOptions,
   AggregatedMetricsResult,
@@ -33,7 +34,8 @@ import type {
  * 
  * WHAT:
  * - Fetches raw Bitly link data from bitly_links collection
- * - Filters timeseries by startDate/endDate (null = unbounded)
+ * - Filters timeseries by startDate/endDate (null = unbounded), or credits it
+ *   by the association's attribution model when one is given
  * - Aggregates clicks, countries, referrers within date range
  * - Returns structured metrics ready for caching
  * 
@@ -44,7 +46,7 @@ import type {
 export async function aggregateMetricsByDateRange(
   options: AggregationOptions
 ): Promise<AggregatedMetricsResult> {
-  const { bitlyLinkId, startDate, endDate, includeTimeseries = true } = options;
+  const { bitlyLinkId, startDate, endDate, includeTimeseries = true, attribution } = options;
 
   // Fetch raw Bitly link document with all analytics data
   const db = await getDb();
@@ -56,21 +58,21 @@ export async function aggregateMetricsByDateRange(
     throw new Error(`Bitly link not found: ${bitlyLinkId.toString()}`);
   }
 
-  // Filter timeseries data by date range
+  // Filter timeseries data by date range, or credit it by attribution model
   // WHY: Timeseries is the foundation - all other metrics are derived from filtered dates
-  const filteredTimeseries = filterTimeseriesByDateRange(
-    linkDoc.clicks_timeseries || [],
-    startDate,
-    endDate
-  );
-
-  // Extract date strings for matching against other data
-  // WHY: Some analytics data (geo, referrers) may have timestamps we need to filter
-  const dateSet = new Set(filteredTimeseries.map((d) => d.date));
-
-  // Calculate total clicks from filtered timeseries
-  // WHY: Sum of daily clicks = total clicks for the period
-  const totalClicks = filteredTimeseries.reduce((sum, day) => sum + day.clicks, 0);
+  const timeseries = linkDoc.clicks_timeseries || [];
+  let filteredTimeseries: Array<{ date: string; clicks: number }>;
+  let totalClicks: number;
+  if (attribution) {
+    // WHAT: Models can credit part of a day; the total is rounded once, days for display
+    const attributed = attributeTimeseries(timeseries, { ...attribution.target, startDate, endDate }, attribution.peers);
+    filteredTimeseries = attributed.daily.map((day) => ({ date: day.date, clicks: Math.round(day.clicks) }));
+    totalClicks = Math.round(attributed.total);
+  } else {
+    filteredTimeseries = filterTimeseriesByDateRange(timeseries, startDate, endDate);
+    // Sum of daily clicks = total clicks for the period
+    totalClicks = filteredTimeseries.reduce((sum, day) => sum + day.clicks, 0);
+  }
 
   // Estimate unique clicks proportionally
   // WHY: Bitly doesn't provide daily unique clicks, so we estimate based on
@@ -120,6 +122,15 @@ export async function aggregateMetricsByDateRange(
     browserClicks,
     dailyClicks: includeTimeseries ? filteredTimeseries : [],
   };
+  if (attribution) {
+    const linkClicks = timeseries.reduce((sum, day) => sum + day.clicks, 0);
+    metrics.attribution = metricsAttribution(
+      { ...attribution.target, startDate, endDate },
+      attribution.peers,
+      totalClicks,
+      linkClicks
+    );
+  }
 
   return metrics;
 }
@@ -0,0 +1,215 @@
+// lib/bitly-attribution.ts
+// WHAT: Attribution models for a Bitly link shared across events — which of the
+//     link's daily clicks count for one link-project association
+// WHY: The only model was contiguous date ranges (lib/bitly-date-calculator.ts):
+//     a link reused for a weekly match series credits everything between two
+//     events to the earlier one. Admins now pick a model per association:
+//     - time_window (default): clicks inside the association's startDate/endDate;
+//     - decay: clicks within windowDays of the event date, weighted down by
+//       distance (halving every halfLifeDays) and shared with other decay
+//       associations of the link on the same day;
+//     - even_split: clicks within windowDays of the event date, divided evenly
+//       among the link's even_split associations covering that day;
+//     - manual: a fixed percentage of all of the link's clicks.
+// NOTE: Associations compete only with peers on the same model; mixing models on
+//     one link can credit a click to more than one event. The explanation stored
+//     with the metrics says which model produced the numbers.
+
+import type { BitlyAttribution, BitlyAttributionModel, BitlyMetricsAttribution } from './bitly-junction.types';
+
+export const ATTRIBUTION_MODELS: readonly BitlyAttributionModel[] = ['time_window', 'decay', 'even_split', 'manual'];
+
+export const ATTRIBUTION_MODEL_LABELS: Record<BitlyAttributionModel, string> = {
+  time_window: 'Time window',
+  decay: 'Decay around event date',
+  even_split: 'Even split across overlapping events',
+  manual: 'Manual percentage',
+};
+
+export const DEFAULT_ATTRIBUTION_WINDOW_DAYS = 7;
+export const DEFAULT_DECAY_HALF_LIFE_DAYS = 2;
+export const MAX_ATTRIBUTION_WINDOW_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * WHAT: One association as the models see it
+ * NOTE: startDate/endDate are only used by time_window
+ */
+export interface AttributionTarget {
+  projectId: string;
+  eventDate: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  attribution?: BitlyAttribution;
+}
+
+export interface AttributedTimeseries {
+  // Fractional credit per day; callers round for display
+  daily: Array<{ date: string; clicks: number }>;
+  total: number;
+}
+
+function modelOf(target: AttributionTarget): BitlyAttributionModel {
+  return target.attribution?.model ?? 'time_window';
+}
+
+function windowDays(target: AttributionTarget): number {
+  return target.attribution?.windowDays ?? DEFAULT_ATTRIBUTION_WINDOW_DAYS;
+}
+
+// Whole days between two YYYY-MM-DD dates (absolute)
+function dayDistance(a: string, b: string): number {
+  return Math.abs(Math.round((Date.parse(a.slice(0, 10)) - Date.parse(b.slice(0, 10))) / DAY_MS));
+}
+
+// decay weight of `target` on `date`, 0 outside its window
+function decayWeight(target: AttributionTarget, date: string): number {
+  if (!target.eventDate) return 0;
+  const distance = dayDistance(date, target.eventDate);
+  if (distance > windowDays(target)) return 0;
+  const halfLife = target.attribution?.halfLifeDays ?? DEFAULT_DECAY_HALF_LIFE_DAYS;
+  return Math.pow(0.5, distance / halfLife);
+}
+
+function inEventWindow(target: AttributionTarget, date: string): boolean {
+  return !!target.eventDate && dayDistance(date, target.eventDate) <= windowDays(target);
+}
+
+function inDateRange(target: AttributionTarget, date: string): boolean {
+  if (target.startDate && date < target.startDate.substring(0, 10)) return false;
+  if (target.endDate && date > target.endDate.substring(0, 10)) return false;
+  return true;
+}
+
+/**
+ * WHAT: Share (0..1) of one day's clicks credited to `target`
+ * @param peers - all associations of the same link, `target` included or not
+ */
+export function attributionShare(target: AttributionTarget, peers: AttributionTarget[], date: string): number {
+  const model = modelOf(target);
+  const samePeers = [target, ...peers.filter((peer) => peer.projectId !== target.projectId && modelOf(peer) === model)];
+
+  switch (model) {
+    case 'manual':
+      return Math.min(Math.max(target.attribution?.percent ?? 0, 0), 100) / 100;
+    case 'decay': {
+      const weight = decayWeight(target, date);
+      if (weight === 0) return 0;
+      const total = samePeers.reduce((sum, peer) => sum + decayWeight(peer, date), 0);
+      // Alone on a day it keeps its discounted weight; crowded days are shared
+      return weight / Math.max(total, 1);
+    }
+    case 'even_split': {
+      if (!inEventWindow(target, date)) return 0;
+      return 1 / samePeers.filter((peer) => inEventWindow(peer, date)).length;
+    }
+    default:
+      return inDateRange(target, date) ? 1 : 0;
+  }
+}
+
+/**
+ * WHAT: The part of a link's daily clicks credited to `target`
+ */
+export function attributeTimeseries(
+  timeseries: Array<{ date: string; clicks: number }>,
+  target: AttributionTarget,
+  peers: AttributionTarget[]
+): AttributedTimeseries {
+  const daily: AttributedTimeseries['daily'] = [];
+  let total = 0;
+  for (const day of timeseries) {
+    const share = attributionShare(target, peers, day.date.slice(0, 10));
+    if (share <= 0) continue;
+    const clicks = day.clicks * share;
+    daily.push({ date: day.date, clicks });
+    total += clicks;
+  }
+  return { daily, total };
+}
+
+/**
+ * WHAT: Plain-language description of how an association's clicks were counted
+ * WHY: Shown next to the numbers so partners can see how they were derived
+ */
+export function describeAttribution(target: AttributionTarget, peers: AttributionTarget[]): string {
+  const model = modelOf(target);
+  const window = windowDays(target);
+  const samePeers = peers.filter((peer) => peer.projectId !== target.projectId && modelOf(peer) === model).length;
+  const shared = samePeers > 0 ? `, shared with ${samePeers} other event${samePeers === 1 ? '' : 's'} on overlapping days` : '';
+
+  switch (model) {
+    case 'manual':
+      return `${target.attribution?.percent ?? 0}% of all clicks on this link (manual split)`;
+    case 'decay': {
+      const halfLife = target.attribution?.halfLifeDays ?? DEFAULT_DECAY_HALF_LIFE_DAYS;
+      return `Clicks within ${window} days of the event date, weighted down by distance (half weight every ${halfLife} days)${shared}`;
+    }
+    case 'even_split':
+      return `Clicks within ${window} days of the event date, split evenly${shared}`;
+    default: {
+      const from = target.startDate ? target.startDate.slice(0, 10) : 'the first click';
+      const to = target.endDate ? target.endDate.slice(0, 10) : 'today';
+      return `All clicks from ${from} to ${to}`;
+    }
+  }
+}
+
+/**
+ * WHAT: The `attribution` block stored with cached metrics
+ */
+export function metricsAttribution(
+  target: AttributionTarget,
+  peers: AttributionTarget[],
+  attributedClicks: number,
+  linkClicks: number
+): BitlyMetricsAttribution {
+  return {
+    model: modelOf(target),
+    explanation: describeAttribution(target, peers),
+    linkClicks,
+    share: linkClicks > 0 ? Math.round((attributedClicks / linkClicks) * 1000) / 1000 : 0,
+  };
+}
+
+/**
+ * WHAT: Validate an attribution setting from the API
+ * @param otherManualPercent - sum of the link's other manual associations
+ * @throws Error with status 400 when invalid
+ */
+export function validateAttribution(input: unknown, otherManualPercent = 0): BitlyAttribution {
+  const fail = (message: string) => Object.assign(new Error(message), { status: 400 });
+  if (!input || typeof input !== 'object') throw fail('attribution must be an object');
+  const { model, windowDays: window, halfLifeDays, percent } = input as Record<string, unknown>;
+
+  if (!ATTRIBUTION_MODELS.includes(model as BitlyAttributionModel)) {
+    throw fail(`attribution.model must be one of: ${ATTRIBUTION_MODELS.join(', ')}`);
+  }
+  const attribution: BitlyAttribution = { model: model as BitlyAttributionModel };
+
+  if (model === 'decay' || model === 'even_split') {
+    if (window !== undefined) {
+      if (!Number.isInteger(window) || (window as number) < 0 || (window as number) > MAX_ATTRIBUTION_WINDOW_DAYS) {
+        throw fail(`attribution.windowDays must be a whole number from 0 to ${MAX_ATTRIBUTION_WINDOW_DAYS}`);
+      }
+      attribution.windowDays = window as number;
+    }
+  }
+  if (model === 'decay' && halfLifeDays !== undefined) {
+    if (typeof halfLifeDays !== 'number' || !(halfLifeDays > 0) || halfLifeDays > MAX_ATTRIBUTION_WINDOW_DAYS) {
+      throw fail('attribution.halfLifeDays must be a positive number of days');
+    }
+    attribution.halfLifeDays = halfLifeDays;
+  }
+  if (model === 'manual') {
+    if (typeof percent !== 'number' || !Number.isFinite(percent) || percent < 0 || percent > 100) {
+      throw fail('attribution.percent must be a number from 0 to 100');
+    }
+    if (otherManualPercent + percent > 100) {
+      throw fail(`Manual splits on this link would total ${otherManualPercent + percent}% (other events already have ${otherManualPercent}%)`);
+    }
+    attribution.percent = percent;
+  }
+  return attribution;
+}
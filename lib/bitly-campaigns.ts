@@ -0,0 +1,356 @@
+// lib/bitly-campaigns.ts
+// WHAT: UTM campaign dimension for Bitly analytics — links grouped by
+//     utm_source / utm_medium / utm_campaign, with clicks, countries and referrers
+//     per campaign across partners and events, and clicks per period for comparison
+// WHY: extractCampaign (lib/bitly.ts) stored each link's UTM parameters but nothing
+//     read them; "how did the summer campaign do across all partners" meant
+//     exporting links by hand.
+// HOW: Clicks come from each link's daily series inside the requested range.
+//     Countries and referrers are lifetime totals in Bitly, so they are scaled by
+//     the link's share of clicks in range (as lib/bitly-aggregator.ts does).
+//     Per-event campaign chart variables (bitlyCampaign1..5) are built from the
+//     event's cached association metrics, so attribution models apply.
+
+import { ObjectId, type Db } from 'mongodb';
+import { getDb } from './db';
+import { extractCampaign } from './bitly';
+import type { BitlyCampaign } from './bitly.types';
+import type { BitlyLinkDocument } from './bitly-db.types';
+import type { BitlyProjectLink } from './bitly-junction.types';
+
+export type CampaignField = 'source' | 'medium' | 'campaign';
+export type CampaignInterval = 'day' | 'week' | 'month';
+
+export const CAMPAIGN_FIELDS: readonly CampaignField[] = ['source', 'medium', 'campaign'];
+export const CAMPAIGN_INTERVALS: readonly CampaignInterval[] = ['day', 'week', 'month'];
+
+// Links without a UTM value group under this label, as in Google Analytics
+export const CAMPAIGN_NOT_SET = '(not set)';
+
+// Top campaigns written to project stats as chart variables
+export const CAMPAIGN_CHART_SLOTS = 5;
+
+const TOP_BREAKDOWN = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type CampaignIdentity = Record<CampaignField, string>;
+
+export type CampaignLinkInput = Pick<
+  BitlyLinkDocument,
+  '_id' | 'long_url' | 'campaign' | 'clicks_timeseries' | 'click_summary' | 'geo' | 'referrers' | 'referring_domains'
+> & {
+  projectIds: string[];
+  partnerIds: string[];
+};
+
+export interface CampaignRow {
+  key: string;
+  // Only the grouped fields are set
+  identity: Partial<CampaignIdentity>;
+  clicks: number;
+  links: number;
+  events: number;
+  partners: number;
+  topCountries: Array<{ country: string; clicks: number }>;
+  topReferrers: Array<{ domain: string; clicks: number }>;
+  // Clicks per period, aligned with CampaignAnalytics.periods
+  series: number[];
+}
+
+export interface CampaignAnalytics {
+  groupBy: CampaignField[];
+  interval: CampaignInterval;
+  startDate: string | null;
+  endDate: string | null;
+  periods: string[];
+  campaigns: CampaignRow[];
+  totals: { clicks: number; links: number; campaigns: number };
+}
+
+export interface CampaignAnalyticsOptions {
+  groupBy?: CampaignField[];
+  interval?: CampaignInterval;
+  startDate?: string | null;
+  endDate?: string | null;
+  limit?: number;
+}
+
+function normalizeValue(value: string | undefined): string {
+  const trimmed = value?.trim().toLowerCase();
+  return trimmed ? trimmed : CAMPAIGN_NOT_SET;
+}
+
+/**
+ * WHAT: A link's UTM values, lower-cased; CAMPAIGN_NOT_SET when missing
+ * NOTE: Falls back to parsing long_url for links stored before campaigns were extracted
+ */
+export function campaignIdentity(campaign: BitlyCampaign | undefined, longUrl?: string): CampaignIdentity {
+  const stored = campaign && Object.values(campaign).some(Boolean) ? campaign : longUrl ? extractCampaign(longUrl) : {};
+  return {
+    source: normalizeValue(stored.utm_source),
+    medium: normalizeValue(stored.utm_medium),
+    campaign: normalizeValue(stored.utm_campaign),
+  };
+}
+
+export function campaignKey(identity: CampaignIdentity, groupBy: CampaignField[]): string {
+  return groupBy.map((field) => identity[field]).join(' / ');
+}
+
+/**
+ * WHAT: The period a day falls in — YYYY-MM-DD (day), Monday's date (week) or YYYY-MM (month)
+ */
+export function periodOf(date: string, interval: CampaignInterval): string {
+  const day = date.slice(0, 10);
+  if (interval === 'month') return day.slice(0, 7);
+  if (interval === 'week') {
+    const ms = Date.parse(day);
+    const weekday = (new Date(ms).getUTCDay() + 6) % 7; // Monday = 0
+    return new Date(ms - weekday * DAY_MS).toISOString().slice(0, 10);
+  }
+  return day;
+}
+
+// Every period from the first to the last date, so series line up
+function periodRange(first: string, last: string, interval: CampaignInterval): string[] {
+  const periods: string[] = [];
+  for (let ms = Date.parse(first.slice(0, 10)); ms <= Date.parse(last.slice(0, 10)); ms += DAY_MS) {
+    const period = periodOf(new Date(ms).toISOString(), interval);
+    if (periods[periods.length - 1] !== period) periods.push(period);
+  }
+  return periods;
+}
+
+function mergeInto(target: Map<string, number>, key: string, clicks: number) {
+  target.set(key, (target.get(key) ?? 0) + clicks);
+}
+
+function top(map: Map<string, number>, n: number) {
+  return Array.from(map.entries())
+    .map(([key, clicks]) => [key, Math.round(clicks)] as const)
+    .filter(([, clicks]) => clicks > 0)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, n);
+}
+
+/**
+ * WHAT: Group links into campaigns and aggregate them over a date range
+ * @param links - links with the events and partners they belong to
+ */
+export function aggregateCampaigns(links: CampaignLinkInput[], options: CampaignAnalyticsOptions = {}): CampaignAnalytics {
+  const groupBy = options.groupBy?.length ? options.groupBy : (['campaign'] as CampaignField[]);
+  const interval = options.interval ?? 'day';
+  const startDate = options.startDate?.slice(0, 10) ?? null;
+  const endDate = options.endDate?.slice(0, 10) ?? null;
+  const inRange = (date: string) => (!startDate || date >= startDate) && (!endDate || date <= endDate);
+
+  type Accumulator = {
+    identity: Partial<CampaignIdentity>;
+    clicks: number;
+    links: number;
+    events: Set<string>;
+    partners: Set<string>;
+    countries: Map<string, number>;
+    referrers: Map<string, number>;
+    byPeriod: Map<string, number>;
+  };
+  const groups = new Map<string, Accumulator>();
+  let firstDate: string | null = null;
+  let lastDate: string | null = null;
+
+  for (const link of links) {
+    const identity = campaignIdentity(link.campaign, link.long_url);
+    const key = campaignKey(identity, groupBy);
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        identity: Object.fromEntries(groupBy.map((field) => [field, identity[field]])),
+        clicks: 0,
+        links: 0,
+        events: new Set(),
+        partners: new Set(),
+        countries: new Map(),
+        referrers: new Map(),
+        byPeriod: new Map(),
+      };
+      groups.set(key, group);
+    }
+
+    const series = link.clicks_timeseries || [];
+    let clicksInRange = 0;
+    for (const day of series) {
+      const date = day.date.slice(0, 10);
+      if (!inRange(date)) continue;
+      clicksInRange += day.clicks;
+      mergeInto(group.byPeriod, periodOf(date, interval), day.clicks);
+      if (!firstDate || date < firstDate) firstDate = date;
+      if (!lastDate || date > lastDate) lastDate = date;
+    }
+
+    group.links++;
+    group.clicks += clicksInRange;
+    link.projectIds.forEach((id) => group!.events.add(id));
+    link.partnerIds.forEach((id) => group!.partners.add(id));
+
+    // Lifetime breakdowns scaled to the clicks in range
+    const lifetime = link.click_summary?.total || series.reduce((sum, day) => sum + day.clicks, 0);
+    const ratio = lifetime > 0 ? clicksInRange / lifetime : 0;
+    if (ratio > 0) {
+      for (const c of link.geo?.countries ?? []) mergeInto(group.countries, c.country, c.clicks * ratio);
+      const referrers = link.referring_domains?.length
+        ? link.referring_domains.map((r) => ({ domain: r.domain, clicks: r.clicks }))
+        : (link.referrers ?? []).map((r) => ({ domain: r.referrer, clicks: r.clicks }));
+      for (const r of referrers) mergeInto(group.referrers, r.domain || 'unknown', r.clicks * ratio);
+    }
+  }
+
+  const periods =
+    startDate || endDate || firstDate
+      ? periodRange(startDate ?? firstDate ?? endDate!, endDate ?? lastDate ?? startDate!, interval)
+      : [];
+
+  const campaigns: CampaignRow[] = Array.from(groups.entries())
+    .map(([key, group]) => ({
+      key,
+      identity: group.identity,
+      clicks: group.clicks,
+      links: group.links,
+      events: group.events.size,
+      partners: group.partners.size,
+      topCountries: top(group.countries, TOP_BREAKDOWN).map(([country, clicks]) => ({ country, clicks })),
+      topReferrers: top(group.referrers, TOP_BREAKDOWN).map(([domain, clicks]) => ({ domain, clicks })),
+      series: periods.map((period) => group.byPeriod.get(period) ?? 0),
+    }))
+    .sort((a, b) => b.clicks - a.clicks || a.key.localeCompare(b.key));
+
+  const limited = options.limit ? campaigns.slice(0, options.limit) : campaigns;
+  return {
+    groupBy,
+    interval,
+    startDate,
+    endDate,
+    periods,
+    campaigns: limited,
+    totals: {
+      clicks: campaigns.reduce((sum, row) => sum + row.clicks, 0),
+      links: campaigns.reduce((sum, row) => sum + row.links, 0),
+      campaigns: campaigns.length,
+    },
+  };
+}
+
+/**
+ * WHAT: Campaign analytics across all active links, optionally for one partner
+ * NOTE: A partner's links are those on the partner itself plus those of its events
+ */
+export async function getCampaignAnalytics(
+  options: CampaignAnalyticsOptions & { partnerId?: string } = {}
+): Promise<CampaignAnalytics> {
+  const db = await getDb();
+  const junction = db.collection<BitlyProjectLink>('bitly_project_links');
+  const partners = db.collection('partners');
+
+  const filter: Record<string, unknown> = { archived: { $ne: true } };
+  if (options.partnerId) {
+    const partnerObjectId = new ObjectId(options.partnerId);
+    const partner = await partners.findOne({ _id: partnerObjectId }, { projection: { bitlyLinkIds: 1 } });
+    const partnerProjects = await db
+      .collection('projects')
+      .find({ $or: [{ partner1Id: partnerObjectId }, { partner2Id: partnerObjectId }] }, { projection: { _id: 1 } })
+      .toArray();
+    const eventLinkIds = await junction.distinct('bitlyLinkId', { projectId: { $in: partnerProjects.map((p) => p._id) } });
+    filter._id = { $in: [...((partner?.bitlyLinkIds as ObjectId[] | undefined) ?? []), ...eventLinkIds] };
+  }
+
+  const links = await db
+    .collection<BitlyLinkDocument>('bitly_links')
+    .find(filter)
+    .project<BitlyLinkDocument>({
+      long_url: 1,
+      campaign: 1,
+      clicks_timeseries: 1,
+      click_summary: 1,
+      geo: 1,
+      referrers: 1,
+      referring_domains: 1,
+    })
+    .toArray();
+  const linkIds = links.map((link) => link._id);
+
+  const [associations, linkPartners] = await Promise.all([
+    junction.find({ bitlyLinkId: { $in: linkIds } }, { projection: { bitlyLinkId: 1, projectId: 1 } }).toArray(),
+    partners.find({ bitlyLinkIds: { $in: linkIds } }, { projection: { bitlyLinkIds: 1 } }).toArray(),
+  ]);
+  const projectsByLink = new Map<string, string[]>();
+  for (const assoc of associations) {
+    const key = assoc.bitlyLinkId.toString();
+    projectsByLink.set(key, [...(projectsByLink.get(key) ?? []), assoc.projectId.toString()]);
+  }
+  const partnersByLink = new Map<string, string[]>();
+  for (const partner of linkPartners) {
+    for (const linkId of (partner.bitlyLinkIds as ObjectId[] | undefined) ?? []) {
+      const key = linkId.toString();
+      partnersByLink.set(key, [...(partnersByLink.get(key) ?? []), partner._id.toString()]);
+    }
+  }
+
+  return aggregateCampaigns(
+    links.map((link) => ({
+      ...link,
+      projectIds: projectsByLink.get(link._id.toString()) ?? [],
+      partnerIds: partnersByLink.get(link._id.toString()) ?? [],
+    })),
+    options
+  );
+}
+
+/**
+ * WHAT: Per-event campaign chart variables — top CAMPAIGN_CHART_SLOTS campaigns by clicks
+ * @param rows - the event's links: campaign and the clicks credited to the event
+ * @returns stats fields bitlyCampaign1..5 (names), bitlyCampaign1..5Clicks and bitlyCampaignCount
+ */
+export function campaignChartStats(
+  rows: Array<{ campaign?: BitlyCampaign; long_url?: string; clicks: number }>
+): Record<string, string | number | undefined> {
+  const byCampaign = new Map<string, number>();
+  for (const row of rows) {
+    mergeInto(byCampaign, campaignIdentity(row.campaign, row.long_url).campaign, row.clicks);
+  }
+  const ranked = Array.from(byCampaign.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+
+  const stats: Record<string, string | number | undefined> = { bitlyCampaignCount: ranked.length };
+  for (let slot = 1; slot <= CAMPAIGN_CHART_SLOTS; slot++) {
+    const entry = ranked[slot - 1];
+    stats[`bitlyCampaign${slot}`] = entry?.[0];
+    stats[`bitlyCampaign${slot}Clicks`] = entry?.[1];
+  }
+  return stats;
+}
+
+/**
+ * WHAT: Campaign chart variables for one event from its link associations
+ * NOTE: Uses the association's cached clicks, i.e. after attribution
+ */
+export async function getProjectCampaignStats(
+  db: Db,
+  projectId: ObjectId | string
+): Promise<Record<string, string | number | undefined>> {
+  const associations = await db
+    .collection<BitlyProjectLink>('bitly_project_links')
+    .find({ projectId: typeof projectId === 'string' ? new ObjectId(projectId) : projectId })
+    .project<Pick<BitlyProjectLink, 'bitlyLinkId' | 'cachedMetrics'>>({ bitlyLinkId: 1, cachedMetrics: 1 })
+    .toArray();
+  const links = await db
+    .collection<BitlyLinkDocument>('bitly_links')
+    .find({ _id: { $in: associations.map((assoc) => assoc.bitlyLinkId) } })
+    .project<Pick<BitlyLinkDocument, '_id' | 'campaign' | 'long_url'>>({ campaign: 1, long_url: 1 })
+    .toArray();
+  const linksById = new Map(links.map((link) => [link._id.toString(), link]));
+
+  return campaignChartStats(
+    associations.map((assoc) => {
+      const link = linksById.get(assoc.bitlyLinkId.toString());
+      return { campaign: link?.campaign, long_url: link?.long_url, clicks: assoc.cachedMetrics?.clicks ?? 0 };
+    })
+  );
+}
@@ -0,0 +1,433 @@
+// lib/bitly-health.ts
+// WHAT: Link health monitor for synced Bitly links — click anomalies on the
+//     daily series and reachability of each link's destination (long_url)
+// WHY: A link whose landing page 404s, or that suddenly stops (or starts)
+//     getting clicks, was only noticed when someone opened its analytics.
+// HOW: Runs after the nightly sync (/api/cron/bitly-health). For every active link:
+//     - clicks_timeseries → `no_clicks` (went silent after regular traffic) and
+//       `click_spike` (lib/analytics-anomaly.ts, upward, recent days only);
+//     - long_url → redirects followed hop by hop: `destination_error` (HTTP ≥ 400,
+//       unreachable, loop, private address) and `redirect_chain` (too many hops).
+//     One document per link in bitly_link_health; a notification is raised only
+//     for an issue type the link did not already have, so an open issue alerts once.
+// NOTE: Destinations are checked for the DESTINATION_CHECKS_PER_RUN least
+//     recently checked links per run; the rest keep their last result.
+
+import type { Db, ObjectId } from 'mongodb';
+import { getDb } from './db';
+import { detectAnomalies } from './analytics-anomaly';
+import { createNotification } from './notificationUtils';
+import { warn as logWarn } from './logger';
+import type { BitlyLinkDocument } from './bitly-db.types';
+
+export const LINK_HEALTH_COLLECTION = 'bitly_link_health';
+
+// no_clicks: the last SILENT_DAYS complete days had no clicks, while the
+// SILENT_BASELINE_DAYS before them had at least SILENT_MIN_BASELINE_CLICKS
+export const SILENT_DAYS = 3;
+export const SILENT_BASELINE_DAYS = 28;
+export const SILENT_MIN_BASELINE_CLICKS = 20;
+
+// click_spike: an upward anomaly in the last SPIKE_RECENT_DAYS complete days,
+// judged against SPIKE_LOOKBACK_DAYS of history, with at least SPIKE_MIN_CLICKS
+export const SPIKE_LOOKBACK_DAYS = 60;
+export const SPIKE_RECENT_DAYS = 2;
+export const SPIKE_MIN_CLICKS = 25;
+
+// Clicks are not judged when the series was last synced longer ago than this
+export const STALE_SERIES_DAYS = 2;
+
+export const MAX_REDIRECTS = 10;
+export const REDIRECT_CHAIN_WARN_HOPS = 3;
+export const DESTINATION_TIMEOUT_MS = 8000;
+export const DESTINATION_CHECKS_PER_RUN = 200;
+const DESTINATION_CONCURRENCY = 8;
+
+const SYSTEM_ACTOR = 'Link health monitor';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type LinkHealthIssueType = 'no_clicks' | 'click_spike' | 'destination_error' | 'redirect_chain';
+export type LinkHealthSeverity = 'warning' | 'critical';
+export type LinkHealthStatus = 'healthy' | LinkHealthSeverity;
+
+export interface LinkHealthIssue {
+  type: LinkHealthIssueType;
+  severity: LinkHealthSeverity;
+  message: string;
+  // When this issue was first seen on the link (kept while it stays open)
+  since: string;
+  details?: Record<string, unknown>;
+}
+
+export interface DestinationHop {
+  url: string;
+  status: number | null;
+}
+
+export interface DestinationCheck {
+  ok: boolean;
+  finalUrl: string;
+  finalStatus: number | null;
+  // Every request made, in order; the last one is the final answer
+  hops: DestinationHop[];
+  redirects: number;
+  error?: string;
+  checkedAt: string;
+}
+
+export interface LinkHealthDoc {
+  // Same _id as the bitly_links document
+  _id: ObjectId;
+  bitlink: string;
+  title: string;
+  long_url: string;
+  projectId: ObjectId | null;
+  status: LinkHealthStatus;
+  issues: LinkHealthIssue[];
+  clicks: { recent: number; baseline: number; skipped?: 'stale_series' };
+  destination: DestinationCheck | null;
+  checkedAt: string;
+}
+
+export interface LinkHealthRunSummary {
+  links: number;
+  destinationsChecked: number;
+  healthy: number;
+  warning: number;
+  critical: number;
+  newIssues: number;
+  notified: number;
+}
+
+type ClickIssue = Omit<LinkHealthIssue, 'since'>;
+
+function dayString(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+/**
+ * WHAT: Daily clicks for the `days` complete days before `now`, zero-filled, oldest first
+ * NOTE: Bitly only returns days with clicks; today is partial and left out
+ */
+export function dailyClicks(series: BitlyLinkDocument['clicks_timeseries'], now: Date, days: number) {
+  const byDate = new Map<string, number>();
+  for (const point of series ?? []) {
+    const date = point.date.slice(0, 10);
+    byDate.set(date, (byDate.get(date) ?? 0) + (point.clicks || 0));
+  }
+  const today = Date.parse(now.toISOString().slice(0, 10));
+  const out: Array<{ date: string; value: number }> = [];
+  for (let i = days; i >= 1; i--) {
+    const date = dayString(today - i * DAY_MS);
+    out.push({ date, value: byDate.get(date) ?? 0 });
+  }
+  return out;
+}
+
+/**
+ * WHAT: Click issues on a link's daily series
+ * @param syncedUntil - lastClicksSyncedUntil; a stale series is not judged
+ *     (missing days would read as zero clicks)
+ */
+export async function detectClickIssues(
+  series: BitlyLinkDocument['clicks_timeseries'],
+  now: Date,
+  syncedUntil?: string
+): Promise<{ issues: ClickIssue[]; recent: number; baseline: number; skipped?: 'stale_series' }> {
+  const history = dailyClicks(series, now, Math.max(SPIKE_LOOKBACK_DAYS, SILENT_DAYS + SILENT_BASELINE_DAYS));
+  const recent = history.slice(-SILENT_DAYS).reduce((sum, day) => sum + day.value, 0);
+  const baseline = history
+    .slice(-(SILENT_DAYS + SILENT_BASELINE_DAYS), -SILENT_DAYS)
+    .reduce((sum, day) => sum + day.value, 0);
+
+  const staleBefore = dayString(Date.parse(now.toISOString().slice(0, 10)) - STALE_SERIES_DAYS * DAY_MS);
+  if (syncedUntil && syncedUntil.slice(0, 10) < staleBefore) {
+    return { issues: [], recent, baseline, skipped: 'stale_series' };
+  }
+
+  const issues: ClickIssue[] = [];
+  if (recent === 0 && baseline >= SILENT_MIN_BASELINE_CLICKS) {
+    issues.push({
+      type: 'no_clicks',
+      severity: 'warning',
+      message: `No clicks in the last ${SILENT_DAYS} days (${baseline} in the ${SILENT_BASELINE_DAYS} days before)`,
+      details: { recent, baseline },
+    });
+  }
+
+  const window = history.slice(-SPIKE_LOOKBACK_DAYS);
+  const recentDates = new Set(window.slice(-SPIKE_RECENT_DAYS).map((day) => day.date));
+  const { anomalies } = await detectAnomalies('clicks', window);
+  const spike = anomalies
+    .filter(
+      (a) =>
+        recentDates.has(a.date) &&
+        a.severity !== 'low' &&
+        a.value > a.expectedValue &&
+        a.value >= SPIKE_MIN_CLICKS
+    )
+    .sort((a, b) => b.value - a.value)[0];
+  if (spike) {
+    issues.push({
+      type: 'click_spike',
+      severity: 'warning',
+      message: `${spike.value} clicks on ${spike.date} (expected about ${Math.round(spike.expectedValue)})`,
+      details: { date: spike.date, value: spike.value, expectedValue: spike.expectedValue, method: spike.method, severity: spike.severity },
+    });
+  }
+
+  return { issues, recent, baseline };
+}
+
+/**
+ * WHAT: Whether a destination host is a loopback, link-local or private address
+ * WHY: The monitor runs server-side; a long_url must not make it probe internal hosts.
+ *     Literal addresses and local names only — names are not resolved.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) return true;
+
+  const v4 = host.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (v4) {
+    const [a, b] = [Number(v4[1]), Number(v4[2])];
+    return (
+      a === 0 || a === 10 || a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168)
+    );
+  }
+  if (host.includes(':')) {
+    return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host) || host.startsWith('::ffff:');
+  }
+  return false;
+}
+
+async function request(fetchImpl: typeof fetch, url: string, method: 'HEAD' | 'GET', timeoutMs: number): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetchImpl(url, {
+      method,
+      redirect: 'manual',
+      signal: controller.signal,
+      headers: { 'User-Agent': 'messmass-link-health/1.0' },
+    });
+    // Only the status matters; don't download bodies
+    await res.body?.cancel().catch(() => undefined);
+    return res;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * WHAT: Follow a destination's redirects one hop at a time
+ * NOTE: HEAD first; servers that refuse HEAD (or answer it with an error) are asked again with GET
+ */
+export async function checkDestination(
+  url: string,
+  options: { fetchImpl?: typeof fetch; timeoutMs?: number; maxRedirects?: number; now?: Date } = {}
+): Promise<DestinationCheck> {
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const timeoutMs = options.timeoutMs ?? DESTINATION_TIMEOUT_MS;
+  const maxRedirects = options.maxRedirects ?? MAX_REDIRECTS;
+  const checkedAt = (options.now ?? new Date()).toISOString();
+  const hops: DestinationHop[] = [];
+  const fail = (current: string, error: string, status: number | null = null): DestinationCheck => ({
+    ok: false,
+    finalUrl: current,
+    finalStatus: status,
+    hops,
+    redirects: Math.max(hops.length - 1, 0),
+    error,
+    checkedAt,
+  });
+
+  let current = url;
+  const seen = new Set<string>();
+  for (;;) {
+    let parsed: URL;
+    try {
+      parsed = new URL(current);
+    } catch {
+      return fail(current, 'Invalid URL');
+    }
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return fail(current, `Unsupported protocol ${parsed.protocol}`);
+    if (isPrivateHost(parsed.hostname)) return fail(current, 'Destination is a private or local address');
+    if (seen.has(parsed.href)) return fail(current, 'Redirect loop');
+    seen.add(parsed.href);
+
+    let res: Response;
+    try {
+      res = await request(fetchImpl, parsed.href, 'HEAD', timeoutMs);
+      if (res.status >= 400) res = await request(fetchImpl, parsed.href, 'GET', timeoutMs);
+    } catch (err) {
+      const aborted = err instanceof Error && err.name === 'AbortError';
+      hops.push({ url: parsed.href, status: null });
+      return fail(parsed.href, aborted ? `Timed out after ${timeoutMs}ms` : err instanceof Error ? err.message : String(err));
+    }
+    hops.push({ url: parsed.href, status: res.status });
+
+    const location = res.headers.get('location');
+    if (res.status >= 300 && res.status < 400 && location) {
+      if (hops.length > maxRedirects) return fail(parsed.href, `More than ${maxRedirects} redirects`, res.status);
+      current = new URL(location, parsed.href).href;
+      continue;
+    }
+    if (res.status >= 400) return fail(parsed.href, `HTTP ${res.status}`, res.status);
+    return { ok: true, finalUrl: parsed.href, finalStatus: res.status, hops, redirects: hops.length - 1, checkedAt };
+  }
+}
+
+/**
+ * WHAT: Issues from a destination check
+ */
+export function destinationIssues(check: DestinationCheck | null): ClickIssue[] {
+  if (!check) return [];
+  if (!check.ok) {
+    return [{
+      type: 'destination_error',
+      severity: 'critical',
+      message: `Destination ${check.error ?? 'failed'}${check.finalUrl ? ` (${check.finalUrl})` : ''}`,
+      details: { finalUrl: check.finalUrl, finalStatus: check.finalStatus, redirects: check.redirects },
+    }];
+  }
+  if (check.redirects > REDIRECT_CHAIN_WARN_HOPS) {
+    return [{
+      type: 'redirect_chain',
+      severity: 'warning',
+      message: `${check.redirects} redirects before the destination (${check.finalUrl})`,
+      details: { finalUrl: check.finalUrl, redirects: check.redirects },
+    }];
+  }
+  return [];
+}
+
+/**
+ * WHAT: Merge fresh issues with the previous record, keeping `since` for open ones
+ * @returns the issues and the types that were not open before
+ */
+export function mergeIssues(previous: LinkHealthIssue[], fresh: ClickIssue[], now: string) {
+  const before = new Map(previous.map((issue) => [issue.type, issue]));
+  const issues: LinkHealthIssue[] = fresh.map((issue) => ({ ...issue, since: before.get(issue.type)?.since ?? now }));
+  const opened = fresh.filter((issue) => !before.has(issue.type)).map((issue) => issue.type);
+  return { issues, opened };
+}
+
+export function healthStatus(issues: LinkHealthIssue[]): LinkHealthStatus {
+  if (issues.some((issue) => issue.severity === 'critical')) return 'critical';
+  return issues.length > 0 ? 'warning' : 'healthy';
+}
+
+async function notifyOpened(db: Db, link: BitlyLinkDocument, issues: LinkHealthIssue[]): Promise<boolean> {
+  // projectId is the link, so two links never collapse into one notification
+  return createNotification(db, {
+    activityType: 'bitly_link_health',
+    actorId: null,
+    actorName: SYSTEM_ACTOR,
+    projectId: String(link._id),
+    projectName: `${link.title || link.bitlink}: ${issues.map((issue) => issue.message).join('; ')}`,
+    metadata: {
+      linkId: String(link._id),
+      bitlink: link.bitlink,
+      issues: issues.map((issue) => issue.type),
+      severity: healthStatus(issues),
+    },
+  });
+}
+
+// Run `task` over `items` with at most `limit` in flight
+async function forEachWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) await task(items[next++]);
+  });
+  await Promise.all(workers);
+}
+
+/**
+ * WHAT: One monitor pass over every active (non-archived) link
+ * @param options.destinationLimit - destinations to re-check this pass, least recently checked first
+ */
+export async function runLinkHealthMonitor(
+  options: { now?: Date; destinationLimit?: number; fetchImpl?: typeof fetch } = {}
+): Promise<LinkHealthRunSummary> {
+  const now = options.now ?? new Date();
+  const nowIso = now.toISOString();
+  const db = await getDb();
+  const healthCol = db.collection<LinkHealthDoc>(LINK_HEALTH_COLLECTION);
+
+  const links = await db
+    .collection<BitlyLinkDocument>('bitly_links')
+    .find({ archived: { $ne: true } })
+    .project<BitlyLinkDocument>({ bitlink: 1, title: 1, long_url: 1, projectId: 1, clicks_timeseries: 1, lastClicksSyncedUntil: 1 })
+    .toArray();
+  const previous = new Map(
+    (await healthCol.find({ _id: { $in: links.map((link) => link._id) } }).toArray()).map((doc) => [String(doc._id), doc])
+  );
+
+  // Never-checked links first, then the stalest; a changed long_url counts as never checked
+  const lastChecked = (link: BitlyLinkDocument) => {
+    const prev = previous.get(String(link._id));
+    return prev?.destination && prev.long_url === link.long_url ? prev.destination.checkedAt : '';
+  };
+  const toCheck = [...links]
+    .sort((a, b) => lastChecked(a).localeCompare(lastChecked(b)))
+    .slice(0, options.destinationLimit ?? DESTINATION_CHECKS_PER_RUN);
+  const checks = new Map<string, DestinationCheck>();
+  await forEachWithConcurrency(toCheck, DESTINATION_CONCURRENCY, async (link) => {
+    checks.set(String(link._id), await checkDestination(link.long_url, { fetchImpl: options.fetchImpl, now }));
+  });
+
+  const summary: LinkHealthRunSummary = {
+    links: links.length,
+    destinationsChecked: checks.size,
+    healthy: 0,
+    warning: 0,
+    critical: 0,
+    newIssues: 0,
+    notified: 0,
+  };
+
+  for (const link of links) {
+    const prev = previous.get(String(link._id));
+    const destination =
+      checks.get(String(link._id)) ?? (prev?.long_url === link.long_url ? prev.destination : null) ?? null;
+    const clicks = await detectClickIssues(link.clicks_timeseries, now, link.lastClicksSyncedUntil);
+    const { issues, opened } = mergeIssues(prev?.issues ?? [], [...clicks.issues, ...destinationIssues(destination)], nowIso);
+    const status = healthStatus(issues);
+
+    await healthCol.updateOne(
+      { _id: link._id },
+      {
+        $set: {
+          bitlink: link.bitlink,
+          title: link.title,
+          long_url: link.long_url,
+          projectId: link.projectId ?? null,
+          status,
+          issues,
+          clicks: { recent: clicks.recent, baseline: clicks.baseline, ...(clicks.skipped ? { skipped: clicks.skipped } : {}) },
+          destination,
+          checkedAt: nowIso,
+        },
+      },
+      { upsert: true }
+    );
+
+    summary[status]++;
+    if (opened.length > 0) {
+      summary.newIssues += opened.length;
+      const notified = await notifyOpened(db, link, issues.filter((issue) => opened.includes(issue.type)));
+      if (notified) summary.notified++;
+      else logWarn('Link health notification failed', { context: 'bitly-health', linkId: String(link._id) });
+    }
+  }
+
+  // Archived or deleted links drop off the list
+  await healthCol.deleteMany({ _id: { $nin: links.map((link) => link._id) } });
+  return summary;
+}
@@ -14,6 +14,7 @@
  */
 
 import { ObjectId } from 'mongodb';
+import type { AttributionTarget } from './bitly-attribution';
 
 /**
  * Represents a single association between a Bitly link and a project/event
@@ -35,6 +36,10 @@ export interface BitlyProjectLink {
   
   // Metadata
   autoCalculated: boolean;         // True if date ranges computed by algorithm, false if manually set
+
+  // How clicks are credited to this event (see lib/bitly-attribution.ts)
+  // Absent = time_window (startDate/endDate above)
+  attribution?: BitlyAttribution;
   
   // Cached aggregated metrics for this event period
   // These are recomputed when:
@@ -49,6 +54,31 @@ export interface BitlyProjectLink {
   lastSyncedAt: string | null;    // ISO 8601 with milliseconds - when cachedMetrics last refreshed
 }
 
+/**
+ * Attribution model for one link-project association.
+ * 
+ * WHY: A link shared across events can be credited by date range, by distance
+ * from each event date, evenly across overlapping events, or by a fixed share.
+ */
+export type BitlyAttributionModel = 'time_window' | 'decay' | 'even_split' | 'manual';
+
+export interface BitlyAttribution {
+  model: BitlyAttributionModel;
+  windowDays?: number;             // decay / even_split: days either side of the event date (default 7)
+  halfLifeDays?: number;           // decay: weight halves every N days from the event date (default 2)
+  percent?: number;                // manual: share of all the link's clicks, 0-100
+}
+
+/**
+ * How cached metrics were derived, stored with them for display.
+ */
+export interface BitlyMetricsAttribution {
+  model: BitlyAttributionModel;
+  explanation: string;             // Plain-language description for partners
+  linkClicks: number;              // All clicks on the link in its synced series
+  share: number;                   // Credited clicks / linkClicks (0..1)
+}
+
 /**
  * Aggregated Bitly metrics for a specific project-link association,
  * filtered by the date range (startDate to endDate).
@@ -98,6 +128,9 @@ export interface BitlyProjectMetrics {
     date: string;                  // ISO 8601 date (YYYY-MM-DD)
     clicks: number;
   }>;
+
+  // How these numbers were derived (absent on metrics cached before attribution models)
+  attribution?: BitlyMetricsAttribution;
 }
 
 /**
@@ -162,6 +195,12 @@ export interface AggregationOptions {
   startDate: string | null;        // null = include all data before endDate
   endDate: string | null;          // null = include all data after startDate
   includeTimeseries?: boolean;     // Whether to include dailyClicks array (can be expensive)
+  // Attribution model for this association and the link's other associations;
+  // without it clicks are filtered by startDate/endDate only
+  attribution?: {
+    target: AttributionTarget;
+    peers: AttributionTarget[];
+  };
 }
 
 /**
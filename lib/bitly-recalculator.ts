@@ -22,7 +22,7 @@
  * - app/api/cron/bitly-refresh GET route (background job)
  */
 
-import { ObjectId } from 'mongodb';
+import { ObjectId, type Db } from 'mongodb';
 import { getDb } from './db';
 import { calculateDateRanges } from './bitly-date-calculator';
 import {
@@ -33,6 +33,64 @@ import type {
   BitlyProjectLink,
   CreateBitlyProjectLinkInput,
 } from './bitly-junction.types';
+import type { AttributionTarget } from './bitly-attribution';
+
+type AttributionContext = { target: AttributionTarget; peers: AttributionTarget[] };
+
+function associationKey(bitlyLinkId: ObjectId, projectId: ObjectId): string {
+  return `${bitlyLinkId.toString()}:${projectId.toString()}`;
+}
+
+/**
+ * Load the attribution context (model, event date and the link's other associations)
+ * for each association.
+ * 
+ * WHY: decay and even_split share a day's clicks among the link's associations, so
+ * every aggregation needs all associations of the link, not just the ones refreshed.
+ * 
+ * @param associations - Associations about to be aggregated
+ * @returns Map of "bitlyLinkId:projectId" → context for aggregateMetricsByDateRange
+ */
+async function loadAttributionContexts(
+  db: Db,
+  associations: BitlyProjectLink[]
+): Promise<Map<string, AttributionContext>> {
+  const linkIds = Array.from(new Set(associations.map((assoc) => assoc.bitlyLinkId.toString()))).map(
+    (id) => new ObjectId(id)
+  );
+  const allAssociations = await db
+    .collection<BitlyProjectLink>('bitly_project_links')
+    .find(
+      { bitlyLinkId: { $in: linkIds } },
+      { projection: { bitlyLinkId: 1, projectId: 1, startDate: 1, endDate: 1, attribution: 1 } }
+    )
+    .toArray();
+  const projects = await db
+    .collection('projects')
+    .find({ _id: { $in: allAssociations.map((assoc) => assoc.projectId) } }, { projection: { eventDate: 1 } })
+    .toArray();
+  const eventDates = new Map(projects.map((p) => [p._id.toString(), (p.eventDate as string | undefined) ?? null]));
+
+  const toTarget = (assoc: BitlyProjectLink): AttributionTarget => ({
+    projectId: assoc.projectId.toString(),
+    eventDate: eventDates.get(assoc.projectId.toString()) ?? null,
+    startDate: assoc.startDate,
+    endDate: assoc.endDate,
+    attribution: assoc.attribution,
+  });
+  const peersByLink = new Map<string, AttributionTarget[]>();
+  for (const assoc of allAssociations) {
+    const key = assoc.bitlyLinkId.toString();
+    peersByLink.set(key, [...(peersByLink.get(key) ?? []), toTarget(assoc)]);
+  }
+
+  return new Map(
+    associations.map((assoc) => [
+      associationKey(assoc.bitlyLinkId, assoc.projectId),
+      { target: toTarget(assoc), peers: peersByLink.get(assoc.bitlyLinkId.toString()) ?? [] },
+    ])
+  );
+}
 
 /**
  * Recalculate all date ranges and metrics for a specific Bitly link.
@@ -98,6 +156,7 @@ export async function recalculateLinkRanges(
 
   // Step 4: Aggregate metrics for each new date range
   // WHY: Cached metrics must reflect new temporal boundaries
+  const attributionContexts = await loadAttributionContexts(db, existingAssociations);
   const aggregationOptions = projects.map((p) => {
     const range = calculatedRangesMap.get(p._id.toString())!;
     return {
@@ -105,6 +164,7 @@ export async function recalculateLinkRanges(
       startDate: range.startDate,
       endDate: range.endDate,
       includeTimeseries: true,
+      attribution: attributionContexts.get(associationKey(bitlyLinkId, p._id)),
     };
   });
 
@@ -329,12 +389,14 @@ export async function refreshAllCachedMetrics(): Promise<number> {
     return 0;
   }
 
-  // Build aggregation options using existing date ranges
+  // Build aggregation options using existing date ranges and attribution models
+  const attributionContexts = await loadAttributionContexts(db, allAssociations);
   const aggregationOptions = allAssociations.map((assoc) => ({
     bitlyLinkId: assoc.bitlyLinkId,
     startDate: assoc.startDate,
     endDate: assoc.endDate,
     includeTimeseries: true,
+    attribution: attributionContexts.get(associationKey(assoc.bitlyLinkId, assoc.projectId)),
   }));
 
   // Batch aggregate metrics
@@ -385,11 +447,13 @@ export async function refreshLinkMetrics(bitlyLinkId: ObjectId): Promise<number>
   }
 
   // Build aggregation options
+  const attributionContexts = await loadAttributionContexts(db, associations);
   const aggregationOptions = associations.map((assoc) => ({
     bitlyLinkId: assoc.bitlyLinkId,
     startDate: assoc.startDate,
     endDate: assoc.endDate,
     includeTimeseries: true,
+    attribution: attributionContexts.get(associationKey(assoc.bitlyLinkId, assoc.projectId)),
   }));
 
   // Aggregate metrics
@@ -170,7 +170,7 @@ export async function getBitlyStatsUpdateObject(
 }
 
 /**
- * WHAT: Batch enrich multiple projects with Bitly country data
+ * WHAT: Batch enrich multiple projects with Bitly country and campaign data
  * WHY: Efficient bulk updates when recalculating many projects at once
  * HOW: Parallel enrichment + bulk write operation
  * 
@@ -204,8 +204,13 @@ export async function batchEnrichProjectsWithBitlyCountries(
 
   // WHAT: Enrich all projects in parallel
   // WHY: Independent operations, no shared state
+  const { getProjectCampaignStats } = await import('./bitly-campaigns');
   const enrichments = await Promise.all(
-    projectIds.map((id) => enrichProjectStatsWithBitlyCountries(id))
+    projectIds.map(async (id) => ({
+      ...(await enrichProjectStatsWithBitlyCountries(id)),
+      // Clicks by UTM campaign (bitlyCampaign1-5, bitlyCampaign1-5Clicks, bitlyCampaignCount)
+      ...(await getProjectCampaignStats(db, id)),
+    }))
   );
 
   // WHAT: Build bulk write operations
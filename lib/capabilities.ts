@@ -0,0 +1,249 @@
+// lib/capabilities.ts
+// WHAT: Named capabilities, the roles composed from them and how a set of role
+//     grants is evaluated against a resource
+// WHY: Authorization was a global role ladder (lib/permissions.ts) plus
+//     organizationIds (lib/auth/orgGuard.ts) plus project_permissions handled ad
+//     hoc per route. Capabilities give every check one vocabulary, and role
+//     bindings let a role apply to one organization, partner or event instead of
+//     the whole system.
+// NOTE: Pure and client-safe — the admin UI renders the catalog from here. Loading
+//     bindings and resolving which scopes contain a resource lives in
+//     lib/authorization.ts.
+
+import type { UserRole } from './users';
+
+/**
+ * WHAT: Every capability a check can ask for, with the description shown in the UI
+ */
+export const CAPABILITIES = {
+  'event.view': 'See events, their stats and reports',
+  'event.edit': 'Create events and edit their details',
+  'event.stats.write': 'Enter and correct event statistics',
+  'event.delete': 'Delete events',
+  'partner.view': 'See partners and partner reports',
+  'partner.edit': 'Create and edit partners',
+  'organization.view': 'See organization reports and activity',
+  'organization.manage': 'Create and edit organizations',
+  'report.view': 'See report templates and themes',
+  'report.edit': 'Edit report templates, themes and content',
+  'report.publish': 'Publish report template versions',
+  'chart.edit': 'Edit chart configurations and algorithms',
+  'bitly.manage': 'Add, associate and sync Bitly links',
+  'analytics.view': 'Use the analytics dashboards',
+  'filter.manage': 'Build filters and save filter styles',
+  'fanmass.manage': 'Send Fanmass commands and retry or cancel them',
+  'user.manage': 'Create users and change their global role',
+  'role.manage': 'Define roles and bind them to users',
+  'system.manage': 'Cache, rate limits, migrations and site settings',
+} as const;
+
+export type Capability = keyof typeof CAPABILITIES;
+
+export const ALL_CAPABILITIES = Object.keys(CAPABILITIES) as Capability[];
+
+export type ScopeType = 'global' | 'organization' | 'partner' | 'event';
+
+export const SCOPE_TYPES: readonly ScopeType[] = ['global', 'organization', 'partner', 'event'];
+
+/**
+ * WHAT: Where a binding applies, or what a check is about
+ * NOTE: `id` is absent only for the global scope
+ */
+export interface Scope {
+  type: ScopeType;
+  id?: string;
+}
+
+export const GLOBAL_SCOPE: Scope = { type: 'global' };
+
+export interface RoleDefinition {
+  key: string;
+  name: string;
+  description?: string;
+  capabilities: Capability[];
+  // Built-in roles are defined here and cannot be edited or deleted
+  builtIn: boolean;
+}
+
+export interface RoleBinding {
+  id?: string;
+  userId: string;
+  roleKey: string;
+  scope: Scope;
+  grantedAt?: string;
+  grantedBy?: string;
+  // Derived from organizationIds or project_permissions rather than stored
+  legacy?: 'organizationIds' | 'project_permissions';
+}
+
+/**
+ * WHAT: One reason a user holds a capability
+ * WHY: The permissions inspector shows where each capability comes from
+ */
+export interface CapabilityGrant {
+  capability: Capability;
+  roleKey: string;
+  scope: Scope;
+  // 'global-role' is the user's UserRole; 'binding' is a role binding
+  source: 'global-role' | 'binding';
+  legacy?: RoleBinding['legacy'];
+}
+
+const VIEWER_CAPABILITIES: Capability[] = ['event.view', 'partner.view', 'organization.view', 'report.view', 'analytics.view'];
+const EDITOR_CAPABILITIES: Capability[] = [...VIEWER_CAPABILITIES, 'event.edit', 'event.stats.write', 'chart.edit', 'report.edit'];
+
+/**
+ * WHAT: Roles available for scoped bindings without defining any
+ * NOTE: viewer/editor/owner are also the project_permissions roles, so legacy
+ *     per-event grants map onto them unchanged.
+ */
+export const BUILT_IN_ROLES: RoleDefinition[] = [
+  {
+    key: 'viewer',
+    name: 'Viewer',
+    description: 'Read-only access to events, partners and reports',
+    capabilities: VIEWER_CAPABILITIES,
+    builtIn: true,
+  },
+  {
+    key: 'editor',
+    name: 'Editor',
+    description: 'Viewer, plus editing events, statistics, charts and reports',
+    capabilities: EDITOR_CAPABILITIES,
+    builtIn: true,
+  },
+  {
+    key: 'owner',
+    name: 'Owner',
+    description: 'Editor, plus publishing, Bitly links, partners and deleting events',
+    capabilities: [...EDITOR_CAPABILITIES, 'report.publish', 'bitly.manage', 'partner.edit', 'event.delete', 'filter.manage'],
+    builtIn: true,
+  },
+];
+
+// WHAT: What any signed-in session could do before capabilities existed —
+//     PUT /api/projects (requireProjectWrite), chart-config and Bitly
+//     associations only checked for a session. Every global role keeps them.
+const SESSION_CAPABILITIES: Capability[] = ['event.stats.write', 'chart.edit', 'bitly.manage'];
+
+/**
+ * WHAT: What each global UserRole grants everywhere
+ * WHY: Keeps today's behaviour for users without bindings:
+ *     - superadmin holds everything;
+ *     - admin holds everything except user/role management (superadmin-only, as
+ *       in app/api/admin/users/[id]/role) and organization.view, which admins
+ *       only get per organization — organizationIds or a binding — so tenant
+ *       isolation in lib/auth/orgGuard.ts is unchanged;
+ *     - guest/user/api get SESSION_CAPABILITIES, and user also what its menus
+ *       (MENU_PERMISSIONS) already expose.
+ */
+export const GLOBAL_ROLE_CAPABILITIES: Record<UserRole, Capability[]> = {
+  guest: SESSION_CAPABILITIES,
+  user: ['event.view', 'partner.view', 'filter.manage', ...SESSION_CAPABILITIES],
+  api: ['event.view', ...SESSION_CAPABILITIES],
+  admin: ALL_CAPABILITIES.filter(
+    (capability) => capability !== 'organization.view' && capability !== 'user.manage' && capability !== 'role.manage'
+  ),
+  superadmin: ALL_CAPABILITIES,
+};
+
+export function isCapability(value: unknown): value is Capability {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CAPABILITIES, value);
+}
+
+export function scopeKey(scope: Scope): string {
+  return scope.type === 'global' ? 'global' : `${scope.type}:${scope.id}`;
+}
+
+/**
+ * WHAT: Every capability grant a user holds, from the global role and bindings
+ * NOTE: A binding to an unknown role (deleted custom role) grants nothing
+ */
+export function collectGrants(
+  role: UserRole | undefined,
+  bindings: RoleBinding[],
+  roles: Map<string, RoleDefinition>
+): CapabilityGrant[] {
+  const grants: CapabilityGrant[] = [];
+  for (const capability of (role && GLOBAL_ROLE_CAPABILITIES[role]) || []) {
+    grants.push({ capability, roleKey: role as string, scope: GLOBAL_SCOPE, source: 'global-role' });
+  }
+  for (const binding of bindings) {
+    const definition = roles.get(binding.roleKey);
+    if (!definition) continue;
+    for (const capability of definition.capabilities) {
+      grants.push({ capability, roleKey: binding.roleKey, scope: binding.scope, source: 'binding', legacy: binding.legacy });
+    }
+  }
+  return grants;
+}
+
+/**
+ * WHAT: Grants of `capability` that apply to a resource
+ * @param lineage - the resource's scope and every scope containing it
+ *     (event → its partners → their organizations), see resourceLineage
+ */
+export function matchingGrants(grants: CapabilityGrant[], capability: Capability, lineage: Scope[] = [GLOBAL_SCOPE]): CapabilityGrant[] {
+  const keys = new Set(lineage.map(scopeKey));
+  keys.add('global');
+  return grants.filter((grant) => grant.capability === capability && keys.has(scopeKey(grant.scope)));
+}
+
+export function evaluate(grants: CapabilityGrant[], capability: Capability, lineage?: Scope[]): boolean {
+  return matchingGrants(grants, capability, lineage).length > 0;
+}
+
+/**
+ * WHAT: Capabilities held in at least one scope
+ * WHY: Navigation shows an entry to someone who can use it anywhere; the
+ *     page's API calls still check the specific resource
+ */
+export function capabilitiesAnywhere(grants: CapabilityGrant[]): Capability[] {
+  const held = new Set(grants.map((grant) => grant.capability));
+  return ALL_CAPABILITIES.filter((capability) => held.has(capability));
+}
+
+function fail(message: string): Error {
+  return Object.assign(new Error(message), { status: 400 });
+}
+
+/**
+ * WHAT: Validate a scope from the API
+ * @throws Error with status 400 when invalid
+ */
+export function validateScope(input: unknown): Scope {
+  if (!input || typeof input !== 'object') throw fail('scope must be an object');
+  const { type, id } = input as Record<string, unknown>;
+  if (!SCOPE_TYPES.includes(type as ScopeType)) throw fail(`scope.type must be one of: ${SCOPE_TYPES.join(', ')}`);
+  if (type === 'global') return GLOBAL_SCOPE;
+  if (typeof id !== 'string' || !/^[a-f0-9]{24}$/i.test(id)) throw fail(`scope.id must be the ${type} id`);
+  return { type: type as ScopeType, id: id.toLowerCase() };
+}
+
+/**
+ * WHAT: Validate a custom role from the API
+ * @throws Error with status 400 when invalid
+ */
+export function validateRoleInput(input: unknown): Omit<RoleDefinition, 'builtIn'> {
+  if (!input || typeof input !== 'object') throw fail('role must be an object');
+  const { key, name, description, capabilities } = input as Record<string, unknown>;
+
+  if (typeof key !== 'string' || !/^[a-z][a-z0-9_-]{1,39}$/.test(key)) {
+    throw fail('key must be 2-40 lowercase letters, digits, "-" or "_", starting with a letter');
+  }
+  if (BUILT_IN_ROLES.some((role) => role.key === key) || Object.prototype.hasOwnProperty.call(GLOBAL_ROLE_CAPABILITIES, key)) {
+    throw fail(`"${key}" is a built-in role`);
+  }
+  if (typeof name !== 'string' || !name.trim()) throw fail('name is required');
+  if (!Array.isArray(capabilities) || capabilities.length === 0) throw fail('capabilities must be a non-empty array');
+  const unknown = capabilities.filter((capability) => !isCapability(capability));
+  if (unknown.length) throw fail(`Unknown capabilities: ${unknown.join(', ')}`);
+
+  return {
+    key,
+    name: name.trim(),
+    description: typeof description === 'string' && description.trim() ? description.trim() : undefined,
+    // Catalog order, no duplicates
+    capabilities: ALL_CAPABILITIES.filter((capability) => capabilities.includes(capability)),
+  };
+}
@@ -0,0 +1,366 @@
+// lib/chartConfigRevisions.ts
+// WHAT: Revision history for chart configurations: every save stores the full
+//     ChartConfiguration as a numbered revision (author, time, reason), with an
+//     element-level diff between any two revisions and restore-to-revision.
+// WHY: /api/chart-config overwrote formulas in place, so when a sponsor's
+//     number moved there was no way to tell which formula edit moved it, who
+//     made it, or to put the old formula back.
+// HOW: `chart_configuration_revisions` keeps one snapshot per save; each
+//     revision also writes an api_audit_logs entry (lib/auditLog.ts) whose
+//     `changes` are the field and formula differences from the previous state.
+//     Configurations saved before revisions existed get a `baseline` revision
+//     of their prior state on their first edit, so that edit diffs too.
+
+import { ObjectId } from 'mongodb';
+import type { Db, Document } from 'mongodb';
+import type { NextRequest } from 'next/server';
+import type { ChartConfiguration } from './chartConfigTypes';
+import { createAuditLog, type AuditLogAction } from './auditLog';
+import { warn as logWarn } from './logger';
+
+export const CHART_CONFIG_REVISIONS_COLLECTION = 'chart_configuration_revisions';
+
+export type ChartConfigRevisionAction = 'baseline' | 'create' | 'update' | 'restore' | 'delete';
+
+export type ChartConfigSnapshot = Omit<ChartConfiguration, '_id'>;
+
+export interface ChartConfigRevision {
+  _id: string;
+  configurationId: string;
+  chartId: string;
+  revision: number;
+  action: ChartConfigRevisionAction;
+  snapshot: ChartConfigSnapshot;
+  reason?: string;
+  restoredFrom?: number; // set on `restore` revisions
+  authorId: string;
+  authorEmail: string;
+  createdAt: string;
+}
+
+export interface ChartConfigFieldChange {
+  key: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ChartConfigElementChange {
+  elementId: string;
+  label: string;
+  status: 'added' | 'removed' | 'changed';
+  formula: { from: string | null; to: string | null } | null; // null when the formula is unchanged
+  changes: ChartConfigFieldChange[]; // every other element field that changed
+}
+
+export interface ChartConfigDiff {
+  fields: ChartConfigFieldChange[];
+  elements: ChartConfigElementChange[];
+  hasChanges: boolean;
+}
+
+export interface ChartConfigRevisionAuthor {
+  id: string;
+  email: string;
+}
+
+// Bookkeeping that changes on every save and says nothing about the chart
+const IGNORED_KEYS = new Set(['_id', 'elements', 'createdAt', 'updatedAt', 'createdBy', 'lastModifiedBy']);
+
+const AUDIT_ACTIONS: Record<Exclude<ChartConfigRevisionAction, 'baseline'>, AuditLogAction> = {
+  create: 'chart_config_create',
+  update: 'chart_config_update',
+  restore: 'chart_config_restore',
+  delete: 'chart_config_delete',
+};
+
+function revisionError(message: string, status: number, code: string): Error {
+  return Object.assign(new Error(message), { status, code });
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function changedKeys(from: Record<string, unknown>, to: Record<string, unknown>, ignore: Set<string>): ChartConfigFieldChange[] {
+  const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])].filter((key) => !ignore.has(key)).sort();
+  return keys
+    .filter((key) => !sameValue(from[key], to[key]))
+    .map((key) => ({ key, from: from[key] ?? null, to: to[key] ?? null }));
+}
+
+function toSnapshot(configuration: Document): ChartConfigSnapshot {
+  const { _id, ...snapshot } = configuration;
+  return snapshot as ChartConfigSnapshot;
+}
+
+function normalizeRevision(doc: Document): ChartConfigRevision {
+  return {
+    _id: doc._id.toString(),
+    configurationId: doc.configurationId,
+    chartId: doc.chartId,
+    revision: doc.revision,
+    action: doc.action,
+    snapshot: doc.snapshot,
+    reason: doc.reason || undefined,
+    restoredFrom: typeof doc.restoredFrom === 'number' ? doc.restoredFrom : undefined,
+    authorId: doc.authorId,
+    authorEmail: doc.authorEmail,
+    createdAt: doc.createdAt,
+  };
+}
+
+// ==========================================
+// Diff (pure)
+// ==========================================
+
+const IGNORED_ELEMENT_KEYS = new Set(['id', 'formula']);
+
+/**
+ * What changed from `from` to `to`: chart-level fields, and per element (matched
+ * by element id, else by position) whether it was added, removed or changed,
+ * with its formula before and after.
+ */
+export function diffChartConfigurations(
+  from: Partial<ChartConfigSnapshot> | null,
+  to: Partial<ChartConfigSnapshot> | null
+): ChartConfigDiff {
+  const before = (from || {}) as Record<string, unknown>;
+  const after = (to || {}) as Record<string, unknown>;
+  const fields = changedKeys(before, after, IGNORED_KEYS);
+
+  const keyed = (elements: ChartConfiguration['elements'] | undefined) =>
+    new Map((elements || []).map((element, index) => [element.id || `#${index}`, element]));
+  const fromElements = keyed(from?.elements);
+  const toElements = keyed(to?.elements);
+  const elementIds = [...new Set([...toElements.keys(), ...fromElements.keys()])];
+
+  const elements = elementIds.flatMap((elementId): ChartConfigElementChange[] => {
+    const a = fromElements.get(elementId);
+    const b = toElements.get(elementId);
+    const formula = sameValue(a?.formula, b?.formula) ? null : { from: a?.formula ?? null, to: b?.formula ?? null };
+    const changes = changedKeys(
+      (a || {}) as unknown as Record<string, unknown>,
+      (b || {}) as unknown as Record<string, unknown>,
+      IGNORED_ELEMENT_KEYS
+    );
+    if (a && b && !formula && changes.length === 0) return [];
+    return [{
+      elementId,
+      label: (b || a)!.label,
+      status: !a ? 'added' : !b ? 'removed' : 'changed',
+      formula,
+      changes,
+    }];
+  });
+
+  return { fields, elements, hasChanges: fields.length > 0 || elements.length > 0 };
+}
+
+/**
+ * A diff as audit log `changes`: `title`, `elements.<id>.formula`, …
+ */
+export function diffToAuditChanges(diff: ChartConfigDiff): { field: string; before: unknown; after: unknown }[] {
+  return [
+    ...diff.fields.map((change) => ({ field: change.key, before: change.from, after: change.to })),
+    ...diff.elements.flatMap((element) => [
+      ...(element.formula ? [{ field: `elements.${element.elementId}.formula`, before: element.formula.from, after: element.formula.to }] : []),
+      ...element.changes.map((change) => ({ field: `elements.${element.elementId}.${change.key}`, before: change.from, after: change.to })),
+    ]),
+  ];
+}
+
+// ==========================================
+// Persistence
+// ==========================================
+
+export async function ensureChartConfigRevisionIndexes(db: Db): Promise<void> {
+  await db.collection(CHART_CONFIG_REVISIONS_COLLECTION).createIndex({ configurationId: 1, revision: 1 }, { unique: true });
+}
+
+async function insertRevision(
+  db: Db,
+  configurationId: string,
+  fields: Omit<ChartConfigRevision, '_id' | 'configurationId' | 'revision' | 'chartId' | 'createdAt'> & { createdAt?: string }
+): Promise<ChartConfigRevision> {
+  const collection = db.collection(CHART_CONFIG_REVISIONS_COLLECTION);
+  // WHAT: Next number, retried on the unique (configurationId, revision)
+  //     index if two saves race.
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const latest = await collection.find({ configurationId }).sort({ revision: -1 }).limit(1).next();
+    const document = {
+      configurationId,
+      chartId: fields.snapshot.chartId,
+      revision: (latest?.revision || 0) + 1,
+      action: fields.action,
+      snapshot: fields.snapshot,
+      reason: fields.reason?.trim() || null,
+      restoredFrom: fields.restoredFrom ?? null,
+      authorId: fields.authorId,
+      authorEmail: fields.authorEmail,
+      createdAt: fields.createdAt || new Date().toISOString(),
+    };
+    try {
+      const result = await collection.insertOne(document);
+      return normalizeRevision({ ...document, _id: result.insertedId });
+    } catch (err) {
+      if ((err as { code?: number }).code !== 11000) throw err;
+    }
+  }
+  throw revisionError('Could not allocate a revision number, please retry', 409, 'REVISION_CONFLICT');
+}
+
+/**
+ * Store a revision for a chart configuration that was just saved, and audit it.
+ *
+ * `before` is the document as it was before the save (null on create). For
+ * `delete`, pass the deleted document as both — the revision keeps it so the
+ * chart can be restored.
+ */
+export async function recordChartConfigRevision(
+  db: Db,
+  input: {
+    configuration: Document;
+    before: Document | null;
+    action: Exclude<ChartConfigRevisionAction, 'baseline'>;
+    author: ChartConfigRevisionAuthor;
+    request: NextRequest;
+    reason?: string;
+    restoredFrom?: number;
+  }
+): Promise<ChartConfigRevision> {
+  const configurationId = input.configuration._id.toString();
+  await ensureChartConfigRevisionIndexes(db);
+
+  // WHAT: First edit of a configuration saved before revisions existed
+  if (input.before && input.action !== 'delete') {
+    const hasHistory = await db.collection(CHART_CONFIG_REVISIONS_COLLECTION).findOne({ configurationId });
+    if (!hasHistory) {
+      await insertRevision(db, configurationId, {
+        action: 'baseline',
+        snapshot: toSnapshot(input.before),
+        reason: 'State before revision history',
+        authorId: input.before.lastModifiedBy || input.before.createdBy || 'unknown',
+        authorEmail: '',
+        createdAt: input.before.updatedAt || input.before.createdAt,
+      });
+    }
+  }
+
+  const snapshot = toSnapshot(input.configuration);
+  const revision = await insertRevision(db, configurationId, {
+    action: input.action,
+    snapshot,
+    reason: input.reason,
+    restoredFrom: input.restoredFrom,
+    authorId: input.author.id,
+    authorEmail: input.author.email,
+  });
+
+  // WHAT: The audit entry is secondary to the save that already happened;
+  //     a failed write is logged, not surfaced as a failed save
+  const diff = input.action === 'delete'
+    ? diffChartConfigurations(snapshot, null)
+    : diffChartConfigurations(input.before ? toSnapshot(input.before) : null, snapshot);
+  try {
+    await createAuditLog({
+      resource: { type: 'chart_configuration', id: configurationId, label: snapshot.chartId },
+      userId: input.author.id,
+      userEmail: input.author.email,
+      action: AUDIT_ACTIONS[input.action],
+      changes: diffToAuditChanges(diff),
+      metadata: { revision: revision.revision, reason: revision.reason, restoredFrom: revision.restoredFrom },
+      request: input.request,
+    });
+  } catch (err) {
+    logWarn(
+      'Chart configuration audit log write failed',
+      { context: 'chart-config-revisions', configurationId },
+      err instanceof Error ? err : new Error(String(err))
+    );
+  }
+
+  return revision;
+}
+
+export async function listChartConfigRevisions(db: Db, configurationId: string): Promise<ChartConfigRevision[]> {
+  const docs = await db
+    .collection(CHART_CONFIG_REVISIONS_COLLECTION)
+    .find({ configurationId })
+    .sort({ revision: -1 })
+    .toArray();
+  return docs.map(normalizeRevision);
+}
+
+async function requireRevision(db: Db, configurationId: string, revision: number): Promise<ChartConfigRevision> {
+  const doc = Number.isInteger(revision) && revision > 0
+    ? await db.collection(CHART_CONFIG_REVISIONS_COLLECTION).findOne({ configurationId, revision })
+    : null;
+  if (!doc) throw revisionError(`Revision ${revision} not found`, 404, 'REVISION_NOT_FOUND');
+  return normalizeRevision(doc);
+}
+
+/**
+ * Diff two revisions of a configuration; `'current'` stands for the live
+ * document (null once it was deleted).
+ */
+export async function diffChartConfigRevisions(
+  db: Db,
+  configurationId: string,
+  from: number | 'current',
+  to: number | 'current'
+): Promise<ChartConfigDiff> {
+  const load = async (side: number | 'current') => {
+    if (side !== 'current') return (await requireRevision(db, configurationId, side)).snapshot;
+    const current = ObjectId.isValid(configurationId)
+      ? await db.collection('chart_configurations').findOne({ _id: new ObjectId(configurationId) })
+      : null;
+    return current ? toSnapshot(current) : null;
+  };
+  return diffChartConfigurations(await load(from), await load(to));
+}
+
+/**
+ * Put a configuration back to a revision's snapshot — exactly, fields added
+ * since are dropped — and record that as a new `restore` revision. A deleted
+ * configuration is recreated under its old id.
+ */
+export async function restoreChartConfigRevision(
+  db: Db,
+  configurationId: string,
+  revision: number,
+  input: { author: ChartConfigRevisionAuthor; request: NextRequest; reason?: string }
+): Promise<{ configuration: ChartConfiguration; revision: ChartConfigRevision }> {
+  if (!ObjectId.isValid(configurationId)) throw revisionError('Invalid configuration ID', 400, 'INVALID_ID');
+  const target = await requireRevision(db, configurationId, revision);
+  const _id = new ObjectId(configurationId);
+  const collection = db.collection('chart_configurations');
+  const current = await collection.findOne({ _id });
+
+  if (target.snapshot.chartId !== current?.chartId) {
+    const conflict = await collection.findOne({ chartId: target.snapshot.chartId, _id: { $ne: _id } });
+    if (conflict) {
+      throw revisionError(`Chart ID "${target.snapshot.chartId}" is now used by another chart`, 409, 'CHART_ID_CONFLICT');
+    }
+  }
+
+  const restored = {
+    ...target.snapshot,
+    createdAt: current?.createdAt ?? target.snapshot.createdAt,
+    createdBy: current?.createdBy ?? target.snapshot.createdBy,
+    updatedAt: new Date().toISOString(),
+    lastModifiedBy: input.author.id,
+  };
+  await collection.replaceOne({ _id }, restored, { upsert: true });
+
+  const saved = { ...restored, _id };
+  const recorded = await recordChartConfigRevision(db, {
+    configuration: saved,
+    before: current,
+    action: 'restore',
+    author: input.author,
+    request: input.request,
+    reason: input.reason || `Restored revision ${revision}`,
+    restoredFrom: revision,
+  });
+  return { configuration: { ...restored, _id: configurationId }, revision: recorded };
+}
@@ -229,6 +229,7 @@ export interface AvailableVariable {
 export interface FormulaValidationResult {
   isValid: boolean;
   error?: string;
+  errorPosition?: { start: number; end: number }; // 0-based character span of a syntax error (end exclusive)
   usedVariables: string[]; // List of variables used in the formula
   evaluatedResult?: number | 'NA'; // Test evaluation result
 }
@@ -11,5 +11,6 @@ export const V3_COLLECTIONS = {
   RELATIONSHIPS: 'v3_relationships',
   PARTICIPANTS: 'v3_participants',
   METRIC_THRESHOLDS: 'v3_metric_thresholds',
+  METRIC_ALERTS: 'v3_metric_alerts',
   MIGRATION_HISTORY: 'v3_migration_history',
 } as const;
@@ -0,0 +1,43 @@
+// lib/derivedVariableConfig.ts
+// WHAT: Built-in derived_variable_config — the event editor totals and fallbacks
+//     used until an admin saves the `default` document.
+// WHY: The editor (GET /api/derived-variable-config) and the dependency graph
+//     (lib/variableDependencies.ts) must see the same totals when no document
+//     exists, or a cycle through e.g. [totalGender] goes unnoticed.
+
+export const DEFAULT_DERIVED_VARIABLE_CONFIG = {
+  totals: [
+    { key: 'totalGender', label: 'Gender total', formula: '[female]+[male]' },
+    { key: 'totalUnder40', label: 'Under 40', formula: '[genAlpha]+[genYZ]' },
+    { key: 'totalOver40', label: 'Over 40', formula: '[genX]+[boomer]' },
+    { key: 'totalAge', label: 'Age total', formula: '[genAlpha]+[genYZ]+[genX]+[boomer]' },
+    { key: 'totalMerch', label: 'Merch total', formula: '[merched]+[jersey]+[scarf]+[flags]+[baseballCap]+[other]' },
+  ],
+  fans: { remoteFansVar: 'remoteFans', stadiumVar: 'stadium', remoteFansFallbackFormula: '[indoor]+[outdoor]' },
+  // WHAT: Estimate manual-clicker fields from fanmass's AI-detected demographics when the
+  //     manual clicker was never used for this event.
+  // WHY: male/female are raw headcounts from the operator's clicker; fanmassGenderMalePct/
+  //     fanmassGenderFemalePct are AI percentages of a DIFFERENT, usually much larger,
+  //     photo-sampled population (fanmassDemographicsAnalyzed) — different units, different
+  //     population, so they can never be merged into one field (unlike a name-typo dupe).
+  //     But on events where nobody used the clicker (male=0 AND female=0, confirmed against
+  //     4 real events) while fanmass DID run, the operator's zero is a "never recorded" default,
+  //     not a real "zero fans" measurement — an estimate from the AI data is strictly better
+  //     than showing zero fans attended.
+  // HOW: The "should I use the fallback" decision (are ALL triggerVars exactly 0?) stays a
+  //     config condition because the editor evaluates it (EditorDashboard.tsx), not the
+  //     formula engine — IF() and ?: would work, but the editor applies the estimate only
+  //     where it shows the fields. Only the estimate arithmetic itself is formula-driven, so
+  //     a rename of any of these variables still propagates via the /admin/kyc merge like
+  //     everything else in this config.
+  fallbackGroups: [
+    {
+      label: 'Gender (fanmass AI estimate when the manual clicker was never used)',
+      triggerVars: ['male', 'female'],
+      entries: [
+        { key: 'male', label: 'Male (fanmass estimate)', formula: '([fanmassGenderMalePct]/100)*[fanmassDemographicsAnalyzed]' },
+        { key: 'female', label: 'Female (fanmass estimate)', formula: '([fanmassGenderFemalePct]/100)*[fanmassDemographicsAnalyzed]' },
+      ],
+    },
+  ],
+};
@@ -1,7 +1,8 @@
 // lib/emailNotifications.ts
 // WHAT: Email transport utility for {messmass}
 // WHY: Send the transactional emails the app actually uses (admin password
-//      regeneration, and an email config self-test).
+//      regeneration, scheduled report deliveries with a PDF attachment, partner
+//      portal sign-in links, and an email config self-test).
 // HOW: Calls camera's shared internal email service
 //      (POST /api/internal/messmass/email/send is NOT a route -- the actual
 //      path is POST /api/internal/email/send on camera) instead of talking to
@@ -31,10 +32,19 @@ function emailServiceConfigured(): boolean {
   return Boolean(config.cameraBaseUrl && config.cameraProvisionToken);
 }
 
+// WHAT: File attached to an outgoing email, base64-encoded on the wire.
+// WHY: Camera passes `attachments` through to Resend, whose API takes exactly
+//     { filename, content (base64) }. Scheduled report deliveries attach the PDF.
+export interface EmailAttachment {
+  filename: string;
+  content: Buffer;
+}
+
 async function sendViaCameraEmailService(params: {
   to: string;
   subject: string;
   html: string;
+  attachments?: EmailAttachment[];
 }): Promise<{ sent: boolean; error?: string }> {
   if (!emailServiceConfigured()) {
     console.error('Email send skipped: CAMERA_BASE_URL / CAMERA_MESSMASS_INTERNAL_SECRET not configured');
@@ -49,7 +59,15 @@ async function sendViaCameraEmailService(params: {
         'x-messmass-secret': cameraToken(),
         authorization: `Bearer ${cameraToken()}`,
       },
-      body: JSON.stringify({ to: params.to, subject: params.subject, html: params.html, fromName: 'messmass' }),
+      body: JSON.stringify({
+        to: params.to,
+        subject: params.subject,
+        html: params.html,
+        fromName: 'messmass',
+        ...(params.attachments?.length
+          ? { attachments: params.attachments.map((a) => ({ filename: a.filename, content: a.content.toString('base64') })) }
+          : {}),
+      }),
     });
 
     const json = (await res.json().catch(() => ({}))) as {
@@ -134,3 +152,102 @@ export async function sendPasswordRegeneratedEmail(params: {
   }
   return result.sent;
 }
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * WHAT: Send a scheduled report delivery (lib/reportSchedules.ts)
+ * WHY: Partners/organizations receive their report without opening the page;
+ *      the PDF is attached and the link opens the live report. The link is
+ *      time-limited when the page is password protected, so the email never
+ *      carries the page password.
+ */
+export async function sendScheduledReportEmail(params: {
+  to: string;
+  reportName: string;
+  periodLabel: string;
+  reportUrl: string;
+  linkExpiresAt?: string;
+  pdf: EmailAttachment;
+}): Promise<{ sent: boolean; error?: string }> {
+  const expiry = params.linkExpiresAt
+    ? `<p><small>This link stays valid until ${escapeHtml(params.linkExpiresAt.slice(0, 10))}.</small></p>`
+    : '';
+  return sendViaCameraEmailService({
+    to: params.to,
+    subject: `📊 ${params.reportName} — ${params.periodLabel}`,
+    html: `
+      <h2>${escapeHtml(params.reportName)}</h2>
+      <p>Your scheduled report for <strong>${escapeHtml(params.periodLabel)}</strong> is attached as a PDF.</p>
+      <p><a href="${escapeHtml(params.reportUrl)}">Open the live report</a></p>
+      ${expiry}
+      <hr>
+      <p><small>This is an automated report from {messmass}. Contact your account manager to change the recipients or schedule.</small></p>
+    `,
+    attachments: [params.pdf],
+  });
+}
+
+/**
+ * WHAT: Send a partner portal invitation or sign-in link (lib/partnerPortal.ts)
+ * WHY: Portal accounts have no password; the emailed one-time link is the sign-in
+ */
+export async function sendPartnerPortalLinkEmail(params: {
+  to: string;
+  contactName: string;
+  partnerName: string;
+  link: string;
+  expiresAt: string;
+  purpose: 'invite' | 'login';
+}): Promise<{ sent: boolean; error?: string }> {
+  const invite = params.purpose === 'invite';
+  const expires = new Date(params.expiresAt).toISOString().replace('T', ' ').slice(0, 16);
+  return sendViaCameraEmailService({
+    to: params.to,
+    subject: invite ? `You're invited to the ${params.partnerName} portal` : `Your ${params.partnerName} portal sign-in link`,
+    html: `
+      <h2>${escapeHtml(params.partnerName)} portal</h2>
+      <p>Hello ${escapeHtml(params.contactName)},</p>
+      <p>${invite
+        ? 'You have been invited to the partner portal, where you can see your events, published reports, link performance and exports.'
+        : 'Use the link below to sign in to the partner portal.'}</p>
+      <p><a href="${escapeHtml(params.link)}">${invite ? 'Accept the invitation' : 'Sign in'}</a></p>
+      <p><small>The link works once and expires ${escapeHtml(expires)} UTC. If you did not expect this email you can ignore it.</small></p>
+      <hr>
+      <p><small>This is an automated message from {messmass}.</small></p>
+    `,
+  });
+}
+
+/**
+ * WHAT: Send a v3 metric threshold alert (lib/v3/thresholdAlerts.ts)
+ * WHY: The threshold's alertEmail hears about a breach without watching the
+ *      dashboard; the evaluator's cooldown keeps this to one email per breach.
+ */
+export async function sendMetricThresholdAlertEmail(params: {
+  to: string;
+  entityName: string;
+  metricKey: string;
+  value: number;
+  conditionLabel: string;
+  windowLabel: string;
+}): Promise<{ sent: boolean; error?: string }> {
+  return sendViaCameraEmailService({
+    to: params.to,
+    subject: `🚨 ${params.entityName}: ${params.metricKey} ${params.conditionLabel}`,
+    html: `
+      <h2>Metric threshold reached</h2>
+      <p><strong>${escapeHtml(params.entityName)}</strong> — <code>${escapeHtml(params.metricKey)}</code>
+        is <strong>${params.value}</strong> (${escapeHtml(params.windowLabel)}), which is ${escapeHtml(params.conditionLabel)}.</p>
+      <p>You will not be emailed about this threshold again until the value returns to normal.</p>
+      <hr>
+      <p><small>This is an automated alert from {messmass}. Contact your account manager to change the threshold or recipient.</small></p>
+    `,
+  });
+}
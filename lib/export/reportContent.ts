@@ -0,0 +1,20 @@
+// lib/export/reportContent.ts
+// WHAT: Plain-text readings of the markdown that text and table charts carry.
+// WHY: The server-side exports (reportPdf, reportXlsx, reportPptx) have no
+//     markdown renderer, and must all read a table chart the same way.
+
+// WHAT: Markdown text without heading/emphasis markers, which read as noise
+//     outside a rendered page.
+export function plainMarkdownText(text: string): string {
+  return text.replace(/^#{1,6}\s+/gm, '').replace(/(\*\*|__|\*|_|`)/g, '');
+}
+
+// WHAT: The rows of a markdown table (the table chart's content), header row
+//     first, separator rows dropped. Empty when the content is not a table.
+export function markdownTableRows(markdown: string): string[][] {
+  return markdown
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith('|') && !/^\|?[\s:|-]+\|?$/.test(line))
+    .map((line) => line.replace(/^\||\|$/g, '').split('|').map((c) => c.trim()));
+}
@@ -0,0 +1,135 @@
+// lib/export/reportExport.ts
+// WHAT: Server-side report downloads in every format — PDF, XLSX workbook,
+//     PPTX deck — from one ReportSnapshot (lib/reportSnapshot.ts).
+// WHY: /api/reports/[slug]/pdf, /api/reports/[slug]/export and the v3
+//     reporting export all hand out the same files; the auth gate, naming and
+//     caching rules must not drift between them.
+
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getDb } from '@/lib/db';
+import { requireAPIAuth } from '@/lib/apiAuth';
+import { requirePageAccess } from '@/lib/pageAccess';
+import { resolvePartnerIdentifier } from '@/lib/partnerIdentifier';
+import { getReportVariantPageId } from '@/lib/reportVariants';
+import { buildReportSnapshot, REPORT_SNAPSHOT_TYPES, type ReportSnapshot, type ReportSnapshotType } from '@/lib/reportSnapshot';
+import type { PageType } from '@/lib/pagePassword';
+import { error as logError } from '@/lib/logger';
+import { renderReportPdf } from './reportPdf';
+import { renderReportXlsx } from './reportXlsx';
+import { renderReportPptx } from './reportPptx';
+
+export type ReportExportFormat = 'pdf' | 'xlsx' | 'pptx';
+
+export const REPORT_EXPORT_FORMATS: ReportExportFormat[] = ['pdf', 'xlsx', 'pptx'];
+
+const CONTENT_TYPES: Record<ReportExportFormat, string> = {
+  pdf: 'application/pdf',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+const PAGE_TYPES: Record<ReportSnapshotType, PageType> = {
+  event: 'event-report',
+  partner: 'partner-report',
+  organization: 'organization-report',
+  hashtag: 'hashtag',
+  filter: 'filter',
+};
+
+export async function renderReportExport(snapshot: ReportSnapshot, format: ReportExportFormat): Promise<Buffer> {
+  if (format === 'xlsx') return renderReportXlsx(snapshot);
+  if (format === 'pptx') return renderReportPptx(snapshot);
+  return renderReportPdf(snapshot);
+}
+
+export function reportExportFileName(snapshot: ReportSnapshot, format: ReportExportFormat): string {
+  const title = snapshot.variantName && snapshot.variantName !== snapshot.ownerName
+    ? `${snapshot.ownerName}-${snapshot.variantName}`
+    : snapshot.ownerName;
+  return `${title.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'report'}.${format}`;
+}
+
+// WHAT: The download response for a rendered report, with an ETag so an
+//     unchanged PDF is not sent twice. (XLSX/PPTX archives embed their write
+//     time, so their ETag only short-circuits an immediate retry.)
+export function reportExportResponse(
+  request: Request,
+  snapshot: ReportSnapshot,
+  format: ReportExportFormat,
+  file: Buffer
+): NextResponse {
+  const etag = `"${createHash('sha256').update(file).digest('hex').slice(0, 32)}"`;
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+  }
+  return new NextResponse(new Uint8Array(file), {
+    status: 200,
+    headers: {
+      'Content-Type': CONTENT_TYPES[format],
+      'Content-Disposition': `attachment; filename="${reportExportFileName(snapshot, format)}"`,
+      'Content-Length': String(file.length),
+      'Cache-Control': 'private, no-cache',
+      ETag: etag,
+    },
+  });
+}
+
+/**
+ * GET handler body shared by /api/reports/[slug]/pdf and /api/reports/[slug]/export.
+ * ?type=event|partner|organization|hashtag|filter (default event), ?variant=<slug>.
+ * AUTH: API clients send a Bearer API key (requireAPIAuth). Browser callers
+ * pass the report's page password gate, and the variant's when it has its
+ * own — no-op for unprotected reports, otherwise an admin session or a page
+ * grant.
+ */
+export async function handleReportExportRequest(
+  request: NextRequest,
+  rawSlug: string,
+  format: ReportExportFormat
+): Promise<NextResponse> {
+  const slug = decodeURIComponent(rawSlug);
+  const type = (request.nextUrl.searchParams.get('type') || 'event') as ReportSnapshotType;
+  const variant = request.nextUrl.searchParams.get('variant');
+
+  try {
+    if (!REPORT_SNAPSHOT_TYPES.includes(type)) {
+      return NextResponse.json(
+        { success: false, error: `type must be one of: ${REPORT_SNAPSHOT_TYPES.join(', ')}`, code: 'INVALID_REPORT_TYPE' },
+        { status: 400 }
+      );
+    }
+
+    const db = await getDb();
+    if (request.headers.get('authorization')) {
+      const auth = await requireAPIAuth(request);
+      if (!auth.success) return auth.response!;
+    } else {
+      // WHAT: Gate on the id the page itself is protected under — partners by
+      //     their canonical slug, as in app/partner-report/[slug]/page.tsx.
+      const pageId = type === 'partner'
+        ? (await resolvePartnerIdentifier(db, slug))?.canonicalSlug || slug
+        : slug;
+      const denied = await requirePageAccess(PAGE_TYPES[type], pageId, { download: true });
+      if (denied) return denied;
+      // A variant can carry its own password ("<base>::variant=<slug>"), on top of the base report's
+      if (variant) {
+        const variantDenied = await requirePageAccess(PAGE_TYPES[type], getReportVariantPageId(pageId, variant), { download: true });
+        if (variantDenied) return variantDenied;
+      }
+    }
+
+    const snapshot = await buildReportSnapshot(db, type, slug, variant);
+    return reportExportResponse(request, snapshot, format, await renderReportExport(snapshot, format));
+  } catch (err) {
+    const status = (err as { status?: number }).status ?? (err instanceof Error && /not found/i.test(err.message) ? 404 : 500);
+    const code = (err as { code?: string }).code;
+    if (status >= 500) {
+      logError(`GET /api/reports/[slug] ${format} export error`, { context: 'report-export', format, type, slug }, err instanceof Error ? err : new Error(String(err)));
+    }
+    return NextResponse.json(
+      { success: false, error: status >= 500 ? `Could not render the report ${format.toUpperCase()}.` : (err as Error).message, code },
+      { status }
+    );
+  }
+}
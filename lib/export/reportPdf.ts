@@ -0,0 +1,351 @@
+// lib/export/reportPdf.ts
+// WHAT: Render a ReportSnapshot (lib/reportSnapshot.ts) to a paginated vector
+//     PDF on the server.
+// WHY: lib/export/pdf.ts rasterises the live DOM with html2canvas, so its
+//     output depends on the viewer's window size and fonts and it only runs in
+//     a browser tab. Scheduled deliveries and /api/reports/[slug]/pdf need the
+//     same file every time, without a browser.
+// HOW: jsPDF draws text and shapes directly. Each block is one row, exactly as
+//     on the web (a block never wraps): its height and each chart's width come
+//     from lib/layoutV2BlockCalculator.ts with the A4 content width in place of
+//     the browser width. A block that does not fit the rest of the page starts
+//     a new one. Nothing time- or environment-dependent reaches the file — the
+//     creation date is the data's last update and the file id is a hash of the
+//     snapshot — so identical data renders to identical bytes. Text is set in
+//     DejaVu Sans, embedded from the dejavu-fonts-ttf package: the standard
+//     PDF fonts only encode WinAnsi, which has no ő or ű for Hungarian names.
+
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { jsPDF } from 'jspdf';
+import type { ReportSnapshot, ReportSnapshotBlock, ReportSnapshotChart } from '@/lib/reportSnapshot';
+import { calculateLayoutV2BlockDimensions, calculateLayoutV2ItemWidth } from '@/lib/layoutV2BlockCalculator';
+import { formatChartValue } from '@/lib/formatChartValue';
+import { markdownTableRows, plainMarkdownText } from './reportContent';
+
+const PAGE_MARGIN = 15; // mm
+const FOOTER_HEIGHT = 8; // mm reserved at the bottom of every page
+const CELL_GAP = 3; // mm between charts in a row
+const CELL_PADDING = 3; // mm inside a chart cell
+const BLOCK_TITLE_HEIGHT = 9; // mm
+const BLOCK_SPACING = 5; // mm after each block
+const PT_TO_MM = 0.3528;
+
+// Embedded as FONT_FAMILY; also traced into the PDF routes (next.config.js)
+const FONT_DIR = path.join(process.cwd(), 'node_modules', 'dejavu-fonts-ttf', 'ttf');
+const FONT_FAMILY = 'DejaVuSans';
+const FONT_FILES = { normal: 'DejaVuSans.ttf', bold: 'DejaVuSans-Bold.ttf' } as const;
+
+// Fallback series colours for elements without their own
+const PALETTE = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899', '#84cc16'];
+const TEXT_COLOR = '#111827';
+const MUTED_COLOR = '#6b7280';
+const BORDER_COLOR = '#e5e7eb';
+
+function colorFor(color: string | undefined, index: number): string {
+  return color && /^#[0-9a-f]{6}$/i.test(color) ? color : PALETTE[index % PALETTE.length];
+}
+
+function lineHeight(fontSize: number): number {
+  return fontSize * PT_TO_MM * 1.25;
+}
+
+// WHAT: Stable file identity for identical snapshots (PDF /ID entry).
+function snapshotFileId(snapshot: ReportSnapshot): string {
+  return createHash('sha256').update(JSON.stringify(snapshot)).digest('hex').slice(0, 32).toUpperCase();
+}
+
+// WHAT: The TTF files as base64, read once per process (jsPDF's VFS is per document).
+let fontData: Record<keyof typeof FONT_FILES, string> | null = null;
+
+function embedFonts(doc: jsPDF): void {
+  fontData ??= {
+    normal: fs.readFileSync(path.join(FONT_DIR, FONT_FILES.normal)).toString('base64'),
+    bold: fs.readFileSync(path.join(FONT_DIR, FONT_FILES.bold)).toString('base64'),
+  };
+  for (const style of ['normal', 'bold'] as const) {
+    doc.addFileToVFS(FONT_FILES[style], fontData[style]);
+    doc.addFont(FONT_FILES[style], FONT_FAMILY, style);
+  }
+}
+
+interface Cell {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+class ReportPdfRenderer {
+  private readonly doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4', compress: true });
+  private readonly pageWidth = this.doc.internal.pageSize.getWidth();
+  private readonly pageHeight = this.doc.internal.pageSize.getHeight();
+  private readonly contentWidth = this.pageWidth - PAGE_MARGIN * 2;
+  private readonly contentBottom = this.pageHeight - PAGE_MARGIN - FOOTER_HEIGHT;
+  private y = PAGE_MARGIN;
+  private pageTop = PAGE_MARGIN; // where content starts on the current page
+
+  constructor(private readonly snapshot: ReportSnapshot) {
+    embedFonts(this.doc);
+  }
+
+  render(): Buffer {
+    const { doc, snapshot } = this;
+    const created = snapshot.dataUpdatedAt ? new Date(snapshot.dataUpdatedAt) : new Date(0);
+    doc.setCreationDate(created);
+    doc.setFileId(snapshotFileId(snapshot));
+    doc.setDocumentProperties({ title: this.documentTitle(), creator: '{messmass}' });
+
+    this.renderHeader();
+    snapshot.blocks.forEach((block) => this.renderBlock(block));
+    this.renderFooters();
+    return Buffer.from(doc.output('arraybuffer'));
+  }
+
+  private documentTitle(): string {
+    const { ownerName, variantName } = this.snapshot;
+    return variantName && variantName !== ownerName ? `${ownerName} — ${variantName}` : ownerName;
+  }
+
+  private setFont(size: number, style: 'normal' | 'bold' = 'normal', color = TEXT_COLOR): void {
+    this.doc.setFont(FONT_FAMILY, style);
+    this.doc.setFontSize(size);
+    this.doc.setTextColor(color);
+  }
+
+  // WHAT: Wrap `text` to `width`, keeping at most `maxLines` (last one ellipsised).
+  private wrap(text: string, width: number, maxLines: number): string[] {
+    const lines = this.doc.splitTextToSize(text, width) as string[];
+    if (lines.length <= maxLines) return lines;
+    const kept = lines.slice(0, Math.max(maxLines, 0));
+    if (kept.length > 0) kept[kept.length - 1] = `${kept[kept.length - 1].replace(/\s*\S{0,3}$/, '')}…`;
+    return kept;
+  }
+
+  private renderHeader(): void {
+    const { snapshot, doc } = this;
+    this.setFont(20, 'bold');
+    for (const line of this.wrap(this.documentTitle(), this.contentWidth, 2)) {
+      this.y += lineHeight(20);
+      doc.text(line, PAGE_MARGIN, this.y);
+    }
+
+    const details = [
+      snapshot.periodLabel,
+      snapshot.reportType === 'event' ? null : `${snapshot.eventCount} event${snapshot.eventCount === 1 ? '' : 's'}`,
+      snapshot.dataUpdatedAt ? `data as of ${snapshot.dataUpdatedAt.slice(0, 10)}` : null,
+    ].filter(Boolean).join('  ·  ');
+    this.setFont(10, 'normal', MUTED_COLOR);
+    this.y += lineHeight(10) + 1;
+    doc.text(details, PAGE_MARGIN, this.y);
+
+    this.y += 4;
+    doc.setDrawColor(BORDER_COLOR);
+    doc.setLineWidth(0.3);
+    doc.line(PAGE_MARGIN, this.y, PAGE_MARGIN + this.contentWidth, this.y);
+    this.y += BLOCK_SPACING;
+    this.pageTop = this.y;
+  }
+
+  private renderBlock(block: ReportSnapshotBlock): void {
+    const titleHeight = block.showTitle && block.title ? BLOCK_TITLE_HEIGHT : 0;
+    const dims = calculateLayoutV2BlockDimensions(
+      block.charts.map((chart) => ({ width: chart.width, type: chart.type })),
+      this.contentWidth,
+      block.blockAspectRatio,
+      block.tableHeightMultiplier
+    );
+    if (this.y > this.pageTop && this.y + titleHeight + dims.blockHeight > this.contentBottom) {
+      this.doc.addPage();
+      this.y = PAGE_MARGIN;
+      this.pageTop = PAGE_MARGIN;
+    }
+    // A block taller than a whole page (e.g. a tall table) is shrunk to fit it.
+    const rowHeight = Math.min(dims.blockHeight, this.contentBottom - this.y - titleHeight);
+
+    if (titleHeight) {
+      this.setFont(13, 'bold');
+      this.doc.text(this.wrap(block.title, this.contentWidth, 1)[0] || '', PAGE_MARGIN, this.y + lineHeight(13));
+      this.y += titleHeight;
+    }
+
+    // WHAT: Item widths follow the LayoutV2 unit split; the gaps come out of
+    //     the row evenly, like a CSS grid gap.
+    const available = this.contentWidth - CELL_GAP * (block.charts.length - 1);
+    let x = PAGE_MARGIN;
+    block.charts.forEach((chart) => {
+      const width = calculateLayoutV2ItemWidth(chart.width || 1, dims.totalUnits, available);
+      this.renderChart(chart, { x, y: this.y, width, height: rowHeight });
+      x += width + CELL_GAP;
+    });
+
+    this.y += rowHeight + BLOCK_SPACING;
+  }
+
+  private renderChart(chart: ReportSnapshotChart, cell: Cell): void {
+    const { doc } = this;
+    doc.setDrawColor(BORDER_COLOR);
+    doc.setLineWidth(0.3);
+    doc.roundedRect(cell.x, cell.y, cell.width, cell.height, 2, 2, 'S');
+
+    const inner: Cell = {
+      x: cell.x + CELL_PADDING,
+      y: cell.y + CELL_PADDING,
+      width: cell.width - CELL_PADDING * 2,
+      height: cell.height - CELL_PADDING * 2,
+    };
+
+    if (chart.showTitle !== false && chart.title) {
+      this.setFont(9, 'bold', MUTED_COLOR);
+      const lines = this.wrap(chart.title, inner.width, 2);
+      lines.forEach((line, i) => doc.text(line, inner.x, inner.y + lineHeight(9) * (i + 1)));
+      const used = lineHeight(9) * lines.length + 2;
+      inner.y += used;
+      inner.height -= used;
+    }
+    if (inner.height <= 0) return;
+
+    switch (chart.type) {
+      case 'pie':
+        this.renderPie(chart, inner);
+        break;
+      case 'bar':
+      case 'valuechain':
+        this.renderBars(chart, inner);
+        break;
+      case 'text':
+        this.renderText(String(chart.kpiValue ?? ''), inner);
+        break;
+      case 'table':
+        this.renderTable(String(chart.kpiValue ?? ''), inner);
+        break;
+      case 'image':
+        this.renderImagePlaceholder(inner);
+        break;
+      default:
+        this.renderValue(formatChartValue(chart.kpiValue, chart.formatting), inner);
+    }
+  }
+
+  // WHAT: A single headline number, as large as the cell allows.
+  private renderValue(text: string, cell: Cell): void {
+    let size = 28;
+    this.setFont(size, 'bold');
+    while (size > 10 && (this.doc.getTextWidth(text) > cell.width || lineHeight(size) > cell.height)) {
+      size -= 2;
+      this.setFont(size, 'bold');
+    }
+    this.doc.text(text, cell.x + cell.width / 2, cell.y + cell.height / 2 + (size * PT_TO_MM) / 3, { align: 'center' });
+  }
+
+  // WHAT: Pie as a 100% stacked bar plus a legend — same proportions, no arcs.
+  private renderPie(chart: ReportSnapshotChart, cell: Cell): void {
+    const elements = (chart.elements || []).filter((e) => typeof e.value === 'number' && e.value > 0);
+    const total = elements.reduce((sum, e) => sum + (e.value as number), 0);
+    if (total <= 0) return;
+
+    const barHeight = Math.min(6, cell.height / 4);
+    let x = cell.x;
+    elements.forEach((element, i) => {
+      const width = (cell.width * (element.value as number)) / total;
+      this.doc.setFillColor(colorFor(element.color, i));
+      this.doc.rect(x, cell.y, width, barHeight, 'F');
+      x += width;
+    });
+
+    const rowHeight = lineHeight(8) + 0.5;
+    const rows = Math.floor((cell.height - barHeight - 2) / rowHeight);
+    elements.slice(0, Math.max(rows, 0)).forEach((element, i) => {
+      const y = cell.y + barHeight + 2 + rowHeight * i;
+      this.doc.setFillColor(colorFor(element.color, i));
+      this.doc.rect(cell.x, y + 0.8, 2.5, 2.5, 'F');
+      const share = chart.showPercentages === false ? '' : ` (${(((element.value as number) / total) * 100).toFixed(1)}%)`;
+      const value = `${formatChartValue(element.value, chart.formatting)}${share}`;
+      this.setFont(8, 'bold');
+      const valueWidth = this.doc.getTextWidth(value);
+      this.doc.text(value, cell.x + cell.width, y + lineHeight(8) - 0.5, { align: 'right' });
+      this.setFont(8);
+      this.doc.text(this.wrap(element.label, cell.width - valueWidth - 6, 1)[0] || '', cell.x + 4, y + lineHeight(8) - 0.5);
+    });
+  }
+
+  // WHAT: Horizontal bars scaled to the largest value, label above each bar.
+  private renderBars(chart: ReportSnapshotChart, cell: Cell): void {
+    const elements = chart.elements || [];
+    const max = Math.max(0, ...elements.map((e) => (typeof e.value === 'number' ? e.value : 0)));
+    const rowHeight = lineHeight(8) + 3;
+    const rows = Math.floor(cell.height / rowHeight);
+
+    elements.slice(0, Math.max(rows, 0)).forEach((element, i) => {
+      const y = cell.y + rowHeight * i;
+      const value = formatChartValue(element.value, chart.formatting);
+      this.setFont(8, 'bold');
+      const valueWidth = this.doc.getTextWidth(value);
+      this.doc.text(value, cell.x + cell.width, y + lineHeight(8), { align: 'right' });
+      this.setFont(8);
+      this.doc.text(this.wrap(element.label, cell.width - valueWidth - 2, 1)[0] || '', cell.x, y + lineHeight(8) - 0.5);
+
+      const numeric = typeof element.value === 'number' ? element.value : 0;
+      const barWidth = max > 0 ? ((cell.width - valueWidth - 2) * Math.max(numeric, 0)) / max : 0;
+      this.doc.setFillColor(colorFor(element.color, i));
+      this.doc.rect(cell.x, y + lineHeight(8) + 0.3, barWidth, 1.8, 'F');
+    });
+  }
+
+  private renderText(text: string, cell: Cell): void {
+    this.setFont(9);
+    const lines = this.wrap(plainMarkdownText(text), cell.width, Math.floor(cell.height / lineHeight(9)));
+    lines.forEach((line, i) => this.doc.text(line, cell.x, cell.y + lineHeight(9) * (i + 1)));
+  }
+
+  // WHAT: Markdown table (the table chart's content) as an equal-column grid.
+  private renderTable(markdown: string, cell: Cell): void {
+    const rows = markdownTableRows(markdown);
+    if (rows.length === 0) {
+      this.renderText(markdown, cell);
+      return;
+    }
+
+    const columns = Math.max(...rows.map((r) => r.length));
+    const columnWidth = cell.width / columns;
+    const rowHeight = lineHeight(8) + 1.5;
+    const visible = rows.slice(0, Math.floor(cell.height / rowHeight));
+    visible.forEach((row, r) => {
+      const y = cell.y + rowHeight * r;
+      this.setFont(8, r === 0 ? 'bold' : 'normal');
+      row.forEach((value, c) => {
+        this.doc.text(this.wrap(value, columnWidth - 1.5, 1)[0] || '', cell.x + columnWidth * c, y + lineHeight(8));
+      });
+      this.doc.setDrawColor(BORDER_COLOR);
+      this.doc.line(cell.x, y + rowHeight, cell.x + cell.width, y + rowHeight);
+    });
+  }
+
+  // WHAT: Images are not embedded — fetching them would make the output
+  //     depend on a third-party host being up at render time.
+  private renderImagePlaceholder(cell: Cell): void {
+    this.doc.setDrawColor(BORDER_COLOR);
+    this.doc.setLineDashPattern([1.5, 1.5], 0);
+    this.doc.rect(cell.x, cell.y, cell.width, cell.height, 'S');
+    this.doc.setLineDashPattern([], 0);
+    this.setFont(8, 'normal', MUTED_COLOR);
+    this.doc.text('Image — see the online report', cell.x + cell.width / 2, cell.y + cell.height / 2, { align: 'center' });
+  }
+
+  private renderFooters(): void {
+    const pages = this.doc.getNumberOfPages();
+    const title = this.wrap(this.documentTitle(), this.contentWidth - 30, 1)[0] || '';
+    for (let page = 1; page <= pages; page++) {
+      this.doc.setPage(page);
+      this.setFont(8, 'normal', MUTED_COLOR);
+      const y = this.pageHeight - PAGE_MARGIN;
+      this.doc.text(title, PAGE_MARGIN, y);
+      this.doc.text(`${page} / ${pages}`, PAGE_MARGIN + this.contentWidth, y, { align: 'right' });
+    }
+  }
+}
+
+export function renderReportPdf(snapshot: ReportSnapshot): Buffer {
+  return new ReportPdfRenderer(snapshot).render();
+}
@@ -0,0 +1,239 @@
+// lib/export/reportPptx.ts
+// WHAT: Render a ReportSnapshot (lib/reportSnapshot.ts) to a PPTX slide deck.
+// WHY: Sponsors paste report numbers into their own decks; a PDF page cannot
+//     be edited and a screenshot cannot be restyled.
+// HOW: A title slide, then one 16:9 slide per data block. Charts sit in one
+//     row with the block's LayoutV2 unit split (lib/layoutV2BlockCalculator.ts).
+//     Pie and bar charts become native PowerPoint charts (editable data, the
+//     report's colours), KPIs a large text box, tables a native table, and
+//     image charts the image itself — fetched at render time, with a
+//     placeholder when the host does not answer.
+
+import PptxGenJS from 'pptxgenjs';
+import type { ReportSnapshot, ReportSnapshotBlock, ReportSnapshotChart } from '@/lib/reportSnapshot';
+import { calculateLayoutV2BlockDimensions, calculateLayoutV2ItemWidth } from '@/lib/layoutV2BlockCalculator';
+import { formatChartValue } from '@/lib/formatChartValue';
+import { markdownTableRows, plainMarkdownText } from './reportContent';
+
+const SLIDE_WIDTH = 10; // in, LAYOUT_16x9
+const SLIDE_HEIGHT = 5.625; // in
+const SLIDE_MARGIN = 0.4; // in
+const BLOCK_TITLE_HEIGHT = 0.6; // in
+const CHART_TITLE_HEIGHT = 0.35; // in
+const CELL_GAP = 0.2; // in between charts in a row
+const FOOTER_HEIGHT = 0.3; // in
+const IMAGE_TIMEOUT_MS = 5000;
+const IMAGE_MAX_BYTES = 5 * 1024 * 1024;
+
+// Same fallback series colours as the PDF (lib/export/reportPdf.ts), without '#'
+const PALETTE = ['3B82F6', '10B981', 'F59E0B', 'EF4444', '8B5CF6', '06B6D4', 'EC4899', '84CC16'];
+const TEXT_COLOR = '111827';
+const MUTED_COLOR = '6B7280';
+const BORDER_COLOR = 'E5E7EB';
+
+interface Cell {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+function colorFor(color: string | undefined, index: number): string {
+  return color && /^#[0-9a-f]{6}$/i.test(color) ? color.slice(1).toUpperCase() : PALETTE[index % PALETTE.length];
+}
+
+function documentTitle(snapshot: ReportSnapshot): string {
+  const { ownerName, variantName } = snapshot;
+  return variantName && variantName !== ownerName ? `${ownerName} — ${variantName}` : ownerName;
+}
+
+// WHAT: An image chart's picture as pptxgenjs base64 data ("image/png;base64,…").
+// WHY: Fetched here rather than by pptxgenjs so a slow or missing host costs
+//     one placeholder instead of failing the whole deck.
+async function loadImage(url: string): Promise<string | null> {
+  const inline = /^data:(image\/[\w.+-]+;base64,.+)$/i.exec(url);
+  if (inline) return inline[1];
+  if (!/^https?:\/\//i.test(url)) return null;
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(IMAGE_TIMEOUT_MS) });
+    const type = response.headers.get('content-type')?.split(';')[0].trim() || '';
+    if (!response.ok || !type.startsWith('image/')) return null;
+    const bytes = Buffer.from(await response.arrayBuffer());
+    if (bytes.length > IMAGE_MAX_BYTES) return null;
+    return `${type};base64,${bytes.toString('base64')}`;
+  } catch {
+    return null;
+  }
+}
+
+class ReportPptxRenderer {
+  private readonly pptx = new PptxGenJS();
+  private readonly images = new Map<string, string | null>();
+
+  constructor(private readonly snapshot: ReportSnapshot) {}
+
+  async render(): Promise<Buffer> {
+    const { pptx, snapshot } = this;
+    pptx.layout = 'LAYOUT_16x9';
+    pptx.author = '{messmass}';
+    pptx.company = '{messmass}';
+    pptx.title = documentTitle(snapshot);
+
+    await this.loadImages();
+    this.renderTitleSlide();
+    snapshot.blocks.forEach((block) => this.renderBlockSlide(block));
+    return (await pptx.write({ outputType: 'nodebuffer' })) as Buffer;
+  }
+
+  private async loadImages(): Promise<void> {
+    const urls = new Set(
+      this.snapshot.blocks.flatMap((block) => block.charts.filter((c) => c.type === 'image').map((c) => String(c.kpiValue ?? '')))
+    );
+    await Promise.all([...urls].map(async (url) => this.images.set(url, await loadImage(url))));
+  }
+
+  private renderTitleSlide(): void {
+    const { snapshot } = this;
+    const slide = this.pptx.addSlide();
+    slide.addText(documentTitle(snapshot), {
+      x: SLIDE_MARGIN, y: 1.6, w: SLIDE_WIDTH - SLIDE_MARGIN * 2, h: 1.2,
+      fontSize: 32, bold: true, color: TEXT_COLOR, fit: 'shrink',
+    });
+    const details = [
+      snapshot.periodLabel,
+      snapshot.reportType === 'event' ? null : `${snapshot.eventCount} event${snapshot.eventCount === 1 ? '' : 's'}`,
+      snapshot.dataUpdatedAt ? `data as of ${snapshot.dataUpdatedAt.slice(0, 10)}` : null,
+    ].filter(Boolean).join('  ·  ');
+    slide.addText(details, {
+      x: SLIDE_MARGIN, y: 2.9, w: SLIDE_WIDTH - SLIDE_MARGIN * 2, h: 0.5,
+      fontSize: 14, color: MUTED_COLOR,
+    });
+  }
+
+  private renderBlockSlide(block: ReportSnapshotBlock): void {
+    const slide = this.pptx.addSlide();
+    const contentWidth = SLIDE_WIDTH - SLIDE_MARGIN * 2;
+    let y = SLIDE_MARGIN;
+
+    if (block.showTitle && block.title) {
+      slide.addText(block.title, { x: SLIDE_MARGIN, y, w: contentWidth, h: BLOCK_TITLE_HEIGHT, fontSize: 22, bold: true, color: TEXT_COLOR });
+      y += BLOCK_TITLE_HEIGHT;
+    }
+    slide.addText(documentTitle(this.snapshot), {
+      x: SLIDE_MARGIN, y: SLIDE_HEIGHT - SLIDE_MARGIN - FOOTER_HEIGHT / 2, w: contentWidth, h: FOOTER_HEIGHT,
+      fontSize: 9, color: MUTED_COLOR,
+    });
+
+    // WHAT: The slide is the row. Widths follow the LayoutV2 unit split, the
+    //     height is what the block's aspect ratio gives, capped to the slide.
+    const dims = calculateLayoutV2BlockDimensions(
+      block.charts.map((chart) => ({ width: chart.width, type: chart.type })),
+      contentWidth,
+      block.blockAspectRatio,
+      block.tableHeightMultiplier
+    );
+    const height = Math.min(dims.blockHeight, SLIDE_HEIGHT - SLIDE_MARGIN - FOOTER_HEIGHT - y - 0.1);
+    const available = contentWidth - CELL_GAP * (block.charts.length - 1);
+    let x = SLIDE_MARGIN;
+    block.charts.forEach((chart) => {
+      const w = calculateLayoutV2ItemWidth(chart.width || 1, dims.totalUnits, available);
+      this.renderChart(slide, chart, { x, y, w, h: height });
+      x += w + CELL_GAP;
+    });
+  }
+
+  private renderChart(slide: PptxGenJS.Slide, chart: ReportSnapshotChart, cell: Cell): void {
+    slide.addShape('roundRect', { ...cell, rectRadius: 0.08, line: { color: BORDER_COLOR, width: 0.75 }, fill: { color: 'FFFFFF' } });
+    const inner: Cell = { x: cell.x + 0.1, y: cell.y + 0.1, w: cell.w - 0.2, h: cell.h - 0.2 };
+
+    if (chart.showTitle !== false && chart.title) {
+      slide.addText(chart.title, { ...inner, h: CHART_TITLE_HEIGHT, fontSize: 11, bold: true, color: MUTED_COLOR, fit: 'shrink' });
+      inner.y += CHART_TITLE_HEIGHT;
+      inner.h -= CHART_TITLE_HEIGHT;
+    }
+    if (inner.h <= 0) return;
+
+    switch (chart.type) {
+      case 'pie':
+        this.renderPie(slide, chart, inner);
+        break;
+      case 'bar':
+      case 'valuechain':
+        this.renderBars(slide, chart, inner);
+        break;
+      case 'text':
+        slide.addText(plainMarkdownText(String(chart.kpiValue ?? '')), { ...inner, fontSize: 12, color: TEXT_COLOR, valign: 'top', fit: 'shrink' });
+        break;
+      case 'table':
+        this.renderTable(slide, String(chart.kpiValue ?? ''), inner);
+        break;
+      case 'image':
+        this.renderImage(slide, String(chart.kpiValue ?? ''), inner);
+        break;
+      default:
+        slide.addText(formatChartValue(chart.kpiValue, chart.formatting), {
+          ...inner, fontSize: 40, bold: true, color: TEXT_COLOR, align: 'center', valign: 'middle', fit: 'shrink',
+        });
+    }
+  }
+
+  private renderPie(slide: PptxGenJS.Slide, chart: ReportSnapshotChart, cell: Cell): void {
+    const elements = (chart.elements || []).filter((e) => typeof e.value === 'number' && e.value > 0);
+    slide.addChart('pie', [{ name: chart.title, labels: elements.map((e) => e.label), values: elements.map((e) => e.value as number) }], {
+      ...cell,
+      chartColors: elements.map((e, i) => colorFor(e.color, i)),
+      showLegend: true,
+      legendPos: cell.w > cell.h ? 'r' : 'b',
+      legendFontSize: 10,
+      showPercent: chart.showPercentages !== false,
+      showValue: false,
+      dataLabelColor: 'FFFFFF',
+    });
+  }
+
+  private renderBars(slide: PptxGenJS.Slide, chart: ReportSnapshotChart, cell: Cell): void {
+    // PowerPoint draws the first category at the bottom; reversed, the first
+    // element is on top, as on the web
+    const elements = (chart.elements || []).map((e, i) => ({ ...e, color: colorFor(e.color, i) })).reverse();
+    slide.addChart('bar', [{ name: chart.title, labels: elements.map((e) => e.label), values: elements.map((e) => (typeof e.value === 'number' ? e.value : 0)) }], {
+      ...cell,
+      barDir: 'bar',
+      chartColors: elements.map((e) => e.color),
+      showValue: true,
+      dataLabelFontSize: 9,
+      catAxisLabelFontSize: 10,
+      valAxisHidden: true,
+      valGridLine: { style: 'none' },
+      showLegend: false,
+    });
+  }
+
+  private renderTable(slide: PptxGenJS.Slide, markdown: string, cell: Cell): void {
+    const rows = markdownTableRows(markdown);
+    if (rows.length === 0) {
+      slide.addText(plainMarkdownText(markdown), { ...cell, fontSize: 12, color: TEXT_COLOR, valign: 'top', fit: 'shrink' });
+      return;
+    }
+    const columns = Math.max(...rows.map((row) => row.length));
+    slide.addTable(
+      rows.map((row, r) => Array.from({ length: columns }, (_, c) => ({ text: row[c] ?? '', options: { bold: r === 0 } }))),
+      { x: cell.x, y: cell.y, w: cell.w, fontSize: 10, color: TEXT_COLOR, border: { type: 'solid', pt: 0.5, color: BORDER_COLOR }, autoPage: false }
+    );
+  }
+
+  private renderImage(slide: PptxGenJS.Slide, url: string, cell: Cell): void {
+    const data = this.images.get(url);
+    if (data) {
+      slide.addImage({ data, ...cell, sizing: { type: 'contain', w: cell.w, h: cell.h } });
+      return;
+    }
+    slide.addText('Image — see the online report', {
+      ...cell, fontSize: 10, color: MUTED_COLOR, align: 'center', valign: 'middle',
+      line: { color: BORDER_COLOR, width: 0.75, dashType: 'dash' },
+    });
+  }
+}
+
+export async function renderReportPptx(snapshot: ReportSnapshot): Promise<Buffer> {
+  return new ReportPptxRenderer(snapshot).render();
+}
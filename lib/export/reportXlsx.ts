@@ -0,0 +1,158 @@
+// lib/export/reportXlsx.ts
+// WHAT: Render a ReportSnapshot (lib/reportSnapshot.ts) to an XLSX workbook.
+// WHY: The CSV export (lib/export/csv.ts) is one flat file and the PDF is not
+//     editable; sponsors want the numbers in a spreadsheet they can work with.
+// HOW: A Summary sheet, one sheet per data block (in report order), a
+//     Variables sheet with every raw and derived variable, and a Chart Sources
+//     sheet listing each chart element's formula next to its value. Values stay
+//     numbers, with the chart's prefix/suffix/decimals as a number format, so
+//     the sheet shows what the report shows and still sums.
+
+import ExcelJS from 'exceljs';
+import type { ReportSnapshot, ReportSnapshotBlock, ReportSnapshotChart } from '@/lib/reportSnapshot';
+import { decimalsFor, type ChartValueFormatting } from '@/lib/formatChartValue';
+import { markdownTableRows } from './reportContent';
+
+const HEADER_FILL: ExcelJS.Fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFF3F4F6' } };
+const SHEET_NAME_MAX = 31; // Excel limit
+
+// WHAT: Excel number format for a chart's formatting object (€#,##0.00 etc.).
+function numberFormat(formatting?: ChartValueFormatting): string {
+  const decimals = decimalsFor(formatting);
+  const quote = (text?: string) => (text ? `"${text.replace(/"/g, '')}"` : '');
+  return `${quote(formatting?.prefix)}#,##0${decimals ? `.${'0'.repeat(decimals)}` : ''}${quote(formatting?.suffix)}`;
+}
+
+// WHAT: A valid, unique sheet name — Excel rejects []:*?/\ and names over 31
+//     characters, and compares names case-insensitively.
+function sheetName(title: string, used: Set<string>): string {
+  const base = title.replace(/[[\]:*?/\\]/g, ' ').replace(/\s+/g, ' ').trim().slice(0, SHEET_NAME_MAX) || 'Block';
+  let name = base;
+  for (let n = 2; used.has(name.toLowerCase()); n++) {
+    const suffix = ` (${n})`;
+    name = `${base.slice(0, SHEET_NAME_MAX - suffix.length)}${suffix}`;
+  }
+  used.add(name.toLowerCase());
+  return name;
+}
+
+function addHeader(sheet: ExcelJS.Worksheet, columns: Array<{ header: string; width: number }>): void {
+  sheet.columns = columns.map((column) => ({ header: column.header, width: column.width }));
+  const header = sheet.getRow(1);
+  header.font = { bold: true };
+  header.fill = HEADER_FILL;
+  sheet.views = [{ state: 'frozen', ySplit: 1 }];
+}
+
+function setValue(cell: ExcelJS.Cell, value: number | string | undefined, chart: ReportSnapshotChart): void {
+  if (typeof value === 'number') {
+    cell.value = Number.isFinite(value) ? value : 'NA';
+    cell.numFmt = numberFormat(chart.formatting);
+  } else {
+    cell.value = value ?? '';
+  }
+}
+
+// WHAT: One row per value the block shows — a row per element for pie/bar
+//     charts, one row for KPIs and text, table charts spread over the columns.
+function addBlockSheet(workbook: ExcelJS.Workbook, block: ReportSnapshotBlock, name: string): void {
+  const sheet = workbook.addWorksheet(name);
+  addHeader(sheet, [
+    { header: 'Chart', width: 32 },
+    { header: 'Type', width: 12 },
+    { header: 'Label', width: 32 },
+    { header: 'Value', width: 18 },
+  ]);
+
+  for (const chart of block.charts) {
+    if (chart.elements?.length) {
+      chart.elements.forEach((element) => {
+        const row = sheet.addRow([chart.title, chart.type, element.label]);
+        setValue(row.getCell(4), element.value, chart);
+      });
+    } else if (chart.type === 'table') {
+      const rows = markdownTableRows(String(chart.kpiValue ?? ''));
+      if (rows.length === 0) sheet.addRow([chart.title, chart.type, '', String(chart.kpiValue ?? '')]);
+      rows.forEach((cells, i) => {
+        const row = sheet.addRow([i === 0 ? chart.title : '', i === 0 ? chart.type : '', ...cells]);
+        if (i === 0) row.font = { bold: true };
+      });
+    } else if (chart.type === 'image') {
+      const url = String(chart.kpiValue ?? '');
+      const row = sheet.addRow([chart.title, chart.type, '']);
+      row.getCell(4).value = /^https?:\/\//i.test(url) ? { text: url, hyperlink: url } : url;
+    } else {
+      const row = sheet.addRow([chart.title, chart.type, '']);
+      setValue(row.getCell(4), chart.kpiValue, chart);
+      if (chart.type === 'text') row.getCell(4).alignment = { wrapText: true, vertical: 'top' };
+    }
+  }
+}
+
+function addSummarySheet(workbook: ExcelJS.Workbook, snapshot: ReportSnapshot): void {
+  const sheet = workbook.addWorksheet('Summary');
+  sheet.columns = [{ width: 18 }, { width: 48 }];
+  const rows: Array<[string, string | number]> = [
+    ['Report', snapshot.ownerName],
+    ['Variant', snapshot.variantName || ''],
+    ['Period', snapshot.periodLabel],
+    ['Events', snapshot.eventCount],
+    ['Data as of', snapshot.dataUpdatedAt || ''],
+  ];
+  rows.forEach((values) => {
+    const row = sheet.addRow(values);
+    row.getCell(1).font = { bold: true };
+  });
+}
+
+function addVariablesSheet(workbook: ExcelJS.Workbook, snapshot: ReportSnapshot): void {
+  const sheet = workbook.addWorksheet('Variables');
+  addHeader(sheet, [
+    { header: 'Variable', width: 36 },
+    { header: 'Value', width: 18 },
+  ]);
+  for (const [key, value] of Object.entries(snapshot.variables)) sheet.addRow([key, value]);
+}
+
+// WHAT: Where every chart value comes from — its formula over the Variables sheet.
+function addChartSourcesSheet(workbook: ExcelJS.Workbook, snapshot: ReportSnapshot): void {
+  const sheet = workbook.addWorksheet('Chart Sources');
+  addHeader(sheet, [
+    { header: 'Block', width: 24 },
+    { header: 'Chart ID', width: 24 },
+    { header: 'Chart', width: 32 },
+    { header: 'Type', width: 12 },
+    { header: 'Label', width: 28 },
+    { header: 'Formula', width: 48 },
+    { header: 'Value', width: 18 },
+  ]);
+
+  for (const block of snapshot.blocks) {
+    for (const chart of block.charts) {
+      (chart.sources || []).forEach((source, i) => {
+        const row = sheet.addRow([block.title, chart.chartId, chart.title, chart.type, source.label, source.formula]);
+        const value = chart.elements?.length ? chart.elements[i]?.value : i === 0 ? chart.kpiValue : undefined;
+        setValue(row.getCell(7), value, chart);
+      });
+    }
+  }
+}
+
+export async function renderReportXlsx(snapshot: ReportSnapshot): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const stamp = snapshot.dataUpdatedAt ? new Date(snapshot.dataUpdatedAt) : new Date(0);
+  workbook.creator = '{messmass}';
+  workbook.created = stamp;
+  workbook.modified = stamp;
+  workbook.title = snapshot.variantName && snapshot.variantName !== snapshot.ownerName
+    ? `${snapshot.ownerName} — ${snapshot.variantName}`
+    : snapshot.ownerName;
+
+  addSummarySheet(workbook, snapshot);
+  const used = new Set(['summary', 'variables', 'chart sources']);
+  snapshot.blocks.forEach((block, i) => addBlockSheet(workbook, block, sheetName(block.title || `Block ${i + 1}`, used)));
+  addVariablesSheet(workbook, snapshot);
+  addChartSourcesSheet(workbook, snapshot);
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
@@ -15,10 +15,21 @@
 //      nowhere else. Ack here transitions status -> 'applied' with ackResult
 //      attached, retained until a TTL index sweeps it — messmass keeps the
 //      result long enough to be useful, the collection still self-cleans.
+// LIFECYCLE: pending -> claimed -> applied | failed, plus expired (never
+//      picked up in time), cancelled (an admin withdrew it while pending).
+//      Fanmass's poll claims what it receives for a lease; a poller that
+//      crashes mid-apply lets the lease lapse and the command is offered
+//      again, up to MAX_CLAIM_ATTEMPTS. Without this, a command fanmass
+//      rejected, did not recognize, or never polled for sat 'pending' forever
+//      with nothing in Run Control / Entity Curation to say so. Failed,
+//      expired and cancelled commands can be retried from the admin; failures
+//      and expiries raise a notification. Every transition is appended to the
+//      command's timeline.
 
 import { Db } from 'mongodb';
 import { randomUUID } from 'crypto';
 import { getDb } from './fanmassIntegration';
+import { createNotification } from './notificationUtils';
 
 export type FanmassCommandType =
   | 'run_control.start_batch'
@@ -30,7 +41,30 @@ export type FanmassCommandType =
   | 'settings.update'
   | 'settings.rotateApiKey';
 
-export type FanmassCommandStatus = 'pending' | 'applied';
+export type FanmassCommandStatus = 'pending' | 'claimed' | 'applied' | 'failed' | 'expired' | 'cancelled';
+
+export type FanmassCommandEventType =
+  | 'created'
+  | 'claimed'
+  | 'lease_lapsed'
+  | 'applied'
+  | 'failed'
+  | 'expired'
+  | 'cancelled'
+  | 'retried';
+
+export interface FanmassCommandEvent {
+  type: FanmassCommandEventType;
+  at: string;
+  // Admin email, the claiming poller, or 'system' for the sweep
+  actor?: string;
+  detail?: string;
+}
+
+export interface FanmassCommandError {
+  code?: string;
+  message: string;
+}
 
 export interface FanmassCommand {
   commandId: string;
@@ -41,14 +75,73 @@ export interface FanmassCommand {
   requestedBy: string;
   appliedAt?: string;
   ackResult?: Record<string, unknown>;
+  // Claims so far; a retry starts again from zero
+  attempts: number;
+  claimedAt?: string;
+  claimedBy?: string;
+  leaseExpiresAt?: string;
+  // Not claimed by then -> expired, rather than applied late
+  expiresAt: string;
+  error?: FanmassCommandError;
+  // Set on failed/expired/cancelled; their retention TTL keys off it
+  finishedAt?: string;
+  cancelledBy?: string;
+  timeline: FanmassCommandEvent[];
 }
 
+// Commands still on their way to fanmass — the only ones that count as duplicates
+const IN_FLIGHT_STATUSES: FanmassCommandStatus[] = ['pending', 'claimed'];
+const RETRYABLE_STATUSES: FanmassCommandStatus[] = ['failed', 'expired', 'cancelled'];
+
 const TTL_SECONDS_APPLIED = 86400; // 24h — long enough for an operator to notice, short enough to self-clean.
+const TTL_SECONDS_FINISHED = 7 * 86400; // failures are what an operator comes back looking for; keep them a week.
+
+export const DEFAULT_LEASE_SECONDS = 120;
+const MIN_LEASE_SECONDS = 15;
+const MAX_LEASE_SECONDS = 900;
+export const MAX_CLAIM_ATTEMPTS = 3;
+const TIMELINE_LIMIT = 50;
+const SYSTEM_ACTOR = 'Fanmass command queue';
+
+// WHAT: How long a command may wait for fanmass to pick it up.
+// WHY: A batch start or stop applied an hour after the click would surprise
+//     whoever clicked it; a catalog rename or a setting is still wanted tomorrow.
+const PICKUP_WINDOW_MS: Record<FanmassCommandType, number> = {
+  'run_control.start_batch': 15 * 60 * 1000,
+  'run_control.stop_batch': 15 * 60 * 1000,
+  'entity.confirm_cluster': 24 * 60 * 60 * 1000,
+  'entity.reject_cluster': 24 * 60 * 60 * 1000,
+  'entity.rename': 24 * 60 * 60 * 1000,
+  'entity.merge': 24 * 60 * 60 * 1000,
+  'settings.update': 24 * 60 * 60 * 1000,
+  'settings.rotateApiKey': 24 * 60 * 60 * 1000,
+};
 
 function nowIso(): string {
   return new Date().toISOString();
 }
 
+function fail(message: string, status: number, code: string): Error {
+  return Object.assign(new Error(message), { status, code });
+}
+
+function pickupDeadline(type: FanmassCommandType, from: Date): string {
+  return new Date(from.getTime() + (PICKUP_WINDOW_MS[type] ?? PICKUP_WINDOW_MS['settings.update'])).toISOString();
+}
+
+function describeWindow(type: FanmassCommandType): string {
+  const minutes = Math.round((PICKUP_WINDOW_MS[type] ?? 0) / 60000);
+  return minutes >= 120 ? `${Math.round(minutes / 60)} hours` : `${minutes} minutes`;
+}
+
+function commandsCollection(db: Db) {
+  return db.collection<FanmassCommand>('fanmass_commands');
+}
+
+function pushEvents(...events: FanmassCommandEvent[]) {
+  return { timeline: { $each: events, $slice: -TIMELINE_LIMIT } };
+}
+
 function toFanmassCommand(doc: any): FanmassCommand {
   return {
     commandId: String(doc.commandId),
@@ -59,16 +152,110 @@ function toFanmassCommand(doc: any): FanmassCommand {
     requestedBy: String(doc.requestedBy || ''),
     appliedAt: doc.appliedAt ?? undefined,
     ackResult: doc.ackResult ?? undefined,
+    attempts: doc.attempts ?? 0,
+    claimedAt: doc.claimedAt ?? undefined,
+    claimedBy: doc.claimedBy ?? undefined,
+    leaseExpiresAt: doc.leaseExpiresAt ?? undefined,
+    // Commands queued before the lifecycle existed have no deadline stored
+    expiresAt: doc.expiresAt ?? pickupDeadline(doc.type, new Date(doc.requestedAt)),
+    error: doc.error ?? undefined,
+    finishedAt: doc.finishedAt ?? undefined,
+    cancelledBy: doc.cancelledBy ?? undefined,
+    timeline: Array.isArray(doc.timeline) ? doc.timeline : [],
   };
 }
 
 async function ensureCommandIndexes(db: Db): Promise<void> {
-  await db.collection('fanmass_commands').createIndex({ commandId: 1 }, { unique: true });
-  await db.collection('fanmass_commands').createIndex({ status: 1, requestedAt: 1 });
-  await db.collection('fanmass_commands').createIndex(
+  await commandsCollection(db).createIndex({ commandId: 1 }, { unique: true });
+  await commandsCollection(db).createIndex({ status: 1, requestedAt: 1 });
+  await commandsCollection(db).createIndex(
     { appliedAt: 1 },
     { expireAfterSeconds: TTL_SECONDS_APPLIED, partialFilterExpression: { status: 'applied' } }
   );
+  // Only failed/expired/cancelled commands carry finishedAt
+  await commandsCollection(db).createIndex({ finishedAt: 1 }, { expireAfterSeconds: TTL_SECONDS_FINISHED });
+}
+
+async function loadCommand(db: Db, commandId: string): Promise<FanmassCommand> {
+  const doc = await commandsCollection(db).findOne({ commandId });
+  if (!doc) {
+    throw fail('Fanmass command was not found.', 404, 'COMMAND_NOT_FOUND');
+  }
+  return toFanmassCommand(doc);
+}
+
+// WHAT: Bell notification for a command that will not be applied without help
+// NOTE: projectId is the command id, so two commands never collapse into one
+async function notifyUnapplied(db: Db, command: FanmassCommand): Promise<void> {
+  await createNotification(db, {
+    activityType: 'fanmass_command_failed',
+    actorId: null,
+    actorName: SYSTEM_ACTOR,
+    projectId: command.commandId,
+    projectName: `${command.type} ${command.status}: ${command.error?.message || 'no reason given'}`,
+    metadata: {
+      commandId: command.commandId,
+      type: command.type,
+      status: command.status,
+      code: command.error?.code,
+    },
+  });
+}
+
+// WHAT: Move commands whose clock ran out. A lapsed claim goes back to
+//      pending, or to failed once it has been claimed MAX_CLAIM_ATTEMPTS
+//      times; a pending command past its pickup window expires.
+// WHY not a cron: fanmass's poll and the admin list both run it, so states
+//      are current whenever anyone looks — including when fanmass has stopped
+//      polling altogether, which is exactly when expiry matters.
+async function sweepCommands(db: Db, now: Date): Promise<void> {
+  const collection = commandsCollection(db);
+  const at = now.toISOString();
+
+  const lapsed = await collection.find({ status: 'claimed', leaseExpiresAt: { $lte: at } }).toArray();
+  for (const doc of lapsed) {
+    const command = toFanmassCommand(doc);
+    const filter = { commandId: command.commandId, status: 'claimed' as const, leaseExpiresAt: command.leaseExpiresAt };
+    const lapse: FanmassCommandEvent = {
+      type: 'lease_lapsed',
+      at,
+      actor: 'system',
+      detail: `${command.claimedBy || 'fanmass'} did not acknowledge it within its lease (attempt ${command.attempts} of ${MAX_CLAIM_ATTEMPTS})`,
+    };
+    if (command.attempts < MAX_CLAIM_ATTEMPTS) {
+      await collection.updateOne(filter, {
+        $set: { status: 'pending' },
+        $unset: { claimedAt: '', claimedBy: '', leaseExpiresAt: '' },
+        $push: pushEvents(lapse),
+      });
+      continue;
+    }
+    const error: FanmassCommandError = {
+      code: 'LEASE_EXHAUSTED',
+      message: `Fanmass picked this command up ${command.attempts} times without confirming it. It may have crashed while applying it, or not support it.`,
+    };
+    const result = await collection.updateOne(filter, {
+      $set: { status: 'failed', error, finishedAt: at },
+      $unset: { leaseExpiresAt: '' },
+      $push: pushEvents(lapse, { type: 'failed', at, actor: 'system', detail: error.message }),
+    });
+    if (result.modifiedCount) await notifyUnapplied(db, { ...command, status: 'failed', error });
+  }
+
+  const pending = await collection.find({ status: 'pending' }).toArray();
+  for (const doc of pending) {
+    const command = toFanmassCommand(doc);
+    if (command.expiresAt > at) continue;
+    const error: FanmassCommandError = {
+      code: 'NOT_PICKED_UP',
+      message: `Fanmass did not pick this command up within ${describeWindow(command.type)}.`,
+    };
+    const result = await collection.updateOne(
+      { commandId: command.commandId, status: 'pending' },
+      { $set: { status: 'expired', error, finishedAt: at }, $push: pushEvents({ type: 'expired', at, actor: 'system', detail: error.message }) }
+    );
+    if (result.modifiedCount) await notifyUnapplied(db, { ...command, status: 'expired', error });
+  }
 }
 
 // WHAT: Enqueue a new command. Internal-only — no HTTP route calls this
@@ -85,41 +272,100 @@ export async function createCommand(
 ): Promise<FanmassCommand> {
   const db = await getDb();
   await ensureCommandIndexes(db);
+  const now = new Date();
   const doc: FanmassCommand = {
     commandId: randomUUID(),
     type,
     payload,
     status: 'pending',
-    requestedAt: nowIso(),
+    requestedAt: now.toISOString(),
     requestedBy,
+    attempts: 0,
+    expiresAt: pickupDeadline(type, now),
+    timeline: [{ type: 'created', at: now.toISOString(), actor: requestedBy }],
   };
-  await db.collection('fanmass_commands').insertOne(doc as any);
+  await commandsCollection(db).insertOne({ ...doc });
   return doc;
 }
 
-// WHAT: Every pending command, for fanmass's poll — ordered oldest-first so
-//      apply order is deterministic (unlike listPendingRescanRequests, which
-//      needs no ordering since at most one document exists per event).
-export async function listPendingCommands(): Promise<FanmassCommand[]> {
+// WHAT: Fanmass's poll — claim every pending command, oldest-first so apply
+//      order is deterministic, for a lease of `leaseSeconds`.
+// WHY a lease rather than handing out every pending command on every poll:
+//      a command is with one poller at a time, and one that is never
+//      acknowledged comes back a bounded number of times and then fails
+//      visibly instead of being re-sent forever.
+export async function claimCommands(
+  claimant: string,
+  options: { leaseSeconds?: number; now?: Date } = {}
+): Promise<FanmassCommand[]> {
   const db = await getDb();
   await ensureCommandIndexes(db);
-  const docs = await db
-    .collection('fanmass_commands')
-    .find({ status: 'pending' })
-    .sort({ requestedAt: 1 })
-    .toArray();
+  const now = options.now ?? new Date();
+  await sweepCommands(db, now);
+
+  const leaseSeconds = Math.min(Math.max(Math.round(options.leaseSeconds ?? DEFAULT_LEASE_SECONDS), MIN_LEASE_SECONDS), MAX_LEASE_SECONDS);
+  const at = now.toISOString();
+  const leaseExpiresAt = new Date(now.getTime() + leaseSeconds * 1000).toISOString();
+  const collection = commandsCollection(db);
+  const pending = await collection.find({ status: 'pending' }).sort({ requestedAt: 1 }).toArray();
+
+  const claimed: FanmassCommand[] = [];
+  for (const doc of pending) {
+    // Conditional on still being pending, so two pollers never claim the same command
+    const updated = await collection.findOneAndUpdate(
+      { commandId: doc.commandId, status: 'pending' },
+      {
+        $set: { status: 'claimed', claimedAt: at, claimedBy: claimant, leaseExpiresAt },
+        $inc: { attempts: 1 },
+        $push: pushEvents({ type: 'claimed', at, actor: claimant, detail: `attempt ${(doc.attempts ?? 0) + 1}, lease ${leaseSeconds}s` }),
+      },
+      { returnDocument: 'after' }
+    );
+    if (updated) claimed.push(toFanmassCommand(updated));
+  }
+  return claimed;
+}
+
+// WHAT: Recent commands with their timelines, newest first, for the admin
+// @param options.types - only these command types
+// @param options.batchId - only commands whose payload names this batch
+export async function listCommands(
+  options: { status?: FanmassCommandStatus; types?: FanmassCommandType[]; batchId?: string; limit?: number; now?: Date } = {}
+): Promise<FanmassCommand[]> {
+  const db = await getDb();
+  await ensureCommandIndexes(db);
+  await sweepCommands(db, options.now ?? new Date());
+
+  const filter: Record<string, unknown> = {};
+  if (options.status) filter.status = options.status;
+  if (options.types?.length) filter.type = { $in: options.types };
+  if (options.batchId) filter['payload.batchId'] = options.batchId;
+  const limit = Math.min(Math.max(options.limit ?? 50, 1), 200);
+  const docs = await commandsCollection(db).find(filter).sort({ requestedAt: -1 }).limit(limit).toArray();
   return docs.map(toFanmassCommand);
 }
 
-// WHAT: Every pending command whose type+payload key overlap with a
+// WHAT: One command with its timeline
+// @throws Error with status 404 when there is no such command
+export async function getCommand(commandId: string, now: Date = new Date()): Promise<FanmassCommand> {
+  const db = await getDb();
+  await ensureCommandIndexes(db);
+  // A lapsed lease or a missed pickup window shows up here as well
+  await sweepCommands(db, now);
+  return loadCommand(db, commandId);
+}
+
+// WHAT: Every in-flight command whose type+payload key overlap with a
 //      candidate, for double-submit dedupe at the enqueue boundary.
+// NOTE: A claimed command is still in flight — fanmass has it but has not
+//      confirmed it — so it blocks a duplicate just as a pending one does.
 export async function findPendingDuplicate(
   type: FanmassCommandType,
   payload: Record<string, unknown>
 ): Promise<FanmassCommand | null> {
   const db = await getDb();
   await ensureCommandIndexes(db);
-  const pending = await db.collection('fanmass_commands').find({ status: 'pending', type }).toArray();
+  const pending = await commandsCollection(db).find({ status: { $in: IN_FLIGHT_STATUSES }, type }).toArray();
   if (pending.length === 0) return null;
   // For settings.update, only conflict on overlapping keys — two unrelated
   // field changes queued together are fine. For every other type, any
@@ -139,23 +385,130 @@ export async function findPendingDuplicate(
 //      stored ackResult rather than raising or overwriting it, so a retried
 //      DELETE after a dropped response is always safe.
 // WHY status: 'applied' + TTL, not deleteOne — see module header.
+// NOTE: An ack for a command already marked failed, expired or cancelled is
+//      still recorded as applied — fanmass applied it, and the ledger has to
+//      say what really happened. The timeline keeps the earlier state.
 export async function ackCommand(
   commandId: string,
   ackResult?: Record<string, unknown>
 ): Promise<{ applied: true; commandId: string; ackResult?: Record<string, unknown> }> {
   const db = await getDb();
   await ensureCommandIndexes(db);
-  const existing = await db.collection('fanmass_commands').findOne({ commandId });
-  if (!existing) {
-    throw Object.assign(new Error('Fanmass command was not found.'), { status: 404, code: 'COMMAND_NOT_FOUND' });
-  }
+  const existing = await loadCommand(db, commandId);
   if (existing.status === 'applied') {
     return { applied: true, commandId, ackResult: existing.ackResult };
   }
   const appliedAt = nowIso();
-  await db.collection('fanmass_commands').updateOne(
+  const late = IN_FLIGHT_STATUSES.includes(existing.status) ? undefined : `acknowledged after it was ${existing.status}`;
+  await commandsCollection(db).updateOne(
     { commandId },
-    { $set: { status: 'applied', appliedAt, ...(ackResult !== undefined ? { ackResult } : {}) } }
+    {
+      $set: { status: 'applied', appliedAt, ...(ackResult !== undefined ? { ackResult } : {}) },
+      $unset: { leaseExpiresAt: '', finishedAt: '' },
+      $push: pushEvents({ type: 'applied', at: appliedAt, actor: existing.claimedBy || 'fanmass', ...(late ? { detail: late } : {}) }),
+    }
   );
   return { applied: true, commandId, ackResult };
 }
+
+// WHAT: Validate fanmass's failure report
+// @throws Error with status 400 when there is no message
+export function normalizeCommandError(input: unknown): FanmassCommandError {
+  const { code, message } = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  if (typeof message !== 'string' || !message.trim()) {
+    throw fail('error.message is required.', 400, 'INVALID_COMMAND_FAILURE');
+  }
+  return {
+    ...(typeof code === 'string' && code.trim() ? { code: code.trim().slice(0, 100) } : {}),
+    message: message.trim().slice(0, 1000),
+  };
+}
+
+// WHAT: Called by fanmass when it tried to apply a command and could not.
+//      Idempotent like ackCommand: reporting the same failure twice keeps
+//      the first report.
+// @throws 404 for an unknown command, 409 when it was already applied
+export async function failCommand(commandId: string, error: FanmassCommandError): Promise<FanmassCommand> {
+  const db = await getDb();
+  await ensureCommandIndexes(db);
+  const existing = await loadCommand(db, commandId);
+  if (existing.status === 'failed') return existing;
+  if (existing.status === 'applied') {
+    throw fail('This command was already acknowledged as applied.', 409, 'COMMAND_ALREADY_APPLIED');
+  }
+  const at = nowIso();
+  await commandsCollection(db).updateOne(
+    { commandId },
+    {
+      $set: { status: 'failed', error, finishedAt: at },
+      $unset: { leaseExpiresAt: '' },
+      $push: pushEvents({ type: 'failed', at, actor: existing.claimedBy || 'fanmass', detail: error.code ? `${error.code}: ${error.message}` : error.message }),
+    }
+  );
+  const failed = { ...existing, status: 'failed' as const, error, finishedAt: at };
+  await notifyUnapplied(db, failed);
+  return failed;
+}
+
+// WHAT: Withdraw a command fanmass has not picked up yet
+// WHY pending only: once claimed, fanmass may be part-way through applying
+//      it, and nothing here can stop that.
+// @throws 404 for an unknown command, 409 when it is no longer pending
+export async function cancelCommand(commandId: string, cancelledBy: string): Promise<FanmassCommand> {
+  const db = await getDb();
+  await ensureCommandIndexes(db);
+  const existing = await loadCommand(db, commandId);
+  const at = nowIso();
+  const result =
+    existing.status === 'pending'
+      ? await commandsCollection(db).updateOne(
+          { commandId, status: 'pending' },
+          {
+            $set: { status: 'cancelled', cancelledBy, finishedAt: at },
+            $push: pushEvents({ type: 'cancelled', at, actor: cancelledBy }),
+          }
+        )
+      : null;
+  if (!result?.modifiedCount) {
+    const current = existing.status === 'pending' ? await loadCommand(db, commandId) : existing;
+    throw fail(
+      current.status === 'claimed'
+        ? 'Fanmass has already picked this command up, so it can no longer be cancelled.'
+        : `This command is already ${current.status}.`,
+      409,
+      'COMMAND_NOT_CANCELLABLE'
+    );
+  }
+  return { ...existing, status: 'cancelled', cancelledBy, finishedAt: at };
+}
+
+// WHAT: Put a failed, expired or cancelled command back in the queue, with a
+//      fresh pickup window and claim count
+// @throws 404 for an unknown command, 409 when it is not retryable or the
+//      same action is already in flight
+export async function retryCommand(commandId: string, retriedBy: string): Promise<FanmassCommand> {
+  const db = await getDb();
+  await ensureCommandIndexes(db);
+  const existing = await loadCommand(db, commandId);
+  if (!RETRYABLE_STATUSES.includes(existing.status)) {
+    throw fail(`Only failed, expired or cancelled commands can be retried; this one is ${existing.status}.`, 409, 'COMMAND_NOT_RETRYABLE');
+  }
+  if (await findPendingDuplicate(existing.type, existing.payload)) {
+    throw fail(`A ${existing.type} command is already pending.`, 409, 'DUPLICATE_PENDING_COMMAND');
+  }
+
+  const now = new Date();
+  const expiresAt = pickupDeadline(existing.type, now);
+  const result = await commandsCollection(db).updateOne(
+    { commandId, status: existing.status },
+    {
+      $set: { status: 'pending', attempts: 0, expiresAt },
+      $unset: { error: '', finishedAt: '', claimedAt: '', claimedBy: '', leaseExpiresAt: '', cancelledBy: '' },
+      $push: pushEvents({ type: 'retried', at: now.toISOString(), actor: retriedBy, detail: `was ${existing.status}` }),
+    }
+  );
+  if (!result.modifiedCount) {
+    throw fail('This command changed while it was being retried. Reload and try again.', 409, 'COMMAND_NOT_RETRYABLE');
+  }
+  return loadCommand(db, commandId);
+}
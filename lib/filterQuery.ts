@@ -0,0 +1,372 @@
+// lib/filterQuery.ts
+// WHAT: Filter expression language for hashtag/filter reports — parse, format and
+//     compile to a MongoDB query on `projects`
+// WHY: Filters were an AND list of hashtags. Report owners need "Summer OR Winter
+//     but not friendlies, for this partner, in 2025, with over 5000 attendees".
+// SYNTAX:
+//     summer  #summer           hashtag in the plain list or any category
+//     country:hungary           hashtag in one category
+//     partner:"FC Barcelona"    event of a partner (name or id; either side)
+//     org:uefa                  event of any partner in an organization (name or id)
+//     date:2025-01-01..2025-12-31   event date range, inclusive; either end may be open
+//     stats.eventAttendees > 5000   stat predicate: > >= < <= = !=
+//     AND / OR / NOT, parentheses; adjacent terms and commas mean AND, so an old
+//     "summer,winter" tag list parses unchanged.
+// NOTE: Pure and client-safe (the query builder parses in the browser). Partner and
+//     organization names are resolved to ids server-side by lib/filterQueryResolver.ts.
+
+import type { ObjectId } from 'mongodb';
+import { CATEGORY_NAME_VALIDATION } from './hashtagCategoryTypes';
+
+export type StatOperator = '>' | '>=' | '<' | '<=' | '=' | '!=';
+
+export type FilterNode =
+  | { type: 'and'; children: FilterNode[] }
+  | { type: 'or'; children: FilterNode[] }
+  | { type: 'not'; child: FilterNode }
+  | { type: 'hashtag'; category: string | null; value: string }
+  | { type: 'partner'; value: string }
+  | { type: 'organization'; value: string }
+  | { type: 'date'; from: string | null; to: string | null }
+  | { type: 'stat'; field: string; op: StatOperator; value: number };
+
+export type FilterTerm = Exclude<FilterNode, { type: 'and' | 'or' | 'not' }>;
+
+/**
+ * WHAT: Partner ids each partner/organization term resolves to, keyed by the
+ *     term's lower-cased value; an organization maps to its member partners
+ */
+export interface FilterReferences {
+  partners: Map<string, ObjectId[]>;
+  organizations: Map<string, ObjectId[]>;
+}
+
+export const STAT_OPERATORS: readonly StatOperator[] = ['>', '>=', '<', '<=', '=', '!='];
+
+const MAX_EXPRESSION_LENGTH = 2000;
+const MAX_DEPTH = 20;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const STAT_FIELD_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+const KEYWORDS = ['and', 'or', 'not'];
+// Term prefixes that are not hashtag categories
+const ORGANIZATION_PREFIXES = ['org', 'organization'];
+
+type Token =
+  // literal: the whole word was quoted, so it is a plain hashtag whatever it contains
+  | { kind: 'word'; text: string; quoted: boolean; literal: boolean; pos: number }
+  | { kind: 'op'; op: StatOperator; pos: number }
+  | { kind: '(' | ')' | ','; pos: number };
+
+function syntaxError(message: string, position: number) {
+  return Object.assign(new Error(`${message} (at character ${position + 1})`), { status: 400, position });
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < source.length) {
+    const ch = source[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(' || ch === ')' || ch === ',') {
+      tokens.push({ kind: ch, pos: i++ });
+    } else if ('<>=!'.includes(ch)) {
+      const two = source.slice(i, i + 2);
+      const op = (['>=', '<=', '!='].includes(two) ? two : ch) as StatOperator;
+      if (!STAT_OPERATORS.includes(op)) throw syntaxError(`Unexpected "${ch}"`, i);
+      tokens.push({ kind: 'op', op, pos: i });
+      i += op.length;
+    } else {
+      // A word runs to whitespace or punctuation; quoted parts may contain anything
+      const pos = i;
+      let text = '';
+      let quoted = false;
+      while (i < source.length && !/[\s(),<>=!]/.test(source[i])) {
+        if (source[i] === '"') {
+          quoted = true;
+          const close = source.indexOf('"', i + 1);
+          if (close === -1) throw syntaxError('Unterminated quote', i);
+          text += source.slice(i + 1, close);
+          i = close + 1;
+        } else {
+          text += source[i++];
+        }
+      }
+      tokens.push({ kind: 'word', text, quoted, literal: source[pos] === '"' && source[i - 1] === '"', pos });
+    }
+  }
+  return tokens;
+}
+
+function isKeyword(token: Token | undefined, keyword: string): boolean {
+  return token?.kind === 'word' && !token.quoted && token.text.toLowerCase() === keyword;
+}
+
+function parseDateRange(spec: string, pos: number): FilterTerm {
+  const [from, to, extra] = spec.includes('..') ? spec.split('..') : [spec, spec];
+  if (extra !== undefined || (!from && !to)) throw syntaxError('Date range must look like 2025-01-01..2025-12-31', pos);
+  for (const date of [from, to]) {
+    if (date && (!DATE_PATTERN.test(date) || Number.isNaN(Date.parse(date)))) {
+      throw syntaxError(`"${date}" is not a YYYY-MM-DD date`, pos);
+    }
+  }
+  if (from && to && from > to) throw syntaxError('Date range ends before it starts', pos);
+  return { type: 'date', from: from || null, to: to || null };
+}
+
+function parseWordTerm(token: Extract<Token, { kind: 'word' }>): FilterTerm {
+  const { text, pos } = token;
+  if (!text.trim()) throw syntaxError('Empty term', pos);
+  if (token.literal) return { type: 'hashtag', category: null, value: text.trim().toLowerCase() };
+  const colon = text.indexOf(':');
+  const prefix = colon > 0 ? text.slice(0, colon).toLowerCase() : '';
+  const value = colon > 0 ? text.slice(colon + 1).trim() : '';
+
+  if (prefix === 'date') return parseDateRange(value, pos);
+  if (prefix === 'partner' || ORGANIZATION_PREFIXES.includes(prefix)) {
+    if (!value) throw syntaxError(`${prefix}: needs a name or id`, pos);
+    return { type: prefix === 'partner' ? 'partner' : 'organization', value };
+  }
+
+  const tag = text.replace(/^#/, '');
+  const tagColon = tag.indexOf(':');
+  if (tagColon > 0 && tagColon < tag.length - 1) {
+    const category = tag.slice(0, tagColon).toLowerCase();
+    if (CATEGORY_NAME_VALIDATION.PATTERN.test(category)) {
+      return { type: 'hashtag', category, value: tag.slice(tagColon + 1).trim().toLowerCase() };
+    }
+  }
+  if (!tag.trim()) throw syntaxError('Empty hashtag', pos);
+  return { type: 'hashtag', category: null, value: tag.trim().toLowerCase() };
+}
+
+function simplify(type: 'and' | 'or', children: FilterNode[]): FilterNode {
+  const flat = children.flatMap((child) => (child.type === type ? child.children : [child]));
+  return flat.length === 1 ? flat[0] : { type, children: flat };
+}
+
+/**
+ * WHAT: Parse a filter expression
+ * @throws Error with status 400 and `position` when the expression is invalid
+ */
+export function parseFilterExpression(source: string): FilterNode {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw syntaxError(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`, MAX_EXPRESSION_LENGTH);
+  }
+  const tokens = tokenize(source);
+  if (tokens.length === 0) throw syntaxError('Expression is empty', 0);
+  let index = 0;
+  const peek = () => tokens[index];
+  const endPos = () => (peek()?.pos ?? source.length);
+
+  const parseOr = (depth: number): FilterNode => {
+    const children = [parseAnd(depth)];
+    while (isKeyword(peek(), 'or')) {
+      index++;
+      children.push(parseAnd(depth));
+    }
+    return simplify('or', children);
+  };
+
+  const parseAnd = (depth: number): FilterNode => {
+    const children = [parseUnary(depth)];
+    for (;;) {
+      const next = peek();
+      if (isKeyword(next, 'and') || next?.kind === ',') {
+        index++;
+        children.push(parseUnary(depth));
+      } else if (next && (next.kind === '(' || (next.kind === 'word' && !isKeyword(next, 'or')))) {
+        children.push(parseUnary(depth));
+      } else {
+        return simplify('and', children);
+      }
+    }
+  };
+
+  const parseUnary = (depth: number): FilterNode => {
+    if (depth > MAX_DEPTH) throw syntaxError('Expression is nested too deeply', endPos());
+    if (isKeyword(peek(), 'not')) {
+      index++;
+      const child = parseUnary(depth + 1);
+      // NOT NOT x is x
+      return child.type === 'not' ? child.child : { type: 'not', child };
+    }
+    return parsePrimary(depth);
+  };
+
+  const parsePrimary = (depth: number): FilterNode => {
+    const token = peek();
+    if (!token) throw syntaxError('Expression ends too early', source.length);
+    if (token.kind === '(') {
+      index++;
+      const inner = parseOr(depth + 1);
+      if (peek()?.kind !== ')') throw syntaxError('Missing closing parenthesis', endPos());
+      index++;
+      return inner;
+    }
+    if (token.kind !== 'word' || (!token.quoted && KEYWORDS.includes(token.text.toLowerCase()))) {
+      throw syntaxError(`Unexpected "${token.kind === 'word' ? token.text : token.kind === 'op' ? token.op : token.kind}"`, token.pos);
+    }
+    index++;
+
+    if (!token.quoted && token.text.toLowerCase().startsWith('stats.')) {
+      const field = token.text.slice('stats.'.length);
+      if (!STAT_FIELD_PATTERN.test(field)) throw syntaxError(`"${field}" is not a stat field name`, token.pos);
+      const op = peek();
+      if (op?.kind !== 'op') throw syntaxError(`stats.${field} needs a comparison like > 5000`, endPos());
+      index++;
+      const number = peek();
+      const value = number?.kind === 'word' ? Number(number.text) : NaN;
+      if (number?.kind !== 'word' || number.quoted || !number.text || !Number.isFinite(value)) {
+        throw syntaxError(`stats.${field} ${op.op} needs a number`, endPos());
+      }
+      index++;
+      return { type: 'stat', field, op: op.op, value };
+    }
+    if (peek()?.kind === 'op') throw syntaxError('Comparisons are only allowed on stats.<field>', peek()!.pos);
+    return parseWordTerm(token);
+  };
+
+  const node = parseOr(0);
+  if (index < tokens.length) {
+    const token = tokens[index];
+    throw syntaxError(`Unexpected "${token.kind === 'word' ? token.text : token.kind === 'op' ? token.op : token.kind}"`, token.pos);
+  }
+  return node;
+}
+
+function quote(value: string): string {
+  return /^[^\s(),<>=!"]+$/.test(value) && !KEYWORDS.includes(value.toLowerCase()) ? value : `"${value.replace(/"/g, '')}"`;
+}
+
+/**
+ * WHAT: Canonical text of an expression — what is stored on filter_slugs and shown
+ *     in the builder; parseFilterExpression(formatFilterExpression(n)) equals n
+ */
+export function formatFilterExpression(node: FilterNode): string {
+  switch (node.type) {
+    case 'and':
+      return node.children.map((child) => (child.type === 'or' ? `(${formatFilterExpression(child)})` : formatFilterExpression(child))).join(' AND ');
+    case 'or':
+      return node.children.map(formatFilterExpression).join(' OR ');
+    case 'not':
+      return `NOT ${node.child.type === 'and' || node.child.type === 'or' ? `(${formatFilterExpression(node.child)})` : formatFilterExpression(node.child)}`;
+    case 'hashtag': {
+      const value = quote(node.value);
+      // A plain tag that looks like a category term or a reserved prefix keeps its quotes
+      if (node.category) return `${node.category}:${value}`;
+      return /[:#]/.test(value) || /^stats\./i.test(value) ? `"${node.value.replace(/"/g, '')}"` : value;
+    }
+    case 'partner':
+      return `partner:${quote(node.value)}`;
+    case 'organization':
+      return `org:${quote(node.value)}`;
+    case 'date':
+      return node.from === node.to ? `date:${node.from}` : `date:${node.from ?? ''}..${node.to ?? ''}`;
+    case 'stat':
+      return `stats.${node.field} ${node.op} ${node.value}`;
+  }
+}
+
+/**
+ * WHAT: A legacy hashtag list as an expression (all tags must match)
+ */
+export function filterFromHashtags(hashtags: string[]): FilterNode | null {
+  const terms = hashtags
+    .map((tag) => tag.trim())
+    .filter(Boolean)
+    .map((tag) => parseWordTerm({ kind: 'word', text: tag, quoted: false, literal: false, pos: 0 }));
+  return terms.length ? simplify('and', terms) : null;
+}
+
+/**
+ * WHAT: Every term in an expression, in order
+ */
+export function filterTerms(node: FilterNode): FilterTerm[] {
+  if (node.type === 'and' || node.type === 'or') return node.children.flatMap(filterTerms);
+  if (node.type === 'not') return filterTerms(node.child);
+  return [node];
+}
+
+/**
+ * WHAT: The hashtags an expression mentions, as "tag" or "category:tag"
+ * WHY: Stored next to the expression so filter listings and names keep working
+ */
+export function hashtagsInFilter(node: FilterNode): string[] {
+  const tags = filterTerms(node)
+    .filter((term): term is Extract<FilterTerm, { type: 'hashtag' }> => term.type === 'hashtag')
+    .map((term) => (term.category ? `${term.category}:${term.value}` : term.value));
+  return Array.from(new Set(tags));
+}
+
+function nextDay(date: string): string {
+  return new Date(Date.parse(date) + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function partnerMatch(partnerIds: ObjectId[]): Record<string, unknown> {
+  // Nothing resolved: match no event (NOT of it then matches every event)
+  if (partnerIds.length === 0) return { _id: { $in: [] } };
+  // Same linkage the organization report uses
+  return {
+    $or: [
+      { partner1Id: { $in: partnerIds } },
+      { partner2Id: { $in: partnerIds } },
+      { partner1: { $in: partnerIds } },
+      { partner2: { $in: partnerIds } },
+    ],
+  };
+}
+
+/**
+ * WHAT: Compile an expression to a MongoDB filter on `projects`
+ * @param refs - partner/organization terms resolved to partner ids
+ */
+export function compileFilterQuery(node: FilterNode, refs: FilterReferences): Record<string, unknown> {
+  switch (node.type) {
+    case 'and':
+      return { $and: node.children.map((child) => compileFilterQuery(child, refs)) };
+    case 'or':
+      return { $or: node.children.map((child) => compileFilterQuery(child, refs)) };
+    case 'not':
+      return { $nor: [compileFilterQuery(node.child, refs)] };
+    case 'hashtag':
+      if (node.category) return { [`categorizedHashtags.${node.category}`]: node.value };
+      // Plain list, or any category list (as /api/hashtags/filter always matched)
+      return {
+        $or: [
+          { hashtags: node.value },
+          {
+            $expr: {
+              $gt: [
+                {
+                  $size: {
+                    $filter: {
+                      input: { $objectToArray: { $ifNull: ['$categorizedHashtags', {}] } },
+                      cond: { $in: [node.value, '$$this.v'] },
+                    },
+                  },
+                },
+                0,
+              ],
+            },
+          },
+        ],
+      };
+    case 'partner':
+      return partnerMatch(refs.partners.get(node.value.toLowerCase()) ?? []);
+    case 'organization':
+      return partnerMatch(refs.organizations.get(node.value.toLowerCase()) ?? []);
+    case 'date': {
+      // eventDate is an ISO string; string comparison matches both date and datetime forms
+      const range: Record<string, string> = {};
+      if (node.from) range.$gte = node.from;
+      if (node.to) range.$lt = nextDay(node.to);
+      return { eventDate: range };
+    }
+    case 'stat': {
+      const path = `stats.${node.field}`;
+      const operators: Record<StatOperator, string> = { '>': '$gt', '>=': '$gte', '<': '$lt', '<=': '$lte', '=': '$eq', '!=': '$ne' };
+      return { [path]: { [operators[node.op]]: node.value } };
+    }
+  }
+}
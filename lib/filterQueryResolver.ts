@@ -0,0 +1,62 @@
+// lib/filterQueryResolver.ts
+// WHAT: Server side of the filter expression language (lib/filterQuery.ts) —
+//     resolve partner/organization terms and build the `projects` query
+// WHY: Kept apart from the parser so the admin query builder can parse in the
+//     browser without pulling in the MongoDB driver.
+
+import { ObjectId, type Db } from 'mongodb';
+import {
+  compileFilterQuery,
+  filterTerms,
+  parseFilterExpression,
+  type FilterNode,
+  type FilterReferences,
+} from './filterQuery';
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// A 24-hex id, or a case-insensitive exact name
+function nameOrIdQuery(value: string): Record<string, unknown> {
+  return /^[a-f0-9]{24}$/i.test(value)
+    ? { _id: new ObjectId(value) }
+    : { name: { $regex: new RegExp(`^${escapeRegex(value)}$`, 'i') } };
+}
+
+/**
+ * WHAT: Partner ids for every partner/organization term in an expression
+ * NOTE: A name that matches nothing resolves to no partners, so the term matches no event
+ */
+export async function resolveFilterReferences(db: Db, node: FilterNode): Promise<FilterReferences> {
+  const refs: FilterReferences = { partners: new Map(), organizations: new Map() };
+  const partners = db.collection('partners');
+
+  for (const term of filterTerms(node)) {
+    const key = 'value' in term && typeof term.value === 'string' ? term.value.toLowerCase() : '';
+    if (term.type === 'partner' && !refs.partners.has(key)) {
+      const found = await partners.find(nameOrIdQuery(term.value), { projection: { _id: 1 } }).toArray();
+      refs.partners.set(key, found.map((partner) => partner._id));
+    }
+    if (term.type === 'organization' && !refs.organizations.has(key)) {
+      const organizations = await db
+        .collection('organizations')
+        .find(nameOrIdQuery(term.value), { projection: { _id: 1 } })
+        .toArray();
+      const members = organizations.length
+        ? await partners.find({ organizationId: { $in: organizations.map((org) => org._id) } }, { projection: { _id: 1 } }).toArray()
+        : [];
+      refs.organizations.set(key, members.map((partner) => partner._id));
+    }
+  }
+  return refs;
+}
+
+/**
+ * WHAT: MongoDB filter on `projects` for an expression (text or parsed)
+ * @throws Error with status 400 when the text does not parse
+ */
+export async function buildFilterProjectQuery(db: Db, expression: string | FilterNode): Promise<Record<string, unknown>> {
+  const node = typeof expression === 'string' ? parseFilterExpression(expression) : expression;
+  return compileFilterQuery(node, await resolveFilterReferences(db, node));
+}
@@ -0,0 +1,141 @@
+// lib/fixtures/dedupe.ts
+// WHAT: Recognise the same match reported by two providers and merge them
+//     into one fixture document
+// WHY: A partner enriched from both Football-Data.org and TheSportsDB would
+//     otherwise show every game twice in Quick Add, and each copy could become
+//     its own draft event.
+// HOW: Two fixtures are the same match when they are the same sport, at most a
+//     day apart (providers disagree on time zones) and both teams agree — by
+//     linked partner when both sides are linked, otherwise by name similarity.
+//     The provider earliest in PROVIDER_PRIORITY owns the core fields; the
+//     others only fill gaps. Each provider stays listed in `sources`.
+
+import { ObjectId } from 'mongodb';
+import { AUTO_LINK_CONFIDENCE, teamNameSimilarity } from './teamMatching';
+import type { FixtureDoc, FixtureProviderId, FixtureSource, FixtureTeam, ProviderFixture, TeamPartnerMatch } from './types';
+
+export const PROVIDER_PRIORITY: readonly FixtureProviderId[] = ['football-data', 'api-football', 'sportsdb'];
+
+const SAME_TEAM_SIMILARITY = 0.8;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MatchedFixture {
+  fixture: ProviderFixture;
+  homeMatch: TeamPartnerMatch | null;
+  awayMatch: TeamPartnerMatch | null;
+}
+
+type DedupeCandidate = Pick<FixtureDoc, 'sport' | 'date' | 'homeTeam' | 'awayTeam' | 'sources'> & {
+  homePartnerId?: unknown;
+  awayPartnerId?: unknown;
+};
+
+function linkedPartnerId(match: TeamPartnerMatch | null): string | undefined {
+  return match && match.confidence >= AUTO_LINK_CONFIDENCE ? match.partnerId : undefined;
+}
+
+function sameTeam(
+  existing: FixtureTeam,
+  existingPartnerId: unknown,
+  incoming: ProviderFixture['homeTeam'],
+  incomingPartnerId: string | undefined
+): boolean {
+  if (existingPartnerId && incomingPartnerId) return String(existingPartnerId) === incomingPartnerId;
+  const existingNames = [existing.name, existing.shortName];
+  const incomingNames = [incoming.name, incoming.shortName];
+  return existingNames.some((a) => incomingNames.some((b) => teamNameSimilarity(a, b) >= SAME_TEAM_SIMILARITY));
+}
+
+/**
+ * WHAT: The YYYY-MM-DD dates a duplicate of a fixture on `date` may carry
+ */
+export function dedupeDateWindow(date: string): string[] {
+  const day = Date.parse(`${date}T00:00:00.000Z`);
+  if (Number.isNaN(day)) return [date];
+  return [-1, 0, 1].map((offset) => new Date(day + offset * DAY_MS).toISOString().slice(0, 10));
+}
+
+/**
+ * WHAT: Whether `incoming` is a stored fixture reported again by another provider
+ * NOTE: A provider never reports one match under two ids, so a fixture that
+ *     already has a source from the incoming provider is a different match
+ *     (e.g. a double-header)
+ */
+export function isSameFixture(existing: DedupeCandidate, incoming: MatchedFixture): boolean {
+  const { fixture } = incoming;
+  if (existing.sources.some((source) => source.provider === fixture.provider)) return false;
+  if (existing.sport !== fixture.sport) return false;
+  if (!dedupeDateWindow(fixture.date).includes(existing.date)) return false;
+  return (
+    sameTeam(existing.homeTeam, existing.homePartnerId, fixture.homeTeam, linkedPartnerId(incoming.homeMatch)) &&
+    sameTeam(existing.awayTeam, existing.awayPartnerId, fixture.awayTeam, linkedPartnerId(incoming.awayMatch))
+  );
+}
+
+function betterMatch(a: TeamPartnerMatch | null, b: TeamPartnerMatch | null): TeamPartnerMatch | null {
+  if (!a) return b;
+  if (!b) return a;
+  return b.confidence > a.confidence ? b : a;
+}
+
+function priority(provider: FixtureProviderId): number {
+  return PROVIDER_PRIORITY.indexOf(provider);
+}
+
+/**
+ * WHAT: The fixture document after `incoming` is applied to `existing` (or a new one)
+ */
+export function mergeFixture(existing: FixtureDoc | null, incoming: MatchedFixture, now: string): Omit<FixtureDoc, '_id'> {
+  const { fixture } = incoming;
+  const source: FixtureSource = {
+    provider: fixture.provider,
+    providerFixtureId: fixture.providerFixtureId,
+    providerStatus: fixture.providerStatus,
+    homeTeamId: fixture.homeTeam.id,
+    awayTeamId: fixture.awayTeam.id,
+    syncedAt: now,
+  };
+  const homeMatch = betterMatch(existing?.homeTeam.match ?? null, incoming.homeMatch);
+  const awayMatch = betterMatch(existing?.awayTeam.match ?? null, incoming.awayMatch);
+  const homeLinked = linkedPartnerId(homeMatch);
+  const awayLinked = linkedPartnerId(awayMatch);
+
+  const owns = !existing || priority(fixture.provider) <= priority(existing.primaryProvider);
+  const pick = <T>(current: T | null | undefined, next: T | null | undefined): T | null =>
+    (owns ? next ?? current : current ?? next) ?? null;
+
+  const sources = (existing?.sources ?? []).filter(
+    (s) => !(s.provider === source.provider && s.providerFixtureId === source.providerFixtureId)
+  );
+  sources.push(source);
+  sources.sort((a, b) => priority(a.provider) - priority(b.provider));
+
+  return {
+    sport: existing?.sport ?? fixture.sport,
+    competition: owns || !existing?.competition.name ? fixture.competition : existing.competition,
+    season: pick(existing?.season, fixture.season),
+    kickoffAt: pick(existing?.kickoffAt, fixture.kickoffAt),
+    date: owns || !existing ? fixture.date : existing.date,
+    status: owns || !existing || existing.status === 'unknown' ? fixture.status : existing.status,
+    venue: pick(existing?.venue, fixture.venue),
+    homeTeam: { ...(owns || !existing ? fixture.homeTeam : existing.homeTeam), match: homeMatch },
+    awayTeam: { ...(owns || !existing ? fixture.awayTeam : existing.awayTeam), match: awayMatch },
+    score: pick(existing?.score, fixture.score),
+    // A link is never removed here — it may have been confirmed by an admin
+    ...(existing?.homePartnerId !== undefined
+      ? { homePartnerId: existing.homePartnerId }
+      : homeLinked
+        ? { homePartnerId: new ObjectId(homeLinked) }
+        : {}),
+    ...(existing?.awayPartnerId !== undefined
+      ? { awayPartnerId: existing.awayPartnerId }
+      : awayLinked
+        ? { awayPartnerId: new ObjectId(awayLinked) }
+        : {}),
+    primaryProvider: owns ? fixture.provider : existing!.primaryProvider,
+    sources,
+    ...(existing?.projectId ? { projectId: existing.projectId, isDraftProject: existing.isDraftProject } : {}),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+}
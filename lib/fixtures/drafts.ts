@@ -0,0 +1,188 @@
+// lib/fixtures/drafts.ts
+// WHAT: The one way a fixture becomes a draft event (project)
+// WHY: Football-Data.org and TheSportsDB each had their own copy with
+//     different rules (only one merged hashtags); Quick Add, the sync script
+//     and the draft API now all go through createDraftProjectFromFixture.
+// RULES: The home team must be a partner — linked by the sync, or chosen by the
+//     admin (which confirms a low-confidence suggestion). The opponent is
+//     created as a draft partner when missing, if FOOTBALL_DATA_AUTO_CREATE_PARTNERS
+//     allows. A fixture links to at most one project.
+
+import { ObjectId, type Db } from 'mongodb';
+import config from '@/lib/config';
+import { getDb } from '@/lib/db';
+import { getFixtureProvider } from './providers';
+import { FIXTURES_COLLECTION, type FixtureDoc, type FixtureTeam } from './types';
+
+export type DraftFromFixtureResult =
+  | { created: true; projectId: string }
+  | { created: false; reason: 'invalid_id' | 'fixture_not_found' | 'already_linked' | 'home_partner_missing' | 'partner_not_found'; projectId?: string };
+
+interface PartnerLike {
+  _id: ObjectId;
+  name?: string;
+  hashtags?: string[];
+  categorizedHashtags?: Record<string, string[]>;
+}
+
+/**
+ * WHAT: Hashtags for a match event — all of the home partner's, and the
+ *     away partner's except its location (the match is not played there)
+ */
+export function mergeMatchHashtags(home: PartnerLike | null, away: PartnerLike | null) {
+  const categorized: Record<string, string[]> = {};
+  const all: string[] = [];
+  const mergeFrom = (partner: PartnerLike | null, skipLocation: boolean) => {
+    if (!partner) return;
+    if (Array.isArray(partner.hashtags)) all.push(...partner.hashtags);
+    for (const [category, tags] of Object.entries(partner.categorizedHashtags ?? {})) {
+      if (skipLocation && category.toLowerCase() === 'location') continue;
+      categorized[category] = Array.from(new Set([...(categorized[category] || []), ...tags]));
+    }
+  };
+  mergeFrom(home, false);
+  mergeFrom(away, true);
+  return { hashtags: Array.from(new Set(all)), categorizedHashtags: categorized };
+}
+
+/**
+ * WHAT: The `fixture` block stored on a project linked to a fixture
+ * NOTE: lib/fixtures/results.ts adds the post-match `result` and keeps `status` current
+ */
+export function projectFixtureSummary(fixture: FixtureDoc, linkedAt: string) {
+  return {
+    fixtureId: String(fixture._id),
+    sources: fixture.sources.map(({ provider, providerFixtureId }) => ({ provider, providerFixtureId })),
+    competition: fixture.competition.name,
+    kickoffAt: fixture.kickoffAt,
+    status: fixture.status,
+    venue: fixture.venue,
+    linkedAt,
+  };
+}
+
+// WHAT: A project already created from this fixture, including by the old per-provider importers
+async function findLinkedProject(db: Db, fixture: FixtureDoc): Promise<ObjectId | null> {
+  const legacy = fixture.sources.flatMap((source): Array<Record<string, string | number>> => {
+    if (source.provider === 'football-data') return [{ 'footballDataFixture.fixtureId': Number(source.providerFixtureId) }];
+    if (source.provider === 'sportsdb') return [{ 'sportsDbFixture.eventId': source.providerFixtureId }];
+    return [];
+  });
+  const project = await db
+    .collection('projects')
+    .findOne({ $or: [{ 'fixture.fixtureId': String(fixture._id) }, ...legacy] }, { projection: { _id: 1 } });
+  return (project?._id as ObjectId | undefined) ?? null;
+}
+
+async function resolveOpponent(db: Db, fixture: FixtureDoc, team: FixtureTeam): Promise<ObjectId | undefined> {
+  if (!config.footballDataAutoCreatePartners) return undefined;
+  // Prefer the provider that owns the fixture, then any other that can create partners
+  for (const source of fixture.sources) {
+    const provider = getFixtureProvider(source.provider);
+    if (!provider.createDraftPartner || !source.awayTeamId) continue;
+    const created = await provider.createDraftPartner({ ...team, id: source.awayTeamId });
+    await db.collection<FixtureDoc>(FIXTURES_COLLECTION).updateOne({ _id: fixture._id }, { $set: { awayPartnerId: created._id } });
+    return created._id;
+  }
+  return undefined;
+}
+
+/**
+ * @param options.homePartnerId / awayPartnerId - admin's choice when the fixture
+ *     is not linked (confirms a suggestion); stored on the fixture
+ */
+export async function createDraftProjectFromFixture(
+  fixtureId: string,
+  options: { homePartnerId?: string; awayPartnerId?: string } = {}
+): Promise<DraftFromFixtureResult> {
+  if (!ObjectId.isValid(fixtureId)) return { created: false, reason: 'invalid_id' };
+  for (const id of [options.homePartnerId, options.awayPartnerId]) {
+    if (id !== undefined && !ObjectId.isValid(id)) return { created: false, reason: 'invalid_id' };
+  }
+
+  const db = await getDb();
+  const fixturesCol = db.collection<FixtureDoc>(FIXTURES_COLLECTION);
+  const partners = db.collection<PartnerLike>('partners');
+
+  const fixture = await fixturesCol.findOne({ _id: new ObjectId(fixtureId) });
+  if (!fixture) return { created: false, reason: 'fixture_not_found' };
+  if (fixture.projectId) return { created: false, reason: 'already_linked', projectId: String(fixture.projectId) };
+
+  const existingProject = await findLinkedProject(db, fixture);
+  if (existingProject) {
+    await fixturesCol.updateOne({ _id: fixture._id }, { $set: { projectId: existingProject } });
+    return { created: false, reason: 'already_linked', projectId: String(existingProject) };
+  }
+
+  const confirmed: Partial<Pick<FixtureDoc, 'homePartnerId' | 'awayPartnerId'>> = {};
+  let homePartnerId = fixture.homePartnerId;
+  if (!homePartnerId && options.homePartnerId) {
+    homePartnerId = confirmed.homePartnerId = new ObjectId(options.homePartnerId);
+  }
+  if (!homePartnerId) return { created: false, reason: 'home_partner_missing' };
+
+  let awayPartnerId = fixture.awayPartnerId;
+  if (!awayPartnerId && options.awayPartnerId) {
+    awayPartnerId = confirmed.awayPartnerId = new ObjectId(options.awayPartnerId);
+  }
+
+  const home = await partners.findOne({ _id: homePartnerId });
+  if (!home) return { created: false, reason: 'partner_not_found' };
+  if (!awayPartnerId) awayPartnerId = await resolveOpponent(db, fixture, fixture.awayTeam);
+  const away = awayPartnerId ? await partners.findOne({ _id: awayPartnerId }) : null;
+  if (confirmed.awayPartnerId && !away) return { created: false, reason: 'partner_not_found' };
+
+  const now = new Date().toISOString();
+  const projectDoc = {
+    eventName: `${home.name || fixture.homeTeam.name} x ${away?.name || fixture.awayTeam.name}`,
+    eventDate: fixture.date,
+    ...mergeMatchHashtags(home, away),
+    stats: {
+      remoteImages: 0, hostessImages: 0, selfies: 0,
+      female: 0, male: 0, genAlpha: 0, genYZ: 0, genX: 0, boomer: 0,
+      indoor: 0, outdoor: 0, stadium: 0,
+      merched: 0, jersey: 0, scarf: 0, flags: 0, baseballCap: 0, other: 0,
+    },
+    partner1Id: homePartnerId,
+    partner2Id: awayPartnerId,
+    createdAt: now,
+    updatedAt: now,
+    isDraft: true,
+    fixture: projectFixtureSummary(fixture, now),
+  };
+
+  const res = await db.collection('projects').insertOne(projectDoc);
+
+  // WHAT: Claim the fixture; a concurrent request that claimed it first wins
+  const claim = await fixturesCol.updateOne(
+    { _id: fixture._id, projectId: { $exists: false } },
+    { $set: { ...confirmed, projectId: res.insertedId, isDraftProject: true, updatedAt: now } }
+  );
+  if (claim.modifiedCount === 0) {
+    await db.collection('projects').deleteOne({ _id: res.insertedId });
+    const winner = await fixturesCol.findOne({ _id: fixture._id }, { projection: { projectId: 1 } });
+    return { created: false, reason: 'already_linked', projectId: winner?.projectId ? String(winner.projectId) : undefined };
+  }
+  return { created: true, projectId: res.insertedId.toString() };
+}
+
+/**
+ * WHAT: Bulk pass — a draft for every upcoming, linked fixture without a project
+ */
+export async function autoCreateDraftsFromFixtures(limit = 200): Promise<{ created: number; skipped: number }> {
+  const db = await getDb();
+  const today = new Date().toISOString().slice(0, 10);
+  const candidates = await db
+    .collection<FixtureDoc>(FIXTURES_COLLECTION)
+    .find({ projectId: { $exists: false }, homePartnerId: { $exists: true }, status: 'scheduled', date: { $gte: today } })
+    .project<{ _id: ObjectId }>({ _id: 1 })
+    .limit(limit)
+    .toArray();
+
+  let created = 0;
+  for (const fixture of candidates) {
+    const res = await createDraftProjectFromFixture(String(fixture._id));
+    if (res.created) created++;
+  }
+  return { created, skipped: candidates.length - created };
+}
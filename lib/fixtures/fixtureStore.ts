@@ -0,0 +1,206 @@
+// lib/fixtures/fixtureStore.ts
+// WHAT: Sync provider fixtures into the unified `fixtures` collection
+// WHY: Replaces the per-provider caches (football_data_fixtures,
+//     sportsdb_fixtures) so Quick Add and draft creation read one list.
+// HOW: Each fetched fixture has both teams matched against partners
+//     (teamMatching.ts), then is stored under its provider id — or merged into
+//     the same match already reported by another provider (dedupe.ts).
+
+import type { Collection, Db } from 'mongodb';
+import { getDb } from '@/lib/db';
+import { warn as logWarn } from '@/lib/logger';
+import { dedupeDateWindow, isSameFixture, mergeFixture, type MatchedFixture } from './dedupe';
+import { DEFAULT_FOOTBALL_DATA_COMPETITIONS, getFixtureProvider } from './providers';
+import { matchTeamToPartner, PARTNER_CANDIDATE_PROJECTION, toPartnerCandidate, type PartnerCandidate } from './teamMatching';
+import { FIXTURES_COLLECTION, type FixtureDoc, type FixtureProviderId, type FixtureQuery, type ProviderFixture } from './types';
+
+export interface FixtureSyncResult {
+  provider: FixtureProviderId;
+  fetched: number;
+  inserted: number;
+  updated: number;
+  // Fixtures another provider had already reported
+  merged: number;
+  errors: Array<{ query: FixtureQuery; error: string }>;
+}
+
+function fixtures(db: Db): Collection<FixtureDoc> {
+  return db.collection<FixtureDoc>(FIXTURES_COLLECTION);
+}
+
+export async function loadPartnerCandidates(db?: Db): Promise<PartnerCandidate[]> {
+  const database = db ?? (await getDb());
+  const docs = await database.collection('partners').find({}, { projection: PARTNER_CANDIDATE_PROJECTION }).toArray();
+  return docs.map(toPartnerCandidate);
+}
+
+/**
+ * WHAT: Store fetched fixtures, merging duplicates across providers
+ */
+export async function upsertProviderFixtures(
+  items: ProviderFixture[],
+  options: { candidates?: PartnerCandidate[]; now?: string } = {}
+): Promise<Pick<FixtureSyncResult, 'inserted' | 'updated' | 'merged'>> {
+  const db = await getDb();
+  const col = fixtures(db);
+  const candidates = options.candidates ?? (await loadPartnerCandidates(db));
+  const now = options.now ?? new Date().toISOString();
+  const result = { inserted: 0, updated: 0, merged: 0 };
+
+  for (const fixture of items) {
+    if (!fixture.date) continue;
+    const matched: MatchedFixture = {
+      fixture,
+      homeMatch: matchTeamToPartner(fixture.provider, fixture.homeTeam, candidates),
+      awayMatch: matchTeamToPartner(fixture.provider, fixture.awayTeam, candidates),
+    };
+
+    let existing = await col.findOne({
+      sources: { $elemMatch: { provider: fixture.provider, providerFixtureId: fixture.providerFixtureId } },
+    });
+    if (!existing) {
+      const sameDay = await col.find({ sport: fixture.sport, date: { $in: dedupeDateWindow(fixture.date) } }).limit(500).toArray();
+      existing = sameDay.find((candidate) => isSameFixture(candidate, matched)) ?? null;
+      if (existing) result.merged++;
+    }
+
+    const doc = mergeFixture(existing, matched, now);
+    if (existing) {
+      // The project link is owned by draft creation, never rewritten by a sync
+      const { projectId: _projectId, isDraftProject: _isDraftProject, ...fields } = doc;
+      await col.updateOne({ _id: existing._id }, { $set: fields });
+      result.updated++;
+    } else {
+      try {
+        await col.insertOne(doc as FixtureDoc);
+        result.inserted++;
+      } catch (err) {
+        // A concurrent sync stored it first (unique source index); the next sync refreshes it
+        if ((err as { code?: number }).code !== 11000) throw err;
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * WHAT: Fetch from one provider and store the result
+ * @param queries - one provider request each (a competition, or a team)
+ */
+export async function syncProviderFixtures(
+  providerId: FixtureProviderId,
+  queries: FixtureQuery[],
+  options: { delayMs?: number } = {}
+): Promise<FixtureSyncResult> {
+  const provider = getFixtureProvider(providerId);
+  const candidates = await loadPartnerCandidates();
+  const result: FixtureSyncResult = { provider: providerId, fetched: 0, inserted: 0, updated: 0, merged: 0, errors: [] };
+
+  for (const [index, query] of queries.entries()) {
+    try {
+      const items = await provider.fetchFixtures(query);
+      result.fetched += items.length;
+      const stored = await upsertProviderFixtures(items, { candidates });
+      result.inserted += stored.inserted;
+      result.updated += stored.updated;
+      result.merged += stored.merged;
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      logWarn('Fixture sync query failed', { context: 'fixtures', provider: providerId, ...query }, err instanceof Error ? err : undefined);
+      result.errors.push({ query, error });
+    }
+    // Respect provider rate limits between requests
+    if (options.delayMs && index < queries.length - 1) await new Promise((r) => setTimeout(r, options.delayMs));
+  }
+  return result;
+}
+
+/**
+ * WHAT: The default sync queries for a provider
+ * HOW: Football-Data.org by competition; TheSportsDB and API-Sports by every
+ *     partner that carries the provider's team id
+ */
+export async function defaultSyncQueries(
+  providerId: FixtureProviderId,
+  options: { competitionIds?: string[]; dateFrom?: string; dateTo?: string } = {}
+): Promise<FixtureQuery[]> {
+  const range = { dateFrom: options.dateFrom, dateTo: options.dateTo };
+  if (providerId === 'football-data') {
+    const competitions = options.competitionIds?.length ? options.competitionIds : DEFAULT_FOOTBALL_DATA_COMPETITIONS;
+    return competitions.map((competitionId) => ({ competitionId, ...range }));
+  }
+
+  const path = getFixtureProvider(providerId).partnerTeamIdPath;
+  const db = await getDb();
+  const partners = await db
+    .collection('partners')
+    .find({ [path]: { $exists: true, $nin: [null, ''] } })
+    .project({ [path]: 1, 'enrichedData.apiFootball.sport': 1 })
+    .limit(500)
+    .toArray();
+  return partners.map((partner) => ({
+    teamId: String(path.split('.').reduce<any>((value, key) => value?.[key], partner)),
+    ...(providerId === 'api-football' ? { sport: partner.enrichedData?.apiFootball?.sport || 'soccer' } : {}),
+    ...range,
+  }));
+}
+
+/**
+ * WHAT: Re-run partner matching on fixtures that still miss a partner link
+ * WHY: A partner created or enriched after the sync should pick up its fixtures
+ */
+export async function rematchUnlinkedFixtures(limit = 500): Promise<{ matched: number }> {
+  const db = await getDb();
+  const col = fixtures(db);
+  const candidates = await loadPartnerCandidates(db);
+  const unlinked = await col
+    .find({ $or: [{ homePartnerId: { $exists: false } }, { awayPartnerId: { $exists: false } }] })
+    .limit(limit)
+    .toArray();
+
+  let matched = 0;
+  for (const fixture of unlinked) {
+    const source = fixture.sources.find((s) => s.provider === fixture.primaryProvider) ?? fixture.sources[0];
+    if (!source) continue;
+    const incoming: MatchedFixture = {
+      fixture: {
+        provider: source.provider,
+        providerFixtureId: source.providerFixtureId,
+        sport: fixture.sport,
+        competition: fixture.competition,
+        season: fixture.season,
+        kickoffAt: fixture.kickoffAt,
+        date: fixture.date,
+        status: fixture.status,
+        providerStatus: source.providerStatus,
+        venue: fixture.venue,
+        homeTeam: { ...fixture.homeTeam, id: source.homeTeamId },
+        awayTeam: { ...fixture.awayTeam, id: source.awayTeamId },
+        score: fixture.score,
+      },
+      homeMatch: matchTeamToPartner(source.provider, { ...fixture.homeTeam, id: source.homeTeamId }, candidates),
+      awayMatch: matchTeamToPartner(source.provider, { ...fixture.awayTeam, id: source.awayTeamId }, candidates),
+    };
+    const doc = mergeFixture(fixture, incoming, fixture.updatedAt);
+    if (
+      String(doc.homePartnerId ?? '') !== String(fixture.homePartnerId ?? '') ||
+      String(doc.awayPartnerId ?? '') !== String(fixture.awayPartnerId ?? '') ||
+      doc.homeTeam.match?.partnerId !== fixture.homeTeam.match?.partnerId ||
+      doc.awayTeam.match?.partnerId !== fixture.awayTeam.match?.partnerId
+    ) {
+      await col.updateOne(
+        { _id: fixture._id },
+        {
+          $set: {
+            homeTeam: doc.homeTeam,
+            awayTeam: doc.awayTeam,
+            ...(doc.homePartnerId ? { homePartnerId: doc.homePartnerId } : {}),
+            ...(doc.awayPartnerId ? { awayPartnerId: doc.awayPartnerId } : {}),
+          },
+        }
+      );
+      matched++;
+    }
+  }
+  return { matched };
+}
@@ -0,0 +1,111 @@
+// lib/fixtures/providers/apiFootball.ts
+// WHAT: FixtureProvider adapter for API-Sports (API-Football and its sister sports)
+// HOW: Fixtures are listed per team and date range; the sport picks the
+//     API-Sports subdomain (soccer by default).
+
+import { createApiFootballClient, type ApiFootballFixture, type ApiFootballStatistics, type Sport } from '@/lib/api-football';
+import { insertDraftPartner } from './draftPartner';
+import { collectMatchStatistics, type MatchStatistics } from '../statistics';
+import type { FixtureProvider, FixtureStatus, ProviderFixture } from '../types';
+
+const STATUS: Record<string, FixtureStatus> = {
+  TBD: 'scheduled',
+  NS: 'scheduled',
+  '1H': 'live',
+  HT: 'live',
+  '2H': 'live',
+  ET: 'live',
+  BT: 'live',
+  P: 'live',
+  LIVE: 'live',
+  INT: 'live',
+  SUSP: 'postponed',
+  PST: 'postponed',
+  FT: 'finished',
+  AET: 'finished',
+  PEN: 'finished',
+  AWD: 'finished',
+  WO: 'finished',
+  CANC: 'cancelled',
+  ABD: 'cancelled',
+};
+
+// How far ahead a sync looks when no dateTo is given
+const DEFAULT_WINDOW_DAYS = 60;
+
+export function fromApiFootballFixture(item: ApiFootballFixture, sport: string = 'soccer'): ProviderFixture {
+  const kickoffAt = item.fixture.date ? new Date(item.fixture.date).toISOString() : null;
+  const hasScore = item.goals && (item.goals.home !== null || item.goals.away !== null);
+  return {
+    provider: 'api-football',
+    providerFixtureId: String(item.fixture.id),
+    sport,
+    competition: { id: String(item.league.id), name: item.league.name },
+    season: item.league.season ? String(item.league.season) : null,
+    kickoffAt,
+    date: kickoffAt ? kickoffAt.slice(0, 10) : '',
+    status: STATUS[item.fixture.status?.short] ?? 'unknown',
+    providerStatus: item.fixture.status?.short ?? null,
+    venue: item.fixture.venue?.name ?? null,
+    homeTeam: { id: String(item.teams.home.id), name: item.teams.home.name, logo: item.teams.home.logo },
+    awayTeam: { id: String(item.teams.away.id), name: item.teams.away.name, logo: item.teams.away.logo },
+    score: hasScore ? { home: item.goals.home, away: item.goals.away } : null,
+  };
+}
+
+/**
+ * WHAT: /fixtures/statistics rows (one per team) as home/away statistics
+ * @param homeTeamId - the fixture's home team; the other row is the away team
+ */
+export function fromApiFootballStatistics(rows: ApiFootballStatistics[], homeTeamId: number): MatchStatistics {
+  const home = rows.find((row) => row.team.id === homeTeamId);
+  const away = rows.find((row) => row.team.id !== homeTeamId);
+  const labels = Array.from(new Set([...(home?.statistics ?? []), ...(away?.statistics ?? [])].map((stat) => stat.type)));
+  return collectMatchStatistics(
+    labels.map((label) => ({
+      label,
+      home: home?.statistics.find((stat) => stat.type === label)?.value,
+      away: away?.statistics.find((stat) => stat.type === label)?.value,
+    }))
+  );
+}
+
+export const apiFootballProvider: FixtureProvider = {
+  id: 'api-football',
+  label: 'API-Sports',
+  partnerTeamIdPath: 'enrichedData.apiFootball.teamId',
+
+  async fetchFixtures(query) {
+    if (!query.teamId) {
+      throw Object.assign(new Error('API-Sports fixtures are listed per team (teamId)'), { status: 400 });
+    }
+    const sport = (query.sport || 'soccer') as Sport;
+    const from = query.dateFrom || new Date().toISOString().slice(0, 10);
+    const to = query.dateTo || new Date(Date.parse(from) + DEFAULT_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    const fixtures = await createApiFootballClient(sport).getFixturesByTeam(Number(query.teamId), from, to);
+    return fixtures.map((item) => fromApiFootballFixture(item, sport));
+  },
+
+  async fetchResult(providerFixtureId, sport) {
+    const client = createApiFootballClient((sport || 'soccer') as Sport);
+    const item = await client.getFixture(Number(providerFixtureId));
+    if (!item) return null;
+    const fixture = fromApiFootballFixture(item, sport);
+    // Statistics are only final once the match is; the statistics endpoint is soccer-only
+    const statistics = fixture.status === 'finished' && fixture.sport === 'soccer'
+      ? fromApiFootballStatistics(await client.getFixtureStatistics(item.fixture.id), item.teams.home.id)
+      : {};
+    return { fixture, statistics };
+  },
+
+  async createDraftPartner(team) {
+    const teamId = Number(team.id);
+    const now = new Date().toISOString();
+    return insertDraftPartner(
+      team.name,
+      { 'enrichedData.apiFootball.teamId': teamId },
+      { enrichedData: { apiFootball: { teamId, name: team.name, logo: team.logo || '', enrichedAt: now, lastSyncAt: now } } },
+      team.logo
+    );
+  },
+};
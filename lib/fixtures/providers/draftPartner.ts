@@ -0,0 +1,48 @@
+// lib/fixtures/providers/draftPartner.ts
+// WHAT: Insert a draft partner for an opponent that is not in partners yet
+// WHY: Shared by the provider adapters — only the enrichment block differs
+
+import type { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/db';
+
+/**
+ * @param providerFilter - finds an existing partner for this team (no duplicate drafts)
+ * @param logo - uploaded to ImgBB when available; failures never block the draft
+ */
+export async function insertDraftPartner(
+  name: string,
+  providerFilter: Record<string, unknown>,
+  enrichment: Record<string, unknown>,
+  logo?: string | null
+): Promise<{ _id: ObjectId }> {
+  const db = await getDb();
+  const partners = db.collection('partners');
+
+  const existing = await partners.findOne(providerFilter, { projection: { _id: 1 } });
+  if (existing) return { _id: existing._id as ObjectId };
+
+  const now = new Date().toISOString();
+  const doc: Record<string, unknown> = {
+    name,
+    emoji: '⚽',
+    hashtags: [],
+    categorizedHashtags: {},
+    ...enrichment,
+    isDraft: true,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  try {
+    if (logo) {
+      const { uploadImageFromUrl } = await import('@/lib/imgbbApi');
+      const up = await uploadImageFromUrl(logo, `partner-${name}`);
+      if (up.success && up.data?.url) doc.logoUrl = up.data.url;
+    }
+  } catch {
+    // Non-blocking
+  }
+
+  const res = await partners.insertOne(doc);
+  return { _id: res.insertedId };
+}
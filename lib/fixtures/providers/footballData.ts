@@ -0,0 +1,99 @@
+// lib/fixtures/providers/footballData.ts
+// WHAT: FixtureProvider adapter for Football-Data.org
+// HOW: Fixtures are listed per competition (code or id); a team filter is
+//     applied to the competition's matches.
+
+import { fetchFixtures, fetchMatch } from '@/lib/footballDataApi';
+import type { FootballDataMatch, FootballDataMatchesResponse } from '@/lib/footballData.types';
+import { insertDraftPartner } from './draftPartner';
+import type { FixtureProvider, FixtureStatus, ProviderFixture, ProviderTeamRef } from '../types';
+
+// Competitions synced when none are requested
+export const DEFAULT_FOOTBALL_DATA_COMPETITIONS = ['PL', 'PD', 'SA', 'BL1', 'FL1', 'BSA', 'CL'];
+
+const STATUS: Record<string, FixtureStatus> = {
+  SCHEDULED: 'scheduled',
+  TIMED: 'scheduled',
+  LIVE: 'live',
+  IN_PLAY: 'live',
+  PAUSED: 'live',
+  FINISHED: 'finished',
+  AWARDED: 'finished',
+  POSTPONED: 'postponed',
+  SUSPENDED: 'postponed',
+  CANCELED: 'cancelled',
+  CANCELLED: 'cancelled',
+};
+
+function toTeam(team: FootballDataMatch['homeTeam']): ProviderTeamRef {
+  return {
+    id: team?.id !== undefined && team?.id !== null ? String(team.id) : null,
+    name: team?.name || 'TBD',
+    shortName: team?.shortName ?? null,
+    code: team?.tla ?? null,
+    logo: team?.crest ?? null,
+  };
+}
+
+export function fromFootballDataMatch(match: FootballDataMatch, fallbackCompetition?: FootballDataMatchesResponse['competition']): ProviderFixture {
+  const competition = match.competition ?? fallbackCompetition;
+  const fullTime = match.score?.fullTime;
+  return {
+    provider: 'football-data',
+    providerFixtureId: String(match.id),
+    sport: 'soccer',
+    competition: { id: competition ? String(competition.id) : null, name: competition?.name ?? null },
+    season: match.season?.startDate ? match.season.startDate.slice(0, 4) : null,
+    kickoffAt: match.utcDate || null,
+    date: (match.utcDate || '').slice(0, 10),
+    status: STATUS[match.status] ?? 'unknown',
+    providerStatus: match.status ?? null,
+    venue: match.venue ?? null,
+    homeTeam: toTeam(match.homeTeam),
+    awayTeam: toTeam(match.awayTeam),
+    score: fullTime && (fullTime.home !== null || fullTime.away !== null) ? { home: fullTime.home, away: fullTime.away } : null,
+  };
+}
+
+export const footballDataProvider: FixtureProvider = {
+  id: 'football-data',
+  label: 'Football-Data.org',
+  partnerTeamIdPath: 'footballData.teamId',
+
+  async fetchFixtures(query) {
+    if (!query.competitionId) {
+      throw Object.assign(new Error('Football-Data.org fixtures are listed per competition (competitionId)'), { status: 400 });
+    }
+    const resp = await fetchFixtures(query.competitionId, { dateFrom: query.dateFrom, dateTo: query.dateTo });
+    const fixtures = resp.matches.map((match) => fromFootballDataMatch(match, resp.competition));
+    return query.teamId
+      ? fixtures.filter((f) => f.homeTeam.id === query.teamId || f.awayTeam.id === query.teamId)
+      : fixtures;
+  },
+
+  // Match statistics are not part of the free tier — score and status only
+  async fetchResult(providerFixtureId) {
+    const match = await fetchMatch(providerFixtureId);
+    return match?.id ? { fixture: fromFootballDataMatch(match), statistics: {} } : null;
+  },
+
+  async createDraftPartner(team) {
+    const teamId = Number(team.id);
+    return insertDraftPartner(
+      team.name,
+      { 'footballData.teamId': teamId },
+      {
+        footballData: {
+          teamId,
+          name: team.name,
+          shortName: team.shortName || team.name,
+          tla: team.code || '',
+          crest: team.logo || '',
+          competitions: [],
+          lastSynced: new Date().toISOString(),
+        },
+      },
+      team.logo
+    );
+  },
+};
@@ -0,0 +1,23 @@
+// lib/fixtures/providers/index.ts
+// WHAT: Registry of fixture providers by id
+
+import { apiFootballProvider } from './apiFootball';
+import { footballDataProvider } from './footballData';
+import { sportsDbProvider } from './sportsDb';
+import type { FixtureProvider, FixtureProviderId } from '../types';
+
+export const FIXTURE_PROVIDERS: Record<FixtureProviderId, FixtureProvider> = {
+  'football-data': footballDataProvider,
+  sportsdb: sportsDbProvider,
+  'api-football': apiFootballProvider,
+};
+
+export function isFixtureProviderId(value: unknown): value is FixtureProviderId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(FIXTURE_PROVIDERS, value);
+}
+
+export function getFixtureProvider(id: FixtureProviderId): FixtureProvider {
+  return FIXTURE_PROVIDERS[id];
+}
+
+export { DEFAULT_FOOTBALL_DATA_COMPETITIONS } from './footballData';
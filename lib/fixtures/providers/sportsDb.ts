@@ -0,0 +1,119 @@
+// lib/fixtures/providers/sportsDb.ts
+// WHAT: FixtureProvider adapter for TheSportsDB
+// HOW: TheSportsDB lists upcoming events per team (teamId); date filters are
+//     applied to that list.
+
+import { fetchTeamUpcomingEvents, lookupEvent, lookupEventStats, lookupTeam } from '@/lib/sportsDbApi';
+import type { SportsDbEvent } from '@/lib/sportsDbTypes';
+import { insertDraftPartner } from './draftPartner';
+import { collectMatchStatistics } from '../statistics';
+import type { FixtureProvider, FixtureStatus, ProviderFixture } from '../types';
+
+const STATUS: Record<string, FixtureStatus> = {
+  'not started': 'scheduled',
+  ns: 'scheduled',
+  tbd: 'scheduled',
+  '1h': 'live',
+  '2h': 'live',
+  ht: 'live',
+  live: 'live',
+  'in progress': 'live',
+  ft: 'finished',
+  aet: 'finished',
+  pen: 'finished',
+  finished: 'finished',
+  'match finished': 'finished',
+  postponed: 'postponed',
+  pst: 'postponed',
+  cancelled: 'cancelled',
+  canc: 'cancelled',
+  abandoned: 'cancelled',
+};
+
+function toScore(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : null;
+}
+
+// TheSportsDB timestamps carry no zone but are UTC
+function toIsoUtc(timestamp: string | undefined): string | null {
+  if (!timestamp) return null;
+  const withZone = /[zZ]|[+-]\d\d:?\d\d$/.test(timestamp) ? timestamp : `${timestamp}Z`;
+  const ms = Date.parse(withZone);
+  return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+}
+
+export function fromSportsDbEvent(event: SportsDbEvent & { strSport?: string }): ProviderFixture {
+  const kickoffAt = toIsoUtc(event.strTimestamp);
+  const home = toScore(event.intHomeScore);
+  const away = toScore(event.intAwayScore);
+  return {
+    provider: 'sportsdb',
+    providerFixtureId: event.idEvent,
+    sport: (event.strSport || 'soccer').toLowerCase(),
+    competition: { id: event.idLeague ?? null, name: event.strLeague ?? null },
+    season: event.strSeason ?? null,
+    kickoffAt,
+    date: event.dateEvent || (kickoffAt ? kickoffAt.slice(0, 10) : ''),
+    status: event.strStatus ? STATUS[event.strStatus.toLowerCase()] ?? 'unknown' : 'scheduled',
+    providerStatus: event.strStatus ?? null,
+    venue: event.strVenue ?? null,
+    homeTeam: { id: event.idHomeTeam ?? null, name: event.strHomeTeam || 'Home' },
+    awayTeam: { id: event.idAwayTeam ?? null, name: event.strAwayTeam || 'Away' },
+    score: home !== null || away !== null ? { home, away } : null,
+  };
+}
+
+export const sportsDbProvider: FixtureProvider = {
+  id: 'sportsdb',
+  label: 'TheSportsDB',
+  partnerTeamIdPath: 'sportsDb.teamId',
+
+  async fetchFixtures(query) {
+    if (!query.teamId) {
+      throw Object.assign(new Error('TheSportsDB fixtures are listed per team (teamId)'), { status: 400 });
+    }
+    const events = await fetchTeamUpcomingEvents(query.teamId);
+    return events
+      .map(fromSportsDbEvent)
+      .filter((f) => (!query.dateFrom || f.date >= query.dateFrom) && (!query.dateTo || f.date <= query.dateTo));
+  },
+
+  async fetchResult(providerFixtureId) {
+    const event = await lookupEvent(providerFixtureId);
+    if (!event) return null;
+    const fixture = fromSportsDbEvent(event);
+    const statistics = fixture.status === 'finished'
+      ? collectMatchStatistics((await lookupEventStats(providerFixtureId)).map((stat) => ({ label: stat.strStat, home: stat.intHome, away: stat.intAway })))
+      : {};
+    return { fixture, statistics };
+  },
+
+  async createDraftPartner(ref) {
+    if (!ref.id) throw new Error('sportsdb_team_id_missing');
+    const team = await lookupTeam(ref.id);
+    if (!team) throw new Error('sportsdb_team_not_found');
+    return insertDraftPartner(
+      team.strTeam,
+      { 'sportsDb.teamId': team.idTeam },
+      {
+        sportsDb: {
+          teamId: team.idTeam,
+          strTeam: team.strTeam,
+          strTeamShort: team.strTeamShort,
+          strAlternate: team.strAlternate,
+          strSport: team.strSport,
+          strLeague: team.strLeague,
+          leagueId: team.idLeague,
+          strStadium: team.strStadium,
+          intFormedYear: team.intFormedYear,
+          strCountry: team.strCountry,
+          strTeamBadge: team.strTeamBadge,
+          lastSynced: new Date().toISOString(),
+        },
+      },
+      team.strTeamBadge
+    );
+  },
+};
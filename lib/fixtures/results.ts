@@ -0,0 +1,253 @@
+// lib/fixtures/results.ts
+// WHAT: Post-match backfill — the final score and match statistics of every
+//     fixture linked to an event, written into the event's stats
+// WHY: eventResultHome / eventResultVisitor were typed in by hand after each
+//     match; postponed and cancelled matches went unnoticed until someone
+//     opened the event.
+// HOW: A scheduled pass (/api/cron/fixture-results) picks linked fixtures whose
+//     kickoff is more than RESULT_GRACE_MS ago, asks each source provider for
+//     the fixture (highest priority first) and:
+//     - finished → writes score and statistics into project stats, with the
+//       provider, fetch time and written fields in `fixture.result`;
+//     - postponed / cancelled → records the status on the project, which the
+//       admin events list flags.
+//     A fixture is retried on every pass until it finishes or RESULT_WINDOW_DAYS
+//     have passed; a cancelled one is not retried.
+// RULES: A stats value an admin typed in is never overwritten — a field is
+//     written when it is empty (or 0) or was written by an earlier backfill.
+
+import type { Db, ObjectId } from 'mongodb';
+import { getDb } from '@/lib/db';
+import { warn as logWarn } from '@/lib/logger';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
+import { PROVIDER_PRIORITY } from './dedupe';
+import { projectFixtureSummary } from './drafts';
+import { getFixtureProvider } from './providers';
+import { MATCH_STATISTIC_FIELDS, type MatchStatisticKey, type MatchStatistics } from './statistics';
+import { FIXTURES_COLLECTION, type FixtureDoc, type FixtureProviderId, type ProviderMatchResult } from './types';
+
+// Kickoff + 90 minutes + half time, stoppage and extra time
+export const RESULT_GRACE_MS = 150 * 60 * 1000;
+
+// Give up on a fixture that has no final result this long after its date
+export const RESULT_WINDOW_DAYS = 7;
+
+/**
+ * WHAT: Provenance of backfilled stats, stored at project.fixture.result
+ */
+export interface ProjectFixtureResult {
+  provider: FixtureProviderId;
+  providerFixtureId: string;
+  score: { home: number | null; away: number | null };
+  statistics: MatchStatistics;
+  // Stats keys this backfill wrote, and those kept because an admin had set them
+  fields: string[];
+  keptManual: string[];
+  fetchedAt: string;
+}
+
+export interface ResultBackfillSummary {
+  checked: number;
+  finished: number;
+  postponed: number;
+  cancelled: number;
+  // Not final yet (or no provider knew the fixture) — retried next pass
+  pending: number;
+  errors: Array<{ fixtureId: string; provider: FixtureProviderId; error: string }>;
+}
+
+/**
+ * WHAT: Whether the match should be over by `now`
+ * NOTE: Without a kickoff time, the day after the fixture date
+ */
+export function isResultDue(fixture: Pick<FixtureDoc, 'kickoffAt' | 'date'>, now: Date): boolean {
+  if (fixture.kickoffAt) return Date.parse(fixture.kickoffAt) + RESULT_GRACE_MS <= now.getTime();
+  return !!fixture.date && fixture.date < now.toISOString().slice(0, 10);
+}
+
+/**
+ * WHAT: Project stats values for a final score and its statistics
+ */
+export function resultStatsValues(
+  score: { home: number | null; away: number | null },
+  statistics: MatchStatistics
+): Record<string, number> {
+  const values: Record<string, number> = {};
+  if (score.home !== null) values.eventResultHome = score.home;
+  if (score.away !== null) values.eventResultVisitor = score.away;
+  for (const [key, value] of Object.entries(statistics) as Array<[MatchStatisticKey, MatchStatistics[MatchStatisticKey]]>) {
+    const fields = MATCH_STATISTIC_FIELDS[key];
+    if (value?.home !== null && value?.home !== undefined) values[fields.home] = value.home;
+    if (value?.away !== null && value?.away !== undefined) values[fields.away] = value.away;
+  }
+  return values;
+}
+
+/**
+ * WHAT: Which values to write, keeping what an admin typed in
+ * @param previousFields - fields an earlier backfill wrote (safe to refresh)
+ */
+export function planResultStats(
+  current: Record<string, unknown>,
+  values: Record<string, number>,
+  previousFields: string[] = []
+): { set: Record<string, number>; keptManual: string[] } {
+  const set: Record<string, number> = {};
+  const keptManual: string[] = [];
+  for (const [field, value] of Object.entries(values)) {
+    const existing = current[field];
+    const empty = existing === undefined || existing === null || existing === '' || Number(existing) === 0;
+    if (empty || previousFields.includes(field) || Number(existing) === value) {
+      set[field] = value;
+    } else {
+      keptManual.push(field);
+    }
+  }
+  return { set, keptManual };
+}
+
+/**
+ * WHAT: Ask the fixture's providers, highest priority first
+ * @returns the first final result; otherwise the highest-priority answer (status only)
+ */
+async function fetchFixtureResult(
+  fixture: FixtureDoc,
+  errors: ResultBackfillSummary['errors']
+): Promise<{ provider: FixtureProviderId; providerFixtureId: string; result: ProviderMatchResult } | null> {
+  const sources = [...fixture.sources].sort(
+    (a, b) => PROVIDER_PRIORITY.indexOf(a.provider) - PROVIDER_PRIORITY.indexOf(b.provider)
+  );
+  let fallback: { provider: FixtureProviderId; providerFixtureId: string; result: ProviderMatchResult } | null = null;
+
+  for (const source of sources) {
+    const provider = getFixtureProvider(source.provider);
+    if (!provider.fetchResult) continue;
+    try {
+      const result = await provider.fetchResult(source.providerFixtureId, fixture.sport);
+      if (!result) continue;
+      const answer = { provider: source.provider, providerFixtureId: source.providerFixtureId, result };
+      if (result.fixture.status === 'finished' && result.fixture.score) return answer;
+      fallback = fallback ?? answer;
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      logWarn('Fixture result fetch failed', { context: 'fixtures', provider: source.provider, fixtureId: String(fixture._id) }, err instanceof Error ? err : undefined);
+      errors.push({ fixtureId: String(fixture._id), provider: source.provider, error });
+    }
+  }
+  return fallback;
+}
+
+async function applyToProject(
+  db: Db,
+  fixture: FixtureDoc,
+  answer: NonNullable<Awaited<ReturnType<typeof fetchFixtureResult>>>,
+  now: string
+): Promise<void> {
+  const projects = db.collection('projects');
+  const project = await projects.findOne({ _id: fixture.projectId }, { projection: { stats: 1, fixture: 1 } });
+  if (!project) {
+    // The event was deleted; free the fixture
+    await db.collection<FixtureDoc>(FIXTURES_COLLECTION).updateOne({ _id: fixture._id }, { $unset: { projectId: '', isDraftProject: '' } });
+    return;
+  }
+
+  const { fixture: incoming, statistics } = answer.result;
+  const state: Record<string, unknown> = { status: incoming.status, kickoffAt: incoming.kickoffAt ?? fixture.kickoffAt, checkedAt: now };
+  const $set: Record<string, unknown> = {};
+
+  let statsChanged = false;
+  if (incoming.status === 'finished' && incoming.score) {
+    const previous = (project.fixture?.result as ProjectFixtureResult | undefined)?.fields ?? [];
+    const plan = planResultStats(project.stats ?? {}, resultStatsValues(incoming.score, statistics), previous);
+    for (const [field, value] of Object.entries(plan.set)) {
+      if (project.stats?.[field] !== value) statsChanged = true;
+      $set[`stats.${field}`] = value;
+    }
+    const result: ProjectFixtureResult = {
+      provider: answer.provider,
+      providerFixtureId: answer.providerFixtureId,
+      score: incoming.score,
+      statistics,
+      fields: Object.keys(plan.set),
+      keptManual: plan.keptManual,
+      fetchedAt: now,
+    };
+    state.result = result;
+    if (statsChanged) $set.updatedAt = now;
+  }
+
+  if (project.fixture) {
+    for (const [key, value] of Object.entries(state)) $set[`fixture.${key}`] = value;
+  } else {
+    // Projects linked by the old per-provider importers have no fixture block yet
+    $set.fixture = { ...projectFixtureSummary(fixture, now), ...state };
+  }
+
+  await projects.updateOne({ _id: project._id }, { $set });
+  if (statsChanged) await enqueueWebhookEvent('event.updated', project._id as ObjectId);
+}
+
+/**
+ * WHAT: One backfill pass over linked fixtures whose result is due
+ * @param options.limit - fixtures per pass; providers are rate limited (Football-Data.org ~6.5s/request)
+ */
+export async function backfillFixtureResults(options: { limit?: number; now?: Date } = {}): Promise<ResultBackfillSummary> {
+  const now = options.now ?? new Date();
+  const nowIso = now.toISOString();
+  const db = await getDb();
+  const col = db.collection<FixtureDoc>(FIXTURES_COLLECTION);
+  const windowStart = new Date(now.getTime() - RESULT_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+  const candidates = await col
+    .find({
+      projectId: { $exists: true },
+      resultBackfilledAt: { $exists: false },
+      status: { $ne: 'cancelled' },
+      date: { $gte: windowStart, $lte: nowIso.slice(0, 10) },
+    })
+    // Least recently checked first, so a large backlog rotates across passes
+    .sort({ resultCheckedAt: 1, date: 1 })
+    .limit((options.limit ?? 25) * 4)
+    .toArray();
+  const due = candidates.filter((fixture) => isResultDue(fixture, now)).slice(0, options.limit ?? 25);
+
+  const summary: ResultBackfillSummary = { checked: 0, finished: 0, postponed: 0, cancelled: 0, pending: 0, errors: [] };
+  for (const fixture of due) {
+    summary.checked++;
+    const answer = await fetchFixtureResult(fixture, summary.errors);
+    if (!answer) {
+      await col.updateOne({ _id: fixture._id }, { $set: { resultCheckedAt: nowIso } });
+      summary.pending++;
+      continue;
+    }
+
+    const incoming = answer.result.fixture;
+    const final = incoming.status === 'finished' && !!incoming.score;
+    const ownsSchedule = answer.provider === fixture.primaryProvider;
+    await col.updateOne(
+      { _id: fixture._id },
+      {
+        $set: {
+          status: incoming.status,
+          ...(incoming.score ? { score: incoming.score } : {}),
+          // A postponed match moves; only the provider that owns the fixture reschedules it
+          ...(ownsSchedule && incoming.kickoffAt ? { kickoffAt: incoming.kickoffAt } : {}),
+          ...(ownsSchedule && incoming.date ? { date: incoming.date } : {}),
+          'sources.$[source].providerStatus': incoming.providerStatus,
+          'sources.$[source].syncedAt': nowIso,
+          resultCheckedAt: nowIso,
+          ...(final ? { resultBackfilledAt: nowIso } : {}),
+          updatedAt: nowIso,
+        },
+      },
+      { arrayFilters: [{ 'source.provider': answer.provider, 'source.providerFixtureId': answer.providerFixtureId }] }
+    );
+    await applyToProject(db, fixture, answer, nowIso);
+
+    if (final) summary.finished++;
+    else if (incoming.status === 'postponed') summary.postponed++;
+    else if (incoming.status === 'cancelled') summary.cancelled++;
+    else summary.pending++;
+  }
+  return summary;
+}
@@ -0,0 +1,82 @@
+// lib/fixtures/statistics.ts
+// WHAT: Match statistics in provider-neutral form, and the project stats they fill
+// WHY: API-Sports and TheSportsDB label statistics in English ("Ball Possession",
+//     "Shots on Goal"); the adapters map those labels to MatchStatisticKey and the
+//     post-match backfill (lib/fixtures/results.ts) writes them under fixed stats keys.
+
+export type MatchStatisticKey =
+  | 'possession'
+  | 'shots'
+  | 'shotsOnTarget'
+  | 'corners'
+  | 'fouls'
+  | 'offsides'
+  | 'yellowCards'
+  | 'redCards';
+
+export interface MatchStatisticValue {
+  home: number | null;
+  away: number | null;
+}
+
+export type MatchStatistics = Partial<Record<MatchStatisticKey, MatchStatisticValue>>;
+
+const STATISTIC_LABELS: Record<string, MatchStatisticKey> = {
+  'ball possession': 'possession',
+  possession: 'possession',
+  'total shots': 'shots',
+  shots: 'shots',
+  'shots on goal': 'shotsOnTarget',
+  'shots on target': 'shotsOnTarget',
+  'corner kicks': 'corners',
+  corners: 'corners',
+  fouls: 'fouls',
+  offsides: 'offsides',
+  'yellow cards': 'yellowCards',
+  'red cards': 'redCards',
+};
+
+/**
+ * WHAT: Project stats keys per statistic — [home, visitor], named like eventResultHome/eventResultVisitor
+ * NOTE: Registered as variables by migration 0004-match-statistics-variables
+ */
+export const MATCH_STATISTIC_FIELDS: Record<MatchStatisticKey, { home: string; away: string; label: string }> = {
+  possession: { home: 'eventPossessionHome', away: 'eventPossessionVisitor', label: 'Possession (%)' },
+  shots: { home: 'eventShotsHome', away: 'eventShotsVisitor', label: 'Shots' },
+  shotsOnTarget: { home: 'eventShotsOnTargetHome', away: 'eventShotsOnTargetVisitor', label: 'Shots on Target' },
+  corners: { home: 'eventCornersHome', away: 'eventCornersVisitor', label: 'Corners' },
+  fouls: { home: 'eventFoulsHome', away: 'eventFoulsVisitor', label: 'Fouls' },
+  offsides: { home: 'eventOffsidesHome', away: 'eventOffsidesVisitor', label: 'Offsides' },
+  yellowCards: { home: 'eventYellowCardsHome', away: 'eventYellowCardsVisitor', label: 'Yellow Cards' },
+  redCards: { home: 'eventRedCardsHome', away: 'eventRedCardsVisitor', label: 'Red Cards' },
+};
+
+export function matchStatisticKey(label: string): MatchStatisticKey | null {
+  return STATISTIC_LABELS[label.trim().toLowerCase()] ?? null;
+}
+
+// "55%" → 55, "7" → 7; anything else (null, "", "n/a") → null
+export function parseStatisticValue(value: number | string | null | undefined): number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  const trimmed = value.trim().replace(/%$/, '');
+  if (trimmed === '') return null;
+  const n = Number(trimmed);
+  return Number.isFinite(n) ? n : null;
+}
+
+/**
+ * WHAT: Known statistics from labelled rows; unknown labels are ignored
+ */
+export function collectMatchStatistics(
+  rows: Array<{ label: string; home: number | string | null | undefined; away: number | string | null | undefined }>
+): MatchStatistics {
+  const statistics: MatchStatistics = {};
+  for (const row of rows) {
+    const key = matchStatisticKey(row.label);
+    if (!key || statistics[key]) continue;
+    const value = { home: parseStatisticValue(row.home), away: parseStatisticValue(row.away) };
+    if (value.home !== null || value.away !== null) statistics[key] = value;
+  }
+  return statistics;
+}
@@ -0,0 +1,173 @@
+// lib/fixtures/teamMatching.ts
+// WHAT: Team → partner matching with a confidence score, shared by every fixture provider
+// WHY: Each importer used to match only on its own team id field, so a partner
+//     enriched from TheSportsDB never matched a Football-Data fixture even when
+//     the names were identical.
+// HOW: The provider's own team id wins (1.0). Otherwise names are compared after
+//     normalisation (accents, punctuation and club affixes like "FC" removed):
+//     the partner name (0.9), then its known aliases (0.85), then a bigram
+//     similarity for near misses (at most 0.8). Only matches at or above
+//     AUTO_LINK_CONFIDENCE are linked automatically; weaker ones are kept as
+//     suggestions for an admin to confirm.
+
+import type { FixtureProviderId, ProviderTeamRef, TeamPartnerMatch } from './types';
+
+export const AUTO_LINK_CONFIDENCE = 0.85;
+
+// Below this similarity two names are not considered the same team at all
+const MIN_FUZZY_SIMILARITY = 0.75;
+const MAX_FUZZY_CONFIDENCE = 0.8;
+
+// Club-form affixes that differ between providers ("FC Barcelona" / "Barcelona")
+const TEAM_AFFIXES = new Set([
+  'fc', 'cf', 'sc', 'ac', 'afc', 'cfc', 'ssc', 'as', 'club', 'kc', 'kk', 'rk', 'hc', 'bk', 'sk', 'fk', 'nk', 'cd', 'ud', 'sv', 'the',
+]);
+
+export interface PartnerCandidate {
+  id: string;
+  name: string;
+  aliases: string[];
+  providerTeamIds: Partial<Record<FixtureProviderId, string>>;
+}
+
+export const PARTNER_CANDIDATE_PROJECTION = {
+  name: 1,
+  'footballData.teamId': 1,
+  'footballData.name': 1,
+  'footballData.shortName': 1,
+  'sportsDb.teamId': 1,
+  'sportsDb.strTeam': 1,
+  'sportsDb.strTeamShort': 1,
+  'sportsDb.strAlternate': 1,
+  'enrichedData.apiFootball.teamId': 1,
+  'enrichedData.apiFootball.name': 1,
+} as const;
+
+export function normalizeTeamName(name: string | null | undefined): string {
+  return (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((token) => token && !TEAM_AFFIXES.has(token))
+    .join(' ');
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/ /g, '');
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+}
+
+/**
+ * WHAT: Dice coefficient over character bigrams of the normalised names (0–1)
+ */
+export function teamNameSimilarity(a: string | null | undefined, b: string | null | undefined): number {
+  const left = normalizeTeamName(a);
+  const right = normalizeTeamName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  if (leftGrams.length === 0 || rightGrams.length === 0) return 0;
+  const counts = new Map<string, number>();
+  leftGrams.forEach((gram) => counts.set(gram, (counts.get(gram) ?? 0) + 1));
+  let shared = 0;
+  for (const gram of rightGrams) {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(gram, count - 1);
+    }
+  }
+  return (2 * shared) / (leftGrams.length + rightGrams.length);
+}
+
+function asId(value: unknown): string | undefined {
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+/**
+ * WHAT: The matching view of a partner document (see PARTNER_CANDIDATE_PROJECTION)
+ */
+export function toPartnerCandidate(doc: any): PartnerCandidate {
+  const aliases = [
+    doc.footballData?.name,
+    doc.footballData?.shortName,
+    doc.sportsDb?.strTeam,
+    doc.sportsDb?.strTeamShort,
+    ...String(doc.sportsDb?.strAlternate || '').split(','),
+    doc.enrichedData?.apiFootball?.name,
+  ]
+    .map((alias) => (typeof alias === 'string' ? alias.trim() : ''))
+    .filter((alias) => alias && alias !== doc.name);
+
+  const providerTeamIds: PartnerCandidate['providerTeamIds'] = {};
+  const footballData = asId(doc.footballData?.teamId);
+  const sportsDb = asId(doc.sportsDb?.teamId);
+  const apiFootball = asId(doc.enrichedData?.apiFootball?.teamId);
+  if (footballData) providerTeamIds['football-data'] = footballData;
+  if (sportsDb) providerTeamIds.sportsdb = sportsDb;
+  if (apiFootball) providerTeamIds['api-football'] = apiFootball;
+
+  return { id: String(doc._id), name: String(doc.name || ''), aliases: Array.from(new Set(aliases)), providerTeamIds };
+}
+
+/**
+ * WHAT: Best partner for a provider team, or null when nothing is close enough
+ * NOTE: When two different partners tie on a name match, the result is kept as
+ *     a suggestion but scaled below AUTO_LINK_CONFIDENCE
+ */
+export function matchTeamToPartner(
+  provider: FixtureProviderId,
+  team: ProviderTeamRef,
+  candidates: PartnerCandidate[]
+): TeamPartnerMatch | null {
+  if (team.id) {
+    const byId = candidates.find((candidate) => candidate.providerTeamIds[provider] === team.id);
+    if (byId) return { partnerId: byId.id, partnerName: byId.name, confidence: 1, method: 'provider_id' };
+  }
+
+  const teamNames = [team.name, team.shortName].map(normalizeTeamName).filter(Boolean);
+  if (teamNames.length === 0) return null;
+
+  const named = (method: 'exact_name' | 'alias', confidence: number, hits: PartnerCandidate[]): TeamPartnerMatch | null => {
+    if (hits.length === 0) return null;
+    const ambiguous = new Set(hits.map((hit) => hit.id)).size > 1;
+    return {
+      partnerId: hits[0].id,
+      partnerName: hits[0].name,
+      confidence: ambiguous ? Math.round(confidence * 0.7 * 100) / 100 : confidence,
+      method,
+    };
+  };
+
+  const exact = candidates.filter((candidate) => teamNames.includes(normalizeTeamName(candidate.name)));
+  const exactMatch = named('exact_name', 0.9, exact);
+  if (exactMatch) return exactMatch;
+
+  const alias = candidates.filter((candidate) => candidate.aliases.some((a) => teamNames.includes(normalizeTeamName(a))));
+  const aliasMatch = named('alias', 0.85, alias);
+  if (aliasMatch) return aliasMatch;
+
+  let best: { candidate: PartnerCandidate; similarity: number } | null = null;
+  for (const candidate of candidates) {
+    for (const candidateName of [candidate.name, ...candidate.aliases]) {
+      for (const teamName of [team.name, team.shortName]) {
+        const similarity = teamNameSimilarity(candidateName, teamName);
+        if (similarity >= MIN_FUZZY_SIMILARITY && (!best || similarity > best.similarity)) {
+          best = { candidate, similarity };
+        }
+      }
+    }
+  }
+  if (!best) return null;
+  return {
+    partnerId: best.candidate.id,
+    partnerName: best.candidate.name,
+    confidence: Math.round(best.similarity * MAX_FUZZY_CONFIDENCE * 100) / 100,
+    method: 'fuzzy_name',
+  };
+}
@@ -0,0 +1,126 @@
+// lib/fixtures/types.ts
+// WHAT: Provider-neutral fixture types shared by the adapters, matching,
+//     de-duplication and draft creation in lib/fixtures/
+// WHY: Football-Data.org, TheSportsDB and API-Sports each describe a match in
+//     their own shape; everything past the adapter works on these instead.
+
+import type { ObjectId } from 'mongodb';
+import type { MatchStatistics } from './statistics';
+
+export const FIXTURES_COLLECTION = 'fixtures';
+
+export type FixtureProviderId = 'football-data' | 'sportsdb' | 'api-football';
+
+export type FixtureStatus = 'scheduled' | 'live' | 'finished' | 'postponed' | 'cancelled' | 'unknown';
+
+export interface ProviderTeamRef {
+  id: string | null;           // The provider's own team id, as a string
+  name: string;
+  shortName?: string | null;
+  code?: string | null;        // TLA / short code
+  logo?: string | null;
+}
+
+/**
+ * WHAT: One match as a provider adapter returns it
+ */
+export interface ProviderFixture {
+  provider: FixtureProviderId;
+  providerFixtureId: string;
+  sport: string;               // 'soccer', 'basketball', …
+  competition: { id: string | null; name: string | null };
+  season: string | null;
+  kickoffAt: string | null;    // ISO 8601 UTC, when the provider knows the time
+  date: string;                // YYYY-MM-DD (UTC)
+  status: FixtureStatus;
+  providerStatus: string | null;
+  venue: string | null;
+  homeTeam: ProviderTeamRef;
+  awayTeam: ProviderTeamRef;
+  score: { home: number | null; away: number | null } | null;
+}
+
+/**
+ * WHAT: A fixture's current state plus its match statistics (post-match backfill)
+ */
+export interface ProviderMatchResult {
+  fixture: ProviderFixture;
+  statistics: MatchStatistics;
+}
+
+export interface FixtureQuery {
+  teamId?: string;             // Provider team id
+  competitionId?: string;      // Provider competition id or code
+  dateFrom?: string;           // YYYY-MM-DD
+  dateTo?: string;             // YYYY-MM-DD
+  sport?: string;
+}
+
+/**
+ * WHAT: The adapter contract every fixture source implements
+ */
+export interface FixtureProvider {
+  readonly id: FixtureProviderId;
+  readonly label: string;
+  // Where a partner document keeps this provider's team id
+  readonly partnerTeamIdPath: string;
+  fetchFixtures(query: FixtureQuery): Promise<ProviderFixture[]>;
+  // One fixture by the provider's id, with statistics when the provider has them; null when unknown
+  fetchResult?(providerFixtureId: string, sport: string): Promise<ProviderMatchResult | null>;
+  // Create a draft partner for a team that is not in partners yet (opponents)
+  createDraftPartner?(team: ProviderTeamRef): Promise<{ _id: ObjectId }>;
+}
+
+export type TeamMatchMethod = 'provider_id' | 'exact_name' | 'alias' | 'fuzzy_name';
+
+export interface TeamPartnerMatch {
+  partnerId: string;
+  partnerName: string;
+  confidence: number;          // 0–1
+  method: TeamMatchMethod;
+}
+
+// Which provider reported a fixture, and under which id
+export interface FixtureSource {
+  provider: FixtureProviderId;
+  providerFixtureId: string;
+  providerStatus: string | null;
+  homeTeamId: string | null;
+  awayTeamId: string | null;
+  syncedAt: string;
+}
+
+export interface FixtureTeam extends ProviderTeamRef {
+  // Best partner candidate, kept even when below the auto-link confidence
+  match: TeamPartnerMatch | null;
+}
+
+/**
+ * WHAT: Stored document in the unified `fixtures` collection
+ * NOTE: One document per real match; `sources` lists every provider that reported it
+ */
+export interface FixtureDoc {
+  _id?: ObjectId;
+  sport: string;
+  competition: { id: string | null; name: string | null };
+  season: string | null;
+  kickoffAt: string | null;
+  date: string;
+  status: FixtureStatus;
+  venue: string | null;
+  homeTeam: FixtureTeam;
+  awayTeam: FixtureTeam;
+  score: { home: number | null; away: number | null } | null;
+  // Set only when the team match reached AUTO_LINK_CONFIDENCE (or was confirmed)
+  homePartnerId?: ObjectId;
+  awayPartnerId?: ObjectId;
+  primaryProvider: FixtureProviderId;
+  sources: FixtureSource[];
+  projectId?: ObjectId;
+  isDraftProject?: boolean;
+  // Post-match backfill (lib/fixtures/results.ts): last attempt, and when the final result was written
+  resultCheckedAt?: string;
+  resultBackfilledAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -85,6 +85,15 @@ export interface FootballDataMatchesResponse {
     venue?: string | null;
     homeTeam: FootballDataTeamRef;
     awayTeam: FootballDataTeamRef;
+    score?: {
+      winner?: 'HOME_TEAM' | 'AWAY_TEAM' | 'DRAW' | null;
+      duration?: 'REGULAR' | 'EXTRA_TIME' | 'PENALTY_SHOOTOUT' | string;
+      fullTime?: { home: number | null; away: number | null };
+      halfTime?: { home: number | null; away: number | null };
+    };
     lastUpdated?: string;
   }>;
 }
+
+// Single match (GET /matches/{id})
+export type FootballDataMatch = FootballDataMatchesResponse['matches'][number];
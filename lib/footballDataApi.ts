@@ -5,6 +5,7 @@
 import { config } from './config';
 import type {
   FootballDataCompetition,
+  FootballDataMatch,
   FootballDataMatchesResponse,
   FootballDataTeamRef,
 } from './footballData.types';
@@ -82,6 +83,11 @@ export async function fetchFixtures(
   return httpGet<FootballDataMatchesResponse>(path, params);
 }
 
+// Current state of one match — score included once it is played
+export async function fetchMatch(matchId: number | string): Promise<FootballDataMatch> {
+  return httpGet<FootballDataMatch>(`/matches/${matchId}`);
+}
+
 export async function fetchTeam(teamId: number): Promise<FootballDataTeamRef & { area?: unknown; venue?: string | null }>
 {
   // API returns a larger structure; we narrow to the essentials we care about.
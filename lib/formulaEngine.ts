@@ -2,6 +2,8 @@
 // DYNAMIC VARIABLE SYSTEM: Fetches variables from KYC/variables_metadata collection (92 variables)
 // Returns 'NA' for division by zero or invalid expressions
 // Missing variables/fields are treated as 0 by default (graceful degradation)
+// Formulas are parsed to an AST (lib/formulaParser.ts): nested function calls,
+// IF/AND/OR/NOT, comparisons and ?: all compose freely
 //
 // V12 ARCHITECTURE NOTE (v12.0.0+):
 // WHAT: This is the SINGLE formula evaluation engine used across the entire system
@@ -17,6 +19,7 @@ import {
   type ValidationResult as DataValidationResult
 } from './dataValidator';
 import { type ContentAsset } from './contentAssetTypes';
+import { parseFormula, FormulaSyntaxError, type FormulaNode, type FormulaFunctionName } from './formulaParser';
 
 /**
  * DYNAMIC VARIABLE CACHE - KYC as Single Source of Truth
@@ -257,49 +260,124 @@ export function resolveContentAssetToken(
  */
 
 /**
- * Safe mathematical functions that can be used in formulas
- * All functions handle edge cases and return 'NA' for invalid inputs
+ * Formula function implementations, keyed by the names lib/formulaParser.ts
+ * accepts. Each receives its argument nodes unevaluated so IF/AND/OR/SAFE_DIV
+ * can skip branches that would otherwise produce 'NA' (e.g. the division in
+ * IF([b] == 0, 0, [a] / [b])). Aggregates ignore 'NA' arguments and return
+ * 'NA' only when every argument is 'NA'.
  */
-const MATH_FUNCTIONS = {
-  /**
-   * Returns the maximum value from the provided arguments
-   * Example: MAX(10, 20, 5) returns 20
-   */
-  MAX: (...args: number[]): number | 'NA' => {
-    if (args.length === 0) return 'NA';
-    const validArgs = args.filter(arg => typeof arg === 'number' && !isNaN(arg));
-    if (validArgs.length === 0) return 'NA';
-    return Math.max(...validArgs);
+type FormulaResult = number | 'NA';
+type FormulaFunctionImpl = (args: FormulaNode[], evaluate: (node: FormulaNode) => FormulaResult) => FormulaResult;
+
+function numericArgs(args: FormulaNode[], evaluate: (node: FormulaNode) => FormulaResult): number[] {
+  return args.map(evaluate).filter((value): value is number => value !== 'NA');
+}
+
+function truthy(value: number): boolean {
+  return value !== 0;
+}
+
+const FORMULA_FUNCTION_IMPLS: Record<FormulaFunctionName, FormulaFunctionImpl> = {
+  /** MAX(10, 20, 5) → 20 */
+  MAX: (args, evaluate) => {
+    const values = numericArgs(args, evaluate);
+    return values.length > 0 ? Math.max(...values) : 'NA';
   },
-  
-  /**
-   * Returns the minimum value from the provided arguments  
-   * Example: MIN(10, 20, 5) returns 5
-   */
-  MIN: (...args: number[]): number | 'NA' => {
-    if (args.length === 0) return 'NA';
-    const validArgs = args.filter(arg => typeof arg === 'number' && !isNaN(arg));
-    if (validArgs.length === 0) return 'NA';
-    return Math.min(...validArgs);
+
+  /** MIN(10, 20, 5) → 5 */
+  MIN: (args, evaluate) => {
+    const values = numericArgs(args, evaluate);
+    return values.length > 0 ? Math.min(...values) : 'NA';
   },
-  
-  /**
-   * Rounds a number to the nearest integer
-   * Example: ROUND(10.7) returns 11
-   */
-  ROUND: (value: number): number | 'NA' => {
-    if (typeof value !== 'number' || isNaN(value)) return 'NA';
-    return Math.round(value);
+
+  /** SUM([indoor], [outdoor], [stadium]) */
+  SUM: (args, evaluate) => {
+    const values = numericArgs(args, evaluate);
+    return values.length > 0 ? values.reduce((total, value) => total + value, 0) : 'NA';
+  },
+
+  /** AVG([female], [male]) */
+  AVG: (args, evaluate) => {
+    const values = numericArgs(args, evaluate);
+    return values.length > 0 ? values.reduce((total, value) => total + value, 0) / values.length : 'NA';
+  },
+
+  /** ROUND(10.7) → 11, ROUND(3.14159, 2) → 3.14 */
+  ROUND: (args, evaluate) => {
+    const value = evaluate(args[0]);
+    const digits = args.length > 1 ? evaluate(args[1]) : 0;
+    if (value === 'NA' || digits === 'NA') return 'NA';
+    const factor = Math.pow(10, Math.trunc(digits));
+    return Math.round(value * factor) / factor;
+  },
+
+  /** FLOOR(10.7) → 10 */
+  FLOOR: (args, evaluate) => {
+    const value = evaluate(args[0]);
+    return value === 'NA' ? 'NA' : Math.floor(value);
+  },
+
+  /** CEIL(10.2) → 11 */
+  CEIL: (args, evaluate) => {
+    const value = evaluate(args[0]);
+    return value === 'NA' ? 'NA' : Math.ceil(value);
+  },
+
+  /** ABS(-10) → 10 */
+  ABS: (args, evaluate) => {
+    const value = evaluate(args[0]);
+    return value === 'NA' ? 'NA' : Math.abs(value);
+  },
+
+  /** CLAMP([ratio] * 100, 0, 100) — bounds may be given in either order */
+  CLAMP: (args, evaluate) => {
+    const [value, low, high] = args.map(evaluate);
+    if (value === 'NA' || low === 'NA' || high === 'NA') return 'NA';
+    return Math.min(Math.max(value, Math.min(low, high)), Math.max(low, high));
+  },
+
+  /** SAFE_DIV([a], [b]) → [a] / [b], or the fallback (default 0) when the divisor is 0 or either side is NA */
+  SAFE_DIV: (args, evaluate) => {
+    const numerator = evaluate(args[0]);
+    const denominator = evaluate(args[1]);
+    if (numerator === 'NA' || denominator === 'NA' || denominator === 0) {
+      return args.length > 2 ? evaluate(args[2]) : 0;
+    }
+    return numerator / denominator;
+  },
+
+  /** IF([eventAttendees] > 0, [female] / [eventAttendees], 0) — only the chosen branch is evaluated */
+  IF: (args, evaluate) => {
+    const condition = evaluate(args[0]);
+    if (condition === 'NA') return 'NA';
+    return evaluate(truthy(condition) ? args[1] : args[2]);
+  },
+
+  /** AND(a, b, ...) → 1 when every argument is non-zero, else 0 (stops at the first 0) */
+  AND: (args, evaluate) => {
+    for (const arg of args) {
+      const value = evaluate(arg);
+      if (value === 'NA') return 'NA';
+      if (!truthy(value)) return 0;
+    }
+    return 1;
+  },
+
+  /** OR(a, b, ...) → 1 when any argument is non-zero, else 0 (stops at the first non-zero) */
+  OR: (args, evaluate) => {
+    for (const arg of args) {
+      const value = evaluate(arg);
+      if (value === 'NA') return 'NA';
+      if (truthy(value)) return 1;
+    }
+    return 0;
+  },
+
+  /** NOT(x) → 1 when x is 0, else 0 */
+  NOT: (args, evaluate) => {
+    const value = evaluate(args[0]);
+    return value === 'NA' ? 'NA' : truthy(value) ? 0 : 1;
   },
-  
-  /**
-   * Returns the absolute value of a number
-   * Example: ABS(-10) returns 10
-   */
-  ABS: (value: number): number | 'NA' => {
-    if (typeof value !== 'number' || isNaN(value)) return 'NA';
-    return Math.abs(value);
-  }
 };
 
 /**
@@ -363,28 +441,37 @@ function resolveStatsPath(stats: ProjectStats, fieldPath: string): unknown {
   }, stats);
 }
 
-function stringifyFormulaValue(value: unknown): string {
+/**
+ * WHAT: Coerce a resolved stats value to a formula number.
+ * WHY: Missing, empty and non-numeric-container values count as 0 (graceful
+ *      degradation, as before); arrays count their items; text that is not a
+ *      number cannot take part in arithmetic, so it is 'NA' rather than a guess.
+ */
+function toFormulaNumber(value: unknown): FormulaResult {
   if (value === undefined || value === null) {
-    return '0';
+    return 0;
   }
 
   if (Array.isArray(value)) {
-    return String(value.length);
+    return value.length;
   }
 
   if (typeof value === 'number') {
-    return Number.isFinite(value) ? String(value) : '0';
+    return Number.isFinite(value) ? value : 0;
   }
 
   if (typeof value === 'boolean') {
-    return value ? '1' : '0';
+    return value ? 1 : 0;
   }
 
   if (typeof value === 'string') {
-    return value.trim() === '' ? '0' : value;
+    const trimmed = value.trim();
+    if (trimmed === '') return 0;
+    const parsed = Number(trimmed);
+    return Number.isFinite(parsed) ? parsed : 'NA';
   }
 
-  return '0';
+  return 0;
 }
 
 /**
@@ -415,7 +502,8 @@ export function extractVariablesFromFormula(formula: string): string[] {
 
 /**
  * Validates a formula for syntax correctness and variable existence
- * Checks for balanced parentheses, valid variables, and safe mathematical operations
+ * Parses the formula (reporting the exact position of the first syntax error)
+ * and test-evaluates it against sample data
  * @param formula - The formula string to validate
  * @returns Validation result with error details if invalid
  */
@@ -427,26 +515,20 @@ export function validateFormula(formula: string): FormulaValidationResult {
     // PARAM and MANUAL tokens are always valid (resolved externally)
     // All other tokens map directly to stats fields (single reference system)
     
-    // Check for balanced parentheses
-    let openParens = 0;
-    for (const char of formula) {
-      if (char === '(') openParens++;
-      if (char === ')') openParens--;
-      if (openParens < 0) {
+    // WHAT: Parse once up front so unbalanced parentheses, unknown functions,
+    //       wrong argument counts and stray operators are reported with a position
+    try {
+      getParsedFormula(formula);
+    } catch (error) {
+      if (error instanceof FormulaSyntaxError) {
         return {
           isValid: false,
-          error: 'Unbalanced parentheses: closing parenthesis without opening',
+          error: error.message,
+          errorPosition: { start: error.start, end: error.end },
           usedVariables
         };
       }
-    }
-    
-    if (openParens > 0) {
-      return {
-        isValid: false,
-        error: 'Unbalanced parentheses: unclosed opening parenthesis',
-        usedVariables
-        };
+      throw error;
     }
     
     // Test evaluation with sample data (all fields set to 1)
@@ -491,529 +573,155 @@ export function validateFormula(formula: string): FormulaValidationResult {
  * 
  * WHAT: Use direct field names in formulas: [female] not [stats.female]
  * WHY: stats parameter is already the stats object, so we access stats[fieldName] directly
- * HOW: Token [female] resolves to stats.female via JavaScript object access
+ * HOW: Token [female] resolves to stats.female via JavaScript object access;
+ *      [fanmass.peopleCount] walks nested stats paths
  * 
  * RULE: Field name = Chart token = Direct access = No prefix needed
- * 
- * @param formula - Formula with [fieldName] tokens
- * @param stats - Project statistics object
- * @param parameters - Optional [PARAM:key] tokens
- * @param manualData - Optional [MANUAL:key] tokens
- * @param contentAssets - Optional content assets for [MEDIA:slug] and [TEXT:slug] tokens
- * @returns Formula with tokens replaced by values
  */
-function substituteVariables(
-  formula: string, 
-  stats: ProjectStats, 
-  parameters?: Record<string, number>,
-  manualData?: Record<string, number>,
-  contentAssets?: ContentAsset[]
-): string {
-  let processedFormula = formula;
-
-  // WHAT: Support [MEDIA:slug] and [TEXT:slug] tokens for content assets
-  // WHY: Charts can reference images and text blocks from CMS
-  // HOW: Resolve slug to actual content (URL for images, text for text blocks)
-  if (contentAssets && contentAssets.length > 0) {
-    processedFormula = processedFormula.replace(/\[(MEDIA|TEXT):([a-z0-9-]+)\]/g, (_match, prefix, slug) => {
-      const token = `${prefix}:${slug}`;
-      const value = resolveContentAssetToken(token, contentAssets);
-      // WHAT: Wrap string values in quotes for safe evaluation
-      // WHY: Text content and URLs may contain spaces or special chars
-      // NOTE: For image/text charts, the value is used directly (not evaluated)
-      return value === 'NA' ? '"NA"' : `"${value.replace(/"/g, '\\"')}"`;
-    });
-  }
-
-  // Support [PARAM:key] tokens for parameterized values
-  if (parameters) {
-    processedFormula = processedFormula.replace(/\[PARAM:([a-zA-Z0-9_]+)\]/g, (_match, paramKey) => {
-      const value = parameters[paramKey];
-      return value !== undefined ? String(value) : '0';
-    });
-  }
-
-  // Support [MANUAL:key] tokens for aggregated analytics
-  if (manualData) {
-    processedFormula = processedFormula.replace(/\[MANUAL:([a-zA-Z0-9_]+)\]/g, (_match, manualKey) => {
-      const value = manualData[manualKey];
-      return value !== undefined ? String(value) : '0';
-    });
-  }
 
-  // CORRECT FORMAT: [fieldName] - stats parameter is already the stats object
-  // WHAT: Access field directly from stats object (stats is already project.stats)
-  // WHY: stats parameter passed to evaluateFormula is already the stats object, not project
-  // HOW: Handle [fieldName] format only (no "stats." prefix)
-  
-  // Handle variable format: [fieldName] and nested stats paths such as [fanmass.peopleCount].
-  processedFormula = processedFormula.replace(/\[([a-zA-Z0-9_.-]+)\]/g, (_match, fieldName) => {
-    // WHAT: Direct field access from stats object
-    // WHY: stats parameter is already project.stats, so we access stats[fieldName] directly
-    // HOW: No prefix needed - fieldName is the actual field name
-    
-    // Handle special derived/computed fields
-    if (fieldName === 'totalFans') {
-      const remoteFans = (stats as any).remoteFans ?? 
-                        ((stats as any).indoor || 0) + ((stats as any).outdoor || 0);
-      const stadium = (stats as any).stadium || 0;
-      return String(remoteFans + stadium);
-    }
-    
-    if (fieldName === 'remoteFans') {
-      const remoteFans = (stats as any).remoteFans ?? 
-                        ((stats as any).indoor || 0) + ((stats as any).outdoor || 0);
-      return String(remoteFans);
-    }
-    
-    if (fieldName === 'allImages') {
-      const remoteImages = (stats as any).remoteImages || 0;
-      const hostessImages = (stats as any).hostessImages || 0;
-      const selfies = (stats as any).selfies || 0;
-      return String(remoteImages + hostessImages + selfies);
-    }
-    
-    if (fieldName === 'totalUnder40') {
-      const genAlpha = (stats as any).genAlpha || 0;
-      const genYZ = (stats as any).genYZ || 0;
-      return String(genAlpha + genYZ);
-    }
-    
-    if (fieldName === 'totalOver40') {
-      const genX = (stats as any).genX || 0;
-      const boomer = (stats as any).boomer || 0;
-      return String(genX + boomer);
-    }
-    
-    // WHAT: Direct field access from stats object
-    // WHY: stats parameter is already project.stats, so access stats[fieldName] directly
-    const value = resolveStatsPath(stats, fieldName);
-    return stringifyFormulaValue(value);
-  });
-  
-  // WHAT: Handle non-bracketed format: fieldName (no prefix)
-  // WHY: Some formulas may use fieldName directly without brackets
-  // HOW: Match fieldName pattern that is NOT already inside brackets and not a number
-  processedFormula = processedFormula.replace(/(?<!\[)\b([a-zA-Z][a-zA-Z0-9_]+)\b(?!\])/g, (_match, fieldName) => {
-    // WHAT: Direct field access from stats object
-    // WHY: stats parameter is already project.stats, so access stats[fieldName] directly
-    // HOW: Only process if it looks like a variable (not a number, not an operator)
-    
-    // Skip if it's a mathematical operator or function
-    if (['MAX', 'MIN', 'SUM', 'AVG', 'ROUND', 'FLOOR', 'CEIL'].includes(fieldName.toUpperCase())) {
-      return _match; // Keep as-is
-    }
-    
-    // Handle special derived/computed fields
-    if (fieldName === 'totalFans') {
-      const remoteFans = (stats as any).remoteFans ?? 
-                        ((stats as any).indoor || 0) + ((stats as any).outdoor || 0);
-      const stadium = (stats as any).stadium || 0;
-      return String(remoteFans + stadium);
-    }
-    
-    if (fieldName === 'remoteFans') {
-      const remoteFans = (stats as any).remoteFans ?? 
-                        ((stats as any).indoor || 0) + ((stats as any).outdoor || 0);
-      return String(remoteFans);
-    }
-    
-    if (fieldName === 'allImages') {
-      const remoteImages = (stats as any).remoteImages || 0;
-      const hostessImages = (stats as any).hostessImages || 0;
-      const selfies = (stats as any).selfies || 0;
-      return String(remoteImages + hostessImages + selfies);
-    }
-    
-    if (fieldName === 'totalUnder40') {
-      const genAlpha = (stats as any).genAlpha || 0;
-      const genYZ = (stats as any).genYZ || 0;
-      return String(genAlpha + genYZ);
-    }
-    
-    if (fieldName === 'totalOver40') {
-      const genX = (stats as any).genX || 0;
-      const boomer = (stats as any).boomer || 0;
-      return String(genX + boomer);
-    }
-    
-    // WHAT: Direct field access from stats object
-    // WHY: stats parameter is already project.stats, so access stats[fieldName] directly
-    const value = (stats as any)[fieldName];
-    
-    if (value !== undefined && value !== null) {
-      return String(value);
-    }
-    
-    // Field doesn't exist → return 0
-    return '0';
-  });
+/**
+ * Derived fields computed from their components rather than read from stats,
+ * so a stale stored total can never disagree with the numbers it sums
+ */
+const COMPUTED_FIELDS: Record<string, (stats: any) => number> = {
+  remoteFans: (stats) => stats.remoteFans ?? (stats.indoor || 0) + (stats.outdoor || 0),
+  totalFans: (stats) => COMPUTED_FIELDS.remoteFans(stats) + (stats.stadium || 0),
+  allImages: (stats) => (stats.remoteImages || 0) + (stats.hostessImages || 0) + (stats.selfies || 0),
+  totalUnder40: (stats) => (stats.genAlpha || 0) + (stats.genYZ || 0),
+  totalOver40: (stats) => (stats.genX || 0) + (stats.boomer || 0),
+};
 
-  return processedFormula;
+interface FormulaEvaluationContext {
+  stats: ProjectStats;
+  parameters?: Record<string, number>;
+  manualData?: Record<string, number>;
+  contentAssets?: ContentAsset[];
 }
 
 /**
- * Processes mathematical functions in a formula string
- * Replaces function calls like MAX(1,2,3) with their evaluated results
- * @param formula - Formula string potentially containing function calls
- * @returns Formula string with functions evaluated
+ * WHAT: Resolve one variable reference to a number
+ * WHY: Token semantics are unchanged from the text-substitution engine:
+ *      - [PARAM:key] / [MANUAL:key] → the supplied value, 0 if the key is missing,
+ *        'NA' if no parameters / manual data were supplied at all
+ *      - [MEDIA:slug] / [TEXT:slug] → content (a URL or text), which is never a
+ *        number, so 'NA' in a numeric formula (image/text charts read it directly)
+ *      - [fieldName] / fieldName → stats value, 0 when missing
  */
-function processMathFunctions(formula: string): string {
-  let processedFormula = formula;
-  
-  // Process each available math function
-  for (const [functionName, functionImpl] of Object.entries(MATH_FUNCTIONS)) {
-    const functionRegex = new RegExp(`${functionName}\\(([^)]+)\\)`, 'g');
-    
-    processedFormula = processedFormula.replace(functionRegex, (match, argsString) => {
-      try {
-        // Parse arguments (handle nested expressions by evaluating them first)
-        const args = argsString.split(',').map((arg: string) => {
-          const trimmedArg = arg.trim();
-          // If argument contains operators, evaluate it first
-          if (/[+\-*/()]/.test(trimmedArg)) {
-            const argResult = evaluateSimpleExpression(trimmedArg);
-            return typeof argResult === 'number' ? argResult : 0;
-          }
-          return parseFloat(trimmedArg);
-        });
-        
-        // Call the function with parsed arguments
-        const result = (functionImpl as (...args: number[]) => number | 'NA')(...args);
-        return result === 'NA' ? 'NaN' : result.toString();
-        
-      } catch (error) {
-        return 'NaN'; // Return NaN for any function evaluation errors
-      }
-    });
+function resolveVariable(name: string, bracketed: boolean, context: FormulaEvaluationContext): FormulaResult {
+  const colon = name.indexOf(':');
+  if (colon !== -1) {
+    const prefix = name.slice(0, colon);
+    const key = name.slice(colon + 1);
+    if (prefix === 'PARAM') return context.parameters ? toFormulaNumber(context.parameters[key]) : 'NA';
+    if (prefix === 'MANUAL') return context.manualData ? toFormulaNumber(context.manualData[key]) : 'NA';
+    if ((prefix === 'MEDIA' || prefix === 'TEXT') && context.contentAssets) {
+      const content = resolveContentAssetToken(name, context.contentAssets);
+      return content === 'NA' ? 'NA' : toFormulaNumber(content);
+    }
+    return 'NA';
   }
-  
-  return processedFormula;
-}
 
-type FormulaToken =
-  | { type: 'number'; value: number }
-  | { type: 'operator'; value: string }
-  | { type: 'paren'; value: '(' | ')' }
-  | { type: 'question'; value: '?' }
-  | { type: 'colon'; value: ':' }
-  | { type: 'eof'; value: '' };
+  const computed = COMPUTED_FIELDS[name];
+  if (computed) return toFormulaNumber(computed(context.stats));
 
-function normalizeExpressionOperators(expression: string): string {
-  return expression.replace(/×/g, '*').replace(/÷/g, '/');
+  const value = bracketed ? resolveStatsPath(context.stats, name) : (context.stats as Record<string, unknown>)[name];
+  return toFormulaNumber(value);
 }
 
-function tokenizeExpression(expression: string): FormulaToken[] {
-  const tokens: FormulaToken[] = [];
-  let index = 0;
-
-  while (index < expression.length) {
-    const char = expression[index];
-
-    if (/\s/.test(char)) {
-      index++;
-      continue;
-    }
-
-    const twoCharOperator = expression.slice(index, index + 2);
-    if (['>=', '<=', '==', '!=', '&&', '||'].includes(twoCharOperator)) {
-      tokens.push({ type: 'operator', value: twoCharOperator });
-      index += 2;
-      continue;
-    }
-
-    if (/[0-9.]/.test(char)) {
-      let end = index + 1;
-      while (end < expression.length && /[0-9.]/.test(expression[end])) {
-        end++;
-      }
-
-      const rawNumber = expression.slice(index, end);
-      if ((rawNumber.match(/\./g) || []).length > 1) {
-        throw new Error(`Invalid number: ${rawNumber}`);
-      }
-
-      const value = Number(rawNumber);
-      if (!Number.isFinite(value)) {
-        throw new Error(`Invalid number: ${rawNumber}`);
-      }
-
-      tokens.push({ type: 'number', value });
-      index = end;
-      continue;
-    }
-
-    if ('+-*/^><'.includes(char)) {
-      tokens.push({ type: 'operator', value: char });
-      index++;
-      continue;
-    }
-
-    if (char === '(' || char === ')') {
-      tokens.push({ type: 'paren', value: char });
-      index++;
-      continue;
-    }
-
-    if (char === '?') {
-      tokens.push({ type: 'question', value: char });
-      index++;
-      continue;
-    }
-
-    if (char === ':') {
-      tokens.push({ type: 'colon', value: char });
-      index++;
-      continue;
-    }
-
-    throw new Error(`Unsupported token: ${char}`);
-  }
-
-  tokens.push({ type: 'eof', value: '' });
-  return tokens;
+function finite(value: number): FormulaResult {
+  return Number.isFinite(value) ? value : 'NA';
 }
 
-function evaluateTokenizedExpression(tokens: FormulaToken[]): number {
-  let position = 0;
+/**
+ * WHAT: Evaluate a parsed formula
+ * WHY: 'NA' propagates through every operator; division by zero and
+ *      non-finite results are 'NA'; comparisons and logic yield 1 / 0
+ */
+function evaluateNode(node: FormulaNode, context: FormulaEvaluationContext): FormulaResult {
+  const evaluate = (child: FormulaNode) => evaluateNode(child, context);
 
-  const current = (): FormulaToken => tokens[position];
-  const advance = (): FormulaToken => tokens[position++];
-  const matchOperator = (...operators: string[]): string | null => {
-    const token = current();
-    if (token.type === 'operator' && operators.includes(token.value)) {
-      advance();
-      return token.value;
-    }
-    return null;
-  };
-  const expect = (type: FormulaToken['type'], value?: string): FormulaToken => {
-    const token = current();
-    if (token.type !== type || (value !== undefined && token.value !== value)) {
-      throw new Error(`Expected ${value ?? type}, got ${token.value || token.type}`);
-    }
-    advance();
-    return token;
-  };
-  const toBooleanNumber = (value: boolean): number => (value ? 1 : 0);
+  switch (node.type) {
+    case 'number':
+      return node.value;
 
-  const parsePrimary = (): number => {
-    const token = current();
+    case 'variable':
+      return resolveVariable(node.name, node.bracketed, context);
 
-    if (token.type === 'number') {
-      advance();
-      return token.value;
+    case 'unary': {
+      const operand = evaluate(node.operand);
+      if (operand === 'NA') return 'NA';
+      if (node.operator === '!') return operand === 0 ? 1 : 0;
+      return node.operator === '-' ? -operand : operand;
     }
 
-    if (token.type === 'paren' && token.value === '(') {
-      advance();
-      const value = parseTernary();
-      expect('paren', ')');
-      return value;
+    case 'conditional': {
+      const test = evaluate(node.test);
+      if (test === 'NA') return 'NA';
+      return evaluate(test !== 0 ? node.consequent : node.alternate);
     }
 
-    throw new Error(`Unexpected token: ${token.value || token.type}`);
-  };
-
-  const parseUnary = (): number => {
-    const operator = matchOperator('+', '-');
-    if (!operator) return parsePrimary();
-    const value = parseUnary();
-    return operator === '-' ? -value : value;
-  };
-
-  const parsePower = (): number => {
-    const left = parseUnary();
-    if (!matchOperator('^')) return left;
-    const right = parsePower();
-    return Math.pow(left, right);
-  };
-
-  const parseMultiplicative = (): number => {
-    let value = parsePower();
-
-    while (true) {
-      const operator = matchOperator('*', '/');
-      if (!operator) return value;
-
-      const right = parsePower();
-      if (operator === '/') {
-        if (right === 0) throw new Error('Division by zero');
-        value /= right;
-      } else {
-        value *= right;
-      }
+    case 'call': {
+      const result = FORMULA_FUNCTION_IMPLS[node.name](node.args, evaluate);
+      return result === 'NA' ? 'NA' : finite(result);
     }
-  };
-
-  const parseAdditive = (): number => {
-    let value = parseMultiplicative();
-
-    while (true) {
-      const operator = matchOperator('+', '-');
-      if (!operator) return value;
 
-      const right = parseMultiplicative();
-      value = operator === '+' ? value + right : value - right;
-    }
-  };
+    case 'binary': {
+      const left = evaluate(node.left);
+      if (left === 'NA') return 'NA';
 
-  const parseComparison = (): number => {
-    let value = parseAdditive();
-
-    while (true) {
-      const operator = matchOperator('>', '<', '>=', '<=');
-      if (!operator) return value;
-
-      const right = parseAdditive();
-      switch (operator) {
-        case '>':
-          value = toBooleanNumber(value > right);
-          break;
-        case '<':
-          value = toBooleanNumber(value < right);
-          break;
-        case '>=':
-          value = toBooleanNumber(value >= right);
-          break;
-        default:
-          value = toBooleanNumber(value <= right);
-          break;
+      // Short-circuit logic: the right side is not evaluated when the left decides
+      if (node.operator === '&&' || node.operator === '||') {
+        if (node.operator === '&&' && left === 0) return 0;
+        if (node.operator === '||' && left !== 0) return 1;
+        const right = evaluate(node.right);
+        return right === 'NA' ? 'NA' : right !== 0 ? 1 : 0;
       }
-    }
-  };
-
-  const parseEquality = (): number => {
-    let value = parseComparison();
-
-    while (true) {
-      const operator = matchOperator('==', '!=');
-      if (!operator) return value;
 
-      const right = parseComparison();
-      value = operator === '==' ? toBooleanNumber(value === right) : toBooleanNumber(value !== right);
-    }
-  };
-
-  const parseLogicalAnd = (): number => {
-    let value = parseEquality();
-
-    while (matchOperator('&&')) {
-      const right = parseEquality();
-      value = toBooleanNumber(value !== 0 && right !== 0);
-    }
-
-    return value;
-  };
-
-  const parseLogicalOr = (): number => {
-    let value = parseLogicalAnd();
-
-    while (matchOperator('||')) {
-      const right = parseLogicalAnd();
-      value = toBooleanNumber(value !== 0 || right !== 0);
-    }
-
-    return value;
-  };
-
-  const parseTernary = (): number => {
-    const condition = parseLogicalOr();
-    if (current().type !== 'question') {
-      return condition;
+      const right = evaluate(node.right);
+      if (right === 'NA') return 'NA';
+
+      switch (node.operator) {
+        case '+': return finite(left + right);
+        case '-': return finite(left - right);
+        case '*': return finite(left * right);
+        case '/': return right === 0 ? 'NA' : finite(left / right);
+        case '^': return finite(Math.pow(left, right));
+        case '>': return left > right ? 1 : 0;
+        case '<': return left < right ? 1 : 0;
+        case '>=': return left >= right ? 1 : 0;
+        case '<=': return left <= right ? 1 : 0;
+        case '==': return left === right ? 1 : 0;
+        case '!=': return left !== right ? 1 : 0;
+      }
     }
-
-    advance();
-    const truthyBranch = parseTernary();
-    expect('colon', ':');
-    const falsyBranch = parseTernary();
-    return condition !== 0 ? truthyBranch : falsyBranch;
-  };
-
-  const result = parseTernary();
-  if (current().type !== 'eof') {
-    throw new Error(`Unexpected trailing token: ${current().value || current().type}`);
   }
-
-  return result;
 }
 
 /**
- * Safely evaluates a simple mathematical expression
- * Handles basic arithmetic operations with division by zero protection
- * @param expression - Mathematical expression to evaluate
- * @returns Numeric result or 'NA' for errors
- * 
- * SECURITY: Uses safe parser when feature flag enabled, falls back to Function() for migration
+ * Parsed-formula cache
+ * WHY: The same few hundred chart formulas are evaluated for every project in
+ *      a report; parsing each once keeps evaluation to a tree walk
  */
-function evaluateSimpleExpression(expression: string): number | 'NA' {
-  try {
-    const cleanExpression = normalizeExpressionOperators(expression).replace(/\s+/g, '');
-    
-    // WHAT: Debug logging for complex expressions
-    // WHY: Help diagnose evaluation failures
-    const isComplex = cleanExpression.includes('/') && cleanExpression.includes('(');
-    if (isComplex) {
-      console.log('[formulaEngine] evaluateSimpleExpression called:', {
-        original: expression,
-        cleaned: cleanExpression
-      });
-    }
-    
-    // WHAT: Check for division by zero (literal 0, not expressions that evaluate to 0)
-    // WHY: Prevent division by zero errors
-    // HOW: Match /0 or / 0 but not /0.5 or /01 (numbers starting with 0)
-    // NOTE: This is a simple check - actual division by zero is caught during evaluation
-    if (/\/0(?!\d)/.test(cleanExpression)) {
-      console.warn('[formulaEngine] Division by zero detected:', cleanExpression);
-      return 'NA';
-    }
-    
-    try {
-      const result = evaluateTokenizedExpression(tokenizeExpression(cleanExpression));
-
-      if (cleanExpression.includes('/') && cleanExpression.includes('(')) {
-        console.log('[formulaEngine] Internal parser result:', {
-          expression: cleanExpression,
-          result,
-          resultType: typeof result,
-          isNaN: isNaN(result),
-          isFinite: isFinite(result)
-        });
-      }
-      
-      // Check for invalid results
-      if (typeof result !== 'number' || isNaN(result) || !isFinite(result)) {
-        console.warn('[formulaEngine] Internal parser returned invalid result:', {
-          expression: cleanExpression,
-          result,
-          resultType: typeof result,
-          isNaN: isNaN(result),
-          isFinite: isFinite(result)
-        });
-        return 'NA';
-      }
-      
-      return result;
-    } catch (parseError) {
-      const errorMessage = parseError instanceof Error ? parseError.message : String(parseError);
-      console.error('[formulaEngine] Internal parser failed:', {
-        expression: cleanExpression,
-        error: errorMessage,
-        stack: parseError instanceof Error ? parseError.stack : undefined
-      });
-      return 'NA';
-    }
-    
-  } catch (error) {
-    console.error('[formulaEngine] Unexpected error in evaluateSimpleExpression:', error);
-    return 'NA';
+const PARSED_FORMULA_CACHE_LIMIT = 1000;
+const parsedFormulaCache = new Map<string, FormulaNode>();
+
+function getParsedFormula(formula: string): FormulaNode {
+  const cached = parsedFormulaCache.get(formula);
+  if (cached) return cached;
+
+  const ast = parseFormula(formula);
+  if (parsedFormulaCache.size >= PARSED_FORMULA_CACHE_LIMIT) {
+    const oldest = parsedFormulaCache.keys().next().value;
+    if (oldest !== undefined) parsedFormulaCache.delete(oldest);
   }
+  parsedFormulaCache.set(formula, ast);
+  return ast;
 }
 
 /**
  * Main function to evaluate a formula against project statistics
- * Handles variable substitution, function processing, and safe evaluation
+ * Parses the formula to an AST (lib/formulaParser.ts) and evaluates it with
+ * variables resolved from stats, parameters, manual data and content assets
  * @param formula - The formula string to evaluate
  * @param stats - Project statistics for variable values
  * @param parameters - Optional parameters for [PARAM:x] token resolution
@@ -1047,56 +755,15 @@ export function evaluateFormula(
       return 0;
     }
     
-    // Step 1: Substitute variables with actual values (including parameters, manual data, and content assets)
-    const formulaWithValues = substituteVariables(formula, stats, parameters, manualData, contentAssets);
-    
-    // WHAT: Debug logging for complex formulas
-    // WHY: Help diagnose formula evaluation issues
-    if (formula.includes('/') && formula.includes('(')) {
-      console.log(`[formulaEngine] Evaluating complex formula: "${formula}"`, {
-        afterSubstitution: formulaWithValues,
-        statsSample: {
-          marketingOptin: (stats as any).marketingOptin,
-          uniqueUsers: (stats as any).uniqueUsers
-        }
-      });
-    }
-    
-    // WHAT: Check if result is just a number string (no operators)
-    // WHY: After substitution, simple formulas become just numbers
-    // HOW: If it's a valid number, return it directly
-    const numMatch = formulaWithValues.trim().match(/^-?\d+\.?\d*$/);
-    if (numMatch) {
-      const numValue = parseFloat(formulaWithValues);
-      if (!isNaN(numValue) && isFinite(numValue)) {
-        return numValue;
-      }
-    }
-    
-    // Step 2: Process mathematical functions
-    const formulaWithFunctions = processMathFunctions(formulaWithValues);
-    
-    // Step 3: Evaluate the final mathematical expression
-    const result = evaluateSimpleExpression(formulaWithFunctions);
-    
-    // WHAT: Debug logging for complex formulas that return NA
-    // WHY: Help diagnose why formulas fail
-    if (formula.includes('/') && formula.includes('(') && result === 'NA') {
-      console.warn(`[formulaEngine] Complex formula returned NA: "${formula}"`, {
-        afterSubstitution: formulaWithValues,
-        afterFunctions: formulaWithFunctions,
-        result,
-        statsSample: {
-          marketingOptin: (stats as any).marketingOptin,
-          uniqueUsers: (stats as any).uniqueUsers
-        }
-      });
-    }
-    
-    return result;
+    const ast = getParsedFormula(formula);
+    return evaluateNode(ast, { stats, parameters, manualData, contentAssets });
     
   } catch (error) {
-    console.error('Formula evaluation error:', error);
+    // WHAT: Syntax errors degrade to 'NA' at render time; validateFormula()
+    //       is where they are reported with their position
+    if (!(error instanceof FormulaSyntaxError)) {
+      console.error('Formula evaluation error:', error);
+    }
     return 'NA';
   }
 }
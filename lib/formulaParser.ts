@@ -0,0 +1,355 @@
+// lib/formulaParser.ts - Formula tokenizer and recursive-descent parser
+//
+// WHAT: Turns a chart formula string into an AST with source positions.
+// WHY: The previous engine substituted values into the formula text and then
+//      rewrote function calls with a `NAME\(([^)]+)\)` regex, so any nested
+//      call — MAX(ROUND([a]/[b]), 1) — broke, and a syntax error could only
+//      surface as a silent 'NA'. Parsing the formula once, before any value is
+//      looked up, makes nesting free and lets validation point at the exact
+//      character that is wrong.
+// HOW: tokenizeFormula() → parseFormula() → FormulaNode. Evaluation lives in
+//      lib/formulaEngine.ts (it owns stats/PARAM/MANUAL/MEDIA/TEXT resolution
+//      and the 'NA' rules); this module knows syntax and function arity only.
+//
+// GRAMMAR (lowest → highest precedence):
+//   conditional := or ( '?' conditional ':' conditional )?
+//   or          := and ( '||' and )*
+//   and         := equality ( '&&' equality )*
+//   equality    := comparison ( ( '==' | '!=' ) comparison )*
+//   comparison  := additive ( ( '>' | '<' | '>=' | '<=' ) additive )*
+//   additive    := multiplicative ( ( '+' | '-' ) multiplicative )*
+//   multiplicative := power ( ( '*' | '/' ) power )*
+//   power       := unary ( '^' power )?          (right-associative)
+//   unary       := ( '+' | '-' | '!' ) unary | primary
+//   primary     := number | [token] | identifier | identifier '(' args ')' | '(' conditional ')'
+
+/**
+ * Functions callable from formulas, with their accepted argument counts.
+ * Names are matched case-insensitively and stored upper-case on the AST.
+ */
+export const FORMULA_FUNCTIONS = {
+  MAX: { minArgs: 1, maxArgs: Infinity },
+  MIN: { minArgs: 1, maxArgs: Infinity },
+  SUM: { minArgs: 1, maxArgs: Infinity },
+  AVG: { minArgs: 1, maxArgs: Infinity },
+  ROUND: { minArgs: 1, maxArgs: 2 },
+  FLOOR: { minArgs: 1, maxArgs: 1 },
+  CEIL: { minArgs: 1, maxArgs: 1 },
+  ABS: { minArgs: 1, maxArgs: 1 },
+  CLAMP: { minArgs: 3, maxArgs: 3 },
+  SAFE_DIV: { minArgs: 2, maxArgs: 3 },
+  IF: { minArgs: 3, maxArgs: 3 },
+  AND: { minArgs: 1, maxArgs: Infinity },
+  OR: { minArgs: 1, maxArgs: Infinity },
+  NOT: { minArgs: 1, maxArgs: 1 },
+} as const;
+
+export type FormulaFunctionName = keyof typeof FORMULA_FUNCTIONS;
+
+export type FormulaBinaryOperator =
+  | '+' | '-' | '*' | '/' | '^'
+  | '>' | '<' | '>=' | '<='
+  | '==' | '!='
+  | '&&' | '||';
+
+export type FormulaUnaryOperator = '+' | '-' | '!';
+
+interface NodeSpan {
+  /** 0-based offset of the node's first character in the formula. */
+  start: number;
+  /** 0-based offset just past the node's last character. */
+  end: number;
+}
+
+export type FormulaNode =
+  | ({ type: 'number'; value: number } & NodeSpan)
+  | ({ type: 'variable'; name: string; bracketed: boolean } & NodeSpan)
+  | ({ type: 'unary'; operator: FormulaUnaryOperator; operand: FormulaNode } & NodeSpan)
+  | ({ type: 'binary'; operator: FormulaBinaryOperator; left: FormulaNode; right: FormulaNode } & NodeSpan)
+  | ({ type: 'conditional'; test: FormulaNode; consequent: FormulaNode; alternate: FormulaNode } & NodeSpan)
+  | ({ type: 'call'; name: FormulaFunctionName; args: FormulaNode[] } & NodeSpan);
+
+/**
+ * Thrown for any tokenizer/parser failure. `start`/`end` delimit the
+ * offending characters so editors can highlight them.
+ */
+export class FormulaSyntaxError extends Error {
+  start: number;
+  end: number;
+
+  constructor(message: string, start: number, end: number = start + 1) {
+    super(`${message} at position ${start + 1}`);
+    this.name = 'FormulaSyntaxError';
+    this.start = start;
+    this.end = Math.max(end, start + 1);
+  }
+}
+
+type FormulaToken =
+  | ({ type: 'number'; value: number; text: string } & NodeSpan)
+  | ({ type: 'variable'; value: string; text: string } & NodeSpan)
+  | ({ type: 'identifier'; value: string; text: string } & NodeSpan)
+  | ({ type: 'operator'; value: string; text: string } & NodeSpan)
+  | ({ type: 'punctuation'; value: '(' | ')' | ',' | '?' | ':'; text: string } & NodeSpan)
+  | ({ type: 'eof'; value: ''; text: string } & NodeSpan);
+
+type OperatorToken = Extract<FormulaToken, { type: 'operator' }>;
+type IdentifierToken = Extract<FormulaToken, { type: 'identifier' }>;
+
+const TWO_CHAR_OPERATORS = ['>=', '<=', '==', '!=', '&&', '||'];
+const VARIABLE_TOKEN_PATTERN = /^[a-zA-Z0-9_:.\-]+$/;
+
+function describeToken(token: FormulaToken): string {
+  return token.type === 'eof' ? 'end of formula' : `"${token.text}"`;
+}
+
+/**
+ * WHAT: Split a formula into positioned tokens.
+ * NOTE: `×` and `÷` are accepted as aliases for `*` and `/` (pasted from
+ *       spreadsheets); `[...]` is one token so `:`/`.`/`-` inside a variable
+ *       reference never reach the operator rules.
+ */
+export function tokenizeFormula(formula: string): FormulaToken[] {
+  const tokens: FormulaToken[] = [];
+  let index = 0;
+
+  while (index < formula.length) {
+    const char = formula[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === '[') {
+      const close = formula.indexOf(']', index + 1);
+      if (close === -1) {
+        throw new FormulaSyntaxError('Unclosed "[" in variable reference', index, formula.length);
+      }
+      const name = formula.slice(index + 1, close);
+      if (!VARIABLE_TOKEN_PATTERN.test(name)) {
+        throw new FormulaSyntaxError(`Invalid variable reference "[${name}]"`, index, close + 1);
+      }
+      tokens.push({ type: 'variable', value: name, text: formula.slice(index, close + 1), start: index, end: close + 1 });
+      index = close + 1;
+      continue;
+    }
+
+    if (/[0-9.]/.test(char)) {
+      let end = index + 1;
+      while (end < formula.length && /[0-9.]/.test(formula[end])) end++;
+      const text = formula.slice(index, end);
+      const value = Number(text);
+      if ((text.match(/\./g) || []).length > 1 || !Number.isFinite(value)) {
+        throw new FormulaSyntaxError(`Invalid number "${text}"`, index, end);
+      }
+      tokens.push({ type: 'number', value, text, start: index, end });
+      index = end;
+      continue;
+    }
+
+    if (/[a-zA-Z_]/.test(char)) {
+      let end = index + 1;
+      while (end < formula.length && /[a-zA-Z0-9_]/.test(formula[end])) end++;
+      const text = formula.slice(index, end);
+      tokens.push({ type: 'identifier', value: text, text, start: index, end });
+      index = end;
+      continue;
+    }
+
+    const pair = formula.slice(index, index + 2);
+    if (TWO_CHAR_OPERATORS.includes(pair)) {
+      tokens.push({ type: 'operator', value: pair, text: pair, start: index, end: index + 2 });
+      index += 2;
+      continue;
+    }
+
+    if ('+-*/^><!×÷'.includes(char)) {
+      const value = char === '×' ? '*' : char === '÷' ? '/' : char;
+      tokens.push({ type: 'operator', value, text: char, start: index, end: index + 1 });
+      index++;
+      continue;
+    }
+
+    if (char === '(' || char === ')' || char === ',' || char === '?' || char === ':') {
+      tokens.push({ type: 'punctuation', value: char, text: char, start: index, end: index + 1 });
+      index++;
+      continue;
+    }
+
+    if (char === '=') {
+      throw new FormulaSyntaxError('Unexpected "=" (use "==" to compare)', index);
+    }
+    if (char === '&' || char === '|') {
+      throw new FormulaSyntaxError(`Unexpected "${char}" (use "${char}${char}")`, index);
+    }
+
+    throw new FormulaSyntaxError(`Unexpected character "${char}"`, index);
+  }
+
+  tokens.push({ type: 'eof', value: '', text: '', start: formula.length, end: formula.length });
+  return tokens;
+}
+
+/**
+ * WHAT: Parse a formula into an AST.
+ * @throws FormulaSyntaxError with the position of the first problem found
+ */
+export function parseFormula(formula: string): FormulaNode {
+  const tokens = tokenizeFormula(formula);
+  let position = 0;
+
+  const current = (): FormulaToken => tokens[position];
+  const advance = (): FormulaToken => tokens[position++];
+  const isPunctuation = (value: string): boolean => {
+    const token = current();
+    return token.type === 'punctuation' && token.value === value;
+  };
+  const matchOperator = (...operators: string[]): OperatorToken | null => {
+    const token = current();
+    if (token.type === 'operator' && operators.includes(token.value)) {
+      advance();
+      return token;
+    }
+    return null;
+  };
+  const expectPunctuation = (value: ')' | ':', opener?: FormulaToken): FormulaToken => {
+    if (isPunctuation(value)) return advance();
+    const token = current();
+    if (opener && token.type === 'eof') {
+      throw new FormulaSyntaxError(`Unclosed "${opener.text}"`, opener.start, opener.end);
+    }
+    throw new FormulaSyntaxError(`Expected "${value}" but found ${describeToken(token)}`, token.start, token.end);
+  };
+
+  const binary = (operator: string, left: FormulaNode, right: FormulaNode): FormulaNode => ({
+    type: 'binary',
+    operator: operator as FormulaBinaryOperator,
+    left,
+    right,
+    start: left.start,
+    end: right.end,
+  });
+
+  const parseCall = (identifier: IdentifierToken): FormulaNode => {
+    const name = identifier.value.toUpperCase();
+    if (!(name in FORMULA_FUNCTIONS)) {
+      throw new FormulaSyntaxError(`Unknown function "${identifier.text}"`, identifier.start, identifier.end);
+    }
+    const open = advance();
+    const args: FormulaNode[] = [];
+    if (!isPunctuation(')')) {
+      args.push(parseConditional());
+      while (isPunctuation(',')) {
+        advance();
+        args.push(parseConditional());
+      }
+    }
+    const close = expectPunctuation(')', open);
+
+    const { minArgs, maxArgs } = FORMULA_FUNCTIONS[name as FormulaFunctionName];
+    if (args.length < minArgs || args.length > maxArgs) {
+      const expected =
+        minArgs === maxArgs ? `${minArgs}` : maxArgs === Infinity ? `at least ${minArgs}` : `${minArgs} to ${maxArgs}`;
+      throw new FormulaSyntaxError(
+        `${name} expects ${expected} argument${expected === '1' ? '' : 's'}, got ${args.length}`,
+        identifier.start,
+        close.end
+      );
+    }
+    return { type: 'call', name: name as FormulaFunctionName, args, start: identifier.start, end: close.end };
+  };
+
+  const parsePrimary = (): FormulaNode => {
+    const token = current();
+
+    if (token.type === 'number') {
+      advance();
+      return { type: 'number', value: token.value, start: token.start, end: token.end };
+    }
+
+    if (token.type === 'variable') {
+      advance();
+      return { type: 'variable', name: token.value, bracketed: true, start: token.start, end: token.end };
+    }
+
+    if (token.type === 'identifier') {
+      advance();
+      if (isPunctuation('(')) return parseCall(token);
+      return { type: 'variable', name: token.value, bracketed: false, start: token.start, end: token.end };
+    }
+
+    if (token.type === 'punctuation' && token.value === '(') {
+      advance();
+      const inner = parseConditional();
+      const close = expectPunctuation(')', token);
+      return { ...inner, start: token.start, end: close.end };
+    }
+
+    if (token.type === 'eof') {
+      throw new FormulaSyntaxError('Unexpected end of formula', token.start);
+    }
+    throw new FormulaSyntaxError(`Unexpected ${describeToken(token)}`, token.start, token.end);
+  };
+
+  const parseUnary = (): FormulaNode => {
+    const operator = matchOperator('+', '-', '!');
+    if (!operator) return parsePrimary();
+    const operand = parseUnary();
+    return {
+      type: 'unary',
+      operator: operator.value as FormulaUnaryOperator,
+      operand,
+      start: operator.start,
+      end: operand.end,
+    };
+  };
+
+  const parsePower = (): FormulaNode => {
+    const left = parseUnary();
+    const operator = matchOperator('^');
+    if (!operator) return left;
+    return binary('^', left, parsePower());
+  };
+
+  const parseLeftAssociative = (next: () => FormulaNode, operators: string[]) => (): FormulaNode => {
+    let node = next();
+    let operator: OperatorToken | null;
+    while ((operator = matchOperator(...operators))) {
+      node = binary(operator.value, node, next());
+    }
+    return node;
+  };
+
+  const parseMultiplicative = parseLeftAssociative(parsePower, ['*', '/']);
+  const parseAdditive = parseLeftAssociative(parseMultiplicative, ['+', '-']);
+  const parseComparison = parseLeftAssociative(parseAdditive, ['>', '<', '>=', '<=']);
+  const parseEquality = parseLeftAssociative(parseComparison, ['==', '!=']);
+  const parseAnd = parseLeftAssociative(parseEquality, ['&&']);
+  const parseOr = parseLeftAssociative(parseAnd, ['||']);
+
+  function parseConditional(): FormulaNode {
+    const test = parseOr();
+    if (!isPunctuation('?')) return test;
+    advance();
+    const consequent = parseConditional();
+    expectPunctuation(':');
+    const alternate = parseConditional();
+    return { type: 'conditional', test, consequent, alternate, start: test.start, end: alternate.end };
+  }
+
+  if (tokens[0].type === 'eof') {
+    throw new FormulaSyntaxError('Formula is empty', 0);
+  }
+
+  const ast = parseConditional();
+  const trailing = current();
+  if (trailing.type !== 'eof') {
+    const message =
+      trailing.type === 'punctuation' && trailing.value === ')'
+        ? 'Unexpected ")" without a matching "("'
+        : `Unexpected ${describeToken(trailing)}`;
+    throw new FormulaSyntaxError(message, trailing.start, trailing.end);
+  }
+  return ast;
+}
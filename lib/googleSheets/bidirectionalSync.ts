@@ -0,0 +1,488 @@
+// lib/googleSheets/bidirectionalSync.ts
+// WHAT: Two-way sync between a partner's sheet and {messmass}, with field-level
+//     conflict detection and a per-partner conflict policy
+// WHY: pullEventsFromSheet/pushEventsToSheet each overwrite the other side.
+//     In bidirectional mode each side keeps its own edits, and fields edited on
+//     both sides are settled by googleSheetConfig.conflictPolicy or left for an
+//     admin to resolve field by field.
+// HOW: google_sheet_sync_state keeps, per row, the values both sides agreed on
+//     at the last sync (the baseline) and their hash. Each run merges sheet and
+//     event against it (lib/googleSheets/syncConflicts.ts), writes only changed
+//     cells and fields, and stores open conflicts in google_sheet_sync_conflicts.
+
+import { createHash } from 'crypto';
+import { ObjectId, type Collection, type Db, type Filter } from 'mongodb';
+import { readSheetRows, writeSheetCells, appendSheetRows, findRowByUuid } from './client';
+import { generateDynamicColumnMap } from './dynamicMapping';
+import { rowToEvent, eventsToRows } from './rowMapper';
+import {
+  DEFAULT_SYNC_CONFLICT_POLICY,
+  flattenSyncValues,
+  getSyncedFields,
+  isSyncConflictPolicy,
+  mergeSyncRow,
+  nestSyncValues,
+  newerSyncSource,
+  readEventFields,
+  readRowFields,
+  type SyncFieldValues,
+  type SyncedField,
+} from './syncConflicts';
+import type { IndexBasedColumnMap } from './dynamicMapping';
+import type { BidirectionalSyncSummary, GoogleSheetConfig, SyncConflict, SyncConflictField, SyncConflictPolicy } from './types';
+import { info as logInfo, error as logError } from '@/lib/logger';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
+
+export const SYNC_STATE_COLLECTION = 'google_sheet_sync_state';
+export const SYNC_CONFLICTS_COLLECTION = 'google_sheet_sync_conflicts';
+
+interface SyncStateDoc {
+  _id: string;                             // `${partnerId}:${googleSheetUuid}`
+  partnerId: string;
+  googleSheetUuid: string;
+  eventId: string;
+  baseline: Record<string, unknown>;       // Nested like the event: { eventDate, stats: {...} }
+  hash: string;
+  syncedAt: string;
+}
+
+type ConflictDoc = SyncConflict & { _id: ObjectId };
+
+export interface SyncPartner {
+  _id: ObjectId;
+  name?: string;
+  googleSheetConfig: GoogleSheetConfig;
+}
+
+function stateId(partnerId: string, uuid: string): string {
+  return `${partnerId}:${uuid}`;
+}
+
+function httpError(message: string, status: number, code: string): Error {
+  return Object.assign(new Error(message), { status, code });
+}
+
+export function getConflictPolicy(config: Pick<GoogleSheetConfig, 'conflictPolicy'> | null | undefined): SyncConflictPolicy {
+  return isSyncConflictPolicy(config?.conflictPolicy) ? config.conflictPolicy : DEFAULT_SYNC_CONFLICT_POLICY;
+}
+
+// WHAT: Same partner match as sheet setup and push (partner ids live in several fields)
+function partnerEventsFilter(partner: SyncPartner): Filter<Record<string, unknown>> {
+  return {
+    $or: [
+      { partnerId: partner._id },
+      { partnerId: String(partner._id) },
+      { partnerName: partner.name },
+      { 'partnerContext.partnerId': partner._id },
+      { 'partnerContext.partnerName': partner.name },
+      { partner1Id: partner._id },
+    ],
+  };
+}
+
+async function readColumnMap(config: GoogleSheetConfig): Promise<IndexBasedColumnMap> {
+  const header = await readSheetRows(config.sheetId, config.sheetName, config.headerRow || 1);
+  if (header.length === 0 || !Array.isArray(header[0])) {
+    throw new Error('Could not read the sheet header row');
+  }
+  return generateDynamicColumnMap(header[0] as string[]);
+}
+
+function columnOf(columnMap: IndexBasedColumnMap, field: string): number | null {
+  const entry = Object.entries(columnMap).find(([, def]) => def.field === field);
+  return entry ? Number(entry[0]) : null;
+}
+
+// WHAT: Stable fingerprint of a row's synced values (key order independent)
+function hashSyncValues(values: SyncFieldValues): string {
+  const stable = Object.keys(values).sort().map((key) => [key, values[key]]);
+  return createHash('sha256').update(JSON.stringify(stable)).digest('hex');
+}
+
+function toIsoString(value: unknown): string | null {
+  if (value instanceof Date) return value.toISOString();
+  return typeof value === 'string' && value ? value : null;
+}
+
+/**
+ * WHAT: Run one bidirectional sync for a partner
+ * HOW:
+ *   - Rows linked to an event are merged field by field
+ *   - Rows whose UUID has no event yet are created in {messmass}
+ *   - Partner events without a UUID are appended to the sheet
+ *   - Rows without a UUID are reported and skipped (a pull links them)
+ */
+export async function syncPartnerBidirectional(
+  db: Db,
+  partner: SyncPartner,
+  options: { dryRun?: boolean; now?: Date } = {}
+): Promise<BidirectionalSyncSummary> {
+  const { dryRun = false } = options;
+  const config = partner.googleSheetConfig;
+  const partnerId = partner._id.toString();
+  const policy = getConflictPolicy(config);
+  const now = (options.now ?? new Date()).toISOString();
+  const summary: BidirectionalSyncSummary = {
+    success: true,
+    totalRows: 0,
+    eventsCreated: 0,
+    eventsUpdated: 0,
+    rowsCreated: 0,
+    rowsUpdated: 0,
+    conflictsDetected: 0,
+    conflictsAutoResolved: 0,
+    conflictsOpen: 0,
+    errors: [],
+  };
+
+  const projects = db.collection('projects');
+  const states = db.collection<SyncStateDoc>(SYNC_STATE_COLLECTION);
+  const conflicts = db.collection<ConflictDoc>(SYNC_CONFLICTS_COLLECTION);
+
+  try {
+    const columnMap = await readColumnMap(config);
+    const fields = getSyncedFields(columnMap);
+    const uuidColumn = columnOf(columnMap, 'googleSheetUuid') ?? 0;
+    const modifiedColumn = columnOf(columnMap, 'lastModified');
+    const dataStartRow = config.dataStartRow || 2;
+
+    const rows = await readSheetRows(config.sheetId, config.sheetName, dataStartRow);
+    summary.totalRows = rows.length;
+
+    const linkedRows: Array<{ uuid: string; rowNumber: number; row: unknown[] }> = [];
+    rows.forEach((row, index) => {
+      const rowNumber = index + dataStartRow;
+      const uuid = String(row[uuidColumn] ?? '').trim();
+      if (uuid) linkedRows.push({ uuid, rowNumber, row });
+      else if (row.some((cell) => String(cell ?? '').trim() !== '')) {
+        summary.errors.push({ row: rowNumber, error: 'Row has no UUID — run a pull to link it' });
+      }
+    });
+
+    const uuids = linkedRows.map((r) => r.uuid);
+    const events = await projects.find({ googleSheetUuid: { $in: uuids } }).toArray();
+    const eventsByUuid = new Map(events.map((e) => [String(e.googleSheetUuid), e]));
+    const stateDocs = await states.find({ partnerId, googleSheetUuid: { $in: uuids } }).toArray();
+    const statesByUuid = new Map(stateDocs.map((s) => [s.googleSheetUuid, s]));
+
+    const cells: Array<{ rowNumber: number; columnIndex: number; value: unknown }> = [];
+
+    for (const { uuid, rowNumber, row } of linkedRows) {
+      try {
+        const sheetValues = readRowFields(row, fields);
+        const event = eventsByUuid.get(uuid);
+
+        if (!event) {
+          // Sheet-only row: create the event, same shape as a pull
+          const created = { ...rowToEvent(row, columnMap), googleSheetUuid: uuid };
+          const eventId = new ObjectId();
+          if (!dryRun) {
+            await projects.insertOne({
+              ...created,
+              _id: eventId,
+              partnerId: partner._id,
+              googleSheetSyncedAt: now,
+              createdAt: now,
+              updatedAt: now,
+            });
+            await saveState(states, partnerId, uuid, eventId.toString(), readEventFields(created, fields), now);
+            await enqueueWebhookEvent('event.created', eventId);
+          }
+          summary.eventsCreated++;
+          continue;
+        }
+
+        const eventId = event._id.toString();
+        const messmassValues = readEventFields(event, fields);
+        const state = statesByUuid.get(uuid);
+        const sheetModified = modifiedColumn !== null && row[modifiedColumn] ? String(row[modifiedColumn]) : null;
+        const messmassModified = toIsoString(event.updatedAt);
+
+        const merge = mergeSyncRow({
+          baseline: flattenSyncValues(state?.baseline, fields),
+          sheet: sheetValues,
+          messmass: messmassValues,
+          policy,
+          sheetModified,
+          messmassModified,
+        });
+
+        summary.conflictsDetected += merge.autoResolved.length + merge.open.length;
+        summary.conflictsAutoResolved += merge.autoResolved.length;
+        summary.conflictsOpen += merge.open.length;
+
+        const messmassFields = Object.keys(merge.messmassUpdates);
+        const sheetFields = Object.keys(merge.sheetUpdates);
+        if (messmassFields.length > 0) summary.eventsUpdated++;
+        if (sheetFields.length > 0) summary.rowsUpdated++;
+        for (const field of sheetFields) {
+          const target = fields.find((f) => f.field === field) as SyncedField;
+          cells.push({ rowNumber, columnIndex: target.columnIndex, value: merge.sheetUpdates[field] });
+        }
+
+        if (dryRun) continue;
+
+        if (messmassFields.length > 0) {
+          await projects.updateOne(
+            { _id: event._id },
+            { $set: { ...merge.messmassUpdates, googleSheetSyncedAt: now, updatedAt: now } }
+          );
+          await enqueueWebhookEvent('event.updated', event._id);
+        }
+        if (!state || state.hash !== hashSyncValues(merge.baseline)) {
+          await saveState(states, partnerId, uuid, eventId, merge.baseline, now);
+        }
+        await saveConflicts(conflicts, {
+          partnerId,
+          eventId,
+          eventName: String(event.eventName ?? ''),
+          googleSheetUuid: uuid,
+          sheetModified,
+          messmassModified,
+          open: merge.open,
+          now,
+        });
+      } catch (error) {
+        summary.errors.push({ row: rowNumber, error: error instanceof Error ? error.message : 'Unknown error' });
+      }
+    }
+
+    if (!dryRun) await writeSheetCells(config.sheetId, config.sheetName, cells);
+
+    // {messmass}-only events: append rows, link them by the generated UUID
+    const unlinked = await projects
+      .find({ $and: [partnerEventsFilter(partner), { googleSheetUuid: { $in: [null, ''] } }] })
+      .sort({ eventDate: 1 })
+      .toArray();
+    if (unlinked.length > 0) {
+      const newRows = eventsToRows(unlinked, columnMap);
+      if (!dryRun) {
+        await appendSheetRows(config.sheetId, config.sheetName, newRows);
+        for (let i = 0; i < unlinked.length; i++) {
+          const uuid = String(newRows[i][uuidColumn]);
+          await projects.updateOne(
+            { _id: unlinked[i]._id },
+            { $set: { googleSheetUuid: uuid, isSyncedFromSheet: true, googleSheetSource: 'messmass', googleSheetSyncedAt: now } }
+          );
+          await saveState(states, partnerId, uuid, unlinked[i]._id.toString(), readEventFields(unlinked[i], fields), now);
+        }
+      }
+      summary.rowsCreated = unlinked.length;
+    }
+
+    if (!dryRun) {
+      await db.collection('partners').updateOne(
+        { _id: partner._id },
+        {
+          $set: {
+            'googleSheetConfig.lastSyncAt': now,
+            'googleSheetConfig.lastSyncStatus': 'success',
+            'googleSheetConfig.lastSyncError': null,
+            'googleSheetStats.lastPullAt': now,
+            'googleSheetStats.lastPushAt': now,
+            updatedAt: now,
+          },
+          $inc: {
+            'googleSheetStats.pullCount': 1,
+            'googleSheetStats.pushCount': 1,
+            'googleSheetStats.eventsCreated': summary.eventsCreated,
+            'googleSheetStats.eventsUpdated': summary.eventsUpdated,
+          },
+        }
+      );
+    }
+
+    logInfo('Bidirectional sheet sync finished', {
+      context: 'google-sheets-bidirectional',
+      partnerId,
+      dryRun,
+      policy,
+      eventsCreated: summary.eventsCreated,
+      eventsUpdated: summary.eventsUpdated,
+      rowsCreated: summary.rowsCreated,
+      rowsUpdated: summary.rowsUpdated,
+      conflictsOpen: summary.conflictsOpen,
+    });
+    return summary;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logError('Bidirectional sheet sync failed', { context: 'google-sheets-bidirectional', partnerId }, error instanceof Error ? error : new Error(message));
+    if (!dryRun) {
+      await db.collection('partners').updateOne(
+        { _id: partner._id },
+        { $set: { 'googleSheetConfig.lastSyncStatus': 'error', 'googleSheetConfig.lastSyncError': message, updatedAt: now } }
+      );
+    }
+    summary.success = false;
+    summary.error = message;
+    summary.errors.push({ row: 0, error: message });
+    return summary;
+  }
+}
+
+async function saveState(
+  states: Collection<SyncStateDoc>,
+  partnerId: string,
+  uuid: string,
+  eventId: string,
+  baseline: SyncFieldValues,
+  now: string
+): Promise<void> {
+  await states.updateOne(
+    { _id: stateId(partnerId, uuid) },
+    {
+      $set: {
+        partnerId,
+        googleSheetUuid: uuid,
+        eventId,
+        baseline: nestSyncValues(baseline),
+        hash: hashSyncValues(baseline),
+        syncedAt: now,
+      },
+    },
+    { upsert: true }
+  );
+}
+
+/**
+ * WHAT: Keep one open conflict document per row in step with the latest run
+ * WHY: Re-running sync must not pile up duplicates; a row whose sides now
+ *     agree (someone fixed it by hand) closes its open conflict
+ */
+async function saveConflicts(
+  conflicts: Collection<ConflictDoc>,
+  params: {
+    partnerId: string;
+    eventId: string;
+    eventName: string;
+    googleSheetUuid: string;
+    sheetModified: string | null;
+    messmassModified: string | null;
+    open: SyncConflictField[];
+    now: string;
+  }
+): Promise<void> {
+  const filter: Filter<ConflictDoc> = { partnerId: params.partnerId, googleSheetUuid: params.googleSheetUuid, status: 'open' };
+  if (params.open.length === 0) {
+    await conflicts.updateOne(filter, { $set: { status: 'resolved', conflictingFields: [], resolvedAt: params.now, updatedAt: params.now } });
+    return;
+  }
+  await conflicts.updateOne(
+    filter,
+    {
+      $set: {
+        eventId: params.eventId,
+        eventName: params.eventName,
+        sheetModified: params.sheetModified,
+        messmassModified: params.messmassModified,
+        newerSource: newerSyncSource(params.sheetModified, params.messmassModified),
+        fields: params.open,
+        conflictingFields: params.open.map((f) => f.field),
+        updatedAt: params.now,
+      },
+      $setOnInsert: { detectedAt: params.now },
+    },
+    { upsert: true }
+  );
+}
+
+export async function listSyncConflicts(
+  db: Db,
+  partnerId: string,
+  status: SyncConflict['status'] = 'open'
+): Promise<SyncConflict[]> {
+  const docs = await db
+    .collection<ConflictDoc>(SYNC_CONFLICTS_COLLECTION)
+    .find({ partnerId, status })
+    .sort({ detectedAt: -1 })
+    .limit(200)
+    .toArray();
+  return docs.map((doc) => ({ ...doc, _id: doc._id.toString() }));
+}
+
+export async function countOpenSyncConflicts(db: Db, partnerId: string): Promise<number> {
+  return db.collection(SYNC_CONFLICTS_COLLECTION).countDocuments({ partnerId, status: 'open' });
+}
+
+/**
+ * WHAT: Resolve open fields of one conflict, each to the side the admin chose
+ * HOW: The chosen value is written to both the event and the sheet cell and
+ *     becomes the field's baseline; the conflict closes once no field is open.
+ *     Fields not listed stay open.
+ */
+export async function resolveSyncConflict(
+  db: Db,
+  partner: SyncPartner,
+  conflictId: string,
+  choices: Record<string, 'sheet' | 'messmass'>,
+  resolvedBy: string
+): Promise<SyncConflict> {
+  if (!ObjectId.isValid(conflictId)) throw httpError('Invalid conflict ID', 400, 'INVALID_CONFLICT_ID');
+  const partnerId = partner._id.toString();
+  const conflicts = db.collection<ConflictDoc>(SYNC_CONFLICTS_COLLECTION);
+  const conflict = await conflicts.findOne({ _id: new ObjectId(conflictId), partnerId });
+  if (!conflict) throw httpError('Conflict not found', 404, 'CONFLICT_NOT_FOUND');
+  if (conflict.status !== 'open') throw httpError('Conflict is already resolved', 409, 'CONFLICT_RESOLVED');
+
+  const chosen = Object.entries(choices);
+  if (chosen.length === 0) throw httpError('Choose a side for at least one field', 400, 'NO_FIELDS');
+  for (const [field, side] of chosen) {
+    const entry = conflict.fields.find((f) => f.field === field);
+    if (!entry || entry.resolution) throw httpError(`Field "${field}" is not open in this conflict`, 400, 'FIELD_NOT_OPEN');
+    if (side !== 'sheet' && side !== 'messmass') throw httpError(`Invalid side for "${field}"`, 400, 'INVALID_SIDE');
+  }
+
+  const now = new Date().toISOString();
+  const values: SyncFieldValues = {};
+  for (const [field, side] of chosen) {
+    const entry = conflict.fields.find((f) => f.field === field) as SyncConflictField;
+    values[field] = side === 'sheet' ? entry.sheetValue : entry.messmassValue;
+  }
+
+  // Sheet first: if the sheet write fails nothing has changed yet
+  const config = partner.googleSheetConfig;
+  const columnMap = await readColumnMap(config);
+  const rowNumber = await findRowByUuid(config.sheetId, config.sheetName, conflict.googleSheetUuid);
+  if (!rowNumber) throw httpError('The conflicting row is no longer in the sheet', 409, 'ROW_NOT_FOUND');
+  const cells = Object.keys(values)
+    .map((field) => ({ rowNumber, columnIndex: columnOf(columnMap, field), value: values[field] }))
+    .filter((cell): cell is { rowNumber: number; columnIndex: number; value: SyncFieldValues[string] } => cell.columnIndex !== null);
+  await writeSheetCells(config.sheetId, config.sheetName, cells);
+
+  await db.collection('projects').updateOne(
+    { _id: new ObjectId(String(conflict.eventId)) },
+    { $set: { ...values, googleSheetSyncedAt: now, updatedAt: now } }
+  );
+  // Keeping the {messmass} value changes nothing subscribers have not seen
+  if (chosen.some(([, side]) => side === 'sheet')) {
+    await enqueueWebhookEvent('event.updated', String(conflict.eventId));
+  }
+
+  const states = db.collection<SyncStateDoc>(SYNC_STATE_COLLECTION);
+  const state = await states.findOne({ _id: stateId(partnerId, conflict.googleSheetUuid) });
+  const baseline = { ...flattenSyncValues(state?.baseline, getSyncedFields(columnMap)), ...values };
+  await saveState(states, partnerId, conflict.googleSheetUuid, String(conflict.eventId), baseline, now);
+
+  const fields = conflict.fields.map((f) =>
+    choices[f.field] ? { ...f, resolution: choices[f.field], resolvedBy, resolvedAt: now } : f
+  );
+  const stillOpen = fields.filter((f) => !f.resolution).map((f) => f.field);
+  const update: Partial<Omit<SyncConflict, '_id'>> = {
+    fields,
+    conflictingFields: stillOpen,
+    status: stillOpen.length === 0 ? 'resolved' : 'open',
+    updatedAt: now,
+    ...(stillOpen.length === 0 ? { resolvedAt: now } : {}),
+  };
+  await conflicts.updateOne({ _id: conflict._id }, { $set: update });
+
+  logInfo('Sheet sync conflict resolved', {
+    context: 'google-sheets-bidirectional',
+    partnerId,
+    conflictId,
+    resolvedBy,
+    fields: chosen.map(([field, side]) => `${field}:${side}`).join(','),
+  });
+
+  return { ...conflict, ...update, _id: conflict._id.toString() };
+}
@@ -9,6 +9,7 @@ import type { sheets_v4 } from 'googleapis';
 import * as fs from 'fs';
 import * as path from 'path';
 import { getSheetRange } from './columnMap';
+import { indexToColumnLetter } from './dynamicMapping';
 import { debug as logDebug, error as logError } from '@/lib/logger';
 
 /**
@@ -363,6 +364,43 @@ export async function updateSheetRow(
   }
 }
 
+/**
+ * WHAT: Write individual cells in one batch
+ * WHY: Bidirectional sync changes single fields; rewriting whole rows would
+ *     overwrite formulas and any cell edited in the sheet since it was read
+ * HOW: One values.batchUpdate with an A1 range per cell
+ */
+export async function writeSheetCells(
+  sheetId: string,
+  sheetName: string,
+  cells: Array<{ rowNumber: number; columnIndex: number; value: unknown }>
+): Promise<void> {
+  if (cells.length === 0) return;
+  try {
+    const sheets = createSheetsClient();
+
+    await sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId: sheetId,
+      requestBody: {
+        valueInputOption: 'USER_ENTERED',
+        data: cells.map(cell => ({
+          range: `${sheetName}!${indexToColumnLetter(cell.columnIndex)}${cell.rowNumber}`,
+          values: [[cell.value ?? '']]
+        }))
+      }
+    });
+  } catch (error: unknown) {
+    logError(
+      'Failed to write sheet cells',
+      { context: 'google-sheets-write-cells', sheetId, sheetName, cellCount: cells.length },
+      error instanceof Error ? error : new Error(String(error))
+    );
+    throw new Error(
+      `Failed to write cells: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
 /**
  * WHAT: Append new rows to end of sheet
  * WHY: Add new events without overwriting existing
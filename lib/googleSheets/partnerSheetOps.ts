@@ -11,6 +11,7 @@ import { createDriveClient, createSheetsClient, createSheetsClientWithDriveAcces
 import { columnIndexToLetter, columnLetterToIndex, SHEET_HEADER_LABELS } from './columnMap';
 import { eventToRow } from './rowMapper';
 import { countSheetDataRows } from './metrics';
+import type { GoogleSheetSyncMode } from './types';
 
 const DEFAULT_SHEET_NAME = 'Events';
 const MIN_COLUMNS = 300; // supports extended variables
@@ -197,7 +198,7 @@ export async function connectPartnerToSheet(params: {
   partnerId: string;
   sheetId: string;
   sheetName?: string;
-  syncMode?: 'manual' | 'auto';
+  syncMode?: GoogleSheetSyncMode;
 }): Promise<{
   config: any;
   stats: any;
@@ -250,7 +251,7 @@ export async function connectPartnerToSheet(params: {
 
 export async function provisionPartnerSheet(params: {
   partnerId: string;
-  syncMode?: 'manual' | 'auto';
+  syncMode?: GoogleSheetSyncMode;
 }): Promise<{
   sheetId: string;
   sheetUrl: string;
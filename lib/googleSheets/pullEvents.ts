@@ -11,6 +11,7 @@ import { generateDynamicColumnMap } from './dynamicMapping';
 import { visualizeColumnMapping, visualizeRowMapping, analyzeStatsMapping } from './columnMappingVisualizer';
 import type { IndexBasedColumnMap } from './dynamicMapping';
 import type { GoogleSheetConfig, PullSummary, SyncDbAccess, PullOptions } from './types';
+import { enqueueWebhookEvent } from '../webhooks';
 
 /**
  * WHAT: Pull all events from Google Sheet to {messmass}
@@ -349,6 +350,7 @@ export async function pullSingleEvent(
         }
       }
     );
+    await enqueueWebhookEvent('event.updated', eventId);
     
     console.log(`✅ Pulled single event: ${updated.eventName}`);
     return true;
@@ -0,0 +1,236 @@
+// lib/googleSheets/syncConflicts.ts
+// WHAT: Field-level three-way merge for bidirectional sheet sync
+// WHY: Pull and push each overwrite the other side, so a clicker edit in
+//     {messmass} and a manual sheet edit on the same row silently clobbered
+//     each other. Comparing both sides against the values they last agreed on
+//     tells us which side changed a field — and when both did.
+// HOW: Pure functions only (no Sheets API, no MongoDB, no Node modules) so the
+//     merge rules are testable and the labels usable client-side;
+//     lib/googleSheets/bidirectionalSync.ts reads and writes.
+
+import type { IndexBasedColumnMap } from './dynamicMapping';
+import type { GoogleSheetSyncMode, SyncConflictField, SyncConflictPolicy, SyncFieldValue } from './types';
+
+export const GOOGLE_SHEET_SYNC_MODES: readonly GoogleSheetSyncMode[] = ['manual', 'auto', 'bidirectional'];
+
+export const SYNC_CONFLICT_POLICIES: readonly SyncConflictPolicy[] = ['sheet_wins', 'messmass_wins', 'newest_wins', 'manual'];
+
+export const SYNC_CONFLICT_POLICY_LABELS: Record<SyncConflictPolicy, string> = {
+  sheet_wins: 'Sheet wins',
+  messmass_wins: '{messmass} wins',
+  newest_wins: 'Newest edit wins',
+  manual: 'Manual review',
+};
+
+export const DEFAULT_SYNC_CONFLICT_POLICY: SyncConflictPolicy = 'manual';
+
+// Flat field path → value, e.g. { eventDate: '2026-03-01', 'stats.female': 120 }
+export type SyncFieldValues = Record<string, SyncFieldValue>;
+
+export interface SyncedField {
+  field: string;
+  columnIndex: number;
+  type: 'number' | 'string' | 'date';
+}
+
+export function isGoogleSheetSyncMode(value: unknown): value is GoogleSheetSyncMode {
+  return typeof value === 'string' && (GOOGLE_SHEET_SYNC_MODES as readonly string[]).includes(value);
+}
+
+export function isSyncConflictPolicy(value: unknown): value is SyncConflictPolicy {
+  return typeof value === 'string' && (SYNC_CONFLICT_POLICIES as readonly string[]).includes(value);
+}
+
+/**
+ * WHAT: Columns that bidirectional sync merges
+ * WHY: Only editable data on both sides — the UUID, computed formula columns,
+ *     sync bookkeeping and the partner/title columns the event name is derived
+ *     from stay with the one-way pull/push
+ */
+export function getSyncedFields(columnMap: IndexBasedColumnMap): SyncedField[] {
+  return Object.entries(columnMap)
+    .filter(([, def]) => !def.computed && !def.readOnly && (def.field === 'eventDate' || def.field.startsWith('stats.')))
+    .map(([index, def]) => ({
+      field: def.field,
+      columnIndex: Number(index),
+      type: def.type === 'number' ? 'number' : def.type === 'date' ? 'date' : 'string',
+    }));
+}
+
+/**
+ * WHAT: One comparable form for a value from either side
+ * WHY: The sheet returns "120", {messmass} stores 120; blanks are null on both
+ */
+export function normalizeSyncValue(value: unknown, type: SyncedField['type']): SyncFieldValue {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  if (text === '') return null;
+  if (type === 'number') {
+    const num = typeof value === 'number' ? value : Number(text);
+    return Number.isFinite(num) ? num : null;
+  }
+  return text;
+}
+
+function getPath(source: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    source
+  );
+}
+
+export function readEventFields(event: unknown, fields: SyncedField[]): SyncFieldValues {
+  const values: SyncFieldValues = {};
+  for (const f of fields) values[f.field] = normalizeSyncValue(getPath(event, f.field), f.type);
+  return values;
+}
+
+export function readRowFields(row: unknown[], fields: SyncedField[]): SyncFieldValues {
+  const values: SyncFieldValues = {};
+  for (const f of fields) values[f.field] = normalizeSyncValue(row[f.columnIndex], f.type);
+  return values;
+}
+
+/**
+ * WHAT: Flat values ⇄ the nested shape stored in MongoDB
+ * WHY: Field paths contain dots ("stats.female"), which MongoDB would read as
+ *     nesting anyway — storing them nested keeps `$set: { 'baseline.stats.x' }` valid
+ */
+export function nestSyncValues(values: SyncFieldValues): Record<string, unknown> {
+  const nested: Record<string, unknown> = {};
+  for (const [path, value] of Object.entries(values)) {
+    const keys = path.split('.');
+    let target = nested;
+    keys.slice(0, -1).forEach((key) => {
+      if (!target[key] || typeof target[key] !== 'object') target[key] = {};
+      target = target[key] as Record<string, unknown>;
+    });
+    target[keys[keys.length - 1]] = value;
+  }
+  return nested;
+}
+
+export function flattenSyncValues(nested: Record<string, unknown> | null | undefined, fields: SyncedField[]): SyncFieldValues | null {
+  if (!nested) return null;
+  const values: SyncFieldValues = {};
+  for (const f of fields) {
+    const value = getPath(nested, f.field);
+    values[f.field] = value === undefined ? null : (value as SyncFieldValue);
+  }
+  return values;
+}
+
+function toTime(value: string | null | undefined): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * WHAT: Which side was edited last, when both timestamps are known
+ */
+export function newerSyncSource(sheetModified: string | null, messmassModified: string | null): 'sheet' | 'messmass' | null {
+  const sheet = toTime(sheetModified);
+  const messmass = toTime(messmassModified);
+  if (sheet === null || messmass === null || sheet === messmass) return null;
+  return sheet > messmass ? 'sheet' : 'messmass';
+}
+
+/**
+ * WHAT: The side a policy picks for a conflict, or null to leave it open
+ * NOTE: newest_wins needs a Last Modified column in the sheet; without one (or
+ *     on a tie) the conflict goes to manual review rather than guessing
+ */
+export function pickConflictWinner(
+  policy: SyncConflictPolicy,
+  sheetModified: string | null,
+  messmassModified: string | null
+): 'sheet' | 'messmass' | null {
+  if (policy === 'sheet_wins') return 'sheet';
+  if (policy === 'messmass_wins') return 'messmass';
+  if (policy === 'newest_wins') return newerSyncSource(sheetModified, messmassModified);
+  return null;
+}
+
+export interface SyncRowInput {
+  baseline: SyncFieldValues | null;        // null: row never synced both ways
+  sheet: SyncFieldValues;
+  messmass: SyncFieldValues;
+  policy: SyncConflictPolicy;
+  sheetModified: string | null;
+  messmassModified: string | null;
+}
+
+export interface SyncRowMerge {
+  messmassUpdates: SyncFieldValues;        // Fields to write to the event
+  sheetUpdates: SyncFieldValues;           // Fields to write to the row
+  baseline: SyncFieldValues;               // Values both sides now agree on
+  autoResolved: SyncConflictField[];       // Conflicts the policy settled
+  open: SyncConflictField[];               // Conflicts left for an admin
+}
+
+/**
+ * WHAT: Merge one row: take each side's own changes, detect fields both changed
+ * HOW: Per field, against the baseline —
+ *   - equal on both sides: nothing to do
+ *   - blank in the sheet: {messmass} fills it (a blank cell never erases data,
+ *     the same rule the one-way pull follows)
+ *   - changed on one side only: copy it to the other
+ *   - changed on both sides (or no baseline yet): conflict → policy
+ *   An open conflict keeps its old baseline, so the next run finds it again.
+ */
+export function mergeSyncRow(input: SyncRowInput): SyncRowMerge {
+  const { baseline, sheet, messmass } = input;
+  const result: SyncRowMerge = { messmassUpdates: {}, sheetUpdates: {}, baseline: {}, autoResolved: [], open: [] };
+  const winner = pickConflictWinner(input.policy, input.sheetModified, input.messmassModified);
+
+  for (const field of Object.keys(messmass)) {
+    const s = sheet[field] ?? null;
+    const m = messmass[field] ?? null;
+    const base = baseline ? baseline[field] ?? null : undefined;
+
+    if (s === m) {
+      result.baseline[field] = m;
+      continue;
+    }
+    if (s === null) {
+      result.sheetUpdates[field] = m;
+      result.baseline[field] = m;
+      continue;
+    }
+    if (m === null && base === undefined) {
+      result.messmassUpdates[field] = s;
+      result.baseline[field] = s;
+      continue;
+    }
+
+    const sheetChanged = base === undefined || s !== base;
+    const messmassChanged = base === undefined || m !== base;
+    if (sheetChanged && !messmassChanged) {
+      result.messmassUpdates[field] = s;
+      result.baseline[field] = s;
+      continue;
+    }
+    if (messmassChanged && !sheetChanged) {
+      result.sheetUpdates[field] = m;
+      result.baseline[field] = m;
+      continue;
+    }
+
+    const conflict: SyncConflictField = { field, baseValue: base ?? null, sheetValue: s, messmassValue: m };
+    if (winner === 'sheet') {
+      result.messmassUpdates[field] = s;
+      result.baseline[field] = s;
+      result.autoResolved.push({ ...conflict, resolution: 'sheet' });
+    } else if (winner === 'messmass') {
+      result.sheetUpdates[field] = m;
+      result.baseline[field] = m;
+      result.autoResolved.push({ ...conflict, resolution: 'messmass' });
+    } else {
+      result.baseline[field] = base ?? null;
+      result.open.push(conflict);
+    }
+  }
+
+  return result;
+}
@@ -4,6 +4,20 @@
 
 import { ObjectId } from 'mongodb';
 
+/**
+ * WHAT: How a partner's sheet is kept in sync
+ * WHY: manual = buttons only; auto = daily cron pull (sheet → {messmass});
+ *     bidirectional = daily cron merge of both sides with conflict detection
+ */
+export type GoogleSheetSyncMode = 'manual' | 'auto' | 'bidirectional';
+
+/**
+ * WHAT: What bidirectional sync does when both sides changed the same field
+ * WHY: Per-partner choice — some partners edit only in the sheet, others only
+ *     with the clicker; manual leaves the conflict for an admin to resolve
+ */
+export type SyncConflictPolicy = 'sheet_wins' | 'messmass_wins' | 'newest_wins' | 'manual';
+
 /**
  * WHAT: Partner's Google Sheet configuration
  * WHY: Store connection details and sync settings
@@ -19,7 +33,8 @@ export interface GoogleSheetConfig {
   lastSyncAt?: Date;                       // Last successful sync timestamp
   lastSyncStatus?: 'success' | 'error' | 'pending';
   lastSyncError?: string;                  // Last error message
-  syncMode: 'manual' | 'auto';             // Auto includes daily cron
+  syncMode: GoogleSheetSyncMode;           // Auto and bidirectional include daily cron
+  conflictPolicy?: SyncConflictPolicy;     // Bidirectional only (default: manual)
   columnMap: SheetColumnMap;               // Mapping configuration
 }
 
@@ -177,16 +192,58 @@ export interface SheetValidationError {
 }
 
 /**
- * WHAT: Conflict detection result
- * WHY: Show which system has newer data
+ * WHAT: One field both sides changed since the last sync, with different values
+ * WHY: Resolution is field by field — the admin may keep the sheet's fans count
+ *     and {messmass}'s merch count for the same row
+ */
+export interface SyncConflictField {
+  field: string;                           // {messmass} field path (e.g., "stats.female")
+  baseValue: SyncFieldValue;               // Value both sides agreed on at the last sync
+  sheetValue: SyncFieldValue;
+  messmassValue: SyncFieldValue;
+  resolution?: 'sheet' | 'messmass';       // Set once resolved
+  resolvedBy?: string;
+  resolvedAt?: string;
+}
+
+export type SyncFieldValue = string | number | null;
+
+/**
+ * WHAT: Unresolved conflicts of one sheet row (google_sheet_sync_conflicts)
+ * WHY: Show which system has newer data and let an admin pick per field
  */
 export interface SyncConflict {
+  _id?: ObjectId | string;
+  partnerId: string;
   eventId: ObjectId | string;
   eventName: string;
-  sheetModified: Date;
-  messmassModified: Date;
-  conflictingFields: string[];
-  newerSource: 'sheet' | 'messmass';
+  googleSheetUuid: string;
+  sheetModified: string | null;            // Row's Last Modified column (null without one)
+  messmassModified: string | null;         // Event's updatedAt
+  conflictingFields: string[];             // Fields still open
+  fields: SyncConflictField[];
+  newerSource: 'sheet' | 'messmass' | null;
+  status: 'open' | 'resolved';
+  detectedAt: string;
+  updatedAt: string;
+  resolvedAt?: string;
+}
+
+/**
+ * WHAT: Summary of one bidirectional sync run
+ */
+export interface BidirectionalSyncSummary {
+  success: boolean;
+  error?: string;
+  totalRows: number;
+  eventsCreated: number;                   // Sheet-only rows created in {messmass}
+  eventsUpdated: number;                   // Events that took sheet changes
+  rowsCreated: number;                     // {messmass}-only events appended to the sheet
+  rowsUpdated: number;                     // Rows that took {messmass} changes
+  conflictsDetected: number;               // Conflicting fields found this run
+  conflictsAutoResolved: number;           // ...settled by the partner's policy
+  conflictsOpen: number;                   // ...left for manual review
+  errors: Array<{ row: number; error: string }>;
 }
 
 /**
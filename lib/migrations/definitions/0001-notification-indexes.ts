@@ -0,0 +1,39 @@
+// WHAT: The notification indexes from scripts/createMissingIndexes.ts, as a tracked migration
+// WHY: createNotification upserts on dedupeKey and retention relies on the occurredAt
+//     TTL — both silently break on a database where the script was never run.
+
+import type { Migration } from '../runner';
+
+const NOTIFICATION_INDEXES = [
+  { name: 'timestamp_desc', key: { timestamp: -1 } },
+  { name: 'dedupeKey_unique', key: { dedupeKey: 1 }, unique: true, sparse: true },
+  { name: 'occurredAt_ttl', key: { occurredAt: 1 }, expireAfterSeconds: 60 * 60 * 24 * 90 },
+  { name: 'readBy_array', key: { readBy: 1 } },
+  { name: 'archivedBy_array', key: { archivedBy: 1 } },
+  { name: 'activityType_filter', key: { activityType: 1 } },
+] as const;
+
+const migration: Migration = {
+  name: '0001-notification-indexes',
+  description: 'Feed, dedupe, retention and filter indexes on notifications',
+
+  async up({ db, dryRun, log }) {
+    const existing = new Set((await db.collection('notifications').indexes().catch(() => [])).map((index) => index.name));
+    const missing = NOTIFICATION_INDEXES.filter((index) => !existing.has(index.name));
+    log(`${missing.length} of ${NOTIFICATION_INDEXES.length} indexes missing: ${missing.map((i) => i.name).join(', ') || 'none'}`);
+    if (dryRun || missing.length === 0) return;
+    await db.collection('notifications').createIndexes(missing.map((index) => ({ ...index, key: { ...index.key } })));
+    log('Created');
+  },
+
+  async down({ db, dryRun, log }) {
+    const existing = new Set((await db.collection('notifications').indexes().catch(() => [])).map((index) => index.name));
+    for (const { name } of NOTIFICATION_INDEXES) {
+      if (!existing.has(name)) continue;
+      log(`Dropping ${name}`);
+      if (!dryRun) await db.collection('notifications').dropIndex(name);
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,38 @@
+// WHAT: The unique (organizationId, idempotencyKey) index on v3 metric values
+// WHY: Retried ingestion batches are only deduplicated when this index exists;
+//     Mongoose autoIndex is not relied on in production.
+
+import { V3_COLLECTIONS } from '../../constants';
+import type { Migration } from '../runner';
+
+const INDEX_NAME = 'organizationId_1_idempotencyKey_1';
+
+const migration: Migration = {
+  name: '0002-v3-metric-value-idempotency-index',
+  description: 'Unique idempotency key per organization on v3 metric values',
+
+  async up({ db, dryRun, log }) {
+    const collection = db.collection(V3_COLLECTIONS.METRIC_VALUES);
+    const existing = await collection.indexes().catch(() => []);
+    if (existing.some((index) => index.name === INDEX_NAME)) {
+      log(`${INDEX_NAME} already exists`);
+      return;
+    }
+    log(`Creating ${INDEX_NAME}`);
+    if (dryRun) return;
+    await collection.createIndex(
+      { organizationId: 1, idempotencyKey: 1 },
+      { name: INDEX_NAME, unique: true, partialFilterExpression: { idempotencyKey: { $type: 'string' } } }
+    );
+  },
+
+  async down({ db, dryRun, log }) {
+    const collection = db.collection(V3_COLLECTIONS.METRIC_VALUES);
+    const existing = await collection.indexes().catch(() => []);
+    if (!existing.some((index) => index.name === INDEX_NAME)) return;
+    log(`Dropping ${INDEX_NAME}`);
+    if (!dryRun) await collection.dropIndex(INDEX_NAME);
+  },
+};
+
+export default migration;
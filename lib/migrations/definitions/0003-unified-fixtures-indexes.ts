@@ -0,0 +1,39 @@
+// WHAT: Indexes for the unified `fixtures` collection (lib/fixtures/)
+// WHY: The unique source index is what stops a provider fixture being stored
+//     twice when two syncs overlap; the others serve Quick Add and dedupe lookups.
+
+import { FIXTURES_COLLECTION } from '../../fixtures/types';
+import type { Migration } from '../runner';
+
+const FIXTURE_INDEXES = [
+  { name: 'source_unique', key: { 'sources.provider': 1, 'sources.providerFixtureId': 1 }, unique: true },
+  { name: 'sport_date', key: { sport: 1, date: 1 } },
+  { name: 'homePartner_date', key: { homePartnerId: 1, date: 1 } },
+  { name: 'awayPartner_date', key: { awayPartnerId: 1, date: 1 } },
+  { name: 'homeMatch_partner', key: { 'homeTeam.match.partnerId': 1 } },
+] as const;
+
+const migration: Migration = {
+  name: '0003-unified-fixtures-indexes',
+  description: 'Source uniqueness, date and partner indexes on fixtures',
+
+  async up({ db, dryRun, log }) {
+    const existing = new Set((await db.collection(FIXTURES_COLLECTION).indexes().catch(() => [])).map((index) => index.name));
+    const missing = FIXTURE_INDEXES.filter((index) => !existing.has(index.name));
+    log(`${missing.length} of ${FIXTURE_INDEXES.length} indexes missing: ${missing.map((i) => i.name).join(', ') || 'none'}`);
+    if (dryRun || missing.length === 0) return;
+    await db.collection(FIXTURES_COLLECTION).createIndexes(missing.map((index) => ({ ...index, key: { ...index.key } })));
+    log('Created');
+  },
+
+  async down({ db, dryRun, log }) {
+    const existing = new Set((await db.collection(FIXTURES_COLLECTION).indexes().catch(() => [])).map((index) => index.name));
+    for (const { name } of FIXTURE_INDEXES) {
+      if (!existing.has(name)) continue;
+      log(`Dropping ${name}`);
+      if (!dryRun) await db.collection(FIXTURES_COLLECTION).dropIndex(name);
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,53 @@
+// WHAT: Register the match statistics the post-match backfill writes (lib/fixtures/results.ts)
+// WHY: Stats keys only show up in the manual editor, charts and formulas once
+//     variables_metadata knows them. Existing entries are left alone — an admin
+//     may have relabelled or regrouped them.
+// NOTE: Irreversible: charts and formulas may reference the variables once they exist.
+
+import { MATCH_STATISTIC_FIELDS } from '../../fixtures/statistics';
+import type { Migration } from '../runner';
+
+const VARIABLES = Object.values(MATCH_STATISTIC_FIELDS).flatMap(({ home, away, label }) => [
+  { name: home, label: `Home Team ${label}` },
+  { name: away, label: `Visitor Team ${label}` },
+]);
+
+const migration: Migration = {
+  name: '0004-match-statistics-variables',
+  description: 'Match statistics variables (possession, shots, corners, cards, …) for post-match backfill',
+
+  async up({ db, dryRun, log }) {
+    const col = db.collection('variables_metadata');
+    const existing = new Set(
+      (await col.find({ name: { $in: VARIABLES.map((v) => v.name) } }, { projection: { name: 1 } }).toArray()).map((v) => v.name)
+    );
+    const missing = VARIABLES.filter((variable) => !existing.has(variable.name));
+    log(`${missing.length} of ${VARIABLES.length} variables missing: ${missing.map((v) => v.name).join(', ') || 'none'}`);
+    if (dryRun || missing.length === 0) return;
+
+    const now = new Date().toISOString();
+    for (const [index, variable] of missing.entries()) {
+      await col.updateOne(
+        { name: variable.name },
+        {
+          $setOnInsert: {
+            name: variable.name,
+            label: variable.label,
+            type: 'count',
+            category: 'event',
+            derived: false,
+            flags: { visibleInClicker: false, editableInManual: true },
+            order: 900 + index,
+            isSystem: true,
+            createdAt: now,
+            updatedAt: now,
+          },
+        },
+        { upsert: true }
+      );
+    }
+    log('Created');
+  },
+};
+
+export default migration;
@@ -0,0 +1,96 @@
+// WHAT: Register the per-event campaign variables (lib/bitly-campaigns.ts) and a
+//     "Clicks by Campaign" chart that report templates can place as a block
+// WHY: Bitly enrichment writes bitlyCampaign1-5 / bitlyCampaign1-5Clicks into
+//     project stats; formulas and the chart editor only offer them once
+//     variables_metadata knows them. Existing entries and an existing chart with
+//     the same chartId are left alone.
+// NOTE: Irreversible: charts and formulas may reference the variables once they exist.
+
+import { CAMPAIGN_CHART_SLOTS } from '../../bitly-campaigns';
+import type { Migration } from '../runner';
+
+const SLOTS = Array.from({ length: CAMPAIGN_CHART_SLOTS }, (_, i) => i + 1);
+
+const VARIABLES = [
+  ...SLOTS.flatMap((slot) => [
+    { name: `bitlyCampaign${slot}`, label: `Bitly Campaign ${slot}`, type: 'text' },
+    { name: `bitlyCampaign${slot}Clicks`, label: `Bitly Campaign ${slot} Clicks`, type: 'count' },
+  ]),
+  { name: 'bitlyCampaignCount', label: 'Bitly Campaigns', type: 'count' },
+];
+
+const CHART_ID = 'bitly-clicks-by-campaign';
+const COLORS = ['#3b82f6', '#8b5cf6', '#ec4899', '#f59e0b', '#10b981'];
+
+const migration: Migration = {
+  name: '0005-bitly-campaign-variables',
+  description: 'Bitly campaign variables (bitlyCampaign1-5, clicks, count) and the Clicks by Campaign chart',
+
+  async up({ db, dryRun, log }) {
+    const col = db.collection('variables_metadata');
+    const existing = new Set(
+      (await col.find({ name: { $in: VARIABLES.map((v) => v.name) } }, { projection: { name: 1 } }).toArray()).map((v) => v.name)
+    );
+    const missing = VARIABLES.filter((variable) => !existing.has(variable.name));
+    log(`${missing.length} of ${VARIABLES.length} variables missing: ${missing.map((v) => v.name).join(', ') || 'none'}`);
+
+    const charts = db.collection('chart_configurations');
+    const hasChart = (await charts.countDocuments({ chartId: CHART_ID })) > 0;
+    log(hasChart ? `Chart ${CHART_ID} exists` : `Chart ${CHART_ID} missing`);
+    if (dryRun) return;
+
+    const now = new Date().toISOString();
+    for (const [index, variable] of missing.entries()) {
+      await col.updateOne(
+        { name: variable.name },
+        {
+          $setOnInsert: {
+            name: variable.name,
+            label: variable.label,
+            type: variable.type,
+            category: 'bitly',
+            derived: false,
+            flags: { visibleInClicker: false, editableInManual: false },
+            order: 950 + index,
+            isSystem: true,
+            createdAt: now,
+            updatedAt: now,
+          },
+        },
+        { upsert: true }
+      );
+    }
+
+    if (!hasChart) {
+      await charts.updateOne(
+        { chartId: CHART_ID },
+        {
+          $setOnInsert: {
+            chartId: CHART_ID,
+            title: 'Clicks by Campaign',
+            subtitle: 'Bitly clicks grouped by utm_campaign',
+            type: 'bar',
+            order: 39,
+            isActive: true,
+            showTotal: true,
+            totalLabel: 'Total Clicks',
+            icon: 'campaign',
+            elements: SLOTS.map((slot) => ({
+              id: `campaign-${slot}`,
+              // Resolved from stats at render time (lib/chartCalculator.ts)
+              label: `{{bitlyCampaign${slot}}}`,
+              formula: `[bitlyCampaign${slot}Clicks]`,
+              color: COLORS[slot - 1],
+            })),
+            createdAt: now,
+            updatedAt: now,
+          },
+        },
+        { upsert: true }
+      );
+    }
+    log('Created');
+  },
+};
+
+export default migration;
@@ -0,0 +1,44 @@
+// WHAT: Indexes for custom roles and role bindings (lib/authorization.ts)
+// WHY: Every capability check that is not settled by the global role loads the
+//     user's bindings by userId; the unique indexes stop duplicate role keys and
+//     a role being bound twice to the same scope when two admins grant at once.
+
+import type { Migration } from '../runner';
+
+const INDEXES = [
+  { collection: 'access_roles', name: 'key_unique', key: { key: 1 }, unique: true },
+  { collection: 'role_bindings', name: 'userId_lookup', key: { userId: 1 } },
+  { collection: 'role_bindings', name: 'binding_unique', key: { userId: 1, roleKey: 1, 'scope.type': 1, 'scope.id': 1 }, unique: true },
+  { collection: 'role_bindings', name: 'roleKey_lookup', key: { roleKey: 1 } },
+] as const;
+
+const COLLECTIONS = Array.from(new Set(INDEXES.map((index) => index.collection)));
+
+const migration: Migration = {
+  name: '0006-role-binding-indexes',
+  description: 'Unique role keys, role binding lookup and uniqueness indexes',
+
+  async up({ db, dryRun, log }) {
+    for (const collection of COLLECTIONS) {
+      const existing = new Set((await db.collection(collection).indexes().catch(() => [])).map((index) => index.name));
+      const missing = INDEXES.filter((index) => index.collection === collection && !existing.has(index.name));
+      log(`${collection}: ${missing.length} indexes missing: ${missing.map((i) => i.name).join(', ') || 'none'}`);
+      if (dryRun || missing.length === 0) continue;
+      await db.collection(collection).createIndexes(
+        missing.map(({ name, key, ...options }) => ({ name, key: { ...key }, ...('unique' in options ? { unique: options.unique } : {}) }))
+      );
+      log(`${collection}: created`);
+    }
+  },
+
+  async down({ db, dryRun, log }) {
+    for (const { collection, name } of INDEXES) {
+      const existing = new Set((await db.collection(collection).indexes().catch(() => [])).map((index) => index.name));
+      if (!existing.has(name)) continue;
+      log(`Dropping ${collection}.${name}`);
+      if (!dryRun) await db.collection(collection).dropIndex(name);
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,49 @@
+// WHAT: Indexes for partner portal contacts, sign-in tokens and the access log
+//     (lib/partnerPortal.ts)
+// WHY: Sign-in looks contacts up by email and tokens by hash on every link; the
+//     admin audit lists access newest-first per partner or per contact. The
+//     unique indexes stop one address being invited twice to the same partner
+//     and two tokens sharing a hash.
+
+import type { Migration } from '../runner';
+
+const INDEXES = [
+  { collection: 'partner_contacts', name: 'partner_email_unique', key: { partnerId: 1, email: 1 }, unique: true },
+  { collection: 'partner_contacts', name: 'email_lookup', key: { email: 1 } },
+  { collection: 'partner_contacts', name: 'ssoUserId_lookup', key: { ssoUserId: 1 } },
+  { collection: 'partner_portal_tokens', name: 'tokenHash_unique', key: { tokenHash: 1 }, unique: true },
+  { collection: 'partner_portal_tokens', name: 'contactId_lookup', key: { contactId: 1 } },
+  { collection: 'partner_portal_access_log', name: 'partner_at', key: { partnerId: 1, at: -1 } },
+  { collection: 'partner_portal_access_log', name: 'contact_at', key: { contactId: 1, at: -1 } },
+] as const;
+
+const COLLECTIONS = Array.from(new Set(INDEXES.map((index) => index.collection)));
+
+const migration: Migration = {
+  name: '0007-partner-portal-indexes',
+  description: 'Partner portal contact, sign-in token and access log indexes',
+
+  async up({ db, dryRun, log }) {
+    for (const collection of COLLECTIONS) {
+      const existing = new Set((await db.collection(collection).indexes().catch(() => [])).map((index) => index.name));
+      const missing = INDEXES.filter((index) => index.collection === collection && !existing.has(index.name));
+      log(`${collection}: ${missing.length} indexes missing: ${missing.map((i) => i.name).join(', ') || 'none'}`);
+      if (dryRun || missing.length === 0) continue;
+      await db.collection(collection).createIndexes(
+        missing.map(({ name, key, ...options }) => ({ name, key: { ...key }, ...('unique' in options ? { unique: options.unique } : {}) }))
+      );
+      log(`${collection}: created`);
+    }
+  },
+
+  async down({ db, dryRun, log }) {
+    for (const { collection, name } of INDEXES) {
+      const existing = new Set((await db.collection(collection).indexes().catch(() => [])).map((index) => index.name));
+      if (!existing.has(name)) continue;
+      log(`Dropping ${collection}.${name}`);
+      if (!dryRun) await db.collection(collection).dropIndex(name);
+    }
+  },
+};
+
+export default migration;
@@ -0,0 +1,47 @@
+// WHAT: Indexes for per-recipient share links and their view log
+//     (lib/shareLinks.ts)
+// WHY: Redeeming a link looks it up by token hash; the share dialog lists a
+//     page's links newest-first; every page load on a link checks for a recent
+//     view of the same page before logging another. The unique index stops two
+//     links sharing a hash.
+
+import type { Migration } from '../runner';
+
+const INDEXES = [
+  { collection: 'share_links', name: 'tokenHash_unique', key: { tokenHash: 1 }, unique: true },
+  { collection: 'share_links', name: 'page_createdAt', key: { pageType: 1, pageId: 1, createdAt: -1 } },
+  { collection: 'share_links', name: 'createdAt', key: { createdAt: -1 } },
+  { collection: 'share_link_views', name: 'link_at', key: { shareLinkId: 1, at: -1 } },
+  { collection: 'share_link_views', name: 'link_page_kind_at', key: { shareLinkId: 1, pageType: 1, pageId: 1, kind: 1, at: -1 } },
+] as const;
+
+const COLLECTIONS = Array.from(new Set(INDEXES.map((index) => index.collection)));
+
+const migration: Migration = {
+  name: '0008-share-link-indexes',
+  description: 'Share link token, page and view log indexes',
+
+  async up({ db, dryRun, log }) {
+    for (const collection of COLLECTIONS) {
+      const existing = new Set((await db.collection(collection).indexes().catch(() => [])).map((index) => index.name));
+      const missing = INDEXES.filter((index) => index.collection === collection && !existing.has(index.name));
+      log(`${collection}: ${missing.length} indexes missing: ${missing.map((i) => i.name).join(', ') || 'none'}`);
+      if (dryRun || missing.length === 0) continue;
+      await db.collection(collection).createIndexes(
+        missing.map(({ name, key, ...options }) => ({ name, key: { ...key }, ...('unique' in options ? { unique: options.unique } : {}) }))
+      );
+      log(`${collection}: created`);
+    }
+  },
+
+  async down({ db, dryRun, log }) {
+    for (const { collection, name } of INDEXES) {
+      const existing = new Set((await db.collection(collection).indexes().catch(() => [])).map((index) => index.name));
+      if (!existing.has(name)) continue;
+      log(`Dropping ${collection}.${name}`);
+      if (!dryRun) await db.collection(collection).dropIndex(name);
+    }
+  },
+};
+
+export default migration;
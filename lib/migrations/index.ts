@@ -0,0 +1,29 @@
+// lib/migrations/index.ts
+// WHAT: The migration registry — the order migrations are applied in
+// HOW: Add a file under definitions/ named with the next number and append it
+//     here. Never rename, reorder or remove a migration that has run anywhere;
+//     write a new one instead. Run with `npm run migrate:status|migrate:up|migrate:down`.
+
+import notificationIndexes from './definitions/0001-notification-indexes';
+import metricValueIdempotencyIndex from './definitions/0002-v3-metric-value-idempotency-index';
+import unifiedFixturesIndexes from './definitions/0003-unified-fixtures-indexes';
+import matchStatisticsVariables from './definitions/0004-match-statistics-variables';
+import bitlyCampaignVariables from './definitions/0005-bitly-campaign-variables';
+import roleBindingIndexes from './definitions/0006-role-binding-indexes';
+import partnerPortalIndexes from './definitions/0007-partner-portal-indexes';
+import shareLinkIndexes from './definitions/0008-share-link-indexes';
+import type { Migration } from './runner';
+
+export const MIGRATIONS: Migration[] = [
+  notificationIndexes,
+  metricValueIdempotencyIndex,
+  unifiedFixturesIndexes,
+  matchStatisticsVariables,
+  bitlyCampaignVariables,
+  roleBindingIndexes,
+  partnerPortalIndexes,
+  shareLinkIndexes,
+];
+
+export * from './runner';
+export { MemoryMigrationStore, MongoMigrationStore, listMigrationEnvironments } from './store';
@@ -0,0 +1,314 @@
+// lib/migrations/runner.ts
+// WHAT: Ordered, tracked database migrations — status, apply and rollback
+// WHY: Data fixes lived as hundreds of one-off scripts run by hand, with no
+//     record of which ran against which database. A migration here has a
+//     stable name, an `up` and optionally a `down`; every real run is recorded
+//     (MigrationHistory via lib/migrations/store.ts) per environment, and a
+//     lock keeps two deploys from migrating the same database at once.
+// HOW: The registry (lib/migrations/index.ts) is the order. A migration is
+//     applied in an environment when its latest successful run there was `up`.
+//     apply runs the pending ones in order and stops at the first failure;
+//     rollback runs `down` of the most recently applied ones, newest first.
+//     Dry runs call the same functions with ctx.dryRun = true (migrations must
+//     not write then), take no lock and record nothing.
+
+import type { Db } from 'mongodb';
+
+export interface MigrationContext {
+  db: Db;
+  dryRun: boolean;
+  log(message: string): void;
+}
+
+export interface Migration {
+  // Recorded as MigrationHistory.scriptName — never rename a migration that has run
+  name: string;
+  description: string;
+  up(ctx: MigrationContext): Promise<void>;
+  down?(ctx: MigrationContext): Promise<void>;
+}
+
+export type MigrationDirection = 'up' | 'down';
+export type MigrationRunStatus = 'pending' | 'success' | 'failed';
+
+export interface MigrationRunRecord {
+  id: string;
+  scriptName: string;
+  direction: MigrationDirection;
+  environment: string;
+  status: MigrationRunStatus;
+  executedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  executedBy?: string;
+  logs: string[];
+  errorMessage?: string;
+}
+
+export interface MigrationLockState {
+  acquired: boolean;
+  heldBy?: string;
+  since?: string;
+}
+
+/**
+ * WHAT: Where runs and the lock are kept
+ * WHY: MongoDB in production (lib/migrations/store.ts); in memory for tests
+ */
+export interface MigrationStore {
+  acquireLock(owner: string, ttlMs: number): Promise<MigrationLockState>;
+  releaseLock(owner: string): Promise<void>;
+  startRun(run: Pick<MigrationRunRecord, 'scriptName' | 'direction' | 'environment' | 'executedBy'>): Promise<string>;
+  finishRun(id: string, result: Pick<MigrationRunRecord, 'status' | 'logs' | 'durationMs' | 'errorMessage'>): Promise<void>;
+  listRuns(environment?: string): Promise<MigrationRunRecord[]>;
+}
+
+export type MigrationState = 'applied' | 'pending' | 'failed' | 'running';
+
+export interface MigrationStatus {
+  name: string;
+  description: string;
+  reversible: boolean;
+  state: MigrationState;
+  appliedAt?: string;
+  lastRun?: MigrationRunRecord;
+}
+
+export interface MigrationStepResult {
+  name: string;
+  direction: MigrationDirection;
+  status: 'success' | 'failed';
+  durationMs: number;
+  logs: string[];
+  error?: string;
+}
+
+export interface MigrationRunOptions {
+  db: Db;
+  store: MigrationStore;
+  environment: string;
+  executedBy: string;
+  dryRun?: boolean;
+  lockTtlMs?: number;
+}
+
+// Long enough for a slow migration; a crashed runner's lock expires on its own
+export const DEFAULT_LOCK_TTL_MS = 30 * 60 * 1000;
+
+const MIGRATION_NAME_PATTERN = /^\d{4}-[a-z0-9-]+$/;
+
+function migrationError(message: string, status: number, code: string): Error {
+  return Object.assign(new Error(message), { status, code });
+}
+
+/**
+ * WHAT: The environment runs are recorded under
+ * HOW: MIGRATION_ENV overrides; otherwise Vercel's environment, then NODE_ENV
+ */
+export function getMigrationEnvironment(source: Record<string, string | undefined> = process.env): string {
+  return source.MIGRATION_ENV || source.VERCEL_ENV || source.NODE_ENV || 'development';
+}
+
+/**
+ * WHAT: Reject a registry that would make history ambiguous
+ * WHY: Names are the identity of a run; "0003-…" after "0004-…" would apply out of order
+ */
+export function validateMigrations(migrations: Migration[]): void {
+  const seen = new Set<string>();
+  migrations.forEach((migration, index) => {
+    if (!MIGRATION_NAME_PATTERN.test(migration.name)) {
+      throw migrationError(`Migration name '${migration.name}' must look like 0001-short-description`, 500, 'INVALID_MIGRATION');
+    }
+    if (seen.has(migration.name)) {
+      throw migrationError(`Duplicate migration name '${migration.name}'`, 500, 'INVALID_MIGRATION');
+    }
+    if (index > 0 && migration.name <= migrations[index - 1].name) {
+      throw migrationError(`Migration '${migration.name}' is out of order`, 500, 'INVALID_MIGRATION');
+    }
+    seen.add(migration.name);
+  });
+}
+
+/**
+ * WHAT: State of every registered migration, from the runs of one environment
+ * @param runs - any order; only runs of `migrations` matter
+ */
+export function computeMigrationStatus(migrations: Migration[], runs: MigrationRunRecord[]): MigrationStatus[] {
+  const byName = new Map<string, MigrationRunRecord[]>();
+  for (const run of runs) {
+    const list = byName.get(run.scriptName) ?? [];
+    list.push(run);
+    byName.set(run.scriptName, list);
+  }
+
+  return migrations.map((migration) => {
+    const history = (byName.get(migration.name) ?? []).sort((a, b) => b.executedAt.localeCompare(a.executedAt));
+    const lastRun = history[0];
+    const lastSuccess = history.find((run) => run.status === 'success');
+    const applied = lastSuccess?.direction === 'up';
+
+    let state: MigrationState = applied ? 'applied' : 'pending';
+    if (lastRun?.status === 'failed') state = 'failed';
+    if (lastRun?.status === 'pending') state = 'running';
+
+    return {
+      name: migration.name,
+      description: migration.description,
+      reversible: typeof migration.down === 'function',
+      state,
+      ...(applied ? { appliedAt: lastSuccess.finishedAt ?? lastSuccess.executedAt } : {}),
+      ...(lastRun ? { lastRun } : {}),
+    };
+  });
+}
+
+export async function getMigrationStatus(
+  migrations: Migration[],
+  store: MigrationStore,
+  environment: string
+): Promise<MigrationStatus[]> {
+  validateMigrations(migrations);
+  return computeMigrationStatus(migrations, await store.listRuns(environment));
+}
+
+async function runStep(
+  migration: Migration,
+  direction: MigrationDirection,
+  options: MigrationRunOptions
+): Promise<MigrationStepResult> {
+  const logs: string[] = [];
+  const started = Date.now();
+  const ctx: MigrationContext = {
+    db: options.db,
+    dryRun: !!options.dryRun,
+    log: (message) => logs.push(`${new Date().toISOString()} ${message}`),
+  };
+  const runId = options.dryRun
+    ? null
+    : await options.store.startRun({
+        scriptName: migration.name,
+        direction,
+        environment: options.environment,
+        executedBy: options.executedBy,
+      });
+
+  let error: string | undefined;
+  try {
+    const fn = direction === 'up' ? migration.up : migration.down;
+    await fn!.call(migration, ctx);
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const result: MigrationStepResult = {
+    name: migration.name,
+    direction,
+    status: error ? 'failed' : 'success',
+    durationMs: Date.now() - started,
+    logs,
+    ...(error ? { error } : {}),
+  };
+  if (runId) {
+    await options.store.finishRun(runId, {
+      status: result.status,
+      logs,
+      durationMs: result.durationMs,
+      ...(error ? { errorMessage: error } : {}),
+    });
+  }
+  return result;
+}
+
+async function withLock<T>(options: MigrationRunOptions, work: () => Promise<T>): Promise<T> {
+  if (options.dryRun) return work();
+
+  const owner = `${options.executedBy}@${options.environment}#${Date.now()}`;
+  const lock = await options.store.acquireLock(owner, options.lockTtlMs ?? DEFAULT_LOCK_TTL_MS);
+  if (!lock.acquired) {
+    throw migrationError(
+      `Migrations are locked by ${lock.heldBy ?? 'another run'}${lock.since ? ` since ${lock.since}` : ''}`,
+      409,
+      'MIGRATION_LOCKED'
+    );
+  }
+  try {
+    return await work();
+  } finally {
+    await options.store.releaseLock(owner);
+  }
+}
+
+/**
+ * WHAT: Apply pending migrations in order, optionally only up to `to` (inclusive)
+ * @returns one result per migration attempted; stops after the first failure
+ */
+export async function applyMigrations(
+  migrations: Migration[],
+  options: MigrationRunOptions & { to?: string }
+): Promise<MigrationStepResult[]> {
+  validateMigrations(migrations);
+  if (options.to && !migrations.some((m) => m.name === options.to)) {
+    throw migrationError(`Unknown migration '${options.to}'`, 404, 'MIGRATION_NOT_FOUND');
+  }
+
+  return withLock(options, async () => {
+    const status = computeMigrationStatus(migrations, await options.store.listRuns(options.environment));
+    const results: MigrationStepResult[] = [];
+
+    for (const [index, migration] of migrations.entries()) {
+      // A failed `up` leaves no appliedAt and is retried; a failed `down` keeps it applied
+      if (status[index].appliedAt) {
+        if (migration.name === options.to) break;
+        continue;
+      }
+      const result = await runStep(migration, 'up', options);
+      results.push(result);
+      if (result.status === 'failed' || migration.name === options.to) break;
+    }
+    return results;
+  });
+}
+
+/**
+ * WHAT: Roll back the most recently applied migrations, newest first
+ * @param steps - how many applied migrations to undo (default 1)
+ * @param to - instead of steps: undo everything applied after this migration (it stays applied)
+ * NOTE: Refuses up front when any of them has no `down`, so a rollback never
+ *     stops halfway at an irreversible migration
+ */
+export async function rollbackMigrations(
+  migrations: Migration[],
+  options: MigrationRunOptions & { steps?: number; to?: string }
+): Promise<MigrationStepResult[]> {
+  validateMigrations(migrations);
+  const toIndex = options.to ? migrations.findIndex((m) => m.name === options.to) : -1;
+  if (options.to && toIndex === -1) {
+    throw migrationError(`Unknown migration '${options.to}'`, 404, 'MIGRATION_NOT_FOUND');
+  }
+  const steps = options.to ? Infinity : Math.max(1, Math.trunc(options.steps ?? 1));
+
+  return withLock(options, async () => {
+    const status = computeMigrationStatus(migrations, await options.store.listRuns(options.environment));
+    const targets = migrations
+      .filter((_, index) => status[index].appliedAt && index > toIndex)
+      .reverse()
+      .slice(0, steps);
+
+    const irreversible = targets.filter((m) => typeof m.down !== 'function');
+    if (irreversible.length > 0) {
+      throw migrationError(
+        `Cannot roll back: ${irreversible.map((m) => m.name).join(', ')} has no down migration`,
+        400,
+        'MIGRATION_IRREVERSIBLE'
+      );
+    }
+
+    const results: MigrationStepResult[] = [];
+    for (const migration of targets) {
+      const result = await runStep(migration, 'down', options);
+      results.push(result);
+      if (result.status === 'failed') break;
+    }
+    return results;
+  });
+}
@@ -0,0 +1,184 @@
+// lib/migrations/store.ts
+// WHAT: Where migration runs and the migration lock live
+// WHY: The runner (lib/migrations/runner.ts) only talks to a MigrationStore, so
+//     tests run it in memory while scripts and the admin page read and write
+//     MigrationHistory in MongoDB.
+// HOW: MongoMigrationStore writes one MigrationHistory document per run. The
+//     lock is a single `migration_locks` document claimed with an atomic upsert
+//     that only succeeds when no lock exists or the held one has expired — a
+//     runner that crashed mid-deploy blocks others for at most its TTL.
+
+import type { Db } from 'mongodb';
+import { getDb } from '../db';
+import connectV3 from '../mongoose-v3';
+import MigrationHistory from '../models/v3/MigrationHistory';
+import type { MigrationLockState, MigrationRunRecord, MigrationStore } from './runner';
+
+export const MIGRATION_LOCKS_COLLECTION = 'migration_locks';
+const LOCK_ID = 'migrations';
+
+// ==========================================
+// In-memory store
+// ==========================================
+
+export class MemoryMigrationStore implements MigrationStore {
+  readonly runs: MigrationRunRecord[] = [];
+  private lock: { owner: string; since: string; expiresAt: number } | null = null;
+  private sequence = 0;
+  private lastStartedAt = 0;
+
+  async acquireLock(owner: string, ttlMs: number): Promise<MigrationLockState> {
+    const now = Date.now();
+    if (this.lock && this.lock.expiresAt > now && this.lock.owner !== owner) {
+      return { acquired: false, heldBy: this.lock.owner, since: this.lock.since };
+    }
+    this.lock = { owner, since: new Date(now).toISOString(), expiresAt: now + ttlMs };
+    return { acquired: true, heldBy: owner, since: this.lock.since };
+  }
+
+  async releaseLock(owner: string): Promise<void> {
+    if (this.lock?.owner === owner) this.lock = null;
+  }
+
+  async startRun(run: Pick<MigrationRunRecord, 'scriptName' | 'direction' | 'environment' | 'executedBy'>): Promise<string> {
+    const id = String(++this.sequence);
+    // Strictly increasing, so runs started in the same millisecond still sort in order
+    this.lastStartedAt = Math.max(Date.now(), this.lastStartedAt + 1);
+    const executedAt = new Date(this.lastStartedAt).toISOString();
+    this.runs.push({ id, ...run, status: 'pending', executedAt, logs: [] });
+    return id;
+  }
+
+  async finishRun(id: string, result: Pick<MigrationRunRecord, 'status' | 'logs' | 'durationMs' | 'errorMessage'>): Promise<void> {
+    const run = this.runs.find((r) => r.id === id);
+    if (run) Object.assign(run, result, { finishedAt: new Date().toISOString() });
+  }
+
+  async listRuns(environment?: string): Promise<MigrationRunRecord[]> {
+    return this.runs.filter((r) => !environment || r.environment === environment).map((r) => ({ ...r }));
+  }
+
+  get locked(): boolean {
+    return !!this.lock && this.lock.expiresAt > Date.now();
+  }
+}
+
+// ==========================================
+// MongoDB store
+// ==========================================
+
+interface MigrationLockDoc {
+  _id: string;
+  owner: string;
+  acquiredAt: Date;
+  expiresAt: Date;
+}
+
+interface MigrationHistoryDoc {
+  _id: unknown;
+  scriptName: string;
+  direction?: 'up' | 'down';
+  environment?: string;
+  status: MigrationRunRecord['status'];
+  executedAt?: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+  executedBy?: string;
+  logs?: string[];
+  errorMessage?: string;
+}
+
+function toRunRecord(doc: MigrationHistoryDoc): MigrationRunRecord {
+  return {
+    id: String(doc._id),
+    scriptName: doc.scriptName,
+    // Documents written before the runner existed were single `up` runs
+    direction: doc.direction ?? 'up',
+    environment: doc.environment ?? 'unknown',
+    status: doc.status,
+    executedAt: (doc.executedAt ?? new Date(0)).toISOString(),
+    ...(doc.finishedAt ? { finishedAt: doc.finishedAt.toISOString() } : {}),
+    ...(doc.durationMs !== undefined ? { durationMs: doc.durationMs } : {}),
+    ...(doc.executedBy ? { executedBy: doc.executedBy } : {}),
+    logs: doc.logs ?? [],
+    ...(doc.errorMessage ? { errorMessage: doc.errorMessage } : {}),
+  };
+}
+
+export class MongoMigrationStore implements MigrationStore {
+  private historyReady: Promise<void> | null = null;
+
+  constructor(private readonly connect: () => Promise<Db> = getDb) {}
+
+  async acquireLock(owner: string, ttlMs: number): Promise<MigrationLockState> {
+    const db = await this.connect();
+    const locks = db.collection<MigrationLockDoc>(MIGRATION_LOCKS_COLLECTION);
+    const now = new Date();
+    try {
+      await locks.findOneAndUpdate(
+        { _id: LOCK_ID, expiresAt: { $lte: now } },
+        { $set: { owner, acquiredAt: now, expiresAt: new Date(now.getTime() + ttlMs) } },
+        { upsert: true }
+      );
+      return { acquired: true, heldBy: owner, since: now.toISOString() };
+    } catch (err) {
+      // WHAT: A live lock makes the filter miss, and the upsert then collides on _id
+      if ((err as { code?: number }).code !== 11000) throw err;
+      const held = await locks.findOne({ _id: LOCK_ID });
+      return { acquired: false, heldBy: held?.owner, since: held?.acquiredAt.toISOString() };
+    }
+  }
+
+  async releaseLock(owner: string): Promise<void> {
+    const db = await this.connect();
+    await db.collection<MigrationLockDoc>(MIGRATION_LOCKS_COLLECTION).deleteOne({ _id: LOCK_ID, owner });
+  }
+
+  async startRun(run: Pick<MigrationRunRecord, 'scriptName' | 'direction' | 'environment' | 'executedBy'>): Promise<string> {
+    await this.ready();
+    const doc = await MigrationHistory.create({ ...run, status: 'pending', executedAt: new Date(), logs: [] });
+    return String(doc._id);
+  }
+
+  async finishRun(id: string, result: Pick<MigrationRunRecord, 'status' | 'logs' | 'durationMs' | 'errorMessage'>): Promise<void> {
+    await this.ready();
+    await MigrationHistory.updateOne({ _id: id }, { $set: { ...result, finishedAt: new Date() } });
+  }
+
+  async listRuns(environment?: string): Promise<MigrationRunRecord[]> {
+    await this.ready();
+    const docs = await MigrationHistory.find(environment ? { environment } : {})
+      .sort({ executedAt: -1 })
+      .limit(5000)
+      .lean<MigrationHistoryDoc[]>();
+    return docs.map(toRunRecord);
+  }
+
+  /**
+   * WHAT: Connect Mongoose and drop the legacy unique index on scriptName
+   * WHY: MigrationHistory used to allow one document per script; the runner
+   *     records every apply and rollback, so a second run would hit E11000
+   */
+  private ready(): Promise<void> {
+    if (!this.historyReady) {
+      this.historyReady = (async () => {
+        await connectV3();
+        const indexes = await MigrationHistory.collection.indexes().catch(() => []);
+        const legacy = indexes.find((index: { name?: string; unique?: boolean }) => index.name === 'scriptName_1' && index.unique);
+        if (legacy) {
+          await MigrationHistory.collection.dropIndex('scriptName_1');
+          await MigrationHistory.syncIndexes();
+        }
+      })().catch((err) => {
+        this.historyReady = null;
+        throw err;
+      });
+    }
+    return this.historyReady;
+  }
+}
+
+export async function listMigrationEnvironments(store: MigrationStore): Promise<string[]> {
+  const runs = await store.listRuns();
+  return Array.from(new Set(runs.map((run) => run.environment))).sort();
+}
@@ -5,8 +5,16 @@ import { V3_COLLECTIONS } from '../../constants';
  * V3EntityRelationship Schema
  * Supports non-hierarchical, lateral associations between entities.
  * Examples: Sister organizations, service providers, or clients.
+ * relationType is what `to` is for `from` ({ from: P, to: C, 'client' } =
+ * "C is a client of P"); lib/v3/entityGraph.ts reads each link from both ends.
  */
 const RelationshipSchema = new mongoose.Schema({
+  organizationId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'V3Organization',
+    required: [true, 'organizationId is required'],
+    index: true,
+  },
   fromEntityId: { 
     type: mongoose.Schema.Types.ObjectId, 
     ref: 'V3Entity', 
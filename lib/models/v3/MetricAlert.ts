@@ -0,0 +1,78 @@
+import mongoose from 'mongoose';
+import { V3_COLLECTIONS } from '../../constants';
+
+/**
+ * V3MetricAlert Schema
+ * Alert history for V3MetricThreshold: one document per state change
+ * (triggered / recovered), with the value that caused it and whether
+ * the notifications went out.
+ */
+const MetricAlertSchema = new mongoose.Schema({
+  organizationId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'V3Organization',
+    required: [true, 'organizationId is required'],
+    index: true
+  },
+  thresholdId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'V3MetricThreshold',
+    required: [true, 'thresholdId is required'],
+    index: true
+  },
+  entityId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'V3Entity',
+    required: [true, 'entityId is required']
+  },
+  metricKey: {
+    type: String,
+    required: [true, 'metricKey is required']
+  },
+  kind: {
+    type: String,
+    enum: ['triggered', 'recovered'],
+    required: true
+  },
+  value: {
+    type: Number,
+    required: true
+  },
+  thresholdValue: {
+    type: Number,
+    required: true
+  },
+  comparison: {
+    type: String,
+    enum: ['gt', 'lt', 'gte', 'lte', 'eq'],
+    required: true
+  },
+  // Triggered inside the cooldown: recorded, but nobody was notified
+  suppressed: {
+    type: Boolean,
+    default: false
+  },
+  emailSent: {
+    type: Boolean,
+    default: false
+  },
+  emailError: {
+    type: String
+  },
+  notified: {
+    type: Boolean,
+    default: false
+  },
+  source: {
+    type: String,
+    enum: ['record', 'schedule'],
+    required: true
+  }
+}, {
+  timestamps: true,
+  collection: V3_COLLECTIONS.METRIC_ALERTS
+});
+
+MetricAlertSchema.index({ thresholdId: 1, createdAt: -1 });
+
+export default mongoose.models.V3MetricAlert || mongoose.model('V3MetricAlert', MetricAlertSchema);
@@ -16,7 +16,7 @@ const MetricDefinitionSchema = new mongoose.Schema({
     type: String, 
     required: [true, 'Metric key is required'],
     unique: true,
-    lowercase: true,
+    // Case-sensitive: migrated V2 stats keys are camelCase (e.g. 'remoteFans')
     trim: true,
   },
   type: { 
@@ -28,6 +28,19 @@ const MetricDefinitionSchema = new mongoose.Schema({
     type: String,
     default: '',
   },
+  // Ingestion range/shape checks (lib/v3/metricCatalog.ts); null = unbounded
+  min: {
+    type: Number,
+    default: null,
+  },
+  max: {
+    type: Number,
+    default: null,
+  },
+  integer: {
+    type: Boolean,
+    default: false,
+  },
   metadata: { 
     type: mongoose.Schema.Types.Mixed, 
     default: {} 
@@ -34,6 +34,46 @@ const MetricThresholdSchema = new mongoose.Schema({
   },
   alertEmail: {
     type: String
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  // Only values recorded in the last N days count towards the total (null = all time)
+  windowDays: {
+    type: Number,
+    min: 1,
+    default: null
+  },
+  // Minimum gap between two notifications for the same threshold
+  cooldownMinutes: {
+    type: Number,
+    min: 0,
+    default: 60
+  },
+  // A triggered threshold re-arms only once the value is back past the threshold by this margin
+  hysteresis: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  // Evaluator state (lib/v3/thresholdAlerts.ts) — not settable through the API
+  state: {
+    type: String,
+    enum: ['ok', 'triggered'],
+    default: 'ok'
+  },
+  lastValue: {
+    type: Number,
+    default: null
+  },
+  lastEvaluatedAt: {
+    type: Date,
+    default: null
+  },
+  lastNotifiedAt: {
+    type: Date,
+    default: null
   }
 }, {
   timestamps: true,
@@ -44,6 +44,11 @@ const MetricValueSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.Mixed, 
     default: {} 
   },
+  // Caller-supplied key; a retried ingestion batch with the same key is not counted twice
+  idempotencyKey: {
+    type: String,
+    default: undefined,
+  },
 }, { 
   timestamps: true, 
   collection: V3_COLLECTIONS.METRIC_VALUES 
@@ -62,5 +67,14 @@ MetricValueSchema.index({
   value: 1 
 });
 
+/**
+ * Idempotency Index
+ * One value per (organization, idempotencyKey); values without a key are not indexed.
+ */
+MetricValueSchema.index(
+  { organizationId: 1, idempotencyKey: 1 },
+  { unique: true, partialFilterExpression: { idempotencyKey: { $type: 'string' } } }
+);
+
 // Avoid model recompilation errors in development (Next.js hot reloading)
 export default mongoose.models.V3MetricValue || mongoose.model('V3MetricValue', MetricValueSchema);
@@ -3,15 +3,27 @@ import { V3_COLLECTIONS } from '../../constants';
 
 /**
  * MigrationHistory Schema
- * 
+ *
  * Provides an audit ledger for all executed database migrations,
  * preventing double execution and capturing robust execution logs.
+ * One document per run (apply or rollback) per environment, written by
+ * lib/migrations/runner.ts — a migration's state is its latest successful run.
  */
 const MigrationHistorySchema = new mongoose.Schema({
   scriptName: {
     type: String,
     required: [true, 'Migration script name is required'],
-    unique: true,
+    index: true
+  },
+  direction: {
+    type: String,
+    enum: ['up', 'down'],
+    required: true,
+    default: 'up'
+  },
+  environment: {
+    type: String,
+    required: true,
     index: true
   },
   status: {
@@ -24,6 +36,15 @@ const MigrationHistorySchema = new mongoose.Schema({
     type: Date,
     default: Date.now
   },
+  finishedAt: {
+    type: Date
+  },
+  durationMs: {
+    type: Number
+  },
+  executedBy: {
+    type: String
+  },
   logs: {
     type: [String],
     default: []
@@ -36,4 +57,6 @@ const MigrationHistorySchema = new mongoose.Schema({
   collection: V3_COLLECTIONS.MIGRATION_HISTORY || 'v3_migration_history'
 });
 
+MigrationHistorySchema.index({ environment: 1, scriptName: 1, executedAt: -1 });
+
 export default mongoose.models.MigrationHistory || mongoose.model('MigrationHistory', MigrationHistorySchema);
@@ -23,7 +23,10 @@ export type NotificationActivityType =
   | 'edit-stats'
   | 'api_stats_update'
   | 'webhook_disabled'
-  | 'webhook_failed';
+  | 'webhook_failed'
+  | 'metric_threshold_alert'
+  | 'bitly_link_health'
+  | 'fanmass_command_failed';
 
 export interface CreateNotificationParams {
   activityType: NotificationActivityType;
@@ -116,7 +119,11 @@ export async function createNotification(db: Db, params: CreateNotificationParam
       setOnInsert.modifiedFields = params.modifiedFields;
     }
     if (
-      (params.activityType === 'webhook_disabled' || params.activityType === 'webhook_failed') &&
+      (params.activityType === 'webhook_disabled' ||
+        params.activityType === 'webhook_failed' ||
+        params.activityType === 'metric_threshold_alert' ||
+        params.activityType === 'bitly_link_health' ||
+        params.activityType === 'fanmass_command_failed') &&
       params.metadata
     ) {
       setOnInsert.metadata = params.metadata;
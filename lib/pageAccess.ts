@@ -35,6 +35,9 @@ const MAX_GRANTS = 40;
 
 interface GrantPayload {
   grants: string[];
+  // Grants earned through a per-recipient share link, keyed by grant, valued by
+  // share link id (lib/shareLinks.ts). Checked again on every use.
+  shares?: Record<string, string>;
 }
 
 function grantKey(pageType: PageType | string, pageId: string): string {
@@ -52,31 +55,52 @@ function secret(): string {
   return s;
 }
 
-function readGrants(token: string | undefined): string[] {
-  if (!token) return [];
+function readPayload(token: string | undefined): GrantPayload {
+  if (!token) return { grants: [] };
   try {
     const decoded = jwt.verify(token, secret(), { algorithms: ['HS256'] }) as GrantPayload;
-    return Array.isArray(decoded.grants) ? decoded.grants.filter((g) => typeof g === 'string') : [];
+    const grants = Array.isArray(decoded.grants) ? decoded.grants.filter((g) => typeof g === 'string') : [];
+    const shares = decoded.shares && typeof decoded.shares === 'object' ? decoded.shares : undefined;
+    return { grants, shares };
   } catch {
     // Expired or tampered: treat as no grants rather than throwing, so a stale
     // cookie re-prompts for the password instead of erroring the page.
-    return [];
+    return { grants: [] };
   }
 }
 
 // WHAT: Add one unlocked page to a visitor's grant set and re-sign it.
 // WHY: A visitor legitimately unlocks several pages in a session; re-issuing a
 //     single cookie keeps that in one credential instead of one cookie per page.
-export function mintPageAccessToken(existing: string | undefined, pageType: PageType | string, pageId: string): string {
+// @param shareLinkId - set when the page was unlocked by a recipient link; a
+//     later password or admin unlock of the same page clears it
+export function mintPageAccessToken(
+  existing: string | undefined,
+  pageType: PageType | string,
+  pageId: string,
+  shareLinkId?: string
+): string {
   const key = grantKey(pageType, pageId);
-  const grants = readGrants(existing).filter((g) => g !== key);
-  grants.push(key);
-  return jwt.sign({ grants: grants.slice(-MAX_GRANTS) }, secret(), {
+  const payload = readPayload(existing);
+  const grants = [...payload.grants.filter((g) => g !== key), key].slice(-MAX_GRANTS);
+  const shares: Record<string, string> = {};
+  for (const [grant, id] of Object.entries(payload.shares ?? {})) {
+    if (grant !== key && grants.includes(grant)) shares[grant] = id;
+  }
+  if (shareLinkId) shares[key] = shareLinkId;
+  return jwt.sign(Object.keys(shares).length ? { grants, shares } : { grants }, secret(), {
     algorithm: 'HS256',
     expiresIn: GRANT_TTL_SECONDS,
   });
 }
 
+async function readPageGrant(pageType: PageType | string, pageId: string): Promise<{ granted: boolean; shareLinkId?: string }> {
+  const store = await cookies();
+  const payload = readPayload(store.get(PAGE_ACCESS_COOKIE)?.value);
+  const key = grantKey(pageType, pageId);
+  return { granted: payload.grants.includes(key), shareLinkId: payload.shares?.[key] };
+}
+
 export function pageAccessCookieOptions() {
   const isProduction = process.env.NODE_ENV === 'production';
   return {
@@ -90,10 +114,24 @@ export function pageAccessCookieOptions() {
 
 // WHAT: Does this request carry a grant for the given page?
 // WHY: The single question every protected route asks.
+// NOTE: A grant from a recipient link holds only while the link is neither
+//     revoked nor expired, and each check logs a view against the link.
 export async function hasPageAccess(pageType: PageType | string, pageId: string): Promise<boolean> {
-  const store = await cookies();
-  const token = store.get(PAGE_ACCESS_COOKIE)?.value;
-  return readGrants(token).includes(grantKey(pageType, pageId));
+  const grant = await readPageGrant(pageType, pageId);
+  if (!grant.granted) return false;
+  if (!grant.shareLinkId) return true;
+  const { checkShareGrant } = await import('./shareLinks');
+  return (await checkShareGrant(grant.shareLinkId, pageType, pageId, 'view')) === 'allowed';
+}
+
+// WHAT: May this visitor download the page (PDF, XLSX, PPTX, CSV)?
+// WHY: A recipient link can be view-only. Everyone else who can see a page may
+//     download it, as before.
+export async function canDownloadPage(pageType: PageType | string, pageId: string): Promise<boolean> {
+  const grant = await readPageGrant(pageType, pageId);
+  if (!grant.shareLinkId || (await getAdminUser())) return true;
+  const { shareGrantAllowsDownload } = await import('./shareLinks');
+  return shareGrantAllowsDownload(grant.shareLinkId);
 }
 
 // WHAT: Is this page protected at all?
@@ -122,16 +160,33 @@ export interface PageAccessDenial {
 // NOTE: Returns 401 rather than 403 so the client can prompt for the password —
 //     403 would read as "you may never see this", which is wrong for a page whose
 //     whole model is "enter the password and you may".
+// @param options.download - the request downloads the page; refused with 403
+//     for a recipient link without download permission
 export async function requirePageAccess(
   pageType: PageType | string,
-  pageId: string
+  pageId: string,
+  options: { download?: boolean } = {}
 ): Promise<NextResponse | null> {
   if (!(await isPageProtected(pageType, pageId))) return null;
-  if (await hasPageAccess(pageType, pageId)) return null;
+
+  const grant = await readPageGrant(pageType, pageId);
+  if (grant.granted && !grant.shareLinkId) return null;
 
   const admin = await getAdminUser();
   if (admin) return null;
 
+  if (grant.shareLinkId) {
+    const { checkShareGrant } = await import('./shareLinks');
+    const result = await checkShareGrant(grant.shareLinkId, pageType, pageId, options.download ? 'download' : 'view');
+    if (result === 'allowed') return null;
+    if (result === 'download_forbidden') {
+      return NextResponse.json(
+        { success: false, error: 'This link does not include downloads.', code: 'DOWNLOAD_NOT_ALLOWED' },
+        { status: 403 }
+      );
+    }
+  }
+
   return NextResponse.json(
     {
       success: false,
@@ -141,3 +196,35 @@ export async function requirePageAccess(
     { status: 401 }
   );
 }
+
+interface ShareAccessPayload {
+  share: string;
+}
+
+// WHAT: A self-expiring credential for one page, carried in a link (?access=).
+// WHY: Scheduled report emails go to recipients who were never given the page
+//     password, and mailing the password itself would make it permanent and
+//     forwardable. This token unlocks only the named page and only until it
+//     expires; redeeming it (PUT /api/page-passwords) mints the normal grant
+//     cookie, so every guard downstream is unchanged.
+export function mintShareAccessToken(pageType: PageType | string, pageId: string, ttlSeconds: number): string {
+  return jwt.sign({ share: grantKey(pageType, pageId) } satisfies ShareAccessPayload, secret(), {
+    algorithm: 'HS256',
+    expiresIn: ttlSeconds,
+  });
+}
+
+// WHAT: Does this share token unlock the given page?
+// WHY: The token names the page it was minted for, possibly a report variant
+//     ("slug::variant=x"). Gates check the base page id, so a variant token
+//     also unlocks its base page — the same page the link opens.
+export function verifyShareAccessToken(token: string, pageType: PageType | string, pageId: string): boolean {
+  try {
+    const decoded = jwt.verify(token, secret(), { algorithms: ['HS256'] }) as ShareAccessPayload;
+    if (typeof decoded.share !== 'string') return false;
+    return decoded.share === grantKey(pageType, pageId)
+      || decoded.share.split('::variant=')[0] === grantKey(pageType, pageId);
+  } catch {
+    return false;
+  }
+}
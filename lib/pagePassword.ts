@@ -5,6 +5,7 @@ import { randomBytes } from 'crypto';
 import clientPromise from '@/lib/mongodb';
 import config from '@/lib/config';
 import { resolvePartnerIdentifier } from './partnerIdentifier';
+import { mintShareAccessToken } from './pageAccess';
 
 /**
  * Page password types and interfaces for {messmass} authentication system
@@ -59,7 +60,7 @@ function mapPagePasswordDocument(pagePassword: any): PagePassword {
   };
 }
 
-async function resolveCanonicalPageId(db: any, pageId: string, pageType: PageType): Promise<string> {
+export async function resolveCanonicalPageId(db: any, pageId: string, pageType: PageType): Promise<string> {
   if (pageType !== 'partner-report' && pageType !== 'partner-edit') {
     return pageId;
   }
@@ -284,27 +285,17 @@ export async function validateAnyPassword(
 }
 
 /**
- * Generate shareable link with password for a page
- * 
- * @param pageId - Page identifier
- * @param pageType - Type of page
- * @param baseUrl - Base URL for the application
- * @returns Promise<ShareableLink>
+ * Build the public URL of a page (variant page ids become ?variant=).
  */
-export async function generateShareableLink(
-  pageId: string,
-  pageType: PageType,
-  baseUrl: string = ''
-): Promise<ShareableLink> {
-  const pagePassword = await getOrCreatePagePassword(pageId, pageType);
-  const { basePageId, variantSlug } = parseVariantPageId(pagePassword.pageId);
-  
+export function buildPageUrl(pageId: string, pageType: PageType, baseUrl: string): string {
+  const { basePageId, variantSlug } = parseVariantPageId(pageId);
+
   let url = baseUrl;
   switch (pageType) {
     case 'event-report':
       // WHAT: Project/event report pages at /report/[slug]
       // WHY: Public shareable event statistics pages
-      url += `/report/${pagePassword.pageId}`;
+      url += `/report/${pageId}`;
       break;
     case 'partner-report':
       // WHAT: Partner report pages at /partner-report/[slug]
@@ -355,14 +346,75 @@ export async function generateShareableLink(
       break;
   }
 
+  return url;
+}
+
+export interface ShareableLinkOptions {
+  // WHAT: Make the link itself the credential, valid for this many seconds.
+  // WHY: Automated senders (scheduled report emails) must not mint or reveal
+  //     the page password. With this set, no password is created: a protected
+  //     page gets a signed ?access= token (lib/pageAccess.ts), an unprotected
+  //     page gets its plain URL, and `password` is always empty.
+  expiresInSeconds?: number;
+}
+
+/**
+ * Generate shareable link with password for a page
+ * 
+ * @param pageId - Page identifier
+ * @param pageType - Type of page
+ * @param baseUrl - Base URL for the application
+ * @param options - Time-limited link instead of a password (see ShareableLinkOptions)
+ * @returns Promise<ShareableLink>
+ */
+export async function generateShareableLink(
+  pageId: string,
+  pageType: PageType,
+  baseUrl: string = '',
+  options: ShareableLinkOptions = {}
+): Promise<ShareableLink> {
+  if (options.expiresInSeconds) {
+    return generateTimeLimitedLink(pageId, pageType, baseUrl, options.expiresInSeconds);
+  }
+
+  const pagePassword = await getOrCreatePagePassword(pageId, pageType);
   return {
-    url,
+    url: buildPageUrl(pagePassword.pageId, pageType, baseUrl),
     password: pagePassword.password,
     pageType,
     expiresAt: pagePassword.expiresAt
   };
 }
 
+async function generateTimeLimitedLink(
+  pageId: string,
+  pageType: PageType,
+  baseUrl: string,
+  expiresInSeconds: number
+): Promise<ShareableLink> {
+  const client = await clientPromise;
+  const db = client.db(config.dbName);
+  const canonicalPageId = await resolveCanonicalPageId(db as any, pageId, pageType);
+  const { basePageId } = parseVariantPageId(canonicalPageId);
+  const isProtected = await db.collection('page_passwords').findOne(
+    { pageType, pageId: { $in: [canonicalPageId, basePageId] } },
+    { projection: { _id: 1 } }
+  );
+
+  let url = buildPageUrl(canonicalPageId, pageType, baseUrl);
+  if (isProtected) {
+    const token = mintShareAccessToken(pageType, canonicalPageId, expiresInSeconds);
+    url += `${url.includes('?') ? '&' : '?'}access=${encodeURIComponent(token)}`;
+  }
+
+  return {
+    url,
+    password: '',
+    pageType,
+    expiresAt: new Date(Date.now() + expiresInSeconds * 1000).toISOString()
+  };
+}
+
 /**
  * Clean up expired passwords
  * Should be called periodically to maintain database cleanliness
@@ -165,7 +165,8 @@ export interface Partner {
     lastSyncAt?: string;                 // ISO 8601 timestamp of last sync
     lastSyncStatus?: 'success' | 'error' | 'pending'; // Last sync result
     lastSyncError?: string;              // Error message if failed
-    syncMode: 'manual' | 'auto';         // Manual button vs daily cron
+    syncMode: 'manual' | 'auto' | 'bidirectional'; // Manual button vs daily cron (pull or two-way)
+    conflictPolicy?: 'sheet_wins' | 'messmass_wins' | 'newest_wins' | 'manual'; // Bidirectional only
     columnMap: Record<string, unknown>;  // Column letter -> field mapping
   };
   
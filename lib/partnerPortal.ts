@@ -0,0 +1,561 @@
+// lib/partnerPortal.ts
+// WHAT: Partner portal — partner contact accounts, magic-link and SSO sign-in,
+//     the portal session, the partner's own events, reports, Bitly performance
+//     and exports, and the audit of what each contact viewed
+// WHY: Partners saw reports through slug links and shared page passwords
+//     (lib/pagePassword.ts): one secret per page, handed around by email, with no
+//     record of who opened what. A portal account belongs to one person and one
+//     partner, and every view is logged.
+// HOW: A contact is invited by an admin (status "invited") and becomes "active"
+//     on first sign-in. Sign-in links carry a one-time token; only its SHA-256 is
+//     stored. The session is a signed HttpOnly cookie naming the contact and the
+//     partner, re-checked against the contact on every request so disabling a
+//     contact ends their access at once. Every read goes through
+//     getPortalContext(), which resolves the partner with findPartnerByIdentifier
+//     from the session — never from the request — so a contact cannot ask for
+//     another partner's data. Reports open through time-limited share links
+//     (generateShareableLink), so page-password protection stays in force.
+
+import { createHash, randomBytes } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { cookies } from 'next/headers';
+import { ObjectId, type Db } from 'mongodb';
+import { findPartnerByIdentifier } from './partnerIdentifier';
+import { listReportVariants, getReportVariantPageId } from './reportVariants';
+import { generateShareableLink } from './pagePassword';
+import { addDerivedMetrics } from './projectStatsUtils';
+import { csvCell } from './bitlyExport';
+
+export const PARTNER_CONTACTS_COLLECTION = 'partner_contacts';
+export const PORTAL_TOKENS_COLLECTION = 'partner_portal_tokens';
+export const PORTAL_ACCESS_LOG_COLLECTION = 'partner_portal_access_log';
+export const PORTAL_SESSION_COOKIE = 'partner-portal-session';
+
+const LOGIN_LINK_TTL_SECONDS = 30 * 60;
+const INVITE_LINK_TTL_SECONDS = 7 * 24 * 60 * 60;
+const SESSION_TTL_SECONDS = 7 * 24 * 60 * 60;
+// Long enough to read a report, short enough that a forwarded link goes stale
+const REPORT_LINK_TTL_SECONDS = 60 * 60;
+
+export type PartnerContactStatus = 'invited' | 'active' | 'disabled';
+
+export interface PartnerContact {
+  _id?: ObjectId;
+  partnerId: ObjectId;
+  email: string; // lowercased
+  name: string;
+  status: PartnerContactStatus;
+  ssoUserId?: string;
+  invitedAt: string;
+  invitedBy: string;
+  activatedAt?: string;
+  lastLoginAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PortalTokenPurpose = 'invite' | 'login';
+export type PortalLoginMethod = 'magic_link' | 'sso';
+
+export type PortalAccessAction = 'login' | 'view_overview' | 'open_event' | 'open_report' | 'export_events' | 'export_bitly';
+
+export interface PortalAccessEntry {
+  _id?: ObjectId;
+  contactId: ObjectId;
+  partnerId: ObjectId;
+  email: string;
+  action: PortalAccessAction;
+  target?: { type: 'event' | 'report'; id: string; label: string };
+  method?: PortalLoginMethod;
+  at: string;
+  ipAddress: string;
+  userAgent: string;
+}
+
+export interface PortalContext {
+  contact: PartnerContact & { _id: ObjectId };
+  partner: { _id: ObjectId; name: string; [key: string]: unknown };
+}
+
+export interface PortalEvent {
+  id: string;
+  name: string;
+  date: string | null;
+  totalFans: number;
+  allImages: number;
+  bitlyClicks: number;
+}
+
+export interface PortalReport {
+  slug: string;
+  name: string;
+  isDefault: boolean;
+  periodPreset: string;
+}
+
+export interface PortalBitlyLink {
+  id: string;
+  bitlink: string;
+  title: string;
+  longUrl: string;
+  totalClicks: number;
+  // Clicks credited to this partner's events (cachedMetrics), 0 for partner-level links
+  eventClicks: number;
+  events: number;
+  lastSyncAt: string | null;
+}
+
+export interface PortalOverview {
+  partner: { id: string; name: string; emoji?: string; logoUrl?: string };
+  contact: { name: string; email: string };
+  events: PortalEvent[];
+  reports: PortalReport[];
+  bitly: PortalBitlyLink[];
+}
+
+function fail(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function secret(): string {
+  const s = process.env.JWT_SECRET;
+  if (!s) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('JWT_SECRET is required to issue partner portal sessions');
+    }
+    return 'dev-secret-change-in-production';
+  }
+  return s;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function normalizeEmail(value: unknown): string {
+  return typeof value === 'string' ? value.trim().toLowerCase() : '';
+}
+
+function isEmail(value: string): boolean {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+}
+
+// Every project field that links an event to a partner
+function partnerEventQuery(partnerId: ObjectId): Record<string, unknown> {
+  return { $or: [{ partner1: partnerId }, { partner2: partnerId }, { partner1Id: partnerId }, { partner2Id: partnerId }] };
+}
+
+// ---------------------------------------------------------------------------
+// Contacts
+// ---------------------------------------------------------------------------
+
+/**
+ * WHAT: Add a contact to a partner, or re-invite an existing one
+ * NOTE: Re-inviting keeps an active contact active; a disabled contact is re-enabled as invited
+ * @throws Error with status 400 for an invalid email, 404 for an unknown partner
+ */
+export async function invitePartnerContact(
+  db: Db,
+  partnerId: string,
+  input: { email?: unknown; name?: unknown },
+  invitedBy: string
+): Promise<PartnerContact & { _id: ObjectId }> {
+  const email = normalizeEmail(input.email);
+  if (!isEmail(email)) throw fail('A valid email is required', 400);
+  const partner = await findPartnerByIdentifier(db, partnerId);
+  if (!partner) throw fail('Partner not found', 404);
+
+  const name = typeof input.name === 'string' && input.name.trim() ? input.name.trim() : email;
+  const contacts = db.collection<PartnerContact>(PARTNER_CONTACTS_COLLECTION);
+  const now = nowIso();
+  const existing = await contacts.findOne({ partnerId: partner._id, email });
+
+  if (existing) {
+    const status: PartnerContactStatus = existing.status === 'active' ? 'active' : 'invited';
+    await contacts.updateOne({ _id: existing._id }, { $set: { name, status, invitedAt: now, invitedBy, updatedAt: now } });
+    return { ...existing, name, status, invitedAt: now, invitedBy, updatedAt: now };
+  }
+
+  const contact: PartnerContact = {
+    partnerId: partner._id,
+    email,
+    name,
+    status: 'invited',
+    invitedAt: now,
+    invitedBy,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const result = await contacts.insertOne(contact);
+  return { ...contact, _id: result.insertedId };
+}
+
+export async function listPartnerContacts(db: Db, partnerId?: string): Promise<Array<PartnerContact & { _id: ObjectId }>> {
+  const filter = partnerId && ObjectId.isValid(partnerId) ? { partnerId: new ObjectId(partnerId) } : {};
+  return db
+    .collection<PartnerContact>(PARTNER_CONTACTS_COLLECTION)
+    .find(filter)
+    .sort({ email: 1 })
+    .toArray() as Promise<Array<PartnerContact & { _id: ObjectId }>>;
+}
+
+/**
+ * @throws Error with status 400 for an invalid id, 404 when there is no such contact
+ */
+export async function getPartnerContact(db: Db, contactId: string): Promise<PartnerContact & { _id: ObjectId }> {
+  if (!ObjectId.isValid(contactId)) throw fail('Invalid contact id', 400);
+  const contact = await db.collection<PartnerContact>(PARTNER_CONTACTS_COLLECTION).findOne({ _id: new ObjectId(contactId) });
+  if (!contact) throw fail('Contact not found', 404);
+  return contact as PartnerContact & { _id: ObjectId };
+}
+
+/**
+ * WHAT: Enable or disable a contact
+ * NOTE: Disabling ends open sessions too — getPortalContext re-reads the contact
+ */
+export async function setPartnerContactStatus(db: Db, contactId: string, enabled: boolean): Promise<PartnerContact & { _id: ObjectId }> {
+  const contact = await getPartnerContact(db, contactId);
+  const contacts = db.collection<PartnerContact>(PARTNER_CONTACTS_COLLECTION);
+  const status: PartnerContactStatus = !enabled ? 'disabled' : contact.activatedAt ? 'active' : 'invited';
+  const updatedAt = nowIso();
+  await contacts.updateOne({ _id: contact._id }, { $set: { status, updatedAt } });
+  if (!enabled) await db.collection(PORTAL_TOKENS_COLLECTION).deleteMany({ contactId: contact._id });
+  return { ...contact, status, updatedAt };
+}
+
+export async function deletePartnerContact(db: Db, contactId: string): Promise<void> {
+  if (!ObjectId.isValid(contactId)) throw fail('Invalid contact id', 400);
+  const _id = new ObjectId(contactId);
+  const result = await db.collection(PARTNER_CONTACTS_COLLECTION).deleteOne({ _id });
+  if (result.deletedCount === 0) throw fail('Contact not found', 404);
+  await db.collection(PORTAL_TOKENS_COLLECTION).deleteMany({ contactId: _id });
+}
+
+// ---------------------------------------------------------------------------
+// Sign-in
+// ---------------------------------------------------------------------------
+
+/**
+ * WHAT: One-time sign-in token for a contact; only its hash is stored
+ * @returns the raw token to put in the emailed link, and when it expires
+ */
+export async function issuePortalToken(
+  db: Db,
+  contact: Pick<PartnerContact, 'partnerId'> & { _id: ObjectId },
+  purpose: PortalTokenPurpose
+): Promise<{ token: string; expiresAt: string }> {
+  const token = randomBytes(32).toString('base64url');
+  const ttl = purpose === 'invite' ? INVITE_LINK_TTL_SECONDS : LOGIN_LINK_TTL_SECONDS;
+  const expiresAt = new Date(Date.now() + ttl * 1000).toISOString();
+  await db.collection(PORTAL_TOKENS_COLLECTION).insertOne({
+    tokenHash: hashToken(token),
+    contactId: contact._id,
+    partnerId: contact.partnerId,
+    purpose,
+    expiresAt,
+    usedAt: null,
+    createdAt: nowIso(),
+  });
+  return { token, expiresAt };
+}
+
+/**
+ * WHAT: Contacts who may receive a sign-in link for an email
+ * NOTE: One person can be a contact of several partners; each gets its own link
+ */
+export async function findContactsByEmail(db: Db, email: string): Promise<Array<PartnerContact & { _id: ObjectId }>> {
+  const normalized = normalizeEmail(email);
+  if (!isEmail(normalized)) return [];
+  return db
+    .collection<PartnerContact>(PARTNER_CONTACTS_COLLECTION)
+    .find({ email: normalized, status: { $ne: 'disabled' } })
+    .toArray() as Promise<Array<PartnerContact & { _id: ObjectId }>>;
+}
+
+async function activateContact(db: Db, contact: PartnerContact & { _id: ObjectId }, extra: Partial<PartnerContact> = {}) {
+  const now = nowIso();
+  const update: Partial<PartnerContact> = { status: 'active', lastLoginAt: now, updatedAt: now, ...extra };
+  if (!contact.activatedAt) update.activatedAt = now;
+  await db.collection<PartnerContact>(PARTNER_CONTACTS_COLLECTION).updateOne({ _id: contact._id }, { $set: update });
+  return { ...contact, ...update } as PartnerContact & { _id: ObjectId };
+}
+
+/**
+ * WHAT: Spend a sign-in token
+ * @returns the signed-in contact, or null when the token is unknown, used,
+ *     expired, or its contact was disabled or removed since
+ */
+export async function redeemPortalToken(db: Db, token: string): Promise<(PartnerContact & { _id: ObjectId }) | null> {
+  if (!token) return null;
+  const spent = await db.collection(PORTAL_TOKENS_COLLECTION).findOneAndUpdate(
+    { tokenHash: hashToken(token), usedAt: null, expiresAt: { $gt: nowIso() } },
+    { $set: { usedAt: nowIso() } }
+  );
+  if (!spent) return null;
+
+  const contact = (await db
+    .collection<PartnerContact>(PARTNER_CONTACTS_COLLECTION)
+    .findOne({ _id: spent.contactId })) as (PartnerContact & { _id: ObjectId }) | null;
+  if (!contact || contact.status === 'disabled') return null;
+  return activateContact(db, contact);
+}
+
+/**
+ * WHAT: Contact an SSO sign-in resolves to — by SSO id first, then by the verified email
+ * NOTE: With several partners for one person, the most recently used contact wins
+ */
+export async function signInContactWithSso(
+  db: Db,
+  ssoUser: { id: string; email?: string | null }
+): Promise<(PartnerContact & { _id: ObjectId }) | null> {
+  const email = normalizeEmail(ssoUser.email);
+  const or: Record<string, unknown>[] = [{ ssoUserId: ssoUser.id }];
+  if (isEmail(email)) or.push({ email });
+  const candidates = (await db
+    .collection<PartnerContact>(PARTNER_CONTACTS_COLLECTION)
+    .find({ $or: or, status: { $ne: 'disabled' } })
+    .sort({ lastLoginAt: -1 })
+    .toArray()) as Array<PartnerContact & { _id: ObjectId }>;
+  const contact = candidates.find((c) => c.ssoUserId === ssoUser.id) || candidates[0];
+  if (!contact) return null;
+  return activateContact(db, contact, { ssoUserId: ssoUser.id });
+}
+
+// ---------------------------------------------------------------------------
+// Session
+// ---------------------------------------------------------------------------
+
+interface PortalSessionPayload {
+  contactId: string;
+  partnerId: string;
+}
+
+export function mintPortalSessionToken(contact: { _id: ObjectId; partnerId: ObjectId }): string {
+  return jwt.sign(
+    { contactId: contact._id.toHexString(), partnerId: contact.partnerId.toHexString() } satisfies PortalSessionPayload,
+    secret(),
+    { algorithm: 'HS256', expiresIn: SESSION_TTL_SECONDS }
+  );
+}
+
+export function readPortalSessionToken(token: string | undefined): PortalSessionPayload | null {
+  if (!token) return null;
+  try {
+    const decoded = jwt.verify(token, secret(), { algorithms: ['HS256'] }) as PortalSessionPayload;
+    if (!ObjectId.isValid(decoded.contactId) || !ObjectId.isValid(decoded.partnerId)) return null;
+    return { contactId: decoded.contactId, partnerId: decoded.partnerId };
+  } catch {
+    return null;
+  }
+}
+
+export function portalSessionCookieOptions(maxAge = SESSION_TTL_SECONDS) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    maxAge,
+    path: '/' as const,
+  };
+}
+
+/**
+ * WHAT: The signed-in contact and their partner, or null
+ * WHY: The single scoping point of the portal — every portal route starts here
+ */
+export async function getPortalContext(db: Db): Promise<PortalContext | null> {
+  const store = await cookies();
+  const session = readPortalSessionToken(store.get(PORTAL_SESSION_COOKIE)?.value);
+  if (!session) return null;
+
+  const contact = (await db
+    .collection<PartnerContact>(PARTNER_CONTACTS_COLLECTION)
+    .findOne({ _id: new ObjectId(session.contactId) })) as (PartnerContact & { _id: ObjectId }) | null;
+  if (!contact || contact.status === 'disabled' || contact.partnerId.toHexString() !== session.partnerId) return null;
+
+  const partner = await findPartnerByIdentifier(db, session.partnerId);
+  if (!partner) return null;
+  return { contact, partner: partner as PortalContext['partner'] };
+}
+
+// ---------------------------------------------------------------------------
+// Audit
+// ---------------------------------------------------------------------------
+
+export async function recordPortalAccess(
+  db: Db,
+  context: Pick<PortalContext, 'contact'>,
+  action: PortalAccessAction,
+  request: { headers: { get(name: string): string | null } },
+  extra: Pick<PortalAccessEntry, 'target' | 'method'> = {}
+): Promise<void> {
+  const entry: PortalAccessEntry = {
+    contactId: context.contact._id,
+    partnerId: context.contact.partnerId,
+    email: context.contact.email,
+    action,
+    ...extra,
+    at: nowIso(),
+    ipAddress: request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() || request.headers.get('x-real-ip') || 'unknown',
+    userAgent: request.headers.get('user-agent') || 'unknown',
+  };
+  await db.collection<PortalAccessEntry>(PORTAL_ACCESS_LOG_COLLECTION).insertOne(entry);
+}
+
+export async function listPortalAccess(
+  db: Db,
+  params: { partnerId?: string; contactId?: string; limit?: number; offset?: number } = {}
+): Promise<{ entries: PortalAccessEntry[]; total: number }> {
+  const filter: Record<string, unknown> = {};
+  if (params.partnerId && ObjectId.isValid(params.partnerId)) filter.partnerId = new ObjectId(params.partnerId);
+  if (params.contactId && ObjectId.isValid(params.contactId)) filter.contactId = new ObjectId(params.contactId);
+  const limit = Math.min(Math.max(params.limit ?? 50, 1), 200);
+  const collection = db.collection<PortalAccessEntry>(PORTAL_ACCESS_LOG_COLLECTION);
+  const [entries, total] = await Promise.all([
+    collection.find(filter).sort({ at: -1 }).skip(Math.max(params.offset ?? 0, 0)).limit(limit).toArray(),
+    collection.countDocuments(filter),
+  ]);
+  return { entries, total };
+}
+
+// ---------------------------------------------------------------------------
+// Portal data
+// ---------------------------------------------------------------------------
+
+/**
+ * WHAT: Everything the portal landing page shows for one partner
+ */
+export async function getPortalOverview(db: Db, context: PortalContext): Promise<PortalOverview> {
+  const { partner, contact } = context;
+  const partnerId = partner._id;
+  const projects = await db
+    .collection('projects')
+    .find(partnerEventQuery(partnerId), { projection: { eventName: 1, eventDate: 1, stats: 1 } })
+    .sort({ eventDate: -1 })
+    .toArray();
+  const projectIds = projects.map((project) => project._id);
+
+  const junction = await db
+    .collection('bitly_project_links')
+    .find({ projectId: { $in: projectIds } }, { projection: { bitlyLinkId: 1, projectId: 1, 'cachedMetrics.clicks': 1 } })
+    .toArray();
+  const clicksByProject = new Map<string, number>();
+  const byLink = new Map<string, { clicks: number; events: number }>();
+  for (const row of junction) {
+    const clicks = Number(row.cachedMetrics?.clicks) || 0;
+    const projectKey = row.projectId.toString();
+    clicksByProject.set(projectKey, (clicksByProject.get(projectKey) ?? 0) + clicks);
+    const linkKey = row.bitlyLinkId.toString();
+    const current = byLink.get(linkKey) ?? { clicks: 0, events: 0 };
+    byLink.set(linkKey, { clicks: current.clicks + clicks, events: current.events + 1 });
+  }
+
+  const partnerLinkIds = ((partner.bitlyLinkIds as ObjectId[] | undefined) ?? []).map((id) => id.toString());
+  const linkIds = Array.from(new Set([...partnerLinkIds, ...byLink.keys()])).filter((id) => ObjectId.isValid(id));
+  const links = linkIds.length
+    ? await db
+        .collection('bitly_links')
+        .find(
+          { _id: { $in: linkIds.map((id) => new ObjectId(id)) }, archived: { $ne: true } },
+          { projection: { bitlink: 1, title: 1, long_url: 1, click_summary: 1, lastSyncAt: 1 } }
+        )
+        .toArray()
+    : [];
+
+  const { variants } = await listReportVariants(db, 'partner', partnerId.toString());
+
+  return {
+    partner: {
+      id: partnerId.toString(),
+      name: partner.name,
+      emoji: typeof partner.emoji === 'string' ? partner.emoji : undefined,
+      logoUrl: typeof partner.logoUrl === 'string' ? partner.logoUrl : undefined,
+    },
+    contact: { name: contact.name, email: contact.email },
+    events: projects.map((project) => {
+      const stats = addDerivedMetrics(project.stats || {});
+      return {
+        id: project._id.toString(),
+        name: project.eventName || 'Untitled event',
+        date: project.eventDate || null,
+        totalFans: stats.totalFans,
+        allImages: stats.allImages,
+        bitlyClicks: Math.round(clicksByProject.get(project._id.toString()) ?? 0),
+      };
+    }),
+    reports: variants
+      .filter((variant) => variant.status === 'published')
+      .map((variant) => ({ slug: variant.slug, name: variant.name, isDefault: variant.isDefault, periodPreset: variant.periodPreset })),
+    bitly: links
+      .map((link) => {
+        const stats = byLink.get(link._id.toString());
+        return {
+          id: link._id.toString(),
+          bitlink: link.bitlink,
+          title: link.title || link.bitlink,
+          longUrl: link.long_url,
+          totalClicks: Number(link.click_summary?.total) || 0,
+          eventClicks: Math.round(stats?.clicks ?? 0),
+          events: stats?.events ?? 0,
+          lastSyncAt: link.lastSyncAt || null,
+        };
+      })
+      .sort((a, b) => b.totalClicks - a.totalClicks),
+  };
+}
+
+/**
+ * WHAT: Time-limited URL of one of the partner's own reports
+ * @throws Error with status 404 when the event or report is not the partner's
+ */
+export async function resolvePortalReportLink(
+  db: Db,
+  context: PortalContext,
+  target: { type: 'event' | 'report'; id: string },
+  baseUrl: string
+): Promise<{ url: string; label: string }> {
+  const partnerId = context.partner._id;
+
+  if (target.type === 'event') {
+    if (!ObjectId.isValid(target.id)) throw fail('Event not found', 404);
+    const project = await db
+      .collection('projects')
+      .findOne({ _id: new ObjectId(target.id), ...partnerEventQuery(partnerId) }, { projection: { eventName: 1, viewSlug: 1 } });
+    if (!project) throw fail('Event not found', 404);
+    const link = await generateShareableLink(project.viewSlug || project._id.toString(), 'event-report', baseUrl, {
+      expiresInSeconds: REPORT_LINK_TTL_SECONDS,
+    });
+    return { url: link.url, label: project.eventName || project._id.toString() };
+  }
+
+  const { variants } = await listReportVariants(db, 'partner', partnerId.toString());
+  const variant = variants.find((v) => v.slug === target.id && v.status === 'published');
+  if (!variant) throw fail('Report not found', 404);
+  const pageId = getReportVariantPageId(partnerId.toString(), variant.isDefault ? null : variant.slug);
+  const link = await generateShareableLink(pageId, 'partner-report', baseUrl, { expiresInSeconds: REPORT_LINK_TTL_SECONDS });
+  return { url: link.url, label: variant.name };
+}
+
+export function portalEventsCsv(events: PortalEvent[]): string {
+  const lines = [['Event', 'Date', 'Total fans', 'Images', 'Bitly clicks'].map(csvCell).join(',')];
+  for (const event of events) {
+    lines.push([event.name, event.date?.slice(0, 10) ?? '', event.totalFans, event.allImages, event.bitlyClicks].map(csvCell).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+export function portalBitlyCsv(links: PortalBitlyLink[]): string {
+  const lines = [['Link', 'Title', 'Destination', 'Total clicks', 'Clicks credited to events', 'Events', 'Last synced'].map(csvCell).join(',')];
+  for (const link of links) {
+    lines.push(
+      [link.bitlink, link.title, link.longUrl, link.totalClicks, link.eventClicks, link.events, link.lastSyncAt?.slice(0, 10) ?? '']
+        .map(csvCell)
+        .join(',')
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
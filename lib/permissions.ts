@@ -4,6 +4,7 @@
 // HOW: Maps roles to accessible features, used by Sidebar and middleware
 
 import type { UserRole } from './users';
+import type { Capability } from './capabilities';
 
 /**
  * WHAT: Role hierarchy definition
@@ -27,6 +28,7 @@ export const MENU_PERMISSIONS: Record<string, UserRole[]> = {
   // WHAT: Operations
   'Partners': ['user', 'admin', 'superadmin'],
   'Partner Activation': ['admin', 'superadmin'],
+  'Partner Portal': ['admin', 'superadmin'],
   'Quick Add': ['admin', 'superadmin'],
   'Messages': ['admin', 'superadmin'],
 
@@ -41,6 +43,7 @@ export const MENU_PERMISSIONS: Record<string, UserRole[]> = {
   'Report Themes': ['admin', 'superadmin'],
   'Content Library': ['admin', 'superadmin'],
   'Chart Algorithms': ['admin', 'superadmin'],
+  'Share Links': ['admin', 'superadmin'],
 
   // WHAT: Data
   'KYC Variables': ['admin', 'superadmin'],
@@ -62,6 +65,7 @@ export const MENU_PERMISSIONS: Record<string, UserRole[]> = {
   'Sponsorship Hub': ['admin', 'superadmin'],
   'Executive Dashboard': ['admin', 'superadmin'],
   'Marketing Dashboard': ['admin', 'superadmin'],
+  'Campaign Analytics': ['admin', 'superadmin'],
   'Operations Dashboard': ['admin', 'superadmin'],
   'Insights': ['superadmin'],
   'Fanmass': ['admin', 'superadmin'],
@@ -70,16 +74,44 @@ export const MENU_PERMISSIONS: Record<string, UserRole[]> = {
   'Users': ['superadmin'],
   'Main Page': ['admin', 'superadmin'],
   'Cache': ['superadmin'],
+  'Rate Limits': ['superadmin'],
+  'Migrations': ['superadmin'],
   'Help': ['guest', 'user', 'admin', 'superadmin'],
 };
 
+/**
+ * WHAT: Capability that also opens a menu item
+ * WHY: A user bound to a role on one organization, partner or event (lib/capabilities.ts)
+ *      needs the matching entries even though their global role does not list them.
+ *      The page's API calls still check the capability on the specific resource.
+ */
+export const MENU_CAPABILITIES: Record<string, Capability> = {
+  'Partners': 'partner.view',
+  'Partner Portal': 'partner.edit',
+  'Events': 'event.view',
+  'Organizations': 'organization.manage',
+  'Reporting Workspace': 'report.view',
+  'Report Builder': 'report.edit',
+  'Chart Algorithms': 'chart.edit',
+  'Bitly Links': 'bitly.manage',
+  'Filters': 'filter.manage',
+  'Analytics Home': 'analytics.view',
+  'Campaign Analytics': 'analytics.view',
+  'Fanmass': 'fanmass.manage',
+  'Users': 'user.manage',
+};
+
 /**
  * WHAT: Check if user role can access a menu item
  * WHY: Reusable utility for sidebar filtering
  * NOTE: In SSO systems, 'admin' role is treated as highest privilege (equivalent to superadmin)
+ * @param capabilities - capabilities held in any scope (GET /api/admin/auth), see MENU_CAPABILITIES
  */
-export function canAccessMenuItem(userRole: UserRole | undefined, menuLabel: string): boolean {
+export function canAccessMenuItem(userRole: UserRole | undefined, menuLabel: string, capabilities: readonly string[] = []): boolean {
   if (!userRole) return false;
+
+  const capability = MENU_CAPABILITIES[menuLabel];
+  if (capability && capabilities.includes(capability)) return true;
   
   // WHAT: SSO systems use 'admin' as highest privilege (no superadmin)
   // WHY: Treat 'admin' role as equivalent to 'superadmin' for menu access
@@ -1,29 +1,33 @@
 // lib/rateLimit.ts
 // WHAT: Rate limiting middleware to prevent DDoS and brute-force attacks
-// WHY: Critical security control - limits requests per IP to prevent abuse
-// HOW: In-memory token bucket algorithm with sliding window tracking
+// WHY: Critical security control - limits requests per IP (or per API key) to prevent abuse
+// HOW: Fixed-window counters. Strict limits and API key quotas (`shared`) are
+//     counted in the shared store (lib/rateLimitStore.ts — MongoDB in
+//     production, so all server instances share one count); the generous
+//     per-IP limits middleware applies to every page and API request are
+//     counted in this instance's memory, without a database round trip.
 
 import { NextRequest, NextResponse } from 'next/server';
+import { getRateLimitStore, MemoryRateLimitStore, type RateLimitEntry, type RateLimitStore } from './rateLimitStore';
+import { getUserIdForRateLimit } from './apiAuth';
 
 // WHAT: Rate limit configuration per endpoint type
 // WHY: Different endpoints need different limits (auth vs. read-only)
-interface RateLimitConfig {
+export interface RateLimitConfig {
   windowMs: number;      // Time window in milliseconds
   maxRequests: number;   // Maximum requests allowed in window
   message?: string;      // Custom error message
+  shared?: boolean;      // Count across all instances (shared store), not per instance
 }
 
-// WHAT: Request tracking entry
-interface RequestEntry {
-  count: number;         // Number of requests in current window
-  resetTime: number;     // Timestamp when window resets (ms since epoch)
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: number;
+  retryAfter?: number;   // Seconds, when not allowed
 }
 
-// WHAT: In-memory store for rate limit tracking
-// WHY: Simple MVP solution, no external dependencies required
-// NOTE: For production scale (multiple servers), migrate to Redis
-const requestStore = new Map<string, RequestEntry>();
-
 // WHAT: Default rate limit configurations
 // WHY: Sensible defaults prevent most attacks while allowing normal usage
 export const RATE_LIMITS = {
@@ -32,6 +36,7 @@ export const RATE_LIMITS = {
     windowMs: 15 * 60 * 1000,  // 15 minutes
     maxRequests: 5,             // 5 attempts per 15min
     message: 'Too many login attempts. Please try again in 15 minutes.',
+    shared: true,
   },
   
   // Write operations (POST, PUT, DELETE) - moderate limits
@@ -60,26 +65,18 @@ export const RATE_LIMITS = {
     windowMs: 15 * 60 * 1000,   // 15 minutes
     maxRequests: 5,             // 5 submissions per 15 min per IP
     message: 'Too many contact form submissions. Please try again later.',
+    shared: true,
   },
-} as const;
 
-// WHAT: Clean up expired entries from memory store
-// WHY: Prevent memory leaks from abandoned IP addresses
-// HOW: Remove entries older than 24 hours
-function cleanupExpiredEntries(): void {
-  const now = Date.now();
-  const oneDayAgo = now - (24 * 60 * 60 * 1000);
-  
-  for (const [key, entry] of requestStore.entries()) {
-    if (entry.resetTime < oneDayAgo) {
-      requestStore.delete(key);
-    }
-  }
-}
-
-// WHAT: Run cleanup every hour
-// WHY: Keep memory usage bounded without impacting performance
-setInterval(cleanupExpiredEntries, 60 * 60 * 1000);
+  // Bearer API key requests - one quota per key across all endpoints and IPs
+  // NOTE: The default; users.apiRateLimitPerMinute overrides it per key
+  API_KEY: {
+    windowMs: 60 * 1000,        // 1 minute
+    maxRequests: 300,           // 300 requests per minute per key
+    message: 'API rate limit exceeded for this key. Please slow down.',
+    shared: true,
+  },
+} as const;
 
 // WHAT: Get client identifier for rate limiting
 // WHY: Track requests per IP address (or user session if authenticated)
@@ -105,69 +102,113 @@ export function getClientIdentifier(request: NextRequest): string {
   return host;
 }
 
+// WHAT: Counters for limits that are not `shared`
+const localStore = new MemoryRateLimitStore();
+
+// WHAT: Store that counts hits for `config`
+// WHY: A MongoDB round trip on every matched request is too slow for limits
+//     where a per-instance count is close enough. With no shared backend
+//     configured, the one memory store counts everything.
+function storeFor(config: RateLimitConfig): RateLimitStore {
+  const store = getRateLimitStore();
+  return config.shared || store instanceof MemoryRateLimitStore ? store : localStore;
+}
+
+// WHAT: Both stores, for the admin view (the local one only as seen by this instance)
+function allStores(): RateLimitStore[] {
+  const store = getRateLimitStore();
+  return store instanceof MemoryRateLimitStore ? [store] : [store, localStore];
+}
+
 // WHAT: Check if request exceeds rate limit
-// WHY: Core rate limiting logic with sliding window algorithm
-// HOW: Token bucket - refill tokens at reset time
-export function checkRateLimit(
+// WHY: Core rate limiting logic, shared by middleware and individual routes
+// HOW: Count the hit in the store; the request is allowed while the window's
+//     count stays within maxRequests
+export async function checkRateLimit(
   identifier: string,
   config: RateLimitConfig
-): {
-  allowed: boolean;
-  remaining: number;
-  resetTime: number;
-  retryAfter?: number;
-} {
+): Promise<RateLimitResult> {
   const now = Date.now();
-  const entry = requestStore.get(identifier);
-  
-  // WHAT: No previous requests - create new entry
-  if (!entry) {
-    requestStore.set(identifier, {
-      count: 1,
-      resetTime: now + config.windowMs,
-    });
-    
-    return {
-      allowed: true,
-      remaining: config.maxRequests - 1,
-      resetTime: now + config.windowMs,
-    };
+  const { count, resetTime } = await storeFor(config).hit(identifier, config.windowMs, config.maxRequests);
+  const allowed = count <= config.maxRequests;
+
+  return {
+    allowed,
+    limit: config.maxRequests,
+    remaining: Math.max(0, config.maxRequests - count),
+    resetTime,
+    retryAfter: allowed ? undefined : Math.max(1, Math.ceil((resetTime - now) / 1000)),
+  };
+}
+
+// WHAT: Rate limit response headers
+// WHY: Helps clients implement backoff. RateLimit-* follow the IETF
+//     RateLimit header fields draft (reset in seconds, policy as
+//     "<limit>;w=<window seconds>"); X-RateLimit-* are kept for existing clients.
+export function buildRateLimitHeaders(result: RateLimitResult, config: RateLimitConfig): Headers {
+  const resetSeconds = Math.max(0, Math.ceil((result.resetTime - Date.now()) / 1000));
+  const headers = new Headers({
+    'RateLimit-Limit': result.limit.toString(),
+    'RateLimit-Remaining': result.remaining.toString(),
+    'RateLimit-Reset': resetSeconds.toString(),
+    'RateLimit-Policy': `${config.maxRequests};w=${Math.round(config.windowMs / 1000)}`,
+    'X-RateLimit-Limit': result.limit.toString(),
+    'X-RateLimit-Remaining': result.remaining.toString(),
+    'X-RateLimit-Reset': new Date(result.resetTime).toISOString(),
+  });
+  if (result.retryAfter !== undefined) {
+    headers.set('Retry-After', result.retryAfter.toString());
   }
-  
-  // WHAT: Window expired - reset counter
-  if (now > entry.resetTime) {
-    entry.count = 1;
-    entry.resetTime = now + config.windowMs;
-    requestStore.set(identifier, entry);
-    
-    return {
-      allowed: true,
-      remaining: config.maxRequests - 1,
-      resetTime: entry.resetTime,
-    };
+  return headers;
+}
+
+// WHAT: Rate limit key and limits for a request
+// WHY: A Bearer API key gets one quota across every endpoint and IP
+//     (getUserIdForRateLimit resolves it to the key's user and that key's own
+//     per-minute limit, if set); everything else is counted per client IP and
+//     path, with the endpoint's own limits
+export async function resolveRateLimit(
+  request: NextRequest,
+  config: RateLimitConfig
+): Promise<{ key: string; config: RateLimitConfig }> {
+  const subject = await getUserIdForRateLimit(request);
+  if (subject.apiKey) {
+    const keyConfig = subject.rateLimitPerMinute
+      ? { ...RATE_LIMITS.API_KEY, maxRequests: subject.rateLimitPerMinute }
+      : RATE_LIMITS.API_KEY;
+    return { key: `${subject.id}:api`, config: keyConfig };
   }
-  
-  // WHAT: Within window - check if limit exceeded
-  if (entry.count >= config.maxRequests) {
-    const retryAfter = Math.ceil((entry.resetTime - now) / 1000);
-    
+  return { key: `${getClientIdentifier(request)}:${request.nextUrl.pathname}`, config };
+}
+
+// WHAT: Apply rate limiting to a request
+// WHY: middleware.ts needs the headers for allowed responses too, not only the 429
+// HOW: Returns the 429 response when the limit is exceeded (else null) and
+//     the RateLimit headers to attach to the response either way
+export async function applyRateLimit(
+  request: NextRequest,
+  config: RateLimitConfig
+): Promise<{ response: NextResponse | null; headers: Headers; limit: number }> {
+  const resolved = await resolveRateLimit(request, config);
+  const result = await checkRateLimit(resolved.key, resolved.config);
+  const headers = buildRateLimitHeaders(result, resolved.config);
+
+  if (!result.allowed) {
     return {
-      allowed: false,
-      remaining: 0,
-      resetTime: entry.resetTime,
-      retryAfter,
+      response: NextResponse.json(
+        {
+          error: resolved.config.message || 'Too many requests',
+          retryAfter: result.retryAfter,
+          resetTime: new Date(result.resetTime).toISOString(),
+        },
+        { status: 429, headers }
+      ),
+      headers,
+      limit: result.limit,
     };
   }
-  
-  // WHAT: Within limits - increment counter
-  entry.count += 1;
-  requestStore.set(identifier, entry);
-  
-  return {
-    allowed: true,
-    remaining: config.maxRequests - entry.count,
-    resetTime: entry.resetTime,
-  };
+
+  return { response: null, headers, limit: result.limit };
 }
 
 // WHAT: Rate limiting middleware for Next.js API routes
@@ -177,44 +218,8 @@ export async function rateLimitMiddleware(
   request: NextRequest,
   config: RateLimitConfig
 ): Promise<NextResponse | null> {
-  // WHAT: Get client identifier (IP address)
-  const identifier = getClientIdentifier(request);
-  
-  // WHAT: Generate rate limit key (identifier + route path)
-  // WHY: Different endpoints have different limits
-  const rateLimitKey = `${identifier}:${request.nextUrl.pathname}`;
-  
-  // WHAT: Check rate limit
-  const result = checkRateLimit(rateLimitKey, config);
-  
-  // WHAT: Add rate limit headers to response (informational)
-  // WHY: Helps clients implement exponential backoff
-  const headers = new Headers({
-    'X-RateLimit-Limit': config.maxRequests.toString(),
-    'X-RateLimit-Remaining': result.remaining.toString(),
-    'X-RateLimit-Reset': new Date(result.resetTime).toISOString(),
-  });
-  
-  // WHAT: If rate limit exceeded, return 429 Too Many Requests
-  if (!result.allowed) {
-    headers.set('Retry-After', result.retryAfter!.toString());
-    
-    return NextResponse.json(
-      {
-        error: config.message || 'Too many requests',
-        retryAfter: result.retryAfter,
-        resetTime: new Date(result.resetTime).toISOString(),
-      },
-      {
-        status: 429,
-        headers,
-      }
-    );
-  }
-  
-  // WHAT: Allowed - return null to continue to route handler
-  // NOTE: Headers should be added to actual response by caller
-  return null;
+  const { response } = await applyRateLimit(request, config);
+  return response;
 }
 
 // WHAT: Helper to determine rate limit config based on request
@@ -223,10 +228,12 @@ export function getRateLimitConfig(request: NextRequest): RateLimitConfig {
   const { pathname } = request.nextUrl;
   const method = request.method;
   
-  // WHAT: Authentication endpoints - strictest limits
-  // WHY: Prevent brute-force login attacks
-  // EXCEPTION: Logout (DELETE) uses normal write limits, not auth limits
-  if ((pathname.startsWith('/api/admin/login') || pathname.startsWith('/api/auth')) && method !== 'DELETE') {
+  // WHAT: Requests that submit credentials - strictest limits
+  // WHY: Prevent brute-force login attacks. Only the POSTs: session checks
+  //     (GET /api/auth/check) and SSO config run on every admin page load, and
+  //     AUTH is counted across all instances, so a shared office IP would be
+  //     locked out after five page loads. Logout (DELETE) uses write limits.
+  if (method === 'POST' && (pathname.startsWith('/api/admin/login') || pathname === '/api/portal/login')) {
     return RATE_LIMITS.AUTH;
   }
 
@@ -251,12 +258,28 @@ export function getRateLimitConfig(request: NextRequest): RateLimitConfig {
 
 // WHAT: Export memory store size for monitoring
 // WHY: Allows external monitoring of memory usage
+// NOTE: Only in-memory counters have a size; a shared MongoDB store adds none
 export function getRateLimitStoreSize(): number {
-  return requestStore.size;
+  const store = getRateLimitStore();
+  return store instanceof MemoryRateLimitStore ? store.size : localStore.size;
 }
 
 // WHAT: Manual cleanup for testing
 // WHY: Allows tests to reset state between runs
 export function clearRateLimitStore(): void {
-  requestStore.clear();
+  const store = getRateLimitStore();
+  if (store instanceof MemoryRateLimitStore) store.clear();
+  localStore.clear();
+}
+
+// WHAT: Clients currently over their limit, for the admin view
+export async function listThrottledClients(): Promise<RateLimitEntry[]> {
+  const lists = await Promise.all(allStores().map((store) => store.listThrottled()));
+  return lists.flat().sort((a, b) => b.lastHitAt - a.lastHitAt);
+}
+
+// WHAT: Lift a throttle before its window ends (admin unblock)
+export async function resetRateLimit(key: string): Promise<boolean> {
+  const results = await Promise.all(allStores().map((store) => store.reset(key)));
+  return results.some(Boolean);
 }
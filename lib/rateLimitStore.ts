@@ -0,0 +1,214 @@
+// lib/rateLimitStore.ts
+// WHAT: Where rate limit counters live. A store counts hits per key in fixed
+//     windows; lib/rateLimit.ts decides what a key is and what its limit is.
+// WHY: The in-process Map only limited each server instance on its own — on
+//     Vercel every instance had its own 5 AUTH attempts, so the login limit was
+//     never really 5 per 15 minutes. The MongoDB store shares one counter
+//     across all instances.
+// HOW: MongoRateLimitStore keeps one `rate_limits` document per key, bumped by
+//     a single atomic pipeline update that also restarts an expired window; a
+//     TTL index removes documents once their window has ended. RATE_LIMIT_STORE
+//     selects the store (`mongo` | `memory`); the default is mongo whenever
+//     MONGODB_URI is set. If MongoDB fails, that hit is counted in memory
+//     rather than failing the request.
+
+import type { Db } from 'mongodb';
+import { getDb } from './db';
+import { env } from './config';
+import { warn as logWarn } from './logger';
+
+export const RATE_LIMITS_COLLECTION = 'rate_limits';
+
+export interface RateLimitHit {
+  count: number;         // Hits in the current window, this one included
+  resetTime: number;     // When the window ends (ms since epoch)
+}
+
+export interface RateLimitEntry extends RateLimitHit {
+  key: string;
+  limit: number;
+  windowMs: number;
+  lastHitAt: number;
+}
+
+/**
+ * WHAT: Pluggable counter store
+ * WHY: The memory store serves tests and single-process dev; the MongoDB store
+ *     production. Anything with atomic increments (e.g. Redis) can implement it.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+  // Count one hit for `key`; starts a new window when the previous one ended
+  hit(key: string, windowMs: number, limit: number): Promise<RateLimitHit>;
+  // Keys over their limit in a window that has not ended yet
+  listThrottled(now?: number): Promise<RateLimitEntry[]>;
+  // Forget a key (admin unblock)
+  reset(key: string): Promise<boolean>;
+}
+
+// ==========================================
+// In-memory store
+// ==========================================
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private readonly entries = new Map<string, RateLimitEntry>();
+
+  async hit(key: string, windowMs: number, limit: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.prune(now);
+    const entry = this.entries.get(key);
+    if (!entry || now >= entry.resetTime) {
+      const fresh = { key, count: 1, resetTime: now + windowMs, limit, windowMs, lastHitAt: now };
+      this.entries.set(key, fresh);
+      return { count: fresh.count, resetTime: fresh.resetTime };
+    }
+    entry.count += 1;
+    entry.limit = limit;
+    entry.lastHitAt = now;
+    return { count: entry.count, resetTime: entry.resetTime };
+  }
+
+  async listThrottled(now = Date.now()): Promise<RateLimitEntry[]> {
+    return [...this.entries.values()]
+      .filter((entry) => entry.resetTime > now && entry.count > entry.limit)
+      .map((entry) => ({ ...entry }));
+  }
+
+  async reset(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  // WHAT: Drop ended windows once the map grows, instead of a timer
+  // WHY: Keeps memory bounded without a setInterval holding the process open
+  private prune(now: number): void {
+    if (this.entries.size < 10_000) return;
+    for (const [key, entry] of this.entries) {
+      if (entry.resetTime <= now) this.entries.delete(key);
+    }
+  }
+}
+
+// ==========================================
+// MongoDB store
+// ==========================================
+
+interface RateLimitDoc {
+  _id: string;
+  count: number;
+  resetAt: Date;         // TTL index: the document expires when its window ends
+  limit: number;
+  windowMs: number;
+  lastHitAt: Date;
+}
+
+export class MongoRateLimitStore implements RateLimitStore {
+  readonly name = 'mongo';
+  private indexesReady: Promise<void> | null = null;
+
+  constructor(
+    private readonly connect: () => Promise<Db> = getDb,
+    private readonly fallback: RateLimitStore = new MemoryRateLimitStore()
+  ) {}
+
+  async hit(key: string, windowMs: number, limit: number): Promise<RateLimitHit> {
+    try {
+      const db = await this.connect();
+      await this.ensureIndexes(db);
+      const now = new Date();
+      const expired = { $lte: [{ $ifNull: ['$resetAt', new Date(0)] }, now] };
+
+      // WHAT: One atomic round trip — every $set expression reads the stored
+      //     values, so an ended window restarts at 1 and a live one adds 1
+      const doc = await db.collection<RateLimitDoc>(RATE_LIMITS_COLLECTION).findOneAndUpdate(
+        { _id: key },
+        [
+          {
+            $set: {
+              count: { $cond: [expired, 1, { $add: ['$count', 1] }] },
+              resetAt: { $cond: [expired, new Date(now.getTime() + windowMs), '$resetAt'] },
+              limit,
+              windowMs,
+              lastHitAt: now,
+            },
+          },
+        ],
+        { upsert: true, returnDocument: 'after' }
+      );
+      if (!doc) throw new Error('Rate limit counter update returned no document');
+      return { count: doc.count, resetTime: doc.resetAt.getTime() };
+    } catch (err) {
+      logWarn('Rate limit store unavailable, counting in memory', { context: 'rate-limit', key }, err instanceof Error ? err : new Error(String(err)));
+      return this.fallback.hit(key, windowMs, limit);
+    }
+  }
+
+  async listThrottled(now = Date.now()): Promise<RateLimitEntry[]> {
+    const db = await this.connect();
+    const docs = await db
+      .collection<RateLimitDoc>(RATE_LIMITS_COLLECTION)
+      .find({ resetAt: { $gt: new Date(now) }, $expr: { $gt: ['$count', '$limit'] } })
+      .sort({ lastHitAt: -1 })
+      .limit(500)
+      .toArray();
+    return docs.map((doc) => ({
+      key: doc._id,
+      count: doc.count,
+      resetTime: doc.resetAt.getTime(),
+      limit: doc.limit,
+      windowMs: doc.windowMs,
+      lastHitAt: doc.lastHitAt.getTime(),
+    }));
+  }
+
+  async reset(key: string): Promise<boolean> {
+    const db = await this.connect();
+    const result = await db.collection<RateLimitDoc>(RATE_LIMITS_COLLECTION).deleteOne({ _id: key });
+    return result.deletedCount > 0;
+  }
+
+  private ensureIndexes(db: Db): Promise<void> {
+    if (!this.indexesReady) {
+      this.indexesReady = db
+        .collection(RATE_LIMITS_COLLECTION)
+        .createIndex({ resetAt: 1 }, { expireAfterSeconds: 0 })
+        .then(() => undefined)
+        .catch((err) => {
+          this.indexesReady = null;
+          throw err;
+        });
+    }
+    return this.indexesReady;
+  }
+}
+
+// ==========================================
+// Store selection
+// ==========================================
+
+let activeStore: RateLimitStore | null = null;
+
+function createDefaultStore(): RateLimitStore {
+  const configured = env.get('RATE_LIMIT_STORE');
+  if (configured === 'memory') return new MemoryRateLimitStore();
+  if (configured === 'mongo' || env.get('MONGODB_URI')) return new MongoRateLimitStore();
+  return new MemoryRateLimitStore();
+}
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!activeStore) activeStore = createDefaultStore();
+  return activeStore;
+}
+
+// WHAT: Replace the store (tests, or a different shared backend)
+export function setRateLimitStore(store: RateLimitStore | null): void {
+  activeStore = store;
+}
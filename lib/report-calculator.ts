@@ -67,6 +67,19 @@ export interface ChartResult {
   preset?: Chart['preset']; // Markdown rendering preset (v12.2.0, Issue #48)
   /** A-R-11: Structured error information with type and context */
   chartError?: ChartError;
+  /** Comparison mode: the KPI's value in the prior period (lib/reportComparison.ts) */
+  comparison?: KpiComparison;
+}
+
+/**
+ * WHAT: A KPI's prior-period value and the change since
+ * WHY: Report variants in comparison mode show growth next to each KPI
+ */
+export interface KpiComparison {
+  previousValue: number | string;
+  delta: number | null;        // current − previous; null unless both are numbers
+  deltaPercent: number | null; // null when previous is 0 or not a number
+  periodLabel: string;         // e.g. "Previous Year"
 }
 
 /**
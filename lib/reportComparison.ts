@@ -0,0 +1,106 @@
+// lib/reportComparison.ts
+// WHAT: Comparison mode for report variants — the same report calculated for
+//     the prior period, attached to each KPI as previous value and delta.
+// WHY: Partners and organizations want year-over-year (or period-over-period)
+//     growth on the report itself, not two reports side by side.
+// HOW: The report routes aggregate the events of resolveReportVariant's
+//     comparisonPeriod the same way as the current period and return them as
+//     `comparison`; the report views run the charts over both stat sets and
+//     call attachKpiComparisons. Only KPI charts carry a comparison.
+
+import { ReportCalculator, type Chart, type ChartResult, type KpiComparison } from './report-calculator';
+import type { ReportComparisonPreset, ResolvedReportPeriod } from './reportPeriods';
+import { REPORT_COMPARISON_PRESET_LABELS } from './reportPeriods';
+
+// WHAT: `comparison` block of the partner and organization report responses
+export interface ReportComparisonPayload {
+  preset: ReportComparisonPreset;
+  label: string;
+  period: ResolvedReportPeriod;
+  aggregatedStats: Record<string, number | string>;
+  totalEvents: number;
+}
+
+export function buildComparisonPayload(
+  preset: ReportComparisonPreset,
+  period: ResolvedReportPeriod,
+  aggregatedStats: Record<string, number | string>,
+  totalEvents: number
+): ReportComparisonPayload {
+  return {
+    preset,
+    label: REPORT_COMPARISON_PRESET_LABELS[preset],
+    period,
+    aggregatedStats,
+    totalEvents,
+  };
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && value !== 'NA') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+export function compareKpiValues(
+  current: number | string | undefined,
+  previous: number | string,
+  periodLabel: string
+): KpiComparison {
+  const currentNumber = toNumber(current);
+  const previousNumber = toNumber(previous);
+  const delta = currentNumber !== null && previousNumber !== null ? currentNumber - previousNumber : null;
+
+  return {
+    previousValue: previous,
+    delta,
+    deltaPercent: delta !== null && previousNumber ? (delta / Math.abs(previousNumber)) * 100 : null,
+    periodLabel,
+  };
+}
+
+/**
+ * WHAT: Current chart results with each KPI's prior-period value attached
+ * WHY: Returns a new map so memoised results of the current period are not mutated
+ */
+export function attachKpiComparisons(
+  current: Map<string, ChartResult>,
+  previous: Map<string, ChartResult>,
+  periodLabel: string
+): Map<string, ChartResult> {
+  const merged = new Map<string, ChartResult>();
+  current.forEach((result, chartId) => {
+    const prior = previous.get(chartId);
+    if (result.type !== 'kpi' || prior?.kpiValue === undefined || prior.kpiValue === null) {
+      merged.set(chartId, result);
+      return;
+    }
+    merged.set(chartId, { ...result, comparison: compareKpiValues(result.kpiValue, prior.kpiValue, periodLabel) });
+  });
+  return merged;
+}
+
+/**
+ * WHAT: Chart results for display, with KPI comparisons when the response has
+ *     a comparison block
+ * WHY: Shared by the partner and organization report views
+ */
+export function withComparisonResults(
+  charts: Chart[],
+  current: Map<string, ChartResult>,
+  comparison: ReportComparisonPayload | null | undefined
+): Map<string, ChartResult> {
+  if (!comparison || charts.length === 0) return current;
+
+  const calculator = new ReportCalculator(charts, comparison.aggregatedStats);
+  const previous = new Map<string, ChartResult>();
+  current.forEach((result, chartId) => {
+    if (result.type !== 'kpi') return;
+    const prior = calculator.calculateChart(chartId);
+    if (prior) previous.set(chartId, prior);
+  });
+  return attachKpiComparisons(current, previous, comparison.label);
+}
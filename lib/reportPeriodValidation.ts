@@ -1,4 +1,9 @@
-import type { ReportCustomDateRange, ReportPeriodPreset } from '@/lib/reportPeriods';
+import type {
+  ReportComparisonPreset,
+  ReportCustomDateRange,
+  ReportPeriodOptions,
+  ReportPeriodPreset,
+} from '@/lib/reportPeriods';
 
 export const REPORT_PERIOD_PRESETS: ReportPeriodPreset[] = [
   'all_time',
@@ -6,14 +11,26 @@ export const REPORT_PERIOD_PRESETS: ReportPeriodPreset[] = [
   'last_30_days',
   'this_year',
   'last_year',
+  'this_quarter',
+  'last_quarter',
+  'this_season',
+  'last_season',
+  'rolling_days',
   'custom',
 ];
 
+export const REPORT_COMPARISON_PRESETS: ReportComparisonPreset[] = ['previous_period', 'previous_year'];
+
+export const MAX_ROLLING_DAYS = 730;
+
 export type PeriodValidationErrorCode =
   | 'PERIOD_PRESET_INVALID'
   | 'CUSTOM_PERIOD_DATES_REQUIRED'
   | 'CUSTOM_PERIOD_DATE_FORMAT_INVALID'
-  | 'CUSTOM_PERIOD_RANGE_INVALID';
+  | 'CUSTOM_PERIOD_RANGE_INVALID'
+  | 'ROLLING_DAYS_INVALID'
+  | 'SEASON_START_MONTH_INVALID'
+  | 'COMPARISON_PRESET_INVALID';
 
 export class ReportPeriodValidationError extends Error {
   code: PeriodValidationErrorCode;
@@ -46,6 +63,9 @@ function fail(code: PeriodValidationErrorCode): never {
     CUSTOM_PERIOD_DATES_REQUIRED: 'Custom time period requires a start date and end date.',
     CUSTOM_PERIOD_DATE_FORMAT_INVALID: 'Custom time period dates must use YYYY-MM-DD format.',
     CUSTOM_PERIOD_RANGE_INVALID: 'Custom time period end date must be on or after start date.',
+    ROLLING_DAYS_INVALID: `Rolling period length must be a whole number of days between 1 and ${MAX_ROLLING_DAYS}.`,
+    SEASON_START_MONTH_INVALID: 'Season start month must be a month number from 1 to 12.',
+    COMPARISON_PRESET_INVALID: 'Selected comparison period is not supported.',
   };
 
   throw new ReportPeriodValidationError(code, messages[code]);
@@ -116,6 +136,45 @@ export function normalizeReportPeriodUpdate(
   });
 }
 
+// WHAT: Keep only the options the preset uses, validated
+// WHY: A variant switched from rolling_days to this_year should not carry a
+//     stale rollingDays around; missing options fall back to the defaults in
+//     lib/reportPeriods.ts at resolve time
+export function normalizeReportPeriodOptions(
+  periodPreset: ReportPeriodPreset,
+  options: unknown
+): ReportPeriodOptions {
+  const input = (options && typeof options === 'object' ? options : {}) as Record<string, unknown>;
+
+  if (periodPreset === 'rolling_days' && input.rollingDays !== undefined && input.rollingDays !== null) {
+    const rollingDays = Number(input.rollingDays);
+    if (!Number.isInteger(rollingDays) || rollingDays < 1 || rollingDays > MAX_ROLLING_DAYS) {
+      fail('ROLLING_DAYS_INVALID');
+    }
+    return { rollingDays };
+  }
+
+  if ((periodPreset === 'this_season' || periodPreset === 'last_season') &&
+    input.seasonStartMonth !== undefined && input.seasonStartMonth !== null) {
+    const seasonStartMonth = Number(input.seasonStartMonth);
+    if (!Number.isInteger(seasonStartMonth) || seasonStartMonth < 1 || seasonStartMonth > 12) {
+      fail('SEASON_START_MONTH_INVALID');
+    }
+    return { seasonStartMonth };
+  }
+
+  return {};
+}
+
+// WHAT: null/'' turns comparison mode off
+export function normalizeComparisonPreset(value: unknown): ReportComparisonPreset | null {
+  if (value === undefined || value === null || value === '' || value === 'none') return null;
+  if (!REPORT_COMPARISON_PRESETS.includes(value as ReportComparisonPreset)) {
+    fail('COMPARISON_PRESET_INVALID');
+  }
+  return value as ReportComparisonPreset;
+}
+
 export function validateCustomDateRangeForAudit(value: unknown): {
   valid: boolean;
   reason?: PeriodValidationErrorCode;
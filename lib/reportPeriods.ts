@@ -4,8 +4,47 @@ export type ReportPeriodPreset =
   | 'last_30_days'
   | 'this_year'
   | 'last_year'
+  | 'this_quarter'
+  | 'last_quarter'
+  | 'this_season'
+  | 'last_season'
+  | 'rolling_days'
   | 'custom';
 
+// WHAT: What a period is compared against
+//   previous_period — the equivalent period just before (last month to date
+//                     for this month, the prior 90 days for rolling 90 days)
+//   previous_year   — the same dates one year earlier (year-over-year)
+export type ReportComparisonPreset = 'previous_period' | 'previous_year';
+
+// WHAT: Settings for the presets that need one
+export interface ReportPeriodOptions {
+  rollingDays?: number;      // rolling_days: window length, today included
+  seasonStartMonth?: number; // this_season / last_season: 1 = January … 12 = December
+}
+
+export const DEFAULT_ROLLING_DAYS = 30;
+export const DEFAULT_SEASON_START_MONTH = 8; // Football seasons start in August
+
+export const REPORT_PERIOD_PRESET_LABELS: Record<ReportPeriodPreset, string> = {
+  all_time: 'All Time',
+  this_month: 'This Month',
+  last_30_days: 'Last 30 Days',
+  this_year: 'This Year',
+  last_year: 'Last Year',
+  this_quarter: 'This Quarter',
+  last_quarter: 'Last Quarter',
+  this_season: 'This Season',
+  last_season: 'Last Season',
+  rolling_days: 'Rolling N Days',
+  custom: 'Custom Time Period',
+};
+
+export const REPORT_COMPARISON_PRESET_LABELS: Record<ReportComparisonPreset, string> = {
+  previous_period: 'Previous Period',
+  previous_year: 'Previous Year',
+};
+
 export interface ReportCustomDateRange {
   startDate: string;
   endDate: string;
@@ -38,12 +77,74 @@ function endOfYear(date: Date): Date {
   return new Date(Date.UTC(date.getUTCFullYear(), 11, 31));
 }
 
+function startOfQuarter(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), Math.floor(date.getUTCMonth() / 3) * 3, 1));
+}
+
+// WHAT: First day of the season `date` falls in
+function startOfSeason(date: Date, seasonStartMonth: number): Date {
+  const startMonth = seasonStartMonth - 1;
+  const year = date.getUTCMonth() >= startMonth ? date.getUTCFullYear() : date.getUTCFullYear() - 1;
+  return new Date(Date.UTC(year, startMonth, 1));
+}
+
+function seasonLabel(seasonStart: Date, seasonStartMonth: number): string {
+  const year = seasonStart.getUTCFullYear();
+  return seasonStartMonth === 1 ? String(year) : `${year}/${String(year + 1).slice(-2)}`;
+}
+
+function addDays(date: Date, days: number): Date {
+  const next = new Date(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next;
+}
+
+function parseDateOnly(value: string): Date {
+  return new Date(`${value}T00:00:00.000Z`);
+}
+
+function lastDayOfMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// WHAT: Move a date by whole months, clamping to the target month's length
+// WHY: A period that ends on a month's last day must end on the last day of
+//     the target month too (Q2 ends Jun 30 → Q1 ends Mar 31, not Mar 30)
+function shiftMonths(date: Date, months: number): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+  const target = new Date(Date.UTC(year, month + months, 1));
+  const targetLastDay = lastDayOfMonth(target.getUTCFullYear(), target.getUTCMonth());
+  const isMonthEnd = day === lastDayOfMonth(year, month);
+  target.setUTCDate(isMonthEnd ? targetLastDay : Math.min(day, targetLastDay));
+  return target;
+}
+
+function rangePeriod(
+  periodPreset: ReportPeriodPreset,
+  timezone: string,
+  start: Date,
+  end: Date,
+  label: string
+): ResolvedReportPeriod {
+  return {
+    periodPreset,
+    customDateRange: null,
+    timezone,
+    startDate: formatDateOnly(start),
+    endDate: formatDateOnly(end),
+    label,
+  };
+}
+
 export function resolveReportPeriod(
   periodPreset: ReportPeriodPreset,
   customDateRange?: ReportCustomDateRange | null,
-  timezone = DEFAULT_TIMEZONE
+  timezone = DEFAULT_TIMEZONE,
+  options: ReportPeriodOptions = {},
+  now = new Date()
 ): ResolvedReportPeriod {
-  const now = new Date();
 
   if (periodPreset === 'all_time') {
     return {
@@ -104,6 +205,30 @@ export function resolveReportPeriod(
     };
   }
 
+  if (periodPreset === 'this_quarter') {
+    return rangePeriod(periodPreset, timezone, startOfQuarter(now), now, 'This Quarter');
+  }
+
+  if (periodPreset === 'last_quarter') {
+    const start = shiftMonths(startOfQuarter(now), -3);
+    return rangePeriod(periodPreset, timezone, start, addDays(startOfQuarter(now), -1), 'Last Quarter');
+  }
+
+  if (periodPreset === 'this_season' || periodPreset === 'last_season') {
+    const seasonStartMonth = options.seasonStartMonth || DEFAULT_SEASON_START_MONTH;
+    const currentStart = startOfSeason(now, seasonStartMonth);
+    if (periodPreset === 'this_season') {
+      return rangePeriod(periodPreset, timezone, currentStart, now, `Season ${seasonLabel(currentStart, seasonStartMonth)}`);
+    }
+    const lastStart = shiftMonths(currentStart, -12);
+    return rangePeriod(periodPreset, timezone, lastStart, addDays(currentStart, -1), `Season ${seasonLabel(lastStart, seasonStartMonth)}`);
+  }
+
+  if (periodPreset === 'rolling_days') {
+    const days = options.rollingDays || DEFAULT_ROLLING_DAYS;
+    return rangePeriod(periodPreset, timezone, addDays(now, -(days - 1)), now, `Last ${days} Days`);
+  }
+
   const normalizedRange = customDateRange && customDateRange.startDate && customDateRange.endDate
     ? customDateRange
     : null;
@@ -130,3 +255,57 @@ export function isEventDateInPeriod(
   if (period.endDate && normalizedDate > period.endDate) return false;
   return true;
 }
+
+// WHAT: Calendar presets step back by their own unit; everything else by its length
+const CALENDAR_PRESET_MONTHS: Partial<Record<ReportPeriodPreset, number>> = {
+  this_month: 1,
+  this_quarter: 3,
+  last_quarter: 3,
+  this_year: 12,
+  last_year: 12,
+  this_season: 12,
+  last_season: 12,
+};
+
+/**
+ * WHAT: The period a report period is compared against
+ * WHY: Comparison mode shows every KPI next to its prior-period value; the
+ *     prior window has to be "equivalent" — this month to date against last
+ *     month to the same day, a full quarter against the full quarter before.
+ * HOW: previous_year shifts both dates back 12 months. previous_period shifts
+ *     calendar presets back by their unit, and takes the same number of days
+ *     immediately before for rolling and custom ranges. All Time (no dates) has
+ *     nothing to compare against and returns null.
+ */
+export function resolveComparisonPeriod(
+  period: ResolvedReportPeriod,
+  comparisonPreset: ReportComparisonPreset | null | undefined
+): ResolvedReportPeriod | null {
+  if (!comparisonPreset || !period.startDate || !period.endDate) return null;
+
+  const start = parseDateOnly(period.startDate);
+  const end = parseDateOnly(period.endDate);
+  const months = comparisonPreset === 'previous_year' ? 12 : CALENDAR_PRESET_MONTHS[period.periodPreset];
+
+  let comparisonStart: Date;
+  let comparisonEnd: Date;
+  if (months) {
+    comparisonStart = shiftMonths(start, -months);
+    comparisonEnd = shiftMonths(end, -months);
+  } else {
+    const lengthDays = Math.round((end.getTime() - start.getTime()) / 86_400_000) + 1;
+    comparisonEnd = addDays(start, -1);
+    comparisonStart = addDays(comparisonEnd, -(lengthDays - 1));
+  }
+
+  const startDate = formatDateOnly(comparisonStart);
+  const endDate = formatDateOnly(comparisonEnd);
+  return {
+    periodPreset: 'custom',
+    customDateRange: { startDate, endDate },
+    timezone: period.timezone,
+    startDate,
+    endDate,
+    label: `${startDate} to ${endDate}`,
+  };
+}
@@ -1,6 +1,7 @@
 import { ObjectId } from 'mongodb';
 import type { Db } from 'mongodb';
 import type { Report } from '@/lib/report-resolver';
+import { resolveTemplateVersionContent, type ReportTemplateVersionContent } from '@/lib/reportTemplateVersions';
 
 type DataBlockReference = {
   blockId: ObjectId | string;
@@ -22,6 +23,7 @@ type ReportTemplateRecord = {
   };
   heroSettings?: Record<string, unknown>;
   alignmentSettings?: Record<string, unknown>;
+  publishedVersion?: number;
   createdBy?: string;
   createdAt?: string;
   updatedAt?: string;
@@ -42,15 +44,36 @@ export interface RuntimeReportResolution {
   report: Report | null;
   resolvedFrom: 'variant' | 'template' | 'legacy-report' | 'default';
   source: string;
+  // WHAT: Template version the report was built from; absent when the
+  //     template has never been published and renders its working copy.
+  templateVersion?: number;
 }
 
+type RuntimeBlock = Report['layout']['blocks'][number];
+
 function normalizeObjectId(value: ObjectId | string | undefined | null): ObjectId | null {
   if (!value) return null;
   if (value instanceof ObjectId) return value;
   return ObjectId.isValid(value) ? new ObjectId(value) : null;
 }
 
-async function convertTemplateToRuntimeReport(db: Db, template: ReportTemplateRecord): Promise<Report> {
+function runtimeBlocksFromVersion(content: ReportTemplateVersionContent): RuntimeBlock[] {
+  return content.blocks
+    .map((block) => ({
+      id: block.blockId,
+      title: block.name,
+      showTitle: block.showTitle !== false,
+      order: block.order,
+      charts: block.charts.map((chart, chartIndex) => ({
+        chartId: chart.chartId,
+        width: typeof chart.width === 'number' ? chart.width : 1,
+        order: typeof chart.order === 'number' ? chart.order : chartIndex,
+      })),
+    }))
+    .sort((a, b) => a.order - b.order);
+}
+
+async function runtimeBlocksFromDataBlocks(db: Db, template: ReportTemplateRecord): Promise<RuntimeBlock[]> {
   const dataBlocksCollection = db.collection<DataBlockRecord>('data_blocks');
   const dataBlockIds = (template.dataBlocks || [])
     .map((reference) => normalizeObjectId(reference.blockId))
@@ -60,7 +83,7 @@ async function convertTemplateToRuntimeReport(db: Db, template: ReportTemplateRe
     ? await dataBlocksCollection.find({ _id: { $in: dataBlockIds } }).toArray()
     : [];
 
-  const runtimeBlocks = (template.dataBlocks || [])
+  return (template.dataBlocks || [])
     .map((reference) => {
       const blockId = normalizeObjectId(reference.blockId);
       const block = blockId
@@ -83,8 +106,33 @@ async function convertTemplateToRuntimeReport(db: Db, template: ReportTemplateRe
     })
     .filter((value): value is NonNullable<typeof value> => Boolean(value))
     .sort((a, b) => a.order - b.order);
+}
 
-  return {
+// WHAT: Template → runtime report, from the pinned or published version when
+//     there is one (lib/reportTemplateVersions.ts), else from the working copy.
+async function convertTemplateToRuntimeReport(
+  db: Db,
+  record: ReportTemplateRecord,
+  templateVersion?: number | null
+): Promise<{ report: Report; version?: number }> {
+  const versioned = await resolveTemplateVersionContent(db, record, templateVersion);
+  const template: ReportTemplateRecord = versioned
+    ? {
+        ...record,
+        name: versioned.content.name,
+        description: versioned.content.description,
+        type: versioned.content.type,
+        styleId: versioned.content.styleId,
+        gridSettings: versioned.content.gridSettings,
+        heroSettings: versioned.content.heroSettings,
+        alignmentSettings: versioned.content.alignmentSettings,
+      }
+    : record;
+  const runtimeBlocks = versioned
+    ? runtimeBlocksFromVersion(versioned.content)
+    : await runtimeBlocksFromDataBlocks(db, record);
+
+  const report: Report = {
     _id: template._id.toString(),
     name: template.name,
     description: template.description,
@@ -117,12 +165,18 @@ async function convertTemplateToRuntimeReport(db: Db, template: ReportTemplateRe
     createdAt: template.createdAt || new Date().toISOString(),
     updatedAt: template.updatedAt || new Date().toISOString(),
   };
+  return { report, version: versioned?.version };
 }
 
+/**
+ * `templateVersion` pins a template to one of its versions (ReportVariant
+ * pinning); without it a template renders its published version.
+ */
 export async function resolveRuntimeReportById(
   db: Db,
   id: string | undefined | null,
-  defaultType: 'event' | 'partner' = 'partner'
+  defaultType: 'event' | 'partner' = 'partner',
+  templateVersion?: number | null
 ): Promise<RuntimeReportResolution> {
   const reportsCollection = db.collection('reports');
   const templatesCollection = db.collection<ReportTemplateRecord>('report_templates');
@@ -144,10 +198,12 @@ export async function resolveRuntimeReportById(
 
     const template = await templatesCollection.findOne({ _id: normalizedId });
     if (template) {
+      const { report, version } = await convertTemplateToRuntimeReport(db, template, templateVersion);
       return {
-        report: await convertTemplateToRuntimeReport(db, template),
+        report,
         resolvedFrom: 'template',
         source: template.name,
+        templateVersion: version,
       };
     }
   }
@@ -167,10 +223,12 @@ export async function resolveRuntimeReportById(
 
   const defaultTemplate = await templatesCollection.findOne({ isDefault: true });
   if (defaultTemplate) {
+    const { report, version } = await convertTemplateToRuntimeReport(db, defaultTemplate);
     return {
-      report: await convertTemplateToRuntimeReport(db, defaultTemplate),
+      report,
       resolvedFrom: 'default',
       source: defaultTemplate.name,
+      templateVersion: version,
     };
   }
 
@@ -0,0 +1,559 @@
+// lib/reportSchedules.ts
+// WHAT: Scheduled report delivery — schedules attached to a ReportVariant
+//     (weekly, monthly, or after each event) that render the variant to PDF
+//     and email it, with a time-limited link to the live report, to a list of
+//     recipients. Every send is recorded in `report_deliveries`.
+// WHY: Partners and organizations had to open /partner-report/[slug] or
+//     /organization-report/[id] themselves, and the only PDF export
+//     (lib/export/pdf.ts) needs a browser tab.
+// HOW: Schedules keep a precomputed `nextRunAt`; /api/cron/report-deliveries
+//     runs hourly and claims due schedules with an atomic findOneAndUpdate
+//     lease (same pattern as lib/webhooks.ts), so overlapping sweeps never
+//     send a report twice. Run times are wall-clock hours in the variant's
+//     timezone. After-event schedules check daily and send only when events
+//     finished since the last send (a `lastEventDate` cursor).
+
+import { Db } from 'mongodb';
+import { randomUUID } from 'crypto';
+import { getDb } from './db';
+import config, { clientConfig } from './config';
+import { resolveReportVariant, getReportVariantPageId } from './reportVariants';
+import { buildReportSnapshot, loadReportOwnerEvents } from './reportSnapshot';
+import { renderReportPdf } from './export/reportPdf';
+import { generateShareableLink, type PageType } from './pagePassword';
+import { sendScheduledReportEmail } from './emailNotifications';
+import { error as logError, info as logInfo } from './logger';
+
+export type ReportScheduleOwnerType = 'partner' | 'organization';
+export type ReportScheduleFrequency = 'weekly' | 'monthly' | 'after_event';
+export type ReportDeliveryTrigger = 'schedule' | 'event' | 'manual';
+export type ReportDeliveryStatus = 'sent' | 'partial' | 'failed';
+
+export const REPORT_SCHEDULE_FREQUENCIES: ReportScheduleFrequency[] = ['weekly', 'monthly', 'after_event'];
+
+/** Upper bound on recipients per schedule — this is a report list, not a mailing tool. */
+export const MAX_SCHEDULE_RECIPIENTS = 25;
+/** Share links in the email stay valid this long unless the schedule says otherwise. */
+export const DEFAULT_LINK_TTL_DAYS = 14;
+const MAX_LINK_TTL_DAYS = 90;
+
+export interface ReportSchedule {
+  scheduleId: string;
+  ownerType: ReportScheduleOwnerType;
+  ownerId: string;
+  variantSlug: string; // 'default' for the owner's default variant
+  frequency: ReportScheduleFrequency;
+  weekday: number; // 0 = Sunday … 6 = Saturday (weekly)
+  dayOfMonth: number; // 1–28 (monthly)
+  hour: number; // 0–23, wall clock in `timezone`
+  timezone: string;
+  recipients: string[];
+  linkTtlDays: number;
+  enabled: boolean;
+  nextRunAt: string;
+  lastRunAt?: string;
+  lastEventDate?: string; // after_event cursor: newest event already reported
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+}
+
+export interface ReportDeliveryRecipient {
+  email: string;
+  sent: boolean;
+  error?: string;
+}
+
+export interface ReportDelivery {
+  deliveryId: string;
+  scheduleId: string;
+  trigger: ReportDeliveryTrigger;
+  status: ReportDeliveryStatus;
+  recipients: ReportDeliveryRecipient[];
+  periodLabel?: string;
+  reportUrl?: string;
+  linkExpiresAt?: string;
+  pdfBytes?: number;
+  eventIds?: string[];
+  error?: string;
+  createdAt: string;
+}
+
+export interface ReportScheduleInput {
+  ownerType?: unknown;
+  ownerId?: unknown;
+  variantSlug?: unknown;
+  frequency?: unknown;
+  weekday?: unknown;
+  dayOfMonth?: unknown;
+  hour?: unknown;
+  recipients?: unknown;
+  linkTtlDays?: unknown;
+  enabled?: unknown;
+}
+
+const SCHEDULES = 'report_schedules';
+const DELIVERIES = 'report_deliveries';
+const CLAIM_LEASE_MS = 10 * 60_000; // rendering + mailing a report can take a while
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const PAGE_TYPES: Record<ReportScheduleOwnerType, PageType> = {
+  partner: 'partner-report',
+  organization: 'organization-report',
+};
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function scheduleError(message: string, status: number, code: string): Error {
+  return Object.assign(new Error(message), { status, code });
+}
+
+// ---------------------------------------------------------------------------
+// Timing
+// ---------------------------------------------------------------------------
+
+// WHAT: Wall-clock fields of `instant` in `timeZone`.
+function zonedParts(instant: Date, timeZone: string): { year: number; month: number; day: number; hour: number; minute: number; weekday: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday')),
+  };
+}
+
+// WHAT: The UTC instant at which `timeZone` shows year-month-day hour:00.
+// HOW: Guess with the offset at the naive UTC time, then correct once with the
+//     offset at the guess — enough for every DST rule in use.
+function zonedTimeToUtc(year: number, month: number, day: number, hour: number, timeZone: string): Date {
+  const naive = Date.UTC(year, month - 1, day, hour);
+  const offsetAt = (ms: number) => {
+    const p = zonedParts(new Date(ms), timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - Math.floor(ms / 60_000) * 60_000;
+  };
+  const guess = naive - offsetAt(naive);
+  return new Date(naive - offsetAt(guess));
+}
+
+// WHAT: Next run strictly after `after`.
+// WHY after_event runs daily: it only sends when a new event has finished,
+//     which can only be known by looking — the daily check is that look.
+export function computeNextRunAt(
+  schedule: Pick<ReportSchedule, 'frequency' | 'weekday' | 'dayOfMonth' | 'hour' | 'timezone'>,
+  after: Date = new Date()
+): Date {
+  const local = zonedParts(after, schedule.timezone);
+  // 62 days covers the longest gap between two monthly runs on days 1–28.
+  for (let offset = 0; offset <= 62; offset++) {
+    const day = new Date(Date.UTC(local.year, local.month - 1, local.day + offset));
+    const matches =
+      schedule.frequency === 'after_event' ||
+      (schedule.frequency === 'weekly' && day.getUTCDay() === schedule.weekday) ||
+      (schedule.frequency === 'monthly' && day.getUTCDate() === schedule.dayOfMonth);
+    if (!matches) continue;
+    const runAt = zonedTimeToUtc(day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), schedule.hour, schedule.timezone);
+    if (runAt.getTime() > after.getTime()) return runAt;
+  }
+  throw scheduleError('Could not compute the next run for this schedule.', 500, 'SCHEDULE_TIMING');
+}
+
+// WHAT: Calendar date (YYYY-MM-DD) of `instant` in `timeZone` — compared
+//     against event dates, which are stored date-only.
+export function localDate(instant: Date, timeZone: string): string {
+  const p = zonedParts(instant, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+// WHAT: Starting `lastEventDate` for an after_event schedule — the local day
+//     before `instant`, so an event dated on the day the schedule was set up
+//     is still reported once it has finished.
+export function initialEventCursor(instant: Date, timeZone: string): string {
+  const day = new Date(`${localDate(instant, timeZone)}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() - 1);
+  return day.toISOString().slice(0, 10);
+}
+
+// WHAT: Events dated after the cursor and before today (an event still in
+//     progress is reported once complete), plus the newest such date.
+export function selectNewlyFinishedEvents<T extends { _id?: unknown; eventDate?: string }>(
+  events: T[],
+  cursor: string,
+  today: string
+): { ids: string[]; newest: string | null } {
+  const finished = events.filter((event) => {
+    const date = (event.eventDate || '').slice(0, 10);
+    return date > cursor && date < today;
+  });
+  const newest = finished.reduce<string | null>((max, event) => {
+    const date = (event.eventDate || '').slice(0, 10);
+    return !max || date > max ? date : max;
+  }, null);
+  return { ids: finished.map((event) => String(event._id)), newest };
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+// @returns lower-cased, de-duplicated addresses, or an error message.
+export function normalizeRecipients(value: unknown): string[] | string {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,;\n]/) : null;
+  if (!list) return 'recipients must be a list of email addresses.';
+  const emails = Array.from(new Set(list.map((v) => String(v).trim().toLowerCase()).filter(Boolean)));
+  if (emails.length === 0) return 'At least one recipient is required.';
+  if (emails.length > MAX_SCHEDULE_RECIPIENTS) return `A schedule can have at most ${MAX_SCHEDULE_RECIPIENTS} recipients.`;
+  const invalid = emails.find((email) => !EMAIL_PATTERN.test(email));
+  return invalid ? `"${invalid}" is not a valid email address.` : emails;
+}
+
+function integerIn(value: unknown, min: number, max: number): number | null {
+  const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof n === 'number' && Number.isInteger(n) && n >= min && n <= max ? n : null;
+}
+
+// WHAT: Validate the editable fields present in `input`.
+// WHY partial: PATCH sends only what changed; POST passes `requireAll`.
+// @returns the normalized fields, or throws a 400 with a field-specific message.
+export function normalizeScheduleInput(input: ReportScheduleInput, requireAll = false): Partial<ReportSchedule> {
+  const out: Partial<ReportSchedule> = {};
+  const has = (key: keyof ReportScheduleInput) => requireAll || input[key] !== undefined;
+
+  if (has('ownerType')) {
+    if (input.ownerType !== 'partner' && input.ownerType !== 'organization') {
+      throw scheduleError('ownerType must be "partner" or "organization".', 400, 'INVALID_OWNER_TYPE');
+    }
+    out.ownerType = input.ownerType;
+  }
+  if (has('ownerId')) {
+    if (typeof input.ownerId !== 'string' || !input.ownerId.trim()) throw scheduleError('ownerId is required.', 400, 'INVALID_OWNER_ID');
+    out.ownerId = input.ownerId.trim();
+  }
+  if (requireAll || input.variantSlug !== undefined) {
+    out.variantSlug = typeof input.variantSlug === 'string' && input.variantSlug.trim() ? input.variantSlug.trim() : 'default';
+  }
+  if (has('frequency')) {
+    if (!REPORT_SCHEDULE_FREQUENCIES.includes(input.frequency as ReportScheduleFrequency)) {
+      throw scheduleError(`frequency must be one of: ${REPORT_SCHEDULE_FREQUENCIES.join(', ')}`, 400, 'INVALID_FREQUENCY');
+    }
+    out.frequency = input.frequency as ReportScheduleFrequency;
+  }
+  if (input.weekday !== undefined || (requireAll && out.frequency === 'weekly')) {
+    const weekday = integerIn(input.weekday, 0, 6);
+    if (weekday === null) throw scheduleError('weekday must be 0 (Sunday) to 6 (Saturday).', 400, 'INVALID_WEEKDAY');
+    out.weekday = weekday;
+  }
+  if (input.dayOfMonth !== undefined || (requireAll && out.frequency === 'monthly')) {
+    // 29–31 would silently skip short months, so they are not offered.
+    const dayOfMonth = integerIn(input.dayOfMonth, 1, 28);
+    if (dayOfMonth === null) throw scheduleError('dayOfMonth must be between 1 and 28.', 400, 'INVALID_DAY_OF_MONTH');
+    out.dayOfMonth = dayOfMonth;
+  }
+  if (input.hour !== undefined) {
+    const hour = integerIn(input.hour, 0, 23);
+    if (hour === null) throw scheduleError('hour must be between 0 and 23.', 400, 'INVALID_HOUR');
+    out.hour = hour;
+  }
+  if (has('recipients')) {
+    const recipients = normalizeRecipients(input.recipients);
+    if (typeof recipients === 'string') throw scheduleError(recipients, 400, 'INVALID_RECIPIENTS');
+    out.recipients = recipients;
+  }
+  if (input.linkTtlDays !== undefined) {
+    const linkTtlDays = integerIn(input.linkTtlDays, 1, MAX_LINK_TTL_DAYS);
+    if (linkTtlDays === null) throw scheduleError(`linkTtlDays must be between 1 and ${MAX_LINK_TTL_DAYS}.`, 400, 'INVALID_LINK_TTL');
+    out.linkTtlDays = linkTtlDays;
+  }
+  if (input.enabled !== undefined) {
+    if (typeof input.enabled !== 'boolean') throw scheduleError('enabled must be a boolean.', 400, 'INVALID_ENABLED');
+    out.enabled = input.enabled;
+  }
+  return out;
+}
+
+function toSchedule(doc: any): ReportSchedule {
+  return {
+    scheduleId: String(doc.scheduleId),
+    ownerType: doc.ownerType,
+    ownerId: String(doc.ownerId),
+    variantSlug: doc.variantSlug || 'default',
+    frequency: doc.frequency,
+    weekday: Number(doc.weekday) || 0,
+    dayOfMonth: Number(doc.dayOfMonth) || 1,
+    hour: Number(doc.hour) || 0,
+    timezone: doc.timezone,
+    recipients: Array.isArray(doc.recipients) ? doc.recipients : [],
+    linkTtlDays: Number(doc.linkTtlDays) || DEFAULT_LINK_TTL_DAYS,
+    enabled: doc.enabled === true,
+    nextRunAt: doc.nextRunAt,
+    lastRunAt: doc.lastRunAt ?? undefined,
+    lastEventDate: doc.lastEventDate ?? undefined,
+    createdAt: doc.createdAt,
+    createdBy: String(doc.createdBy || ''),
+    updatedAt: doc.updatedAt,
+  };
+}
+
+function toDelivery(doc: any): ReportDelivery {
+  const { _id, ...rest } = doc;
+  void _id;
+  return rest as ReportDelivery;
+}
+
+async function ensureScheduleIndexes(db: Db): Promise<void> {
+  await db.collection(SCHEDULES).createIndex({ scheduleId: 1 }, { unique: true });
+  await db.collection(SCHEDULES).createIndex({ enabled: 1, nextRunAt: 1 });
+  await db.collection(SCHEDULES).createIndex({ ownerType: 1, ownerId: 1 });
+  await db.collection(DELIVERIES).createIndex({ scheduleId: 1, createdAt: -1 });
+}
+
+// ---------------------------------------------------------------------------
+// Schedule registry (admin API: app/api/admin/report-schedules)
+// ---------------------------------------------------------------------------
+
+export async function createReportSchedule(input: ReportScheduleInput, createdBy: string): Promise<ReportSchedule> {
+  const fields = normalizeScheduleInput(input, true);
+  const db = await getDb();
+
+  // WHAT: Resolving the variant both proves it exists and fixes the timezone
+  //     the schedule's hour is read in.
+  const resolved = await resolveReportVariant(db, fields.ownerType!, fields.ownerId!, fields.variantSlug === 'default' ? null : fields.variantSlug);
+  if (fields.variantSlug !== 'default' && resolved.variant.slug !== fields.variantSlug) {
+    throw scheduleError('Report variant was not found.', 404, 'VARIANT_NOT_FOUND');
+  }
+
+  await ensureScheduleIndexes(db);
+  const now = new Date();
+  const schedule: ReportSchedule = {
+    scheduleId: randomUUID(),
+    ownerType: fields.ownerType!,
+    ownerId: fields.ownerId!,
+    variantSlug: fields.variantSlug!,
+    frequency: fields.frequency!,
+    weekday: fields.weekday ?? 1,
+    dayOfMonth: fields.dayOfMonth ?? 1,
+    hour: fields.hour ?? 8,
+    timezone: resolved.variant.timezone,
+    recipients: fields.recipients!,
+    linkTtlDays: fields.linkTtlDays ?? DEFAULT_LINK_TTL_DAYS,
+    enabled: fields.enabled ?? true,
+    nextRunAt: '',
+    createdAt: now.toISOString(),
+    createdBy,
+    updatedAt: now.toISOString(),
+  };
+  schedule.nextRunAt = computeNextRunAt(schedule, now).toISOString();
+  // Events that finished before the schedule existed are not "new".
+  if (schedule.frequency === 'after_event') schedule.lastEventDate = initialEventCursor(now, schedule.timezone);
+
+  await db.collection(SCHEDULES).insertOne({ ...schedule });
+  return schedule;
+}
+
+export async function listReportSchedules(filter: { ownerType?: string; ownerId?: string } = {}): Promise<ReportSchedule[]> {
+  const db = await getDb();
+  const query: Record<string, string> = {};
+  if (filter.ownerType) query.ownerType = filter.ownerType;
+  if (filter.ownerId) query.ownerId = filter.ownerId;
+  const docs = await db.collection(SCHEDULES).find(query).sort({ createdAt: -1 }).toArray();
+  return docs.map(toSchedule);
+}
+
+export async function getReportSchedule(scheduleId: string): Promise<ReportSchedule | null> {
+  const db = await getDb();
+  const doc = await db.collection(SCHEDULES).findOne({ scheduleId });
+  return doc ? toSchedule(doc) : null;
+}
+
+// WHAT: Edit timing, recipients, link lifetime or enabled.
+// WHY owner and variant are fixed: a schedule moved to another report would
+//     carry a delivery history that no longer describes it — create a new one.
+export async function updateReportSchedule(scheduleId: string, input: ReportScheduleInput): Promise<ReportSchedule> {
+  if (input.ownerType !== undefined || input.ownerId !== undefined || input.variantSlug !== undefined) {
+    throw scheduleError('ownerType, ownerId and variantSlug cannot be changed; create a new schedule instead.', 400, 'IMMUTABLE_FIELD');
+  }
+  const changes = normalizeScheduleInput(input);
+  const existing = await getReportSchedule(scheduleId);
+  if (!existing) throw scheduleError('Report schedule was not found.', 404, 'SCHEDULE_NOT_FOUND');
+
+  const merged = { ...existing, ...changes };
+  const set: Record<string, unknown> = { ...changes, updatedAt: nowIso() };
+  // Timing changes and re-enabling both restart the clock from now.
+  if (['frequency', 'weekday', 'dayOfMonth', 'hour', 'enabled'].some((key) => key in changes)) {
+    set.nextRunAt = computeNextRunAt(merged).toISOString();
+  }
+  if (changes.frequency === 'after_event' && existing.frequency !== 'after_event') {
+    set.lastEventDate = initialEventCursor(new Date(), existing.timezone);
+  }
+
+  const db = await getDb();
+  const doc = await db.collection(SCHEDULES).findOneAndUpdate({ scheduleId }, { $set: set }, { returnDocument: 'after' });
+  if (!doc) throw scheduleError('Report schedule was not found.', 404, 'SCHEDULE_NOT_FOUND');
+  return toSchedule(doc);
+}
+
+// WHAT: Remove a schedule. Its delivery records stay as the send history.
+export async function deleteReportSchedule(scheduleId: string): Promise<void> {
+  const db = await getDb();
+  const result = await db.collection(SCHEDULES).deleteOne({ scheduleId });
+  if (result.deletedCount === 0) throw scheduleError('Report schedule was not found.', 404, 'SCHEDULE_NOT_FOUND');
+}
+
+export async function listReportDeliveries(scheduleId: string, limit = 50): Promise<ReportDelivery[]> {
+  const db = await getDb();
+  const docs = await db
+    .collection(DELIVERIES)
+    .find({ scheduleId })
+    .sort({ createdAt: -1 })
+    .limit(Math.min(Math.max(limit, 1), 200))
+    .toArray();
+  return docs.map(toDelivery);
+}
+
+// ---------------------------------------------------------------------------
+// Delivery
+// ---------------------------------------------------------------------------
+
+// WHAT: Render the schedule's variant, email it to every recipient and record
+//     the outcome. Never throws — a failed render is recorded as a failed
+//     delivery so the history shows it.
+export async function deliverReportSchedule(
+  schedule: ReportSchedule,
+  trigger: ReportDeliveryTrigger,
+  eventIds: string[] = []
+): Promise<ReportDelivery> {
+  const db = await getDb();
+  const delivery: ReportDelivery = {
+    deliveryId: randomUUID(),
+    scheduleId: schedule.scheduleId,
+    trigger,
+    status: 'failed',
+    recipients: [],
+    ...(eventIds.length > 0 ? { eventIds } : {}),
+    createdAt: nowIso(),
+  };
+
+  try {
+    const snapshot = await buildReportSnapshot(db, schedule.ownerType, schedule.ownerId, schedule.variantSlug);
+    const pdf = renderReportPdf(snapshot);
+    // WHAT: Time-limited link — never the page password (see generateShareableLink).
+    const link = await generateShareableLink(
+      getReportVariantPageId(schedule.ownerId, schedule.variantSlug),
+      PAGE_TYPES[schedule.ownerType],
+      config.appBaseUrl || clientConfig().appUrl || '',
+      { expiresInSeconds: schedule.linkTtlDays * 86400 }
+    );
+
+    const reportName = snapshot.variantName && snapshot.variantName !== snapshot.ownerName
+      ? `${snapshot.ownerName} — ${snapshot.variantName}`
+      : snapshot.ownerName;
+    const filename = `${reportName.replace(/[^\w-]+/g, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'report'}-${localDate(new Date(), schedule.timezone)}.pdf`;
+
+    for (const email of schedule.recipients) {
+      const result = await sendScheduledReportEmail({
+        to: email,
+        reportName,
+        periodLabel: snapshot.periodLabel,
+        reportUrl: link.url,
+        linkExpiresAt: link.expiresAt,
+        pdf: { filename, content: pdf },
+      });
+      delivery.recipients.push({ email, sent: result.sent, ...(result.error ? { error: result.error } : {}) });
+    }
+
+    const sentCount = delivery.recipients.filter((r) => r.sent).length;
+    delivery.status = sentCount === delivery.recipients.length ? 'sent' : sentCount > 0 ? 'partial' : 'failed';
+    delivery.periodLabel = snapshot.periodLabel;
+    delivery.reportUrl = link.url.split('?')[0];
+    delivery.linkExpiresAt = link.expiresAt;
+    delivery.pdfBytes = pdf.length;
+  } catch (err) {
+    delivery.error = err instanceof Error ? err.message : String(err);
+    logError('Scheduled report delivery failed', { context: 'report-schedules', scheduleId: schedule.scheduleId }, err instanceof Error ? err : new Error(String(err)));
+  }
+
+  await ensureScheduleIndexes(db);
+  await db.collection(DELIVERIES).insertOne({ ...delivery });
+  await db.collection(SCHEDULES).updateOne({ scheduleId: schedule.scheduleId }, { $set: { lastRunAt: delivery.createdAt } });
+  return delivery;
+}
+
+// WHAT: Events of the schedule's owner that finished since the cursor.
+async function findNewlyFinishedEvents(db: Db, schedule: ReportSchedule, now: Date): Promise<{ ids: string[]; newest: string | null }> {
+  const today = localDate(now, schedule.timezone);
+  const { events } = await loadReportOwnerEvents(db, schedule.ownerType, schedule.ownerId);
+  return selectNewlyFinishedEvents(events, schedule.lastEventDate || initialEventCursor(now, schedule.timezone), today);
+}
+
+async function claimNextDueSchedule(db: Db, now: Date): Promise<any | null> {
+  const nowString = now.toISOString();
+  return db.collection(SCHEDULES).findOneAndUpdate(
+    {
+      enabled: true,
+      nextRunAt: { $lte: nowString },
+      $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: nowString } }],
+    },
+    { $set: { lockedUntil: new Date(now.getTime() + CLAIM_LEASE_MS).toISOString() } },
+    { sort: { nextRunAt: 1 }, returnDocument: 'after' }
+  );
+}
+
+// WHAT: Run up to `limit` due schedules.
+// @returns counts per outcome, for the cron response.
+export async function processDueReportSchedules(limit = 20): Promise<{ processed: number; sent: number; failed: number; skipped: number }> {
+  const summary = { processed: 0, sent: 0, failed: 0, skipped: 0 };
+  const db = await getDb();
+  await ensureScheduleIndexes(db);
+
+  while (summary.processed < limit) {
+    const now = new Date();
+    const doc = await claimNextDueSchedule(db, now);
+    if (!doc) break;
+    summary.processed++;
+    const schedule = toSchedule(doc);
+    const set: Record<string, unknown> = { nextRunAt: computeNextRunAt(schedule, now).toISOString() };
+
+    try {
+      if (schedule.frequency === 'after_event') {
+        const { ids, newest } = await findNewlyFinishedEvents(db, schedule, now);
+        if (ids.length === 0) {
+          summary.skipped++;
+        } else {
+          const delivery = await deliverReportSchedule(schedule, 'event', ids);
+          if (delivery.status === 'failed') summary.failed++;
+          else summary.sent++;
+          // Advance the cursor only once the events were actually reported.
+          if (delivery.status !== 'failed') set.lastEventDate = newest;
+        }
+      } else {
+        const delivery = await deliverReportSchedule(schedule, 'schedule');
+        if (delivery.status === 'failed') summary.failed++;
+        else summary.sent++;
+      }
+    } catch (err) {
+      summary.failed++;
+      logError('Report schedule run crashed', { context: 'report-schedules', scheduleId: schedule.scheduleId }, err instanceof Error ? err : new Error(String(err)));
+    }
+
+    await db.collection(SCHEDULES).updateOne({ scheduleId: schedule.scheduleId }, { $set: set, $unset: { lockedUntil: '' } });
+  }
+
+  if (summary.processed > 0) {
+    logInfo('Processed report schedules', { context: 'report-schedules', ...summary });
+  }
+  return summary;
+}
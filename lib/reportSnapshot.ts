@@ -0,0 +1,387 @@
+// lib/reportSnapshot.ts
+// WHAT: Server-side, render-ready snapshot of a report — the resolved template
+//     blocks (with their LayoutV2 settings) and every chart already calculated
+//     by ReportCalculator. Covers every report type: event, partner,
+//     organization, hashtag and filter, in any variant.
+// WHY: Report pages assemble their data in the browser (hooks/useReportData.ts),
+//     so nothing could produce a report outside a browser tab. Scheduled
+//     deliveries (lib/reportSchedules.ts) and /api/reports/[slug]/pdf need the
+//     same numbers without one.
+// HOW: Mirrors the APIs behind each page: resolve the variant, keep the owner's
+//     events inside the variant period, sum their numeric stats on top of
+//     statsOverrides, fill derived variables (lib/variableDependencies.ts),
+//     then calculate the template's charts. The variables and each chart's
+//     formulas travel with the snapshot for the editable exports
+//     (lib/export/reportXlsx.ts).
+
+import { ObjectId } from 'mongodb';
+import type { Db } from 'mongodb';
+import { ReportCalculator, type Chart, type ChartResult, type ProjectStats } from './report-calculator';
+import { resolveReportVariant, type ReportVariantOwnerType } from './reportVariants';
+import { resolveRuntimeReportById } from './reportRuntime';
+import { isEventDateInPeriod } from './reportPeriods';
+import { findPartnerByIdentifier } from './partnerIdentifier';
+import { findHashtagsByFilterSlug } from './slugUtils';
+import { getAllHashtagRepresentations } from './hashtagCategoryUtils';
+import { buildFilterProjectQuery } from './filterQueryResolver';
+import { computeDerivedVariables, loadDerivedVariables } from './variableDependencies';
+import { hasValidChartData } from './export/chartValidation';
+import type { Report } from './report-resolver';
+
+export type ReportSnapshotType = 'event' | ReportVariantOwnerType;
+
+export const REPORT_SNAPSHOT_TYPES: ReportSnapshotType[] = ['event', 'partner', 'organization', 'hashtag', 'filter'];
+
+export interface ReportSnapshotChartSource {
+  label: string;
+  formula: string;
+}
+
+export interface ReportSnapshotChart extends ChartResult {
+  width: number; // LayoutV2 units from the template block
+  sources?: ReportSnapshotChartSource[]; // the chart's element formulas, in element order
+}
+
+export interface ReportSnapshotBlock {
+  id: string;
+  title: string;
+  showTitle: boolean;
+  blockAspectRatio?: string;
+  tableHeightMultiplier?: number;
+  charts: ReportSnapshotChart[];
+}
+
+export interface ReportSnapshot {
+  reportType: ReportSnapshotType;
+  ownerId: string;
+  ownerName: string;
+  variantSlug: string | null; // null for event reports, which have no variants
+  variantName: string | null;
+  periodLabel: string;
+  eventCount: number;
+  // WHAT: Latest updatedAt across the events in the report.
+  // WHY: Stands in for "generated at" so that rendering the same data twice
+  //     produces the same PDF (lib/export/reportPdf.ts).
+  dataUpdatedAt: string | null;
+  // WHAT: Every variable the charts were calculated from, derived ones included.
+  variables: Record<string, number | string>;
+  blocks: ReportSnapshotBlock[];
+}
+
+export type ReportOwnerEvent = {
+  _id: ObjectId;
+  eventName?: string;
+  eventDate?: string;
+  updatedAt?: string;
+  stats?: Record<string, unknown>;
+};
+
+const EVENT_PROJECTION = { _id: 1, eventName: 1, eventDate: 1, updatedAt: 1, stats: 1 };
+
+function snapshotError(message: string, status: number, code: string): Error {
+  return Object.assign(new Error(message), { status, code });
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function addNumericStats(target: Record<string, number | string>, stats: Record<string, unknown> | undefined): void {
+  for (const [key, value] of Object.entries(stats || {})) {
+    if (typeof value !== 'number') continue;
+    const current = target[key];
+    if (typeof current === 'number') target[key] = current + value;
+    else if (current === undefined) target[key] = value;
+  }
+}
+
+// WHAT: chart_configurations document → ReportCalculator chart.
+// WHY: Same projection /api/chart-config/public hands the report pages, so a
+//     rendered PDF and the live page calculate identically.
+function toCalculatorChart(doc: Record<string, any>): Chart {
+  const elements = Array.isArray(doc.elements) ? doc.elements : [];
+  return {
+    chartId: doc.chartId,
+    title: doc.title,
+    type: doc.type,
+    formula: elements[0]?.formula || '',
+    order: doc.order,
+    isActive: doc.isActive,
+    elements,
+    icon: doc.icon,
+    iconVariant: doc.iconVariant,
+    aspectRatio: doc.aspectRatio,
+    showTitle: doc.showTitle,
+    showPercentages: doc.showPercentages,
+    formatting: elements[0]?.formatting,
+  };
+}
+
+// WHAT: Does a project carry the filter hashtag, plain or as category:value?
+// WHY: Same rule as /api/hashtags/filter-by-slug, so filter PDFs and pages agree.
+function hasFilterHashtag(representations: string[], filterHashtag: string): boolean {
+  const wanted = filterHashtag.toLowerCase();
+  return representations.some((rep) => {
+    const lower = rep.toLowerCase();
+    return lower === wanted || (lower.includes(':') && lower.split(':').pop() === wanted);
+  });
+}
+
+// WHAT: The hashtag behind a hashtag report id — either the hashtag itself or
+//     its UUID slug from `hashtag_slugs` (same lookup as /api/hashtags/[hashtag]).
+async function resolveHashtag(db: Db, hashtagOrSlug: string): Promise<string> {
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(hashtagOrSlug)) {
+    const slugDoc = await db.collection('hashtag_slugs').findOne({ slug: hashtagOrSlug });
+    if (!slugDoc) throw snapshotError('Hashtag not found for this slug', 404, 'NOT_FOUND');
+    return String(slugDoc.hashtag);
+  }
+  return hashtagOrSlug;
+}
+
+// WHAT: The owner's display name, own stats, and every event that feeds its report.
+// WHY exported: after-event schedules (lib/reportSchedules.ts) watch the same
+//     event set for newly finished events.
+// NOTE: Hashtag owners are the hashtag itself, not its UUID slug.
+export async function loadReportOwnerEvents(
+  db: Db,
+  ownerType: ReportVariantOwnerType,
+  ownerId: string,
+  showOnlyTeam1Events?: boolean
+): Promise<{ ownerName: string; ownerStats: Record<string, unknown>; events: ReportOwnerEvent[] }> {
+  const projects = db.collection<ReportOwnerEvent>('projects');
+
+  if (ownerType === 'partner') {
+    const partner = await findPartnerByIdentifier(db, ownerId);
+    if (!partner) throw snapshotError('Partner not found', 404, 'NOT_FOUND');
+    const id = new ObjectId(partner._id);
+    const sides = (showOnlyTeam1Events ?? partner.showOnlyTeam1Events === true)
+      ? [{ partner1: id }, { partner1Id: id }]
+      : [{ partner1: id }, { partner2: id }, { partner1Id: id }, { partner2Id: id }];
+    const events = await projects.find({ $or: sides }).project<ReportOwnerEvent>(EVENT_PROJECTION).toArray();
+    return { ownerName: partner.name, ownerStats: partner.stats || {}, events };
+  }
+
+  if (ownerType === 'organization') {
+    if (!ObjectId.isValid(ownerId)) throw snapshotError('Invalid organization id', 400, 'INVALID_ID');
+    const organization = await db.collection('organizations').findOne({ _id: new ObjectId(ownerId) });
+    if (!organization) throw snapshotError('Organization not found', 404, 'NOT_FOUND');
+    const partnerIds = (await db.collection('partners').find({ organizationId: organization._id }, { projection: { _id: 1 } }).toArray())
+      .map((p) => p._id);
+    const events = partnerIds.length
+      ? await projects.find({
+          $or: [
+            { partner1: { $in: partnerIds } },
+            { partner2: { $in: partnerIds } },
+            { partner1Id: { $in: partnerIds } },
+            { partner2Id: { $in: partnerIds } },
+          ],
+        }).project<ReportOwnerEvent>(EVENT_PROJECTION).toArray()
+      : [];
+    return { ownerName: organization.name, ownerStats: {}, events };
+  }
+
+  if (ownerType === 'hashtag') {
+    const hashtag = escapeRegex(ownerId);
+    const events = await projects.find({
+      $or: [
+        { hashtags: { $regex: new RegExp(`^${hashtag}$`, 'i') } },
+        { hashtags: { $regex: new RegExp(`(^|,)\\s*${hashtag}\\s*(,|$)`, 'i') } },
+      ],
+    }).project<ReportOwnerEvent>(EVENT_PROJECTION).toArray();
+    return { ownerName: `#${ownerId}`, ownerStats: {}, events };
+  }
+
+  // filter: a stored expression or hashtag combination, or a bare hashtag used as the slug
+  const filterData = await findHashtagsByFilterSlug(ownerId);
+  if (filterData?.expression) {
+    const events = await projects
+      .find(await buildFilterProjectQuery(db, filterData.expression))
+      .project<ReportOwnerEvent>(EVENT_PROJECTION)
+      .toArray();
+    return { ownerName: `Filter: ${filterData.expression}`, ownerStats: {}, events };
+  }
+  const hashtags = filterData?.hashtags?.length ? filterData.hashtags : [decodeURIComponent(ownerId)];
+  const candidates = await projects
+    .find({})
+    .project<ReportOwnerEvent & { hashtags?: string[]; categorizedHashtags?: Record<string, string[]> }>({
+      ...EVENT_PROJECTION,
+      hashtags: 1,
+      categorizedHashtags: 1,
+    })
+    .toArray();
+  const events = candidates
+    .filter((project) => {
+      const representations = getAllHashtagRepresentations({
+        hashtags: project.hashtags || [],
+        categorizedHashtags: project.categorizedHashtags || {},
+      });
+      return hashtags.every((tag) => hasFilterHashtag(representations, tag));
+    })
+    .map(({ _id, eventName, eventDate, updatedAt, stats }) => ({ _id, eventName, eventDate, updatedAt, stats }));
+  return { ownerName: `Filter: ${hashtags.map((tag) => `#${tag}`).join(' + ')}`, ownerStats: {}, events };
+}
+
+// WHAT: LayoutV2 block settings the runtime report drops (aspect ratio,
+//     table height), read from `data_blocks` the same way /api/report-config does.
+async function loadBlockLayoutSettings(
+  db: Db,
+  blockIds: string[]
+): Promise<Map<string, { blockAspectRatio?: string; tableHeightMultiplier?: number }>> {
+  const ids = blockIds.filter((id) => ObjectId.isValid(id)).map((id) => new ObjectId(id));
+  const docs = ids.length
+    ? await db.collection('data_blocks').find({ _id: { $in: ids } }, { projection: { blockAspectRatio: 1, tableHeightMultiplier: 1 } }).toArray()
+    : [];
+  return new Map(docs.map((doc) => [
+    doc._id.toString(),
+    {
+      blockAspectRatio: typeof doc.blockAspectRatio === 'string' ? doc.blockAspectRatio : undefined,
+      tableHeightMultiplier: typeof doc.tableHeightMultiplier === 'number' ? doc.tableHeightMultiplier : undefined,
+    },
+  ]));
+}
+
+function chartSources(chart: Chart | undefined): ReportSnapshotChartSource[] {
+  if (!chart) return [];
+  if (chart.elements?.length) {
+    return chart.elements.map((element) => ({ label: element.label || '', formula: element.formula || '' }));
+  }
+  return chart.formula ? [{ label: chart.title, formula: chart.formula }] : [];
+}
+
+// WHAT: Keep only the plain values out of the calculated stats.
+function snapshotVariables(stats: ProjectStats): Record<string, number | string> {
+  const variables: Record<string, number | string> = {};
+  for (const key of Object.keys(stats).sort()) {
+    const value = stats[key];
+    if (typeof value === 'number' || typeof value === 'string') variables[key] = value;
+  }
+  return variables;
+}
+
+async function calculateBlocks(
+  db: Db,
+  report: Report,
+  stats: Record<string, number | string>
+): Promise<{ variables: Record<string, number | string>; blocks: ReportSnapshotBlock[] }> {
+  // WHY: Same fallback as the event report — a saved dependency cycle exports
+  //     the stored stats instead of failing the export
+  let derived: ProjectStats = stats;
+  try {
+    derived = computeDerivedVariables(stats, await loadDerivedVariables(db));
+  } catch (derivedError) {
+    console.error('⚠️ Derived variables not computed:', derivedError);
+  }
+  const chartDocs = await db.collection('chart_configurations').find({ isActive: true }).toArray();
+  const charts = chartDocs.map(toCalculatorChart);
+  const chartsById = new Map(charts.map((chart) => [chart.chartId, chart]));
+  const calculator = new ReportCalculator(charts, derived);
+  const layoutSettings = await loadBlockLayoutSettings(db, report.layout.blocks.map((block) => block.id));
+
+  const blocks = [...report.layout.blocks]
+    .sort((a, b) => a.order - b.order)
+    .map((block) => ({
+      id: block.id,
+      title: block.title,
+      showTitle: block.showTitle,
+      ...layoutSettings.get(block.id),
+      charts: [...block.charts]
+        .sort((a, b) => a.order - b.order)
+        .map((ref): ReportSnapshotChart | null => {
+          // Same empty-chart filtering as the rendered report (export parity, A-R-13)
+          const result = calculator.calculateChart(ref.chartId);
+          return result && hasValidChartData(result)
+            ? { ...result, width: ref.width || 1, sources: chartSources(chartsById.get(ref.chartId)) }
+            : null;
+        })
+        .filter((chart): chart is ReportSnapshotChart => chart !== null),
+    }))
+    .filter((block) => block.charts.length > 0);
+  return { variables: snapshotVariables(derived), blocks };
+}
+
+function latestUpdate(events: ReportOwnerEvent[]): string | null {
+  return events.reduce<string | null>((max, event) => (event.updatedAt && (!max || event.updatedAt > max) ? event.updatedAt : max), null);
+}
+
+// WHAT: Single-event report (/report/[slug]).
+// HOW: Template resolution follows /api/report-config: the event's own
+//     template, then its partner's, then the default event template.
+async function buildEventSnapshot(db: Db, slug: string): Promise<ReportSnapshot> {
+  const project = await db.collection('projects').findOne(
+    ObjectId.isValid(slug) ? { _id: new ObjectId(slug) } : { viewSlug: slug }
+  );
+  if (!project) throw snapshotError('Event not found', 404, 'NOT_FOUND');
+
+  let templateId = project.reportTemplateId ? String(project.reportTemplateId) : null;
+  if (!templateId && project.partner1) {
+    const partnerId = typeof project.partner1 === 'object' && '_id' in project.partner1 ? project.partner1._id : project.partner1;
+    const partner = ObjectId.isValid(String(partnerId))
+      ? await db.collection('partners').findOne({ _id: new ObjectId(String(partnerId)) }, { projection: { reportTemplateId: 1 } })
+      : null;
+    templateId = partner?.reportTemplateId ? String(partner.reportTemplateId) : null;
+  }
+  const { report } = await resolveRuntimeReportById(db, templateId, 'event');
+  if (!report) throw snapshotError('No report template resolved for this event', 404, 'TEMPLATE_NOT_FOUND');
+
+  return {
+    reportType: 'event',
+    ownerId: slug,
+    ownerName: String(project.eventName || 'Event'),
+    variantSlug: null,
+    variantName: null,
+    periodLabel: String(project.eventDate || '').slice(0, 10),
+    eventCount: 1,
+    dataUpdatedAt: typeof project.updatedAt === 'string' ? project.updatedAt : null,
+    ...(await calculateBlocks(db, report, project.stats || {})),
+  };
+}
+
+/**
+ * Build the snapshot of one report. `variantSlug` null/'default' selects the
+ * owner's default variant, exactly like the report pages; event reports have
+ * no variants and reject one.
+ */
+export async function buildReportSnapshot(
+  db: Db,
+  reportType: ReportSnapshotType,
+  ownerId: string,
+  variantSlug?: string | null
+): Promise<ReportSnapshot> {
+  const slug = variantSlug && variantSlug !== 'default' ? variantSlug : null;
+  if (reportType === 'event') {
+    if (slug) throw snapshotError('Event reports have no variants', 400, 'INVALID_VARIANT');
+    return buildEventSnapshot(db, ownerId);
+  }
+  if (!REPORT_SNAPSHOT_TYPES.includes(reportType)) {
+    throw snapshotError(`Unknown report type: ${reportType}`, 400, 'INVALID_REPORT_TYPE');
+  }
+
+  const ownerKey = reportType === 'hashtag' ? await resolveHashtag(db, ownerId) : ownerId;
+  const resolved = await resolveReportVariant(db, reportType, ownerKey, slug);
+  if (slug && resolved.variant.slug !== slug) throw snapshotError('Report variant not found', 404, 'VARIANT_NOT_FOUND');
+  const report = resolved.runtimeReport.report;
+  if (!report) throw snapshotError('No report template resolved for this variant', 404, 'TEMPLATE_NOT_FOUND');
+
+  const { ownerName, ownerStats, events } = await loadReportOwnerEvents(db, reportType, ownerKey, resolved.variant.showOnlyTeam1Events);
+  const inPeriod = events.filter((event) => isEventDateInPeriod(event.eventDate, resolved.period));
+
+  // WHAT: Same base the partner report route uses — the partner's own stats for
+  //     the legacy all-time default, the variant's overrides otherwise.
+  const useLegacyAllTime = reportType === 'partner' && !slug && resolved.isVirtualDefault && resolved.period.periodPreset === 'all_time';
+  const aggregated: Record<string, number | string> = {
+    ...((useLegacyAllTime ? ownerStats : resolved.variant.statsOverrides || {}) as Record<string, number | string>),
+  };
+  inPeriod.forEach((event) => addNumericStats(aggregated, event.stats));
+
+  return {
+    reportType,
+    ownerId,
+    ownerName,
+    variantSlug: resolved.variant.slug,
+    variantName: resolved.variant.name,
+    periodLabel: resolved.period.label,
+    eventCount: inPeriod.length,
+    dataUpdatedAt: latestUpdate(inPeriod),
+    ...(await calculateBlocks(db, report, aggregated)),
+  };
+}
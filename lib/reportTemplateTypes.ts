@@ -60,6 +60,10 @@ export interface ReportTemplate {
   // HERO Block Settings (report header configuration)
   heroSettings?: HeroBlockSettings;         // Controls which elements appear in report header
   alignmentSettings?: BlockAlignmentSettings; // Controls element alignment within report blocks
+
+  // Versioning (lib/reportTemplateVersions.ts)
+  publishedVersion?: number;                // Version reports render; unset = working copy renders live
+  publishedAt?: string;                     // ISO 8601 with milliseconds
   
   // Metadata
   createdBy?: string;                       // User who created template
@@ -0,0 +1,463 @@
+// lib/reportTemplateVersions.ts
+// WHAT: Immutable, numbered versions of a report template with a
+//     draft → published → archived lifecycle, a structural diff between any two
+//     versions, and rollback.
+// WHY: `report_templates` documents are edited in place by the Visualization
+//     editor, so every keystroke used to reach every published report that uses
+//     the template. Reports now render the template's published version (or a
+//     version a ReportVariant is pinned to); the template document is only the
+//     working copy the editor changes.
+// HOW: A version stores the template's settings and a copy of each referenced
+//     data block (name, charts with width/order, aspect settings), because
+//     blocks are shared and edited in place too. Exactly one version per
+//     template is published; `report_templates.publishedVersion` points at it.
+//     Templates that have never been published keep rendering live, as before.
+
+import { ObjectId } from 'mongodb';
+import type { Db, Document } from 'mongodb';
+import type { ReportVariantStatus } from './reportVariants';
+import type { DataBlockReference } from './reportTemplateTypes';
+
+export const TEMPLATE_VERSIONS_COLLECTION = 'report_template_versions';
+
+// Same lifecycle as report variants: one draft per save, one published, the
+// rest archived.
+export type ReportTemplateVersionStatus = ReportVariantStatus;
+
+export interface ReportTemplateVersionChart {
+  chartId: string;
+  width?: number;
+  order?: number;
+  [key: string]: unknown;
+}
+
+export interface ReportTemplateVersionBlock {
+  blockId: string;
+  order: number;
+  name: string;
+  showTitle: boolean;
+  isActive: boolean;
+  charts: ReportTemplateVersionChart[];
+  blockAspectRatio?: string;
+  mobileAspectRatio?: string;
+  tableHeightMultiplier?: number;
+  overrides?: DataBlockReference['overrides'];
+}
+
+export interface ReportTemplateVersionContent {
+  name: string;
+  description?: string;
+  type: 'event' | 'partner' | 'global';
+  styleId?: string;
+  gridSettings: { desktopUnits: number; tabletUnits: number; mobileUnits: number };
+  blockLayoutMode?: 'legacy' | 'deterministic';
+  fontSyncSettings?: Record<string, unknown>;
+  heroSettings?: Record<string, unknown>;
+  alignmentSettings?: Record<string, unknown>;
+  blocks: ReportTemplateVersionBlock[];
+}
+
+export interface ReportTemplateVersion {
+  _id: string;
+  templateId: string;
+  version: number;
+  status: ReportTemplateVersionStatus;
+  content: ReportTemplateVersionContent;
+  note?: string;
+  rolledBackFrom?: number; // set on versions created by a rollback
+  createdBy: string;
+  createdAt: string;
+  publishedAt?: string;
+  publishedBy?: string;
+}
+
+export interface ReportTemplateDiff {
+  blocksAdded: Array<{ blockId: string; name: string }>;
+  blocksRemoved: Array<{ blockId: string; name: string }>;
+  blocksMoved: Array<{ blockId: string; name: string; from: number; to: number }>;
+  blocksChanged: Array<{
+    blockId: string;
+    name: string;
+    chartsAdded: string[];
+    chartsRemoved: string[];
+    chartOrder: { from: string[]; to: string[] } | null;
+    widthChanges: Array<{ chartId: string; from: number; to: number }>;
+    settings: Array<{ key: string; from: unknown; to: unknown }>;
+  }>;
+  gridSettings: Array<{ key: string; from: number; to: number }>;
+  settings: Array<{ key: string; from: unknown; to: unknown }>;
+  hasChanges: boolean;
+}
+
+function versionError(message: string, status: number, code: string): Error {
+  return Object.assign(new Error(message), { status, code });
+}
+
+function toObjectId(value: unknown): ObjectId | null {
+  if (value instanceof ObjectId) return value;
+  return typeof value === 'string' && ObjectId.isValid(value) ? new ObjectId(value) : null;
+}
+
+function normalizeVersion(doc: Document): ReportTemplateVersion {
+  return {
+    _id: doc._id.toString(),
+    templateId: String(doc.templateId),
+    version: doc.version,
+    status: doc.status,
+    content: doc.content,
+    note: doc.note || undefined,
+    rolledBackFrom: typeof doc.rolledBackFrom === 'number' ? doc.rolledBackFrom : undefined,
+    createdBy: doc.createdBy,
+    createdAt: doc.createdAt,
+    publishedAt: doc.publishedAt || undefined,
+    publishedBy: doc.publishedBy || undefined,
+  };
+}
+
+/**
+ * Capture a template document (the working copy) and the data blocks it
+ * references as version content. Blocks that no longer exist are dropped,
+ * exactly as the report pages drop them.
+ */
+export async function captureTemplateContent(db: Db, template: Document): Promise<ReportTemplateVersionContent> {
+  const references: DataBlockReference[] = Array.isArray(template.dataBlocks) ? template.dataBlocks : [];
+  const ids = references.map((ref) => toObjectId(ref.blockId)).filter((id): id is ObjectId => id !== null);
+  const blocks = ids.length ? await db.collection('data_blocks').find({ _id: { $in: ids } }).toArray() : [];
+  const byId = new Map(blocks.map((block) => [block._id.toString(), block]));
+
+  return {
+    name: template.name,
+    description: template.description || undefined,
+    type: template.type,
+    styleId: template.styleId ? String(template.styleId) : undefined,
+    gridSettings: {
+      desktopUnits: template.gridSettings?.desktopUnits ?? 6,
+      tabletUnits: template.gridSettings?.tabletUnits ?? 3,
+      mobileUnits: template.gridSettings?.mobileUnits ?? 2,
+    },
+    blockLayoutMode: template.blockLayoutMode || undefined,
+    fontSyncSettings: template.fontSyncSettings || undefined,
+    heroSettings: template.heroSettings || undefined,
+    alignmentSettings: template.alignmentSettings || undefined,
+    blocks: references
+      .map((ref): ReportTemplateVersionBlock | null => {
+        const block = byId.get(String(ref.blockId));
+        if (!block) return null;
+        const overrides = (ref.overrides || {}) as Record<string, unknown>;
+        return {
+          blockId: block._id.toString(),
+          order: ref.order,
+          name: block.name,
+          showTitle: block.showTitle ?? true,
+          isActive: block.isActive ?? true,
+          charts: (Array.isArray(block.charts) ? block.charts : []).map((chart: ReportTemplateVersionChart) => ({ ...chart })),
+          // Same precedence as /api/report-config: the block's own setting, then the reference override
+          blockAspectRatio: block.blockAspectRatio || (overrides.blockAspectRatio as string | undefined),
+          mobileAspectRatio: block.mobileAspectRatio || (overrides.mobileAspectRatio as string | undefined),
+          tableHeightMultiplier: block.tableHeightMultiplier || (overrides.tableHeightMultiplier as number | undefined),
+          overrides: ref.overrides,
+        };
+      })
+      .filter((block): block is ReportTemplateVersionBlock => block !== null)
+      .sort((a, b) => a.order - b.order),
+  };
+}
+
+// ==========================================
+// Structural diff
+// ==========================================
+
+function chartIds(block: ReportTemplateVersionBlock): string[] {
+  return [...block.charts]
+    .map((chart, index) => ({ chart, order: typeof chart.order === 'number' ? chart.order : index }))
+    .sort((a, b) => a.order - b.order)
+    .map(({ chart }) => chart.chartId);
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function changedKeys(from: object, to: object, keys: string[]): Array<{ key: string; from: unknown; to: unknown }> {
+  const a = from as Record<string, unknown>;
+  const b = to as Record<string, unknown>;
+  return keys.filter((key) => !sameValue(a[key], b[key])).map((key) => ({ key, from: a[key] ?? null, to: b[key] ?? null }));
+}
+
+const TEMPLATE_SETTING_KEYS = ['name', 'description', 'type', 'styleId', 'blockLayoutMode', 'fontSyncSettings', 'heroSettings', 'alignmentSettings'];
+const BLOCK_SETTING_KEYS = ['name', 'showTitle', 'isActive', 'blockAspectRatio', 'mobileAspectRatio', 'tableHeightMultiplier'];
+
+/**
+ * What changed from `from` to `to`: blocks added/removed/moved, per-block chart
+ * membership, order and widths, grid settings, and template-level settings.
+ * Block positions compare rank in the block order, not raw `order` values, so
+ * renumbering alone is not a move.
+ */
+export function diffTemplateContent(from: ReportTemplateVersionContent, to: ReportTemplateVersionContent): ReportTemplateDiff {
+  const fromBlocks = new Map(from.blocks.map((block, index) => [block.blockId, { block, index }]));
+  const toBlocks = new Map(to.blocks.map((block, index) => [block.blockId, { block, index }]));
+
+  const blocksAdded = to.blocks.filter((b) => !fromBlocks.has(b.blockId)).map((b) => ({ blockId: b.blockId, name: b.name }));
+  const blocksRemoved = from.blocks.filter((b) => !toBlocks.has(b.blockId)).map((b) => ({ blockId: b.blockId, name: b.name }));
+
+  // Rank among the blocks both versions share, so an insertion does not
+  // report every later block as moved.
+  const kept = (blocks: ReportTemplateVersionBlock[], other: Map<string, unknown>) => blocks.filter((b) => other.has(b.blockId)).map((b) => b.blockId);
+  const fromKept = kept(from.blocks, toBlocks);
+  const toKept = kept(to.blocks, fromBlocks);
+  const blocksMoved = toKept
+    .map((blockId, to) => ({ blockId, name: toBlocks.get(blockId)!.block.name, from: fromKept.indexOf(blockId), to }))
+    .filter((move) => move.from !== move.to);
+
+  const blocksChanged: ReportTemplateDiff['blocksChanged'] = [];
+  for (const blockId of toKept) {
+    const before = fromBlocks.get(blockId)!.block;
+    const after = toBlocks.get(blockId)!.block;
+    const beforeIds = chartIds(before);
+    const afterIds = chartIds(after);
+    const chartsAdded = afterIds.filter((id) => !beforeIds.includes(id));
+    const chartsRemoved = beforeIds.filter((id) => !afterIds.includes(id));
+    const common = (ids: string[], other: string[]) => ids.filter((id) => other.includes(id));
+    const reordered = !sameValue(common(beforeIds, afterIds), common(afterIds, beforeIds));
+    const widthOf = (block: ReportTemplateVersionBlock, id: string) => block.charts.find((c) => c.chartId === id)?.width ?? 1;
+    const widthChanges = common(afterIds, beforeIds)
+      .map((chartId) => ({ chartId, from: widthOf(before, chartId), to: widthOf(after, chartId) }))
+      .filter((change) => change.from !== change.to);
+    const settings = changedKeys(before, after, BLOCK_SETTING_KEYS);
+
+    if (chartsAdded.length || chartsRemoved.length || reordered || widthChanges.length || settings.length) {
+      blocksChanged.push({
+        blockId,
+        name: after.name,
+        chartsAdded,
+        chartsRemoved,
+        chartOrder: reordered ? { from: beforeIds, to: afterIds } : null,
+        widthChanges,
+        settings,
+      });
+    }
+  }
+
+  const gridSettings = (['desktopUnits', 'tabletUnits', 'mobileUnits'] as const)
+    .filter((key) => from.gridSettings[key] !== to.gridSettings[key])
+    .map((key) => ({ key, from: from.gridSettings[key], to: to.gridSettings[key] }));
+  const settings = changedKeys(from, to, TEMPLATE_SETTING_KEYS);
+
+  return {
+    blocksAdded,
+    blocksRemoved,
+    blocksMoved,
+    blocksChanged,
+    gridSettings,
+    settings,
+    hasChanges: Boolean(blocksAdded.length || blocksRemoved.length || blocksMoved.length || blocksChanged.length || gridSettings.length || settings.length),
+  };
+}
+
+// ==========================================
+// Persistence
+// ==========================================
+
+async function loadTemplate(db: Db, templateId: string, organizationId?: string): Promise<Document> {
+  const id = toObjectId(templateId);
+  if (!id) throw versionError('Invalid template id', 400, 'INVALID_ID');
+  const query: Document = { _id: id };
+  if (organizationId) query.organizationId = new ObjectId(organizationId);
+  const template = await db.collection('report_templates').findOne(query);
+  if (!template) throw versionError('Template not found', 404, 'NOT_FOUND');
+  return template;
+}
+
+export async function listTemplateVersions(db: Db, templateId: string, organizationId?: string): Promise<ReportTemplateVersion[]> {
+  await loadTemplate(db, templateId, organizationId);
+  const docs = await db.collection(TEMPLATE_VERSIONS_COLLECTION).find({ templateId }).sort({ version: -1 }).toArray();
+  return docs.map(normalizeVersion);
+}
+
+export async function getTemplateVersion(db: Db, templateId: string, version: number): Promise<ReportTemplateVersion | null> {
+  const doc = await db.collection(TEMPLATE_VERSIONS_COLLECTION).findOne({ templateId, version });
+  return doc ? normalizeVersion(doc) : null;
+}
+
+async function requireVersion(db: Db, templateId: string, version: number): Promise<ReportTemplateVersion> {
+  const found = Number.isInteger(version) && version > 0 ? await getTemplateVersion(db, templateId, version) : null;
+  if (!found) throw versionError(`Version ${version} not found`, 404, 'VERSION_NOT_FOUND');
+  return found;
+}
+
+/**
+ * One version of an organization's template; 404 when either is missing.
+ */
+export async function requireTemplateVersion(
+  db: Db,
+  templateId: string,
+  version: number,
+  organizationId?: string
+): Promise<ReportTemplateVersion> {
+  await loadTemplate(db, templateId, organizationId);
+  return requireVersion(db, templateId, version);
+}
+
+async function insertVersion(
+  db: Db,
+  templateId: string,
+  content: ReportTemplateVersionContent,
+  fields: { createdBy: string; note?: string; rolledBackFrom?: number }
+): Promise<ReportTemplateVersion> {
+  const collection = db.collection(TEMPLATE_VERSIONS_COLLECTION);
+  // WHAT: Next number, retried on the unique (templateId, version) index if
+  //     two saves race.
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const latest = await collection.find({ templateId }).sort({ version: -1 }).limit(1).next();
+    const document = {
+      templateId,
+      version: (latest?.version || 0) + 1,
+      status: 'draft' as ReportTemplateVersionStatus,
+      content,
+      note: fields.note?.trim() || null,
+      rolledBackFrom: fields.rolledBackFrom ?? null,
+      createdBy: fields.createdBy,
+      createdAt: new Date().toISOString(),
+    };
+    try {
+      const result = await collection.insertOne(document);
+      return normalizeVersion({ ...document, _id: result.insertedId });
+    } catch (err) {
+      if ((err as { code?: number }).code !== 11000) throw err;
+    }
+  }
+  throw versionError('Could not allocate a version number, please retry', 409, 'VERSION_CONFLICT');
+}
+
+export async function ensureTemplateVersionIndexes(db: Db): Promise<void> {
+  await db.collection(TEMPLATE_VERSIONS_COLLECTION).createIndex({ templateId: 1, version: 1 }, { unique: true });
+}
+
+/**
+ * Save the template's working copy as a new draft version.
+ */
+export async function createTemplateVersion(
+  db: Db,
+  templateId: string,
+  input: { createdBy: string; note?: string; organizationId?: string }
+): Promise<ReportTemplateVersion> {
+  const template = await loadTemplate(db, templateId, input.organizationId);
+  await ensureTemplateVersionIndexes(db);
+  return insertVersion(db, templateId, await captureTemplateContent(db, template), input);
+}
+
+/**
+ * Make `version` the one published reports render. The previously published
+ * version is archived.
+ */
+export async function publishTemplateVersion(
+  db: Db,
+  templateId: string,
+  version: number,
+  input: { publishedBy: string; organizationId?: string }
+): Promise<ReportTemplateVersion> {
+  await loadTemplate(db, templateId, input.organizationId);
+  const target = await requireVersion(db, templateId, version);
+  const now = new Date().toISOString();
+  const collection = db.collection(TEMPLATE_VERSIONS_COLLECTION);
+
+  await collection.updateMany(
+    { templateId, status: 'published', version: { $ne: version } },
+    { $set: { status: 'archived' } }
+  );
+  await collection.updateOne(
+    { templateId, version },
+    { $set: { status: 'published', publishedAt: now, publishedBy: input.publishedBy } }
+  );
+  await db.collection('report_templates').updateOne(
+    { _id: new ObjectId(templateId) },
+    { $set: { publishedVersion: version, publishedAt: now } }
+  );
+  return { ...target, status: 'published', publishedAt: now, publishedBy: input.publishedBy };
+}
+
+/**
+ * One-click rollback: publish a copy of `version` as a new version (history is
+ * never rewritten) and reset the working copy's settings and block list to it.
+ * NOTE: Data blocks are shared between templates, so their contents are not
+ * rewritten — published reports render the version's own copy of them.
+ */
+export async function rollbackTemplateVersion(
+  db: Db,
+  templateId: string,
+  version: number,
+  input: { rolledBackBy: string; organizationId?: string }
+): Promise<ReportTemplateVersion> {
+  await loadTemplate(db, templateId, input.organizationId);
+  const source = await requireVersion(db, templateId, version);
+  const copy = await insertVersion(db, templateId, source.content, {
+    createdBy: input.rolledBackBy,
+    note: `Rollback to version ${version}`,
+    rolledBackFrom: version,
+  });
+  const published = await publishTemplateVersion(db, templateId, copy.version, { publishedBy: input.rolledBackBy });
+
+  const { content } = source;
+  await db.collection('report_templates').updateOne(
+    { _id: new ObjectId(templateId) },
+    {
+      $set: {
+        name: content.name,
+        description: content.description ?? null,
+        styleId: content.styleId ?? null,
+        gridSettings: content.gridSettings,
+        blockLayoutMode: content.blockLayoutMode ?? null,
+        fontSyncSettings: content.fontSyncSettings ?? null,
+        heroSettings: content.heroSettings ?? null,
+        alignmentSettings: content.alignmentSettings ?? null,
+        dataBlocks: content.blocks.map((block) => ({
+          blockId: block.blockId,
+          order: block.order,
+          ...(block.overrides ? { overrides: block.overrides } : {}),
+        })),
+        updatedAt: new Date().toISOString(),
+      },
+    }
+  );
+  return published;
+}
+
+/**
+ * Diff two versions of a template; `'working'` stands for the working copy.
+ */
+export async function diffTemplateVersions(
+  db: Db,
+  templateId: string,
+  from: number | 'working',
+  to: number | 'working',
+  organizationId?: string
+): Promise<ReportTemplateDiff> {
+  const template = await loadTemplate(db, templateId, organizationId);
+  const load = async (side: number | 'working') =>
+    side === 'working' ? captureTemplateContent(db, template) : (await requireVersion(db, templateId, side)).content;
+  return diffTemplateContent(await load(from), await load(to));
+}
+
+/**
+ * The content a report should render for `template`: the pinned version when
+ * one is given and exists, else the published version. Null means the template
+ * has never been published and renders from the working copy.
+ */
+export async function resolveTemplateVersionContent(
+  db: Db,
+  template: Document,
+  pinnedVersion?: number | null
+): Promise<{ version: number; content: ReportTemplateVersionContent } | null> {
+  if (!template?._id) return null; // HARDCODED_DEFAULT_TEMPLATE
+  const templateId = template._id.toString();
+  const wanted = pinnedVersion && Number.isInteger(pinnedVersion) ? pinnedVersion : template.publishedVersion;
+  if (!wanted) return null;
+  const found = await getTemplateVersion(db, templateId, wanted);
+  if (found) return { version: found.version, content: found.content };
+  // A pin to a missing version falls back to the published one
+  if (wanted !== template.publishedVersion && template.publishedVersion) {
+    const published = await getTemplateVersion(db, templateId, template.publishedVersion);
+    if (published) return { version: published.version, content: published.content };
+  }
+  return null;
+}
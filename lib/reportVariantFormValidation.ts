@@ -1,14 +1,24 @@
-import type { ReportPeriodPreset } from '@/lib/reportPeriods';
-import { REPORT_PERIOD_PRESETS } from '@/lib/reportPeriodValidation';
+import type { ReportComparisonPreset, ReportPeriodPreset } from '@/lib/reportPeriods';
+import { MAX_ROLLING_DAYS, REPORT_COMPARISON_PRESETS, REPORT_PERIOD_PRESETS } from '@/lib/reportPeriodValidation';
 
 export interface ReportVariantCreateFormState {
   name: string;
   periodPreset: string;
   customStartDate: string;
   customEndDate: string;
+  rollingDays?: string;
+  seasonStartMonth?: string;
+  comparisonPreset?: string; // 'none' or '' = no comparison
 }
 
-export type ReportVariantCreateFormField = 'name' | 'periodPreset' | 'customStartDate' | 'customEndDate';
+export type ReportVariantCreateFormField =
+  | 'name'
+  | 'periodPreset'
+  | 'customStartDate'
+  | 'customEndDate'
+  | 'rollingDays'
+  | 'seasonStartMonth'
+  | 'comparisonPreset';
 
 export type ReportVariantCreateFormErrors = Partial<Record<ReportVariantCreateFormField, string>>;
 
@@ -39,6 +49,24 @@ export function validateReportVariantCreateForm(
     }
   }
 
+  if (form.periodPreset === 'rolling_days') {
+    const rollingDays = Number(form.rollingDays);
+    if (!form.rollingDays || !Number.isInteger(rollingDays) || rollingDays < 1 || rollingDays > MAX_ROLLING_DAYS) {
+      errors.rollingDays = `Enter a number of days from 1 to ${MAX_ROLLING_DAYS}.`;
+    }
+  }
+
+  if ((form.periodPreset === 'this_season' || form.periodPreset === 'last_season') && form.seasonStartMonth) {
+    const month = Number(form.seasonStartMonth);
+    if (!Number.isInteger(month) || month < 1 || month > 12) {
+      errors.seasonStartMonth = 'Select the month the season starts.';
+    }
+  }
+
+  if (form.comparisonPreset && form.comparisonPreset !== 'none' && !REPORT_COMPARISON_PRESETS.includes(form.comparisonPreset as ReportComparisonPreset)) {
+    errors.comparisonPreset = 'Select a supported comparison period.';
+  }
+
   return errors;
 }
 
@@ -4,12 +4,21 @@ import { findHashtagsByFilterSlug } from '@/lib/slugUtils';
 import {
   ReportPeriodPreset,
   ReportCustomDateRange,
+  resolveComparisonPeriod,
   resolveReportPeriod,
+  type ReportComparisonPreset,
+  type ReportPeriodOptions,
   type ResolvedReportPeriod,
 } from '@/lib/reportPeriods';
-import { normalizeReportPeriodInput, normalizeReportPeriodUpdate } from '@/lib/reportPeriodValidation';
+import {
+  normalizeComparisonPreset,
+  normalizeReportPeriodInput,
+  normalizeReportPeriodOptions,
+  normalizeReportPeriodUpdate,
+} from '@/lib/reportPeriodValidation';
 import { resolveRuntimeReportById, type RuntimeReportResolution } from '@/lib/reportRuntime';
 import { findPartnerByIdentifier } from '@/lib/partnerIdentifier';
+import { getTemplateVersion } from '@/lib/reportTemplateVersions';
 
 export type ReportVariantOwnerType = 'organization' | 'partner' | 'hashtag' | 'filter';
 export type ReportVariantStatus = 'draft' | 'published' | 'archived';
@@ -25,7 +34,14 @@ export interface ReportVariant {
   timezone: string;
   periodPreset: ReportPeriodPreset;
   customDateRange: ReportCustomDateRange | null;
+  periodOptions: ReportPeriodOptions;
+  // WHAT: Comparison mode — each KPI also shows its value in this prior
+  //     period and the change; null shows the period alone
+  comparisonPreset: ReportComparisonPreset | null;
   reportTemplateId?: string;
+  // WHAT: Pin to one version of reportTemplateId (lib/reportTemplateVersions.ts);
+  //     null renders the template's published version
+  reportTemplateVersion?: number | null;
   styleId?: string;
   logoUrl?: string;
   emoji?: string;
@@ -88,6 +104,9 @@ export interface ResolvedReportVariant {
   variant: ReportVariant;
   isVirtualDefault: boolean;
   period: ResolvedReportPeriod;
+  // WHAT: Prior period for comparison mode; null when comparison is off or the
+  //     period has no dates (All Time)
+  comparisonPeriod: ResolvedReportPeriod | null;
   runtimeReport: RuntimeReportResolution;
 }
 
@@ -116,7 +135,10 @@ function normalizeVariantRecord(record: any): ReportVariant {
     timezone: record.timezone || DEFAULT_TIMEZONE,
     periodPreset: (record.periodPreset || 'all_time') as ReportPeriodPreset,
     customDateRange: record.customDateRange || null,
+    periodOptions: record.periodOptions || {},
+    comparisonPreset: record.comparisonPreset || null,
     reportTemplateId: record.reportTemplateId ? String(record.reportTemplateId) : undefined,
+    reportTemplateVersion: typeof record.reportTemplateVersion === 'number' ? record.reportTemplateVersion : null,
     styleId: record.styleId ? String(record.styleId) : undefined,
     logoUrl: record.logoUrl,
     emoji: record.emoji,
@@ -219,9 +241,11 @@ export async function resolveReportVariantBaseSource(
     return {
       ownerType,
       ownerId,
-      ownerName: filterData?.hashtags?.length
-        ? `Filter: ${filterData.hashtags.map((tag) => `#${tag}`).join(' + ')}`
-        : `Filter: ${ownerId}`,
+      ownerName: filterData?.expression
+        ? `Filter: ${filterData.expression}`
+        : filterData?.hashtags?.length
+          ? `Filter: ${filterData.hashtags.map((tag) => `#${tag}`).join(' + ')}`
+          : `Filter: ${ownerId}`,
       timezone: DEFAULT_TIMEZONE,
       styleId: filterData?.styleId || undefined,
       statsOverrides: {},
@@ -249,6 +273,8 @@ export function buildVirtualDefaultVariant(baseSource: ReportVariantBaseSource):
     timezone: baseSource.timezone || DEFAULT_TIMEZONE,
     periodPreset: 'all_time',
     customDateRange: null,
+    periodOptions: {},
+    comparisonPreset: null,
     reportTemplateId: baseSource.reportTemplateId,
     styleId: baseSource.styleId,
     logoUrl: baseSource.logoUrl,
@@ -306,10 +332,12 @@ export async function resolveReportVariant(
     throw new Error('Report variant not found');
   }
 
+  // A version pin belongs to the variant's own template, not the owner's
   const runtimeReport = await resolveRuntimeReportById(
     db,
     selectedVariant.reportTemplateId || baseSource.reportTemplateId,
-    ownerType === 'organization' ? 'partner' : 'partner'
+    ownerType === 'organization' ? 'partner' : 'partner',
+    selectedVariant.reportTemplateId ? selectedVariant.reportTemplateVersion : null
   );
 
   if (runtimeReport.report) {
@@ -319,14 +347,18 @@ export async function resolveReportVariant(
       runtimeReport.report.styleId;
   }
 
+  const period = resolveReportPeriod(
+    selectedVariant.periodPreset,
+    selectedVariant.customDateRange,
+    selectedVariant.timezone,
+    selectedVariant.periodOptions
+  );
+
   return {
     variant: selectedVariant,
     isVirtualDefault: selectedVariant._id.startsWith('virtual-default:'),
-    period: resolveReportPeriod(
-      selectedVariant.periodPreset,
-      selectedVariant.customDateRange,
-      selectedVariant.timezone
-    ),
+    period,
+    comparisonPeriod: resolveComparisonPeriod(period, selectedVariant.comparisonPreset),
     runtimeReport,
   };
 }
@@ -339,6 +371,8 @@ export async function createReportVariant(
     name: string;
     periodPreset?: ReportPeriodPreset;
     customDateRange?: ReportCustomDateRange | null;
+    periodOptions?: ReportPeriodOptions | null;
+    comparisonPreset?: ReportComparisonPreset | null;
     timezone?: string;
   }
 ): Promise<ReportVariant> {
@@ -350,6 +384,8 @@ export async function createReportVariant(
     periodPreset: input.periodPreset,
     customDateRange: input.customDateRange,
   });
+  const periodOptions = normalizeReportPeriodOptions(normalizedPeriod.periodPreset, input.periodOptions);
+  const comparisonPreset = normalizeComparisonPreset(input.comparisonPreset);
 
   let slug = slugifyVariantName(input.name);
   let counter = 2;
@@ -368,7 +404,10 @@ export async function createReportVariant(
     timezone: input.timezone || baseSource.timezone || DEFAULT_TIMEZONE,
     periodPreset: normalizedPeriod.periodPreset,
     customDateRange: normalizedPeriod.customDateRange,
+    periodOptions,
+    comparisonPreset,
     reportTemplateId: sourceVariant.reportTemplateId || null,
+    reportTemplateVersion: sourceVariant.reportTemplateVersion ?? null,
     styleId: sourceVariant.styleId || null,
     logoUrl: sourceVariant.logoUrl || null,
     emoji: sourceVariant.emoji || null,
@@ -422,6 +461,28 @@ export async function updateReportVariant(
     normalizedUpdates.slug = slugifyVariantName(updates.slug);
   }
 
+  // WHAT: A version pin must name an existing version of the variant's
+  //     template; switching templates drops a pin that was not re-sent
+  const templateId = updates.reportTemplateId !== undefined ? updates.reportTemplateId : existing.reportTemplateId;
+  if (updates.reportTemplateVersion !== undefined && updates.reportTemplateVersion !== null) {
+    const version = updates.reportTemplateVersion;
+    const found = Number.isInteger(version) && version > 0 && templateId
+      ? await getTemplateVersion(db, String(templateId), version)
+      : null;
+    if (!found) {
+      throw Object.assign(
+        new Error(`reportTemplateVersion ${version} does not exist for this variant's report template`),
+        { status: 400, code: 'INVALID_TEMPLATE_VERSION' }
+      );
+    }
+  } else if (
+    updates.reportTemplateVersion === undefined &&
+    updates.reportTemplateId !== undefined &&
+    String(updates.reportTemplateId || '') !== String(existing.reportTemplateId || '')
+  ) {
+    normalizedUpdates.reportTemplateVersion = null;
+  }
+
   const normalizedPeriod = normalizeReportPeriodUpdate(
     {
       periodPreset: existing.periodPreset,
@@ -434,6 +495,18 @@ export async function updateReportVariant(
     normalizedUpdates.customDateRange = normalizedPeriod.customDateRange;
   }
 
+  // WHAT: Options follow the preset — re-checked whenever either changes
+  if (normalizedPeriod || updates.periodOptions !== undefined) {
+    normalizedUpdates.periodOptions = normalizeReportPeriodOptions(
+      normalizedPeriod?.periodPreset ?? existing.periodPreset ?? 'all_time',
+      updates.periodOptions !== undefined ? updates.periodOptions : existing.periodOptions
+    );
+  }
+
+  if (updates.comparisonPreset !== undefined) {
+    normalizedUpdates.comparisonPreset = normalizeComparisonPreset(updates.comparisonPreset);
+  }
+
   if (updates.isDefault === true) {
     await collection.updateMany(
       {
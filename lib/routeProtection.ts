@@ -45,6 +45,8 @@ export const ROUTE_PROTECTION: Record<string, UserRole> = {
   '/admin/insights': 'superadmin',
   '/admin/users': 'superadmin',
   '/admin/cache': 'superadmin',
+  '/admin/rate-limits': 'superadmin',
+  '/admin/migrations': 'superadmin',
 };
 
 /**
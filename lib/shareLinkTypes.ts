@@ -0,0 +1,43 @@
+// lib/shareLinkTypes.ts
+// WHAT: Share link types and constants safe to import from client components
+// WHY: lib/shareLinks.ts reads the database and request headers; the share
+//     dialog and admin list only need these shapes.
+
+import type { PageType } from './pagePassword';
+
+// WHAT: Report pages a recipient link can open
+// NOTE: Organization reports are not password-gated yet, so a link to one
+//     would control nothing; edit pages are for operators, not recipients.
+export const SHARE_LINK_PAGE_TYPES: readonly PageType[] = ['event-report', 'partner-report', 'filter', 'hashtag'];
+
+export type ShareLinkStatus = 'active' | 'revoked' | 'expired' | 'exhausted';
+export type ShareViewKind = 'open' | 'view' | 'download';
+
+export interface ShareLinkPageViews {
+  pageType: PageType;
+  pageId: string;
+  views: number;
+  lastViewAt: string;
+}
+
+// WHAT: A link as the API returns it — never includes the token or its hash
+export interface ShareLinkSummary {
+  id: string;
+  pageId: string;
+  pageType: PageType;
+  label: string;
+  email?: string;
+  createdAt: string;
+  createdBy: string;
+  expiresAt: string | null;
+  maxUses: number | null;
+  useCount: number;
+  allowDownload: boolean;
+  lastUsedAt?: string;
+  revokedAt?: string | null;
+  revokedBy?: string;
+  status: ShareLinkStatus;
+  views: number;
+  downloads: number;
+  pages: ShareLinkPageViews[];
+}
@@ -0,0 +1,395 @@
+// lib/shareLinks.ts
+// WHAT: Per-recipient share links for protected report pages — one token per
+//     recipient with a label/email, optional expiry and use limit, revocation,
+//     download permission and a view log
+// WHY: A page password (lib/pagePassword.ts) is one secret per page. Once a
+//     sponsor forwards it, the only way to cut one recipient off is to rotate the
+//     password for everybody, and usageCount/lastUsedAt cannot say who opened it.
+// HOW: The link carries ?share=<token>; only the token's SHA-256 is stored.
+//     Redeeming it (PUT /api/page-passwords) earns the normal page-access grant
+//     cookie, tagged with the share link id (lib/pageAccess.ts). Every later
+//     access check on that grant comes back here, so revoking or expiring a link
+//     ends access that was already granted, and each page the recipient loads
+//     is logged against their link.
+
+import { createHash, randomBytes } from 'crypto';
+import { headers } from 'next/headers';
+import { ObjectId, type Db } from 'mongodb';
+import { getDb } from './db';
+import { buildPageUrl, resolveCanonicalPageId, type PageType } from './pagePassword';
+import {
+  SHARE_LINK_PAGE_TYPES,
+  type ShareLinkPageViews,
+  type ShareLinkStatus,
+  type ShareLinkSummary,
+  type ShareViewKind,
+} from './shareLinkTypes';
+
+export * from './shareLinkTypes';
+
+export const SHARE_LINKS_COLLECTION = 'share_links';
+export const SHARE_LINK_VIEWS_COLLECTION = 'share_link_views';
+
+// A report page loads several gated resources; one view per page per window is enough
+const VIEW_DEDUPE_MS = 10 * 60 * 1000;
+const MAX_EXPIRY_DAYS = 365;
+const MAX_USES = 10000;
+
+export interface ShareLink {
+  _id?: ObjectId;
+  pageId: string; // canonical, as in page_passwords
+  pageType: PageType;
+  label: string;
+  email?: string;
+  tokenHash: string;
+  createdAt: string;
+  createdBy: string;
+  expiresAt: string | null;
+  // Redemptions allowed; null = unlimited. Revisits inside a granted session do not count.
+  maxUses: number | null;
+  useCount: number;
+  allowDownload: boolean;
+  lastUsedAt?: string;
+  revokedAt?: string | null;
+  revokedBy?: string;
+}
+
+export interface ShareLinkView {
+  _id?: ObjectId;
+  shareLinkId: ObjectId;
+  pageType: PageType;
+  pageId: string;
+  kind: ShareViewKind;
+  at: string;
+  userAgent: string;
+  ipAddress: string;
+}
+
+export interface ShareLinkInput {
+  pageId: string;
+  pageType: PageType;
+  label: string;
+  email?: string;
+  expiresInDays: number | null;
+  maxUses: number | null;
+  allowDownload: boolean;
+}
+
+interface ClientInfo {
+  userAgent: string;
+  ipAddress: string;
+}
+
+function fail(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function shareLinkStatus(link: Pick<ShareLink, 'revokedAt' | 'expiresAt' | 'maxUses' | 'useCount'>, now = new Date()): ShareLinkStatus {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && link.expiresAt <= now.toISOString()) return 'expired';
+  if (link.maxUses !== null && link.useCount >= link.maxUses) return 'exhausted';
+  return 'active';
+}
+
+// A variant link ("slug::variant=x") also opens its base page, as share access tokens do
+function matchesPage(link: Pick<ShareLink, 'pageType' | 'pageId'>, pageType: string, pageId: string): boolean {
+  return link.pageType === pageType && (link.pageId === pageId || link.pageId.split('::variant=')[0] === pageId);
+}
+
+/**
+ * WHAT: Validate a new recipient link from the API
+ * @throws Error with status 400 when invalid
+ */
+export function validateShareLinkInput(input: unknown): ShareLinkInput {
+  if (!input || typeof input !== 'object') throw fail('share link must be an object', 400);
+  const { pageId, pageType, label, email, expiresInDays, maxUses, allowDownload } = input as Record<string, unknown>;
+
+  if (!SHARE_LINK_PAGE_TYPES.includes(pageType as PageType)) {
+    throw fail(`pageType must be one of: ${SHARE_LINK_PAGE_TYPES.join(', ')}`, 400);
+  }
+  if (typeof pageId !== 'string' || !pageId.trim()) throw fail('pageId is required', 400);
+
+  const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : '';
+  if (normalizedEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(normalizedEmail)) throw fail('email is not valid', 400);
+  const normalizedLabel = (typeof label === 'string' ? label.trim() : '') || normalizedEmail;
+  if (!normalizedLabel) throw fail('A recipient label or email is required', 400);
+  if (normalizedLabel.length > 120) throw fail('label must be at most 120 characters', 400);
+
+  const days = expiresInDays === undefined || expiresInDays === null || expiresInDays === '' ? null : Number(expiresInDays);
+  if (days !== null && (!Number.isFinite(days) || days <= 0 || days > MAX_EXPIRY_DAYS)) {
+    throw fail(`expiresInDays must be between 1 and ${MAX_EXPIRY_DAYS}`, 400);
+  }
+  const uses = maxUses === undefined || maxUses === null || maxUses === '' ? null : Number(maxUses);
+  if (uses !== null && (!Number.isInteger(uses) || uses < 1 || uses > MAX_USES)) {
+    throw fail(`maxUses must be a whole number between 1 and ${MAX_USES}`, 400);
+  }
+
+  return {
+    pageId: pageId.trim(),
+    pageType: pageType as PageType,
+    label: normalizedLabel,
+    email: normalizedEmail || undefined,
+    expiresInDays: days,
+    maxUses: uses,
+    allowDownload: allowDownload === true,
+  };
+}
+
+/**
+ * WHAT: Summarize grouped view counts into per-link totals and pages viewed
+ * @param rows - one row per link, page and kind (see listShareLinks)
+ */
+export function summarizeShareViews(
+  rows: Array<{ shareLinkId: string; pageType: PageType; pageId: string; kind: ShareViewKind; count: number; lastAt: string }>
+): Map<string, { views: number; downloads: number; pages: ShareLinkPageViews[] }> {
+  const byLink = new Map<string, { views: number; downloads: number; pages: ShareLinkPageViews[] }>();
+  for (const row of rows) {
+    const summary = byLink.get(row.shareLinkId) ?? { views: 0, downloads: 0, pages: [] };
+    if (row.kind === 'download') {
+      summary.downloads += row.count;
+    } else {
+      summary.views += row.count;
+      const page = summary.pages.find((p) => p.pageType === row.pageType && p.pageId === row.pageId);
+      if (page) {
+        page.views += row.count;
+        if (row.lastAt > page.lastViewAt) page.lastViewAt = row.lastAt;
+      } else {
+        summary.pages.push({ pageType: row.pageType, pageId: row.pageId, views: row.count, lastViewAt: row.lastAt });
+      }
+    }
+    byLink.set(row.shareLinkId, summary);
+  }
+  for (const summary of byLink.values()) {
+    summary.pages.sort((a, b) => b.lastViewAt.localeCompare(a.lastViewAt));
+  }
+  return byLink;
+}
+
+function toSummary(link: ShareLink & { _id: ObjectId }, views?: { views: number; downloads: number; pages: ShareLinkPageViews[] }): ShareLinkSummary {
+  return {
+    id: link._id.toHexString(),
+    pageId: link.pageId,
+    pageType: link.pageType,
+    label: link.label,
+    email: link.email,
+    createdAt: link.createdAt,
+    createdBy: link.createdBy,
+    expiresAt: link.expiresAt,
+    maxUses: link.maxUses,
+    useCount: link.useCount,
+    allowDownload: link.allowDownload,
+    lastUsedAt: link.lastUsedAt,
+    revokedAt: link.revokedAt,
+    revokedBy: link.revokedBy,
+    status: shareLinkStatus(link),
+    views: views?.views ?? 0,
+    downloads: views?.downloads ?? 0,
+    pages: views?.pages ?? [],
+  };
+}
+
+/**
+ * WHAT: Create a recipient link
+ * @returns the link and its URL; the URL carries the only copy of the token
+ * @throws Error with status 400 for invalid input, 409 when the page has no password
+ */
+export async function createShareLink(
+  db: Db,
+  input: unknown,
+  createdBy: string,
+  baseUrl: string
+): Promise<{ link: ShareLinkSummary; url: string }> {
+  const valid = validateShareLinkInput(input);
+  const pageId = await resolveCanonicalPageId(db, valid.pageId, valid.pageType);
+  const basePageId = pageId.split('::variant=')[0];
+  const isProtected = await db
+    .collection('page_passwords')
+    .findOne({ pageType: valid.pageType, pageId: { $in: [pageId, basePageId] } }, { projection: { _id: 1 } });
+  if (!isProtected) {
+    // An unprotected page is open to anyone, so a recipient link could neither be revoked nor logged
+    throw fail('This page has no password. Generate one before creating recipient links.', 409);
+  }
+
+  const token = randomBytes(24).toString('base64url');
+  const now = new Date();
+  const link: ShareLink = {
+    pageId,
+    pageType: valid.pageType,
+    label: valid.label,
+    email: valid.email,
+    tokenHash: hashToken(token),
+    createdAt: now.toISOString(),
+    createdBy,
+    expiresAt: valid.expiresInDays ? new Date(now.getTime() + valid.expiresInDays * 24 * 60 * 60 * 1000).toISOString() : null,
+    maxUses: valid.maxUses,
+    useCount: 0,
+    allowDownload: valid.allowDownload,
+    revokedAt: null,
+  };
+  const result = await db.collection<ShareLink>(SHARE_LINKS_COLLECTION).insertOne(link);
+
+  const url = buildPageUrl(pageId, valid.pageType, baseUrl);
+  return {
+    link: toSummary({ ...link, _id: result.insertedId }),
+    url: `${url}${url.includes('?') ? '&' : '?'}share=${encodeURIComponent(token)}`,
+  };
+}
+
+export async function listShareLinks(
+  db: Db,
+  params: { pageType?: string; pageId?: string; status?: ShareLinkStatus; limit?: number } = {}
+): Promise<ShareLinkSummary[]> {
+  const filter: Record<string, unknown> = {};
+  if (params.pageType) filter.pageType = params.pageType;
+  if (params.pageId) {
+    const pageId = params.pageType ? await resolveCanonicalPageId(db, params.pageId, params.pageType as PageType) : params.pageId;
+    // A base page's list includes its variants' links
+    filter.pageId = { $in: [pageId, new RegExp(`^${pageId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}::variant=`)] };
+  }
+  const limit = Math.min(Math.max(params.limit ?? 200, 1), 500);
+  const links = (await db
+    .collection<ShareLink>(SHARE_LINKS_COLLECTION)
+    .find(filter)
+    .sort({ createdAt: -1 })
+    .limit(limit)
+    .toArray()) as Array<ShareLink & { _id: ObjectId }>;
+  if (links.length === 0) return [];
+
+  const rows = await db
+    .collection(SHARE_LINK_VIEWS_COLLECTION)
+    .aggregate<{ _id: { shareLinkId: ObjectId; pageType: PageType; pageId: string; kind: ShareViewKind }; count: number; lastAt: string }>([
+      { $match: { shareLinkId: { $in: links.map((link) => link._id) } } },
+      { $group: { _id: { shareLinkId: '$shareLinkId', pageType: '$pageType', pageId: '$pageId', kind: '$kind' }, count: { $sum: 1 }, lastAt: { $max: '$at' } } },
+    ])
+    .toArray();
+  const views = summarizeShareViews(rows.map((row) => ({ ...row._id, shareLinkId: row._id.shareLinkId.toHexString(), count: row.count, lastAt: row.lastAt })));
+
+  return links
+    .map((link) => toSummary(link, views.get(link._id.toHexString())))
+    .filter((link) => !params.status || link.status === params.status);
+}
+
+/**
+ * WHAT: Revoke a recipient link; the record and its view log are kept
+ * NOTE: Takes effect on the recipient's next request — see checkShareGrant
+ * @throws Error with status 400 for an invalid id, 404 when there is no such link
+ */
+export async function revokeShareLink(db: Db, id: string, revokedBy: string): Promise<ShareLinkSummary> {
+  if (!ObjectId.isValid(id)) throw fail('Invalid share link id', 400);
+  const collection = db.collection<ShareLink>(SHARE_LINKS_COLLECTION);
+  const link = (await collection.findOne({ _id: new ObjectId(id) })) as (ShareLink & { _id: ObjectId }) | null;
+  if (!link) throw fail('Share link not found', 404);
+  if (link.revokedAt) return toSummary(link);
+
+  const revokedAt = new Date().toISOString();
+  await collection.updateOne({ _id: link._id }, { $set: { revokedAt, revokedBy } });
+  return toSummary({ ...link, revokedAt, revokedBy });
+}
+
+export async function listShareLinkViews(db: Db, id: string, limit = 100): Promise<ShareLinkView[]> {
+  if (!ObjectId.isValid(id)) throw fail('Invalid share link id', 400);
+  return db
+    .collection<ShareLinkView>(SHARE_LINK_VIEWS_COLLECTION)
+    .find({ shareLinkId: new ObjectId(id) })
+    .sort({ at: -1 })
+    .limit(Math.min(Math.max(limit, 1), 500))
+    .toArray();
+}
+
+async function recordView(db: Db, link: ShareLink & { _id: ObjectId }, pageType: PageType, pageId: string, kind: ShareViewKind, client: ClientInfo) {
+  const views = db.collection<ShareLinkView>(SHARE_LINK_VIEWS_COLLECTION);
+  const at = new Date();
+  if (kind === 'view') {
+    const recent = await views.findOne({
+      shareLinkId: link._id,
+      pageType,
+      pageId,
+      kind: { $in: ['open', 'view'] },
+      at: { $gt: new Date(at.getTime() - VIEW_DEDUPE_MS).toISOString() },
+    });
+    if (recent) return;
+  }
+  await views.insertOne({ shareLinkId: link._id, pageType, pageId, kind, at: at.toISOString(), ...client });
+}
+
+export function clientInfoFromHeaders(source: { get(name: string): string | null }): ClientInfo {
+  return {
+    userAgent: source.get('user-agent') || 'unknown',
+    ipAddress: source.get('x-forwarded-for')?.split(',')[0]?.trim() || source.get('x-real-ip') || 'unknown',
+  };
+}
+
+export type ShareRedeemResult =
+  | { ok: true; link: ShareLink & { _id: ObjectId } }
+  | { ok: false; reason: 'invalid' | Exclude<ShareLinkStatus, 'active'> };
+
+/**
+ * WHAT: Spend one use of a recipient link for the page it was opened on
+ * @returns the link, or why it was refused
+ */
+export async function redeemShareLink(db: Db, token: string, pageType: string, pageId: string, client: ClientInfo): Promise<ShareRedeemResult> {
+  if (!token) return { ok: false, reason: 'invalid' };
+  const collection = db.collection<ShareLink>(SHARE_LINKS_COLLECTION);
+  const link = (await collection.findOne({ tokenHash: hashToken(token) })) as (ShareLink & { _id: ObjectId }) | null;
+  if (!link || !matchesPage(link, pageType, pageId)) return { ok: false, reason: 'invalid' };
+  const status = shareLinkStatus(link);
+  if (status !== 'active') return { ok: false, reason: status };
+
+  // Conditional on the use count, so two recipients racing for the last use cannot both get it
+  const filter: Record<string, unknown> = { _id: link._id, revokedAt: null };
+  if (link.maxUses !== null) filter.useCount = { $lt: link.maxUses };
+  const updated = (await collection.findOneAndUpdate(
+    filter,
+    { $inc: { useCount: 1 }, $set: { lastUsedAt: new Date().toISOString() } },
+    { returnDocument: 'after' }
+  )) as (ShareLink & { _id: ObjectId }) | null;
+  if (!updated) return { ok: false, reason: link.maxUses !== null ? 'exhausted' : 'revoked' };
+
+  await recordView(db, updated, pageType as PageType, pageId, 'open', client);
+  return { ok: true, link: updated };
+}
+
+/**
+ * WHAT: Is a page-access grant that came from a recipient link still good?
+ * WHY: Called by lib/pageAccess.ts for every check on such a grant, so
+ *     revocation and expiry apply to sessions already open. Logs the page view
+ *     or download against the link.
+ * NOTE: A link that has used up its redemptions stays good for the sessions it
+ *     already opened; the limit is on how many times it can be opened.
+ */
+export async function checkShareGrant(
+  shareLinkId: string,
+  pageType: string,
+  pageId: string,
+  kind: Exclude<ShareViewKind, 'open'>
+): Promise<'allowed' | 'denied' | 'download_forbidden'> {
+  if (!ObjectId.isValid(shareLinkId)) return 'denied';
+  const db = await getDb();
+  const link = (await db
+    .collection<ShareLink>(SHARE_LINKS_COLLECTION)
+    .findOne({ _id: new ObjectId(shareLinkId) })) as (ShareLink & { _id: ObjectId }) | null;
+  if (!link || !matchesPage(link, pageType, pageId)) return 'denied';
+  const status = shareLinkStatus(link);
+  if (status === 'revoked' || status === 'expired') return 'denied';
+  if (kind === 'download' && !link.allowDownload) return 'download_forbidden';
+
+  await recordView(db, link, pageType as PageType, pageId, kind, clientInfoFromHeaders(await headers()));
+  return 'allowed';
+}
+
+/**
+ * WHAT: May the holder of this grant download the page?
+ * NOTE: Read-only — does not log a view
+ */
+export async function shareGrantAllowsDownload(shareLinkId: string): Promise<boolean> {
+  if (!ObjectId.isValid(shareLinkId)) return false;
+  const db = await getDb();
+  const link = await db
+    .collection<ShareLink>(SHARE_LINKS_COLLECTION)
+    .findOne({ _id: new ObjectId(shareLinkId) }, { projection: { allowDownload: 1 } });
+  return Boolean(link?.allowDownload);
+}
@@ -1,6 +1,7 @@
 import { MongoClient, ObjectId } from 'mongodb';
 import { v4 as uuidv4 } from 'uuid';
 import { CategorizedHashtagMap } from './hashtagCategoryTypes';
+import { formatFilterExpression, hashtagsInFilter, parseFilterExpression } from './filterQuery';
 
 const MONGODB_URI = process.env.MONGODB_URI || '';
 import config from './config';
@@ -378,34 +379,60 @@ interface FilterCombinationDoc {
   _id?: ObjectId;
   slug: string;
   hashtags: string[];
+  // Filter expression (lib/filterQuery.ts), canonical form; when set it defines the
+  // selection and `hashtags` only lists the tags it mentions
+  expression?: string;
   styleId?: string | null; // Optional explicit style for this filter
   createdAt: string;
   lastAccessed: string;
 }
 
 /**
- * Generate and save a filter slug for a hashtag combination
+ * WHAT: The filter_slugs lookup for a hashtag list or an expression
+ * WHY: Same identity for sharing and for the style selector; a hashtag list never
+ *     matches an expression filter that happens to mention the same tags
+ * @throws Error with status 400 when the expression does not parse
  */
-export async function generateFilterSlug(hashtags: string[], styleId?: string | null): Promise<string> {
+export function filterSlugIdentity(
+  hashtags: string[],
+  expression?: string | null
+): { query: Record<string, unknown>; hashtags: string[]; expression?: string } {
+  if (expression && expression.trim()) {
+    const node = parseFilterExpression(expression);
+    const canonical = formatFilterExpression(node);
+    return { query: { expression: canonical }, hashtags: hashtagsInFilter(node), expression: canonical };
+  }
+
+  // Normalize hashtags (lowercase, sorted)
+  const normalizedHashtags = hashtags
+    .map(tag => tag.toLowerCase().trim())
+    .filter(tag => tag.length > 0)
+    .sort();
+  return { query: { hashtags: { $eq: normalizedHashtags }, expression: { $exists: false } }, hashtags: normalizedHashtags };
+}
+
+/**
+ * Generate and save a filter slug for a hashtag combination or a filter expression
+ */
+export async function generateFilterSlug(
+  hashtags: string[],
+  styleId?: string | null,
+  expression?: string | null
+): Promise<string> {
   try {
     const client = await connectToDatabase();
     const db = client.db(MONGODB_DB);
     const collection = db.collection<FilterCombinationDoc>('filter_slugs');
 
-    // Normalize hashtags (lowercase, sorted)
-    const normalizedHashtags = hashtags
-      .map(tag => tag.toLowerCase().trim())
-      .filter(tag => tag.length > 0)
-      .sort();
+    const identity = filterSlugIdentity(hashtags, expression);
+    const normalizedHashtags = identity.hashtags;
 
-    if (normalizedHashtags.length === 0) {
+    if (!identity.expression && normalizedHashtags.length === 0) {
       throw new Error('No valid hashtags provided');
     }
 
     // Check if this combination already exists
-    const existingFilter = await collection.findOne({
-      hashtags: { $eq: normalizedHashtags }
-    });
+    const existingFilter = await collection.findOne(identity.query);
 
     if (existingFilter) {
       // WHAT: Check if existing filter has an empty slug (created by style selector)
@@ -475,6 +502,7 @@ export async function generateFilterSlug(hashtags: string[], styleId?: string |
     await collection.insertOne({
       slug,
       hashtags: normalizedHashtags,
+      ...(identity.expression ? { expression: identity.expression } : {}),
       styleId: styleId && styleId !== 'null' ? styleId : null,
       createdAt: now,
       lastAccessed: now
@@ -488,9 +516,11 @@ export async function generateFilterSlug(hashtags: string[], styleId?: string |
 }
 
 /**
- * Find hashtags by filter slug
+ * Find hashtags (and the filter expression, if any) by filter slug
  */
-export async function findHashtagsByFilterSlug(filterSlug: string): Promise<{ hashtags: string[]; styleId?: string | null } | null> {
+export async function findHashtagsByFilterSlug(
+  filterSlug: string
+): Promise<{ hashtags: string[]; expression?: string; styleId?: string | null } | null> {
   try {
     const client = await connectToDatabase();
     const db = client.db(MONGODB_DB);
@@ -504,7 +534,7 @@ export async function findHashtagsByFilterSlug(filterSlug: string): Promise<{ ha
         { _id: (filter as any)._id },
         { $set: { lastAccessed: new Date().toISOString() } }
       );
-      return { hashtags: filter.hashtags, styleId: filter.styleId };
+      return { hashtags: filter.hashtags, expression: filter.expression, styleId: filter.styleId };
     }
     
     return null;
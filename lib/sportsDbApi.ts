@@ -289,6 +289,28 @@ export async function fetchTeamPastEvents(teamId: string) {
   return res.events || [];
 }
 
+/**
+ * WHAT: Lookup one event by ID
+ * WHY: Post-match backfill reads the final score and status
+ */
+export async function lookupEvent(eventId: string) {
+  const endpoint = `lookupevent.php?id=${encodeURIComponent(eventId)}`;
+  const cacheKey = `lookup:event:${eventId}`;
+  const res = await fetchWithRateLimit<import('./sportsDbTypes').SportsDbEventsResponse>(endpoint, cacheKey, 5 * 60 * 1000);
+  return res.events?.[0] || null;
+}
+
+/**
+ * WHAT: Match statistics for one event (possession, shots, cards, …)
+ * WHY: Post-match backfill; empty for events TheSportsDB has no stats for
+ */
+export async function lookupEventStats(eventId: string) {
+  const endpoint = `lookupeventstats.php?id=${encodeURIComponent(eventId)}`;
+  const cacheKey = `lookup:eventstats:${eventId}`;
+  const res = await fetchWithRateLimit<import('./sportsDbTypes').SportsDbEventStatsResponse>(endpoint, cacheKey, 5 * 60 * 1000);
+  return res.eventstats || [];
+}
+
 /**
  * WHAT: Clear all cached data
  * WHY: Allow manual cache invalidation if needed
@@ -151,3 +151,15 @@ export interface SportsDbEvent {
 export interface SportsDbEventsResponse {
   events: SportsDbEvent[] | null;
 }
+
+// One match statistic (lookupeventstats.php), e.g. strStat "Ball Possession"
+export interface SportsDbEventStat {
+  idEvent: string;
+  strStat: string;
+  intHome: string | null;
+  intAway: string | null;
+}
+
+export interface SportsDbEventStatsResponse {
+  eventstats: SportsDbEventStat[] | null;
+}
@@ -135,6 +135,15 @@ export interface ProjectDTO {
   editSlug?: string;
   createdAt: string;
   updatedAt: string;
+
+  // Fixture the event was created from (lib/fixtures/drafts.ts); status kept current by the post-match backfill
+  fixture?: {
+    fixtureId: string;
+    competition: string | null;
+    kickoffAt: string | null;
+    status: 'scheduled' | 'live' | 'finished' | 'postponed' | 'cancelled' | 'unknown';
+    result?: { provider: string; score: { home: number | null; away: number | null }; fetchedAt: string };
+  } | null;
   
   // Google Sheets sync fields (v12.0.0)
   googleSheetUuid?: string;
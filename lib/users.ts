@@ -37,6 +37,7 @@ export interface UserDoc {
   apiKeyEnabled?: boolean // Enable/disable API access for this user (default: false)
   apiUsageCount?: number // Track API calls made with this user's key
   lastAPICallAt?: string // ISO 8601 with milliseconds - last successful API request
+  apiRateLimitPerMinute?: number // Requests per minute for this user's API key (default: RATE_LIMITS.API_KEY)
   // API Write Access fields (Fanmass integration)
   apiWriteEnabled?: boolean // Enable/disable API write access for this user (default: false)
   apiWriteCount?: number // Track API write operations made with this user's key
@@ -299,6 +300,28 @@ export async function toggleAPIAccess(id: string, enabled: boolean): Promise<Use
   return findUserById(id)
 }
 
+/**
+ * setAPIRateLimit
+ * WHAT: Set or clear the per-minute request limit of a user's API key
+ * WHY: One integration may need more than the default quota, another less;
+ *      null goes back to the default (RATE_LIMITS.API_KEY in lib/rateLimit.ts)
+ */
+export async function setAPIRateLimit(id: string, perMinute: number | null): Promise<UserDoc | null> {
+  const col = await getUsersCollection()
+  if (!ObjectId.isValid(id)) return null
+  
+  const now = new Date().toISOString()
+  
+  await col.updateOne(
+    { _id: new ObjectId(id) },
+    perMinute === null
+      ? { $set: { updatedAt: now }, $unset: { apiRateLimitPerMinute: '' } }
+      : { $set: { apiRateLimitPerMinute: perMinute, updatedAt: now } }
+  )
+  
+  return findUserById(id)
+}
+
 
 /**
  * toggleAPIWriteAccess
@@ -0,0 +1,258 @@
+// lib/v3/entityGraph.ts
+// WHAT: Traversal of V3EntityRelationship links (sister / provider / client /
+//     associated) — neighbors, N-hop expansion and paths between two entities
+// WHY: Reporting only followed parentEntityId, so "all clients of this
+//     provider" or "the sister clubs" could not be rolled up.
+// HOW: A relationship is stored once but read from both ends: relationType
+//     says what `to` is for `from` ({ from: P, to: C, relationType: 'client' }
+//     = "C is a client of P"), and from C's side the same link reads 'provider'.
+//     Traversal is breadth-first over those per-entity edges with a visited set,
+//     so cycles (A sister B sister A, provider ⇄ client) terminate. Edges are
+//     loaded per hop through an injected loader — MongoDB in the routes,
+//     plain arrays in tests.
+
+import V3EntityRelationship from '@/lib/models/v3/EntityRelationship';
+
+export type RelationType = 'sister' | 'provider' | 'client' | 'associated';
+
+export const RELATION_TYPES: readonly RelationType[] = ['sister', 'provider', 'client', 'associated'];
+
+// What the `from` entity is for the `to` entity
+export const INVERSE_RELATION: Record<RelationType, RelationType> = {
+  sister: 'sister',
+  provider: 'client',
+  client: 'provider',
+  associated: 'associated',
+};
+
+export const MAX_GRAPH_HOPS = 5;
+export const MAX_GRAPH_NODES = 1000;
+export const MAX_GRAPH_PATHS = 50;
+
+export interface StoredRelationship {
+  _id: unknown;
+  fromEntityId: unknown;
+  toEntityId: unknown;
+  relationType: RelationType;
+}
+
+// One link seen from `entityId`: `neighborId` is `relationType` of `entityId`
+export interface GraphEdge {
+  relationshipId: string;
+  entityId: string;
+  neighborId: string;
+  relationType: RelationType;
+}
+
+export interface GraphNode {
+  entityId: string;
+  hops: number;
+  // How the node was first reached (absent for the start entity)
+  via?: { entityId: string; relationType: RelationType; relationshipId: string };
+}
+
+export type EdgeLoader = (entityIds: string[]) => Promise<GraphEdge[]>;
+
+export function isRelationType(value: unknown): value is RelationType {
+  return typeof value === 'string' && (RELATION_TYPES as readonly string[]).includes(value);
+}
+
+/**
+ * WHAT: Parse a comma-separated relation type filter (?relationTypes=client,sister)
+ * @returns null for "all types"; throws a 400 on an unknown type
+ */
+export function parseRelationTypes(param: string | null): RelationType[] | null {
+  if (!param) return null;
+  const types = param.split(',').map((t) => t.trim()).filter(Boolean);
+  const unknown = types.filter((t) => !isRelationType(t));
+  if (unknown.length > 0) {
+    throw Object.assign(new Error(`Unknown relation type(s): ${unknown.join(', ')}`), { status: 400 });
+  }
+  return types.length > 0 ? (types as RelationType[]) : null;
+}
+
+export function clampHops(param: string | number | null | undefined, fallback = 1): number {
+  const hops = typeof param === 'number' ? param : parseInt(param || '', 10);
+  if (!Number.isFinite(hops)) return fallback;
+  return Math.min(Math.max(Math.trunc(hops), 1), MAX_GRAPH_HOPS);
+}
+
+/**
+ * WHAT: The edges a stored relationship contributes, one per end
+ */
+export function toGraphEdges(relationship: StoredRelationship): GraphEdge[] {
+  const relationshipId = String(relationship._id);
+  const from = String(relationship.fromEntityId);
+  const to = String(relationship.toEntityId);
+  return [
+    { relationshipId, entityId: from, neighborId: to, relationType: relationship.relationType },
+    { relationshipId, entityId: to, neighborId: from, relationType: INVERSE_RELATION[relationship.relationType] },
+  ];
+}
+
+/**
+ * WHAT: Whether two stored links describe the same relationship
+ * WHY: { P → C, client } and { C → P, provider } are one link; creating both
+ *     would double every traversal
+ */
+export function isSameRelationship(
+  a: Pick<StoredRelationship, 'fromEntityId' | 'toEntityId' | 'relationType'>,
+  b: Pick<StoredRelationship, 'fromEntityId' | 'toEntityId' | 'relationType'>
+): boolean {
+  const [af, at, bf, bt] = [a.fromEntityId, a.toEntityId, b.fromEntityId, b.toEntityId].map(String);
+  if (af === bf && at === bt) return a.relationType === b.relationType;
+  if (af === bt && at === bf) return INVERSE_RELATION[a.relationType] === b.relationType;
+  return false;
+}
+
+export interface RelationshipInput {
+  fromEntityId?: string;
+  toEntityId?: string;
+  relationType?: RelationType;
+  metadata?: Record<string, unknown>;
+}
+
+const OBJECT_ID_PATTERN = /^[a-f0-9]{24}$/i;
+
+/**
+ * WHAT: Validate a create (full) or update (partial) body for /api/v3/relationships
+ * NOTE: The endpoints are fixed once created — delete and re-create to move a link
+ */
+export function parseRelationshipInput(body: unknown, options: { partial?: boolean } = {}): RelationshipInput {
+  const badRequest = (message: string) => Object.assign(new Error(message), { status: 400 });
+  if (!body || typeof body !== 'object') throw badRequest('Request body must be an object');
+  const raw = body as Record<string, unknown>;
+  const input: RelationshipInput = {};
+
+  if (options.partial) {
+    if (raw.fromEntityId !== undefined || raw.toEntityId !== undefined) throw badRequest('fromEntityId and toEntityId cannot be changed');
+  } else {
+    for (const field of ['fromEntityId', 'toEntityId'] as const) {
+      const value = raw[field];
+      if (typeof value !== 'string' || !OBJECT_ID_PATTERN.test(value)) throw badRequest(`${field} must be a valid id`);
+      input[field] = value;
+    }
+    if (input.fromEntityId === input.toEntityId) throw badRequest('An entity cannot be related to itself');
+  }
+  if (raw.relationType !== undefined || !options.partial) {
+    if (!isRelationType(raw.relationType)) throw badRequest(`relationType must be one of: ${RELATION_TYPES.join(', ')}`);
+    input.relationType = raw.relationType;
+  }
+  if (raw.metadata !== undefined) {
+    if (!raw.metadata || typeof raw.metadata !== 'object' || Array.isArray(raw.metadata)) throw badRequest('metadata must be an object');
+    input.metadata = raw.metadata as Record<string, unknown>;
+  }
+  return input;
+}
+
+/**
+ * WHAT: MongoDB filter for the link between two entities in either direction
+ * HOW: Candidates only — confirm with isSameRelationship, which knows the inverse type
+ */
+export function relationshipPairFilter(organizationId: string, a: string, b: string) {
+  return {
+    organizationId,
+    $or: [
+      { fromEntityId: a, toEntityId: b },
+      { fromEntityId: b, toEntityId: a },
+    ],
+  };
+}
+
+function matches(edge: GraphEdge, relationTypes: RelationType[] | null): boolean {
+  return !relationTypes || relationTypes.includes(edge.relationType);
+}
+
+/**
+ * WHAT: Breadth-first expansion from one entity, up to `maxHops`
+ * @returns every reached entity (start included, hops 0) and the edges walked
+ */
+export async function expandGraph(
+  startId: string,
+  options: { maxHops: number; relationTypes: RelationType[] | null; loadEdges: EdgeLoader; maxNodes?: number }
+): Promise<{ nodes: GraphNode[]; edges: GraphEdge[]; truncated: boolean }> {
+  const maxNodes = options.maxNodes ?? MAX_GRAPH_NODES;
+  const nodes = new Map<string, GraphNode>([[startId, { entityId: startId, hops: 0 }]]);
+  const edges = new Map<string, GraphEdge>();
+  let frontier = [startId];
+  let truncated = false;
+
+  for (let hop = 1; hop <= options.maxHops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    const current = new Set(frontier);
+    for (const edge of await options.loadEdges(frontier)) {
+      if (!current.has(edge.entityId) || !matches(edge, options.relationTypes)) continue;
+      edges.set(`${edge.relationshipId}:${edge.entityId}`, edge);
+      if (nodes.has(edge.neighborId)) continue;
+      if (nodes.size >= maxNodes) {
+        truncated = true;
+        continue;
+      }
+      nodes.set(edge.neighborId, {
+        entityId: edge.neighborId,
+        hops: hop,
+        via: { entityId: edge.entityId, relationType: edge.relationType, relationshipId: edge.relationshipId },
+      });
+      next.push(edge.neighborId);
+    }
+    frontier = next;
+  }
+
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()), truncated };
+}
+
+/**
+ * WHAT: Simple paths (no entity twice) from one entity to another, shortest first
+ * HOW: Breadth-first over partial paths; a path never revisits its own
+ *     entities, which is what keeps cycles finite
+ */
+export async function findPaths(
+  fromId: string,
+  toId: string,
+  options: { maxHops: number; relationTypes: RelationType[] | null; loadEdges: EdgeLoader; limit?: number }
+): Promise<GraphEdge[][]> {
+  const limit = options.limit ?? MAX_GRAPH_PATHS;
+  const found: GraphEdge[][] = [];
+  const edgeCache = new Map<string, GraphEdge[]>();
+  let partial: Array<{ at: string; steps: GraphEdge[]; seen: Set<string> }> = [{ at: fromId, steps: [], seen: new Set([fromId]) }];
+
+  for (let hop = 1; hop <= options.maxHops && partial.length > 0 && found.length < limit; hop++) {
+    const missing = Array.from(new Set(partial.map((p) => p.at))).filter((id) => !edgeCache.has(id));
+    if (missing.length > 0) {
+      missing.forEach((id) => edgeCache.set(id, []));
+      for (const edge of await options.loadEdges(missing)) edgeCache.get(edge.entityId)?.push(edge);
+    }
+
+    const next: typeof partial = [];
+    for (const path of partial) {
+      for (const edge of edgeCache.get(path.at) ?? []) {
+        if (!matches(edge, options.relationTypes) || path.seen.has(edge.neighborId)) continue;
+        const steps = [...path.steps, edge];
+        if (edge.neighborId === toId) {
+          found.push(steps);
+          if (found.length >= limit) return found;
+          continue;
+        }
+        // Bound memory on dense graphs: partial paths count against the node cap
+        if (next.length < MAX_GRAPH_NODES) next.push({ at: edge.neighborId, steps, seen: new Set(path.seen).add(edge.neighborId) });
+      }
+    }
+    partial = next;
+  }
+
+  return found;
+}
+
+/**
+ * WHAT: Edge loader backed by v3_relationships, scoped to one organization
+ */
+export function createRelationshipLoader(organizationId: string): EdgeLoader {
+  return async (entityIds) => {
+    const relationships = await V3EntityRelationship.find({
+      organizationId,
+      $or: [{ fromEntityId: { $in: entityIds } }, { toEntityId: { $in: entityIds } }],
+    }).lean<StoredRelationship[]>();
+    const wanted = new Set(entityIds);
+    return relationships.flatMap(toGraphEdges).filter((edge) => wanted.has(edge.entityId));
+  };
+}
@@ -0,0 +1,282 @@
+// lib/v3/metricCatalog.ts
+// WHAT: The V3MetricDefinition catalog as the contract for metric ingestion
+// WHY: POST /api/v3/metrics/record inserted whatever metricKey and value the
+//     caller sent, so a typo created a new metric and "12%" or a duration in
+//     minutes landed next to seconds. Every point is now checked against its
+//     definition: known key, numeric value in range, unit converted to the
+//     definition's unit. Bad points are reported per index; good ones still land.
+// HOW: Pure validation here (testable without MongoDB); the record route loads
+//     the definitions and entities, inserts the normalised documents and maps
+//     duplicate idempotency keys back to their points.
+
+export type MetricType = 'number' | 'currency' | 'percentage' | 'duration';
+
+export const METRIC_TYPES: readonly MetricType[] = ['number', 'currency', 'percentage', 'duration'];
+
+// Seconds per unit; a duration definition without a unit stores seconds
+export const DURATION_UNITS: Record<string, number> = { ms: 0.001, s: 1, min: 60, h: 3600, d: 86400 };
+
+const METRIC_KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+const OBJECT_ID_PATTERN = /^[a-f0-9]{24}$/i;
+
+export const MAX_DATA_POINTS = 5000;
+
+export interface MetricDefinitionLike {
+  key: string;
+  type: MetricType;
+  unit?: string | null;
+  min?: number | null;
+  max?: number | null;
+  integer?: boolean | null;
+}
+
+export interface MetricDefinitionInput {
+  name?: string;
+  key?: string;
+  type?: MetricType;
+  unit?: string;
+  min?: number | null;
+  max?: number | null;
+  integer?: boolean;
+  metadata?: Record<string, unknown>;
+}
+
+export interface DataPointError {
+  index: number;
+  metricKey?: string;
+  error: string;
+}
+
+export interface NormalizedDataPoint {
+  index: number;
+  document: {
+    organizationId: string;
+    entityId: string;
+    activityId: string | null;
+    metricKey: string;
+    value: number;
+    timestamp: Date;
+    metadata: Record<string, unknown>;
+    idempotencyKey?: string;
+  };
+}
+
+export type InsertOutcome = 'inserted' | 'duplicate' | 'failed';
+
+export function isMetricType(value: unknown): value is MetricType {
+  return typeof value === 'string' && (METRIC_TYPES as readonly string[]).includes(value);
+}
+
+export function isValidMetricKey(value: unknown): value is string {
+  return typeof value === 'string' && METRIC_KEY_PATTERN.test(value);
+}
+
+/**
+ * WHAT: The unit values of a definition are stored in
+ */
+export function canonicalUnit(definition: Pick<MetricDefinitionLike, 'type' | 'unit'>): string {
+  const unit = (definition.unit || '').trim();
+  if (definition.type === 'duration') return unit && DURATION_UNITS[unit] ? unit : 's';
+  if (definition.type === 'percentage') return '%';
+  if (definition.type === 'currency') return unit.toUpperCase();
+  return unit;
+}
+
+function badRequest(message: string): Error {
+  return Object.assign(new Error(message), { status: 400 });
+}
+
+function optionalBound(value: unknown, field: string): number | null {
+  if (value === null) return null;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw badRequest(`${field} must be a number or null`);
+  return value;
+}
+
+/**
+ * WHAT: Validate a create (full) or update (partial) body for /api/v3/metric-definitions
+ * NOTE: key is only accepted on create — values reference it, so it never changes
+ */
+export function parseMetricDefinitionInput(body: unknown, options: { partial?: boolean } = {}): MetricDefinitionInput {
+  if (!body || typeof body !== 'object') throw badRequest('Request body must be an object');
+  const raw = body as Record<string, unknown>;
+  const input: MetricDefinitionInput = {};
+  const required = !options.partial;
+
+  if (required) {
+    if (!isValidMetricKey(raw.key)) throw badRequest('key must start with a letter and contain only letters, digits and underscores');
+    input.key = raw.key;
+  } else if (raw.key !== undefined) {
+    throw badRequest('key cannot be changed');
+  }
+  if (raw.name !== undefined || required) {
+    if (typeof raw.name !== 'string' || !raw.name.trim()) throw badRequest('name is required');
+    input.name = raw.name.trim();
+  }
+  if (raw.type !== undefined || required) {
+    if (!isMetricType(raw.type)) throw badRequest(`type must be one of: ${METRIC_TYPES.join(', ')}`);
+    input.type = raw.type;
+  }
+  if (raw.unit !== undefined) {
+    if (typeof raw.unit !== 'string') throw badRequest('unit must be a string');
+    input.unit = raw.unit.trim();
+  }
+  if (raw.min !== undefined) input.min = optionalBound(raw.min, 'min');
+  if (raw.max !== undefined) input.max = optionalBound(raw.max, 'max');
+  if (typeof input.min === 'number' && typeof input.max === 'number' && input.min > input.max) {
+    throw badRequest('min cannot be greater than max');
+  }
+  if (raw.integer !== undefined) {
+    if (typeof raw.integer !== 'boolean') throw badRequest('integer must be true or false');
+    input.integer = raw.integer;
+  }
+  if (raw.metadata !== undefined) {
+    if (!raw.metadata || typeof raw.metadata !== 'object' || Array.isArray(raw.metadata)) throw badRequest('metadata must be an object');
+    input.metadata = raw.metadata as Record<string, unknown>;
+  }
+
+  if (input.type === 'duration' && input.unit && !DURATION_UNITS[input.unit]) {
+    throw badRequest(`duration unit must be one of: ${Object.keys(DURATION_UNITS).join(', ')}`);
+  }
+  return input;
+}
+
+/**
+ * WHAT: Convert one value into its definition's unit and check type and range
+ * HOW: No unit (or the canonical one) → stored as is. Durations convert between
+ *     ms/s/min/h/d; percentages are stored in percent and also accept
+ *     'ratio' input (0.12 → 12). Currencies never
+ *     convert — a different currency is rejected rather than guessing a rate.
+ */
+export function normalizeMetricValue(
+  definition: MetricDefinitionLike,
+  value: unknown,
+  unit?: unknown
+): { value: number; converted: boolean } | { error: string } {
+  if (typeof value !== 'number' || !Number.isFinite(value)) return { error: 'value must be a finite number' };
+  if (unit !== undefined && unit !== null && typeof unit !== 'string') return { error: 'unit must be a string' };
+
+  const target = canonicalUnit(definition);
+  const given = typeof unit === 'string' ? unit.trim() : '';
+  let normalized = value;
+
+  if (given && given !== target) {
+    if (definition.type === 'duration' && DURATION_UNITS[given]) {
+      normalized = (value * DURATION_UNITS[given]) / DURATION_UNITS[target];
+    } else if (definition.type === 'percentage' && given === 'ratio') {
+      normalized = value * 100;
+    } else if (definition.type === 'currency' && given.toUpperCase() === target) {
+      normalized = value;
+    } else {
+      return { error: `unit '${given}' cannot be converted to '${target || 'no unit'}'` };
+    }
+  }
+
+  if (definition.type === 'duration' && normalized < 0) return { error: 'duration cannot be negative' };
+  if (definition.integer && !Number.isInteger(normalized)) return { error: 'value must be a whole number' };
+  if (typeof definition.min === 'number' && normalized < definition.min) return { error: `value must be at least ${definition.min}` };
+  if (typeof definition.max === 'number' && normalized > definition.max) return { error: `value must be at most ${definition.max}` };
+
+  return { value: normalized, converted: normalized !== value };
+}
+
+/**
+ * WHAT: Validate a whole ingestion batch
+ * @param definitions - catalog entries by key (only the keys in the batch are needed)
+ * @param entityIds - ids of the organization's entities referenced by the batch
+ * @param batchKey - Idempotency-Key header; point i gets `${batchKey}:${i}` unless it has its own key
+ */
+export function validateDataPoints(
+  dataPoints: unknown[],
+  context: {
+    organizationId: string;
+    definitions: Map<string, MetricDefinitionLike>;
+    entityIds: Set<string>;
+    batchKey?: string | null;
+    now?: Date;
+  }
+): { points: NormalizedDataPoint[]; errors: DataPointError[] } {
+  const points: NormalizedDataPoint[] = [];
+  const errors: DataPointError[] = [];
+  const now = context.now ?? new Date();
+
+  dataPoints.forEach((raw, index) => {
+    if (!raw || typeof raw !== 'object') {
+      errors.push({ index, error: 'data point must be an object' });
+      return;
+    }
+    const dp = raw as Record<string, unknown>;
+    const metricKey = typeof dp.metricKey === 'string' ? dp.metricKey : undefined;
+    const fail = (error: string) => errors.push({ index, metricKey, error });
+
+    if (!metricKey) return fail('metricKey is required');
+    const definition = context.definitions.get(metricKey);
+    if (!definition) return fail(`unknown metricKey '${metricKey}' (not in the metric catalog)`);
+
+    if (typeof dp.entityId !== 'string' || !OBJECT_ID_PATTERN.test(dp.entityId)) return fail('entityId must be a valid id');
+    if (!context.entityIds.has(dp.entityId)) return fail('entityId not found in this organization');
+    if (dp.activityId !== undefined && dp.activityId !== null && (typeof dp.activityId !== 'string' || !OBJECT_ID_PATTERN.test(dp.activityId))) {
+      return fail('activityId must be a valid id');
+    }
+
+    let timestamp = now;
+    if (dp.timestamp !== undefined && dp.timestamp !== null) {
+      timestamp = new Date(dp.timestamp as string);
+      if (typeof dp.timestamp !== 'string' || Number.isNaN(timestamp.getTime())) return fail('timestamp must be an ISO date string');
+    }
+
+    const normalized = normalizeMetricValue(definition, dp.value, dp.unit);
+    if ('error' in normalized) return fail(normalized.error);
+
+    let idempotencyKey: string | undefined;
+    if (dp.idempotencyKey !== undefined && dp.idempotencyKey !== null) {
+      if (typeof dp.idempotencyKey !== 'string' || !dp.idempotencyKey.trim()) return fail('idempotencyKey must be a non-empty string');
+      idempotencyKey = dp.idempotencyKey.trim();
+    } else if (context.batchKey) {
+      idempotencyKey = `${context.batchKey}:${index}`;
+    }
+
+    const metadata = dp.metadata && typeof dp.metadata === 'object' && !Array.isArray(dp.metadata)
+      ? { ...(dp.metadata as Record<string, unknown>) }
+      : {};
+    if (normalized.converted) {
+      metadata.originalValue = dp.value;
+      metadata.originalUnit = dp.unit;
+    }
+
+    points.push({
+      index,
+      document: {
+        organizationId: context.organizationId,
+        entityId: dp.entityId,
+        activityId: (dp.activityId as string | undefined) ?? null,
+        metricKey,
+        value: normalized.value,
+        timestamp,
+        metadata,
+        ...(idempotencyKey ? { idempotencyKey } : {}),
+      },
+    });
+  });
+
+  return { points, errors };
+}
+
+/**
+ * WHAT: Classify per-document results of an unordered insertMany
+ * WHY: Mongoose reports each slot as the inserted document, a validation Error
+ *     or a spread driver WriteError ({ err: { code, errmsg }, index } — the
+ *     driver exposes code/errmsg only as prototype getters, so the spread
+ *     keeps them under err); a duplicate idempotency key (11000) means the
+ *     point was already recorded — not a failure
+ */
+export function classifyInsertResult(result: unknown): { outcome: InsertOutcome; error?: string } {
+  if (result && typeof result === 'object') {
+    const entry = result as { code?: number; errmsg?: string; message?: string; err?: { code?: number; errmsg?: string } };
+    const code = entry.err?.code ?? entry.code;
+    const errmsg = entry.err?.errmsg ?? entry.errmsg;
+    if (code === 11000) return { outcome: 'duplicate' };
+    if (result instanceof Error) return { outcome: 'failed', error: entry.message };
+    if (typeof errmsg === 'string') return { outcome: 'failed', error: errmsg };
+  }
+  return { outcome: 'inserted' };
+}
@@ -1,3 +1,4 @@
+import mongoose from 'mongoose';
 import connectV3 from '@/lib/mongoose-v3';
 import V3Entity from '@/lib/models/v3/Entity';
 import V3MetricValue from '@/lib/models/v3/MetricValue';
@@ -13,24 +14,26 @@ export class V3ReportingResolver {
    * getDescendantIds
    * Recursively finds all children, grandchildren, etc. of an entity.
    */
-  private static async getDescendantIds(entityId: string): Promise<string[]> {
-    const descendants: string[] = [entityId];
+  private static async getDescendantIds(entityId: string | string[]): Promise<string[]> {
+    const roots = Array.isArray(entityId) ? entityId : [entityId];
+    const descendants = new Set<string>(roots);
     
-    // Breadth-first search for children
-    let toProcess = [entityId];
+    // Breadth-first search for children; already-seen ids are not expanded
+    // again, so a parentEntityId cycle cannot loop forever
+    let toProcess = roots;
     while (toProcess.length > 0) {
       const children = await V3Entity.find({ 
         parentEntityId: { $in: toProcess } 
       }).select('_id').lean();
       
-      const childIds = children.map(c => c._id.toString());
+      const childIds = children.map(c => c._id.toString()).filter(id => !descendants.has(id));
       if (childIds.length === 0) break;
       
-      descendants.push(...childIds);
+      childIds.forEach(id => descendants.add(id));
       toProcess = childIds;
     }
     
-    return Array.from(new Set(descendants));
+    return Array.from(descendants);
   }
 
   /**
@@ -50,13 +53,53 @@ export class V3ReportingResolver {
       entityIds = await this.getDescendantIds(entityId);
     }
 
+    const totals = await this.sumMetric(organizationId, entityIds, metricKey, options);
+    return {
+      entityId,
+      metricKey,
+      descendantCount: entityIds ? entityIds.length - 1 : 0,
+      ...totals,
+    };
+  }
+
+  /**
+   * aggregateMetricForEntities
+   * Sums a metric across several root entities and all their descendants,
+   * counting an entity reached from two roots once. Used for relationship
+   * rollups (e.g. all clients of a provider, see lib/v3/entityGraph.ts).
+   */
+  static async aggregateMetricForEntities(
+    organizationId: string,
+    rootEntityIds: string[],
+    metricKey: string,
+    options: { startDate?: Date; endDate?: Date } = {}
+  ) {
+    await connectV3();
+
+    const entityIds = rootEntityIds.length > 0 ? await this.getDescendantIds(rootEntityIds) : [];
+    const totals = await this.sumMetric(organizationId, entityIds, metricKey, options);
+    return {
+      metricKey,
+      rootCount: rootEntityIds.length,
+      entityCount: entityIds.length,
+      ...totals,
+    };
+  }
+
+  private static async sumMetric(
+    organizationId: string,
+    entityIds: string[] | null,
+    metricKey: string,
+    options: { startDate?: Date; endDate?: Date }
+  ): Promise<{ total: number; count: number }> {
+    // aggregate() bypasses Mongoose casting, so ids must be ObjectIds to match
     const match: any = {
-      organizationId,
+      organizationId: new mongoose.Types.ObjectId(organizationId),
       metricKey,
     };
 
     if (entityIds) {
-      match.entityId = { $in: entityIds };
+      match.entityId = { $in: entityIds.map(id => new mongoose.Types.ObjectId(id)) };
     }
 
     if (options.startDate || options.endDate) {
@@ -71,9 +114,6 @@ export class V3ReportingResolver {
     ]);
 
     return {
-      entityId,
-      metricKey,
-      descendantCount: entityIds ? entityIds.length - 1 : 0,
       total: result[0]?.total || 0,
       count: result[0]?.count || 0
     };
@@ -0,0 +1,337 @@
+// lib/v3/thresholdAlerts.ts
+// WHAT: Evaluates V3MetricThreshold documents and raises alerts
+// WHY: Thresholds were stored but never checked, so alertEmail never heard
+//     about anything. The evaluator runs after POST /api/v3/metrics/record
+//     (for the recorded metric keys) and on a schedule (/api/cron/metric-thresholds,
+//     which also catches values leaving a rolling window).
+// HOW: Each threshold is a two-state machine (ok ⇄ triggered):
+//   - ok → triggered when the aggregated value breaches the threshold. If the
+//     last notification is younger than cooldownMinutes the alert is recorded
+//     as suppressed and nobody is notified.
+//   - triggered → ok only once the value is back past the threshold by the
+//     hysteresis margin, so a value hovering around the threshold does not flap.
+//   A breach that persists stays triggered and sends nothing further.
+//   Transitions are claimed with a conditional update on the stored state, so
+//   the record hook and the cron evaluating at the same moment alert once.
+
+import connectV3 from '@/lib/mongoose-v3';
+import V3Entity from '@/lib/models/v3/Entity';
+import V3MetricAlert from '@/lib/models/v3/MetricAlert';
+import V3MetricThreshold from '@/lib/models/v3/MetricThreshold';
+import { V3ReportingResolver } from '@/lib/v3/reporting/resolver';
+import { getDb } from '@/lib/db';
+import { createNotification } from '@/lib/notificationUtils';
+import { sendMetricThresholdAlertEmail } from '@/lib/emailNotifications';
+import { error as logError, info as logInfo } from '@/lib/logger';
+
+export type ThresholdComparison = 'gt' | 'lt' | 'gte' | 'lte' | 'eq';
+export type ThresholdState = 'ok' | 'triggered';
+export type ThresholdAction = 'trigger' | 'suppress' | 'recover' | 'none';
+export type ThresholdEvaluationSource = 'record' | 'schedule';
+
+export const THRESHOLD_COMPARISONS: readonly ThresholdComparison[] = ['gt', 'lt', 'gte', 'lte', 'eq'];
+
+export const THRESHOLD_COMPARISON_LABELS: Record<ThresholdComparison, string> = {
+  gt: 'above',
+  lt: 'below',
+  gte: 'at or above',
+  lte: 'at or below',
+  eq: 'equal to',
+};
+
+export const DEFAULT_COOLDOWN_MINUTES = 60;
+
+const SYSTEM_ACTOR = 'Metric Alerts';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ThresholdRule {
+  comparison: ThresholdComparison;
+  thresholdValue: number;
+  hysteresis?: number | null;
+  cooldownMinutes?: number | null;
+  state?: ThresholdState | null;
+  lastNotifiedAt?: Date | string | null;
+}
+
+export interface ThresholdInput {
+  entityId?: string;
+  metricKey?: string;
+  thresholdValue?: number;
+  comparison?: ThresholdComparison;
+  alertEmail?: string | null;
+  enabled?: boolean;
+  windowDays?: number | null;
+  cooldownMinutes?: number;
+  hysteresis?: number;
+}
+
+export interface ThresholdEvaluationSummary {
+  evaluated: number;
+  triggered: number;
+  suppressed: number;
+  recovered: number;
+  failed: number;
+}
+
+export function isThresholdComparison(value: unknown): value is ThresholdComparison {
+  return typeof value === 'string' && (THRESHOLD_COMPARISONS as readonly string[]).includes(value);
+}
+
+export function isBreached(value: number, comparison: ThresholdComparison, thresholdValue: number): boolean {
+  switch (comparison) {
+    case 'gt': return value > thresholdValue;
+    case 'gte': return value >= thresholdValue;
+    case 'lt': return value < thresholdValue;
+    case 'lte': return value <= thresholdValue;
+    case 'eq': return value === thresholdValue;
+  }
+}
+
+/**
+ * WHAT: Whether a triggered threshold may re-arm
+ * WHY: With hysteresis 0 this is simply "no longer breached"; a margin makes
+ *     the value travel that far back before the next breach can alert again
+ */
+export function hasRecovered(value: number, comparison: ThresholdComparison, thresholdValue: number, hysteresis = 0): boolean {
+  const margin = Math.max(0, hysteresis);
+  switch (comparison) {
+    case 'gt': return value <= thresholdValue - margin;
+    case 'gte': return value < thresholdValue - margin;
+    case 'lt': return value >= thresholdValue + margin;
+    case 'lte': return value > thresholdValue + margin;
+    case 'eq': return Math.abs(value - thresholdValue) > margin;
+  }
+}
+
+/**
+ * WHAT: What one evaluation of a threshold should do with the current value
+ */
+export function decideThresholdAction(rule: ThresholdRule, value: number, now: Date = new Date()): ThresholdAction {
+  if (rule.state === 'triggered') {
+    return hasRecovered(value, rule.comparison, rule.thresholdValue, rule.hysteresis ?? 0) ? 'recover' : 'none';
+  }
+  if (!isBreached(value, rule.comparison, rule.thresholdValue)) return 'none';
+
+  const cooldownMs = (rule.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES) * 60 * 1000;
+  const lastNotified = rule.lastNotifiedAt ? new Date(rule.lastNotifiedAt).getTime() : null;
+  if (lastNotified !== null && now.getTime() - lastNotified < cooldownMs) return 'suppress';
+  return 'trigger';
+}
+
+export function describeThresholdCondition(comparison: ThresholdComparison, thresholdValue: number): string {
+  return `${THRESHOLD_COMPARISON_LABELS[comparison]} ${thresholdValue}`;
+}
+
+export function describeThresholdWindow(windowDays: number | null | undefined): string {
+  if (!windowDays) return 'all time';
+  return windowDays === 1 ? 'last 24 hours' : `last ${windowDays} days`;
+}
+
+function badRequest(message: string): Error {
+  return Object.assign(new Error(message), { status: 400 });
+}
+
+function nonNegative(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw badRequest(`${field} must be a non-negative number`);
+  }
+  return value;
+}
+
+/**
+ * WHAT: Validate a create (full) or update (partial) body for /api/v3/thresholds
+ * WHY: Only the definition is writable; state, lastValue and the timestamps
+ *     belong to the evaluator
+ */
+export function parseThresholdInput(body: unknown, options: { partial?: boolean } = {}): ThresholdInput {
+  if (!body || typeof body !== 'object') throw badRequest('Request body must be an object');
+  const raw = body as Record<string, unknown>;
+  const input: ThresholdInput = {};
+  const required = !options.partial;
+
+  if (raw.entityId !== undefined || required) {
+    if (typeof raw.entityId !== 'string' || !/^[a-f0-9]{24}$/i.test(raw.entityId)) throw badRequest('entityId must be a valid id');
+    input.entityId = raw.entityId;
+  }
+  if (raw.metricKey !== undefined || required) {
+    if (typeof raw.metricKey !== 'string' || !raw.metricKey.trim()) throw badRequest('metricKey is required');
+    input.metricKey = raw.metricKey.trim();
+  }
+  if (raw.thresholdValue !== undefined || required) {
+    if (typeof raw.thresholdValue !== 'number' || !Number.isFinite(raw.thresholdValue)) throw badRequest('thresholdValue must be a number');
+    input.thresholdValue = raw.thresholdValue;
+  }
+  if (raw.comparison !== undefined || required) {
+    if (!isThresholdComparison(raw.comparison)) throw badRequest(`comparison must be one of: ${THRESHOLD_COMPARISONS.join(', ')}`);
+    input.comparison = raw.comparison;
+  }
+  if (raw.alertEmail !== undefined) {
+    if (raw.alertEmail === null || raw.alertEmail === '') {
+      input.alertEmail = null;
+    } else if (typeof raw.alertEmail !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(raw.alertEmail.trim())) {
+      throw badRequest('alertEmail must be a valid email address');
+    } else {
+      input.alertEmail = raw.alertEmail.trim();
+    }
+  }
+  if (raw.enabled !== undefined) {
+    if (typeof raw.enabled !== 'boolean') throw badRequest('enabled must be true or false');
+    input.enabled = raw.enabled;
+  }
+  if (raw.windowDays !== undefined) {
+    if (raw.windowDays !== null && (typeof raw.windowDays !== 'number' || !Number.isInteger(raw.windowDays) || raw.windowDays < 1)) {
+      throw badRequest('windowDays must be a whole number of days (or null for all time)');
+    }
+    input.windowDays = raw.windowDays as number | null;
+  }
+  if (raw.cooldownMinutes !== undefined) input.cooldownMinutes = nonNegative(raw.cooldownMinutes, 'cooldownMinutes');
+  if (raw.hysteresis !== undefined) input.hysteresis = nonNegative(raw.hysteresis, 'hysteresis');
+
+  return input;
+}
+
+// WHAT: Definition fields whose change makes the stored state meaningless
+export const THRESHOLD_CONDITION_FIELDS: readonly (keyof ThresholdInput)[] = ['entityId', 'metricKey', 'thresholdValue', 'comparison', 'windowDays'];
+
+async function notifyBreach(threshold: any, value: number, alertId: unknown): Promise<{ emailSent: boolean; emailError?: string; notified: boolean }> {
+  const entity: any = await V3Entity.findById(threshold.entityId).select('name').lean();
+  const entityName = entity?.name || 'Unknown entity';
+  const conditionLabel = describeThresholdCondition(threshold.comparison, threshold.thresholdValue);
+  let emailSent = false;
+  let emailError: string | undefined;
+
+  if (threshold.alertEmail) {
+    const result = await sendMetricThresholdAlertEmail({
+      to: threshold.alertEmail,
+      entityName,
+      metricKey: threshold.metricKey,
+      value,
+      conditionLabel,
+      windowLabel: describeThresholdWindow(threshold.windowDays),
+    });
+    emailSent = result.sent;
+    emailError = result.error;
+  }
+
+  // WHAT: projectId is the threshold, not the entity — the dedupe key groups
+  //     by projectId, and two thresholds on one entity are two alerts
+  const notified = await createNotification(await getDb(), {
+    activityType: 'metric_threshold_alert',
+    actorId: null,
+    actorName: SYSTEM_ACTOR,
+    projectId: String(threshold._id),
+    projectName: `${entityName}: ${threshold.metricKey} ${conditionLabel} (${value})`,
+    metadata: {
+      thresholdId: String(threshold._id),
+      alertId: String(alertId),
+      entityId: String(threshold.entityId),
+      metricKey: threshold.metricKey,
+      value,
+    },
+  });
+
+  return { emailSent, emailError, notified };
+}
+
+async function evaluateOne(threshold: any, source: ThresholdEvaluationSource, now: Date): Promise<ThresholdAction> {
+  const range = threshold.windowDays ? { startDate: new Date(now.getTime() - threshold.windowDays * DAY_MS), endDate: now } : {};
+  const { total: value } = await V3ReportingResolver.aggregateMetric(
+    String(threshold.organizationId),
+    String(threshold.entityId),
+    threshold.metricKey,
+    range
+  );
+  const action = decideThresholdAction(threshold, value, now);
+  const evaluated = { lastValue: value, lastEvaluatedAt: now };
+
+  if (action === 'none') {
+    await V3MetricThreshold.updateOne({ _id: threshold._id }, { $set: evaluated });
+    return action;
+  }
+
+  // WHAT: Claim the transition — only the run that still sees the old state records it
+  const fromState = threshold.state === 'triggered' ? { state: 'triggered' } : { state: { $ne: 'triggered' } };
+  const claimed = await V3MetricThreshold.findOneAndUpdate(
+    { _id: threshold._id, ...fromState },
+    {
+      $set: {
+        ...evaluated,
+        state: action === 'recover' ? 'ok' : 'triggered',
+        ...(action === 'trigger' ? { lastNotifiedAt: now } : {}),
+      },
+    }
+  );
+  if (!claimed) return 'none';
+
+  const alert = await V3MetricAlert.create({
+    organizationId: threshold.organizationId,
+    thresholdId: threshold._id,
+    entityId: threshold.entityId,
+    metricKey: threshold.metricKey,
+    kind: action === 'recover' ? 'recovered' : 'triggered',
+    value,
+    thresholdValue: threshold.thresholdValue,
+    comparison: threshold.comparison,
+    suppressed: action === 'suppress',
+    source,
+  });
+
+  if (action === 'trigger') {
+    const delivery = await notifyBreach(threshold, value, alert._id);
+    await V3MetricAlert.updateOne({ _id: alert._id }, { $set: delivery });
+    logInfo('Metric threshold triggered', {
+      context: 'metric-thresholds',
+      thresholdId: String(threshold._id),
+      metricKey: threshold.metricKey,
+      value,
+      emailSent: delivery.emailSent,
+    });
+  }
+  return action;
+}
+
+/**
+ * WHAT: Evaluate enabled thresholds, optionally narrowed to one organization
+ *     and/or the metric keys just recorded
+ * NOTE: Never throws — a failing threshold is logged and counted, the rest
+ *     still run (the record hook must not fail an ingestion that succeeded)
+ */
+export async function evaluateThresholds(options: {
+  organizationId?: string | null;
+  metricKeys?: string[];
+  thresholdIds?: string[];
+  source: ThresholdEvaluationSource;
+  now?: Date;
+}): Promise<ThresholdEvaluationSummary> {
+  const summary: ThresholdEvaluationSummary = { evaluated: 0, triggered: 0, suppressed: 0, recovered: 0, failed: 0 };
+  const now = options.now ?? new Date();
+
+  try {
+    await connectV3();
+    const filter: Record<string, unknown> = { enabled: { $ne: false } };
+    if (options.organizationId) filter.organizationId = options.organizationId;
+    if (options.metricKeys) filter.metricKey = { $in: options.metricKeys };
+    if (options.thresholdIds) filter._id = { $in: options.thresholdIds };
+
+    const thresholds = await V3MetricThreshold.find(filter).lean();
+    for (const threshold of thresholds) {
+      try {
+        const action = await evaluateOne(threshold, options.source, now);
+        summary.evaluated++;
+        if (action === 'trigger') summary.triggered++;
+        else if (action === 'suppress') summary.suppressed++;
+        else if (action === 'recover') summary.recovered++;
+      } catch (err) {
+        summary.failed++;
+        logError('Metric threshold evaluation failed', {
+          context: 'metric-thresholds',
+          thresholdId: String((threshold as any)._id),
+        }, err instanceof Error ? err : new Error(String(err)));
+      }
+    }
+  } catch (err) {
+    logError('Metric threshold evaluation aborted', { context: 'metric-thresholds', source: options.source }, err instanceof Error ? err : new Error(String(err)));
+  }
+
+  return summary;
+}
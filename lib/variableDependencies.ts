@@ -0,0 +1,378 @@
+// lib/variableDependencies.ts
+//
+// WHAT: Dependency graph between stat variables, derived variables, chart
+//     configurations, data blocks and report templates.
+// WHY: Derived variables (variables_metadata `derived` + `formula`, the editor
+//     totals in derived_variable_config, and the built-in totals in
+//     ensureDerivedMetrics) and chart formulas reference each other by [token]
+//     with nothing tracking the edges. A derived variable could reference itself
+//     through another one and silently evaluate to 'NA', derived values were
+//     computed in no particular order, and nobody could tell which reports a
+//     rename/delete/merge (lib/variableMerge.ts) would touch until it was done.
+// HOW: loadDependencySources() reads the five collections once;
+//     buildDependencyGraph() turns them into `dependsOn` / `dependents` edge
+//     maps (chart → variable, derived variable → variable, block → chart,
+//     template → block). findDependencyCycle() guards saves,
+//     sortDerivedVariables() orders evaluation, and analyzeVariableImpact()
+//     walks the reverse edges from one or more variables.
+
+import type { Db } from 'mongodb';
+import { parseFormula, type FormulaNode } from './formulaParser';
+import { evaluateFormula } from './formulaEngine';
+import { ensureDerivedMetrics, type ProjectStats } from './dataValidator';
+import { DEFAULT_DERIVED_VARIABLE_CONFIG } from './derivedVariableConfig';
+
+export type DependencyNodeKind = 'variable' | 'chart' | 'block' | 'template';
+
+// builtin = hardcoded in ensureDerivedMetrics / formulaEngine COMPUTED_FIELDS
+// registry = variables_metadata { derived: true, formula }
+// derived-config = derived_variable_config.totals (event editor totals)
+export type DerivedVariableSource = 'builtin' | 'registry' | 'derived-config';
+
+export interface DerivedVariableDefinition {
+  name: string;
+  formula: string;
+  source: DerivedVariableSource;
+}
+
+export interface DependencyNode {
+  id: string; // "<kind>:<key>", e.g. "variable:female", "chart:gender-distribution"
+  kind: DependencyNodeKind;
+  key: string; // variable name, chartId, block _id or template _id
+  label: string;
+  derived?: DerivedVariableSource; // variables only
+}
+
+export interface DependencyGraph {
+  nodes: Map<string, DependencyNode>;
+  dependsOn: Map<string, Set<string>>;
+  dependents: Map<string, Set<string>>;
+  derivedVariables: DerivedVariableDefinition[];
+}
+
+export interface DependencySources {
+  variables: Array<{ name: string; label?: string; derived?: boolean; formula?: string }>;
+  derivedConfigs: Array<{ totals?: Array<{ key?: string; label?: string; formula?: string }> }>;
+  charts: Array<{ chartId: string; title?: string; elements?: Array<{ formula?: string }> }>;
+  blocks: Array<{ _id: unknown; name?: string; charts?: Array<{ chartId?: string }> }>;
+  templates: Array<{ _id: unknown; name?: string; dataBlocks?: Array<{ blockId?: unknown }> }>;
+}
+
+export interface VariableImpact {
+  variables: string[];
+  derivedVariables: Array<{ name: string; label: string; source: DerivedVariableSource }>;
+  charts: Array<{ chartId: string; title: string }>;
+  blocks: Array<{ id: string; name: string }>;
+  templates: Array<{ id: string; name: string }>;
+}
+
+/**
+ * Formulas of the totals ensureDerivedMetrics() and the formula engine fill in
+ * without any configuration. Kept here so renaming e.g. `indoor` reports the
+ * charts that only reference [totalFans].
+ */
+export const BUILTIN_DERIVED_VARIABLES: DerivedVariableDefinition[] = [
+  { name: 'allImages', formula: '[remoteImages] + [hostessImages] + [selfies]', source: 'builtin' },
+  { name: 'remoteFans', formula: '[indoor] + [outdoor]', source: 'builtin' },
+  { name: 'totalFans', formula: '[remoteFans] + [stadium]', source: 'builtin' },
+  { name: 'totalUnder40', formula: '[genAlpha] + [genYZ]', source: 'builtin' },
+  { name: 'totalOver40', formula: '[genX] + [boomer]', source: 'builtin' },
+];
+
+/**
+ * Stats variables a formula reads. PARAM/MANUAL/MEDIA/TEXT tokens are not
+ * stats variables and are skipped. A formula that does not parse still
+ * reports its bracketed tokens, so impact analysis never under-counts.
+ */
+export function extractFormulaDependencies(formula: string): string[] {
+  const names = new Set<string>();
+  const add = (name: string) => {
+    if (name && !name.includes(':')) names.add(name);
+  };
+
+  let ast: FormulaNode;
+  try {
+    ast = parseFormula(formula);
+  } catch {
+    for (const match of formula.matchAll(/\[([a-zA-Z0-9_:.\-]+)\]/g)) add(match[1]);
+    return [...names];
+  }
+
+  const visit = (node: FormulaNode): void => {
+    switch (node.type) {
+      case 'variable':
+        add(node.name);
+        return;
+      case 'unary':
+        visit(node.operand);
+        return;
+      case 'binary':
+        visit(node.left);
+        visit(node.right);
+        return;
+      case 'conditional':
+        visit(node.test);
+        visit(node.consequent);
+        visit(node.alternate);
+        return;
+      case 'call':
+        node.args.forEach(visit);
+        return;
+      case 'number':
+        return;
+    }
+  };
+  visit(ast);
+  return [...names];
+}
+
+/**
+ * Merge the three derived-variable sources. A registry entry overrides a
+ * built-in of the same name; derived-config totals never override either.
+ */
+export function collectDerivedVariables(sources: Pick<DependencySources, 'variables' | 'derivedConfigs'>): DerivedVariableDefinition[] {
+  const byName = new Map<string, DerivedVariableDefinition>();
+  for (const def of BUILTIN_DERIVED_VARIABLES) byName.set(def.name, def);
+  for (const v of sources.variables) {
+    if (v.derived && typeof v.formula === 'string' && v.formula.trim()) {
+      byName.set(v.name, { name: v.name, formula: v.formula, source: 'registry' });
+    }
+  }
+  for (const cfg of sources.derivedConfigs) {
+    for (const total of cfg.totals || []) {
+      if (total.key && total.formula && !byName.has(total.key)) {
+        byName.set(total.key, { name: total.key, formula: total.formula, source: 'derived-config' });
+      }
+    }
+  }
+  return [...byName.values()];
+}
+
+export function buildDependencyGraph(sources: DependencySources): DependencyGraph {
+  const nodes = new Map<string, DependencyNode>();
+  const dependsOn = new Map<string, Set<string>>();
+  const dependents = new Map<string, Set<string>>();
+  const labels = new Map(sources.variables.map((v) => [v.name, v.label || v.name]));
+
+  const variableNode = (name: string): string => {
+    const id = `variable:${name}`;
+    if (!nodes.has(id)) nodes.set(id, { id, kind: 'variable', key: name, label: labels.get(name) || name });
+    return id;
+  };
+  const link = (from: string, to: string) => {
+    if (!dependsOn.has(from)) dependsOn.set(from, new Set());
+    if (!dependents.has(to)) dependents.set(to, new Set());
+    dependsOn.get(from)!.add(to);
+    dependents.get(to)!.add(from);
+  };
+
+  for (const v of sources.variables) variableNode(v.name);
+
+  const derivedVariables = collectDerivedVariables(sources);
+  for (const def of derivedVariables) {
+    const id = variableNode(def.name);
+    nodes.get(id)!.derived = def.source;
+    for (const dep of extractFormulaDependencies(def.formula)) link(id, variableNode(dep));
+  }
+
+  for (const chart of sources.charts) {
+    const id = `chart:${chart.chartId}`;
+    nodes.set(id, { id, kind: 'chart', key: chart.chartId, label: chart.title || chart.chartId });
+    for (const element of chart.elements || []) {
+      if (!element?.formula) continue;
+      for (const dep of extractFormulaDependencies(element.formula)) link(id, variableNode(dep));
+    }
+  }
+
+  for (const block of sources.blocks) {
+    const key = String(block._id);
+    const id = `block:${key}`;
+    nodes.set(id, { id, kind: 'block', key, label: block.name || key });
+    for (const chart of block.charts || []) {
+      if (chart?.chartId) link(id, `chart:${chart.chartId}`);
+    }
+  }
+
+  for (const template of sources.templates) {
+    const key = String(template._id);
+    const id = `template:${key}`;
+    nodes.set(id, { id, kind: 'template', key, label: template.name || key });
+    for (const ref of template.dataBlocks || []) {
+      if (ref?.blockId) link(id, `block:${String(ref.blockId)}`);
+    }
+  }
+
+  return { nodes, dependsOn, dependents, derivedVariables };
+}
+
+/**
+ * First cycle among derived variables, as a closed path
+ * (["a", "b", "a"]), or null. Only derived → variable edges can loop.
+ */
+export function findDependencyCycle(definitions: DerivedVariableDefinition[]): string[] | null {
+  const deps = new Map(definitions.map((d) => [d.name, extractFormulaDependencies(d.formula)]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (name: string): string[] | null => {
+    if (state.get(name) === 'done') return null;
+    if (state.get(name) === 'visiting') return [...path.slice(path.indexOf(name)), name];
+    state.set(name, 'visiting');
+    path.push(name);
+    for (const dep of deps.get(name) || []) {
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(name, 'done');
+    return null;
+  };
+
+  for (const name of deps.keys()) {
+    const cycle = visit(name);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/**
+ * Derived variables ordered so each one comes after every derived variable it
+ * reads. Throws DEPENDENCY_CYCLE if the definitions loop.
+ */
+export function sortDerivedVariables(definitions: DerivedVariableDefinition[]): DerivedVariableDefinition[] {
+  const cycle = findDependencyCycle(definitions);
+  if (cycle) throw dependencyCycleError(cycle);
+
+  const byName = new Map(definitions.map((d) => [d.name, d]));
+  const ordered: DerivedVariableDefinition[] = [];
+  const seen = new Set<string>();
+  const visit = (name: string) => {
+    const def = byName.get(name);
+    if (!def || seen.has(name)) return;
+    seen.add(name);
+    for (const dep of extractFormulaDependencies(def.formula)) visit(dep);
+    ordered.push(def);
+  };
+  definitions.forEach((d) => visit(d.name));
+  return ordered;
+}
+
+/**
+ * ensureDerivedMetrics() plus every registry derived variable, evaluated in
+ * dependency order. Built-in totals keep their "fill only when missing" rule;
+ * registry formulas always win because their stored value may be stale.
+ * A formula that evaluates to 'NA' leaves the stored value alone.
+ */
+export function computeDerivedVariables(
+  stats: Record<string, number | string>,
+  definitions: DerivedVariableDefinition[],
+): Record<string, number | string>;
+export function computeDerivedVariables(
+  stats: Partial<ProjectStats>,
+  definitions: DerivedVariableDefinition[],
+): ProjectStats;
+export function computeDerivedVariables(
+  stats: Partial<ProjectStats> | Record<string, number | string>,
+  definitions: DerivedVariableDefinition[],
+): ProjectStats | Record<string, number | string> {
+  const enriched = ensureDerivedMetrics(stats as Partial<ProjectStats>) as Record<string, unknown>;
+  for (const def of sortDerivedVariables(definitions)) {
+    if (def.source !== 'registry') continue;
+    const value = evaluateFormula(def.formula, enriched as ProjectStats);
+    if (value !== 'NA') enriched[def.name] = value;
+  }
+  return enriched as ProjectStats;
+}
+
+/**
+ * Everything that transitively reads any of `variableNames`: derived
+ * variables, charts, the data blocks holding those charts and the report
+ * templates holding those blocks.
+ */
+export function analyzeVariableImpact(graph: DependencyGraph, variableNames: string[]): VariableImpact {
+  const reached = new Set<string>();
+  const queue = variableNames.map((name) => `variable:${name}`);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const dependent of graph.dependents.get(id) || []) {
+      if (reached.has(dependent)) continue;
+      reached.add(dependent);
+      queue.push(dependent);
+    }
+  }
+
+  const impact: VariableImpact = { variables: variableNames, derivedVariables: [], charts: [], blocks: [], templates: [] };
+  for (const id of reached) {
+    const node = graph.nodes.get(id);
+    if (!node) continue;
+    if (node.kind === 'variable' && node.derived) {
+      impact.derivedVariables.push({ name: node.key, label: node.label, source: node.derived });
+    } else if (node.kind === 'chart') {
+      impact.charts.push({ chartId: node.key, title: node.label });
+    } else if (node.kind === 'block') {
+      impact.blocks.push({ id: node.key, name: node.label });
+    } else if (node.kind === 'template') {
+      impact.templates.push({ id: node.key, name: node.label });
+    }
+  }
+  impact.derivedVariables.sort((a, b) => a.name.localeCompare(b.name));
+  impact.charts.sort((a, b) => a.chartId.localeCompare(b.chartId));
+  impact.blocks.sort((a, b) => a.name.localeCompare(b.name));
+  impact.templates.sort((a, b) => a.name.localeCompare(b.name));
+  return impact;
+}
+
+/**
+ * The saved derived_variable_config documents, or the built-in config the
+ * editor falls back to when none has been saved yet.
+ */
+function derivedConfigsOrDefault(docs: unknown[]): DependencySources['derivedConfigs'] {
+  return docs.length > 0 ? (docs as DependencySources['derivedConfigs']) : [DEFAULT_DERIVED_VARIABLE_CONFIG];
+}
+
+export async function loadDependencySources(db: Db): Promise<DependencySources> {
+  const [variables, derivedConfigs, charts, blocks, templates] = await Promise.all([
+    db.collection('variables_metadata').find({}, { projection: { name: 1, label: 1, derived: 1, formula: 1 } }).toArray(),
+    db.collection('derived_variable_config').find({}, { projection: { totals: 1 } }).toArray(),
+    db.collection('chart_configurations').find({}, { projection: { chartId: 1, title: 1, 'elements.formula': 1 } }).toArray(),
+    db.collection('data_blocks').find({}, { projection: { name: 1, 'charts.chartId': 1 } }).toArray(),
+    db.collection('report_templates').find({}, { projection: { name: 1, 'dataBlocks.blockId': 1 } }).toArray(),
+  ]);
+  return {
+    variables: variables as unknown as DependencySources['variables'],
+    derivedConfigs: derivedConfigsOrDefault(derivedConfigs),
+    charts: charts as unknown as DependencySources['charts'],
+    blocks,
+    templates,
+  };
+}
+
+export async function loadDerivedVariables(db: Db): Promise<DerivedVariableDefinition[]> {
+  const [variables, derivedConfigs] = await Promise.all([
+    db.collection('variables_metadata').find({ derived: true }, { projection: { name: 1, derived: 1, formula: 1 } }).toArray(),
+    db.collection('derived_variable_config').find({}, { projection: { totals: 1 } }).toArray(),
+  ]);
+  return collectDerivedVariables({
+    variables: variables as unknown as DependencySources['variables'],
+    derivedConfigs: derivedConfigsOrDefault(derivedConfigs),
+  });
+}
+
+/**
+ * Reject saving `formula` as the derived definition of `name` when it would
+ * close a loop through the existing derived variables.
+ */
+export async function assertNoDependencyCycle(db: Db, name: string, formula: string): Promise<void> {
+  const definitions = (await loadDerivedVariables(db)).filter((d) => d.name !== name);
+  definitions.push({ name, formula, source: 'registry' });
+  const cycle = findDependencyCycle(definitions);
+  if (cycle) throw dependencyCycleError(cycle);
+}
+
+function dependencyCycleError(cycle: string[]): Error & { status: number; code: string; cycle: string[] } {
+  return Object.assign(new Error(`Derived variable dependency cycle: ${cycle.join(' → ')}`), {
+    status: 409,
+    code: 'DEPENDENCY_CYCLE',
+    cycle,
+  });
+}
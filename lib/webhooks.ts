@@ -0,0 +1,591 @@
+// lib/webhooks.ts
+// WHAT: Outbound webhook subsystem — registered endpoints with auto-generated
+//     secrets, a persistent delivery queue for event.created/event.updated,
+//     HMAC-SHA256 signing, retries with exponential backoff, auto-disable
+//     after repeated failures, and a per-endpoint delivery log.
+// WHY: app/api-docs/page.tsx has promised signed event.created/event.updated
+//     callbacks (and lib/notificationUtils.ts has carried webhook_failed /
+//     webhook_disabled activity types) while nothing in the tree registered
+//     or sent a webhook.
+// HOW: Project writes call enqueueWebhookEvent(), which inserts one
+//     `webhook_deliveries` document per subscribed endpoint — the queue is
+//     the source of truth, not process memory, so a serverless instance
+//     being frozen after the response never loses a delivery. Routes then
+//     run processDueDeliveries() inside after() for the immediate attempt;
+//     retries are picked up by /api/cron/webhook-deliveries. Claiming a
+//     delivery is an atomic findOneAndUpdate on a short lease, so the cron
+//     sweep and an after() pass can never send the same attempt twice.
+
+import { Collection, Db, ObjectId, UpdateFilter } from 'mongodb';
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import { getDb } from './db';
+import { createNotification } from './notificationUtils';
+import { error as logError, info as logInfo, warn as logWarn } from './logger';
+
+export type WebhookEventType = 'event.created' | 'event.updated';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ['event.created', 'event.updated'];
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookEndpoint {
+  webhookId: string;
+  url: string;
+  description?: string;
+  eventTypes: WebhookEventType[];
+  enabled: boolean;
+  consecutiveFailures: number;
+  createdAt: string;
+  createdBy: string;
+  updatedAt: string;
+  lastDeliveryAt?: string;
+  lastSuccessAt?: string;
+  disabledAt?: string;
+  disabledReason?: string;
+}
+
+export interface WebhookDeliveryAttempt {
+  attempt: number;
+  attemptedAt: string;
+  statusCode: number | null;
+  durationMs: number;
+  error?: string;
+}
+
+export interface WebhookPayload {
+  event: WebhookEventType;
+  timestamp: string;
+  data: {
+    id: string;
+    eventName: string;
+    eventDate: string;
+    viewSlug: string | null;
+    partner: { id: string; name: string; emoji: string | null } | null;
+  };
+}
+
+export interface WebhookDelivery {
+  deliveryId: string;
+  webhookId: string;
+  event: WebhookEventType;
+  projectId: string;
+  projectName: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt: string;
+  createdAt: string;
+  completedAt?: string;
+}
+
+// Stored shapes: the endpoint keeps its signing secret and the delivery its
+// claim lease and TTL timestamp, none of which leave this module.
+interface WebhookEndpointDoc extends WebhookEndpoint {
+  secret: string;
+}
+
+interface WebhookDeliveryDoc extends WebhookDelivery {
+  lockedUntil?: string;
+  occurredAt: Date;
+}
+
+/** Delivery attempts per event before the delivery is marked failed. */
+export const MAX_DELIVERY_ATTEMPTS = 4;
+/** Consecutive failed attempts (across deliveries) before an endpoint is disabled. */
+export const AUTO_DISABLE_THRESHOLD = 10;
+
+// Retries are only ever sent by the */5 delivery sweep (vercel.json), so the
+// first retry waits one sweep; anything shorter would just mean "next sweep".
+const BACKOFF_BASE_MS = 5 * 60_000;
+const BACKOFF_FACTOR = 5;
+const DELIVERY_TIMEOUT_MS = 10_000;
+const CLAIM_LEASE_MS = 30_000;
+const DELIVERY_LOG_TTL_SECONDS = 30 * 86400; // 30 days of delivery history per endpoint.
+const SYSTEM_ACTOR = 'Webhook Dispatcher';
+
+const ENDPOINTS = 'webhooks';
+const DELIVERIES = 'webhook_deliveries';
+
+function endpointsCollection(db: Db): Collection<WebhookEndpointDoc> {
+  return db.collection<WebhookEndpointDoc>(ENDPOINTS);
+}
+
+function deliveriesCollection(db: Db): Collection<WebhookDeliveryDoc> {
+  return db.collection<WebhookDeliveryDoc>(DELIVERIES);
+}
+
+function nowIso(): string {
+  return new Date().toISOString();
+}
+
+function webhookError(message: string, status: number, code: string): Error {
+  return Object.assign(new Error(message), { status, code });
+}
+
+// WHAT: Earliest delay before attempt N+1 after attempt N failed — 5 min,
+//     25 min, 125 min. The sweep sends it on its first run after that.
+export function computeBackoffMs(failedAttempt: number): number {
+  return BACKOFF_BASE_MS * BACKOFF_FACTOR ** Math.max(0, failedAttempt - 1);
+}
+
+// WHAT: Hex HMAC-SHA256 of the exact body string that is sent.
+// WHY: Receivers verify against the raw body; signing a re-serialized object
+//     would break on any key-order or whitespace difference.
+export function signWebhookPayload(body: string, secret: string): string {
+  return createHmac('sha256', secret).update(body).digest('hex');
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+// WHAT: Registration-time URL check — HTTPS only, as the API docs promise.
+// @returns an error message, or null when the URL is acceptable.
+export function validateWebhookUrl(url: unknown): string | null {
+  if (typeof url !== 'string' || !url.trim()) return 'url is required.';
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return 'url must be an absolute URL.';
+  }
+  if (parsed.protocol !== 'https:') return 'url must use HTTPS.';
+  if (parsed.username || parsed.password) return 'url must not embed credentials.';
+  return null;
+}
+
+export function normalizeEventTypes(value: unknown): WebhookEventType[] | null {
+  if (value === undefined) return [...WEBHOOK_EVENT_TYPES];
+  if (!Array.isArray(value) || value.length === 0) return null;
+  const types = Array.from(new Set(value.map(String)));
+  return types.every((t) => WEBHOOK_EVENT_TYPES.includes(t as WebhookEventType))
+    ? (types as WebhookEventType[])
+    : null;
+}
+
+// WHAT: Payload shape documented in app/api-docs/page.tsx ("Webhook Payload").
+export function buildWebhookPayload(
+  event: WebhookEventType,
+  project: { _id: ObjectId | string; eventName?: unknown; eventDate?: unknown; viewSlug?: unknown },
+  partner: { _id: ObjectId | string; name?: unknown; emoji?: unknown } | null,
+  timestamp: string = nowIso()
+): WebhookPayload {
+  return {
+    event,
+    timestamp,
+    data: {
+      id: String(project._id),
+      eventName: String(project.eventName ?? ''),
+      eventDate: String(project.eventDate ?? ''),
+      viewSlug: typeof project.viewSlug === 'string' ? project.viewSlug : null,
+      partner: partner
+        ? {
+            id: String(partner._id),
+            name: String(partner.name ?? ''),
+            emoji: typeof partner.emoji === 'string' ? partner.emoji : null,
+          }
+        : null,
+    },
+  };
+}
+
+function toEndpoint(doc: WebhookEndpointDoc): WebhookEndpoint {
+  return {
+    webhookId: String(doc.webhookId),
+    url: doc.url,
+    description: doc.description ?? undefined,
+    eventTypes: Array.isArray(doc.eventTypes) ? doc.eventTypes : [],
+    enabled: doc.enabled === true,
+    consecutiveFailures: Number(doc.consecutiveFailures) || 0,
+    createdAt: doc.createdAt,
+    createdBy: String(doc.createdBy || ''),
+    updatedAt: doc.updatedAt,
+    lastDeliveryAt: doc.lastDeliveryAt ?? undefined,
+    lastSuccessAt: doc.lastSuccessAt ?? undefined,
+    disabledAt: doc.disabledAt ?? undefined,
+    disabledReason: doc.disabledReason ?? undefined,
+  };
+}
+
+function toDelivery(doc: WebhookDeliveryDoc): WebhookDelivery {
+  return {
+    deliveryId: String(doc.deliveryId),
+    webhookId: String(doc.webhookId),
+    event: doc.event,
+    projectId: String(doc.projectId),
+    projectName: String(doc.projectName || ''),
+    payload: doc.payload,
+    status: doc.status,
+    attempts: Array.isArray(doc.attempts) ? doc.attempts : [],
+    nextAttemptAt: doc.nextAttemptAt,
+    createdAt: doc.createdAt,
+    completedAt: doc.completedAt ?? undefined,
+  };
+}
+
+// Once per process: enqueue runs on every project save and the sweep every 5 minutes
+let webhookIndexesReady: Promise<void> | null = null;
+
+function ensureWebhookIndexes(db: Db): Promise<void> {
+  if (!webhookIndexesReady) {
+    webhookIndexesReady = (async () => {
+      await endpointsCollection(db).createIndex({ webhookId: 1 }, { unique: true });
+      await deliveriesCollection(db).createIndex({ deliveryId: 1 }, { unique: true });
+      await deliveriesCollection(db).createIndex({ status: 1, nextAttemptAt: 1 });
+      await deliveriesCollection(db).createIndex({ webhookId: 1, createdAt: -1 });
+      await deliveriesCollection(db).createIndex({ occurredAt: 1 }, { expireAfterSeconds: DELIVERY_LOG_TTL_SECONDS });
+    })().catch((err) => {
+      webhookIndexesReady = null;
+      throw err;
+    });
+  }
+  return webhookIndexesReady;
+}
+
+// ---------------------------------------------------------------------------
+// Endpoint registry (admin API: app/api/admin/webhooks)
+// ---------------------------------------------------------------------------
+
+// WHAT: Register an endpoint. The secret is returned here and by
+//     rotateWebhookSecret() only — list/get never expose it again.
+export async function createWebhook(params: {
+  url: string;
+  eventTypes?: WebhookEventType[];
+  description?: string;
+  createdBy: string;
+}): Promise<{ webhook: WebhookEndpoint; secret: string }> {
+  const urlError = validateWebhookUrl(params.url);
+  if (urlError) throw webhookError(urlError, 400, 'INVALID_WEBHOOK_URL');
+
+  const db = await getDb();
+  await ensureWebhookIndexes(db);
+  const timestamp = nowIso();
+  const secret = generateWebhookSecret();
+  const doc = {
+    webhookId: randomUUID(),
+    url: params.url.trim(),
+    description: params.description?.trim() || undefined,
+    eventTypes: params.eventTypes && params.eventTypes.length > 0 ? params.eventTypes : [...WEBHOOK_EVENT_TYPES],
+    enabled: true,
+    consecutiveFailures: 0,
+    secret,
+    createdAt: timestamp,
+    createdBy: params.createdBy,
+    updatedAt: timestamp,
+  };
+  await endpointsCollection(db).insertOne(doc);
+  return { webhook: toEndpoint(doc), secret };
+}
+
+export async function listWebhooks(): Promise<WebhookEndpoint[]> {
+  const db = await getDb();
+  const docs = await endpointsCollection(db)
+    .find({}, { projection: { secret: 0 } })
+    .sort({ createdAt: -1 })
+    .toArray();
+  return docs.map(toEndpoint);
+}
+
+export async function getWebhook(webhookId: string): Promise<WebhookEndpoint | null> {
+  const db = await getDb();
+  const doc = await endpointsCollection(db).findOne({ webhookId }, { projection: { secret: 0 } });
+  return doc ? toEndpoint(doc) : null;
+}
+
+// WHAT: Edit url/eventTypes/description or toggle enabled.
+// WHY re-enabling resets consecutiveFailures: an operator turning an
+//     auto-disabled endpoint back on has fixed the receiver; carrying 10
+//     stale failures forward would disable it again on the first hiccup.
+export async function updateWebhook(
+  webhookId: string,
+  changes: { url?: string; eventTypes?: WebhookEventType[]; description?: string; enabled?: boolean }
+): Promise<WebhookEndpoint> {
+  const db = await getDb();
+  const set: Partial<WebhookEndpointDoc> = { updatedAt: nowIso() };
+  const unset: { disabledAt?: ''; disabledReason?: '' } = {};
+
+  if (changes.url !== undefined) {
+    const urlError = validateWebhookUrl(changes.url);
+    if (urlError) throw webhookError(urlError, 400, 'INVALID_WEBHOOK_URL');
+    set.url = changes.url.trim();
+  }
+  if (changes.eventTypes !== undefined) set.eventTypes = changes.eventTypes;
+  if (changes.description !== undefined) set.description = changes.description.trim();
+  if (changes.enabled !== undefined) {
+    set.enabled = changes.enabled;
+    if (changes.enabled) {
+      set.consecutiveFailures = 0;
+      unset.disabledAt = '';
+      unset.disabledReason = '';
+    } else {
+      set.disabledAt = nowIso();
+      set.disabledReason = 'Disabled by an administrator.';
+    }
+  }
+
+  const update: UpdateFilter<WebhookEndpointDoc> = { $set: set };
+  if (Object.keys(unset).length > 0) update.$unset = unset;
+  const doc = await endpointsCollection(db).findOneAndUpdate({ webhookId }, update, {
+    returnDocument: 'after',
+    projection: { secret: 0 },
+  });
+  if (!doc) throw webhookError('Webhook was not found.', 404, 'WEBHOOK_NOT_FOUND');
+  return toEndpoint(doc);
+}
+
+export async function rotateWebhookSecret(webhookId: string): Promise<string> {
+  const db = await getDb();
+  const secret = generateWebhookSecret();
+  const result = await endpointsCollection(db).updateOne({ webhookId }, { $set: { secret, updatedAt: nowIso() } });
+  if (result.matchedCount === 0) throw webhookError('Webhook was not found.', 404, 'WEBHOOK_NOT_FOUND');
+  return secret;
+}
+
+// WHAT: Remove an endpoint and its queued (not yet sent) deliveries.
+// WHY keep finished deliveries: they are the log; the TTL index sweeps them.
+export async function deleteWebhook(webhookId: string): Promise<void> {
+  const db = await getDb();
+  const result = await endpointsCollection(db).deleteOne({ webhookId });
+  if (result.deletedCount === 0) throw webhookError('Webhook was not found.', 404, 'WEBHOOK_NOT_FOUND');
+  await deliveriesCollection(db).deleteMany({ webhookId, status: 'pending' });
+}
+
+export async function listDeliveries(webhookId: string, limit = 50): Promise<WebhookDelivery[]> {
+  const db = await getDb();
+  const docs = await deliveriesCollection(db)
+    .find({ webhookId })
+    .sort({ createdAt: -1 })
+    .limit(Math.min(Math.max(limit, 1), 200))
+    .toArray();
+  return docs.map(toDelivery);
+}
+
+// ---------------------------------------------------------------------------
+// Queue
+// ---------------------------------------------------------------------------
+
+// WHAT: Queue one delivery per enabled endpoint subscribed to `event`.
+// WHY never throws: callers are project writes; a webhook problem must not
+//     fail the save that triggered it. Failures are logged instead.
+// @returns number of deliveries queued.
+export async function enqueueWebhookEvent(
+  event: WebhookEventType,
+  projectId: string | ObjectId
+): Promise<number> {
+  try {
+    const db = await getDb();
+    const endpoints = await endpointsCollection(db)
+      .find({ enabled: true, eventTypes: event }, { projection: { webhookId: 1 } })
+      .toArray();
+    if (endpoints.length === 0) return 0;
+
+    const project = await db.collection('projects').findOne({ _id: new ObjectId(String(projectId)) });
+    if (!project) {
+      logWarn('Webhook event for missing project skipped', { context: 'webhooks', event, projectId: String(projectId) });
+      return 0;
+    }
+    const partner = project.partner1Id
+      ? await db.collection('partners').findOne({ _id: new ObjectId(String(project.partner1Id)) })
+      : null;
+
+    await ensureWebhookIndexes(db);
+    const timestamp = nowIso();
+    const payload = buildWebhookPayload(event, project, partner, timestamp);
+    const docs = endpoints.map((endpoint) => ({
+      deliveryId: randomUUID(),
+      webhookId: String(endpoint.webhookId),
+      event,
+      projectId: String(project._id),
+      projectName: String(project.eventName || ''),
+      payload,
+      status: 'pending' as WebhookDeliveryStatus,
+      attempts: [],
+      nextAttemptAt: timestamp,
+      createdAt: timestamp,
+      occurredAt: new Date(),
+    }));
+    await deliveriesCollection(db).insertMany(docs);
+    return docs.length;
+  } catch (err) {
+    logError('Failed to enqueue webhook event', { context: 'webhooks', event, projectId: String(projectId) }, err instanceof Error ? err : new Error(String(err)));
+    return 0;
+  }
+}
+
+// WHAT: Convenience for route handlers — queue, then attempt immediately.
+// WHY: Meant to be called inside next/server after(), so the attempt
+//     happens after the response without being suspended by the runtime.
+export async function dispatchWebhookEvent(event: WebhookEventType, projectId: string | ObjectId): Promise<void> {
+  const queued = await enqueueWebhookEvent(event, projectId);
+  if (queued > 0) await processDueDeliveries(queued);
+}
+
+async function claimNextDueDelivery(db: Db): Promise<WebhookDeliveryDoc | null> {
+  const now = nowIso();
+  return deliveriesCollection(db).findOneAndUpdate(
+    {
+      status: 'pending',
+      nextAttemptAt: { $lte: now },
+      $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }],
+    },
+    { $set: { lockedUntil: new Date(Date.now() + CLAIM_LEASE_MS).toISOString() } },
+    { sort: { nextAttemptAt: 1 }, returnDocument: 'after' }
+  );
+}
+
+async function postDelivery(url: string, body: string, secret: string, delivery: WebhookDeliveryDoc): Promise<{ statusCode: number | null; error?: string }> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'messmass-webhooks/1.0',
+        'X-Webhook-Signature': signWebhookPayload(body, secret),
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Delivery': delivery.deliveryId,
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    if (response.status >= 200 && response.status < 300) return { statusCode: response.status };
+    return { statusCode: response.status, error: `Receiver responded with HTTP ${response.status}` };
+  } catch (err) {
+    const message = err instanceof Error ? (err.name === 'TimeoutError' ? 'Timed out after 10s' : err.message) : String(err);
+    return { statusCode: null, error: message };
+  }
+}
+
+async function notifyWebhookProblem(
+  db: Db,
+  activityType: 'webhook_failed' | 'webhook_disabled',
+  delivery: WebhookDeliveryDoc,
+  reason: string
+): Promise<void> {
+  await createNotification(db, {
+    activityType,
+    actorId: null,
+    actorName: SYSTEM_ACTOR,
+    projectId: String(delivery.projectId),
+    projectName: String(delivery.projectName || 'Unknown event'),
+    metadata: { webhookId: String(delivery.webhookId), deliveryId: String(delivery.deliveryId), reason },
+  });
+}
+
+// WHAT: Send one claimed delivery and record the outcome on both the
+//     delivery (attempt log, next retry or terminal status) and the endpoint
+//     (failure streak, auto-disable).
+async function attemptDelivery(db: Db, delivery: WebhookDeliveryDoc): Promise<WebhookDeliveryStatus> {
+  const endpoint = await endpointsCollection(db).findOne({ webhookId: delivery.webhookId });
+  const attemptNumber = (Array.isArray(delivery.attempts) ? delivery.attempts.length : 0) + 1;
+  const attemptedAt = nowIso();
+
+  // An endpoint deleted or disabled after the delivery was queued: close the
+  // delivery out rather than leave it pending forever.
+  if (!endpoint || endpoint.enabled !== true) {
+    await deliveriesCollection(db).updateOne(
+      { deliveryId: delivery.deliveryId },
+      {
+        $set: { status: 'failed', completedAt: attemptedAt },
+        $push: { attempts: { attempt: attemptNumber, attemptedAt, statusCode: null, durationMs: 0, error: 'Webhook is disabled.' } },
+        $unset: { lockedUntil: '' },
+      }
+    );
+    return 'failed';
+  }
+
+  const started = Date.now();
+  const { statusCode, error } = await postDelivery(endpoint.url, JSON.stringify(delivery.payload), endpoint.secret, delivery);
+  const attempt: WebhookDeliveryAttempt = {
+    attempt: attemptNumber,
+    attemptedAt,
+    statusCode,
+    durationMs: Date.now() - started,
+    ...(error ? { error } : {}),
+  };
+
+  if (!error) {
+    await deliveriesCollection(db).updateOne(
+      { deliveryId: delivery.deliveryId },
+      { $set: { status: 'delivered', completedAt: nowIso() }, $push: { attempts: attempt }, $unset: { lockedUntil: '' } }
+    );
+    await endpointsCollection(db).updateOne(
+      { webhookId: endpoint.webhookId },
+      { $set: { consecutiveFailures: 0, lastDeliveryAt: attemptedAt, lastSuccessAt: attemptedAt } }
+    );
+    return 'delivered';
+  }
+
+  const exhausted = attemptNumber >= MAX_DELIVERY_ATTEMPTS;
+  await deliveriesCollection(db).updateOne(
+    { deliveryId: delivery.deliveryId },
+    {
+      $set: exhausted
+        ? { status: 'failed', completedAt: nowIso() }
+        : { nextAttemptAt: new Date(Date.now() + computeBackoffMs(attemptNumber)).toISOString() },
+      $push: { attempts: attempt },
+      $unset: { lockedUntil: '' },
+    }
+  );
+
+  const updatedEndpoint = await endpointsCollection(db).findOneAndUpdate(
+    { webhookId: endpoint.webhookId },
+    { $inc: { consecutiveFailures: 1 }, $set: { lastDeliveryAt: attemptedAt } },
+    { returnDocument: 'after' }
+  );
+  const failures = Number(updatedEndpoint?.consecutiveFailures) || 0;
+
+  if (exhausted) {
+    logWarn('Webhook delivery failed permanently', { context: 'webhooks', webhookId: endpoint.webhookId, deliveryId: delivery.deliveryId, error });
+    await notifyWebhookProblem(db, 'webhook_failed', delivery, `${MAX_DELIVERY_ATTEMPTS} attempts failed: ${error}`);
+  }
+
+  if (failures >= AUTO_DISABLE_THRESHOLD) {
+    // Only the update that actually flips enabled raises the notification,
+    // so concurrent failing deliveries produce one webhook_disabled, not many.
+    const disabled = await endpointsCollection(db).updateOne(
+      { webhookId: endpoint.webhookId, enabled: true },
+      {
+        $set: {
+          enabled: false,
+          disabledAt: nowIso(),
+          disabledReason: `Automatically disabled after ${failures} consecutive failed deliveries.`,
+        },
+      }
+    );
+    if (disabled.modifiedCount > 0) {
+      logWarn('Webhook auto-disabled', { context: 'webhooks', webhookId: endpoint.webhookId, failures });
+      await notifyWebhookProblem(db, 'webhook_disabled', delivery, `${failures} consecutive failed deliveries`);
+    }
+  }
+
+  return exhausted ? 'failed' : 'pending';
+}
+
+// WHAT: Drain up to `limit` due deliveries.
+// @returns counts per outcome, for the cron response.
+export async function processDueDeliveries(limit = 50): Promise<{ processed: number; delivered: number; failed: number; retrying: number }> {
+  const summary = { processed: 0, delivered: 0, failed: 0, retrying: 0 };
+  const db = await getDb();
+  await ensureWebhookIndexes(db);
+
+  while (summary.processed < limit) {
+    const delivery = await claimNextDueDelivery(db);
+    if (!delivery) break;
+    summary.processed++;
+    try {
+      const outcome = await attemptDelivery(db, delivery);
+      if (outcome === 'delivered') summary.delivered++;
+      else if (outcome === 'failed') summary.failed++;
+      else summary.retrying++;
+    } catch (err) {
+      // The lease expires on its own, so the next sweep retries this delivery.
+      logError('Webhook delivery attempt crashed', { context: 'webhooks', deliveryId: delivery.deliveryId }, err instanceof Error ? err : new Error(String(err)));
+    }
+  }
+
+  if (summary.processed > 0) {
+    logInfo('Processed webhook deliveries', { context: 'webhooks', ...summary });
+  }
+  return summary;
+}
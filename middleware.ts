@@ -4,7 +4,7 @@
 // HOW: Rate limiting → CSRF protection → Logging → Continue to handler
 
 import { NextRequest, NextResponse } from 'next/server';
-import { rateLimitMiddleware, getRateLimitConfig } from '@/lib/rateLimit';
+import { applyRateLimit, getRateLimitConfig } from '@/lib/rateLimit';
 import { csrfProtectionMiddleware, setCsrfTokenCookie, generateCsrfToken } from '@/lib/csrf';
 import { logRequestEnd, logRateLimitExceeded, logCsrfViolation, warn } from '@/lib/logger';
 import { buildCorsHeaders } from '@/lib/cors';
@@ -61,20 +61,20 @@ export async function middleware(request: NextRequest) {
   
   // WHAT: 1. Apply rate limiting
   // WHY: Prevent DDoS and brute-force attacks
-  const rateLimitResponse = await rateLimitMiddleware(
-    request,
-    getRateLimitConfig(request)
-  );
+  // NOTE: Bearer API key requests are counted per key (RATE_LIMITS.API_KEY, or
+  //     the key's own limit). Only those and the strict AUTH/CONTACT limits
+  //     reach MongoDB; the rest is counted in this instance's memory.
+  const rateLimit = await applyRateLimit(request, getRateLimitConfig(request));
   
-  if (rateLimitResponse) {
+  if (rateLimit.response) {
     // WHAT: Rate limit exceeded - log and return 429
     logRateLimitExceeded(
       request.headers.get('x-forwarded-for') || 'unknown',
       request.nextUrl.pathname,
-      getRateLimitConfig(request).maxRequests
+      rateLimit.limit
     );
     
-    return rateLimitResponse;
+    return rateLimit.response;
   }
   
   // WHAT: 2. Apply CSRF protection (for state-changing methods)
@@ -104,6 +104,9 @@ export async function middleware(request: NextRequest) {
   // WHAT: Attach CORS headers to downstream response
   const corsHeaders = buildCorsHeaders(request);
   corsHeaders.forEach((v, k) => response.headers.set(k, v));
+
+  // WHAT: Attach RateLimit-* headers so clients see their remaining quota
+  rateLimit.headers.forEach((v, k) => response.headers.set(k, v));
   
   // WHAT: Add Content Security Policy (CSP) headers
   // WHY: Prevent XSS attacks by restricting what resources can be loaded
@@ -156,7 +159,10 @@ export async function middleware(request: NextRequest) {
 
 // WHAT: Middleware matcher configuration
 // WHY: Only run middleware on API routes and admin pages (not static assets)
+// NOTE: Node.js runtime — the shared rate limit counters live in MongoDB
+//     (lib/rateLimitStore.ts), and the MongoDB driver does not run on Edge
 export const config = {
+  runtime: 'nodejs',
   matcher: [
     // WHAT: API routes (all endpoints)
     '/api/:path*',
@@ -1,3 +1,6 @@
+// Read by lib/export/reportPdf.ts at runtime
+const REPORT_PDF_FONTS = ['./node_modules/dejavu-fonts-ttf/ttf/DejaVuSans.ttf', './node_modules/dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf'];
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   // WHAT: Generate unique asset hashes for cache-busting
@@ -56,12 +59,23 @@ const nextConfig = {
       'node_modules/@swc/**/*',
     ],
   },
-  // WHAT: Bundle the user-guide markdown with the online reader routes.
-  // WHY: /admin/help/guides reads docs/guides/*.md; keep the files traced into the
-  //      function bundle so the reader works even if rendered on-demand.
+  // WHAT: Load the XLSX/PPTX writers from node_modules instead of bundling them.
+  // WHY: pptxgenjs pulls in node:fs/node:https with runtime dynamic imports,
+  //      which webpack's server bundle does not resolve.
+  serverExternalPackages: ['exceljs', 'pptxgenjs'],
+  // WHAT: Bundle the user-guide markdown with the online reader routes, and the
+  //      DejaVu Sans TTFs with the routes that render report PDFs.
+  // WHY: /admin/help/guides reads docs/guides/*.md and lib/export/reportPdf.ts reads
+  //      the fonts from node_modules at runtime; keep the files traced into the
+  //      function bundle so they are there when rendered on-demand.
   outputFileTracingIncludes: {
     '/admin/help/guides': ['./docs/guides/*.md'],
     '/admin/help/guides/[slug]': ['./docs/guides/*.md'],
+    '/api/reports/[slug]/pdf': REPORT_PDF_FONTS,
+    '/api/reports/[slug]/export': REPORT_PDF_FONTS,
+    '/api/v3/reporting/export/[entityId]': REPORT_PDF_FONTS,
+    '/api/admin/report-schedules/[scheduleId]/send': REPORT_PDF_FONTS,
+    '/api/cron/report-deliveries': REPORT_PDF_FONTS,
   },
   // Redirect old hashtag pages to filter system
   async redirects() {
@@ -0,0 +1,115 @@
+/**
+ * Tracked database migrations
+ *
+ * WHAT: status / apply / rollback for the migrations registered in lib/migrations/index.ts
+ * WHY: Every run is recorded in MigrationHistory per environment and guarded by a lock,
+ *      unlike the one-off scripts in this folder.
+ * HOW: The environment is MIGRATION_ENV, else VERCEL_ENV, else NODE_ENV. --dry-run runs the
+ *      migrations without writing, takes no lock and records nothing.
+ *
+ * Usage:
+ *   npm run migrate:status
+ *   npm run migrate:up -- [--to 0002-name] [--dry-run]
+ *   npm run migrate:down -- [--steps 2 | --to 0001-name] [--dry-run]
+ */
+
+import * as os from 'os';
+import mongoose from 'mongoose';
+import { getDb, getClient } from '../lib/db';
+import {
+  MIGRATIONS,
+  MongoMigrationStore,
+  applyMigrations,
+  getMigrationEnvironment,
+  getMigrationStatus,
+  rollbackMigrations,
+  type MigrationStepResult,
+} from '../lib/migrations';
+
+interface CliArgs {
+  command: string;
+  to?: string;
+  steps?: number;
+  dryRun: boolean;
+}
+
+function parseArgs(argv: string[]): CliArgs {
+  // dotenv's `dotenv_config_path=…` preload argument ends up in argv too
+  const args = argv.filter((arg) => !arg.startsWith('dotenv_config_'));
+  const valueOf = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const steps = valueOf('--steps');
+  return {
+    command: args.find((arg) => !arg.startsWith('--') && arg !== valueOf('--to') && arg !== steps) ?? 'status',
+    to: valueOf('--to'),
+    steps: steps ? parseInt(steps, 10) : undefined,
+    dryRun: args.includes('--dry-run'),
+  };
+}
+
+function printResults(results: MigrationStepResult[], dryRun: boolean): void {
+  if (results.length === 0) console.log('Nothing to do.');
+  for (const result of results) {
+    const icon = result.status === 'success' ? '✅' : '❌';
+    console.log(`${icon} ${result.direction} ${result.name} (${result.durationMs}ms)${dryRun ? ' [dry run]' : ''}`);
+    result.logs.forEach((line) => console.log(`   ${line}`));
+    if (result.error) console.log(`   Error: ${result.error}`);
+  }
+}
+
+async function main(): Promise<boolean> {
+  const args = parseArgs(process.argv.slice(2));
+  const environment = getMigrationEnvironment();
+  const store = new MongoMigrationStore();
+  const options = {
+    db: await getDb(),
+    store,
+    environment,
+    executedBy: process.env.MIGRATION_ACTOR || `${os.userInfo().username}@${os.hostname()}`,
+    dryRun: args.dryRun,
+  };
+
+  console.log(`Environment: ${environment}`);
+  switch (args.command) {
+    case 'status': {
+      const status = await getMigrationStatus(MIGRATIONS, store, environment);
+      for (const migration of status) {
+        const when = migration.appliedAt ? ` ${migration.appliedAt}` : '';
+        console.log(`${migration.state.padEnd(8)} ${migration.name}${when}${migration.reversible ? '' : ' (irreversible)'}`);
+      }
+      return true;
+    }
+    case 'up': {
+      const results = await applyMigrations(MIGRATIONS, { ...options, to: args.to });
+      printResults(results, args.dryRun);
+      return results.every((r) => r.status === 'success');
+    }
+    case 'down': {
+      const results = await rollbackMigrations(MIGRATIONS, { ...options, steps: args.steps, to: args.to });
+      printResults(results, args.dryRun);
+      return results.every((r) => r.status === 'success');
+    }
+    default:
+      console.error(`Unknown command '${args.command}' (expected status, up or down)`);
+      return false;
+  }
+}
+
+async function disconnect(): Promise<void> {
+  await mongoose.disconnect();
+  const client = await getClient();
+  await client.close();
+}
+
+main()
+  .then(async (ok) => {
+    await disconnect();
+    process.exit(ok ? 0 : 1);
+  })
+  .catch(async (e) => {
+    console.error(e instanceof Error ? e.message : e);
+    await disconnect().catch(() => undefined);
+    process.exit(1);
+  });
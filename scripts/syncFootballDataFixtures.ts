@@ -1,60 +1,57 @@
 // scripts/syncFootballDataFixtures.ts
-// WHAT: Background/manual sync for Football-Data.org fixtures
-// WHY: Populate local cache and match fixtures to partners for planning workflows
+// WHAT: Background/manual sync of fixtures from every configured provider
+// WHY: Populate the unified fixtures collection and match fixtures to partners for planning workflows
+// USAGE: FIXTURE_PROVIDERS=football-data,sportsdb tsx scripts/syncFootballDataFixtures.ts (default: football-data, sportsdb)
 
 import 'dotenv/config';
-import { importFixtures, matchFixturesToPartners, autoCreateDraftsFromFixtures } from '@/lib/fixtureImporter';
-import { nowIsoMs } from '@/lib/footballDataApi';
-
-function addDays(days: number): string {
-  const d = new Date();
-  d.setUTCHours(0, 0, 0, 0);
-  const from = d.toISOString().slice(0, 10); // YYYY-MM-DD
-  const end = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
-  end.setUTCHours(23, 59, 59, 999);
-  const to = end.toISOString().slice(0, 10);
-  return `${from}|${to}`;
+import { defaultSyncQueries, rematchUnlinkedFixtures, syncProviderFixtures } from '@/lib/fixtures/fixtureStore';
+import { autoCreateDraftsFromFixtures } from '@/lib/fixtures/drafts';
+import { isFixtureProviderId } from '@/lib/fixtures/providers';
+import { getClient } from '@/lib/db';
+
+function dateRange(days: number): { dateFrom: string; dateTo: string } {
+  const dateFrom = new Date().toISOString().slice(0, 10);
+  const dateTo = new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  return { dateFrom, dateTo };
 }
 
 async function run() {
+  const startTime = new Date().toISOString();
   const start = Date.now();
-  const [dateFrom, dateTo] = addDays(30).split('|');
+  const range = dateRange(30);
+  const providers = (process.env.FIXTURE_PROVIDERS || 'football-data,sportsdb').split(',').map((p) => p.trim()).filter(isFixtureProviderId);
 
-  // Default competition targets (free-tier common comps)
-  const competitions: Array<string | number> = ['PL', 'PD', 'SA', 'BL1', 'FL1', 'BSA', 'CL'];
-
-  const results: any[] = [];
-  for (const c of competitions) {
-    const res = await importFixtures(c, { status: 'SCHEDULED', dateFrom, dateTo });
-    results.push({ competition: c, ...res });
-    // Small gap to respect rate limiting across competitions
-    await new Promise((r) => setTimeout(r, 500));
+  const results = [];
+  for (const provider of providers) {
+    // Small gap between requests to respect provider rate limits
+    results.push(await syncProviderFixtures(provider, await defaultSyncQueries(provider, range), { delayMs: 500 }));
   }
 
-  const matching = await matchFixturesToPartners();
+  const matching = await rematchUnlinkedFixtures();
 
   // Auto-create draft projects for fixtures where home partner exists
-  let drafts = { created: 0 } as any;
+  let drafts: Record<string, unknown> = { created: 0 };
   try {
     drafts = await autoCreateDraftsFromFixtures();
   } catch (e) {
     drafts = { created: 0, error: (e as Error).message };
   }
 
-  const duration = Date.now() - start;
   console.log(JSON.stringify({
-    jobType: 'football_data_sync',
-    status: 'success',
-    startTime: nowIsoMs(),
-    endTime: nowIsoMs(),
-    duration,
+    jobType: 'fixture_sync',
+    status: results.some((r) => r.errors.length > 0) ? 'partial' : 'success',
+    startTime,
+    endTime: new Date().toISOString(),
+    duration: Date.now() - start,
     results,
     matching,
     drafts,
   }, null, 2));
+
+  await (await getClient()).close();
 }
 
 run().catch((err) => {
-  console.error('❌ Football-Data sync failed', err);
+  console.error('❌ Fixture sync failed', err);
   process.exit(1);
 });
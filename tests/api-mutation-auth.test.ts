@@ -22,6 +22,7 @@ const AUTH_PRIMITIVES = [
   'requireFanmassIntegrationAuth',
   'requireSession',
   'requireProjectWrite',
+  'requireCapability',
   'requirePageAccess',
   'validateAnyPassword',
   'isAdmin(',
@@ -44,6 +45,8 @@ const KNOWN_UNGUARDED = new Set<string>([
   'app/api/admin/register/route.ts',        // registration entry point
   'app/api/contact/route.ts',               // public contact form, rate limited
   'app/api/client-error/route.ts',          // records a crash report; a logged-out visitor can crash too
+  'app/api/portal/login/route.ts',          // partner portal sign-in link request, rate limited
+  'app/api/portal/logout/route.ts',         // clears the partner portal cookie; nothing to protect
   // [debt] called from page-password surfaces — need a scoped grant path
   'app/api/organizations/edit/[id]/route.ts',
   'app/api/partners/edit/[slug]/route.ts',
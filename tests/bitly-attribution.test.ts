@@ -0,0 +1,128 @@
+// tests/bitly-attribution.test.ts
+// WHAT: Coverage for Bitly attribution models — how a shared link's daily clicks
+//     are credited to each event, the explanation shown with the numbers, and
+//     validation of the admin's choice.
+
+jest.mock('@/lib/db', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/mongodb', () => ({ __esModule: true, default: Promise.resolve({}) }));
+
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/db';
+import { aggregateMetricsByDateRange } from '@/lib/bitly-aggregator';
+import {
+  attributeTimeseries,
+  attributionShare,
+  describeAttribution,
+  validateAttribution,
+  type AttributionTarget,
+} from '@/lib/bitly-attribution';
+
+const matchA: AttributionTarget = { projectId: 'a', eventDate: '2026-10-01', startDate: null, endDate: '2026-10-03', attribution: { model: 'decay' } };
+const matchB: AttributionTarget = { projectId: 'b', eventDate: '2026-10-04', startDate: '2026-10-03', endDate: null, attribution: { model: 'decay' } };
+
+describe('attributionShare', () => {
+  it('time_window credits whole days inside the date range', () => {
+    const target = { ...matchA, attribution: undefined };
+    expect(attributionShare(target, [], '2026-09-01')).toBe(1);
+    expect(attributionShare(target, [], '2026-10-04')).toBe(0);
+  });
+
+  it('decay weighs days by distance and shares crowded days', () => {
+    // Alone: full weight on the event day, half after one half-life, nothing outside the window
+    expect(attributionShare(matchA, [matchA], '2026-10-01')).toBe(1);
+    expect(attributionShare(matchA, [matchA], '2026-10-03')).toBeCloseTo(0.5);
+    expect(attributionShare(matchA, [matchA], '2026-10-09')).toBe(0);
+
+    // 10-03 is one day from B (w≈0.71) and two from A (w=0.5): split by weight
+    const a = attributionShare(matchA, [matchA, matchB], '2026-10-03');
+    const b = attributionShare(matchB, [matchA, matchB], '2026-10-03');
+    expect(a).toBeCloseTo(0.5 / (0.5 + Math.SQRT1_2));
+    expect(a + b).toBeCloseTo(1);
+  });
+
+  it('even_split divides days covered by several windows', () => {
+    const a = { ...matchA, attribution: { model: 'even_split' as const, windowDays: 2 } };
+    const b = { ...matchB, attribution: { model: 'even_split' as const, windowDays: 2 } };
+    expect(attributionShare(a, [a, b], '2026-09-30')).toBe(1);
+    expect(attributionShare(a, [a, b], '2026-10-02')).toBe(0.5);
+    expect(attributionShare(a, [a, b], '2026-10-05')).toBe(0);
+    // A time_window peer is not a competitor
+    expect(attributionShare(a, [a, { ...matchB, attribution: undefined }], '2026-10-02')).toBe(1);
+  });
+
+  it('manual takes a fixed share of every day', () => {
+    const target = { ...matchA, attribution: { model: 'manual' as const, percent: 40 } };
+    const result = attributeTimeseries([{ date: '2025-01-01', clicks: 10 }, { date: '2026-10-10', clicks: 5 }], target, []);
+    expect(result.total).toBe(6);
+    expect(result.daily).toEqual([{ date: '2025-01-01', clicks: 4 }, { date: '2026-10-10', clicks: 2 }]);
+  });
+});
+
+describe('describeAttribution', () => {
+  it('explains each model in plain language', () => {
+    expect(describeAttribution({ ...matchA, attribution: undefined }, [])).toBe('All clicks from the first click to 2026-10-03');
+    expect(describeAttribution(matchA, [matchA, matchB])).toBe(
+      'Clicks within 7 days of the event date, weighted down by distance (half weight every 2 days), shared with 1 other event on overlapping days'
+    );
+    expect(describeAttribution({ ...matchA, attribution: { model: 'manual', percent: 25 } }, [])).toBe('25% of all clicks on this link (manual split)');
+  });
+});
+
+describe('validateAttribution', () => {
+  it('accepts valid settings and drops fields the model does not use', () => {
+    expect(validateAttribution({ model: 'decay', windowDays: 10, halfLifeDays: 3, percent: 50 })).toEqual({ model: 'decay', windowDays: 10, halfLifeDays: 3 });
+    expect(validateAttribution({ model: 'time_window', windowDays: 10 })).toEqual({ model: 'time_window' });
+  });
+
+  it('rejects unknown models, bad numbers and manual splits over 100%', () => {
+    expect(() => validateAttribution({ model: 'last_click' })).toThrow(/must be one of/);
+    expect(() => validateAttribution({ model: 'even_split', windowDays: 2.5 })).toThrow(/windowDays/);
+    expect(() => validateAttribution({ model: 'manual' })).toThrow(/percent/);
+    expect(() => validateAttribution({ model: 'manual', percent: 50 }, 60)).toThrow(/total 110%/);
+    let error: unknown;
+    try {
+      validateAttribution(null);
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toMatchObject({ status: 400 });
+  });
+});
+
+describe('aggregateMetricsByDateRange with an attribution model', () => {
+  it('credits clicks by model and records how they were derived', async () => {
+    const bitlyLinkId = new ObjectId();
+    (getDb as jest.Mock).mockResolvedValue({
+      collection: () => ({
+        findOne: async () => ({
+          _id: bitlyLinkId,
+          clicks_timeseries: [
+            { date: '2026-09-20', clicks: 40 },
+            { date: '2026-10-01', clicks: 100 },
+            { date: '2026-10-02', clicks: 60 },
+          ],
+          click_summary: { total: 200, unique: 100, updatedAt: '' },
+          geo: { countries: [{ country: 'HU', clicks: 200 }] },
+          referrers: [],
+        }),
+      }),
+    });
+
+    const metrics = await aggregateMetricsByDateRange({
+      bitlyLinkId,
+      startDate: null,
+      endDate: '2026-10-03',
+      attribution: { target: { ...matchA, attribution: { model: 'even_split', windowDays: 3 } }, peers: [] },
+    });
+
+    expect(metrics.clicks).toBe(160);
+    expect(metrics.uniqueClicks).toBe(80);
+    expect(metrics.topCountries).toEqual([{ country: 'HU', clicks: 160 }]);
+    expect(metrics.attribution).toEqual({
+      model: 'even_split',
+      explanation: 'Clicks within 3 days of the event date, split evenly',
+      linkClicks: 200,
+      share: 0.8,
+    });
+  });
+});
@@ -0,0 +1,115 @@
+// tests/bitly-campaigns.test.ts
+// WHAT: Coverage for the UTM campaign dimension — grouping links by source,
+//     medium and campaign, scaling breakdowns to the date range, aligned series
+//     for comparison, and the per-event chart variables.
+
+jest.mock('@/lib/db', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/mongodb', () => ({ __esModule: true, default: Promise.resolve({}) }));
+
+import { ObjectId } from 'mongodb';
+import {
+  aggregateCampaigns,
+  campaignChartStats,
+  campaignIdentity,
+  periodOf,
+  type CampaignLinkInput,
+} from '@/lib/bitly-campaigns';
+
+function link(overrides: Partial<CampaignLinkInput>): CampaignLinkInput {
+  return {
+    _id: new ObjectId(),
+    long_url: 'https://shop.example/',
+    campaign: {},
+    clicks_timeseries: [],
+    click_summary: { total: 0, unique: 0, updatedAt: '' },
+    geo: { countries: [], cities: [] },
+    referrers: [],
+    referring_domains: [],
+    projectIds: [],
+    partnerIds: [],
+    ...overrides,
+  } as CampaignLinkInput;
+}
+
+const summerInsta = link({
+  campaign: { utm_source: 'Instagram', utm_medium: 'social', utm_campaign: 'Summer' },
+  clicks_timeseries: [
+    { date: '2026-06-01', clicks: 10 },
+    { date: '2026-06-09', clicks: 30 },
+    { date: '2026-07-01', clicks: 60 },
+  ],
+  click_summary: { total: 100, unique: 50, updatedAt: '' },
+  geo: { countries: [{ country: 'HU', clicks: 80 }, { country: 'AT', clicks: 20 }], cities: [] },
+  referring_domains: [{ domain: 'l.instagram.com', clicks: 100 }],
+  projectIds: ['e1', 'e2'],
+  partnerIds: ['p1'],
+});
+// Campaign not stored (older link): parsed from the URL
+const summerMail = link({
+  long_url: 'https://shop.example/?utm_source=newsletter&utm_medium=email&utm_campaign=summer',
+  clicks_timeseries: [{ date: '2026-06-02', clicks: 20 }],
+  click_summary: { total: 20, unique: 20, updatedAt: '' },
+  projectIds: ['e2', 'e3'],
+  partnerIds: ['p2'],
+});
+const untagged = link({ clicks_timeseries: [{ date: '2026-06-03', clicks: 5 }], click_summary: { total: 5, unique: 5, updatedAt: '' } });
+
+describe('campaignIdentity', () => {
+  it('lower-cases values, falls back to the URL and marks missing ones', () => {
+    expect(campaignIdentity(summerInsta.campaign)).toEqual({ source: 'instagram', medium: 'social', campaign: 'summer' });
+    expect(campaignIdentity({}, summerMail.long_url)).toEqual({ source: 'newsletter', medium: 'email', campaign: 'summer' });
+    expect(campaignIdentity(undefined)).toEqual({ source: '(not set)', medium: '(not set)', campaign: '(not set)' });
+  });
+
+  it('buckets days into weeks starting Monday and months', () => {
+    expect(periodOf('2026-06-07', 'week')).toBe('2026-06-01');
+    expect(periodOf('2026-06-08T10:00:00Z', 'week')).toBe('2026-06-08');
+    expect(periodOf('2026-06-08', 'month')).toBe('2026-06');
+  });
+});
+
+describe('aggregateCampaigns', () => {
+  it('groups links across partners and events and scales breakdowns to the range', () => {
+    const result = aggregateCampaigns([summerInsta, summerMail, untagged], { startDate: '2026-06-01', endDate: '2026-06-30' });
+
+    expect(result.totals).toEqual({ clicks: 65, links: 3, campaigns: 2 });
+    const [summer, notSet] = result.campaigns;
+    expect(summer).toMatchObject({ key: 'summer', identity: { campaign: 'summer' }, clicks: 60, links: 2, events: 3, partners: 2 });
+    // Instagram link had 40 of its 100 lifetime clicks in June
+    expect(summer.topCountries).toEqual([{ country: 'HU', clicks: 32 }, { country: 'AT', clicks: 8 }]);
+    expect(summer.topReferrers).toEqual([{ domain: 'l.instagram.com', clicks: 40 }]);
+    expect(notSet).toMatchObject({ key: '(not set)', clicks: 5 });
+  });
+
+  it('splits by several fields and aligns series to shared periods', () => {
+    const result = aggregateCampaigns([summerInsta, summerMail], {
+      groupBy: ['source', 'medium'],
+      interval: 'month',
+      startDate: '2026-05-15',
+      endDate: '2026-07-31',
+    });
+    expect(result.periods).toEqual(['2026-05', '2026-06', '2026-07']);
+    expect(result.campaigns.map((row) => [row.key, row.series])).toEqual([
+      ['instagram / social', [0, 40, 60]],
+      ['newsletter / email', [0, 20, 0]],
+    ]);
+  });
+});
+
+describe('campaignChartStats', () => {
+  it('ranks an event’s campaigns into numbered chart variables', () => {
+    const stats = campaignChartStats([
+      { campaign: { utm_campaign: 'Summer' }, clicks: 12 },
+      { long_url: 'https://x.example/?utm_campaign=derby', clicks: 30 },
+      { campaign: { utm_campaign: 'summer' }, clicks: 8 },
+    ]);
+    expect(stats).toMatchObject({
+      bitlyCampaignCount: 2,
+      bitlyCampaign1: 'derby',
+      bitlyCampaign1Clicks: 30,
+      bitlyCampaign2: 'summer',
+      bitlyCampaign2Clicks: 20,
+      bitlyCampaign3: undefined,
+    });
+  });
+});
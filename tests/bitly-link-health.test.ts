@@ -0,0 +1,195 @@
+// tests/bitly-link-health.test.ts
+// WHAT: Coverage for the Bitly link health monitor — click silence and spikes on
+//     the daily series, destination redirect following, and alerting only when
+//     an issue first opens.
+
+jest.mock('@/lib/db', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/mongodb', () => ({ __esModule: true, default: Promise.resolve({}) }));
+jest.mock('@/lib/notificationUtils', () => ({ createNotification: jest.fn().mockResolvedValue(true) }));
+
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/db';
+import { createNotification } from '@/lib/notificationUtils';
+import {
+  checkDestination,
+  dailyClicks,
+  destinationIssues,
+  detectClickIssues,
+  isPrivateHost,
+  mergeIssues,
+  runLinkHealthMonitor,
+  type LinkHealthDoc,
+} from '@/lib/bitly-health';
+
+const NOW = new Date('2026-10-19T06:00:00.000Z');
+
+// `days` complete days before NOW, oldest first, clicks from `value(i)` (0 = oldest)
+function series(days: number, value: (i: number) => number) {
+  return dailyClicks([], NOW, days).map((day, i) => ({ date: day.date, clicks: value(i) }));
+}
+
+// Fake fetch answering from a url → [status, location?] table
+function fakeFetch(routes: Record<string, [number, string?]>, calls: string[] = []) {
+  return jest.fn(async (url: string, init?: RequestInit) => {
+    calls.push(`${init?.method} ${url}`);
+    const [status, location] = routes[url] ?? [404];
+    return new Response(null, { status, headers: location ? { location } : {} });
+  }) as unknown as typeof fetch;
+}
+
+describe('click issues', () => {
+  it('zero-fills complete days and leaves today out', () => {
+    const days = dailyClicks([{ date: '2026-10-17', clicks: 4 }, { date: '2026-10-19', clicks: 9 }], NOW, 3);
+    expect(days).toEqual([
+      { date: '2026-10-16', value: 0 },
+      { date: '2026-10-17', value: 4 },
+      { date: '2026-10-18', value: 0 },
+    ]);
+  });
+
+  it('flags a link that went silent after regular traffic', async () => {
+    const silent = await detectClickIssues(series(60, (i) => (i < 57 ? 5 : 0)), NOW, '2026-10-18');
+    expect(silent.issues.map((issue) => issue.type)).toEqual(['no_clicks']);
+    expect(silent).toMatchObject({ recent: 0, baseline: 140 });
+
+    // Too little traffic to call it silence
+    const quiet = await detectClickIssues(series(60, (i) => (i % 10 === 0 && i < 57 ? 1 : 0)), NOW, '2026-10-18');
+    expect(quiet.issues).toEqual([]);
+  });
+
+  it('does not judge a series the sync stopped updating', async () => {
+    const stale = await detectClickIssues(series(60, (i) => (i < 57 ? 5 : 0)), NOW, '2026-10-10');
+    expect(stale).toMatchObject({ issues: [], skipped: 'stale_series' });
+  });
+
+  it('flags an upward spike in the last days only', async () => {
+    const recent = await detectClickIssues(series(60, (i) => (i === 59 ? 120 : 8 + (i % 5))), NOW, '2026-10-18');
+    expect(recent.issues).toEqual([
+      expect.objectContaining({ type: 'click_spike', details: expect.objectContaining({ date: '2026-10-18', value: 120 }) }),
+    ]);
+
+    const old = await detectClickIssues(series(60, (i) => (i === 30 ? 120 : 8 + (i % 5))), NOW, '2026-10-18');
+    expect(old.issues).toEqual([]);
+  });
+});
+
+describe('checkDestination', () => {
+  it('follows redirects hop by hop and warns on a long chain', async () => {
+    const check = await checkDestination('http://a.example/', {
+      now: NOW,
+      fetchImpl: fakeFetch({
+        'http://a.example/': [301, 'https://a.example/'],
+        'https://a.example/': [302, '/start'],
+        'https://a.example/start': [302, 'https://b.example/x'],
+        'https://b.example/x': [307, 'https://b.example/y'],
+        'https://b.example/y': [200],
+      }),
+    });
+    expect(check).toMatchObject({ ok: true, finalUrl: 'https://b.example/y', finalStatus: 200, redirects: 4 });
+    expect(destinationIssues(check)).toEqual([expect.objectContaining({ type: 'redirect_chain', severity: 'warning' })]);
+  });
+
+  it('retries a refused HEAD with GET and reports a final error status', async () => {
+    const calls: string[] = [];
+    const check = await checkDestination('https://gone.example/page', {
+      fetchImpl: fakeFetch({ 'https://gone.example/page': [405] }, calls),
+    });
+    expect(calls).toEqual(['HEAD https://gone.example/page', 'GET https://gone.example/page']);
+    expect(check).toMatchObject({ ok: false, finalStatus: 405, error: 'HTTP 405' });
+    expect(destinationIssues(check)).toEqual([expect.objectContaining({ type: 'destination_error', severity: 'critical' })]);
+  });
+
+  it('stops at loops, network errors and private addresses', async () => {
+    const loop = await checkDestination('https://a.example/1', {
+      fetchImpl: fakeFetch({ 'https://a.example/1': [302, '/2'], 'https://a.example/2': [302, '/1'] }),
+    });
+    expect(loop).toMatchObject({ ok: false, error: 'Redirect loop' });
+
+    const failing = jest.fn().mockRejectedValue(new Error('getaddrinfo ENOTFOUND')) as unknown as typeof fetch;
+    expect(await checkDestination('https://nowhere.example/', { fetchImpl: failing })).toMatchObject({
+      ok: false,
+      finalStatus: null,
+      error: 'getaddrinfo ENOTFOUND',
+    });
+
+    const calls: string[] = [];
+    const internal = await checkDestination('https://a.example/', {
+      fetchImpl: fakeFetch({ 'https://a.example/': [302, 'http://169.254.169.254/latest'] }, calls),
+    });
+    expect(internal).toMatchObject({ ok: false, error: 'Destination is a private or local address' });
+    expect(calls).toEqual(['HEAD https://a.example/']);
+  });
+
+  it('recognises private and local hosts', () => {
+    expect(['localhost', '10.1.2.3', '172.20.0.1', '192.168.1.1', '[::1]', 'db.internal'].every(isPrivateHost)).toBe(true);
+    expect(['example.com', '8.8.8.8', '172.32.0.1'].some(isPrivateHost)).toBe(false);
+  });
+});
+
+describe('runLinkHealthMonitor', () => {
+  const linkId = new ObjectId();
+  const link = {
+    _id: linkId,
+    bitlink: 'bit.ly/abc',
+    title: 'Match day',
+    long_url: 'https://shop.example/match',
+    projectId: null,
+    clicks_timeseries: series(60, (i) => (i < 57 ? 5 : 0)),
+    lastClicksSyncedUntil: '2026-10-18',
+  };
+  let previous: LinkHealthDoc[];
+  let writes: any[];
+
+  beforeEach(() => {
+    writes = [];
+    (createNotification as jest.Mock).mockClear();
+    (getDb as jest.Mock).mockResolvedValue({
+      collection: (name: string) =>
+        name === 'bitly_links'
+          ? { find: () => ({ project: () => ({ toArray: async () => [link] }) }) }
+          : {
+              find: () => ({ toArray: async () => previous }),
+              updateOne: async (...args: unknown[]) => writes.push(args),
+              deleteMany: async () => ({ deletedCount: 0 }),
+            },
+    });
+  });
+
+  it('records issues and notifies once per newly opened issue', async () => {
+    previous = [];
+    const summary = await runLinkHealthMonitor({ now: NOW, fetchImpl: fakeFetch({ 'https://shop.example/match': [404] }) });
+
+    expect(summary).toMatchObject({ links: 1, destinationsChecked: 1, critical: 1, newIssues: 2, notified: 1 });
+    const $set = writes[0][1].$set;
+    expect($set.status).toBe('critical');
+    expect($set.issues.map((issue: { type: string }) => issue.type)).toEqual(['no_clicks', 'destination_error']);
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ activityType: 'bitly_link_health', projectId: String(linkId) })
+    );
+
+    // Same issues on the next run: `since` is kept and nobody is notified again
+    previous = [{ _id: linkId, ...$set }];
+    (createNotification as jest.Mock).mockClear();
+    const again = await runLinkHealthMonitor({
+      now: new Date('2026-10-20T06:00:00.000Z'),
+      fetchImpl: fakeFetch({ 'https://shop.example/match': [404] }),
+    });
+    expect(again.newIssues).toBe(0);
+    expect(createNotification).not.toHaveBeenCalled();
+    expect(writes[1][1].$set.issues[1].since).toBe(NOW.toISOString());
+  });
+
+  it('keeps `since` for open issues and reports only new ones as opened', () => {
+    const { issues, opened } = mergeIssues(
+      [{ type: 'no_clicks', severity: 'warning', message: 'old', since: '2026-10-01T00:00:00.000Z' }],
+      [
+        { type: 'no_clicks', severity: 'warning', message: 'new' },
+        { type: 'redirect_chain', severity: 'warning', message: 'chain' },
+      ],
+      NOW.toISOString()
+    );
+    expect(issues.map((issue) => issue.since)).toEqual(['2026-10-01T00:00:00.000Z', NOW.toISOString()]);
+    expect(opened).toEqual(['redirect_chain']);
+  });
+});
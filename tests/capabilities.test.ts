@@ -0,0 +1,159 @@
+// tests/capabilities.test.ts
+// WHAT: Coverage for capability authorization — global role grants, scoped
+//     bindings and their inheritance (organization → partner → event), legacy
+//     organizationIds / project_permissions, and role validation.
+
+jest.mock('@/lib/db', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/mongodb', () => ({ __esModule: true, default: Promise.resolve({}) }));
+
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/db';
+import { can, inspectPermissions } from '@/lib/authorization';
+import {
+  BUILT_IN_ROLES,
+  capabilitiesAnywhere,
+  collectGrants,
+  evaluate,
+  validateRoleInput,
+  validateScope,
+} from '@/lib/capabilities';
+import { canAccessMenuItem } from '@/lib/permissions';
+
+const orgId = new ObjectId();
+const partnerId = new ObjectId();
+const otherPartnerId = new ObjectId();
+const eventId = new ObjectId();
+const userId = new ObjectId().toHexString();
+
+const roles = new Map(BUILT_IN_ROLES.map((role) => [role.key, role]));
+
+// Minimal in-memory db: find/findOne match on _id, userId or nothing
+function mockDb(collections: Record<string, Array<Record<string, any>>>) {
+  const matches = (doc: Record<string, any>, query: Record<string, any>) =>
+    Object.entries(query).every(([key, value]) => {
+      if (value && typeof value === 'object' && '$in' in value) return value.$in.some((v: unknown) => String(v) === String(doc[key]));
+      return String(doc[key]) === String(value);
+    });
+  const db = {
+    collection: (name: string) => {
+      const docs = collections[name] || [];
+      return {
+        find: (query: Record<string, any> = {}) => {
+          const found = docs.filter((doc) => matches(doc, query));
+          const cursor = { sort: () => cursor, toArray: async () => found };
+          return cursor;
+        },
+        findOne: async (query: Record<string, any>) => docs.find((doc) => matches(doc, query)) || null,
+      };
+    },
+  };
+  (getDb as jest.Mock).mockResolvedValue(db);
+  return db as never;
+}
+
+const world = {
+  projects: [{ _id: eventId, partner1Id: partnerId, partner2Id: otherPartnerId }],
+  partners: [
+    { _id: partnerId, organizationId: orgId },
+    { _id: otherPartnerId },
+  ],
+};
+
+describe('collectGrants / evaluate', () => {
+  it('global roles grant everywhere and keep admins out of organizations', () => {
+    const admin = collectGrants('admin', [], roles);
+    expect(evaluate(admin, 'bitly.manage')).toBe(true);
+    expect(evaluate(admin, 'role.manage')).toBe(false);
+    expect(evaluate(admin, 'organization.view', [{ type: 'organization', id: 'a'.repeat(24) }])).toBe(false);
+    expect(evaluate(collectGrants('superadmin', [], roles), 'role.manage')).toBe(true);
+    expect(evaluate(collectGrants('guest', [], roles), 'event.edit')).toBe(false);
+  });
+
+  it('every signed-in role keeps what a bare session could do before capabilities', () => {
+    for (const role of ['guest', 'user', 'api'] as const) {
+      const grants = collectGrants(role, [], roles);
+      expect(evaluate(grants, 'event.stats.write', [{ type: 'event', id: 'e1' }])).toBe(true);
+      expect(evaluate(grants, 'chart.edit')).toBe(true);
+      expect(evaluate(grants, 'bitly.manage', [{ type: 'event', id: 'e1' }])).toBe(true);
+    }
+  });
+
+  it('a scoped binding applies only to resources in its lineage', () => {
+    const grants = collectGrants('user', [{ userId, roleKey: 'owner', scope: { type: 'partner', id: 'p1' } }], roles);
+    expect(evaluate(grants, 'event.delete', [{ type: 'event', id: 'e1' }, { type: 'partner', id: 'p1' }])).toBe(true);
+    expect(evaluate(grants, 'event.delete', [{ type: 'event', id: 'e2' }, { type: 'partner', id: 'p2' }])).toBe(false);
+    expect(evaluate(grants, 'event.delete')).toBe(false);
+    expect(capabilitiesAnywhere(grants)).toContain('event.delete');
+  });
+
+  it('a binding to an unknown role grants nothing', () => {
+    expect(collectGrants('guest', [{ userId, roleKey: 'deleted', scope: { type: 'global' } }], roles)).toEqual(collectGrants('guest', [], roles));
+  });
+});
+
+describe('can', () => {
+  it('inherits organization bindings down to partners and events', async () => {
+    mockDb({
+      ...world,
+      role_bindings: [{ _id: new ObjectId(), userId, roleKey: 'editor', scope: { type: 'organization', id: orgId.toHexString() } }],
+    });
+    const user = { id: userId, role: 'user' as const };
+    expect(await can(user, 'report.edit', { type: 'event', id: eventId.toHexString() })).toBe(true);
+    expect(await can(user, 'report.edit', { type: 'partner', id: partnerId.toHexString() })).toBe(true);
+    expect(await can(user, 'report.edit', { type: 'partner', id: otherPartnerId.toHexString() })).toBe(false);
+    expect(await can(user, 'report.edit')).toBe(false);
+    expect(await can(user, 'report.publish', { type: 'event', id: eventId.toHexString() })).toBe(false);
+    expect(await can(null, 'event.view')).toBe(false);
+  });
+
+  it('reads organizationIds and project_permissions as bindings', async () => {
+    mockDb({ ...world, project_permissions: [{ userId, projectId: eventId.toHexString(), role: 'owner' }] });
+    const admin = { id: userId, role: 'admin' as const, organizationIds: [orgId.toHexString()] };
+    expect(await can(admin, 'organization.view', { type: 'organization', id: orgId.toHexString() })).toBe(true);
+    expect(await can(admin, 'organization.view', { type: 'organization', id: new ObjectId().toHexString() })).toBe(false);
+
+    const guest = { id: userId, role: 'guest' as const };
+    expect(await can(guest, 'event.delete', { type: 'event', id: eventId.toHexString() })).toBe(true);
+    expect(await can(guest, 'event.delete', { type: 'event', id: new ObjectId().toHexString() })).toBe(false);
+    expect(await can(guest, 'event.stats.write', { type: 'event', id: new ObjectId().toHexString() })).toBe(true);
+  });
+});
+
+describe('inspectPermissions', () => {
+  it('explains which binding grants each capability', async () => {
+    const db = mockDb({
+      ...world,
+      role_bindings: [{ _id: new ObjectId(), userId, roleKey: 'viewer', scope: { type: 'partner', id: partnerId.toHexString() } }],
+    });
+    const report = await inspectPermissions(db, { id: userId, role: 'guest' }, { type: 'event', id: eventId.toHexString() });
+    expect(report.lineage.map((scope) => scope.type)).toEqual(['event', 'partner', 'partner', 'organization', 'global']);
+    const eventView = report.capabilities.find((row) => row.capability === 'event.view');
+    expect(eventView).toMatchObject({ allowed: true, grants: [{ roleKey: 'viewer', source: 'binding', scope: { type: 'partner' } }] });
+    expect(report.capabilities.find((row) => row.capability === 'event.edit')?.allowed).toBe(false);
+  });
+});
+
+describe('validation', () => {
+  it('validates scopes and custom roles', () => {
+    expect(validateScope({ type: 'global', id: 'ignored' })).toEqual({ type: 'global' });
+    expect(() => validateScope({ type: 'event', id: 'nope' })).toThrow(/scope.id/);
+    expect(() => validateScope({ type: 'team' })).toThrow(/scope.type/);
+
+    expect(validateRoleInput({ key: 'bitly-desk', name: ' Bitly desk ', capabilities: ['bitly.manage', 'event.view', 'bitly.manage'] })).toEqual({
+      key: 'bitly-desk',
+      name: 'Bitly desk',
+      description: undefined,
+      capabilities: ['event.view', 'bitly.manage'],
+    });
+    expect(() => validateRoleInput({ key: 'owner', name: 'x', capabilities: ['event.view'] })).toThrow(/built-in/);
+    expect(() => validateRoleInput({ key: 'desk', name: 'x', capabilities: ['event.fly'] })).toThrow(/Unknown capabilities: event.fly/);
+  });
+});
+
+describe('canAccessMenuItem with capabilities', () => {
+  it('opens a menu entry for a capability held in any scope', () => {
+    expect(canAccessMenuItem('user', 'Bitly Links')).toBe(false);
+    expect(canAccessMenuItem('user', 'Bitly Links', ['bitly.manage'])).toBe(true);
+    expect(canAccessMenuItem('user', 'Migrations', ['system.manage'])).toBe(false);
+  });
+});
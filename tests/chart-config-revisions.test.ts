@@ -0,0 +1,73 @@
+// tests/chart-config-revisions.test.ts
+// WHAT: Coverage for the chart configuration revision diff — chart fields,
+//     per-element formula changes — and its audit log form.
+
+import { diffChartConfigurations, diffToAuditChanges, type ChartConfigSnapshot } from '@/lib/chartConfigRevisions';
+
+jest.mock('@/lib/db', () => ({ getDb: jest.fn() }));
+
+function chart(overrides: Partial<ChartConfigSnapshot> = {}): ChartConfigSnapshot {
+  return {
+    chartId: 'gender-distribution',
+    title: 'Gender',
+    type: 'pie',
+    order: 1,
+    isActive: true,
+    elements: [
+      { id: 'female', label: 'Female', formula: '[female]', color: '#ff6b9d' },
+      { id: 'male', label: 'Male', formula: '[male]', color: '#4a90e2' },
+    ],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('diffChartConfigurations', () => {
+  it('ignores save bookkeeping', () => {
+    const diff = diffChartConfigurations(chart(), chart({ updatedAt: '2026-02-01T00:00:00.000Z', lastModifiedBy: 'admin' }));
+    expect(diff.hasChanges).toBe(false);
+  });
+
+  it('reports formula changes per element', () => {
+    const base = chart();
+    const next = chart({
+      elements: [{ ...base.elements[0], formula: '[female] - [staffFemale]' }, base.elements[1]],
+    });
+
+    const diff = diffChartConfigurations(base, next);
+    expect(diff.fields).toEqual([]);
+    expect(diff.elements).toEqual([
+      { elementId: 'female', label: 'Female', status: 'changed', formula: { from: '[female]', to: '[female] - [staffFemale]' }, changes: [] },
+    ]);
+  });
+
+  it('reports added and removed elements and chart fields', () => {
+    const base = chart();
+    const next = chart({
+      title: 'Fans by gender',
+      elements: [base.elements[0], { id: 'other', label: 'Other', formula: '[other]', color: '#999999' }],
+    });
+
+    const diff = diffChartConfigurations(base, next);
+    expect(diff.fields).toEqual([{ key: 'title', from: 'Gender', to: 'Fans by gender' }]);
+    expect(diff.elements.map((e) => [e.elementId, e.status, e.formula])).toEqual([
+      ['other', 'added', { from: null, to: '[other]' }],
+      ['male', 'removed', { from: '[male]', to: null }],
+    ]);
+  });
+
+  it('turns a diff into audit log changes', () => {
+    const base = chart();
+    const next = chart({
+      isActive: false,
+      elements: [{ ...base.elements[0], formula: '[female] * 2', color: '#000000' }, base.elements[1]],
+    });
+
+    expect(diffToAuditChanges(diffChartConfigurations(base, next))).toEqual([
+      { field: 'isActive', before: true, after: false },
+      { field: 'elements.female.formula', before: '[female]', after: '[female] * 2' },
+      { field: 'elements.female.color', before: '#ff6b9d', after: '#000000' },
+    ]);
+  });
+});
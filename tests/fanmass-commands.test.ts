@@ -1,19 +1,43 @@
 // tests/fanmass-commands.test.ts
 // WHAT: Unit coverage for the generic command queue's core invariants:
-//     list-pending only ever returns pending commands in requestedAt order,
-//     ack is idempotent (a retried DELETE never overwrites a stored
-//     ackResult), acking an unknown id is a 404 rather than a silent no-op,
-//     and duplicate-detection distinguishes overlapping vs. unrelated
+//     polling claims pending commands oldest-first for a lease, a lapsed
+//     lease re-offers the command and fails it after MAX_CLAIM_ATTEMPTS,
+//     unclaimed commands expire, ack is idempotent (a retried DELETE never
+//     overwrites a stored ackResult), acking an unknown id is a 404 rather
+//     than a silent no-op, cancel/retry only move between the states they
+//     allow, and duplicate-detection distinguishes overlapping vs. unrelated
 //     settings.update payloads.
 // HOW: A minimal in-memory fake of the handful of Mongo operations this
-//     module issues — insertOne, find().sort().toArray(), findOne,
-//     updateOne, createIndex (no-op) — not a general Mongo emulator.
+//     module issues — insertOne, find().sort().limit().toArray(), findOne,
+//     updateOne/findOneAndUpdate ($set/$unset/$inc/$push), createIndex
+//     (no-op) — not a general Mongo emulator.
 
+jest.mock('@/lib/notificationUtils', () => ({ createNotification: jest.fn(async () => true) }));
 jest.mock('@/lib/mongodb', () => {
   const docs: Record<string, any>[] = [];
 
+  function valueAt(doc: any, path: string): any {
+    return path.split('.').reduce((value, key) => (value == null ? undefined : value[key]), doc);
+  }
+
   function matches(doc: any, filter: any): boolean {
-    return Object.entries(filter).every(([key, value]) => doc[key] === value);
+    return Object.entries(filter).every(([key, value]: [string, any]) => {
+      const actual = valueAt(doc, key);
+      if (value && typeof value === 'object') {
+        if ('$in' in value) return value.$in.includes(actual);
+        if ('$lte' in value) return actual !== undefined && actual <= value.$lte;
+      }
+      return actual === value;
+    });
+  }
+
+  function apply(doc: any, update: any) {
+    Object.assign(doc, update.$set || {});
+    for (const key of Object.keys(update.$unset || {})) delete doc[key];
+    for (const [key, by] of Object.entries<number>(update.$inc || {})) doc[key] = (doc[key] || 0) + by;
+    for (const [key, push] of Object.entries<any>(update.$push || {})) {
+      doc[key] = [...(doc[key] || []), ...push.$each].slice(push.$slice);
+    }
   }
 
   const fakeCollection = {
@@ -22,7 +46,7 @@ jest.mock('@/lib/mongodb', () => {
       return 'noop_index';
     },
     async insertOne(doc: any) {
-      docs.push({ ...doc });
+      docs.push(structuredClone(doc));
       return { insertedId: doc.commandId };
     },
     async findOne(filter: any) {
@@ -36,6 +60,10 @@ jest.mock('@/lib/mongodb', () => {
           rows = [...rows].sort((a, b) => (a[key] > b[key] ? 1 : -1) * dir);
           return this;
         },
+        limit(n: number) {
+          rows = rows.slice(0, n);
+          return this;
+        },
         async toArray() {
           return rows;
         },
@@ -43,8 +71,14 @@ jest.mock('@/lib/mongodb', () => {
     },
     async updateOne(filter: any, update: any) {
       const doc = docs.find((d) => matches(d, filter));
-      if (doc) Object.assign(doc, update.$set || {});
-      return { matchedCount: doc ? 1 : 0 };
+      if (doc) apply(doc, update);
+      return { matchedCount: doc ? 1 : 0, modifiedCount: doc ? 1 : 0 };
+    },
+    async findOneAndUpdate(filter: any, update: any) {
+      const doc = docs.find((d) => matches(d, filter));
+      if (!doc) return null;
+      apply(doc, update);
+      return { ...doc };
     },
   };
 
@@ -57,29 +91,86 @@ jest.mock('@/lib/mongodb', () => {
 
 import {
   createCommand,
-  listPendingCommands,
+  claimCommands,
   ackCommand,
+  failCommand,
+  cancelCommand,
+  retryCommand,
+  getCommand,
   findPendingDuplicate,
+  normalizeCommandError,
+  MAX_CLAIM_ATTEMPTS,
 } from '@/lib/fanmassCommands';
+import { createNotification } from '@/lib/notificationUtils';
+
+const { __fakeCollection } = jest.requireMock('@/lib/mongodb');
+
+function secondsFromNow(seconds: number): Date {
+  return new Date(Date.now() + seconds * 1000);
+}
+
+beforeEach(() => {
+  __fakeCollection.__docs.length = 0;
+  (createNotification as jest.Mock).mockClear();
+});
 
 describe('fanmassCommands', () => {
-  it('lists only pending commands, ordered oldest-first', async () => {
+  it('claims pending commands oldest-first, and hands each out once per lease', async () => {
     const first = await createCommand('run_control.start_batch', { batchId: 'b1' }, 'admin@messmass');
     await new Promise((r) => setTimeout(r, 2));
     const second = await createCommand('entity.rename', { entityId: 'e1', newName: 'X' }, 'admin@messmass');
 
-    const pending = await listPendingCommands();
-    expect(pending.map((c) => c.commandId)).toEqual([first.commandId, second.commandId]);
-    expect(pending.every((c) => c.status === 'pending')).toBe(true);
+    const claimed = await claimCommands('fanmass-worker');
+    expect(claimed.map((c) => c.commandId)).toEqual([first.commandId, second.commandId]);
+    expect(claimed.every((c) => c.status === 'claimed' && c.attempts === 1 && c.claimedBy === 'fanmass-worker')).toBe(true);
+    expect(await claimCommands('fanmass-worker')).toEqual([]);
+  });
+
+  it('offers a command again when its lease lapses, and fails it once the attempts run out', async () => {
+    const cmd = await createCommand('entity.rename', { entityId: 'e1', displayName: 'X' }, 'admin@messmass');
+    for (let attempt = 1; attempt <= MAX_CLAIM_ATTEMPTS; attempt++) {
+      const [claimed] = await claimCommands('fanmass', { leaseSeconds: 30, now: secondsFromNow((attempt - 1) * 31) });
+      expect(claimed).toMatchObject({ commandId: cmd.commandId, attempts: attempt });
+    }
+
+    expect(await claimCommands('fanmass', { now: secondsFromNow(MAX_CLAIM_ATTEMPTS * 31) })).toEqual([]);
+    const failed = await getCommand(cmd.commandId, secondsFromNow(MAX_CLAIM_ATTEMPTS * 31));
+    expect(failed).toMatchObject({ status: 'failed', error: { code: 'LEASE_EXHAUSTED' } });
+    expect(failed.finishedAt).toBeDefined();
+    expect(failed.timeline.map((e) => e.type)).toEqual([
+      'created',
+      'claimed',
+      'lease_lapsed',
+      'claimed',
+      'lease_lapsed',
+      'claimed',
+      'lease_lapsed',
+      'failed',
+    ]);
+    expect(createNotification).toHaveBeenCalledTimes(1);
+    expect(createNotification).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ activityType: 'fanmass_command_failed', projectId: cmd.commandId })
+    );
   });
 
-  it('acks a pending command, removing it from the pending list and storing ackResult', async () => {
+  it('expires a command fanmass never picked up within its window', async () => {
+    const cmd = await createCommand('run_control.start_batch', { batchId: 'b1' }, 'admin@messmass');
+    expect(await claimCommands('fanmass', { now: secondsFromNow(16 * 60) })).toEqual([]);
+
+    const expired = await getCommand(cmd.commandId);
+    expect(expired).toMatchObject({ status: 'expired', error: { code: 'NOT_PICKED_UP' } });
+    expect(createNotification).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ activityType: 'fanmass_command_failed' }));
+  });
+
+  it('acks a claimed command, so it is not offered again, and stores ackResult', async () => {
     const cmd = await createCommand('settings.update', { yolo_confidence: 0.5 }, 'admin@messmass');
+    await claimCommands('fanmass');
     const result = await ackCommand(cmd.commandId, { restartRequired: true });
     expect(result).toEqual({ applied: true, commandId: cmd.commandId, ackResult: { restartRequired: true } });
 
-    const pending = await listPendingCommands();
-    expect(pending.find((c) => c.commandId === cmd.commandId)).toBeUndefined();
+    expect(await claimCommands('fanmass', { now: secondsFromNow(600) })).toEqual([]);
+    expect(await getCommand(cmd.commandId)).toMatchObject({ status: 'applied', ackResult: { restartRequired: true } });
   });
 
   it('is idempotent: acking an already-applied command returns the original ackResult, not a new one', async () => {
@@ -93,10 +184,57 @@ describe('fanmassCommands', () => {
     await expect(ackCommand('does-not-exist')).rejects.toMatchObject({ code: 'COMMAND_NOT_FOUND', status: 404 });
   });
 
-  it('detects a duplicate pending command of the same non-settings type', async () => {
+  it('records a failure report once, and a late ack still as applied', async () => {
+    const cmd = await createCommand('entity.merge', { entityId: 'e1', sourceId: 'e2' }, 'admin@messmass');
+    await claimCommands('fanmass');
+    const failed = await failCommand(cmd.commandId, { code: 'ENTITY_NOT_FOUND', message: 'e2 no longer exists' });
+    expect(failed).toMatchObject({ status: 'failed', error: { code: 'ENTITY_NOT_FOUND' } });
+    await failCommand(cmd.commandId, { message: 'second report' });
+    expect((await getCommand(cmd.commandId)).error?.message).toBe('e2 no longer exists');
+    expect(createNotification).toHaveBeenCalledTimes(1);
+
+    await ackCommand(cmd.commandId);
+    const applied = await getCommand(cmd.commandId);
+    expect(applied.status).toBe('applied');
+    expect(applied.finishedAt).toBeUndefined();
+    expect(applied.timeline[applied.timeline.length - 1]).toMatchObject({ type: 'applied', detail: 'acknowledged after it was failed' });
+    await expect(failCommand(cmd.commandId, { message: 'too late' })).rejects.toMatchObject({ status: 409, code: 'COMMAND_ALREADY_APPLIED' });
+  });
+
+  it('cancels only commands fanmass has not picked up, and retries what did not apply', async () => {
+    const claimed = await createCommand('entity.rename', { entityId: 'e1', displayName: 'X' }, 'admin@messmass');
+    await claimCommands('fanmass');
+    await expect(cancelCommand(claimed.commandId, 'admin@messmass')).rejects.toMatchObject({ status: 409, code: 'COMMAND_NOT_CANCELLABLE' });
+    await expect(retryCommand(claimed.commandId, 'admin@messmass')).rejects.toMatchObject({ status: 409, code: 'COMMAND_NOT_RETRYABLE' });
+
+    const cmd = await createCommand('run_control.start_batch', { batchId: 'b1' }, 'admin@messmass');
+    expect(await cancelCommand(cmd.commandId, 'admin@messmass')).toMatchObject({ status: 'cancelled', cancelledBy: 'admin@messmass' });
+
+    const retried = await retryCommand(cmd.commandId, 'other@messmass');
+    expect(retried).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(retried.finishedAt).toBeUndefined();
+    expect(retried.timeline.map((e) => e.type)).toEqual(['created', 'cancelled', 'retried']);
+    expect((await claimCommands('fanmass')).map((c) => c.commandId)).toEqual([cmd.commandId]);
+  });
+
+  it('refuses a retry while the same action is already in flight', async () => {
+    const cmd = await createCommand('run_control.start_batch', { batchId: 'b1' }, 'admin@messmass');
+    await cancelCommand(cmd.commandId, 'admin@messmass');
+    await createCommand('run_control.start_batch', { batchId: 'b1' }, 'admin@messmass');
+    await expect(retryCommand(cmd.commandId, 'admin@messmass')).rejects.toMatchObject({ status: 409, code: 'DUPLICATE_PENDING_COMMAND' });
+  });
+
+  it('validates failure reports', () => {
+    expect(normalizeCommandError({ code: ' BAD ', message: ' nope ' })).toEqual({ code: 'BAD', message: 'nope' });
+    expect(() => normalizeCommandError({ code: 'BAD' })).toThrow(/message/);
+  });
+
+  it('detects a duplicate in-flight command of the same non-settings type, claimed or not', async () => {
     await createCommand('run_control.start_batch', { batchId: 'b2' }, 'admin@messmass');
     const dup = await findPendingDuplicate('run_control.start_batch', { batchId: 'b2' });
     expect(dup).not.toBeNull();
+    await claimCommands('fanmass');
+    expect(await findPendingDuplicate('run_control.start_batch', { batchId: 'b2' })).not.toBeNull();
   });
 
   it('detects a settings.update duplicate only on overlapping keys, not unrelated ones', async () => {
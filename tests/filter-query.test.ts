@@ -0,0 +1,176 @@
+// tests/filter-query.test.ts
+// WHAT: Coverage for the filter expression language — parsing and precedence,
+//     canonical formatting, syntax errors, compilation to a MongoDB query, and
+//     resolving partner/organization names.
+
+jest.mock('@/lib/mongodb', () => ({ __esModule: true, default: Promise.resolve({}) }));
+
+import { ObjectId } from 'mongodb';
+import {
+  compileFilterQuery,
+  filterFromHashtags,
+  formatFilterExpression,
+  hashtagsInFilter,
+  parseFilterExpression,
+  type FilterReferences,
+} from '@/lib/filterQuery';
+import { buildFilterProjectQuery } from '@/lib/filterQueryResolver';
+import { filterSlugIdentity } from '@/lib/slugUtils';
+
+const noRefs: FilterReferences = { partners: new Map(), organizations: new Map() };
+
+describe('parseFilterExpression', () => {
+  it('binds NOT tighter than AND and AND tighter than OR', () => {
+    expect(parseFilterExpression('summer OR winter AND NOT friendly')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'hashtag', category: null, value: 'summer' },
+        {
+          type: 'and',
+          children: [
+            { type: 'hashtag', category: null, value: 'winter' },
+            { type: 'not', child: { type: 'hashtag', category: null, value: 'friendly' } },
+          ],
+        },
+      ],
+    });
+  });
+
+  it('reads old comma lists and adjacent terms as AND', () => {
+    const expected = parseFilterExpression('summer AND country:hungary');
+    expect(parseFilterExpression('summer,country:hungary')).toEqual(expected);
+    expect(parseFilterExpression('#Summer  country:Hungary')).toEqual(expected);
+    expect(filterFromHashtags(['summer', 'country:hungary'])).toEqual(expected);
+  });
+
+  it('parses partner, organization, date and stat terms', () => {
+    const node = parseFilterExpression('partner:"FC Barcelona" org:UEFA date:2025-01-01.. stats.eventAttendees>=5000');
+    expect(node).toEqual({
+      type: 'and',
+      children: [
+        { type: 'partner', value: 'FC Barcelona' },
+        { type: 'organization', value: 'UEFA' },
+        { type: 'date', from: '2025-01-01', to: null },
+        { type: 'stat', field: 'eventAttendees', op: '>=', value: 5000 },
+      ],
+    });
+  });
+
+  it('reports what is wrong and where', () => {
+    const cases: Array<[string, RegExp]> = [
+      ['(summer OR winter', /Missing closing parenthesis/],
+      ['summer AND', /ends too early/],
+      ['stats.eventAttendees > many', /needs a number/],
+      ['eventAttendees > 5', /only allowed on stats/],
+      ['date:2025-12-31..2025-01-01', /ends before it starts/],
+      ['partner:"FC', /Unterminated quote/],
+    ];
+    for (const [source, message] of cases) {
+      expect(() => parseFilterExpression(source)).toThrow(message);
+    }
+    let error: unknown;
+    try {
+      parseFilterExpression('summer ) winter');
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toMatchObject({ status: 400, position: 7 });
+  });
+});
+
+describe('formatFilterExpression', () => {
+  it('produces canonical text that parses back to the same tree', () => {
+    const sources = [
+      '(summer or winter) and not (friendly or cup:youth)',
+      'partner:"FC Barcelona" OR org:64b0c0ffee0000000000abcd',
+      'date:2025-06-01 AND stats.eventAttendees != -1.5',
+      '"and" AND "a:b"',
+    ];
+    for (const source of sources) {
+      const node = parseFilterExpression(source);
+      const text = formatFilterExpression(node);
+      expect(parseFilterExpression(text)).toEqual(node);
+    }
+    expect(formatFilterExpression(parseFilterExpression('(summer or winter) and not (friendly or cup:youth)'))).toBe(
+      '(summer OR winter) AND NOT (friendly OR cup:youth)'
+    );
+  });
+
+  it('lists the hashtags an expression mentions', () => {
+    expect(hashtagsInFilter(parseFilterExpression('summer OR (country:hungary AND NOT summer) OR partner:x'))).toEqual([
+      'summer',
+      'country:hungary',
+    ]);
+  });
+});
+
+describe('compileFilterQuery', () => {
+  it('compiles terms and boolean structure to MongoDB operators', () => {
+    const query = compileFilterQuery(
+      parseFilterExpression('country:hungary AND NOT date:..2024-12-31 AND (stats.eventAttendees > 5000 OR stats.selfies = 0)'),
+      noRefs
+    );
+    expect(query).toEqual({
+      $and: [
+        { 'categorizedHashtags.country': 'hungary' },
+        { $nor: [{ eventDate: { $lt: '2025-01-01' } }] },
+        { $or: [{ 'stats.eventAttendees': { $gt: 5000 } }, { 'stats.selfies': { $eq: 0 } }] },
+      ],
+    });
+  });
+
+  it('matches partners on either side and nothing for an unknown name', () => {
+    const partnerId = new ObjectId();
+    const refs: FilterReferences = { partners: new Map([['fc barcelona', [partnerId]]]), organizations: new Map() };
+    const query = compileFilterQuery(parseFilterExpression('partner:"FC Barcelona" OR partner:nobody'), refs);
+    expect(query).toEqual({
+      $or: [
+        {
+          $or: [
+            { partner1Id: { $in: [partnerId] } },
+            { partner2Id: { $in: [partnerId] } },
+            { partner1: { $in: [partnerId] } },
+            { partner2: { $in: [partnerId] } },
+          ],
+        },
+        { _id: { $in: [] } },
+      ],
+    });
+  });
+});
+
+describe('buildFilterProjectQuery', () => {
+  it('resolves organizations to their member partners', async () => {
+    const orgId = new ObjectId();
+    const memberId = new ObjectId();
+    const finds: Array<[string, unknown]> = [];
+    const db = {
+      collection: (name: string) => ({
+        find: (query: unknown) => {
+          finds.push([name, query]);
+          const docs = name === 'organizations' ? [{ _id: orgId }] : [{ _id: memberId }];
+          return { toArray: async () => docs };
+        },
+      }),
+    };
+
+    const query = await buildFilterProjectQuery(db as never, 'org:UEFA');
+    expect(finds[0]).toEqual(['organizations', { name: { $regex: /^UEFA$/i } }]);
+    expect(finds[1]).toEqual(['partners', { organizationId: { $in: [orgId] } }]);
+    expect(query).toMatchObject({ $or: expect.arrayContaining([{ partner1Id: { $in: [memberId] } }]) });
+  });
+});
+
+describe('filterSlugIdentity', () => {
+  it('keys expressions by canonical text and keeps tag lists apart from them', () => {
+    expect(filterSlugIdentity([], 'winter  or summer')).toEqual({
+      query: { expression: 'winter OR summer' },
+      hashtags: ['winter', 'summer'],
+      expression: 'winter OR summer',
+    });
+    expect(filterSlugIdentity(['Winter', 'summer'])).toEqual({
+      query: { hashtags: { $eq: ['summer', 'winter'] }, expression: { $exists: false } },
+      hashtags: ['summer', 'winter'],
+    });
+  });
+});
@@ -0,0 +1,152 @@
+// tests/fixture-providers.test.ts
+// WHAT: Coverage for the unified fixture pipeline — provider normalisation,
+//     team-to-partner matching confidence, and cross-provider de-duplication.
+
+jest.mock('@/lib/db', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/mongodb', () => ({ __esModule: true, default: Promise.resolve({}) }));
+
+import { ObjectId } from 'mongodb';
+import { fromApiFootballFixture } from '@/lib/fixtures/providers/apiFootball';
+import { fromFootballDataMatch } from '@/lib/fixtures/providers/footballData';
+import { fromSportsDbEvent } from '@/lib/fixtures/providers/sportsDb';
+import { dedupeDateWindow, isSameFixture, mergeFixture, type MatchedFixture } from '@/lib/fixtures/dedupe';
+import { mergeMatchHashtags } from '@/lib/fixtures/drafts';
+import {
+  AUTO_LINK_CONFIDENCE,
+  matchTeamToPartner,
+  normalizeTeamName,
+  toPartnerCandidate,
+  type PartnerCandidate,
+} from '@/lib/fixtures/teamMatching';
+
+const BARCA_ID = '69b322e0cb8e841f95de9aa1';
+const MADRID_ID = '69b322e0cb8e841f95de9aa2';
+const NOW = '2026-10-19T12:00:00.000Z';
+
+const candidates: PartnerCandidate[] = [
+  toPartnerCandidate({ _id: BARCA_ID, name: 'FC Barcelona', footballData: { teamId: 81, shortName: 'Barça' }, sportsDb: { strAlternate: 'Barca, Blaugrana' } }),
+  toPartnerCandidate({ _id: MADRID_ID, name: 'Real Madrid', sportsDb: { teamId: '133738' } }),
+];
+
+const footballData = fromFootballDataMatch({
+  id: 4401,
+  utcDate: '2026-10-25T19:00:00Z',
+  status: 'TIMED',
+  competition: { id: 2014, name: 'Primera Division', code: 'PD', type: 'LEAGUE' },
+  homeTeam: { id: 81, name: 'FC Barcelona', shortName: 'Barça', tla: 'FCB' },
+  awayTeam: { id: 86, name: 'Real Madrid CF', shortName: 'Real Madrid', tla: 'RMA' },
+} as any);
+
+const sportsDb = fromSportsDbEvent({
+  idEvent: '2100001',
+  strEvent: 'Barcelona vs Real Madrid',
+  strLeague: 'Spanish La Liga',
+  idLeague: '4335',
+  dateEvent: '2026-10-25',
+  strTimestamp: '2026-10-25T19:00:00',
+  idHomeTeam: '133739',
+  idAwayTeam: '133738',
+  strHomeTeam: 'Barcelona',
+  strAwayTeam: 'Real Madrid',
+  strStatus: 'Not Started',
+});
+
+function matched(fixture: typeof footballData): MatchedFixture {
+  return {
+    fixture,
+    homeMatch: matchTeamToPartner(fixture.provider, fixture.homeTeam, candidates),
+    awayMatch: matchTeamToPartner(fixture.provider, fixture.awayTeam, candidates),
+  };
+}
+
+describe('provider adapters', () => {
+  it('normalise each provider into the same shape', () => {
+    expect(footballData).toMatchObject({
+      provider: 'football-data',
+      providerFixtureId: '4401',
+      sport: 'soccer',
+      date: '2026-10-25',
+      kickoffAt: '2026-10-25T19:00:00Z',
+      status: 'scheduled',
+      homeTeam: { id: '81', name: 'FC Barcelona', code: 'FCB' },
+    });
+    expect(sportsDb).toMatchObject({
+      provider: 'sportsdb',
+      providerFixtureId: '2100001',
+      kickoffAt: '2026-10-25T19:00:00.000Z',
+      status: 'scheduled',
+      competition: { id: '4335', name: 'Spanish La Liga' },
+      score: null,
+    });
+
+    const apiFootball = fromApiFootballFixture({
+      fixture: { id: 9, timezone: 'UTC', date: '2026-10-25T21:00:00+02:00', timestamp: 0, status: { long: 'Match Finished', short: 'FT' } },
+      league: { id: 140, name: 'La Liga', country: 'Spain', logo: '', season: 2026 },
+      teams: { home: { id: 529, name: 'Barcelona', logo: '' }, away: { id: 541, name: 'Real Madrid', logo: '' } },
+      goals: { home: 2, away: 1 },
+    });
+    expect(apiFootball).toMatchObject({ kickoffAt: '2026-10-25T19:00:00.000Z', status: 'finished', score: { home: 2, away: 1 } });
+  });
+});
+
+describe('matchTeamToPartner', () => {
+  it('prefers the provider team id, then names and aliases', () => {
+    expect(matchTeamToPartner('football-data', footballData.homeTeam, candidates)).toMatchObject({ partnerId: BARCA_ID, confidence: 1, method: 'provider_id' });
+    expect(matchTeamToPartner('sportsdb', sportsDb.homeTeam, candidates)).toMatchObject({ partnerId: BARCA_ID, confidence: 0.9, method: 'exact_name' });
+    expect(matchTeamToPartner('api-football', { id: '1', name: 'Blaugrana' }, candidates)).toMatchObject({ partnerId: BARCA_ID, method: 'alias' });
+    expect(normalizeTeamName('Real Madrid CF')).toBe('real madrid');
+  });
+
+  it('keeps near misses as suggestions below the auto-link confidence', () => {
+    const fuzzy = matchTeamToPartner('api-football', { id: '2', name: 'Real Madrit' }, candidates);
+    expect(fuzzy).toMatchObject({ partnerId: MADRID_ID, method: 'fuzzy_name' });
+    expect(fuzzy!.confidence).toBeLessThan(AUTO_LINK_CONFIDENCE);
+    expect(matchTeamToPartner('api-football', { id: '3', name: 'Atletico Madrid' }, candidates)).toBeNull();
+  });
+
+  it('scales down an exact name shared by two partners', () => {
+    const twins = [...candidates, toPartnerCandidate({ _id: '69b322e0cb8e841f95de9aa3', name: 'Barcelona' })];
+    const match = matchTeamToPartner('sportsdb', { id: null, name: 'Barcelona' }, twins);
+    expect(match!.confidence).toBeLessThan(AUTO_LINK_CONFIDENCE);
+  });
+});
+
+describe('de-duplication', () => {
+  const stored = { _id: new ObjectId(), ...mergeFixture(null, matched(footballData), NOW) };
+
+  it('links partners only above the auto-link confidence', () => {
+    expect(String(stored.homePartnerId)).toBe(BARCA_ID);
+    expect(stored.awayPartnerId).toBeDefined();
+    expect(stored.awayTeam.match).toMatchObject({ partnerId: MADRID_ID, method: 'exact_name' });
+  });
+
+  it('recognises the same match from another provider and merges it', () => {
+    expect(isSameFixture(stored, matched(sportsDb))).toBe(true);
+    const merged = mergeFixture(stored, matched(sportsDb), NOW);
+    expect(merged.sources.map((s) => s.provider)).toEqual(['football-data', 'sportsdb']);
+    // Football-Data.org ranks first, so it keeps owning the core fields
+    expect(merged.primaryProvider).toBe('football-data');
+    expect(merged.competition.name).toBe('Primera Division');
+    expect(merged.homeTeam.match).toMatchObject({ method: 'provider_id' });
+  });
+
+  it('does not merge different matches or a second fixture from the same provider', () => {
+    const otherDay = { ...sportsDb, date: '2026-10-28' };
+    const otherOpponent = { ...sportsDb, awayTeam: { id: '133604', name: 'Sevilla' } };
+    expect(isSameFixture(stored, matched(otherDay))).toBe(false);
+    expect(isSameFixture(stored, matched(otherOpponent))).toBe(false);
+    expect(isSameFixture(stored, matched({ ...footballData, providerFixtureId: '4402' }))).toBe(false);
+    expect(dedupeDateWindow('2026-10-01')).toEqual(['2026-09-30', '2026-10-01', '2026-10-02']);
+  });
+});
+
+describe('mergeMatchHashtags', () => {
+  it('takes every home hashtag and the away ones except location', () => {
+    const home = { _id: new ObjectId(), hashtags: ['barca'], categorizedHashtags: { location: ['barcelona'], sport: ['football'] } };
+    const away = { _id: new ObjectId(), hashtags: ['realmadrid'], categorizedHashtags: { location: ['madrid'], sport: ['football', 'laliga'] } };
+    expect(mergeMatchHashtags(home, away)).toEqual({
+      hashtags: ['barca', 'realmadrid'],
+      categorizedHashtags: { location: ['barcelona'], sport: ['football', 'laliga'] },
+    });
+  });
+});
@@ -0,0 +1,196 @@
+// tests/fixture-results.test.ts
+// WHAT: Coverage for the post-match backfill — statistics normalisation, when a
+//     result is due, which stats are written (manual values kept) and how a pass
+//     updates the fixture and its event.
+
+jest.mock('@/lib/db', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/mongodb', () => ({ __esModule: true, default: Promise.resolve({}) }));
+jest.mock('@/lib/webhooks', () => ({ enqueueWebhookEvent: jest.fn().mockResolvedValue(1) }));
+jest.mock('@/lib/fixtures/providers', () => {
+  const providers: Record<string, { fetchResult: jest.Mock }> = {
+    'football-data': { fetchResult: jest.fn() },
+    sportsdb: { fetchResult: jest.fn() },
+    'api-football': { fetchResult: jest.fn() },
+  };
+  return { getFixtureProvider: (id: string) => providers[id] };
+});
+
+import { ObjectId } from 'mongodb';
+import { getDb } from '@/lib/db';
+import { enqueueWebhookEvent } from '@/lib/webhooks';
+import { getFixtureProvider } from '@/lib/fixtures/providers';
+import { fromApiFootballStatistics } from '@/lib/fixtures/providers/apiFootball';
+import { collectMatchStatistics, parseStatisticValue } from '@/lib/fixtures/statistics';
+import {
+  backfillFixtureResults,
+  isResultDue,
+  planResultStats,
+  resultStatsValues,
+  type ProjectFixtureResult,
+} from '@/lib/fixtures/results';
+import type { FixtureDoc, ProviderFixture } from '@/lib/fixtures/types';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+describe('match statistics', () => {
+  it('parses percentages and ignores unknown labels', () => {
+    expect(parseStatisticValue('55%')).toBe(55);
+    expect(parseStatisticValue(null)).toBeNull();
+    expect(parseStatisticValue('n/a')).toBeNull();
+    expect(
+      collectMatchStatistics([
+        { label: 'Ball Possession', home: '61%', away: '39%' },
+        { label: 'Expected Goals', home: '1.2', away: '0.4' },
+        { label: 'Yellow Cards', home: null, away: 2 },
+      ])
+    ).toEqual({ possession: { home: 61, away: 39 }, yellowCards: { home: null, away: 2 } });
+  });
+
+  it('pairs API-Sports statistics rows by home team id', () => {
+    const stats = fromApiFootballStatistics(
+      [
+        { team: { id: 2, name: 'Away', logo: '' }, statistics: [{ type: 'Total Shots', value: 8 }] },
+        { team: { id: 1, name: 'Home', logo: '' }, statistics: [{ type: 'Total Shots', value: 14 }, { type: 'Corner Kicks', value: 6 }] },
+      ],
+      1
+    );
+    expect(stats).toEqual({ shots: { home: 14, away: 8 }, corners: { home: 6, away: null } });
+  });
+});
+
+describe('result planning', () => {
+  it('is due after the grace period, or the day after when there is no kickoff time', () => {
+    expect(isResultDue({ kickoffAt: '2026-10-19T10:00:00.000Z', date: '2026-10-19' }, NOW)).toBe(false);
+    expect(isResultDue({ kickoffAt: '2026-10-19T09:00:00.000Z', date: '2026-10-19' }, NOW)).toBe(true);
+    expect(isResultDue({ kickoffAt: null, date: '2026-10-19' }, NOW)).toBe(false);
+    expect(isResultDue({ kickoffAt: null, date: '2026-10-18' }, NOW)).toBe(true);
+  });
+
+  it('maps score and statistics to stats keys', () => {
+    expect(resultStatsValues({ home: 2, away: 1 }, { possession: { home: 58, away: 42 }, redCards: { home: null, away: 1 } })).toEqual({
+      eventResultHome: 2,
+      eventResultVisitor: 1,
+      eventPossessionHome: 58,
+      eventPossessionVisitor: 42,
+      eventRedCardsVisitor: 1,
+    });
+  });
+
+  it('keeps values an admin typed in but refreshes its own', () => {
+    const plan = planResultStats(
+      { eventResultHome: 3, eventResultVisitor: 0, eventShotsHome: 9 },
+      { eventResultHome: 2, eventResultVisitor: 1, eventShotsHome: 12 },
+      ['eventShotsHome']
+    );
+    expect(plan.set).toEqual({ eventResultVisitor: 1, eventShotsHome: 12 });
+    expect(plan.keptManual).toEqual(['eventResultHome']);
+  });
+});
+
+describe('backfillFixtureResults', () => {
+  const projectId = new ObjectId();
+  const fixtureId = new ObjectId();
+  let fixtureUpdates: any[];
+  let projectUpdates: any[];
+  let project: Record<string, any> | null;
+
+  const fixture: FixtureDoc = {
+    _id: fixtureId,
+    sport: 'soccer',
+    competition: { id: '2014', name: 'Primera Division' },
+    season: '2026',
+    kickoffAt: '2026-10-18T19:00:00.000Z',
+    date: '2026-10-18',
+    status: 'scheduled',
+    venue: null,
+    homeTeam: { id: '81', name: 'FC Barcelona', match: null },
+    awayTeam: { id: '86', name: 'Real Madrid CF', match: null },
+    score: null,
+    primaryProvider: 'football-data',
+    sources: [
+      { provider: 'sportsdb', providerFixtureId: 'e1', providerStatus: null, homeTeamId: null, awayTeamId: null, syncedAt: '' },
+      { provider: 'football-data', providerFixtureId: '4401', providerStatus: 'TIMED', homeTeamId: '81', awayTeamId: '86', syncedAt: '' },
+    ],
+    projectId,
+    createdAt: '2026-10-01T00:00:00.000Z',
+    updatedAt: '2026-10-01T00:00:00.000Z',
+  };
+
+  const reported = (overrides: Partial<ProviderFixture>): ProviderFixture => ({
+    provider: 'football-data',
+    providerFixtureId: '4401',
+    sport: 'soccer',
+    competition: fixture.competition,
+    season: '2026',
+    kickoffAt: fixture.kickoffAt,
+    date: fixture.date,
+    status: 'finished',
+    providerStatus: 'FINISHED',
+    venue: null,
+    homeTeam: { id: '81', name: 'FC Barcelona' },
+    awayTeam: { id: '86', name: 'Real Madrid CF' },
+    score: { home: 2, away: 1 },
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    fixtureUpdates = [];
+    projectUpdates = [];
+    project = { _id: projectId, stats: { eventResultHome: 0 }, fixture: { fixtureId: String(fixtureId), status: 'scheduled' } };
+    (getDb as jest.Mock).mockResolvedValue({
+      collection: (name: string) =>
+        name === 'fixtures'
+          ? {
+              find: () => ({ sort: () => ({ limit: () => ({ toArray: async () => [fixture] }) }) }),
+              updateOne: async (...args: unknown[]) => fixtureUpdates.push(args),
+            }
+          : {
+              findOne: async () => project,
+              updateOne: async (...args: unknown[]) => projectUpdates.push(args),
+            },
+    });
+    (getFixtureProvider('football-data').fetchResult as jest.Mock).mockReset();
+    (getFixtureProvider('sportsdb').fetchResult as jest.Mock).mockReset();
+    (enqueueWebhookEvent as jest.Mock).mockClear();
+  });
+
+  it('writes the highest-priority final result into stats with provenance', async () => {
+    (getFixtureProvider('football-data').fetchResult as jest.Mock).mockResolvedValue({ fixture: reported({}), statistics: {} });
+
+    const summary = await backfillFixtureResults({ now: NOW });
+
+    expect(summary).toMatchObject({ checked: 1, finished: 1, pending: 0, errors: [] });
+    expect(getFixtureProvider('sportsdb').fetchResult).not.toHaveBeenCalled();
+    expect(fixtureUpdates[0][1].$set).toMatchObject({ status: 'finished', score: { home: 2, away: 1 }, resultBackfilledAt: NOW.toISOString() });
+
+    const $set = projectUpdates[0][1].$set;
+    expect($set['stats.eventResultHome']).toBe(2);
+    expect($set['stats.eventResultVisitor']).toBe(1);
+    expect($set['fixture.status']).toBe('finished');
+    expect($set['fixture.result'] as ProjectFixtureResult).toMatchObject({
+      provider: 'football-data',
+      providerFixtureId: '4401',
+      fields: ['eventResultHome', 'eventResultVisitor'],
+      keptManual: [],
+    });
+    expect(enqueueWebhookEvent).toHaveBeenCalledWith('event.updated', projectId);
+  });
+
+  it('records a postponement without touching stats and keeps retrying', async () => {
+    (getFixtureProvider('football-data').fetchResult as jest.Mock).mockResolvedValue({
+      fixture: reported({ status: 'postponed', providerStatus: 'POSTPONED', score: null }),
+      statistics: {},
+    });
+    (getFixtureProvider('sportsdb').fetchResult as jest.Mock).mockRejectedValue(new Error('HTTP 500'));
+
+    const summary = await backfillFixtureResults({ now: NOW });
+
+    expect(summary).toMatchObject({ checked: 1, postponed: 1, finished: 0 });
+    expect(summary.errors).toEqual([{ fixtureId: String(fixtureId), provider: 'sportsdb', error: 'HTTP 500' }]);
+    expect(fixtureUpdates[0][1].$set.resultBackfilledAt).toBeUndefined();
+    const $set = projectUpdates[0][1].$set;
+    expect($set['fixture.status']).toBe('postponed');
+    expect(Object.keys($set).some((key) => key.startsWith('stats.'))).toBe(false);
+    expect(enqueueWebhookEvent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+// tests/formula-parser.test.ts
+// WHAT: Coverage for the AST-based formula parser and the evaluator built on it:
+//     nested function calls, conditionals, comparison/boolean operators,
+//     NA propagation, and syntax errors reported with a character position.
+// HOW: parseFormula is exercised directly for structure and errors;
+//     evaluateFormula / validateFormula are exercised with plain stats objects.
+
+import { FormulaSyntaxError, parseFormula } from '@/lib/formulaParser';
+import { evaluateFormula, validateFormula } from '@/lib/formulaEngine';
+
+const stats = { female: 30, male: 10, remoteImages: 7, hostessImages: 3, selfies: 0 } as unknown as Parameters<typeof evaluateFormula>[1];
+
+describe('formula parser', () => {
+  it('respects operator precedence and right-associative power', () => {
+    expect(evaluateFormula('2 + 3 * 4', stats)).toBe(14);
+    expect(evaluateFormula('2 ^ 3 ^ 2', stats)).toBe(512);
+    expect(evaluateFormula('-2 ^ 2', stats)).toBe(4);
+    expect(evaluateFormula('(2 + 3) × 4 ÷ 2', stats)).toBe(10);
+  });
+
+  it('evaluates nested function calls', () => {
+    expect(evaluateFormula('MAX(ROUND([female] / [male]), 1)', stats)).toBe(3);
+    expect(evaluateFormula('ROUND(AVG([female], [male], MIN(5, 2)) / 3, 2)', stats)).toBe(4.67);
+    expect(evaluateFormula('clamp(SUM([remoteImages], [hostessImages]) * 20, 0, 100)', stats)).toBe(100);
+  });
+
+  it('evaluates conditionals and boolean operators', () => {
+    expect(evaluateFormula('IF([male] > 0, [female] / [male], 0)', stats)).toBe(3);
+    expect(evaluateFormula('[selfies] == 0 ? -1 : [female] / [selfies]', stats)).toBe(-1);
+    expect(evaluateFormula('AND([female] >= 30, NOT([selfies])) || 0', stats)).toBe(1);
+    expect(evaluateFormula('[female] != 30 && 1', stats)).toBe(0);
+  });
+
+  it('only evaluates the selected branch, so guarded division stays numeric', () => {
+    expect(evaluateFormula('IF([selfies] > 0, [female] / [selfies], 0)', stats)).toBe(0);
+    expect(evaluateFormula('SAFE_DIV([female], [selfies])', stats)).toBe(0);
+    expect(evaluateFormula('SAFE_DIV([female], [selfies], -1)', stats)).toBe(-1);
+    expect(evaluateFormula('SAFE_DIV([female], [male])', stats)).toBe(3);
+  });
+
+  it('propagates NA through arithmetic but lets aggregates skip it', () => {
+    expect(evaluateFormula('[female] / [selfies] + 1', stats)).toBe('NA');
+    expect(evaluateFormula('MAX([female] / [selfies], 5)', stats)).toBe(5);
+  });
+
+  it('builds call nodes with source spans', () => {
+    const node = parseFormula('MAX([a], 2)');
+    expect(node).toMatchObject({ type: 'call', name: 'MAX', start: 0, end: 11 });
+    expect(node.type === 'call' && node.args[0]).toMatchObject({ type: 'variable', name: 'a', bracketed: true });
+  });
+
+  it.each([
+    ['MEDIAN([a])', 'Unknown function', 0],
+    ['ROUND(1, 2, 3)', 'ROUND', 0],
+    ['([a] + 1', 'at position', 0],
+    ['[a] + * 2', 'at position', 6],
+  ])('rejects %s with a positioned syntax error', (formula, message, start) => {
+    let caught: unknown;
+    try {
+      parseFormula(formula);
+    } catch (error) {
+      caught = error;
+    }
+    expect(caught).toBeInstanceOf(FormulaSyntaxError);
+    expect((caught as FormulaSyntaxError).message).toContain(message);
+    expect((caught as FormulaSyntaxError).start).toBe(start);
+  });
+
+  it('reports syntax errors with a position from validateFormula', () => {
+    const result = validateFormula('[female] + MEDIAN([male])');
+    expect(result.isValid).toBe(false);
+    expect(result.error).toContain('at position 12');
+    expect(result.errorPosition).toEqual({ start: 11, end: 17 });
+    expect(validateFormula('IF([male] > 0, [female] / [male], 0)').isValid).toBe(true);
+  });
+});
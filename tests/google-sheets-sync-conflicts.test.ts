@@ -0,0 +1,132 @@
+// tests/google-sheets-sync-conflicts.test.ts
+// WHAT: Coverage for the bidirectional sheet sync merge — one-sided changes,
+//     field-level conflicts, each conflict policy, and the stored baseline shape.
+
+import {
+  flattenSyncValues,
+  getSyncedFields,
+  mergeSyncRow,
+  nestSyncValues,
+  pickConflictWinner,
+  readRowFields,
+  type SyncRowInput,
+} from '@/lib/googleSheets/syncConflicts';
+import type { IndexBasedColumnMap } from '@/lib/googleSheets/dynamicMapping';
+
+const columnMap: IndexBasedColumnMap = {
+  0: { field: 'googleSheetUuid', type: 'uuid', readOnly: true },
+  5: { field: 'eventDate', type: 'date', required: true },
+  6: { field: 'stats.female', type: 'number' },
+  7: { field: 'stats.male', type: 'number' },
+  8: { field: 'stats.allImages', type: 'number', computed: true },
+};
+
+function row(overrides: Partial<SyncRowInput> = {}): SyncRowInput {
+  return {
+    baseline: { eventDate: '2026-03-01', 'stats.female': 100, 'stats.male': 80 },
+    sheet: { eventDate: '2026-03-01', 'stats.female': 100, 'stats.male': 80 },
+    messmass: { eventDate: '2026-03-01', 'stats.female': 100, 'stats.male': 80 },
+    policy: 'manual',
+    sheetModified: null,
+    messmassModified: null,
+    ...overrides,
+  };
+}
+
+describe('getSyncedFields', () => {
+  it('skips the UUID and computed columns and reads sheet text as numbers', () => {
+    const fields = getSyncedFields(columnMap);
+    expect(fields.map((f) => f.field)).toEqual(['eventDate', 'stats.female', 'stats.male']);
+    expect(readRowFields(['uuid-1', '', '', '', '', '2026-03-01', '120', ' '], fields)).toEqual({
+      eventDate: '2026-03-01',
+      'stats.female': 120,
+      'stats.male': null,
+    });
+  });
+});
+
+describe('mergeSyncRow', () => {
+  it('copies a change made on one side to the other', () => {
+    const merge = mergeSyncRow(row({
+      sheet: { eventDate: '2026-03-01', 'stats.female': 130, 'stats.male': 80 },
+      messmass: { eventDate: '2026-03-01', 'stats.female': 100, 'stats.male': 95 },
+    }));
+    expect(merge.messmassUpdates).toEqual({ 'stats.female': 130 });
+    expect(merge.sheetUpdates).toEqual({ 'stats.male': 95 });
+    expect(merge.open).toEqual([]);
+    expect(merge.baseline).toEqual({ eventDate: '2026-03-01', 'stats.female': 130, 'stats.male': 95 });
+  });
+
+  it('leaves a field changed on both sides open under manual review, keeping its baseline', () => {
+    const merge = mergeSyncRow(row({
+      sheet: { eventDate: '2026-03-01', 'stats.female': 130, 'stats.male': 80 },
+      messmass: { eventDate: '2026-03-01', 'stats.female': 125, 'stats.male': 80 },
+    }));
+    expect(merge.messmassUpdates).toEqual({});
+    expect(merge.sheetUpdates).toEqual({});
+    expect(merge.open).toEqual([{ field: 'stats.female', baseValue: 100, sheetValue: 130, messmassValue: 125 }]);
+    expect(merge.baseline['stats.female']).toBe(100);
+  });
+
+  it('does not flag both sides making the same change', () => {
+    const same = { eventDate: '2026-03-01', 'stats.female': 130, 'stats.male': 80 };
+    const merge = mergeSyncRow(row({ sheet: same, messmass: same }));
+    expect(merge.open).toEqual([]);
+    expect(merge.baseline['stats.female']).toBe(130);
+  });
+
+  it('never erases {messmass} data from a blank sheet cell', () => {
+    const merge = mergeSyncRow(row({ sheet: { eventDate: '2026-03-01', 'stats.female': null, 'stats.male': 80 } }));
+    expect(merge.messmassUpdates).toEqual({});
+    expect(merge.sheetUpdates).toEqual({ 'stats.female': 100 });
+  });
+
+  it('treats differing values without a baseline as conflicts', () => {
+    const merge = mergeSyncRow(row({
+      baseline: null,
+      sheet: { eventDate: '2026-03-01', 'stats.female': 130, 'stats.male': 80 },
+      messmass: { eventDate: '2026-03-01', 'stats.female': 100, 'stats.male': null },
+    }));
+    expect(merge.open.map((f) => f.field)).toEqual(['stats.female']);
+    expect(merge.messmassUpdates).toEqual({ 'stats.male': 80 });
+  });
+
+  it('settles conflicts by policy', () => {
+    const conflicting = {
+      sheet: { eventDate: '2026-03-01', 'stats.female': 130, 'stats.male': 80 },
+      messmass: { eventDate: '2026-03-01', 'stats.female': 125, 'stats.male': 80 },
+    };
+    const sheetWins = mergeSyncRow(row({ ...conflicting, policy: 'sheet_wins' }));
+    expect(sheetWins.messmassUpdates).toEqual({ 'stats.female': 130 });
+    expect(sheetWins.autoResolved[0].resolution).toBe('sheet');
+
+    const messmassWins = mergeSyncRow(row({ ...conflicting, policy: 'messmass_wins' }));
+    expect(messmassWins.sheetUpdates).toEqual({ 'stats.female': 125 });
+
+    const newest = mergeSyncRow(row({
+      ...conflicting,
+      policy: 'newest_wins',
+      sheetModified: '2026-03-02T10:00:00.000Z',
+      messmassModified: '2026-03-02T09:00:00.000Z',
+    }));
+    expect(newest.messmassUpdates).toEqual({ 'stats.female': 130 });
+    expect(newest.open).toEqual([]);
+  });
+});
+
+describe('pickConflictWinner', () => {
+  it('sends newest_wins to manual review when a timestamp is missing', () => {
+    expect(pickConflictWinner('newest_wins', null, '2026-03-02T09:00:00.000Z')).toBeNull();
+    expect(pickConflictWinner('newest_wins', '2026-03-02T08:00:00.000Z', '2026-03-02T09:00:00.000Z')).toBe('messmass');
+  });
+});
+
+describe('baseline storage', () => {
+  it('round-trips dotted field paths through the nested MongoDB shape', () => {
+    const fields = getSyncedFields(columnMap);
+    const values = { eventDate: '2026-03-01', 'stats.female': 100, 'stats.male': null };
+    const nested = nestSyncValues(values);
+    expect(nested).toEqual({ eventDate: '2026-03-01', stats: { female: 100, male: null } });
+    expect(flattenSyncValues(nested, fields)).toEqual(values);
+  });
+});
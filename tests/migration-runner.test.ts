@@ -0,0 +1,156 @@
+// tests/migration-runner.test.ts
+// WHAT: Coverage for the tracked migration runner — ordering, per-environment
+//     state, stopping at failures, rollback, dry runs and the lock.
+
+jest.mock('@/lib/db', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/mongodb', () => ({ __esModule: true, default: Promise.resolve({}) }));
+
+import type { Db } from 'mongodb';
+import {
+  applyMigrations,
+  getMigrationEnvironment,
+  getMigrationStatus,
+  rollbackMigrations,
+  validateMigrations,
+  type Migration,
+} from '@/lib/migrations/runner';
+import { MemoryMigrationStore } from '@/lib/migrations/store';
+
+const db = {} as Db;
+
+function registry(calls: string[], options: { failing?: string; irreversible?: string } = {}): Migration[] {
+  return ['0001-first', '0002-second', '0003-third'].map((name) => ({
+    name,
+    description: name,
+    async up({ dryRun, log }) {
+      calls.push(`up ${name}${dryRun ? ' (dry)' : ''}`);
+      log(`applying ${name}`);
+      if (name === options.failing) throw new Error(`${name} broke`);
+    },
+    ...(name === options.irreversible
+      ? {}
+      : {
+          async down({ dryRun }: { dryRun: boolean }) {
+            calls.push(`down ${name}${dryRun ? ' (dry)' : ''}`);
+          },
+        }),
+  }));
+}
+
+function run(store: MemoryMigrationStore, extra: { environment?: string; dryRun?: boolean } = {}) {
+  return { db, store, environment: extra.environment ?? 'production', executedBy: 'test', dryRun: extra.dryRun };
+}
+
+describe('validateMigrations', () => {
+  it('rejects bad names, duplicates and out-of-order entries', () => {
+    const up = async () => undefined;
+    expect(() => validateMigrations([{ name: 'first', description: '', up }])).toThrow(/0001-short-description/);
+    expect(() => validateMigrations([{ name: '0001-a', description: '', up }, { name: '0001-a', description: '', up }])).toThrow(/Duplicate/);
+    expect(() => validateMigrations([{ name: '0002-b', description: '', up }, { name: '0001-a', description: '', up }])).toThrow(/out of order/);
+  });
+});
+
+describe('applyMigrations', () => {
+  it('applies pending migrations in order and records each run', async () => {
+    const calls: string[] = [];
+    const store = new MemoryMigrationStore();
+    const results = await applyMigrations(registry(calls), run(store));
+
+    expect(calls).toEqual(['up 0001-first', 'up 0002-second', 'up 0003-third']);
+    expect(results.map((r) => r.status)).toEqual(['success', 'success', 'success']);
+    expect(store.runs.map((r) => [r.scriptName, r.direction, r.status])).toEqual([
+      ['0001-first', 'up', 'success'],
+      ['0002-second', 'up', 'success'],
+      ['0003-third', 'up', 'success'],
+    ]);
+    expect(store.runs[0].logs[0]).toMatch(/applying 0001-first$/);
+
+    // Idempotent: a second apply has nothing to do
+    expect(await applyMigrations(registry(calls), run(store))).toEqual([]);
+    expect(store.locked).toBe(false);
+  });
+
+  it('stops at the first failure and retries it next time', async () => {
+    const calls: string[] = [];
+    const store = new MemoryMigrationStore();
+    const results = await applyMigrations(registry(calls, { failing: '0002-second' }), run(store));
+
+    expect(results.map((r) => [r.name, r.status])).toEqual([['0001-first', 'success'], ['0002-second', 'failed']]);
+    expect(results[1].error).toBe('0002-second broke');
+    const status = await getMigrationStatus(registry([]), store, 'production');
+    expect(status.map((s) => s.state)).toEqual(['applied', 'failed', 'pending']);
+
+    calls.length = 0;
+    await applyMigrations(registry(calls), run(store));
+    expect(calls).toEqual(['up 0002-second', 'up 0003-third']);
+  });
+
+  it('honours --to and keeps environments apart', async () => {
+    const calls: string[] = [];
+    const store = new MemoryMigrationStore();
+    await applyMigrations(registry(calls), { ...run(store), to: '0001-first' });
+    expect(calls).toEqual(['up 0001-first']);
+
+    const production = await getMigrationStatus(registry([]), store, 'production');
+    const preview = await getMigrationStatus(registry([]), store, 'preview');
+    expect(production.map((s) => s.state)).toEqual(['applied', 'pending', 'pending']);
+    expect(preview.map((s) => s.state)).toEqual(['pending', 'pending', 'pending']);
+    await expect(applyMigrations(registry([]), { ...run(store), to: '0009-missing' })).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('runs migrations in dry-run mode without recording or locking', async () => {
+    const calls: string[] = [];
+    const store = new MemoryMigrationStore();
+    await store.acquireLock('someone-else', 60_000);
+    const results = await applyMigrations(registry(calls), run(store, { dryRun: true }));
+
+    expect(calls).toEqual(['up 0001-first (dry)', 'up 0002-second (dry)', 'up 0003-third (dry)']);
+    expect(results).toHaveLength(3);
+    expect(store.runs).toEqual([]);
+  });
+
+  it('refuses to run while another runner holds the lock', async () => {
+    const store = new MemoryMigrationStore();
+    await store.acquireLock('deploy-1', 60_000);
+    await expect(applyMigrations(registry([]), run(store))).rejects.toMatchObject({ status: 409, code: 'MIGRATION_LOCKED' });
+    expect(store.runs).toEqual([]);
+  });
+});
+
+describe('rollbackMigrations', () => {
+  it('rolls back the newest applied migrations first', async () => {
+    const calls: string[] = [];
+    const store = new MemoryMigrationStore();
+    await applyMigrations(registry([]), run(store));
+
+    await rollbackMigrations(registry(calls), { ...run(store), steps: 2 });
+    expect(calls).toEqual(['down 0003-third', 'down 0002-second']);
+    const status = await getMigrationStatus(registry([]), store, 'production');
+    expect(status.map((s) => s.state)).toEqual(['applied', 'pending', 'pending']);
+
+    calls.length = 0;
+    await applyMigrations(registry(calls), run(store));
+    await rollbackMigrations(registry(calls), { ...run(store), to: '0001-first' });
+    expect(calls).toEqual(['up 0002-second', 'up 0003-third', 'down 0003-third', 'down 0002-second']);
+  });
+
+  it('refuses up front when a target has no down migration', async () => {
+    const calls: string[] = [];
+    const store = new MemoryMigrationStore();
+    await applyMigrations(registry([]), run(store));
+
+    await expect(
+      rollbackMigrations(registry(calls, { irreversible: '0002-second' }), { ...run(store), steps: 2 })
+    ).rejects.toMatchObject({ status: 400, code: 'MIGRATION_IRREVERSIBLE' });
+    expect(calls).toEqual([]);
+    expect(store.locked).toBe(false);
+  });
+});
+
+describe('getMigrationEnvironment', () => {
+  it('prefers MIGRATION_ENV, then VERCEL_ENV, then NODE_ENV', () => {
+    expect(getMigrationEnvironment({ MIGRATION_ENV: 'staging', VERCEL_ENV: 'preview', NODE_ENV: 'production' })).toBe('staging');
+    expect(getMigrationEnvironment({ VERCEL_ENV: 'preview', NODE_ENV: 'production' })).toBe('preview');
+    expect(getMigrationEnvironment({})).toBe('development');
+  });
+});
@@ -0,0 +1,229 @@
+// tests/partner-portal.test.ts
+// WHAT: Coverage for the partner portal — contact invitations, one-time
+//     sign-in tokens, SSO resolution, the session's partner scoping and exports.
+
+jest.mock('@/lib/db', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/mongodb', () => ({ __esModule: true, default: Promise.resolve({}) }));
+jest.mock('next/headers', () => ({ cookies: jest.fn() }));
+jest.mock('@/lib/reportVariants', () => ({
+  listReportVariants: jest.fn(async () => ({
+    variants: [
+      { slug: 'default', name: 'Season', isDefault: true, status: 'published', periodPreset: 'all_time' },
+      { slug: 'draft-q3', name: 'Q3 draft', isDefault: false, status: 'draft', periodPreset: 'quarter' },
+    ],
+  })),
+  getReportVariantPageId: (base: string, slug: string | null) => (slug ? `${base}--${slug}` : base),
+}));
+jest.mock('@/lib/pagePassword', () => ({
+  generateShareableLink: jest.fn(async (pageId: string, pageType: string, baseUrl: string) => ({
+    url: `${baseUrl}/${pageType}/${pageId}?access=signed`,
+  })),
+}));
+
+import { ObjectId, type Db } from 'mongodb';
+import { cookies } from 'next/headers';
+import {
+  PORTAL_SESSION_COOKIE,
+  getPortalContext,
+  getPortalOverview,
+  invitePartnerContact,
+  issuePortalToken,
+  mintPortalSessionToken,
+  portalEventsCsv,
+  redeemPortalToken,
+  resolvePortalReportLink,
+  setPartnerContactStatus,
+  signInContactWithSso,
+} from '@/lib/partnerPortal';
+
+type Doc = Record<string, any>;
+
+// Minimal in-memory db covering the queries lib/partnerPortal.ts issues
+function mockDb(seed: Record<string, Doc[]> = {}) {
+  const data: Record<string, Doc[]> = { ...seed };
+  const same = (a: unknown, b: unknown) => String(a) === String(b);
+  const matches = (doc: Doc, query: Doc): boolean =>
+    Object.entries(query).every(([key, value]) => {
+      if (key === '$or') return (value as Doc[]).some((q) => matches(doc, q));
+      if (value && typeof value === 'object' && !(value instanceof ObjectId)) {
+        if ('$in' in value) return value.$in.some((v: unknown) => same(v, doc[key]));
+        if ('$ne' in value) return !same(doc[key], value.$ne);
+        if ('$gt' in value) return doc[key] > value.$gt;
+      }
+      if (value === null) return doc[key] == null;
+      return doc[key] !== undefined && same(doc[key], value);
+    });
+
+  const db = {
+    data,
+    collection: (name: string) => {
+      const docs = (data[name] ||= []);
+      return {
+        find: (query: Doc = {}) => {
+          const found = docs.filter((doc) => matches(doc, query));
+          const cursor = { sort: () => cursor, toArray: async () => found };
+          return cursor;
+        },
+        findOne: async (query: Doc) => docs.find((doc) => matches(doc, query)) || null,
+        insertOne: async (doc: Doc) => {
+          const _id = new ObjectId();
+          docs.push({ ...doc, _id });
+          return { insertedId: _id };
+        },
+        updateOne: async (query: Doc, update: { $set: Doc }) => {
+          const doc = docs.find((d) => matches(d, query));
+          if (doc) Object.assign(doc, update.$set);
+        },
+        findOneAndUpdate: async (query: Doc, update: { $set: Doc }) => {
+          const doc = docs.find((d) => matches(d, query));
+          if (!doc) return null;
+          const before = { ...doc };
+          Object.assign(doc, update.$set);
+          return before;
+        },
+        deleteMany: async (query: Doc) => {
+          data[name] = docs.filter((doc) => !matches(doc, query));
+        },
+      };
+    },
+  };
+  return db as unknown as Db & { data: Record<string, Doc[]> };
+}
+
+const partnerId = new ObjectId();
+const otherPartnerId = new ObjectId();
+const partners = [
+  { _id: partnerId, name: 'Partner FC', bitlyLinkIds: [] as ObjectId[] },
+  { _id: otherPartnerId, name: 'Rival FC' },
+];
+
+function setSessionCookie(value?: string) {
+  (cookies as jest.Mock).mockResolvedValue({ get: (name: string) => (name === PORTAL_SESSION_COOKIE && value ? { value } : undefined) });
+}
+
+describe('invitePartnerContact', () => {
+  it('normalizes the email and validates the partner', async () => {
+    const db = mockDb({ partners });
+    const contact = await invitePartnerContact(db, partnerId.toHexString(), { email: ' Ana@Partner.COM ', name: 'Ana' }, 'admin@x');
+    expect(contact).toMatchObject({ email: 'ana@partner.com', name: 'Ana', status: 'invited', partnerId });
+
+    await expect(invitePartnerContact(db, partnerId.toHexString(), { email: 'nope' }, 'admin@x')).rejects.toMatchObject({ status: 400 });
+    await expect(invitePartnerContact(db, new ObjectId().toHexString(), { email: 'a@b.co' }, 'admin@x')).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('re-inviting a disabled contact makes it invited again', async () => {
+    const db = mockDb({ partners });
+    const contact = await invitePartnerContact(db, partnerId.toHexString(), { email: 'ana@partner.com' }, 'admin@x');
+    await setPartnerContactStatus(db, contact._id.toHexString(), false);
+    const again = await invitePartnerContact(db, partnerId.toHexString(), { email: 'ana@partner.com' }, 'admin@x');
+    expect(again._id).toEqual(contact._id);
+    expect(again.status).toBe('invited');
+  });
+});
+
+describe('sign-in tokens', () => {
+  it('are single use and activate the contact', async () => {
+    const db = mockDb({ partners });
+    const contact = await invitePartnerContact(db, partnerId.toHexString(), { email: 'ana@partner.com' }, 'admin@x');
+    const { token } = await issuePortalToken(db, contact, 'invite');
+    expect(db.data.partner_portal_tokens[0].tokenHash).not.toBe(token);
+
+    const signedIn = await redeemPortalToken(db, token);
+    expect(signedIn).toMatchObject({ status: 'active', email: 'ana@partner.com' });
+    expect(signedIn?.activatedAt).toBeDefined();
+    expect(await redeemPortalToken(db, token)).toBeNull();
+    expect(await redeemPortalToken(db, 'made-up')).toBeNull();
+  });
+
+  it('are refused once expired or when the contact is disabled', async () => {
+    const db = mockDb({ partners });
+    const contact = await invitePartnerContact(db, partnerId.toHexString(), { email: 'ana@partner.com' }, 'admin@x');
+    const expired = await issuePortalToken(db, contact, 'login');
+    db.data.partner_portal_tokens[0].expiresAt = new Date(Date.now() - 1000).toISOString();
+    expect(await redeemPortalToken(db, expired.token)).toBeNull();
+
+    const pending = await issuePortalToken(db, contact, 'login');
+    db.data.partner_contacts[0].status = 'disabled';
+    expect(await redeemPortalToken(db, pending.token)).toBeNull();
+  });
+});
+
+describe('signInContactWithSso', () => {
+  it('resolves by verified email and remembers the SSO id', async () => {
+    const db = mockDb({ partners });
+    await invitePartnerContact(db, partnerId.toHexString(), { email: 'ana@partner.com' }, 'admin@x');
+    const contact = await signInContactWithSso(db, { id: 'sso-1', email: 'ANA@partner.com' });
+    expect(contact).toMatchObject({ ssoUserId: 'sso-1', status: 'active' });
+    expect(await signInContactWithSso(db, { id: 'sso-1', email: null })).toMatchObject({ email: 'ana@partner.com' });
+    expect(await signInContactWithSso(db, { id: 'sso-2', email: 'stranger@x.com' })).toBeNull();
+  });
+});
+
+describe('getPortalContext', () => {
+  it('takes the partner from the session and drops disabled contacts', async () => {
+    const db = mockDb({ partners });
+    const contact = await invitePartnerContact(db, partnerId.toHexString(), { email: 'ana@partner.com' }, 'admin@x');
+
+    setSessionCookie(mintPortalSessionToken(contact));
+    expect((await getPortalContext(db))?.partner.name).toBe('Partner FC');
+
+    setSessionCookie(mintPortalSessionToken({ _id: contact._id, partnerId: otherPartnerId }));
+    expect(await getPortalContext(db)).toBeNull();
+
+    await setPartnerContactStatus(db, contact._id.toHexString(), false);
+    setSessionCookie(mintPortalSessionToken(contact));
+    expect(await getPortalContext(db)).toBeNull();
+
+    setSessionCookie('not-a-token');
+    expect(await getPortalContext(db)).toBeNull();
+  });
+});
+
+describe('portal data', () => {
+  const ownEvent = new ObjectId();
+  const rivalEvent = new ObjectId();
+  const linkId = new ObjectId();
+  const seed = () =>
+    mockDb({
+      partners,
+      projects: [
+        { _id: ownEvent, eventName: 'Home opener', eventDate: '2026-09-01', partner1: partnerId, stats: { remoteFans: 100, stadium: 50, remoteImages: 3 } },
+        { _id: rivalEvent, eventName: 'Rival night', eventDate: '2026-09-02', partner1: otherPartnerId, stats: {} },
+      ],
+      bitly_project_links: [
+        { bitlyLinkId: linkId, projectId: ownEvent, cachedMetrics: { clicks: 40 } },
+        { bitlyLinkId: linkId, projectId: rivalEvent, cachedMetrics: { clicks: 999 } },
+      ],
+      bitly_links: [{ _id: linkId, bitlink: 'bit.ly/abc', title: 'Tickets', long_url: 'https://x.test', click_summary: { total: 1200 } }],
+    });
+
+  it('only includes the session partner’s events, links and published reports', async () => {
+    const db = seed();
+    const context = { contact: { _id: new ObjectId(), partnerId } as never, partner: partners[0] };
+    const overview = await getPortalOverview(db, context);
+
+    expect(overview.events.map((event) => event.name)).toEqual(['Home opener']);
+    expect(overview.events[0]).toMatchObject({ totalFans: 150, bitlyClicks: 40 });
+    expect(overview.bitly).toEqual([expect.objectContaining({ bitlink: 'bit.ly/abc', totalClicks: 1200, eventClicks: 40, events: 1 })]);
+    expect(overview.reports.map((report) => report.slug)).toEqual(['default']);
+
+    expect(portalEventsCsv(overview.events).split('\n')[1]).toBe('Home opener,2026-09-01,150,3,40');
+  });
+
+  it('refuses to open another partner’s event or an unpublished report', async () => {
+    const db = seed();
+    const context = { contact: { _id: new ObjectId(), partnerId } as never, partner: partners[0] };
+
+    const link = await resolvePortalReportLink(db, context, { type: 'event', id: ownEvent.toHexString() }, 'https://app.test');
+    expect(link).toEqual({ url: `https://app.test/event-report/${ownEvent.toHexString()}?access=signed`, label: 'Home opener' });
+    await expect(resolvePortalReportLink(db, context, { type: 'event', id: rivalEvent.toHexString() }, 'https://app.test')).rejects.toMatchObject({
+      status: 404,
+    });
+
+    const report = await resolvePortalReportLink(db, context, { type: 'report', id: 'default' }, 'https://app.test');
+    expect(report.url).toBe(`https://app.test/partner-report/${partnerId.toHexString()}?access=signed`);
+    await expect(resolvePortalReportLink(db, context, { type: 'report', id: 'draft-q3' }, 'https://app.test')).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+});
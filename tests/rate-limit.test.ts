@@ -0,0 +1,131 @@
+// tests/rate-limit.test.ts
+// WHAT: Coverage for the rate limiter on the in-memory store — window counting,
+//     the throttled client list, and RateLimit-* headers on 429 responses —
+//     plus which limits reach the shared store and per-key API limits.
+
+import { NextRequest } from 'next/server';
+import { applyRateLimit, checkRateLimit, getRateLimitConfig, listThrottledClients, resetRateLimit, RATE_LIMITS } from '@/lib/rateLimit';
+import { MemoryRateLimitStore, setRateLimitStore, type RateLimitStore } from '@/lib/rateLimitStore';
+import { getUserIdForRateLimit } from '@/lib/apiAuth';
+
+jest.mock('@/lib/db', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/mongodb', () => ({ __esModule: true, default: Promise.resolve({}) }));
+jest.mock('@/lib/apiAuth', () => ({ getUserIdForRateLimit: jest.fn(async () => ({ id: '1.1.1.1', apiKey: false })) }));
+
+const config = { windowMs: 60_000, maxRequests: 2, message: 'Slow down' };
+
+beforeEach(() => {
+  setRateLimitStore(new MemoryRateLimitStore());
+});
+
+afterAll(() => {
+  setRateLimitStore(null);
+});
+
+describe('checkRateLimit', () => {
+  it('blocks once the window count passes the limit', async () => {
+    const first = await checkRateLimit('1.2.3.4:/api/x', config);
+    const second = await checkRateLimit('1.2.3.4:/api/x', config);
+    const third = await checkRateLimit('1.2.3.4:/api/x', config);
+
+    expect([first.allowed, second.allowed, third.allowed]).toEqual([true, true, false]);
+    expect([first.remaining, second.remaining, third.remaining]).toEqual([1, 0, 0]);
+    expect(third.retryAfter).toBeGreaterThan(0);
+  });
+
+  it('starts a new window when the previous one has ended', async () => {
+    jest.useFakeTimers({ now: new Date('2026-10-01T10:00:00Z') });
+    try {
+      for (let i = 0; i < 3; i++) await checkRateLimit('k', config);
+      jest.setSystemTime(new Date('2026-10-01T10:01:01Z'));
+      const next = await checkRateLimit('k', config);
+      expect(next).toMatchObject({ allowed: true, remaining: 1 });
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('lists throttled clients until they are reset', async () => {
+    for (let i = 0; i < 3; i++) await checkRateLimit('blocked', config);
+    await checkRateLimit('fine', config);
+
+    expect((await listThrottledClients()).map((c) => [c.key, c.count, c.limit])).toEqual([['blocked', 3, 2]]);
+    expect(await resetRateLimit('blocked')).toBe(true);
+    expect(await listThrottledClients()).toEqual([]);
+  });
+});
+
+describe('applyRateLimit', () => {
+  it('returns RateLimit headers and a 429 once the limit is exceeded', async () => {
+    const request = () => new NextRequest('http://localhost/api/events', { headers: { 'x-forwarded-for': '9.9.9.9' } });
+
+    const allowed = await applyRateLimit(request(), config);
+    expect(allowed.response).toBeNull();
+    expect(allowed.headers.get('RateLimit-Limit')).toBe('2');
+    expect(allowed.headers.get('RateLimit-Remaining')).toBe('1');
+    expect(allowed.headers.get('RateLimit-Policy')).toBe('2;w=60');
+    expect(Number(allowed.headers.get('RateLimit-Reset'))).toBeLessThanOrEqual(60);
+
+    await applyRateLimit(request(), config);
+    const blocked = await applyRateLimit(request(), config);
+    expect(blocked.response?.status).toBe(429);
+    expect(blocked.response?.headers.get('Retry-After')).toBeTruthy();
+    expect(await blocked.response?.json()).toMatchObject({ error: 'Slow down' });
+  });
+});
+
+describe('shared and per-key limits', () => {
+  const sharedStore = (): RateLimitStore & { hit: jest.Mock } => ({
+    name: 'shared',
+    hit: jest.fn(async () => ({ count: 1, resetTime: Date.now() + 60_000 })),
+    listThrottled: jest.fn(async () => []),
+    reset: jest.fn(async () => false),
+  });
+
+  it('counts only shared limits in the shared store', async () => {
+    const store = sharedStore();
+    setRateLimitStore(store);
+
+    await checkRateLimit('5.5.5.5:/api/events', config);
+    expect(store.hit).not.toHaveBeenCalled();
+
+    await checkRateLimit('5.5.5.5:/api/auth', { ...config, shared: true });
+    expect(store.hit).toHaveBeenCalledWith('5.5.5.5:/api/auth', 60_000, 2);
+  });
+
+  it('uses the API key\'s own limit and counts it in the shared store', async () => {
+    const store = sharedStore();
+    setRateLimitStore(store);
+    (getUserIdForRateLimit as jest.Mock).mockResolvedValueOnce({ id: 'user:u1', apiKey: true, rateLimitPerMinute: 1200 });
+
+    const request = new NextRequest('http://localhost/api/public/events', { headers: { authorization: 'Bearer secret-key' } });
+    const result = await applyRateLimit(request, config);
+    expect(store.hit).toHaveBeenCalledWith('user:u1:api', 60_000, 1200);
+    expect(result.headers.get('RateLimit-Limit')).toBe('1200');
+
+    (getUserIdForRateLimit as jest.Mock).mockResolvedValueOnce({ id: 'user:u2', apiKey: true });
+    await applyRateLimit(request, config);
+    expect(store.hit).toHaveBeenLastCalledWith('user:u2:api', 60_000, 300);
+  });
+});
+
+describe('getRateLimitConfig', () => {
+  it('keeps session checks on read limits so page loads are not locked out', async () => {
+    const request = new NextRequest('http://localhost/api/auth/check');
+    expect(getRateLimitConfig(request)).toBe(RATE_LIMITS.READ);
+
+    for (let i = 0; i < RATE_LIMITS.AUTH.maxRequests; i++) {
+      await applyRateLimit(request, getRateLimitConfig(request));
+    }
+    const sixth = await applyRateLimit(request, getRateLimitConfig(request));
+    expect(sixth.response).toBeNull();
+  });
+
+  it('applies auth limits to credential submissions only', () => {
+    const post = (path: string) => new NextRequest(`http://localhost${path}`, { method: 'POST' });
+    expect(getRateLimitConfig(post('/api/admin/login'))).toBe(RATE_LIMITS.AUTH);
+    expect(getRateLimitConfig(post('/api/portal/login'))).toBe(RATE_LIMITS.AUTH);
+    expect(getRateLimitConfig(new NextRequest('http://localhost/api/auth/sso/config'))).toBe(RATE_LIMITS.READ);
+    expect(getRateLimitConfig(new NextRequest('http://localhost/api/admin/login', { method: 'DELETE' }))).not.toBe(RATE_LIMITS.AUTH);
+  });
+});
@@ -0,0 +1,152 @@
+// tests/report-export.test.ts
+// WHAT: Coverage for the editable report exports: the XLSX workbook has a
+//     sheet per block plus Variables and Chart Sources with formulas, the
+//     PPTX deck has a slide per block with native charts, and every format
+//     honours a variant's own page password.
+// HOW: Render in-memory snapshots, then read the files back — the workbook
+//     with ExcelJS, the deck's parts by name from the zip (JSZip, which both
+//     libraries write with).
+
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { renderReportXlsx } from '@/lib/export/reportXlsx';
+import { renderReportPptx } from '@/lib/export/reportPptx';
+import { NextRequest } from 'next/server';
+import { cookies } from 'next/headers';
+import { handleReportExportRequest, reportExportFileName, REPORT_EXPORT_FORMATS } from '@/lib/export/reportExport';
+import { getDb as getFanmassDb } from '@/lib/fanmassIntegration';
+import { buildReportSnapshot, type ReportSnapshot } from '@/lib/reportSnapshot';
+
+jest.mock('@/lib/db', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/mongodb', () => ({ __esModule: true, default: new Promise(() => {}) }));
+jest.mock('@/lib/fanmassIntegration', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/auth', () => ({ getAdminUser: jest.fn(async () => null) }));
+jest.mock('next/headers', () => ({ cookies: jest.fn(), headers: jest.fn() }));
+jest.mock('@/lib/reportSnapshot', () => ({
+  ...jest.requireActual('@/lib/reportSnapshot'),
+  buildReportSnapshot: jest.fn(),
+}));
+
+// 1×1 transparent PNG
+const PNG = 'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const snapshot: ReportSnapshot = {
+  reportType: 'partner',
+  ownerId: 'fc-example',
+  ownerName: 'FC Example',
+  variantSlug: 'season',
+  variantName: 'Season 2026',
+  periodLabel: '2026',
+  eventCount: 3,
+  dataUpdatedAt: '2026-05-02T10:00:00.000Z',
+  variables: { female: 40, male: 60, totalFans: 100 },
+  blocks: [
+    {
+      id: 'b1',
+      title: 'Audience: fans / gender',
+      showTitle: true,
+      charts: [
+        { chartId: 'fans', type: 'kpi', title: 'Fans', kpiValue: 100, formatting: { rounded: true, suffix: ' fans' }, width: 1, sources: [{ label: 'Fans', formula: '[totalFans]' }] },
+        {
+          chartId: 'gender', type: 'pie', title: 'Gender', width: 2,
+          elements: [{ label: 'Female', value: 40, color: '#ff00aa' }, { label: 'Male', value: 60 }],
+          sources: [{ label: 'Female', formula: '[female]' }, { label: 'Male', formula: '[male]' }],
+        },
+      ],
+    },
+    {
+      id: 'b2',
+      title: 'Audience: fans / gender',
+      showTitle: true,
+      charts: [
+        { chartId: 'visits', type: 'bar', title: 'Visits', elements: [{ label: 'Web', value: 30 }, { label: 'QR', value: 12 }], width: 1 },
+        { chartId: 'table', type: 'table', title: 'Table', kpiValue: '| A | B |\n|---|---|\n| 1 | 2 |', width: 1 },
+        { chartId: 'photo', type: 'image', title: 'Photo', kpiValue: PNG, width: 1 },
+      ],
+    },
+  ],
+};
+
+describe('report XLSX export', () => {
+  it('writes a sheet per block plus variables and chart sources', async () => {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(await renderReportXlsx(snapshot) as unknown as ArrayBuffer);
+
+    // Duplicate, invalid block titles still give valid, unique sheet names
+    expect(workbook.worksheets.map((sheet) => sheet.name)).toEqual([
+      'Summary', 'Audience fans gender', 'Audience fans gender (2)', 'Variables', 'Chart Sources',
+    ]);
+
+    const block = workbook.getWorksheet('Audience fans gender')!;
+    expect(block.getRow(2).values).toEqual([undefined, 'Fans', 'kpi', '', 100]);
+    expect(block.getRow(2).getCell(4).numFmt).toBe('#,##0" fans"');
+    expect(block.getRow(4).values).toEqual([undefined, 'Gender', 'pie', 'Male', 60]);
+
+    const table = workbook.getWorksheet('Audience fans gender (2)')!;
+    expect(table.getRow(4).values).toEqual([undefined, 'Table', 'table', 'A', 'B']);
+
+    const variables = workbook.getWorksheet('Variables')!;
+    expect(variables.getRow(4).values).toEqual([undefined, 'totalFans', 100]);
+
+    const sources = workbook.getWorksheet('Chart Sources')!;
+    expect(sources.rowCount).toBe(4);
+    expect(sources.getRow(3).values).toEqual([undefined, 'Audience: fans / gender', 'gender', 'Gender', 'pie', 'Female', '[female]', 40]);
+  });
+});
+
+describe('report PPTX export', () => {
+  // WHAT: pptxgenjs lazy-loads node:fs/node:https with import() when it sees
+  //     a Node runtime, which Jest's VM rejects. Every image here is inline
+  //     data, so neither is needed — report a non-Node release while rendering.
+  const release = process.release;
+  beforeAll(() => Object.defineProperty(process, 'release', { value: { ...release, name: 'jest' }, configurable: true }));
+  afterAll(() => Object.defineProperty(process, 'release', { value: release, configurable: true }));
+
+  it('writes a title slide and one slide per block with native charts', async () => {
+    const zip = await JSZip.loadAsync(await renderReportPptx(snapshot));
+    const names = Object.keys(zip.files);
+
+    expect(names.filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))).toHaveLength(3);
+    const charts = await Promise.all(
+      names.filter((name) => /^ppt\/charts\/chart\d+\.xml$/.test(name)).map((name) => zip.file(name)!.async('string'))
+    );
+    expect(charts.some((xml) => xml.includes('<c:pieChart>'))).toBe(true);
+    expect(charts.some((xml) => xml.includes('<c:barDir val="bar"/>'))).toBe(true);
+    expect(names.some((name) => name.startsWith('ppt/media/'))).toBe(true);
+
+    const kpiSlide = await zip.file('ppt/slides/slide2.xml')!.async('string');
+    expect(kpiSlide).toContain('100 fans');
+  });
+
+  it('names downloads after the report and variant', () => {
+    expect(reportExportFileName(snapshot, 'pptx')).toBe('fc-example-season-2026.pptx');
+  });
+});
+
+describe('handleReportExportRequest', () => {
+  beforeEach(() => {
+    (cookies as jest.Mock).mockResolvedValue({ get: () => undefined });
+    // Only the variant has a password; the base report is public
+    const passwords = [{ pageType: 'event-report', pageId: 'cup-final::variant=sponsors' }];
+    (getFanmassDb as jest.Mock).mockResolvedValue({
+      collection: () => ({
+        findOne: async (query: { pageType: string; pageId: string }) =>
+          passwords.find((p) => p.pageType === query.pageType && p.pageId === query.pageId) || null,
+      }),
+    });
+    (buildReportSnapshot as jest.Mock).mockReset().mockResolvedValue(snapshot);
+  });
+
+  it.each(REPORT_EXPORT_FORMATS)('refuses a %s of a protected variant without its password', async (format) => {
+    const request = new NextRequest('http://localhost/api/reports/cup-final/export?variant=sponsors');
+    const response = await handleReportExportRequest(request, 'cup-final', format);
+    expect(response.status).toBe(401);
+    expect(await response.json()).toMatchObject({ code: 'PAGE_PASSWORD_REQUIRED' });
+    expect(buildReportSnapshot).not.toHaveBeenCalled();
+  });
+
+  it('still serves the public base report', async () => {
+    const response = await handleReportExportRequest(new NextRequest('http://localhost/api/reports/cup-final/export'), 'cup-final', 'xlsx');
+    expect(response.status).toBe(200);
+  });
+});
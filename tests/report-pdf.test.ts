@@ -0,0 +1,67 @@
+// tests/report-pdf.test.ts
+// WHAT: Coverage for the server-side report PDF: identical snapshots render
+//     to identical bytes, blocks paginate instead of overflowing, and every
+//     chart type renders.
+// HOW: renderReportPdf over in-memory snapshots; page count is read from the
+//     PDF's /Type /Page objects.
+
+import { renderReportPdf } from '@/lib/export/reportPdf';
+import type { ReportSnapshot, ReportSnapshotBlock } from '@/lib/reportSnapshot';
+
+function block(id: string, charts: ReportSnapshotBlock['charts'], extra: Partial<ReportSnapshotBlock> = {}): ReportSnapshotBlock {
+  return { id, title: `Block ${id}`, showTitle: true, charts, ...extra };
+}
+
+function snapshot(blocks: ReportSnapshotBlock[]): ReportSnapshot {
+  return {
+    reportType: 'hashtag',
+    ownerId: 'derby',
+    ownerName: '#derby',
+    variantSlug: 'default',
+    variantName: 'Default',
+    periodLabel: '2026',
+    eventCount: 4,
+    dataUpdatedAt: '2026-05-02T10:00:00.000Z',
+    variables: { totalFans: 12500 },
+    blocks,
+  };
+}
+
+function pageCount(pdf: Buffer): number {
+  return (pdf.toString('latin1').match(/\/Type \/Page\b(?!s)/g) || []).length;
+}
+
+const kpis = block('kpis', [
+  { chartId: 'fans', type: 'kpi', title: 'Fans', kpiValue: 12500, width: 1 },
+  { chartId: 'merch', type: 'kpi', title: 'Merched', kpiValue: 0.4567, formatting: { rounded: false, suffix: '%' }, width: 1 },
+  { chartId: 'gender', type: 'pie', title: 'Gender', elements: [{ label: 'Female', value: 40, color: '#ff00aa' }, { label: 'Male', value: 60 }], width: 2 },
+]);
+
+describe('report PDF rendering', () => {
+  it('renders identical snapshots to identical bytes', () => {
+    const first = renderReportPdf(snapshot([kpis]));
+    const second = renderReportPdf(snapshot([kpis]));
+    expect(first.subarray(0, 5).toString()).toBe('%PDF-');
+    expect(first.equals(second)).toBe(true);
+    expect(renderReportPdf({ ...snapshot([kpis]), eventCount: 5 }).equals(first)).toBe(false);
+  });
+
+  it('moves blocks that do not fit to the next page', () => {
+    expect(pageCount(renderReportPdf(snapshot([kpis])))).toBe(1);
+    // 4:10 text blocks are 2.5× the row width tall — one per page
+    const tall = [1, 2, 3].map((i) => block(`t${i}`, [{ chartId: `text${i}`, type: 'text', title: 'Notes', kpiValue: 'Long text. '.repeat(80), width: 1 }], { blockAspectRatio: '4:10' }));
+    expect(pageCount(renderReportPdf(snapshot(tall)))).toBe(3);
+  });
+
+  it('renders every chart type', () => {
+    const all = block('all', [
+      { chartId: 'bars', type: 'bar', title: 'Visits', elements: [{ label: 'Web', value: 30 }, { label: 'QR', value: 12 }], width: 1 },
+      { chartId: 'table', type: 'table', title: 'Table', kpiValue: '| A | B |\n|---|---|\n| 1 | 2 |', width: 1 },
+      { chartId: 'image', type: 'image', title: 'Photo', kpiValue: 'https://example.com/a.jpg', width: 1 },
+      { chartId: 'text', type: 'text', title: 'Summary', kpiValue: '**Great** match', width: 1 },
+    ]);
+    const pdf = renderReportPdf(snapshot([all]));
+    expect(pageCount(pdf)).toBe(1);
+    expect(pdf.length).toBeGreaterThan(1000);
+  });
+});
@@ -0,0 +1,95 @@
+// tests/report-period-comparison.test.ts
+// WHAT: Coverage for the quarter, season and rolling period presets, the
+//     comparison period each one resolves to, and the KPI deltas built from it.
+
+import { resolveComparisonPeriod, resolveReportPeriod } from '@/lib/reportPeriods';
+import { normalizeComparisonPreset, normalizeReportPeriodOptions, ReportPeriodValidationError } from '@/lib/reportPeriodValidation';
+import { attachKpiComparisons } from '@/lib/reportComparison';
+import type { ChartResult } from '@/lib/report-calculator';
+
+const NOW = new Date('2026-05-15T12:00:00.000Z');
+
+function range(period: { startDate: string | null; endDate: string | null } | null) {
+  return period ? [period.startDate, period.endDate] : null;
+}
+
+describe('resolveReportPeriod presets', () => {
+  it('resolves quarters', () => {
+    expect(range(resolveReportPeriod('this_quarter', null, undefined, {}, NOW))).toEqual(['2026-04-01', '2026-05-15']);
+    expect(range(resolveReportPeriod('last_quarter', null, undefined, {}, NOW))).toEqual(['2026-01-01', '2026-03-31']);
+  });
+
+  it('resolves seasons from the configured start month', () => {
+    const thisSeason = resolveReportPeriod('this_season', null, undefined, { seasonStartMonth: 8 }, NOW);
+    expect(range(thisSeason)).toEqual(['2025-08-01', '2026-05-15']);
+    expect(thisSeason.label).toBe('Season 2025/26');
+    expect(range(resolveReportPeriod('last_season', null, undefined, { seasonStartMonth: 8 }, NOW))).toEqual(['2024-08-01', '2025-07-31']);
+    expect(range(resolveReportPeriod('this_season', null, undefined, { seasonStartMonth: 3 }, NOW))).toEqual(['2026-03-01', '2026-05-15']);
+  });
+
+  it('resolves rolling windows with today included', () => {
+    const period = resolveReportPeriod('rolling_days', null, undefined, { rollingDays: 7 }, NOW);
+    expect(range(period)).toEqual(['2026-05-09', '2026-05-15']);
+    expect(period.label).toBe('Last 7 Days');
+  });
+});
+
+describe('resolveComparisonPeriod', () => {
+  it('steps calendar presets back by their own unit', () => {
+    const month = resolveReportPeriod('this_month', null, undefined, {}, NOW);
+    expect(range(resolveComparisonPeriod(month, 'previous_period'))).toEqual(['2026-04-01', '2026-04-15']);
+
+    const lastQuarter = resolveReportPeriod('last_quarter', null, undefined, {}, new Date('2026-07-10T00:00:00.000Z'));
+    expect(range(lastQuarter)).toEqual(['2026-04-01', '2026-06-30']);
+    expect(range(resolveComparisonPeriod(lastQuarter, 'previous_period'))).toEqual(['2026-01-01', '2026-03-31']);
+  });
+
+  it('takes the same number of days just before for rolling and custom ranges', () => {
+    const rolling = resolveReportPeriod('rolling_days', null, undefined, { rollingDays: 7 }, NOW);
+    expect(range(resolveComparisonPeriod(rolling, 'previous_period'))).toEqual(['2026-05-02', '2026-05-08']);
+
+    const custom = resolveReportPeriod('custom', { startDate: '2026-03-01', endDate: '2026-03-10' });
+    expect(range(resolveComparisonPeriod(custom, 'previous_period'))).toEqual(['2026-02-19', '2026-02-28']);
+  });
+
+  it('shifts a year back for year-over-year and keeps month ends', () => {
+    const leap = resolveReportPeriod('custom', { startDate: '2028-02-01', endDate: '2028-02-29' });
+    expect(range(resolveComparisonPeriod(leap, 'previous_year'))).toEqual(['2027-02-01', '2027-02-28']);
+  });
+
+  it('has nothing to compare for All Time or when comparison is off', () => {
+    expect(resolveComparisonPeriod(resolveReportPeriod('all_time'), 'previous_year')).toBeNull();
+    expect(resolveComparisonPeriod(resolveReportPeriod('this_year', null, undefined, {}, NOW), null)).toBeNull();
+  });
+});
+
+describe('period options and comparison validation', () => {
+  it('keeps only the options the preset uses', () => {
+    expect(normalizeReportPeriodOptions('rolling_days', { rollingDays: '90', seasonStartMonth: 8 })).toEqual({ rollingDays: 90 });
+    expect(normalizeReportPeriodOptions('this_year', { rollingDays: 90 })).toEqual({});
+    expect(() => normalizeReportPeriodOptions('this_season', { seasonStartMonth: 13 })).toThrow(ReportPeriodValidationError);
+  });
+
+  it('turns comparison off for empty values and rejects unknown presets', () => {
+    expect(normalizeComparisonPreset('none')).toBeNull();
+    expect(normalizeComparisonPreset('previous_year')).toBe('previous_year');
+    expect(() => normalizeComparisonPreset('last_decade')).toThrow(ReportPeriodValidationError);
+  });
+});
+
+describe('attachKpiComparisons', () => {
+  it('adds previous value and delta to KPI results only', () => {
+    const kpi = (value: number | string): ChartResult => ({ chartId: 'fans', type: 'kpi', title: 'Fans', kpiValue: value });
+    const pie: ChartResult = { chartId: 'gender', type: 'pie', title: 'Gender', elements: [] };
+    const current = new Map([['fans', kpi(1200)], ['gender', pie]]);
+    const previous = new Map([['fans', kpi(1000)], ['gender', pie]]);
+
+    const merged = attachKpiComparisons(current, previous, 'Previous Year');
+    expect(merged.get('fans')?.comparison).toEqual({ previousValue: 1000, delta: 200, deltaPercent: 20, periodLabel: 'Previous Year' });
+    expect(merged.get('gender')?.comparison).toBeUndefined();
+    expect(current.get('fans')?.comparison).toBeUndefined();
+
+    const fromZero = attachKpiComparisons(new Map([['fans', kpi(5)]]), new Map([['fans', kpi(0)]]), 'Previous Period');
+    expect(fromZero.get('fans')?.comparison).toMatchObject({ delta: 5, deltaPercent: null });
+  });
+});
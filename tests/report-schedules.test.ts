@@ -0,0 +1,135 @@
+// tests/report-schedules.test.ts
+// WHAT: Coverage for scheduled report delivery: next-run timing in the
+//     variant's timezone (including a DST change), schedule/recipient
+//     validation, the server-side PDF renderer, and the time-limited share
+//     token that stands in for the page password in the email.
+// HOW: Pure functions only — lib/db and lib/mongodb are stubbed so importing
+//     the schedule module does not open a connection.
+
+jest.mock('@/lib/db', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/mongodb', () => ({ __esModule: true, default: new Promise(() => {}) }));
+
+import {
+  computeNextRunAt,
+  initialEventCursor,
+  normalizeRecipients,
+  normalizeScheduleInput,
+  selectNewlyFinishedEvents,
+} from '@/lib/reportSchedules';
+import { inflateSync } from 'zlib';
+import { renderReportPdf } from '@/lib/export/reportPdf';
+import { mintShareAccessToken, verifyShareAccessToken } from '@/lib/pageAccess';
+import type { ReportSnapshot } from '@/lib/reportSnapshot';
+
+const budapest = { weekday: 1, dayOfMonth: 1, hour: 8, timezone: 'Europe/Budapest' };
+
+describe('report schedules', () => {
+  it('runs weekly schedules at the local hour on the chosen weekday', () => {
+    // Wednesday 2026-03-04 10:00 UTC → next Monday 08:00 Budapest (UTC+1)
+    const next = computeNextRunAt({ ...budapest, frequency: 'weekly' }, new Date('2026-03-04T10:00:00Z'));
+    expect(next.toISOString()).toBe('2026-03-09T07:00:00.000Z');
+  });
+
+  it('follows the timezone across a DST change', () => {
+    // Budapest moves to UTC+2 on 2026-03-29, so 08:00 local is 06:00 UTC after it
+    const next = computeNextRunAt({ ...budapest, frequency: 'weekly' }, new Date('2026-03-25T00:00:00Z'));
+    expect(next.toISOString()).toBe('2026-03-30T06:00:00.000Z');
+  });
+
+  it('runs monthly schedules on the day of month and after-event checks daily', () => {
+    expect(computeNextRunAt({ ...budapest, frequency: 'monthly', dayOfMonth: 15 }, new Date('2026-01-15T07:00:00Z')).toISOString())
+      .toBe('2026-02-15T07:00:00.000Z');
+    expect(computeNextRunAt({ ...budapest, frequency: 'after_event', hour: 6 }, new Date('2026-01-15T07:00:00Z')).toISOString())
+      .toBe('2026-01-16T05:00:00.000Z');
+  });
+
+  it('reports an event dated on the day an after-event schedule was created', () => {
+    // Created 2026-03-10 00:30 Budapest (23:30 UTC the day before)
+    const cursor = initialEventCursor(new Date('2026-03-09T23:30:00Z'), 'Europe/Budapest');
+    expect(cursor).toBe('2026-03-09');
+    const events = [
+      { _id: 'before', eventDate: '2026-03-09' },
+      { _id: 'creation-day', eventDate: '2026-03-10T18:00:00Z' },
+      { _id: 'today', eventDate: '2026-03-11' },
+    ];
+    expect(selectNewlyFinishedEvents(events, cursor, '2026-03-11')).toEqual({ ids: ['creation-day'], newest: '2026-03-10' });
+    expect(selectNewlyFinishedEvents(events, '2026-03-10', '2026-03-11')).toEqual({ ids: [], newest: null });
+  });
+
+  it('normalizes and validates recipients', () => {
+    expect(normalizeRecipients('Anna@Example.com; bob@example.com, anna@example.com')).toEqual(['anna@example.com', 'bob@example.com']);
+    expect(normalizeRecipients([])).toBe('At least one recipient is required.');
+    expect(normalizeRecipients(['not-an-email'])).toContain('not a valid email');
+  });
+
+  it('rejects invalid schedule fields with a 400', () => {
+    expect(normalizeScheduleInput({ ownerType: 'partner', ownerId: 'p1', frequency: 'weekly', weekday: '2', recipients: ['a@b.co'] }, true))
+      .toMatchObject({ ownerType: 'partner', variantSlug: 'default', frequency: 'weekly', weekday: 2 });
+    expect(() => normalizeScheduleInput({ ownerType: 'hashtag', ownerId: 'x', frequency: 'weekly', weekday: 1, recipients: ['a@b.co'] }, true))
+      .toThrow(/ownerType/);
+    expect(() => normalizeScheduleInput({ dayOfMonth: 31 })).toThrow(/between 1 and 28/);
+  });
+
+  it('renders a snapshot to a PDF document', () => {
+    const snapshot: ReportSnapshot = {
+      reportType: 'partner',
+      ownerId: 'p1',
+      ownerName: 'FC Example',
+      variantSlug: 'default',
+      variantName: 'Default',
+      periodLabel: 'Last 30 days',
+      eventCount: 3,
+      dataUpdatedAt: '2026-03-01T08:00:00.000Z',
+      variables: { totalFans: 12500 },
+      blocks: [{
+        id: 'b1',
+        title: 'Audience',
+        showTitle: true,
+        charts: [
+          { chartId: 'fans', type: 'kpi', title: 'Total fans', kpiValue: 12500, width: 1 },
+          { chartId: 'gender', type: 'pie', title: 'Gender', elements: [{ label: 'Female', value: 40 }, { label: 'Male', value: 60 }], width: 1 },
+        ],
+      }],
+    };
+    const pdf = renderReportPdf(snapshot);
+    expect(pdf.subarray(0, 5).toString()).toBe('%PDF-');
+  });
+
+  it('embeds a font that encodes Hungarian ő and ű', () => {
+    const pdf = renderReportPdf({
+      reportType: 'partner',
+      ownerId: 'p1',
+      ownerName: 'Győri ETO FC',
+      variantSlug: 'osz',
+      variantName: 'Őszi idény',
+      periodLabel: 'Utolsó 30 nap',
+      eventCount: 1,
+      dataUpdatedAt: '2026-03-01T08:00:00.000Z',
+      variables: {},
+      blocks: [{ id: 'b1', title: 'Nézőszám – Űrlap és fűtött lelátó', showTitle: true, charts: [] }],
+    });
+    const raw = pdf.toString('latin1');
+    expect(raw).toContain('/BaseFont /DejaVuSans');
+    // ToUnicode maps of the embedded subset: every drawn character has an entry
+    const cmaps = Array.from(raw.matchAll(/stream\r?\n([\s\S]*?)\r?\nendstream/g), (match) => {
+      try {
+        return inflateSync(Buffer.from(match[1], 'latin1')).toString('latin1');
+      } catch {
+        return '';
+      }
+    }).filter((stream) => stream.includes('beginbfchar'));
+    for (const code of ['0151', '0171', '0150', '0170']) {
+      expect(cmaps.some((cmap) => cmap.includes(`<${code}>`))).toBe(true);
+    }
+  });
+
+  it('issues share tokens that unlock only their own page', () => {
+    process.env.JWT_SECRET = 'test-secret';
+    const token = mintShareAccessToken('partner-report', 'fc-example::variant=monthly', 3600);
+    expect(verifyShareAccessToken(token, 'partner-report', 'fc-example::variant=monthly')).toBe(true);
+    expect(verifyShareAccessToken(token, 'partner-report', 'fc-example')).toBe(true);
+    expect(verifyShareAccessToken(token, 'partner-report', 'other-partner')).toBe(false);
+    expect(verifyShareAccessToken(token, 'organization-report', 'fc-example')).toBe(false);
+    expect(verifyShareAccessToken(mintShareAccessToken('partner-report', 'fc-example', -10), 'partner-report', 'fc-example')).toBe(false);
+  });
+});
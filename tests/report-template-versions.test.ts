@@ -0,0 +1,109 @@
+// tests/report-template-versions.test.ts
+// WHAT: Coverage for the structural diff between report template versions —
+//     blocks added/removed/moved, chart order and widths, grid settings.
+
+import { diffTemplateContent, type ReportTemplateVersionContent } from '@/lib/reportTemplateVersions';
+
+function content(overrides: Partial<ReportTemplateVersionContent> = {}): ReportTemplateVersionContent {
+  return {
+    name: 'Partner Report',
+    type: 'partner',
+    gridSettings: { desktopUnits: 6, tabletUnits: 3, mobileUnits: 2 },
+    blocks: [
+      { blockId: 'a', order: 0, name: 'Audience', showTitle: true, isActive: true, charts: [{ chartId: 'fans', width: 1, order: 0 }, { chartId: 'gender', width: 2, order: 1 }] },
+      { blockId: 'b', order: 1, name: 'Merch', showTitle: true, isActive: true, charts: [{ chartId: 'merch', width: 1, order: 0 }] },
+      { blockId: 'c', order: 2, name: 'Visits', showTitle: true, isActive: true, charts: [{ chartId: 'visits', width: 1, order: 0 }] },
+    ],
+    ...overrides,
+  };
+}
+
+describe('diffTemplateContent', () => {
+  it('reports no changes for identical content', () => {
+    const diff = diffTemplateContent(content(), content());
+    expect(diff.hasChanges).toBe(false);
+  });
+
+  it('does not treat renumbered block order as a move', () => {
+    const base = content();
+    const renumbered = content({ blocks: base.blocks.map((block) => ({ ...block, order: block.order * 10 })) });
+    expect(diffTemplateContent(base, renumbered).hasChanges).toBe(false);
+  });
+
+  it('reports added and removed blocks without counting later blocks as moved', () => {
+    const base = content();
+    const next = content({
+      blocks: [
+        { blockId: 'new', order: 0, name: 'Sponsors', showTitle: true, isActive: true, charts: [] },
+        ...base.blocks.filter((block) => block.blockId !== 'b').map((block) => ({ ...block, order: block.order + 1 })),
+      ],
+    });
+
+    const diff = diffTemplateContent(base, next);
+    expect(diff.blocksAdded).toEqual([{ blockId: 'new', name: 'Sponsors' }]);
+    expect(diff.blocksRemoved).toEqual([{ blockId: 'b', name: 'Merch' }]);
+    expect(diff.blocksMoved).toEqual([]);
+  });
+
+  it('reports moved blocks by position', () => {
+    const base = content();
+    const next = content({ blocks: [base.blocks[2], base.blocks[0], base.blocks[1]] });
+
+    const diff = diffTemplateContent(base, next);
+    expect(diff.blocksMoved).toEqual([
+      { blockId: 'c', name: 'Visits', from: 2, to: 0 },
+      { blockId: 'a', name: 'Audience', from: 0, to: 1 },
+      { blockId: 'b', name: 'Merch', from: 1, to: 2 },
+    ]);
+  });
+
+  it('reports chart order, membership, width and block setting changes', () => {
+    const base = content();
+    const next = content({
+      blocks: [
+        {
+          ...base.blocks[0],
+          name: 'Audience 2026',
+          charts: [{ chartId: 'gender', width: 3, order: 0 }, { chartId: 'fans', width: 1, order: 1 }, { chartId: 'age', width: 1, order: 2 }],
+        },
+        { ...base.blocks[1], charts: [] },
+        base.blocks[2],
+      ],
+    });
+
+    const diff = diffTemplateContent(base, next);
+    expect(diff.blocksChanged).toEqual([
+      {
+        blockId: 'a',
+        name: 'Audience 2026',
+        chartsAdded: ['age'],
+        chartsRemoved: [],
+        chartOrder: { from: ['fans', 'gender'], to: ['gender', 'fans', 'age'] },
+        widthChanges: [{ chartId: 'gender', from: 2, to: 3 }],
+        settings: [{ key: 'name', from: 'Audience', to: 'Audience 2026' }],
+      },
+      {
+        blockId: 'b',
+        name: 'Merch',
+        chartsAdded: [],
+        chartsRemoved: ['merch'],
+        chartOrder: null,
+        widthChanges: [],
+        settings: [],
+      },
+    ]);
+  });
+
+  it('reports grid and template setting changes', () => {
+    const diff = diffTemplateContent(
+      content(),
+      content({ gridSettings: { desktopUnits: 4, tabletUnits: 3, mobileUnits: 1 }, blockLayoutMode: 'deterministic' })
+    );
+    expect(diff.gridSettings).toEqual([
+      { key: 'desktopUnits', from: 6, to: 4 },
+      { key: 'mobileUnits', from: 2, to: 1 },
+    ]);
+    expect(diff.settings).toEqual([{ key: 'blockLayoutMode', from: null, to: 'deterministic' }]);
+    expect(diff.hasChanges).toBe(true);
+  });
+});
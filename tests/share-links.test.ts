@@ -0,0 +1,215 @@
+// tests/share-links.test.ts
+// WHAT: Coverage for per-recipient share links — validation, creation,
+//     redemption limits, revocation and expiry of granted sessions, download
+//     permission and view summaries.
+
+jest.mock('@/lib/db', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/mongodb', () => ({ __esModule: true, default: Promise.resolve({}) }));
+jest.mock('@/lib/auth', () => ({ getAdminUser: jest.fn(async () => null) }));
+jest.mock('@/lib/fanmassIntegration', () => ({ getDb: jest.fn() }));
+jest.mock('next/headers', () => ({ cookies: jest.fn(), headers: jest.fn() }));
+
+import { ObjectId, type Db } from 'mongodb';
+import { cookies, headers } from 'next/headers';
+import { getDb } from '@/lib/db';
+import { getDb as getFanmassDb } from '@/lib/fanmassIntegration';
+import { PAGE_ACCESS_COOKIE, canDownloadPage, hasPageAccess, mintPageAccessToken, requirePageAccess } from '@/lib/pageAccess';
+import {
+  checkShareGrant,
+  createShareLink,
+  redeemShareLink,
+  revokeShareLink,
+  summarizeShareViews,
+  validateShareLinkInput,
+} from '@/lib/shareLinks';
+
+type Doc = Record<string, any>;
+
+// Minimal in-memory db covering the queries lib/shareLinks.ts issues
+function mockDb(seed: Record<string, Doc[]> = {}) {
+  const data: Record<string, Doc[]> = { ...seed };
+  const same = (a: unknown, b: unknown) => String(a) === String(b);
+  const matches = (doc: Doc, query: Doc): boolean =>
+    Object.entries(query).every(([key, value]) => {
+      if (value && typeof value === 'object' && !(value instanceof ObjectId)) {
+        if ('$in' in value) return value.$in.some((v: unknown) => same(v, doc[key]));
+        if ('$gt' in value) return doc[key] > value.$gt;
+        if ('$lt' in value) return doc[key] < value.$lt;
+      }
+      if (value === null) return doc[key] == null;
+      return doc[key] !== undefined && same(doc[key], value);
+    });
+
+  const db = {
+    data,
+    collection: (name: string) => {
+      const docs = (data[name] ||= []);
+      return {
+        findOne: async (query: Doc) => docs.find((doc) => matches(doc, query)) || null,
+        insertOne: async (doc: Doc) => {
+          const _id = new ObjectId();
+          docs.push({ ...doc, _id });
+          return { insertedId: _id };
+        },
+        updateOne: async (query: Doc, update: { $set: Doc }) => {
+          const doc = docs.find((d) => matches(d, query));
+          if (doc) Object.assign(doc, update.$set);
+        },
+        findOneAndUpdate: async (query: Doc, update: { $set: Doc; $inc: Record<string, number> }) => {
+          const doc = docs.find((d) => matches(d, query));
+          if (!doc) return null;
+          Object.assign(doc, update.$set);
+          for (const [key, by] of Object.entries(update.$inc)) doc[key] = (doc[key] || 0) + by;
+          return { ...doc };
+        },
+      };
+    },
+  };
+  (getDb as jest.Mock).mockResolvedValue(db);
+  (getFanmassDb as jest.Mock).mockResolvedValue(db);
+  return db as unknown as Db & { data: Record<string, Doc[]> };
+}
+
+const client = { userAgent: 'jest', ipAddress: '127.0.0.1' };
+const protectedPages = [{ pageType: 'event-report', pageId: 'cup-final', passwordHash: 'x' }];
+
+function setGrantCookie(value?: string) {
+  (cookies as jest.Mock).mockResolvedValue({ get: (name: string) => (name === PAGE_ACCESS_COOKIE && value ? { value } : undefined) });
+}
+
+function tokenFrom(url: string): string {
+  return new URL(url).searchParams.get('share') || '';
+}
+
+beforeEach(() => {
+  (headers as jest.Mock).mockResolvedValue(new Headers({ 'user-agent': 'jest', 'x-forwarded-for': '10.0.0.1, 10.0.0.2' }));
+});
+
+describe('validateShareLinkInput', () => {
+  it('normalizes a recipient and its limits', () => {
+    expect(
+      validateShareLinkInput({ pageId: ' cup-final ', pageType: 'event-report', email: ' Ana@Sponsor.COM ', expiresInDays: '7', maxUses: 3 })
+    ).toEqual({
+      pageId: 'cup-final',
+      pageType: 'event-report',
+      label: 'ana@sponsor.com',
+      email: 'ana@sponsor.com',
+      expiresInDays: 7,
+      maxUses: 3,
+      allowDownload: false,
+    });
+  });
+
+  it('rejects pages recipients cannot open and bad limits', () => {
+    expect(() => validateShareLinkInput({ pageId: 'x', pageType: 'edit', label: 'a' })).toThrow(/pageType/);
+    expect(() => validateShareLinkInput({ pageId: 'x', pageType: 'filter' })).toThrow(/label or email/);
+    expect(() => validateShareLinkInput({ pageId: 'x', pageType: 'filter', label: 'a', expiresInDays: 400 })).toThrow(/expiresInDays/);
+    expect(() => validateShareLinkInput({ pageId: 'x', pageType: 'filter', label: 'a', maxUses: 1.5 })).toThrow(/maxUses/);
+  });
+});
+
+describe('createShareLink / redeemShareLink', () => {
+  it('refuses a page without a password', async () => {
+    const db = mockDb();
+    await expect(createShareLink(db, { pageId: 'cup-final', pageType: 'event-report', label: 'Ana' }, 'admin@x', 'https://app')).rejects.toMatchObject({
+      status: 409,
+    });
+  });
+
+  it('stores only a hash and spends one use per redemption', async () => {
+    const db = mockDb({ page_passwords: protectedPages });
+    const { link, url } = await createShareLink(db, { pageId: 'cup-final', pageType: 'event-report', label: 'Ana', maxUses: 1 }, 'admin@x', 'https://app');
+    expect(url).toMatch(/^https:\/\/app\/report\/cup-final\?share=/);
+    const token = tokenFrom(url);
+    expect(JSON.stringify(db.data.share_links)).not.toContain(token);
+    expect(link).toMatchObject({ status: 'active', useCount: 0, maxUses: 1 });
+
+    expect(await redeemShareLink(db, token, 'event-report', 'other-event', client)).toEqual({ ok: false, reason: 'invalid' });
+    const first = await redeemShareLink(db, token, 'event-report', 'cup-final', client);
+    expect(first).toMatchObject({ ok: true, link: { useCount: 1 } });
+    expect(await redeemShareLink(db, token, 'event-report', 'cup-final', client)).toEqual({ ok: false, reason: 'exhausted' });
+    expect(db.data.share_link_views).toEqual([expect.objectContaining({ kind: 'open', pageId: 'cup-final', userAgent: 'jest' })]);
+  });
+
+  it('refuses expired and revoked links', async () => {
+    const db = mockDb({ page_passwords: protectedPages });
+    const { link, url } = await createShareLink(db, { pageId: 'cup-final', pageType: 'event-report', label: 'Ana', expiresInDays: 1 }, 'admin@x', 'https://app');
+    db.data.share_links[0].expiresAt = new Date(Date.now() - 1000).toISOString();
+    expect(await redeemShareLink(db, tokenFrom(url), 'event-report', 'cup-final', client)).toEqual({ ok: false, reason: 'expired' });
+
+    db.data.share_links[0].expiresAt = null;
+    expect((await revokeShareLink(db, link.id, 'admin@x')).status).toBe('revoked');
+    expect(await redeemShareLink(db, tokenFrom(url), 'event-report', 'cup-final', client)).toEqual({ ok: false, reason: 'revoked' });
+  });
+});
+
+describe('granted sessions', () => {
+  async function grantFor(db: Db, input: Doc) {
+    const { link, url } = await createShareLink(db, { pageId: 'cup-final', pageType: 'event-report', label: 'Ana', ...input }, 'admin@x', 'https://app');
+    await redeemShareLink(db, tokenFrom(url), 'event-report', 'cup-final', client);
+    setGrantCookie(mintPageAccessToken(undefined, 'event-report', 'cup-final', link.id));
+    return link;
+  }
+
+  it('ends access already granted when the link is revoked', async () => {
+    const db = mockDb({ page_passwords: protectedPages });
+    const link = await grantFor(db, { maxUses: 1 });
+
+    // A used-up link still serves the session it opened
+    expect(await hasPageAccess('event-report', 'cup-final')).toBe(true);
+    expect(await requirePageAccess('event-report', 'cup-final')).toBeNull();
+
+    await revokeShareLink(db, link.id, 'admin@x');
+    expect(await hasPageAccess('event-report', 'cup-final')).toBe(false);
+    expect((await requirePageAccess('event-report', 'cup-final'))?.status).toBe(401);
+  });
+
+  it('refuses downloads on a view-only link and logs views once per window', async () => {
+    const db = mockDb({ page_passwords: protectedPages });
+    await grantFor(db, {});
+
+    expect(await canDownloadPage('event-report', 'cup-final')).toBe(false);
+    const denied = await requirePageAccess('event-report', 'cup-final', { download: true });
+    expect(denied?.status).toBe(403);
+    expect(await denied?.json()).toMatchObject({ code: 'DOWNLOAD_NOT_ALLOWED' });
+
+    expect(await requirePageAccess('event-report', 'cup-final')).toBeNull();
+    expect(db.data.share_link_views.map((view) => view.kind)).toEqual(['open']);
+  });
+
+  it('a password unlock of the same page replaces the link grant', async () => {
+    const db = mockDb({ page_passwords: protectedPages });
+    const link = await grantFor(db, {});
+    const cookie = (await cookies()).get(PAGE_ACCESS_COOKIE)?.value;
+    setGrantCookie(mintPageAccessToken(cookie, 'event-report', 'cup-final'));
+
+    await revokeShareLink(db, link.id, 'admin@x');
+    expect(await hasPageAccess('event-report', 'cup-final')).toBe(true);
+    expect(await canDownloadPage('event-report', 'cup-final')).toBe(true);
+  });
+
+  it('denies a grant whose link opens a different page', async () => {
+    const db = mockDb({ page_passwords: protectedPages });
+    const link = await grantFor(db, {});
+    expect(await checkShareGrant(link.id, 'event-report', 'other-event', 'view')).toBe('denied');
+  });
+});
+
+describe('summarizeShareViews', () => {
+  it('totals views and downloads per link and lists pages newest first', () => {
+    const summary = summarizeShareViews([
+      { shareLinkId: 'a', pageType: 'partner-report', pageId: 'fc', kind: 'open', count: 1, lastAt: '2026-01-01T00:00:00Z' },
+      { shareLinkId: 'a', pageType: 'partner-report', pageId: 'fc', kind: 'view', count: 4, lastAt: '2026-01-03T00:00:00Z' },
+      { shareLinkId: 'a', pageType: 'partner-report', pageId: 'fc::variant=q3', kind: 'view', count: 2, lastAt: '2026-01-02T00:00:00Z' },
+      { shareLinkId: 'a', pageType: 'partner-report', pageId: 'fc', kind: 'download', count: 1, lastAt: '2026-01-04T00:00:00Z' },
+    ]);
+    expect(summary.get('a')).toEqual({
+      views: 7,
+      downloads: 1,
+      pages: [
+        { pageType: 'partner-report', pageId: 'fc', views: 5, lastViewAt: '2026-01-03T00:00:00Z' },
+        { pageType: 'partner-report', pageId: 'fc::variant=q3', views: 2, lastViewAt: '2026-01-02T00:00:00Z' },
+      ],
+    });
+  });
+});
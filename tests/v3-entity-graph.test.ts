@@ -0,0 +1,111 @@
+// tests/v3-entity-graph.test.ts
+// WHAT: Coverage for v3 relationship traversal — reading links from both ends,
+//     relation type filters, N-hop expansion, paths, and cycle safety.
+
+jest.mock('@/lib/models/v3/EntityRelationship', () => ({ __esModule: true, default: { find: jest.fn() } }));
+
+import {
+  clampHops,
+  expandGraph,
+  findPaths,
+  isSameRelationship,
+  parseRelationshipInput,
+  parseRelationTypes,
+  toGraphEdges,
+  type EdgeLoader,
+  type StoredRelationship,
+} from '@/lib/v3/entityGraph';
+
+// provider P serves clients C1, C2; C1 and C2 are sisters; C2 sister C3; C3 sister C1 (cycle)
+const relationships: StoredRelationship[] = [
+  { _id: 'r1', fromEntityId: 'P', toEntityId: 'C1', relationType: 'client' },
+  { _id: 'r2', fromEntityId: 'C2', toEntityId: 'P', relationType: 'provider' },
+  { _id: 'r3', fromEntityId: 'C1', toEntityId: 'C2', relationType: 'sister' },
+  { _id: 'r4', fromEntityId: 'C2', toEntityId: 'C3', relationType: 'sister' },
+  { _id: 'r5', fromEntityId: 'C3', toEntityId: 'C1', relationType: 'sister' },
+];
+
+function loader(): EdgeLoader & { calls: string[][] } {
+  const calls: string[][] = [];
+  const load = (async (ids: string[]) => {
+    calls.push(ids);
+    return relationships.flatMap(toGraphEdges).filter((e) => ids.includes(e.entityId));
+  }) as EdgeLoader & { calls: string[][] };
+  load.calls = calls;
+  return load;
+}
+
+describe('toGraphEdges / isSameRelationship', () => {
+  it('reads a link from both ends with the inverse type', () => {
+    expect(toGraphEdges(relationships[0])).toEqual([
+      { relationshipId: 'r1', entityId: 'P', neighborId: 'C1', relationType: 'client' },
+      { relationshipId: 'r1', entityId: 'C1', neighborId: 'P', relationType: 'provider' },
+    ]);
+  });
+
+  it('treats the reversed link with the inverse type as the same relationship', () => {
+    expect(isSameRelationship(relationships[0], { fromEntityId: 'C1', toEntityId: 'P', relationType: 'provider' })).toBe(true);
+    expect(isSameRelationship(relationships[0], { fromEntityId: 'C1', toEntityId: 'P', relationType: 'client' })).toBe(false);
+    expect(isSameRelationship(relationships[2], { fromEntityId: 'C2', toEntityId: 'C1', relationType: 'sister' })).toBe(true);
+  });
+});
+
+describe('expandGraph', () => {
+  it('finds all clients of a provider regardless of the stored direction', async () => {
+    const graph = await expandGraph('P', { maxHops: 1, relationTypes: ['client'], loadEdges: loader() });
+    expect(graph.nodes.map((n) => n.entityId)).toEqual(['P', 'C1', 'C2']);
+    expect(graph.nodes[2].via).toEqual({ entityId: 'P', relationType: 'client', relationshipId: 'r2' });
+  });
+
+  it('terminates on cycles and records the hop distance', async () => {
+    const load = loader();
+    const graph = await expandGraph('C1', { maxHops: 5, relationTypes: ['sister'], loadEdges: load });
+    expect(graph.nodes.map((n) => [n.entityId, n.hops])).toEqual([['C1', 0], ['C2', 1], ['C3', 1]]);
+    expect(load.calls).toEqual([['C1'], ['C2', 'C3']]);
+    expect(graph.truncated).toBe(false);
+  });
+
+  it('stops at the node cap', async () => {
+    const graph = await expandGraph('P', { maxHops: 3, relationTypes: null, loadEdges: loader(), maxNodes: 2 });
+    expect(graph.nodes).toHaveLength(2);
+    expect(graph.truncated).toBe(true);
+  });
+});
+
+describe('findPaths', () => {
+  it('returns simple paths, shortest first', async () => {
+    const paths = await findPaths('C1', 'C3', { maxHops: 3, relationTypes: ['sister'], loadEdges: loader() });
+    expect(paths.map((p) => p.map((e) => e.neighborId))).toEqual([['C3'], ['C2', 'C3']]);
+  });
+
+  it('respects the type filter and the limit', async () => {
+    expect(await findPaths('P', 'C3', { maxHops: 3, relationTypes: ['client'], loadEdges: loader() })).toEqual([]);
+    const paths = await findPaths('P', 'C3', { maxHops: 4, relationTypes: null, loadEdges: loader(), limit: 1 });
+    expect(paths).toHaveLength(1);
+    expect(paths[0].map((e) => e.relationType)).toEqual(['client', 'sister']);
+  });
+});
+
+describe('input parsing', () => {
+  it('validates relation type filters and hop counts', () => {
+    expect(parseRelationTypes('client, sister')).toEqual(['client', 'sister']);
+    expect(parseRelationTypes(null)).toBeNull();
+    expect(() => parseRelationTypes('client,partner')).toThrow('Unknown relation type(s): partner');
+    expect(clampHops('9')).toBe(5);
+    expect(clampHops('0')).toBe(1);
+    expect(clampHops(null, 2)).toBe(2);
+  });
+
+  it('validates relationship bodies', () => {
+    const a = '69b322e0cb8e841f95de9aa2';
+    const b = '69b322e0cb8e841f95de9aa3';
+    expect(parseRelationshipInput({ fromEntityId: a, toEntityId: b, relationType: 'client' })).toEqual({
+      fromEntityId: a,
+      toEntityId: b,
+      relationType: 'client',
+    });
+    expect(() => parseRelationshipInput({ fromEntityId: a, toEntityId: a, relationType: 'sister' })).toThrow(/itself/);
+    expect(() => parseRelationshipInput({ toEntityId: b }, { partial: true })).toThrow(/cannot be changed/);
+    expect(parseRelationshipInput({ relationType: 'associated' }, { partial: true })).toEqual({ relationType: 'associated' });
+  });
+});
@@ -0,0 +1,140 @@
+// tests/v3-metric-catalog.test.ts
+// WHAT: Coverage for catalog-enforced v3 metric ingestion — unknown keys,
+//     value type and range, unit conversion, idempotency keys, and the
+//     per-document insert outcomes.
+
+import type { WriteError as DriverWriteError } from 'mongodb';
+import {
+  classifyInsertResult,
+  normalizeMetricValue,
+  parseMetricDefinitionInput,
+  validateDataPoints,
+  type MetricDefinitionLike,
+} from '@/lib/v3/metricCatalog';
+
+const ORG_ID = '69b322e0cb8e841f95de9aa1';
+const ENTITY_ID = '69b322e0cb8e841f95de9aa2';
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const definitions = new Map<string, MetricDefinitionLike>([
+  ['attendance', { key: 'attendance', type: 'number', min: 0, integer: true }],
+  ['dwellTime', { key: 'dwellTime', type: 'duration', unit: 'min' }],
+  ['conversion', { key: 'conversion', type: 'percentage', min: 0, max: 100 }],
+  ['revenue', { key: 'revenue', type: 'currency', unit: 'EUR' }],
+]);
+
+function validate(dataPoints: unknown[], batchKey?: string) {
+  return validateDataPoints(dataPoints, {
+    organizationId: ORG_ID,
+    definitions,
+    entityIds: new Set([ENTITY_ID]),
+    batchKey,
+    now: NOW,
+  });
+}
+
+describe('normalizeMetricValue', () => {
+  it('converts durations into the definition unit', () => {
+    expect(normalizeMetricValue(definitions.get('dwellTime')!, 2, 'h')).toEqual({ value: 120, converted: true });
+    expect(normalizeMetricValue(definitions.get('dwellTime')!, 15)).toEqual({ value: 15, converted: false });
+  });
+
+  it('accepts ratios for percentages', () => {
+    expect(normalizeMetricValue(definitions.get('conversion')!, 0.25, 'ratio')).toEqual({ value: 25, converted: true });
+    expect(normalizeMetricValue(definitions.get('conversion')!, 25, '%')).toEqual({ value: 25, converted: false });
+  });
+
+  it('never converts between currencies', () => {
+    expect(normalizeMetricValue(definitions.get('revenue')!, 10, 'eur')).toEqual({ value: 10, converted: false });
+    expect(normalizeMetricValue(definitions.get('revenue')!, 10, 'USD')).toEqual({ error: "unit 'USD' cannot be converted to 'EUR'" });
+  });
+
+  it('checks type, integer and range', () => {
+    expect(normalizeMetricValue(definitions.get('attendance')!, '12')).toEqual({ error: 'value must be a finite number' });
+    expect(normalizeMetricValue(definitions.get('attendance')!, 1.5)).toEqual({ error: 'value must be a whole number' });
+    expect(normalizeMetricValue(definitions.get('attendance')!, -1)).toEqual({ error: 'value must be at least 0' });
+    expect(normalizeMetricValue(definitions.get('conversion')!, 1.5, 'ratio')).toEqual({ error: 'value must be at most 100' });
+  });
+});
+
+describe('validateDataPoints', () => {
+  it('keeps valid points and reports the rest by index', () => {
+    const { points, errors } = validate([
+      { metricKey: 'attendance', entityId: ENTITY_ID, value: 500 },
+      { metricKey: 'attendence', entityId: ENTITY_ID, value: 500 },
+      { metricKey: 'attendance', entityId: '69b322e0cb8e841f95de9aa9', value: 500 },
+      { metricKey: 'dwellTime', entityId: ENTITY_ID, value: 90, unit: 's', timestamp: '2026-10-18T20:00:00.000Z' },
+      { metricKey: 'attendance', entityId: ENTITY_ID, value: 5, timestamp: 'yesterday' },
+    ]);
+
+    expect(points.map((p) => p.index)).toEqual([0, 3]);
+    expect(points[0].document).toEqual({
+      organizationId: ORG_ID,
+      entityId: ENTITY_ID,
+      activityId: null,
+      metricKey: 'attendance',
+      value: 500,
+      timestamp: NOW,
+      metadata: {},
+    });
+    expect(points[1].document).toMatchObject({ value: 1.5, metadata: { originalValue: 90, originalUnit: 's' } });
+    expect(errors).toEqual([
+      { index: 1, metricKey: 'attendence', error: "unknown metricKey 'attendence' (not in the metric catalog)" },
+      { index: 2, metricKey: 'attendance', error: 'entityId not found in this organization' },
+      { index: 4, metricKey: 'attendance', error: 'timestamp must be an ISO date string' },
+    ]);
+  });
+
+  it('derives idempotency keys from the batch key unless a point has its own', () => {
+    const { points } = validate(
+      [
+        { metricKey: 'attendance', entityId: ENTITY_ID, value: 1 },
+        { metricKey: 'attendance', entityId: ENTITY_ID, value: 2, idempotencyKey: 'scan-42' },
+      ],
+      'batch-7'
+    );
+    expect(points.map((p) => p.document.idempotencyKey)).toEqual(['batch-7:0', 'scan-42']);
+    expect(validate([{ metricKey: 'attendance', entityId: ENTITY_ID, value: 1 }]).points[0].document).not.toHaveProperty('idempotencyKey');
+  });
+});
+
+// The driver class mongoose itself throws; the package root exports it as a type only
+const { WriteError } = require(require.resolve('mongodb/lib/bulk/common', { paths: [require.resolve('mongoose')] })) as {
+  WriteError: typeof DriverWriteError;
+};
+
+// The slot mongoose fills for a failed unordered insert: { ...writeError, index }
+function mongooseWriteResult(err: { index: number; code: number; errmsg: string }) {
+  return { ...new WriteError({ ...err, errInfo: {}, op: {} }), index: err.index };
+}
+
+describe('classifyInsertResult', () => {
+  it('treats duplicate idempotency keys as already recorded', () => {
+    expect(classifyInsertResult({ _id: 'x', value: 1 })).toEqual({ outcome: 'inserted' });
+    expect(classifyInsertResult(mongooseWriteResult({ index: 0, code: 11000, errmsg: 'E11000 duplicate key' }))).toEqual({ outcome: 'duplicate' });
+    expect(classifyInsertResult(mongooseWriteResult({ index: 1, code: 121, errmsg: 'Document failed validation' }))).toEqual({
+      outcome: 'failed',
+      error: 'Document failed validation',
+    });
+    expect(classifyInsertResult(new Error('Cast to ObjectId failed'))).toEqual({ outcome: 'failed', error: 'Cast to ObjectId failed' });
+  });
+});
+
+describe('parseMetricDefinitionInput', () => {
+  it('validates a new definition', () => {
+    expect(parseMetricDefinitionInput({ key: 'remoteFans', name: ' Remote Fans ', type: 'number', min: 0 })).toEqual({
+      key: 'remoteFans',
+      name: 'Remote Fans',
+      type: 'number',
+      min: 0,
+    });
+    expect(() => parseMetricDefinitionInput({ key: 'remote fans', name: 'x', type: 'number' })).toThrow(/key/);
+    expect(() => parseMetricDefinitionInput({ key: 'x', name: 'x', type: 'duration', unit: 'weeks' })).toThrow(/duration unit/);
+    expect(() => parseMetricDefinitionInput({ key: 'x', name: 'x', type: 'number', min: 10, max: 1 })).toThrow(/min/);
+  });
+
+  it('refuses to change the key on update', () => {
+    expect(() => parseMetricDefinitionInput({ key: 'other' }, { partial: true })).toThrow('key cannot be changed');
+    expect(parseMetricDefinitionInput({ max: null }, { partial: true })).toEqual({ max: null });
+  });
+});
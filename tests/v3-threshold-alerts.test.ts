@@ -0,0 +1,167 @@
+// tests/v3-threshold-alerts.test.ts
+// WHAT: Coverage for the v3 metric threshold evaluator — comparisons,
+//     hysteresis, cooldown, input validation, and the claim-once transition.
+
+jest.mock('@/lib/mongoose-v3', () => ({ __esModule: true, default: jest.fn() }));
+jest.mock('@/lib/db', () => ({ getDb: jest.fn() }));
+jest.mock('@/lib/models/v3/Entity', () => ({ __esModule: true, default: { findById: jest.fn() } }));
+jest.mock('@/lib/models/v3/MetricAlert', () => ({ __esModule: true, default: { create: jest.fn(), updateOne: jest.fn() } }));
+jest.mock('@/lib/models/v3/MetricThreshold', () => ({
+  __esModule: true,
+  default: { find: jest.fn(), updateOne: jest.fn(), findOneAndUpdate: jest.fn() },
+}));
+jest.mock('@/lib/v3/reporting/resolver', () => ({ V3ReportingResolver: { aggregateMetric: jest.fn() } }));
+jest.mock('@/lib/notificationUtils', () => ({ createNotification: jest.fn() }));
+jest.mock('@/lib/emailNotifications', () => ({ sendMetricThresholdAlertEmail: jest.fn() }));
+
+import V3Entity from '@/lib/models/v3/Entity';
+import V3MetricAlert from '@/lib/models/v3/MetricAlert';
+import V3MetricThreshold from '@/lib/models/v3/MetricThreshold';
+import { V3ReportingResolver } from '@/lib/v3/reporting/resolver';
+import { createNotification } from '@/lib/notificationUtils';
+import { sendMetricThresholdAlertEmail } from '@/lib/emailNotifications';
+import {
+  decideThresholdAction,
+  evaluateThresholds,
+  hasRecovered,
+  isBreached,
+  parseThresholdInput,
+} from '@/lib/v3/thresholdAlerts';
+
+const ENTITY_ID = '69b322e0cb8e841f95de9aa2';
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+describe('isBreached / hasRecovered', () => {
+  it('applies each comparison', () => {
+    expect(isBreached(101, 'gt', 100)).toBe(true);
+    expect(isBreached(100, 'gt', 100)).toBe(false);
+    expect(isBreached(100, 'gte', 100)).toBe(true);
+    expect(isBreached(99, 'lt', 100)).toBe(true);
+    expect(isBreached(100, 'lte', 100)).toBe(true);
+    expect(isBreached(100, 'eq', 100)).toBe(true);
+    expect(isBreached(100.5, 'eq', 100)).toBe(false);
+  });
+
+  it('re-arms as soon as the breach ends without hysteresis', () => {
+    expect(hasRecovered(100, 'gt', 100)).toBe(true);
+    expect(hasRecovered(101, 'gt', 100)).toBe(false);
+    expect(hasRecovered(100, 'lt', 100)).toBe(true);
+  });
+
+  it('requires the value to travel back by the hysteresis margin', () => {
+    expect(hasRecovered(95, 'gt', 100, 10)).toBe(false);
+    expect(hasRecovered(90, 'gt', 100, 10)).toBe(true);
+    expect(hasRecovered(105, 'lt', 100, 10)).toBe(false);
+    expect(hasRecovered(110, 'lt', 100, 10)).toBe(true);
+    expect(hasRecovered(104, 'eq', 100, 5)).toBe(false);
+    expect(hasRecovered(106, 'eq', 100, 5)).toBe(true);
+  });
+});
+
+describe('decideThresholdAction', () => {
+  const rule = { comparison: 'gt' as const, thresholdValue: 100, hysteresis: 10, cooldownMinutes: 60 };
+
+  it('triggers on the first breach', () => {
+    expect(decideThresholdAction({ ...rule, state: 'ok' }, 120, NOW)).toBe('trigger');
+    expect(decideThresholdAction(rule, 120, NOW)).toBe('trigger');
+  });
+
+  it('stays quiet while a triggered threshold remains breached or inside the hysteresis band', () => {
+    expect(decideThresholdAction({ ...rule, state: 'triggered' }, 150, NOW)).toBe('none');
+    expect(decideThresholdAction({ ...rule, state: 'triggered' }, 95, NOW)).toBe('none');
+    expect(decideThresholdAction({ ...rule, state: 'triggered' }, 90, NOW)).toBe('recover');
+  });
+
+  it('suppresses a re-breach inside the cooldown and triggers after it', () => {
+    const recent = new Date(NOW.getTime() - 30 * 60 * 1000);
+    const old = new Date(NOW.getTime() - 61 * 60 * 1000);
+    expect(decideThresholdAction({ ...rule, state: 'ok', lastNotifiedAt: recent }, 120, NOW)).toBe('suppress');
+    expect(decideThresholdAction({ ...rule, state: 'ok', lastNotifiedAt: old.toISOString() }, 120, NOW)).toBe('trigger');
+  });
+});
+
+describe('parseThresholdInput', () => {
+  const valid = { entityId: ENTITY_ID, metricKey: ' female ', thresholdValue: 100, comparison: 'gte' };
+
+  it('accepts a full definition and trims strings', () => {
+    expect(parseThresholdInput({ ...valid, alertEmail: ' ops@example.com ', windowDays: 7 })).toEqual({
+      entityId: ENTITY_ID,
+      metricKey: 'female',
+      thresholdValue: 100,
+      comparison: 'gte',
+      alertEmail: 'ops@example.com',
+      windowDays: 7,
+    });
+  });
+
+  it('rejects invalid fields with a 400', () => {
+    expect(() => parseThresholdInput({ ...valid, comparison: 'between' })).toThrow(/comparison/);
+    expect(() => parseThresholdInput({ ...valid, alertEmail: 'nope' })).toThrow(/alertEmail/);
+    expect(() => parseThresholdInput({ ...valid, cooldownMinutes: -1 })).toThrow(/cooldownMinutes/);
+    let thrown: unknown;
+    try {
+      parseThresholdInput({ ...valid, entityId: 'abc' });
+    } catch (err) {
+      thrown = err;
+    }
+    expect((thrown as { status?: number }).status).toBe(400);
+  });
+
+  it('only validates the given fields on a partial update', () => {
+    expect(parseThresholdInput({ hysteresis: 5, alertEmail: '' }, { partial: true })).toEqual({ hysteresis: 5, alertEmail: null });
+  });
+});
+
+describe('evaluateThresholds', () => {
+  const threshold = {
+    _id: 'threshold-1',
+    organizationId: '69b322e0cb8e841f95de9aa1',
+    entityId: ENTITY_ID,
+    metricKey: 'female',
+    thresholdValue: 100,
+    comparison: 'gt',
+    alertEmail: 'ops@example.com',
+    state: 'ok',
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (V3MetricThreshold.find as jest.Mock).mockReturnValue({ lean: () => Promise.resolve([threshold]) });
+    (V3ReportingResolver.aggregateMetric as jest.Mock).mockResolvedValue({ total: 150 });
+    (V3Entity.findById as jest.Mock).mockReturnValue({ select: () => ({ lean: () => Promise.resolve({ name: 'Arena' }) }) });
+    (V3MetricAlert.create as jest.Mock).mockResolvedValue({ _id: 'alert-1' });
+    (sendMetricThresholdAlertEmail as jest.Mock).mockResolvedValue({ sent: true });
+    (createNotification as jest.Mock).mockResolvedValue(true);
+  });
+
+  it('records the alert and sends email and in-app notifications once', async () => {
+    (V3MetricThreshold.findOneAndUpdate as jest.Mock).mockResolvedValue(threshold);
+
+    const summary = await evaluateThresholds({ metricKeys: ['female'], source: 'record', now: NOW });
+
+    expect(summary).toEqual({ evaluated: 1, triggered: 1, suppressed: 0, recovered: 0, failed: 0 });
+    expect((V3MetricThreshold.findOneAndUpdate as jest.Mock).mock.calls[0][0]).toEqual({ _id: 'threshold-1', state: { $ne: 'triggered' } });
+    expect(V3MetricAlert.create).toHaveBeenCalledWith(expect.objectContaining({ kind: 'triggered', value: 150, suppressed: false, source: 'record' }));
+    expect(sendMetricThresholdAlertEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'ops@example.com', entityName: 'Arena', value: 150 }));
+    expect(createNotification).toHaveBeenCalledWith(undefined, expect.objectContaining({ activityType: 'metric_threshold_alert', projectId: 'threshold-1' }));
+    expect(V3MetricAlert.updateOne).toHaveBeenCalledWith({ _id: 'alert-1' }, { $set: { emailSent: true, emailError: undefined, notified: true } });
+  });
+
+  it('does nothing when another run already claimed the transition', async () => {
+    (V3MetricThreshold.findOneAndUpdate as jest.Mock).mockResolvedValue(null);
+
+    const summary = await evaluateThresholds({ source: 'schedule', now: NOW });
+
+    expect(summary.triggered).toBe(0);
+    expect(V3MetricAlert.create).not.toHaveBeenCalled();
+    expect(sendMetricThresholdAlertEmail).not.toHaveBeenCalled();
+  });
+
+  it('counts a failing threshold without throwing', async () => {
+    (V3ReportingResolver.aggregateMetric as jest.Mock).mockRejectedValue(new Error('boom'));
+
+    const summary = await evaluateThresholds({ source: 'schedule', now: NOW });
+
+    expect(summary).toEqual({ evaluated: 0, triggered: 0, suppressed: 0, recovered: 0, failed: 1 });
+  });
+});
@@ -0,0 +1,99 @@
+// tests/variable-dependencies.test.ts
+// WHAT: Coverage for the variable dependency graph: reference extraction,
+//     cycle detection, topological evaluation of derived variables, and the
+//     impact walk from a variable out to charts, blocks and report templates.
+// HOW: Pure functions over in-memory DependencySources; the Mongo loaders run
+//     against a stub Db that returns fixed documents per collection.
+
+import {
+  analyzeVariableImpact,
+  buildDependencyGraph,
+  computeDerivedVariables,
+  extractFormulaDependencies,
+  findDependencyCycle,
+  loadDerivedVariables,
+  sortDerivedVariables,
+  type DependencySources,
+  type DerivedVariableDefinition,
+} from '@/lib/variableDependencies';
+
+const registry = (name: string, formula: string): DerivedVariableDefinition => ({ name, formula, source: 'registry' });
+
+const stubDb = (docs: Record<string, unknown[]>) =>
+  ({ collection: (name: string) => ({ find: () => ({ toArray: async () => docs[name] || [] }) }) }) as never;
+
+describe('variable dependencies', () => {
+  it('extracts stats references and skips PARAM/MANUAL/MEDIA/TEXT tokens', () => {
+    expect(extractFormulaDependencies('IF([male] > 0, [female] / [male], 0) * [PARAM:multiplier]')).toEqual(['male', 'female']);
+    expect(extractFormulaDependencies('ROUND(totalFans)')).toEqual(['totalFans']);
+    // unparseable formulas still report their bracketed tokens
+    expect(extractFormulaDependencies('([female] + [male]')).toEqual(['female', 'male']);
+  });
+
+  it('finds cycles through other derived variables', () => {
+    expect(findDependencyCycle([registry('a', '[b] + 1'), registry('b', '[c]'), registry('c', '[female]')])).toBeNull();
+    expect(findDependencyCycle([registry('a', '[b] + 1'), registry('b', '[c]'), registry('c', '[a]')])).toEqual(['a', 'b', 'c', 'a']);
+    expect(findDependencyCycle([registry('self', '[self] * 2')])).toEqual(['self', 'self']);
+  });
+
+  it('orders derived variables so dependencies come first', () => {
+    const order = sortDerivedVariables([registry('ratio', '[share] / 100'), registry('share', '[female] / [total] * 100'), registry('total', '[female] + [male]')]);
+    expect(order.map((d) => d.name)).toEqual(['total', 'share', 'ratio']);
+    expect(() => sortDerivedVariables([registry('a', '[b]'), registry('b', '[a]')])).toThrow(/cycle: a → b → a/);
+  });
+
+  it('computes registry derived variables on top of the built-in totals', () => {
+    const stats = computeDerivedVariables({ indoor: 20, outdoor: 10, stadium: 70, female: 40 }, [
+      registry('femaleShare', '[female] / [totalFans] * 100'),
+      registry('femaleShareRounded', 'ROUND([femaleShare])'),
+    ]);
+    expect(stats.totalFans).toBe(100);
+    expect(stats.femaleShare).toBe(40);
+    expect(stats.femaleShareRounded).toBe(40);
+  });
+
+  it('loads the built-in editor totals until a derived_variable_config document is saved', async () => {
+    const unsaved = await loadDerivedVariables(stubDb({ variables_metadata: [{ name: 'genderRatio', derived: true, formula: '[female] / [totalGender]' }] }));
+    expect(unsaved.find((d) => d.name === 'totalGender')).toEqual({ name: 'totalGender', formula: '[female]+[male]', source: 'derived-config' });
+    const order = sortDerivedVariables(unsaved).map((d) => d.name);
+    expect(order.indexOf('totalGender')).toBeLessThan(order.indexOf('genderRatio'));
+
+    const saved = await loadDerivedVariables(stubDb({ derived_variable_config: [{ totals: [{ key: 'totalMerch', formula: '[scarf]' }] }] }));
+    expect(saved.map((d) => d.name)).toContain('totalMerch');
+    expect(saved.map((d) => d.name)).not.toContain('totalGender');
+  });
+
+  it('lists every derived variable, chart, block and template a variable reaches', () => {
+    const sources: DependencySources = {
+      variables: [{ name: 'indoor', label: 'Indoor' }, { name: 'female' }, { name: 'femaleShare', label: 'Female share', derived: true, formula: '[female] / [totalFans]' }],
+      derivedConfigs: [{ totals: [{ key: 'totalGender', formula: '[female]+[male]' }] }],
+      charts: [
+        { chartId: 'fans-kpi', title: 'Fans', elements: [{ formula: '[totalFans]' }] },
+        { chartId: 'female-share', title: 'Female share', elements: [{ formula: '[femaleShare] * 100' }] },
+        { chartId: 'images', title: 'Images', elements: [{ formula: '[allImages]' }] },
+      ],
+      blocks: [
+        { _id: 'b1', name: 'Audience', charts: [{ chartId: 'fans-kpi' }] },
+        { _id: 'b2', name: 'Media', charts: [{ chartId: 'images' }] },
+      ],
+      templates: [{ _id: 't1', name: 'Default', dataBlocks: [{ blockId: 'b1' }, { blockId: 'b2' }] }],
+    };
+    const graph = buildDependencyGraph(sources);
+
+    expect(analyzeVariableImpact(graph, ['indoor'])).toEqual({
+      variables: ['indoor'],
+      derivedVariables: [
+        { name: 'femaleShare', label: 'Female share', source: 'registry' },
+        { name: 'remoteFans', label: 'remoteFans', source: 'builtin' },
+        { name: 'totalFans', label: 'totalFans', source: 'builtin' },
+      ],
+      charts: [{ chartId: 'fans-kpi', title: 'Fans' }, { chartId: 'female-share', title: 'Female share' }],
+      blocks: [{ id: 'b1', name: 'Audience' }],
+      templates: [{ id: 't1', name: 'Default' }],
+    });
+    expect(analyzeVariableImpact(graph, ['male']).derivedVariables).toEqual([
+      { name: 'totalGender', label: 'totalGender', source: 'derived-config' },
+    ]);
+    expect(analyzeVariableImpact(graph, ['unused']).charts).toEqual([]);
+  });
+});